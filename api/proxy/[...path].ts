@@ -1,5 +1,26 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 
+// Request headers passed through to the backend: credentials attached by the frontend's
+// credential manager, conditional-write preconditions, plus any custom API key header
+// listed in PROXY_FORWARD_HEADERS (comma-separated)
+const FORWARDED_REQUEST_HEADERS = [
+  'authorization',
+  'x-api-key',
+  'if-match',
+  ...(process.env.PROXY_FORWARD_HEADERS ?? '').split(',').map(header => header.trim().toLowerCase()).filter(Boolean)
+]
+
+function forwardedHeaders(req: VercelRequest): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name]
+    if (value) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value
+    }
+  }
+  return headers
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { path } = req.query
   
@@ -17,9 +38,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
-        // Forward any other headers that might be needed
-        ...(req.headers.authorization && { 'Authorization': req.headers.authorization }),
-        ...(req.headers['x-api-key'] && { 'X-API-Key': req.headers['x-api-key'] as string }),
+        ...forwardedHeaders(req),
       },
       body: req.method !== 'GET' && req.method !== 'HEAD' ? JSON.stringify(req.body) : undefined
     })
@@ -38,7 +57,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.status(response.status)
     
     // Forward important headers from the backend
-    const headersToForward = ['content-type', 'x-paging-count', 'x-paging-limit', 'x-paging-nextkey', 'x-paging-prevkey', 'x-paging-firstkey', 'x-paging-lastkey', 'x-paging-timerange', 'x-paging-reverseorder', 'link']
+    const headersToForward = ['content-type', 'x-paging-count', 'x-paging-limit', 'x-paging-nextkey', 'x-paging-prevkey', 'x-paging-firstkey', 'x-paging-lastkey', 'x-paging-timerange', 'x-paging-reverseorder', 'link', 'etag', 'www-authenticate']
     
     headersToForward.forEach(header => {
       const value = response.headers.get(header)
@@ -68,6 +87,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 export async function OPTIONS(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*')
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, HEAD')
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key')
+  res.setHeader('Access-Control-Allow-Headers', ['Content-Type', ...FORWARDED_REQUEST_HEADERS].join(', '))
   res.status(200).end()
 }
@@ -31,9 +31,22 @@ export default [
         Request: 'readonly',
         Response: 'readonly',
         RequestInit: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        DOMException: 'readonly',
+        structuredClone: 'readonly',
+        crypto: 'readonly',
+        TextEncoder: 'readonly',
         File: 'readonly',
         FileReader: 'readonly',
         HTMLVideoElement: 'readonly',
+        HTMLInputElement: 'readonly',
+        HTMLDivElement: 'readonly',
+        Element: 'readonly',
+        DOMParser: 'readonly',
+        FileSystemEntry: 'readonly',
+        FileSystemFileEntry: 'readonly',
+        FileSystemDirectoryEntry: 'readonly',
         HTMLCanvasElement: 'readonly',
         CanvasRenderingContext2D: 'readonly',
         MediaRecorder: 'readonly',
@@ -42,6 +55,11 @@ export default [
         screen: 'readonly',
         localStorage: 'readonly',
         sessionStorage: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBObjectStore: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransactionMode: 'readonly',
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         setInterval: 'readonly',
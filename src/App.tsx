@@ -19,6 +19,7 @@ import Objects from './pages/Objects';
 import QCStatistics from './pages/QCStatistics';
 import { BackendProvider } from './contexts/BackendContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { TimeDisplayProvider } from './contexts/TimeDisplayContext';
 import { Sidebar } from './components/Sidebar';
 import './styles/dark-mode-fixed.css';
 
@@ -101,9 +102,11 @@ function AppContent() {
   return (
     <MantineProvider theme={theme} defaultColorScheme="dark" withCssVariables>
       <BackendProvider>
-        <Router>
-          <AppLayout />
-        </Router>
+        <TimeDisplayProvider>
+          <Router>
+            <AppLayout />
+          </Router>
+        </TimeDisplayProvider>
       </BackendProvider>
     </MantineProvider>
   );
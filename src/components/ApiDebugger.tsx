@@ -9,10 +9,13 @@ import {
   Group,
   Badge,
   Loader,
-  Center
+  Center,
+  Divider
 } from '@mantine/core';
 import { IconBug, IconRefresh } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { SchemaDriftLog } from './SchemaDriftLog';
+import { SessionRecorderPanel } from './SessionRecorderPanel';
 
 export default function ApiDebugger() {
   const [debugData, setDebugData] = useState<any>(null);
@@ -48,9 +51,9 @@ export default function ApiDebugger() {
 
       // Test segments if we have flows
       let segmentsResponse = null;
-      if (flowsResponse.data && flowsResponse.data.length > 0) {
+      const firstFlow = flowsResponse.data?.[0];
+      if (firstFlow) {
         console.log('Testing segments for first flow...');
-        const firstFlow = flowsResponse.data[0];
         console.log('First flow:', firstFlow);
         
         try {
@@ -172,6 +175,12 @@ export default function ApiDebugger() {
             )}
           </Stack>
         )}
+
+        <Divider />
+        <SessionRecorderPanel />
+
+        <Divider />
+        <SchemaDriftLog />
       </Stack>
     </Card>
   );
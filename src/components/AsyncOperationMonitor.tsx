@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Card,
   Title,
@@ -47,6 +47,8 @@ import {
   IconDatabase,
   IconSettings
 } from '@tabler/icons-react';
+import { replicationManager, replicationProgress } from '../services/replication';
+import type { ReplicationJob } from '../types/backend';
 
 // BBC TAMS API v6.0 Async Operation Types
 interface AsyncOperation {
@@ -80,7 +82,7 @@ interface DeletionRequest extends AsyncOperation {
 }
 
 interface AsyncOperationMonitorProps {
-  operationType?: 'all' | 'deletion' | 'upload' | 'processing';
+  operationType?: 'all' | 'deletion' | 'upload' | 'processing' | 'migration';
   onCancel?: (operationId: string) => void;
   onRetry?: (operationId: string) => void;
   onViewDetails?: (operation: AsyncOperation) => void;
@@ -89,6 +91,48 @@ interface AsyncOperationMonitorProps {
   refreshInterval?: number;
 }
 
+// Times a failed or cancelled replication can be resumed from the monitor
+const REPLICATION_MAX_RESUMES = 10;
+
+const REPLICATION_STATUS: Record<ReplicationJob['status'], AsyncOperation['status']> = {
+  planned: 'pending',
+  running: 'in_progress',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled'
+};
+
+// Replication jobs are shown as migrations of their source
+function replicationOperation(job: ReplicationJob): AsyncOperation {
+  const count = (kind: string) => job.steps.filter(step => step.kind === kind && step.status !== 'skipped').length;
+  const operation: AsyncOperation = {
+    id: job.id,
+    operation_type: 'migration',
+    entity_type: 'source',
+    entity_id: job.sourceId,
+    entity_name: job.sourceLabel || job.sourceId,
+    status: REPLICATION_STATUS[job.status],
+    progress: replicationProgress(job),
+    started_at: job.createdAt,
+    created_by: 'this browser',
+    priority: 'medium',
+    description: `Replication ${job.fromBackendId} → ${job.toBackendId}: ${count('flow')} flows, ${count('segment')} segments`
+      + (job.sharedStorage ? ' (shared storage)' : ''),
+    retry_count: Math.max(job.attempts - 1, 0),
+    max_retries: REPLICATION_MAX_RESUMES,
+    timeout_seconds: 0,
+    metadata: {
+      timerange: job.timerange ?? 'all',
+      steps_done: job.steps.filter(step => step.status === 'done').length,
+      steps_skipped: job.steps.filter(step => step.status === 'skipped').length,
+      steps_total: job.steps.length
+    }
+  };
+  if (job.status === 'completed') operation.completed_at = job.updatedAt;
+  if (job.error) operation.error_message = job.error;
+  return operation;
+}
+
 export function AsyncOperationMonitor({
   operationType = 'all',
   onCancel,
@@ -106,6 +150,16 @@ export function AsyncOperationMonitor({
   const [error, setError] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [replicationJobs, setReplicationJobs] = useState<ReplicationJob[]>(() => replicationManager.list());
+
+  // Replication jobs report their own progress
+  useEffect(() => replicationManager.subscribe(setReplicationJobs), []);
+
+  const allOperations = useMemo(
+    () => [...replicationJobs.map(replicationOperation), ...operations],
+    [replicationJobs, operations]
+  );
+  const isReplication = (operationId: string) => replicationJobs.some(job => job.id === operationId);
 
   // Load operations data
   useEffect(() => {
@@ -194,6 +248,10 @@ export function AsyncOperationMonitor({
   };
 
   const handleCancelOperation = async (operationId: string) => {
+    if (isReplication(operationId)) {
+      replicationManager.cancel(operationId);
+      return;
+    }
     if (onCancel) {
       await onCancel(operationId);
     }
@@ -210,6 +268,11 @@ export function AsyncOperationMonitor({
   };
 
   const handleRetryOperation = async (operationId: string) => {
+    if (isReplication(operationId)) {
+      // Resumes from the step that failed; the outcome is reported through the job
+      replicationManager.run(operationId).catch(err => setError(`Failed to resume replication: ${err.message}`));
+      return;
+    }
     if (onRetry) {
       await onRetry(operationId);
     }
@@ -284,7 +347,14 @@ export function AsyncOperationMonitor({
     return `${minutes}m ${seconds}s`;
   };
 
-  const filteredOperations = operations.filter(op => {
+  const canRetry = (operation: AsyncOperation) => {
+    const resumable = isReplication(operation.id)
+      ? operation.status === 'failed' || operation.status === 'cancelled' || operation.status === 'pending'
+      : operation.status === 'failed';
+    return resumable && operation.retry_count < operation.max_retries;
+  };
+
+  const filteredOperations = allOperations.filter(op => {
     const matchesType = operationType === 'all' || op.operation_type === operationType;
     const matchesStatus = filterStatus === 'all' || op.status === filterStatus;
     const matchesSearch = op.entity_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -292,7 +362,7 @@ export function AsyncOperationMonitor({
     return matchesType && matchesStatus && matchesSearch;
   });
 
-  if (isLoading && operations.length === 0) {
+  if (isLoading && allOperations.length === 0) {
     return (
       <Card withBorder>
         <Stack gap="md" align="center" py="xl">
@@ -302,7 +372,7 @@ export function AsyncOperationMonitor({
     );
   }
 
-  if (error && operations.length === 0) {
+  if (error && allOperations.length === 0) {
     return (
       <Card withBorder>
         <Alert icon={<IconAlertCircle size={16} />} color="red" title="Error">
@@ -373,6 +443,12 @@ export function AsyncOperationMonitor({
             />
           </Group>
 
+          {!replicationManager.persisted && (
+            <Alert icon={<IconAlertCircle size={16} />} color="yellow">
+              <Text size="sm">Replication jobs could not be saved to browser storage and will be lost on reload.</Text>
+            </Alert>
+          )}
+
           <Divider />
 
           {/* Operations Overview */}
@@ -449,7 +525,7 @@ export function AsyncOperationMonitor({
                                 <IconSquare size={14} />
                               </ActionIcon>
                             )}
-                            {operation.status === 'failed' && operation.retry_count < operation.max_retries && (
+                            {canRetry(operation) && (
                               <ActionIcon
                                 size="sm"
                                 variant="light"
@@ -682,7 +758,7 @@ export function AsyncOperationMonitor({
                   Cancel Operation
                 </Button>
               )}
-              {selectedOperation.status === 'failed' && selectedOperation.retry_count < selectedOperation.max_retries && (
+              {canRetry(selectedOperation) && (
                 <Button
                   color="green"
                   onClick={() => {
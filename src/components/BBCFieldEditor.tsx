@@ -18,6 +18,10 @@ import {
 } from '@mantine/core';
 import { IconEdit, IconTrash, IconEye, IconRefresh, IconCheck, IconX } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { NotFoundError } from '../services/errors';
+import { applyChanges, conditionalOptions, type FieldValues } from '../services/concurrency';
+import { useConflictResolution } from '../hooks/useConflictResolution';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
 
 // BBC TAMS Field Editor Props - standardized interface
 interface BBCFieldEditorProps {
@@ -94,6 +98,7 @@ export default function BBCFieldEditor({
   const [operationHistory, setOperationHistory] = useState<FieldOperation[]>([]);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const { save, conflict, resolve, cancel } = useConflictResolution();
 
   // Load available fields on component mount
   useEffect(() => {
@@ -164,27 +169,60 @@ export default function BBCFieldEditor({
     }
   };
 
+  /**
+   * Read a field's current value on the backend; a missing field reads as undefined
+   */
+  const readField = async (fieldKey: string): Promise<unknown> => {
+    try {
+      return await apiClient.getFieldValue(entityType, entityId, fieldKey);
+    } catch (err) {
+      if (err instanceof NotFoundError) return undefined;
+      throw err;
+    }
+  };
+
+  /**
+   * Conditionally write one field (`undefined` deletes it), based on the value shown in the
+   * editor; if another operator changed the field meanwhile the conflict dialog opens
+   */
+  const saveField = (fieldKey: string, value: unknown): Promise<boolean> => save({
+    original: { [fieldKey]: fields[fieldKey] },
+    yours: { [fieldKey]: value },
+    loadTheirs: async () => ({ [fieldKey]: await readField(fieldKey) }),
+    write: async (changes: FieldValues) => {
+      const options = conditionalOptions(apiClient.getBackend().id, `/${entityType}/${entityId}/${fieldKey}`);
+      if (fieldKey in changes && changes[fieldKey] === undefined) {
+        await apiClient.deleteField(entityType, entityId, fieldKey, options);
+      } else if (fieldKey in changes) {
+        await apiClient.updateFieldValue(entityType, entityId, fieldKey, changes[fieldKey], options);
+      }
+    }
+  }, values => {
+    const saved = values[fieldKey];
+    const nextFields = applyChanges(fields, { [fieldKey]: saved });
+    setFields(nextFields);
+
+    // Update operation history
+    addOperationToHistory(saved === undefined
+      ? { type: 'DELETE', fieldKey, success: true }
+      : { type: 'PUT', fieldKey, success: true, response: saved });
+
+    // Notify parent component
+    if (saved === undefined) {
+      onFieldDelete?.(fieldKey);
+    } else {
+      onFieldUpdate?.(fieldKey, saved);
+    }
+    onFieldsChange?.(nextFields);
+  });
+
   const handleUpdateField = async (fieldKey: string, value: string) => {
     try {
       setLoading(true);
       setError(null);
       
-      await apiClient.updateFieldValue(entityType, entityId, fieldKey, value);
-      
-      // Update local fields state
-      setFields(prev => ({ ...prev, [fieldKey]: value }));
-      
-      // Update operation history
-      addOperationToHistory({
-        type: 'PUT',
-        fieldKey,
-        success: true,
-        response: value
-      });
-      
-      // Notify parent component
-      onFieldUpdate?.(fieldKey, value);
-      onFieldsChange?.(fields);
+      // Hands over to the conflict dialog if the field changed on the backend meanwhile
+      await saveField(fieldKey, value);
       
       // Reset editing state
       setEditingField(null);
@@ -210,22 +248,8 @@ export default function BBCFieldEditor({
       setLoading(true);
       setError(null);
       
-      await apiClient.deleteField(entityType, entityId, fieldKey);
-      
-      // Remove from local fields state
-      const { [fieldKey]: removed, ...remainingFields } = fields;
-      setFields(remainingFields);
-      
-      // Update operation history
-      addOperationToHistory({
-        type: 'DELETE',
-        fieldKey,
-        success: true
-      });
-      
-      // Notify parent component
-      onFieldDelete?.(fieldKey);
-      onFieldsChange?.(remainingFields);
+      // Hands over to the conflict dialog if the field changed on the backend meanwhile
+      await saveField(fieldKey, undefined);
       
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Unknown error';
@@ -507,6 +531,13 @@ export default function BBCFieldEditor({
           </Alert>
         </Stack>
       </Card.Section>
+
+      <ConflictResolutionModal
+        conflict={conflict}
+        onResolve={resolve}
+        onCancel={cancel}
+        itemName={entityType.replace(/s$/, '')}
+      />
     </Card>
   );
 }
@@ -35,16 +35,8 @@ import {
   IconWebhook,
   IconActivity
 } from '@tabler/icons-react';
-import {
-  getWebhooks,
-  createWebhook,
-  updateWebhook,
-  deleteWebhook,
-  testWebhook,
-  getWebhookHistory,
-  getWebhookStats,
-  getWebhookEventTypes
-} from '../services/bbcTamsApi';
+import { apiClient } from '../services/api';
+import type { WebhookEvent } from '../types/tams';
 
 interface WebhookData {
   id?: string; // Backend doesn't provide IDs, we'll generate them
@@ -82,6 +74,19 @@ interface WebhookStats {
   last_delivery?: string;
 }
 
+/**
+ * The fields the backend stores for a webhook; name, description and active are UI-only
+ */
+function toBackendWebhook(webhook: WebhookData) {
+  return {
+    url: webhook.url,
+    events: webhook.events as WebhookEvent[],
+    ...(webhook.api_key_name && { api_key_name: webhook.api_key_name }),
+    ...(webhook.api_key_value && { api_key_value: webhook.api_key_value }),
+    ...(webhook.owner_id && { owner_id: webhook.owner_id })
+  };
+}
+
 export default function BBCWebhookManager() {
   const [webhooks, setWebhooks] = useState<WebhookData[]>([]);
   const [loading, setLoading] = useState(false);
@@ -119,7 +124,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      const response = await getWebhooks();
+      const response = await apiClient.getWebhooks();
       if (response && response.data && Array.isArray(response.data)) {
         // Transform backend data to include UI fields
         const webhooksWithUI = response.data.map((webhook: any, index: number) => ({
@@ -146,7 +151,7 @@ export default function BBCWebhookManager() {
 
   const loadEventTypes = async () => {
     try {
-      const events = await getWebhookEventTypes();
+      const events = await apiClient.getWebhookEventTypes();
       setEventTypes(events);
     } catch (err) {
       console.warn('Could not load webhook event types:', err);
@@ -159,16 +164,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      // Prepare data for backend (only send supported fields)
-      const backendData = {
-        url: formData.url,
-        events: formData.events,
-        ...(formData.api_key_name && { api_key_name: formData.api_key_name }),
-        ...(formData.api_key_value && { api_key_value: formData.api_key_value }),
-        ...(formData.owner_id && { owner_id: formData.owner_id })
-      };
-      
-      const newWebhook = await createWebhook(backendData);
+      const newWebhook = await apiClient.createWebhook(toBackendWebhook(formData));
       
       // Add to local state with generated ID and UI fields
       const webhookWithUI = {
@@ -209,7 +205,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      const updatedWebhook = await updateWebhook(selectedWebhook.id!, formData);
+      const updatedWebhook = await apiClient.updateWebhook(selectedWebhook.id!, toBackendWebhook(formData));
       
       // Update local state
       setWebhooks(prev => prev.map(wh => 
@@ -243,7 +239,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      await deleteWebhook(webhookId);
+      await apiClient.deleteWebhook(webhookId);
       
       // Remove from local state
       setWebhooks(prev => prev.filter(wh => wh.id !== webhookId));
@@ -261,7 +257,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      const result = await testWebhook(webhookId);
+      const result = await apiClient.testWebhook(webhookId);
       console.log('Webhook test result:', result);
       
       // Show success message
@@ -280,7 +276,7 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      const response = await getWebhookHistory(webhook.id!);
+      const response = await apiClient.getWebhookHistory(webhook.id!) as { data?: WebhookHistoryItem[] } | null;
       if (response && response.data && Array.isArray(response.data)) {
         setWebhookHistory(response.data);
         setSelectedWebhook(webhook);
@@ -299,8 +295,8 @@ export default function BBCWebhookManager() {
       setLoading(true);
       setError(null);
       
-      const stats = await getWebhookStats(webhook.id!);
-      setWebhookStats(stats);
+      const stats = await apiClient.getWebhookStats(webhook.id!);
+      setWebhookStats(stats as WebhookStats);
       setSelectedWebhook(webhook);
       setShowStatsModal(true);
     } catch (err) {
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Badge, Tooltip } from '@mantine/core';
+import { useBackend } from '../contexts/BackendContext';
+
+// One colour per backend, in the order backends are listed
+const BACKEND_COLORS = ['blue', 'grape', 'teal', 'orange', 'pink', 'lime', 'cyan', 'yellow'];
+
+interface BackendBadgeProps {
+  backendId: string;
+  size?: 'xs' | 'sm' | 'md';
+}
+
+export function BackendBadge({ backendId, size = 'xs' }: BackendBadgeProps) {
+  const { availableBackends } = useBackend();
+  const index = availableBackends.findIndex(backend => backend.id === backendId);
+  const backend = availableBackends[index];
+
+  return (
+    <Tooltip label={backend ? `${backend.name} (${backend.baseUrl})` : backendId}>
+      <Badge size={size} variant="light" color={(index >= 0 && BACKEND_COLORS[index % BACKEND_COLORS.length]) || 'gray'}>
+        {backend?.name ?? backendId}
+      </Badge>
+    </Tooltip>
+  );
+}
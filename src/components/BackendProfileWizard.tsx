@@ -0,0 +1,389 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Stepper,
+  Stack,
+  Group,
+  Button,
+  TextInput,
+  NumberInput,
+  PasswordInput,
+  Select,
+  Text,
+  Alert,
+  Badge,
+  Loader,
+  SimpleGrid,
+  List
+} from '@mantine/core';
+import { IconAlertCircle, IconCheck, IconX, IconPlugConnected } from '@tabler/icons-react';
+import { MOCK_TAMS_BASE_URL, type BackendApiConfig } from '../config/apiConfig';
+import type {
+  BackendCapabilities,
+  BackendConnectionTest,
+  BackendProfileDraft,
+  BackendValidationResult
+} from '../types/backend';
+import { apiServiceFactory } from '../services/apiServiceFactory';
+import { backendProfiles, profileId } from '../services/backendProfiles';
+import { credentialManager, type StoredCredentials } from '../services/credentials';
+
+type BackendEndpoints = BackendApiConfig['endpoints'];
+type AuthSettings = NonNullable<BackendApiConfig['auth']>;
+
+interface CheckResults {
+  validation: BackendValidationResult;
+  connection?: BackendConnectionTest;
+  capabilities?: BackendCapabilities;
+  // The profile with detected features, as it will be saved
+  profile: BackendApiConfig;
+}
+
+interface BackendProfileWizardProps {
+  opened: boolean;
+  onClose: () => void;
+  onSaved?: (profile: BackendApiConfig) => void;
+}
+
+const TYPE_OPTIONS = [
+  { value: 'vast-tams', label: 'TAMS (full featured)' },
+  { value: 'bbc-tams', label: 'BBC TAMS' },
+  { value: 'ibc-thiago', label: 'IBC Thiago' },
+  { value: 'custom', label: 'Custom REST API' },
+  { value: 'mock', label: 'Mock TAMS (offline)' },
+];
+
+const AUTH_OPTIONS = [
+  { value: 'none', label: 'None' },
+  { value: 'api-key', label: 'API key' },
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'oauth2', label: 'OAuth2' },
+];
+
+const ENDPOINT_LABELS: Record<keyof BackendEndpoints, string> = {
+  sources: 'Sources',
+  flows: 'Flows',
+  segments: 'Segments',
+  objects: 'Objects',
+  analytics: 'Analytics',
+  webhooks: 'Webhooks',
+  health: 'Health',
+  metrics: 'Metrics',
+  storage: 'Storage',
+  flowDeleteRequests: 'Flow delete requests',
+};
+
+const EMPTY_DRAFT: BackendProfileDraft = {
+  name: '',
+  baseUrl: '',
+  type: 'bbc-tams',
+  auth: { type: 'none' },
+};
+
+function CheckRow({ label, state, detail }: { label: string; state: 'ok' | 'failed' | 'running' | 'skipped'; detail?: string }) {
+  return (
+    <Group gap="xs" wrap="nowrap">
+      {state === 'running' && <Loader size={14} />}
+      {state === 'ok' && <IconCheck size={14} color="var(--mantine-color-green-6)" />}
+      {state === 'failed' && <IconX size={14} color="var(--mantine-color-red-6)" />}
+      {state === 'skipped' && <IconX size={14} color="var(--mantine-color-gray-5)" />}
+      <Text size="sm" fw={500}>{label}</Text>
+      {detail && <Text size="sm" c="dimmed">{detail}</Text>}
+    </Group>
+  );
+}
+
+export function BackendProfileWizard({ opened, onClose, onSaved }: BackendProfileWizardProps) {
+  const [step, setStep] = useState(0);
+  const [draft, setDraft] = useState<BackendProfileDraft>(EMPTY_DRAFT);
+  const [secrets, setSecrets] = useState<StoredCredentials>({});
+  const [checking, setChecking] = useState(false);
+  const [results, setResults] = useState<CheckResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start afresh whenever the wizard opens
+  useEffect(() => {
+    if (opened) {
+      setStep(0);
+      setDraft(EMPTY_DRAFT);
+      setSecrets({});
+      setResults(null);
+      setError(null);
+    }
+  }, [opened]);
+
+  const adapterPaths = apiServiceFactory.getDefaultConfig(draft.type).endpoints;
+
+  const updateDraft = (changes: Partial<BackendProfileDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setResults(null);
+  };
+
+  const updateAuth = (changes: Partial<AuthSettings>) => {
+    updateDraft({ auth: { ...draft.auth, ...changes } });
+  };
+
+  const updateEndpoint = (key: keyof BackendEndpoints, path: string) => {
+    updateDraft({ endpoints: { ...draft.endpoints, [key]: path } });
+  };
+
+  // Validate, then test the connection and detect capabilities of a valid profile
+  const runChecks = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const profile = backendProfiles.createProfile(draft);
+      const validation = backendProfiles.validate(profile);
+      setResults({ validation, profile });
+      if (!validation.isValid) return;
+
+      // Secrets are only kept for this tab, like those entered in the credentials dialog
+      if (Object.values(secrets).some(Boolean)) {
+        credentialManager.saveCredentials(profile.id, secrets);
+      }
+
+      const connection = await backendProfiles.testConnection(profile);
+      setResults({ validation, connection, profile });
+      if (!connection.success) return;
+
+      const detected = await backendProfiles.detectCapabilities(profile);
+      setResults({ validation, connection, capabilities: detected.capabilities, profile: detected.profile });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Checks failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const goToChecks = () => {
+    setStep(2);
+    void runChecks();
+  };
+
+  const handleSave = () => {
+    if (!results?.validation.isValid) return;
+    try {
+      backendProfiles.save(results.profile);
+      onSaved?.(results.profile);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save backend');
+    }
+  };
+
+  const canLeaveConnectionStep = !!draft.name.trim() && !!draft.baseUrl.trim();
+  const connection = results?.connection;
+  const capabilities = results?.capabilities;
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Add backend" size="lg" centered>
+      <Stepper active={step} onStepClick={setStep} size="sm" allowNextStepsSelect={false}>
+        <Stepper.Step label="Connection" description="URL and authentication">
+          <Stack gap="sm" mt="md">
+            <TextInput
+              label="Name"
+              required
+              value={draft.name}
+              onChange={event => updateDraft({ name: event.currentTarget.value })}
+              description={draft.name.trim() ? `ID: ${profileId(draft.name)}` : undefined}
+            />
+            <TextInput
+              label="Description"
+              value={draft.description ?? ''}
+              onChange={event => updateDraft({ description: event.currentTarget.value })}
+            />
+            <TextInput
+              label="Base URL"
+              required
+              placeholder="https://tams.example.com"
+              value={draft.baseUrl}
+              onChange={event => updateDraft({ baseUrl: event.currentTarget.value })}
+            />
+            <Select
+              label="API type"
+              description="Which client speaks to the backend"
+              data={TYPE_OPTIONS}
+              value={draft.type}
+              onChange={value => value && updateDraft({
+                type: value as BackendApiConfig['type'],
+                // The mock answers only its own address
+                ...(value === 'mock' ? { baseUrl: MOCK_TAMS_BASE_URL } : {})
+              })}
+              allowDeselect={false}
+            />
+            <NumberInput
+              label="Rate limit"
+              description="Requests per minute this app sends at most; leave empty for no limit"
+              placeholder="No limit"
+              min={1}
+              allowDecimal={false}
+              value={draft.requestsPerMinute || ''}
+              onChange={value => updateDraft({ requestsPerMinute: typeof value === 'number' ? value : 0 })}
+            />
+            <Select
+              label="Authentication"
+              data={AUTH_OPTIONS}
+              value={draft.auth.type}
+              onChange={value => value && updateDraft({ auth: { type: value as AuthSettings['type'] } })}
+              allowDeselect={false}
+            />
+
+            {draft.auth.type === 'api-key' && (
+              <>
+                <TextInput
+                  label="API key header"
+                  placeholder="X-API-Key"
+                  value={draft.auth.apiKeyHeader ?? ''}
+                  onChange={event => updateAuth({ apiKeyHeader: event.currentTarget.value })}
+                />
+                <PasswordInput
+                  label="API key"
+                  description="Optional; kept for this browser tab only, never saved in the profile"
+                  value={secrets.apiKey ?? ''}
+                  onChange={event => setSecrets({ apiKey: event.currentTarget.value })}
+                />
+              </>
+            )}
+
+            {draft.auth.type === 'bearer' && (
+              <PasswordInput
+                label="Bearer token"
+                description="Optional; kept for this browser tab only, never saved in the profile"
+                value={secrets.token ?? ''}
+                onChange={event => setSecrets({ token: event.currentTarget.value })}
+              />
+            )}
+
+            {draft.auth.type === 'oauth2' && (
+              <>
+                <TextInput
+                  label="Token endpoint"
+                  required
+                  value={draft.auth.tokenEndpoint ?? ''}
+                  onChange={event => updateAuth({ tokenEndpoint: event.currentTarget.value })}
+                />
+                <TextInput
+                  label="Authorization endpoint"
+                  description="For interactive sign-in; leave empty to use the client credentials grant"
+                  value={draft.auth.authorizationEndpoint ?? ''}
+                  onChange={event => updateAuth({ authorizationEndpoint: event.currentTarget.value })}
+                />
+                <Group grow>
+                  <TextInput
+                    label="Client ID"
+                    value={draft.auth.clientId ?? ''}
+                    onChange={event => updateAuth({ clientId: event.currentTarget.value })}
+                  />
+                  <TextInput
+                    label="Scope"
+                    value={draft.auth.scope ?? ''}
+                    onChange={event => updateAuth({ scope: event.currentTarget.value })}
+                  />
+                </Group>
+              </>
+            )}
+          </Stack>
+        </Stepper.Step>
+
+        <Stepper.Step label="Endpoints" description="Optional remapping">
+          <Stack gap="sm" mt="md">
+            <Text size="sm" c="dimmed">
+              Leave a path empty to use the {draft.type} default. Use {'{flow_id}'} where the flow ID goes.
+            </Text>
+            <SimpleGrid cols={2} spacing="sm">
+              {(Object.keys(ENDPOINT_LABELS) as (keyof BackendEndpoints)[]).map(key => (
+                <TextInput
+                  key={key}
+                  label={ENDPOINT_LABELS[key]}
+                  placeholder={adapterPaths?.[key]}
+                  value={draft.endpoints?.[key] ?? ''}
+                  onChange={event => updateEndpoint(key, event.currentTarget.value)}
+                />
+              ))}
+            </SimpleGrid>
+          </Stack>
+        </Stepper.Step>
+
+        <Stepper.Step label="Check" description="Validate and detect">
+          <Stack gap="sm" mt="md">
+            <CheckRow
+              label="Configuration"
+              state={results ? (results.validation.isValid ? 'ok' : 'failed') : checking ? 'running' : 'skipped'}
+              {...(results?.validation.isValid ? { detail: `ID ${results.profile.id}` } : {})}
+            />
+            {results && !results.validation.isValid && (
+              <List size="sm" c="red">
+                {results.validation.errors.map(message => <List.Item key={message}>{message}</List.Item>)}
+              </List>
+            )}
+            {results && [...results.validation.warnings, ...results.validation.suggestions].map(message => (
+              <Text key={message} size="xs" c="dimmed">{message}</Text>
+            ))}
+
+            <CheckRow
+              label="Connection"
+              state={!results?.validation.isValid ? 'skipped' : connection ? (connection.success ? 'ok' : 'failed') : checking ? 'running' : 'failed'}
+              {...(connection ? { detail: connection.success ? `${connection.responseTime} ms` : connection.error ?? 'Failed' } : {})}
+            />
+
+            <CheckRow
+              label="Capabilities"
+              state={!connection?.success ? 'skipped' : capabilities ? 'ok' : checking ? 'running' : 'failed'}
+              {...(capabilities?.apiVersion ? { detail: `API v${capabilities.apiVersion}` } : {})}
+            />
+            {capabilities && (
+              <Group gap="xs">
+                {Object.entries(capabilities.endpoints).map(([endpoint, support]) => (
+                  <Badge
+                    key={endpoint}
+                    size="xs"
+                    variant="light"
+                    color={support === 'available' ? 'green' : support === 'unavailable' ? 'red' : 'gray'}
+                  >
+                    {endpoint}
+                  </Badge>
+                ))}
+              </Group>
+            )}
+
+            {connection && !connection.success && (
+              <Alert color="yellow" icon={<IconAlertCircle size={16} />}>
+                The backend did not answer. You can still save the profile and connect later.
+              </Alert>
+            )}
+          </Stack>
+        </Stepper.Step>
+      </Stepper>
+
+      {error && (
+        <Alert color="red" icon={<IconAlertCircle size={16} />} mt="md" onClose={() => setError(null)} withCloseButton>
+          {error}
+        </Alert>
+      )}
+
+      <Group justify="space-between" mt="lg">
+        <Button variant="light" onClick={step === 0 ? onClose : () => setStep(step - 1)} disabled={checking}>
+          {step === 0 ? 'Cancel' : 'Back'}
+        </Button>
+        {step === 0 && (
+          <Button onClick={() => setStep(1)} disabled={!canLeaveConnectionStep}>Next</Button>
+        )}
+        {step === 1 && (
+          <Button onClick={goToChecks}>Check backend</Button>
+        )}
+        {step === 2 && (
+          <Group gap="xs">
+            <Button variant="light" onClick={runChecks} loading={checking}>Run again</Button>
+            <Button
+              leftSection={<IconPlugConnected size={16} />}
+              onClick={handleSave}
+              disabled={checking || !results?.validation.isValid}
+            >
+              Save backend
+            </Button>
+          </Group>
+        )}
+      </Group>
+    </Modal>
+  );
+}
@@ -5,7 +5,7 @@
  * Shows backend information, feature availability, and switching controls.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Select,
   Group,
@@ -22,11 +22,178 @@ import {
   Loader,
   Box,
   Divider,
+  TextInput,
+  PasswordInput,
+  FileButton,
 } from '@mantine/core';
-import { IconInfoCircle, IconRefresh, IconCheck, IconX, IconAlertCircle } from '@tabler/icons-react';
+import {
+  IconInfoCircle,
+  IconRefresh,
+  IconCheck,
+  IconX,
+  IconAlertCircle,
+  IconKey,
+  IconLogin,
+  IconLogout,
+  IconPlus,
+  IconTrash,
+  IconDownload,
+  IconUpload,
+} from '@tabler/icons-react';
 import { useBackend, useBackendFeatures } from '../contexts/BackendContext';
-import { getBackendComparison } from '../config/apiConfig';
+import { getBackendComparison, type BackendApiConfig } from '../config/apiConfig';
 import { BackendFeature } from '../types/backend';
+import { credentialManager, type CredentialStatus, type StoredCredentials } from '../services/credentials';
+import { backendProfiles } from '../services/backendProfiles';
+import { BackendProfileWizard } from './BackendProfileWizard';
+
+const CREDENTIAL_STATUS_DISPLAY: Record<CredentialStatus, { color: string; label: string }> = {
+  'not-required': { color: 'gray', label: 'No credentials required' },
+  missing: { color: 'orange', label: 'Credentials required' },
+  configured: { color: 'green', label: 'Credentials set' },
+  'signed-in': { color: 'green', label: 'Signed in' },
+  rejected: { color: 'red', label: 'Credentials rejected' },
+};
+
+interface CredentialsModalProps {
+  backend: BackendApiConfig;
+  status: CredentialStatus;
+  opened: boolean;
+  onClose: () => void;
+}
+
+function CredentialsModal({ backend, status, opened, onClose }: CredentialsModalProps) {
+  const auth = backend.auth ?? { type: 'none' as const };
+  const [values, setValues] = useState<StoredCredentials>({});
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  // Start from the stored values whenever the dialog opens
+  useEffect(() => {
+    if (opened) {
+      setValues(credentialManager.getCredentials(backend.id));
+      setError(null);
+    }
+  }, [opened, backend.id]);
+
+  const setValue = (key: keyof StoredCredentials, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    credentialManager.saveCredentials(backend.id, values);
+    onClose();
+  };
+
+  const handleSignOut = () => {
+    credentialManager.signOut(backend.id);
+    setValues({});
+  };
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    setError(null);
+    try {
+      // Keep a client ID override for the redirect back
+      credentialManager.saveCredentials(backend.id, values);
+      await credentialManager.signIn(backend);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      setSigningIn(false);
+    }
+  };
+
+  const statusDisplay = CREDENTIAL_STATUS_DISPLAY[status];
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={`Credentials for ${backend.name}`} centered>
+      <Stack gap="md">
+        <Group gap="xs">
+          <Badge variant="light">{auth.type}</Badge>
+          <Badge variant="light" color={statusDisplay.color}>{statusDisplay.label}</Badge>
+        </Group>
+
+        {auth.type === 'none' && (
+          <Text size="sm" c="dimmed">This backend does not require credentials.</Text>
+        )}
+
+        {auth.type === 'api-key' && (
+          <PasswordInput
+            label="API key"
+            description={`Sent in the ${auth.apiKeyHeader ?? 'X-API-Key'} header`}
+            value={values.apiKey ?? ''}
+            onChange={event => setValue('apiKey', event.currentTarget.value)}
+          />
+        )}
+
+        {auth.type === 'bearer' && (
+          <PasswordInput
+            label="Bearer token"
+            description="Sent in the Authorization header"
+            value={values.token ?? ''}
+            onChange={event => setValue('token', event.currentTarget.value)}
+          />
+        )}
+
+        {auth.type === 'oauth2' && (
+          <>
+            <Text size="xs" c="dimmed">Token endpoint: {auth.tokenEndpoint ?? 'not configured'}</Text>
+            <TextInput
+              label="Client ID"
+              placeholder={auth.clientId}
+              value={values.clientId ?? ''}
+              onChange={event => setValue('clientId', event.currentTarget.value)}
+            />
+            <PasswordInput
+              label="Client secret"
+              description="For the client credentials grant; leave empty to sign in interactively"
+              value={values.clientSecret ?? ''}
+              onChange={event => setValue('clientSecret', event.currentTarget.value)}
+            />
+            {auth.authorizationEndpoint && (
+              <Button
+                variant="light"
+                leftSection={<IconLogin size={16} />}
+                onClick={handleSignIn}
+                loading={signingIn}
+              >
+                Sign in with {backend.name}
+              </Button>
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} onClose={() => setError(null)} withCloseButton>
+            {error}
+          </Alert>
+        )}
+
+        {auth.type !== 'none' && (
+          <Text size="xs" c="dimmed">
+            Stored in session storage for this browser tab only; closing the tab forgets them.
+          </Text>
+        )}
+
+        <Group justify="space-between">
+          <Button
+            variant="subtle"
+            color="red"
+            leftSection={<IconLogout size={16} />}
+            onClick={handleSignOut}
+            disabled={auth.type === 'none' || status === 'missing'}
+          >
+            Sign out
+          </Button>
+          <Group gap="xs">
+            <Button variant="light" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} disabled={auth.type === 'none'}>Save</Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
 
 interface BackendSelectorProps {
   size?: 'xs' | 'sm' | 'md' | 'lg' | 'xl';
@@ -47,6 +214,17 @@ export function BackendSelector({
   const features = useBackendFeatures();
   const [showComparisonModal, setShowComparisonModal] = useState(false);
   const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [showCredentialsModal, setShowCredentialsModal] = useState(false);
+  const [credentialStatus, setCredentialStatus] = useState<CredentialStatus>(() => credentialManager.getStatus(currentBackend));
+  const [showProfileWizard, setShowProfileWizard] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<{ color: string; text: string } | null>(null);
+
+  // Track credential changes (saved, signed in, rejected by the backend)
+  useEffect(() => {
+    const update = () => setCredentialStatus(credentialManager.getStatus(currentBackend));
+    update();
+    return credentialManager.subscribe(update);
+  }, [currentBackend]);
 
   // Handle backend switching
   const handleBackendSwitch = async (backendId: string | null) => {
@@ -62,6 +240,33 @@ export function BackendSelector({
     }
   };
 
+  const customBackendIds = new Set(backendProfiles.list().map(profile => profile.id));
+
+  // Download the saved backend profiles as JSON to share with the team
+  const handleExportProfiles = () => {
+    const blob = new Blob([backendProfiles.exportProfiles()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tams-backends-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportProfiles = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const result = backendProfiles.importProfiles(await file.text(), [currentBackend.id]);
+      const skipped = result.skipped.map(({ id, reason }) => `${id} (${reason})`).join(', ');
+      setProfileMessage({
+        color: result.skipped.length > 0 ? 'yellow' : 'green',
+        text: `Imported ${result.imported.length} backend${result.imported.length === 1 ? '' : 's'}${skipped ? `; skipped ${skipped}` : ''}`,
+      });
+    } catch (error) {
+      setProfileMessage({ color: 'red', text: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
   // Get feature badge color
   const getFeatureBadgeColor = (supported: boolean) => {
     return supported ? 'green' : 'red';
@@ -167,6 +372,27 @@ export function BackendSelector({
           </Tooltip>
         )}
 
+        {/* Add Backend Button */}
+        <Tooltip label="Add backend">
+          <ActionIcon variant="subtle" size="sm" onClick={() => setShowProfileWizard(true)}>
+            <IconPlus size={16} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* Credentials Button */}
+        {credentialStatus !== 'not-required' && (
+          <Tooltip label={CREDENTIAL_STATUS_DISPLAY[credentialStatus].label}>
+            <ActionIcon
+              variant="subtle"
+              size="sm"
+              color={CREDENTIAL_STATUS_DISPLAY[credentialStatus].color}
+              onClick={() => setShowCredentialsModal(true)}
+            >
+              <IconKey size={16} />
+            </ActionIcon>
+          </Tooltip>
+        )}
+
         {/* Error Display */}
         {error && (
           <Alert
@@ -211,6 +437,19 @@ export function BackendSelector({
         </Group>
       )}
 
+      <BackendProfileWizard
+        opened={showProfileWizard}
+        onClose={() => setShowProfileWizard(false)}
+        onSaved={profile => setProfileMessage({ color: 'green', text: `Added ${profile.name}` })}
+      />
+
+      <CredentialsModal
+        backend={currentBackend}
+        status={credentialStatus}
+        opened={showCredentialsModal}
+        onClose={() => setShowCredentialsModal(false)}
+      />
+
       {/* Comparison Modal */}
       <Modal
         opened={showComparisonModal}
@@ -298,9 +537,37 @@ export function BackendSelector({
 
           {/* Available Backends */}
           <Box>
-            <Title order={5} mb="xs">
-              Available Backends
-            </Title>
+            <Group justify="space-between" mb="xs">
+              <Title order={5}>
+                Available Backends
+              </Title>
+              <Group gap="xs">
+                <Button size="xs" variant="light" leftSection={<IconPlus size={14} />} onClick={() => setShowProfileWizard(true)}>
+                  Add
+                </Button>
+                <FileButton onChange={handleImportProfiles} accept="application/json,.json">
+                  {(props) => (
+                    <Button {...props} size="xs" variant="light" leftSection={<IconUpload size={14} />}>
+                      Import
+                    </Button>
+                  )}
+                </FileButton>
+                <Button
+                  size="xs"
+                  variant="light"
+                  leftSection={<IconDownload size={14} />}
+                  onClick={handleExportProfiles}
+                  disabled={customBackendIds.size === 0}
+                >
+                  Export
+                </Button>
+              </Group>
+            </Group>
+            {profileMessage && (
+              <Alert color={profileMessage.color} mb="xs" onClose={() => setProfileMessage(null)} withCloseButton>
+                <Text size="xs">{profileMessage.text}</Text>
+              </Alert>
+            )}
             <Stack gap="xs">
               {availableBackends.map((backend) => (
                 <Group key={backend.id} justify="space-between" p="xs" style={{ border: '1px solid var(--mantine-color-gray-3)', borderRadius: 'var(--mantine-radius-sm)' }}>
@@ -318,8 +585,26 @@ export function BackendSelector({
                       <Badge size="xs" variant="light">
                         v{backend.version}
                       </Badge>
+                      {customBackendIds.has(backend.id) && (
+                        <Badge size="xs" variant="outline" color="gray">
+                          added
+                        </Badge>
+                      )}
                     </Group>
                   </Box>
+                  <Group gap="xs">
+                  {customBackendIds.has(backend.id) && (
+                    <Tooltip label={currentBackend.id === backend.id ? 'Switch to another backend to remove it' : 'Remove backend'}>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        onClick={() => backendProfiles.remove(backend.id)}
+                        disabled={currentBackend.id === backend.id}
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                  )}
                   <Button
                     size="xs"
                     variant={currentBackend.id === backend.id ? 'filled' : 'outline'}
@@ -329,6 +614,7 @@ export function BackendSelector({
                   >
                     {currentBackend.id === backend.id ? 'Current' : 'Switch To'}
                   </Button>
+                  </Group>
                 </Group>
               ))}
             </Stack>
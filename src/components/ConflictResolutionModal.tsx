@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Stack,
+  Text,
+  Group,
+  Button,
+  Alert,
+  Badge,
+  Table,
+  SegmentedControl,
+  Code
+} from '@mantine/core';
+import { IconAlertTriangle, IconGitMerge } from '@tabler/icons-react';
+import {
+  changedFields,
+  type ConflictChoice,
+  type EditConflictError
+} from '../services/concurrency';
+
+interface ConflictResolutionModalProps {
+  conflict: EditConflictError | null;
+  onResolve: (choices: Record<string, ConflictChoice>) => Promise<void>;
+  onCancel: () => void;
+  // What was being edited, e.g. "flow tags"
+  itemName?: string;
+  // Display name for a field key
+  fieldLabel?: (field: string) => string;
+}
+
+function FieldValue({ value }: { value: unknown }) {
+  if (value === undefined || value === null || value === '') {
+    return <Text size="sm" c="dimmed" fs="italic">not set</Text>;
+  }
+  if (typeof value === 'string') {
+    return <Text size="sm" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{value}</Text>;
+  }
+  return <Code block>{JSON.stringify(value, null, 2)}</Code>;
+}
+
+export function ConflictResolutionModal({
+  conflict,
+  onResolve,
+  onCancel,
+  itemName = 'item',
+  fieldLabel = field => field
+}: ConflictResolutionModalProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default every conflicting field to the user's own value
+  useEffect(() => {
+    setChoices(Object.fromEntries((conflict?.conflicts ?? []).map(({ field }) => [field, 'yours' as const])));
+    setError(null);
+  }, [conflict]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const conflictingFields = new Set(conflict.conflicts.map(({ field }) => field));
+  const theirOtherChanges = Object.keys(changedFields(conflict.original, conflict.theirs))
+    .filter(field => !conflictingFields.has(field));
+
+  const handleResolve = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onResolve(choices);
+    } catch (err) {
+      setError(`Failed to save merged changes: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened onClose={onCancel} title={`Resolve conflicting edits to ${itemName}`} size="xl">
+      <Stack gap="md">
+        <Alert icon={<IconAlertTriangle size={16} />} color="yellow">
+          <Text size="sm">
+            Someone else changed this {itemName} while you were editing. Choose which value to keep
+            for each field below; your other changes are saved as they are.
+          </Text>
+        </Alert>
+
+        <Table striped withTableBorder>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Field</Table.Th>
+              <Table.Th>Original</Table.Th>
+              <Table.Th>Theirs</Table.Th>
+              <Table.Th>Yours</Table.Th>
+              <Table.Th>Keep</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {conflict.conflicts.map(({ field, original, theirs, yours }) => (
+              <Table.Tr key={field}>
+                <Table.Td><Text size="sm" fw={500}>{fieldLabel(field)}</Text></Table.Td>
+                <Table.Td><FieldValue value={original} /></Table.Td>
+                <Table.Td><FieldValue value={theirs} /></Table.Td>
+                <Table.Td><FieldValue value={yours} /></Table.Td>
+                <Table.Td>
+                  <SegmentedControl
+                    size="xs"
+                    value={choices[field] ?? 'yours'}
+                    onChange={value => setChoices(prev => ({ ...prev, [field]: value as ConflictChoice }))}
+                    data={[
+                      { label: 'Theirs', value: 'theirs' },
+                      { label: 'Yours', value: 'yours' }
+                    ]}
+                  />
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+
+        {theirOtherChanges.length > 0 && (
+          <Group gap="xs">
+            <Text size="sm" c="dimmed">Their changes kept automatically:</Text>
+            {theirOtherChanges.map(field => (
+              <Badge key={field} variant="light" color="gray">{fieldLabel(field)}</Badge>
+            ))}
+          </Group>
+        )}
+
+        {error && (
+          <Alert color="red" onClose={() => setError(null)} withCloseButton>
+            {error}
+          </Alert>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="light" onClick={onCancel} disabled={saving}>
+            Discard my changes
+          </Button>
+          <Button leftSection={<IconGitMerge size={16} />} onClick={handleResolve} loading={saving}>
+            Save merged
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Alert, Button, Code, Group, List, Stack, Text } from '@mantine/core';
+import {
+  IconAlertCircle,
+  IconClockPause,
+  IconHeartbeat,
+  IconLock,
+  IconPlugConnectedX,
+  IconRefresh,
+  IconSearch,
+  IconGitMerge,
+  IconForms,
+  IconKey
+} from '@tabler/icons-react';
+import { getBackendConfig } from '../config/apiConfig';
+import {
+  errorKind,
+  errorMessage,
+  NetworkError,
+  RateLimitedError,
+  TamsApiError,
+  ValidationError,
+  type TamsErrorKind
+} from '../services/errors';
+
+interface KindPresentation {
+  title: string;
+  color: string;
+  icon: React.ReactNode;
+}
+
+const PRESENTATIONS: Record<TamsErrorKind, KindPresentation> = {
+  network: { title: 'Backend unreachable', color: 'orange', icon: <IconPlugConnectedX size={16} /> },
+  auth: { title: 'Not authorised', color: 'red', icon: <IconKey size={16} /> },
+  'not-found': { title: 'Not found', color: 'yellow', icon: <IconSearch size={16} /> },
+  conflict: { title: 'Changed by someone else', color: 'yellow', icon: <IconGitMerge size={16} /> },
+  validation: { title: 'Rejected by the backend', color: 'red', icon: <IconForms size={16} /> },
+  'read-only': { title: 'Read-only', color: 'gray', icon: <IconLock size={16} /> },
+  'rate-limited': { title: 'Too many requests', color: 'orange', icon: <IconClockPause size={16} /> },
+  degraded: { title: 'Backend degraded', color: 'orange', icon: <IconHeartbeat size={16} /> },
+  unexpected: { title: 'Something went wrong', color: 'red', icon: <IconAlertCircle size={16} /> }
+};
+
+function backendName(error: unknown): string {
+  const id = error instanceof TamsApiError ? error.backend : undefined;
+  return (id && getBackendConfig(id)?.name) ?? id ?? 'the backend';
+}
+
+/**
+ * What the user can do about `error`, most useful first
+ */
+function guidanceFor(error: unknown): string[] {
+  const backend = backendName(error);
+  switch (errorKind(error)) {
+    case 'network':
+      return error instanceof NetworkError && error.timedOut
+        ? [`${backend} did not answer in time. It may be overloaded; try again in a moment.`]
+        : [
+            `Check that ${backend} is running and reachable from this browser.`,
+            'If it is, a proxy or the backend\'s CORS settings may be blocking the request.'
+          ];
+    case 'auth':
+      return [
+        `${backend} rejected the credentials for this request.`,
+        'Check the credentials for this backend in the backend selector, then try again.'
+      ];
+    case 'not-found':
+      return [
+        'It may have been deleted, or it may never have existed on this backend.',
+        'Refresh the list you came from; if the item is still listed, this backend may not support the endpoint.'
+      ];
+    case 'conflict':
+      return ['It was changed on the backend after you loaded it. Reload to see the current version, then make your change again.'];
+    case 'validation':
+      return ['Correct the values below and submit again.'];
+    case 'read-only':
+      return ['The flow is marked read-only. Clear its read-only flag in the flow details before changing it or its segments.'];
+    case 'rate-limited': {
+      const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : null;
+      return [
+        retryAfterMs !== null
+          ? `${backend} is throttling requests. Try again in ${Math.ceil(retryAfterMs / 1000)} s.`
+          : `${backend} is throttling requests. Wait a little before trying again.`
+      ];
+    }
+    case 'degraded':
+      return [
+        `${backend} is up but cannot serve requests right now.`,
+        'Its health is shown on the Observability page; try again once it has recovered.'
+      ];
+    default:
+      return [];
+  }
+}
+
+interface ErrorPresenterProps {
+  // Anything thrown; strings and plain errors are shown as unexpected failures
+  error: unknown;
+  // Replaces the default title for the error kind, e.g. the action that failed
+  title?: string;
+  onRetry?: () => void;
+  onClose?: () => void;
+  mb?: string;
+}
+
+/**
+ * A failed request as an alert: what went wrong, what to do about it, and the backend,
+ * endpoint and request id to look it up by
+ */
+export function ErrorPresenter({ error, title, onRetry, onClose, mb }: ErrorPresenterProps) {
+  const presentation = PRESENTATIONS[errorKind(error)];
+  const guidance = guidanceFor(error);
+  const issues = error instanceof ValidationError ? error.issues : [];
+  const details = error instanceof TamsApiError
+    ? [
+        error.backend && `Backend: ${backendName(error)}`,
+        error.endpoint && `${error.method ?? 'Request'} ${error.endpoint}`,
+        error.status !== undefined && `Status ${error.status}`,
+        error.requestId && `Request ID ${error.requestId}`
+      ].filter((detail): detail is string => Boolean(detail))
+    : [];
+
+  return (
+    <Alert
+      icon={presentation.icon}
+      color={presentation.color}
+      title={title ?? presentation.title}
+      withCloseButton={Boolean(onClose)}
+      {...(onClose ? { onClose } : {})}
+      {...(mb ? { mb } : {})}
+    >
+      <Stack gap="xs">
+        <Text size="sm">{errorMessage(error)}</Text>
+        {issues.length > 0 && (
+          <List size="sm">
+            {issues.map((issue, index) => (
+              <List.Item key={`${issue.path}-${index}`}>
+                {issue.path && <Code>{issue.path}</Code>} {issue.message}
+              </List.Item>
+            ))}
+          </List>
+        )}
+        {guidance.map(line => (
+          <Text key={line} size="sm">{line}</Text>
+        ))}
+        {details.length > 0 && (
+          <Text size="xs" c="dimmed">{details.join(' · ')}</Text>
+        )}
+        {onRetry && (
+          <Group>
+            <Button size="xs" variant="light" leftSection={<IconRefresh size={14} />} onClick={onRetry}>
+              Try again
+            </Button>
+          </Group>
+        )}
+      </Stack>
+    </Alert>
+  );
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { MultiSelect } from '@mantine/core';
+import { IconStack2 } from '@tabler/icons-react';
+import { useBackend } from '../contexts/BackendContext';
+
+interface FederatedBackendPickerProps {
+  size?: 'xs' | 'sm' | 'md';
+}
+
+export function FederatedBackendPicker({ size = 'sm' }: FederatedBackendPickerProps) {
+  const { availableBackends, federatedBackendIds, setFederatedBackends } = useBackend();
+
+  return (
+    <MultiSelect
+      size={size}
+      placeholder={federatedBackendIds.length === 0 ? 'Browse several backends' : undefined}
+      leftSection={<IconStack2 size={16} />}
+      data={availableBackends.map(backend => ({ value: backend.id, label: backend.name }))}
+      value={federatedBackendIds}
+      onChange={setFederatedBackends}
+      clearable
+      w={320}
+      aria-label="Federated backends"
+      description={federatedBackendIds.length === 1 ? 'Pick another backend to list them together' : undefined}
+    />
+  );
+}
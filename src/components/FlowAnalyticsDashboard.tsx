@@ -104,17 +104,17 @@ export function FlowAnalyticsDashboard({
 
       // Handle usage analytics
       if (usageResponse.status === 'fulfilled' && usageResponse.value) {
-        setUsageAnalytics(usageResponse.value);
+        setUsageAnalytics(usageResponse.value as FlowUsageAnalytics);
       }
 
       // Handle storage analytics
       if (storageResponse.status === 'fulfilled' && storageResponse.value) {
-        setStorageAnalytics(storageResponse.value);
+        setStorageAnalytics(storageResponse.value as StorageUsageAnalytics);
       }
 
       // Handle time range analytics
       if (timeResponse.status === 'fulfilled' && timeResponse.value) {
-        setTimeRangeAnalytics(timeResponse.value);
+        setTimeRangeAnalytics(timeResponse.value as TimeRangeAnalytics);
       }
 
       // Log any failed responses for debugging
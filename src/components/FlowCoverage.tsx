@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Menu,
+  Tooltip,
+  Alert,
+  Loader
+} from '@mantine/core';
+import { IconAlertCircle, IconChevronDown, IconDownload, IconRefresh } from '@tabler/icons-react';
+import { apiClient } from '../services/api';
+import { analyseFlowCoverage } from '../services/coverage';
+import { errorMessage } from '../services/errors';
+import { isAbortError } from '../services/http';
+import type { CoverageIssueKind, CoverageSeverity, FlowCoverageReport } from '../types/backend';
+import { coverageHealth, coverageReportToCsv, type CoverageFlow } from '../utils/segmentCoverage';
+import { tryParseTimerange } from '../utils/timerange';
+
+interface CoverageBarProps {
+  report: FlowCoverageReport;
+  height?: number;
+}
+
+interface FlowCoverageProps {
+  flowId: string;
+  flow?: CoverageFlow;
+  // Analyse again when this changes, e.g. the number of segments loaded
+  refreshKey?: unknown;
+}
+
+const KIND_LABELS: Record<CoverageIssueKind, string> = {
+  gap: 'Gaps',
+  overlap: 'Overlaps',
+  duplicate_object: 'Duplicate objects',
+  ts_offset: 'ts_offset changes',
+  sample_count: 'Sample count mismatches'
+};
+
+const SEVERITY_COLORS: Record<CoverageSeverity, string> = {
+  info: 'blue',
+  warning: 'orange',
+  critical: 'red'
+};
+
+// Issues listed before "Show all"
+const VISIBLE_ISSUES = 5;
+
+/**
+ * Covered ranges, gaps and overlaps along the flow's timeline
+ */
+export function CoverageBar({ report, height = 14 }: CoverageBarProps) {
+  const extent = tryParseTimerange(report.flowTimerange ?? report.span);
+  if (!extent || extent.start === null || extent.end === null || extent.end <= extent.start) {
+    return <Box h={height} bg="gray.2" style={{ borderRadius: 4 }} />;
+  }
+  const { start, end } = extent;
+  const length = Number(end - start);
+
+  const bands = (ranges: string[], color: string, label: string) => ranges.map(value => {
+    const range = tryParseTimerange(value);
+    if (!range || range.start === null || range.end === null) return null;
+    const left = (Number(range.start - start) / length) * 100;
+    const width = Math.max((Number(range.end - range.start) / length) * 100, 0.3);
+    return (
+      <Tooltip key={`${label}-${value}`} label={`${label}: ${value}`} withinPortal>
+        <Box
+          style={{ position: 'absolute', top: 0, bottom: 0, left: `${left}%`, width: `${width}%` }}
+          bg={color}
+        />
+      </Tooltip>
+    );
+  });
+
+  return (
+    <Box pos="relative" h={height} bg="gray.2" style={{ borderRadius: 4, overflow: 'hidden' }}>
+      {bands(report.covered, 'green.5', 'Media')}
+      {bands(report.gaps, 'orange.5', 'Gap')}
+      {bands(report.overlaps, 'red.7', 'Overlap')}
+    </Box>
+  );
+}
+
+function download(report: FlowCoverageReport, format: 'json' | 'csv') {
+  const blob = format === 'json'
+    ? new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    : new Blob([coverageReportToCsv(report)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `coverage-${report.flowId}-${report.analysedAt.replace(/[:.]/g, '-')}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function FlowCoverage({ flowId, flow, refreshKey }: FlowCoverageProps) {
+  const [report, setReport] = useState<FlowCoverageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [run, setRun] = useState(0);
+  // The flow object changes identity on every load; analyse again only when a field the
+  // analysis reads changes
+  const flowKey = flow ? JSON.stringify({ timerange: flow.timerange, format: flow.format, essence_parameters: flow.essence_parameters }) : null;
+  const coverageFlow = useMemo(() => (flowKey ? JSON.parse(flowKey) as CoverageFlow : undefined), [flowKey]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    analyseFlowCoverage(apiClient, flowId, { signal: controller.signal, ...(coverageFlow ? { flow: coverageFlow } : {}) })
+      .then(setReport)
+      .catch(analysisError => {
+        if (!isAbortError(analysisError)) setError(errorMessage(analysisError));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [flowId, coverageFlow, refreshKey, run]);
+
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light" mb="md" withCloseButton onClose={() => setError(null)}>
+        Coverage analysis failed: {error}
+      </Alert>
+    );
+  }
+  if (!report) {
+    return loading ? <Group gap="xs" mb="md"><Loader size="xs" /><Text size="sm" c="dimmed">Analysing coverage...</Text></Group> : null;
+  }
+
+  const health = coverageHealth(report);
+  const percent = report.spanSeconds > 0 ? Math.min(100, (report.coveredSeconds / report.spanSeconds) * 100) : 0;
+  const counts = report.issues.reduce<Partial<Record<CoverageIssueKind, number>>>((totals, issue) => {
+    totals[issue.kind] = (totals[issue.kind] ?? 0) + 1;
+    return totals;
+  }, {});
+  const issues = showAll ? report.issues : report.issues.slice(0, VISIBLE_ISSUES);
+
+  return (
+    <Stack gap="xs" mb="md">
+      <Group justify="space-between" align="center">
+        <Group gap="xs">
+          <Text size="sm" fw={500}>Coverage</Text>
+          <Badge variant="light" color={health === 'healthy' ? 'green' : health === 'warning' ? 'orange' : 'red'}>
+            {percent.toFixed(1)}% of {report.spanSeconds.toFixed(1)} s
+          </Badge>
+          {(Object.entries(counts) as Array<[CoverageIssueKind, number]>).map(([kind, count]) => (
+            <Badge key={kind} variant="outline" size="sm">{KIND_LABELS[kind]}: {count}</Badge>
+          ))}
+          {report.skippedSegments > 0 && (
+            <Tooltip label="Segments without a bounded timerange are left out of the analysis">
+              <Badge variant="outline" size="sm" color="gray">Skipped: {report.skippedSegments}</Badge>
+            </Tooltip>
+          )}
+          {loading && <Loader size="xs" />}
+        </Group>
+        <Group gap="xs">
+          <Button size="xs" variant="subtle" leftSection={<IconRefresh size={14} />} onClick={() => setRun(value => value + 1)} disabled={loading}>
+            Analyse
+          </Button>
+          <Menu shadow="md">
+            <Menu.Target>
+              <Button size="xs" variant="light" leftSection={<IconDownload size={14} />}>Report</Button>
+            </Menu.Target>
+            <Menu.Dropdown>
+              <Menu.Item onClick={() => download(report, 'json')}>JSON</Menu.Item>
+              <Menu.Item onClick={() => download(report, 'csv')}>CSV (issues)</Menu.Item>
+            </Menu.Dropdown>
+          </Menu>
+        </Group>
+      </Group>
+
+      <CoverageBar report={report} />
+
+      {report.issues.length > 0 && (
+        <Stack gap={4}>
+          {issues.map((issue, index) => (
+            <Group key={index} gap="xs" wrap="nowrap">
+              <Badge size="xs" color={SEVERITY_COLORS[issue.severity]} variant="light">{issue.severity}</Badge>
+              <Text size="xs">{issue.message}</Text>
+            </Group>
+          ))}
+          {!showAll && report.issues.length > VISIBLE_ISSUES && (
+            <Group>
+              <Button size="xs" variant="subtle" rightSection={<IconChevronDown size={14} />} onClick={() => setShowAll(true)}>
+                Show all {report.issues.length} issues
+              </Button>
+            </Group>
+          )}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -24,7 +24,11 @@ import {
   IconX,
   IconCheck
 } from '@tabler/icons-react';
-import { getFlowTags, updateFlowTag, deleteFlowTag } from '../services/bbcTamsApi';
+import { apiClient } from '../services/api';
+import { NotFoundError } from '../services/errors';
+import { useConflictResolution } from '../hooks/useConflictResolution';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
+import { applyChanges, changedFields, conditionalOptions, type FieldValues } from '../services/concurrency';
 
 interface FlowTagsManagerProps {
   flowId: string;
@@ -52,6 +56,9 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
   const [deletingTag, setDeletingTag] = useState<string>('');
   const [newTag, setNewTag] = useState({ name: '', value: '' });
   const previousInitialTagsRef = useRef<string>('');
+  // Tags as last read from the backend: the base for detecting concurrent edits
+  const originalTagsRef = useRef<Record<string, string>>(initialTags);
+  const { save, conflict, resolve, cancel } = useConflictResolution();
 
   // Initialize tags from props and load from API if needed
   // Only update when initialTags actually changes (not on every render)
@@ -66,6 +73,7 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
         // If we have initial tags, use them (but don't notify parent to avoid infinite loops)
         if (Object.keys(initialTags).length > 0) {
           setTags(initialTags);
+          originalTagsRef.current = initialTags;
           console.log('Using initial tags from flow data:', initialTags);
         } else {
           // No initial tags, try to load from API
@@ -81,12 +89,13 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
     setError(null);
     try {
       console.log('Loading tags for flow:', flowId);
-      const flowTags = await getFlowTags(flowId);
+      const flowTags = await apiClient.getFlowTags(flowId);
       console.log('Received flow tags:', flowTags);
       
       // Handle different response formats
       const tags = flowTags && typeof flowTags === 'object' ? flowTags : {};
       setTags(tags);
+      originalTagsRef.current = tags;
       // Only notify parent when tags are loaded from API (user-initiated change)
       if (onTagsChange) {
         onTagsChange(tags);
@@ -95,7 +104,7 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
       console.error('Error loading flow tags:', err);
       
       // Check if it's a backend not available error
-      if (err.message && err.message.includes('404')) {
+      if (err instanceof NotFoundError) {
         console.log('Flow tags endpoint not available, using initial tags or empty state');
         // Don't set error if we have initial tags, just use them
         if (Object.keys(initialTags).length > 0) {
@@ -112,6 +121,53 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
     }
   };
 
+  /**
+   * A tag's current value, read from its own resource so its ETag is known for the write; a
+   * missing tag reads as unset
+   */
+  const readTag = async (name: string): Promise<unknown> => {
+    try {
+      return await apiClient.getFlowTag(flowId, name);
+    } catch (err) {
+      if (err instanceof NotFoundError) return undefined;
+      throw err;
+    }
+  };
+
+  const tagOptions = (name: string) =>
+    conditionalOptions(apiClient.getBackend().id, `/flows/${flowId}/tags/${encodeURIComponent(name)}`);
+
+  /**
+   * Save `yours` (the full tag set the user wants) unless another operator changed the same
+   * tags meanwhile; in that case the conflict dialog opens and the save resumes from there
+   */
+  const saveTags = (yours: FieldValues): Promise<boolean> => {
+    const edited = Object.keys(changedFields(originalTagsRef.current, yours));
+    return save({
+      original: originalTagsRef.current,
+      yours,
+      loadTheirs: async () => {
+        const theirs: FieldValues = (await apiClient.getFlowTags(flowId)) || {};
+        const current: FieldValues = {};
+        for (const name of edited) {
+          current[name] = await readTag(name);
+        }
+        return applyChanges(theirs, current);
+      },
+      // Each write sends the tag's ETag; a 412 re-checks for conflicts
+      write: async (changes: FieldValues) => {
+        // Set before deleting, so a rename never leaves the value missing
+        const entries = Object.entries(changes);
+        for (const [name, value] of entries.filter(([, value]) => value !== undefined)) {
+          await apiClient.setFlowTag(flowId, name, String(value), tagOptions(name));
+        }
+        for (const [name] of entries.filter(([, value]) => value === undefined)) {
+          await apiClient.deleteFlowTag(flowId, name, tagOptions(name));
+        }
+      }
+    }, () => loadTags());
+  };
+
   const handleAddTag = async () => {
     if (!newTag.name.trim() || !newTag.value.trim()) return;
     
@@ -126,11 +182,10 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
         return;
       }
       
-      await updateFlowTag(flowId, newTag.name.trim(), newTag.value.trim());
-      console.log('Tag added successfully');
-      
-      // Refresh tags
-      await loadTags();
+      // Saving refreshes the tags, or hands over to the conflict dialog
+      if (await saveTags({ ...originalTagsRef.current, [newTag.name.trim()]: newTag.value.trim() })) {
+        console.log('Tag added successfully');
+      }
       
       // Reset form and close modal
       setNewTag({ name: '', value: '' });
@@ -149,10 +204,8 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
     setLoading(true);
     setError(null);
     try {
-      await updateFlowTag(flowId, editingTag.name.trim(), editingTag.value.trim());
-      
-      // Refresh tags
-      await loadTags();
+      // Saving refreshes the tags, or hands over to the conflict dialog
+      await saveTags({ ...originalTagsRef.current, [editingTag.name.trim()]: editingTag.value.trim() });
       
       // Reset form and close modal
       setEditingTag({ name: '', value: '', originalName: '', isEditing: false });
@@ -171,10 +224,8 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
     setLoading(true);
     setError(null);
     try {
-      await deleteFlowTag(flowId, deletingTag);
-      
-      // Refresh tags
-      await loadTags();
+      // Saving refreshes the tags, or hands over to the conflict dialog
+      await saveTags(applyChanges(originalTagsRef.current, { [deletingTag]: undefined }));
       
       // Close modal
       setShowDeleteModal(false);
@@ -206,16 +257,11 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
         return;
       }
       
-      // Create new tag with new name
-      await updateFlowTag(flowId, newName.trim(), value);
-      console.log('New tag created successfully');
-      
-      // Delete old tag
-      await deleteFlowTag(flowId, oldName);
-      console.log('Old tag deleted successfully');
-      
-      // Refresh tags
-      await loadTags();
+      // Create new tag with new name and delete the old one
+      // Saving refreshes the tags, or hands over to the conflict dialog
+      if (await saveTags(applyChanges(originalTagsRef.current, { [oldName]: undefined, [newName.trim()]: value }))) {
+        console.log('Tag renamed successfully');
+      }
       
       // Close modal
       setShowEditModal(false);
@@ -480,6 +526,14 @@ export function FlowTagsManager({ flowId, initialTags = {}, disabled = false, re
           </Group>
         </Stack>
       </Modal>
+
+      <ConflictResolutionModal
+        conflict={conflict}
+        onResolve={resolve}
+        onCancel={cancel}
+        itemName="flow tags"
+        fieldLabel={name => `Tag "${name}"`}
+      />
     </>
   );
 }
@@ -26,6 +26,7 @@ import {
   IconClock
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { NotFoundError } from '../services/errors';
 
 interface HealthData {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -92,10 +93,10 @@ export function HealthStatusIndicator({
       setError(null);
       
       // Use real API call to /health
-      const response = await apiClient.getHealth();
+      const response = await apiClient.getHealth({ background: true });
       
-      // Transform the API response to match our expected format
-      const apiHealth = response || {};
+      // Transform the API response to match our expected format; fields beyond `status` vary by backend
+      const apiHealth = response as Partial<HealthData>;
       
       // Create health data from API response, with fallbacks to mock data if needed
       const healthData: HealthData = {
@@ -124,7 +125,7 @@ export function HealthStatusIndicator({
       setLastCheck(new Date());
     } catch (err: any) {
       // Check if it's a 404 error (backend not ready)
-      if (err.message && err.message.includes('404')) {
+      if (err instanceof NotFoundError) {
         setError('Backend Not Ready - Health endpoint is not available');
         // Fall back to mock data for development
         setHealth(mockHealth);
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Button, FileButton, Group, Stack, Text } from '@mantine/core';
+import { IconAlertTriangle, IconUpload } from '@tabler/icons-react';
+import { useTimeDisplay } from '../hooks/useTimeDisplay';
+import { errorMessage } from '../services/errors';
+
+/**
+ * Which leap second table UTC and local times use, with a warning once it has expired and a
+ * way to load a current leap-seconds.list (published by the IERS and NIST)
+ */
+export function LeapSecondTableStatus() {
+  const { leapSecondTable, leapSecondTableExpired, loadLeapSecondsList, resetLeapSecondTable, persisted } = useTimeDisplay();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    try {
+      loadLeapSecondsList(await file.text());
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleReset = () => {
+    setError(null);
+    resetLeapSecondTable();
+  };
+
+  const table = leapSecondTable.source === 'embedded' ? 'Built-in' : 'Loaded';
+  const expires = leapSecondTable.expires ? new Date(leapSecondTable.expires).toLocaleDateString() : null;
+
+  return (
+    <Stack gap={2}>
+      <Group gap={4} wrap="nowrap">
+        {leapSecondTableExpired && <IconAlertTriangle size={14} color="var(--mantine-color-yellow-6)" />}
+        <Text size="xs" c={leapSecondTableExpired ? 'yellow' : 'dimmed'}>
+          {table} leap seconds{expires && `, ${leapSecondTableExpired ? 'expired' : 'valid until'} ${expires}`}
+        </Text>
+      </Group>
+      {leapSecondTableExpired && (
+        <Text size="xs" c="dimmed">
+          UTC and local times miss any leap second announced since; load a current leap-seconds.list.
+        </Text>
+      )}
+      <Group gap={4}>
+        <FileButton onChange={handleFile} accept=".list,.txt,text/plain">
+          {(props) => (
+            <Button {...props} size="compact-xs" variant="subtle" leftSection={<IconUpload size={12} />}>
+              Load leap-seconds.list
+            </Button>
+          )}
+        </FileButton>
+        {leapSecondTable.source === 'custom' && (
+          <Button size="compact-xs" variant="subtle" color="gray" onClick={handleReset}>
+            Use built-in
+          </Button>
+        )}
+      </Group>
+      {error && <Text size="xs" c="red">{error}</Text>}
+      {!persisted && (
+        <Text size="xs" c="yellow">
+          Browser storage is unavailable, so time settings last until the page is reloaded.
+        </Text>
+      )}
+    </Stack>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import {
   Container,
   Title,
@@ -72,43 +72,6 @@ export default function QRCodeGenerator({
   const [qrDescription, setQrDescription] = useState('');
   const [qrExpiry, setQrExpiry] = useState<string>('');
 
-  // Mock QR codes data
-  useEffect(() => {
-    const mockQRCodes: QRCodeData[] = [
-      {
-        id: 'qr_001',
-        type: 'video',
-        url: 'https://mobile.tams.demo/play/comp_1706123456789',
-        title: 'BBC News Compilation',
-        description: 'Real-time news segments compilation',
-        accessCount: 47,
-        createdAt: '2025-01-25T10:30:00Z',
-        isActive: true
-      },
-      {
-        id: 'qr_002',
-        type: 'session',
-        url: 'https://mobile.tams.demo/session/sess_1706123456789',
-        title: 'Live Sports Session',
-        description: 'Real-time sports coverage',
-        accessCount: 23,
-        createdAt: '2025-01-25T09:15:00Z',
-        isActive: true
-      },
-      {
-        id: 'qr_003',
-        type: 'mobile',
-        url: 'https://mobile.tams.demo/play/comp_1706123456790',
-        title: 'Radio Studio Feed',
-        description: 'Live radio broadcast',
-        accessCount: 12,
-        createdAt: '2025-01-25T08:45:00Z',
-        isActive: false
-      }
-    ];
-    setQrCodes(mockQRCodes);
-  }, []);
-
   const generateQRCode = () => {
     const qrId = `qr_${Date.now()}`;
     const baseUrl = 'https://mobile.tams.demo';
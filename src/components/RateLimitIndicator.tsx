@@ -0,0 +1,49 @@
+import React from 'react';
+import { Badge, Group, Stack, Text, Tooltip } from '@mantine/core';
+import { IconClockPause, IconHourglass } from '@tabler/icons-react';
+import { getBackendConfig } from '../config/apiConfig';
+import { useRateLimitQueue } from '../hooks/useRateLimitQueue';
+import type { ThrottleState } from '../services/rateLimiter';
+
+function describe(throttle: ThrottleState): string {
+  const parts: string[] = [];
+  if (throttle.pausedUntil) {
+    const seconds = Math.max(1, Math.ceil((throttle.pausedUntil.getTime() - Date.now()) / 1000));
+    parts.push(`backend asked to wait, resuming in ${seconds} s`);
+  } else if (throttle.requestsPerMinute !== null) {
+    parts.push(`limited to ${throttle.requestsPerMinute} requests/min`);
+  }
+  if (throttle.interactive > 0) parts.push(`${throttle.interactive} waiting`);
+  if (throttle.background > 0) parts.push(`${throttle.background} background`);
+  return parts.join(', ');
+}
+
+/**
+ * Shown while the rate limiter is holding requests back; renders nothing otherwise
+ */
+export function RateLimitIndicator() {
+  const throttled = useRateLimitQueue();
+  if (throttled.length === 0) return null;
+
+  return (
+    <Stack gap={4} px={4} mb="xs">
+      {throttled.map(throttle => {
+        const queued = throttle.interactive + throttle.background;
+        const name = getBackendConfig(throttle.backend)?.name ?? throttle.backend;
+        return (
+          <Tooltip key={throttle.backend} label={describe(throttle)} multiline w={220}>
+            <Group gap={6} wrap="nowrap">
+              {throttle.pausedUntil
+                ? <IconClockPause size={14} color="var(--mantine-color-orange-5)" />
+                : <IconHourglass size={14} color="var(--mantine-color-yellow-5)" />}
+              <Text size="xs" c="dimmed" truncate>{name}</Text>
+              <Badge size="xs" variant="light" color={throttle.pausedUntil ? 'orange' : 'yellow'}>
+                {queued > 0 ? `${queued} queued` : 'paused'}
+              </Badge>
+            </Group>
+          </Tooltip>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Select,
+  Button,
+  Text,
+  Alert,
+  Table,
+  Badge,
+  ScrollArea
+} from '@mantine/core';
+import { IconAlertCircle, IconCopy, IconListCheck, IconPlayerPlay } from '@tabler/icons-react';
+import { useBackend } from '../contexts/BackendContext';
+import { replicationManager } from '../services/replication';
+import type { ReplicationJob, ReplicationStepKind, ReplicationStepStatus } from '../types/backend';
+import { AsyncOperationMonitor } from './AsyncOperationMonitor';
+import { BackendBadge } from './BackendBadge';
+import TimerangePicker from './TimerangePicker';
+import type { EditRate } from '../utils/timerange';
+
+interface ReplicationModalProps {
+  opened: boolean;
+  onClose: () => void;
+  sourceId: string;
+  sourceLabel?: string;
+  // Frame rate of the source's video flows; enables timecode entry of the segment range
+  frameRate?: EditRate | null;
+}
+
+const STEP_KINDS: ReplicationStepKind[] = ['source', 'flow', 'collection', 'segment'];
+
+const STEP_STATUS_COLORS: Record<ReplicationStepStatus, string> = {
+  pending: 'blue',
+  done: 'green',
+  skipped: 'gray',
+  failed: 'red'
+};
+
+function PlanSummary({ job }: { job: ReplicationJob }) {
+  const pending = (kind: ReplicationStepKind) =>
+    job.steps.filter(step => step.kind === kind && step.status !== 'skipped').length;
+  const skipped = job.steps.filter(step => step.status === 'skipped').length;
+
+  return (
+    <Stack gap="xs">
+      <Group gap="xs">
+        <BackendBadge backendId={job.fromBackendId} />
+        <Text size="sm">→</Text>
+        <BackendBadge backendId={job.toBackendId} />
+        <Badge variant="light" color={job.sharedStorage ? 'teal' : 'orange'}>
+          {job.sharedStorage ? 'Shared storage: objects referenced' : 'Media copied through target storage'}
+        </Badge>
+      </Group>
+      <Text size="sm">
+        {STEP_KINDS.map(kind => `${pending(kind)} ${kind}${pending(kind) === 1 ? '' : 's'}`).join(', ')} to write
+        {skipped > 0 && `; ${skipped} already in the target`}
+      </Text>
+      <ScrollArea h={220}>
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Step</Table.Th>
+              <Table.Th>Entity</Table.Th>
+              <Table.Th>Status</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {job.steps.map((step, index) => (
+              <Table.Tr key={index}>
+                <Table.Td><Badge size="xs" variant="outline">{step.kind}</Badge></Table.Td>
+                <Table.Td>
+                  <Text size="sm">{step.label ?? step.id}</Text>
+                  {step.collectionId && <Text size="xs" c="dimmed">joins collection {step.collectionId}</Text>}
+                  {step.timerange && (
+                    <Text size="xs" c="dimmed" ff="monospace">
+                      {step.timerange} ({step.transfer === 'reference' ? 'reference' : 'copy'})
+                    </Text>
+                  )}
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="xs" color={STEP_STATUS_COLORS[step.status]}>{step.status}</Badge>
+                  {step.note && <Text size="xs" c="dimmed">{step.note}</Text>}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea>
+    </Stack>
+  );
+}
+
+export function ReplicationModal({ opened, onClose, sourceId, sourceLabel, frameRate }: ReplicationModalProps) {
+  const { availableBackends, currentBackend } = useBackend();
+  const [fromBackend, setFromBackend] = useState<string | null>(currentBackend.id);
+  const [toBackend, setToBackend] = useState<string | null>(null);
+  const [timerange, setTimerange] = useState('');
+  const [planning, setPlanning] = useState(false);
+  const [job, setJob] = useState<ReplicationJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened) return;
+    setFromBackend(currentBackend.id);
+    setToBackend(availableBackends.find(backend => backend.id !== currentBackend.id)?.id ?? null);
+    setJob(null);
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opened]);
+
+  // Follow the planned job's progress
+  useEffect(() => replicationManager.subscribe(() => {
+    setJob(current => current ? replicationManager.get(current.id) : null);
+  }), []);
+
+  const start = (jobId: string) => {
+    replicationManager.run(jobId).catch(err => {
+      setError(err instanceof Error ? err.message : 'Replication failed');
+    });
+  };
+
+  const handlePlan = async (runAfterPlanning: boolean) => {
+    if (!fromBackend || !toBackend) return;
+    setPlanning(true);
+    setError(null);
+    try {
+      const planned = await replicationManager.plan({
+        sourceId,
+        fromBackendId: fromBackend,
+        toBackendId: toBackend,
+        ...(timerange.trim() ? { timerange: timerange.trim() } : {})
+      });
+      setJob(planned);
+      if (runAfterPlanning) start(planned.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Planning failed');
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const options = availableBackends.map(backend => ({ value: backend.id, label: backend.name }));
+  const ready = !!fromBackend && !!toBackend && fromBackend !== toBackend && !planning;
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={`Replicate ${sourceLabel || sourceId}`} size="xl">
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Copies the source, its flows with their tags and collection membership, and their segments
+          to another backend. Anything the target already holds is skipped.
+        </Text>
+        <Group align="flex-end" grow>
+          <Select label="From" data={options} value={fromBackend} onChange={setFromBackend} />
+          <Select label="To" data={options} value={toBackend} onChange={setToBackend} />
+        </Group>
+        <TimerangePicker
+          label="Segments"
+          placeholder="All segments"
+          value={timerange}
+          onChange={setTimerange}
+          allowInfinite
+          {...(frameRate ? { frameRate } : {})}
+        />
+        <Group justify="flex-end">
+          <Button
+            variant="light"
+            leftSection={<IconListCheck size={16} />}
+            onClick={() => handlePlan(false)}
+            loading={planning}
+            disabled={!ready}
+          >
+            Dry run
+          </Button>
+          <Button
+            leftSection={<IconCopy size={16} />}
+            onClick={() => handlePlan(true)}
+            disabled={!ready}
+          >
+            Replicate
+          </Button>
+        </Group>
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} onClose={() => setError(null)} withCloseButton>
+            {error}
+          </Alert>
+        )}
+
+        {job && (
+          <>
+            <PlanSummary job={job} />
+            {job.status === 'planned' && (
+              <Group justify="flex-end">
+                <Button leftSection={<IconPlayerPlay size={16} />} onClick={() => start(job.id)}>
+                  Start replication
+                </Button>
+              </Group>
+            )}
+          </>
+        )}
+
+        <AsyncOperationMonitor operationType="migration" autoRefresh={false} />
+      </Stack>
+    </Modal>
+  );
+}
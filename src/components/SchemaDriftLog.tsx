@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Select,
+  Table,
+  ScrollArea,
+  Code,
+  Tooltip
+} from '@mantine/core';
+import { IconAlertTriangle, IconTrash } from '@tabler/icons-react';
+import {
+  clearDriftLog,
+  getDriftLog,
+  subscribeToDriftLog,
+  summariseDriftLog,
+  type DriftLogEntry
+} from '../services/responseValidation';
+
+/**
+ * Inspectable log of schema mismatches recorded by the response validation stage,
+ * grouped per backend so it is clear which backend broke the TAMS contract
+ */
+export function SchemaDriftLog() {
+  const [entries, setEntries] = useState<DriftLogEntry[]>(() => getDriftLog());
+  const [backendFilter, setBackendFilter] = useState<string | null>(null);
+
+  useEffect(() => subscribeToDriftLog(() => setEntries(getDriftLog())), []);
+
+  const summaries = useMemo(() => summariseDriftLog(entries), [entries]);
+  const visibleEntries = backendFilter ? entries.filter(entry => entry.backend === backendFilter) : entries;
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Group gap="xs">
+          <IconAlertTriangle size={18} />
+          <Text fw={500}>Schema Drift</Text>
+          <Badge size="sm" variant="light" color={entries.length > 0 ? 'orange' : 'green'}>
+            {entries.length} {entries.length === 1 ? 'issue' : 'issues'}
+          </Badge>
+        </Group>
+        <Group gap="xs">
+          {summaries.length > 1 && (
+            <Select
+              size="xs"
+              placeholder="All backends"
+              clearable
+              value={backendFilter}
+              onChange={setBackendFilter}
+              data={summaries.map(summary => summary.backend)}
+            />
+          )}
+          <Button
+            size="xs"
+            variant="light"
+            color="gray"
+            leftSection={<IconTrash size={14} />}
+            onClick={clearDriftLog}
+            disabled={entries.length === 0}
+          >
+            Clear
+          </Button>
+        </Group>
+      </Group>
+
+      {entries.length === 0 ? (
+        <Text size="sm" c="dimmed">
+          No schema mismatches recorded. Responses are checked against the TAMS schema as pages load.
+        </Text>
+      ) : (
+        <>
+          <Group gap="xs">
+            {summaries.map(summary => (
+              <Tooltip key={summary.backend} label={summary.endpoints.join(', ')}>
+                <Badge
+                  variant="light"
+                  color={summary.errors > 0 ? 'red' : 'yellow'}
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => setBackendFilter(summary.backend)}
+                >
+                  {summary.backend}: {summary.errors} errors, {summary.warnings} warnings
+                </Badge>
+              </Tooltip>
+            ))}
+          </Group>
+
+          <ScrollArea h={320}>
+            <Table striped highlightOnHover>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Severity</Table.Th>
+                  <Table.Th>Backend</Table.Th>
+                  <Table.Th>Endpoint</Table.Th>
+                  <Table.Th>Path</Table.Th>
+                  <Table.Th>Problem</Table.Th>
+                  <Table.Th>Seen</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {visibleEntries.map(entry => (
+                  <Table.Tr key={entry.key}>
+                    <Table.Td>
+                      <Badge size="xs" color={entry.severity === 'error' ? 'red' : 'yellow'}>
+                        {entry.severity}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs">{entry.backend}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs">{entry.endpoint}</Text>
+                      <Text size="xs" c="dimmed">{entry.entity}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Code>{entry.path}</Code>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs">{entry.message}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Tooltip label={`First seen ${entry.firstSeen.toLocaleString()}`}>
+                        <Text size="xs">
+                          {entry.occurrences}× · {entry.lastSeen.toLocaleTimeString()}
+                        </Text>
+                      </Tooltip>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Stack,
+  Group,
+  TextInput,
+  Button,
+  FileButton,
+  Select,
+  Text,
+  Alert,
+  Table,
+  Badge,
+  Paper,
+  Progress,
+  ScrollArea
+} from '@mantine/core';
+import {
+  IconAlertCircle,
+  IconFileImport,
+  IconFolderOpen,
+  IconLink,
+  IconPlayerPlay,
+  IconPlayerStop,
+  IconUpload
+} from '@tabler/icons-react';
+import { apiClient } from '../services/api';
+import { errorMessage } from '../services/errors';
+import { isAbortError } from '../services/http';
+import {
+  importSegments,
+  loadImportFiles,
+  loadManifestUrl,
+  loadRendition,
+  planSegmentImport,
+  type ImportFile,
+  type ImportSource
+} from '../services/segmentImport';
+import type { SegmentImportItem, SegmentImportStatus } from '../types/backend';
+import type { ManifestRendition } from '../utils/segmentManifest';
+import { formatTimerange, parseTimerange, type TaiTimestamp } from '../utils/timerange';
+
+interface SegmentImporterProps {
+  flowId: string;
+  // Flow to create before the first segment when the import starts a new flow
+  flow?: Record<string, unknown>;
+  // Where the first segment starts
+  start: TaiTimestamp;
+  onImported?: (count: number) => void;
+}
+
+const STATUS_COLORS: Record<SegmentImportStatus, string> = {
+  pending: 'gray',
+  uploading: 'blue',
+  uploaded: 'cyan',
+  registered: 'green',
+  failed: 'red'
+};
+
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+/**
+ * Files under a dropped entry, with their paths from the dropped folder
+ */
+async function readEntry(entry: FileSystemEntry): Promise<ImportFile[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns a batch at a time until it returns none
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  return (await Promise.all(children.map(readEntry))).flat();
+}
+
+function formatSeconds(seconds: number): string {
+  return `${seconds.toFixed(3).replace(/\.?0+$/, '')} s`;
+}
+
+export function SegmentImporter({ flowId, flow, start, onImported }: SegmentImporterProps) {
+  const [url, setUrl] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [renditionId, setRenditionId] = useState<string | null>(null);
+  const [rendition, setRendition] = useState<ManifestRendition | null>(null);
+  const [items, setItems] = useState<SegmentImportItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Read the chosen rendition's chunks (an HLS variant's media playlist) and plan its timeline
+  useEffect(() => {
+    const chosen = source?.renditions.find(candidate => candidate.id === renditionId);
+    if (!source || !chosen) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    loadRendition(source, chosen, controller.signal)
+      .then(loaded => {
+        setRendition(loaded);
+        setItems(planSegmentImport(loaded, start));
+      })
+      .catch(loadError => {
+        if (!isAbortError(loadError)) setError(errorMessage(loadError));
+      })
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [source, renditionId, start]);
+
+  const showSource = (loaded: ImportSource) => {
+    setSource(loaded);
+    setRendition(null);
+    setItems([]);
+    // The highest bandwidth rendition by default
+    const best = [...loaded.renditions].sort((a, b) => (b.bandwidth ?? 0) - (a.bandwidth ?? 0))[0];
+    setRenditionId(best?.id ?? null);
+  };
+
+  const load = async (read: (signal: AbortSignal) => Promise<ImportSource>) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      showSource(await read(controller.signal));
+    } catch (loadError) {
+      if (!isAbortError(loadError)) setError(errorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    void load(signal => loadImportFiles(
+      files.map(file => ({ path: file.webkitRelativePath || file.name, file })),
+      signal
+    ));
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const entries = Array.from(event.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    void load(async signal => loadImportFiles((await Promise.all(entries.map(readEntry))).flat(), signal));
+  };
+
+  const handleImport = async () => {
+    if (!source || !rendition) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setError(null);
+    const work = items.map(item => ({ ...item }));
+    try {
+      await importSegments(apiClient, flowId, source, rendition, work, {
+        signal: controller.signal,
+        ...(flow ? { flow } : {}),
+        onProgress: setItems
+      });
+      onImported?.(work.length);
+    } catch (importError) {
+      if (!isAbortError(importError) && !controller.signal.aborted) {
+        setError(errorMessage(importError));
+      }
+    } finally {
+      setItems(work.map(item => ({ ...item })));
+      setRunning(false);
+    }
+  };
+
+  const registered = items.filter(item => item.status === 'registered').length;
+  const started = items.some(item => item.status !== 'pending');
+  const totalSeconds = items.reduce((sum, item) => sum + item.durationSeconds, 0);
+  const lastItem = items[items.length - 1];
+  const first = items[0] ? parseTimerange(items[0].timerange) : null;
+  const last = lastItem ? parseTimerange(lastItem.timerange) : null;
+
+  return (
+    <Stack gap="md">
+      <Group align="flex-end" gap="xs">
+        <TextInput
+          style={{ flex: 1 }}
+          label="Manifest URL"
+          placeholder="https://example.com/stream/index.m3u8 or manifest.mpd"
+          leftSection={<IconLink size={16} />}
+          value={url}
+          onChange={event => setUrl(event.currentTarget.value)}
+          disabled={running}
+        />
+        <Button
+          onClick={() => void load(signal => loadManifestUrl(url.trim(), signal))}
+          disabled={!url.trim() || running}
+          loading={loading && !source}
+        >
+          Load
+        </Button>
+      </Group>
+
+      <Paper
+        withBorder
+        p="md"
+        style={{ borderStyle: 'dashed', background: dragging ? 'var(--mantine-color-blue-light)' : undefined }}
+        onDragOver={event => { event.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <Stack align="center" gap="xs">
+          <Text size="sm" c="dimmed">
+            Drop a folder with an .m3u8 or .mpd and its chunks, or a folder of numbered chunk files
+          </Text>
+          <Group gap="xs">
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconFolderOpen size={14} />}
+              onClick={() => folderInputRef.current?.click()}
+              disabled={running}
+            >
+              Choose folder
+            </Button>
+            <FileButton onChange={handleFiles} multiple accept=".m3u8,.m3u,.mpd,.ts,.m4s,.mp4,.m4v,.m4a,.cmfv,.cmfa,.aac">
+              {props => (
+                <Button {...props} size="xs" variant="light" leftSection={<IconFileImport size={14} />} disabled={running}>
+                  Choose files
+                </Button>
+              )}
+            </FileButton>
+          </Group>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            hidden
+            {...FOLDER_INPUT_PROPS}
+            onChange={event => {
+              handleFiles(Array.from(event.currentTarget.files ?? []));
+              event.currentTarget.value = '';
+            }}
+          />
+        </Stack>
+      </Paper>
+
+      {error && (
+        <Alert icon={<IconAlertCircle size={16} />} color="red" variant="light">
+          {error}
+        </Alert>
+      )}
+
+      {source && (
+        <Group gap="xs" align="flex-end">
+          <Badge variant="light">{source.kind === 'folder' ? 'Chunk files' : source.kind.toUpperCase()}</Badge>
+          <Text size="sm" fw={500}>{source.name}</Text>
+          {source.renditions.length > 1 && (
+            <Select
+              size="xs"
+              style={{ flex: 1 }}
+              label="Rendition"
+              data={source.renditions.map(candidate => ({ value: candidate.id, label: candidate.label }))}
+              value={renditionId}
+              onChange={setRenditionId}
+              disabled={running || started}
+            />
+          )}
+        </Group>
+      )}
+
+      {rendition?.note && (
+        <Text size="xs" c="yellow.8">{rendition.note}</Text>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <Text size="sm">
+            {items.length} segment{items.length === 1 ? '' : 's'}, {formatSeconds(totalSeconds)}
+            {first && last && ` — ${formatTimerange({ ...first, end: last.end, includesEnd: last.includesEnd })}`}
+          </Text>
+          <ScrollArea h={260}>
+            <Table striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>#</Table.Th>
+                  <Table.Th>Chunk</Table.Th>
+                  <Table.Th>Duration</Table.Th>
+                  <Table.Th>Timerange</Table.Th>
+                  <Table.Th>ts_offset</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {items.map(item => (
+                  <Table.Tr key={item.index}>
+                    <Table.Td>{item.index + 1}</Table.Td>
+                    <Table.Td><Text size="xs" truncate maw={180}>{item.name}</Text></Table.Td>
+                    <Table.Td><Text size="xs">{formatSeconds(item.durationSeconds)}</Text></Table.Td>
+                    <Table.Td><Text size="xs" ff="monospace">{item.timerange}</Text></Table.Td>
+                    <Table.Td>
+                      <Text size="xs" ff="monospace" {...(item.mediaStartSeconds === undefined ? { c: 'dimmed' } : {})}>
+                        {item.tsOffset ?? (item.mediaStartSeconds === undefined ? 'on upload' : '0:0')}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="xs" color={STATUS_COLORS[item.status]} title={item.error}>{item.status}</Badge>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+
+          {started && <Progress value={(registered / items.length) * 100} animated={running} />}
+
+          <Group justify="flex-end">
+            {running ? (
+              <Button color="red" variant="light" leftSection={<IconPlayerStop size={16} />} onClick={() => controllerRef.current?.abort()}>
+                Stop
+              </Button>
+            ) : (
+              <Button
+                leftSection={started ? <IconPlayerPlay size={16} /> : <IconUpload size={16} />}
+                onClick={() => void handleImport()}
+                disabled={loading || !rendition || registered === items.length}
+              >
+                {started
+                  ? registered === items.length ? 'Imported' : `Resume from segment ${registered + 1}`
+                  : `Import ${items.length} segment${items.length === 1 ? '' : 's'}`}
+              </Button>
+            )}
+          </Group>
+        </>
+      )}
+    </Stack>
+  );
+}
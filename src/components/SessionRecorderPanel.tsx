@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Stack,
+  Group,
+  Button,
+  Text,
+  Badge,
+  Alert,
+  Table,
+  Textarea,
+  FileButton,
+  ScrollArea
+} from '@mantine/core';
+import {
+  IconPlayerRecord,
+  IconPlayerStop,
+  IconDownload,
+  IconUpload,
+  IconTrash,
+  IconPlayerPlay,
+  IconX
+} from '@tabler/icons-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useBackend } from '../contexts/BackendContext';
+import { parseHarArchive, sessionRecorder } from '../services/sessionRecording';
+import { sessionReplay } from '../services/sessionReplay';
+
+// Most recent exchanges listed in the panel
+const VISIBLE_EXCHANGES = 50;
+
+function statusColor(status: number): string {
+  if (status === 0 || status >= 500) return 'red';
+  if (status >= 400) return 'orange';
+  return 'green';
+}
+
+export function SessionRecorderPanel() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { switchBackend } = useBackend();
+  const [recording, setRecording] = useState(sessionRecorder.isRecording());
+  const [exchanges, setExchanges] = useState(sessionRecorder.getExchanges());
+  const [truncated, setTruncated] = useState(sessionRecorder.isTruncated());
+  const [replays, setReplays] = useState(sessionReplay.getBackends());
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => sessionRecorder.subscribe(() => {
+    setRecording(sessionRecorder.isRecording());
+    setExchanges(sessionRecorder.getExchanges());
+    setTruncated(sessionRecorder.isTruncated());
+  }), []);
+  useEffect(() => sessionReplay.subscribe(() => setReplays(sessionReplay.getBackends())), []);
+
+  // Download the session as a HAR file to attach to a bug report
+  const handleExport = () => {
+    const archive = sessionRecorder.exportHar({ comment, route: location.pathname });
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tams-session-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const { skipped } = sessionReplay.load(parseHarArchive(await file.text()));
+      if (skipped.length > 0) {
+        setNotice(`Requests to ${skipped.join(', ')} are not replayed: the recording does not describe ${skipped.length === 1 ? 'that backend' : 'those backends'}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the recording');
+    }
+  };
+
+  const handleOpen = async (id: string, route?: string) => {
+    setError(null);
+    try {
+      await switchBackend(id);
+      navigate(route ?? '/flows');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the replay');
+    }
+  };
+
+  const visible = exchanges.slice(-VISIBLE_EXCHANGES).reverse();
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Group gap="xs">
+          <Text fw={600}>Session Recorder</Text>
+          {recording && <Badge color="red" variant="filled" size="sm">Recording</Badge>}
+          <Badge variant="light" size="sm">{exchanges.length} requests</Badge>
+          {truncated && <Badge color="orange" variant="light" size="sm">Oldest requests dropped</Badge>}
+        </Group>
+        <Group gap="xs">
+          {recording ? (
+            <Button size="xs" color="red" leftSection={<IconPlayerStop size={14} />} onClick={() => sessionRecorder.stop()}>
+              Stop
+            </Button>
+          ) : (
+            <Button size="xs" leftSection={<IconPlayerRecord size={14} />} onClick={() => sessionRecorder.start()}>
+              Record
+            </Button>
+          )}
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconTrash size={14} />}
+            onClick={() => sessionRecorder.clear()}
+            disabled={exchanges.length === 0}
+          >
+            Clear
+          </Button>
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconDownload size={14} />}
+            onClick={handleExport}
+            disabled={exchanges.length === 0}
+          >
+            Export HAR
+          </Button>
+          <FileButton onChange={handleLoad} accept=".har,application/json,.json">
+            {(props) => (
+              <Button {...props} size="xs" variant="light" leftSection={<IconUpload size={14} />}>
+                Load recording
+              </Button>
+            )}
+          </FileButton>
+        </Group>
+      </Group>
+
+      <Text size="sm" c="dimmed">
+        Record, reproduce the problem, then export the session and attach it to the bug report.
+        Credentials, tokens and URL signatures are redacted. A loaded recording is served offline
+        as a replay backend, so the pages show what the reporter saw.
+      </Text>
+
+      <Textarea
+        label="What did you see?"
+        placeholder="Saved with the export"
+        autosize
+        minRows={2}
+        value={comment}
+        onChange={event => setComment(event.currentTarget.value)}
+      />
+
+      {error && (
+        <Alert color="red" withCloseButton onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert color="yellow" withCloseButton onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {replays.map(replay => (
+        <Alert key={replay.config.id} color="blue" title={replay.config.name}>
+          <Group justify="space-between">
+            <Text size="sm">
+              {replay.exchanges} recorded requests{replay.route ? `, recorded on ${replay.route}` : ''}
+            </Text>
+            <Group gap="xs">
+              <Button size="xs" leftSection={<IconPlayerPlay size={14} />} onClick={() => handleOpen(replay.config.id, replay.route)}>
+                Open
+              </Button>
+              <Button
+                size="xs"
+                variant="subtle"
+                color="gray"
+                leftSection={<IconX size={14} />}
+                onClick={() => sessionReplay.unload(replay.config.id)}
+              >
+                Close
+              </Button>
+            </Group>
+          </Group>
+        </Alert>
+      ))}
+
+      {visible.length > 0 && (
+        <ScrollArea h={300}>
+          <Table striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Time</Table.Th>
+                <Table.Th>Backend</Table.Th>
+                <Table.Th>Request</Table.Th>
+                <Table.Th>Status</Table.Th>
+                <Table.Th>Duration</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {visible.map(exchange => (
+                <Table.Tr key={exchange.id}>
+                  <Table.Td><Text size="xs">{exchange.startedAt.toLocaleTimeString()}</Text></Table.Td>
+                  <Table.Td><Text size="xs">{exchange.backend}</Text></Table.Td>
+                  <Table.Td>
+                    <Text size="xs" ff="monospace" truncate maw={420}>{exchange.method} {exchange.path}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge size="xs" color={statusColor(exchange.status)} {...(exchange.error ? { title: exchange.error } : {})}>
+                      {exchange.status || 'failed'}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td><Text size="xs">{exchange.durationMs} ms</Text></Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      )}
+    </Stack>
+  );
+}
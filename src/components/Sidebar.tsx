@@ -1,6 +1,9 @@
 import React from 'react';
 import { AppShell, NavLink, Stack, Group, Text, Box, Divider } from '@mantine/core';
 import { useLocation, Link } from 'react-router-dom';
+import { TimeDisplayModeSelector } from './TimeDisplayModeSelector';
+import { LeapSecondTableStatus } from './LeapSecondTableStatus';
+import { RateLimitIndicator } from './RateLimitIndicator';
 import { 
   IconHome, 
   IconVideo, 
@@ -14,13 +17,29 @@ import {
   IconTrash,
   IconRoute
 } from '@tabler/icons-react';
+import { useBackend } from '../contexts/BackendContext';
+import { isEndpointAvailable } from '../services/capabilities';
+import type { OptionalEndpoint } from '../types/backend';
 
 interface SidebarProps {
   opened?: boolean;
 }
 
+interface NavItem {
+  label: string;
+  to: string;
+  icon: typeof IconHome;
+  // Optional endpoint the page needs
+  endpoint?: OptionalEndpoint;
+}
+
 export function Sidebar({ opened = true }: SidebarProps) {
   const location = useLocation();
+  const { capabilities } = useBackend();
+
+  // Pages backed by an optional endpoint are hidden when the connected server lacks it
+  const servable = (items: NavItem[]) =>
+    items.filter(item => !item.endpoint || isEndpointAvailable(capabilities, item.endpoint));
 
   // Primary navigation – core entities
   const primaryNavItems = [
@@ -44,21 +63,23 @@ export function Sidebar({ opened = true }: SidebarProps) {
   };
 
   // Observability and statistics
-  const featureNavItems = [
+  const featureNavItems = servable([
     {
       label: 'Observability',
       to: '/observability',
       icon: IconActivity,
+      endpoint: 'health',
     },
     {
       label: 'Statistics',
       to: '/qc-statistics',
       icon: IconChartBar,
+      endpoint: 'qcStatistics',
     },
-  ];
+  ]);
 
   // Other navigation links
-  const otherNavItems = [
+  const otherNavItems = servable([
     {
       label: 'Service',
       to: '/service',
@@ -68,13 +89,15 @@ export function Sidebar({ opened = true }: SidebarProps) {
       label: 'Webhooks',
       to: '/webhooks',
       icon: IconPlugConnected,
+      endpoint: 'webhooks',
     },
     {
       label: 'Deletion Requests',
       to: '/deletion-requests',
       icon: IconTrash,
+      endpoint: 'flowDeleteRequests',
     },
-  ];
+  ]);
 
   return (
     <AppShell.Navbar
@@ -259,6 +282,17 @@ export function Sidebar({ opened = true }: SidebarProps) {
             );
           })}
         </Stack>
+
+        <Divider my="sm" color="#333333" />
+
+        {/* Requests held back by rate limits */}
+        <RateLimitIndicator />
+
+        {/* Time display mode */}
+        <Stack gap={4} px={4}>
+          <TimeDisplayModeSelector />
+          <LeapSecondTableStatus />
+        </Stack>
       </Stack>
     </AppShell.Navbar>
   );
@@ -20,6 +20,9 @@ import {
   IconDatabase,
   IconPhoto
 } from '@tabler/icons-react';
+import { apiClient } from '../services/api';
+import { collectAll } from '../services/pagination';
+import type { Flow, TamsRational } from '../types/tams';
 
 interface SourceConfigManagerProps {
   sourceId?: string;
@@ -27,67 +30,80 @@ interface SourceConfigManagerProps {
   onConfigChange?: (config: any) => void;
 }
 
+interface FlowConfiguration {
+  id: string;
+  label: string;
+  format: string;
+  codec?: string;
+  container?: string;
+  resolution?: string;
+  frameRate?: string;
+  bitRate?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+// What the source and its flows say about how the content is encoded and stored
+interface SourceConfiguration {
+  id: string;
+  label?: string;
+  format: string;
+  lastUpdated?: string;
+  flows: FlowConfiguration[];
+}
+
+const formatRate = (rate?: TamsRational): string | undefined =>
+  rate ? `${+(rate.numerator / (rate.denominator || 1)).toFixed(3)} fps` : undefined;
+
+const flowConfiguration = (flow: Flow): FlowConfiguration => {
+  const video = flow.format === 'urn:x-nmos:format:video' || flow.format === 'urn:x-tam:format:image'
+    ? flow.essence_parameters
+    : undefined;
+  const audio = flow.format === 'urn:x-nmos:format:audio' ? flow.essence_parameters : undefined;
+  const frameRate = flow.format === 'urn:x-nmos:format:video' ? formatRate(flow.essence_parameters?.frame_rate) : undefined;
+  return {
+    id: flow.id,
+    label: flow.label || flow.id,
+    format: flow.format,
+    ...(flow.codec ? { codec: flow.codec } : {}),
+    ...(flow.container ? { container: flow.container } : {}),
+    ...(video?.frame_width ? { resolution: `${video.frame_width}x${video.frame_height}` } : {}),
+    ...(frameRate ? { frameRate } : {}),
+    ...(flow.avg_bit_rate ?? flow.max_bit_rate ? { bitRate: flow.avg_bit_rate ?? flow.max_bit_rate } : {}),
+    ...(audio?.sample_rate ? { sampleRate: audio.sample_rate } : {}),
+    ...(audio?.channels ? { channels: audio.channels } : {})
+  };
+};
+
 export function SourceConfigManager({ 
   sourceId, 
   disabled = false,
   onConfigChange 
 }: SourceConfigManagerProps) {
-  const [config, setConfig] = useState<any>(null);
+  const [config, setConfig] = useState<SourceConfiguration | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Mock configuration data for demonstration
-  const mockConfig = {
-    id: sourceId || 'demo-source',
-    format: 'urn:x-nmos:format:video',
-    quality: {
-      resolution: '1920x1080',
-      bitrate: 5000000,
-      fps: 30,
-      codec: 'H.264',
-      quality: 'high'
-    },
-    network: {
-      protocol: 'http',
-      port: 8080,
-      compression: true,
-      encryption: false
-    },
-    storage: {
-      format: 'mp4',
-      compression: 'lossy',
-      maxFileSize: 1073741824, // 1GB
-      backup: true
-    },
-    presets: [
-      {
-        id: 'broadcast-hd',
-        name: 'Broadcast HD',
-        description: 'High-quality HD broadcast configuration',
-        category: 'broadcast',
-        isDefault: true
-      },
-      {
-        id: 'streaming-4k',
-        name: 'Streaming 4K',
-        description: 'Ultra-high quality 4K streaming',
-        category: 'streaming',
-        isDefault: false
-      }
-    ],
-    lastUpdated: new Date().toISOString(),
-    version: '1.0.0'
-  };
-
   const loadConfiguration = async () => {
-    if (disabled) return;
+    if (disabled || !sourceId) return;
     
     setLoading(true);
     setError(null);
     
     try {
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setConfig(mockConfig);
+      const [source, flows] = await Promise.all([
+        apiClient.getSource(sourceId),
+        collectAll(apiClient.iterateFlows({ custom: { source_id: sourceId } }))
+      ]);
+      const configuration: SourceConfiguration = {
+        id: source.id,
+        ...(source.label ? { label: source.label } : {}),
+        format: source.format,
+        ...(source.updated ?? source.created ? { lastUpdated: source.updated ?? source.created } : {}),
+        flows: (flows as Flow[]).filter(flow => flow.source_id === sourceId).map(flowConfiguration)
+      };
+      setConfig(configuration);
+      onConfigChange?.(configuration);
     } catch (err: any) {
       console.error('Error loading configuration:', err);
       setError('Failed to load source configuration');
@@ -106,27 +122,6 @@ export function SourceConfigManager({
     }
   };
 
-  const getQualityColor = (quality: string) => {
-    switch (quality) {
-      case 'low': return 'red';
-      case 'medium': return 'yellow';
-      case 'high': return 'green';
-      case 'ultra': return 'blue';
-      default: return 'gray';
-    }
-  };
-
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'broadcast': return 'blue';
-      case 'streaming': return 'green';
-      case 'archival': return 'orange';
-      case 'production': return 'purple';
-      case 'custom': return 'gray';
-      default: return 'gray';
-    }
-  };
-
   useEffect(() => {
     loadConfiguration();
   }, [sourceId, disabled]);
@@ -176,15 +171,17 @@ export function SourceConfigManager({
               <IconSettings size={20} color="#228be6" />
               <Title order={4}>Source Configuration</Title>
               <Badge variant="light" color="blue">
-                v{config.version}
+                {config.flows.length} flow{config.flows.length === 1 ? '' : 's'}
               </Badge>
             </Group>
             <Text size="sm" c="dimmed" mb="xs">
-              Manage source format, quality, network, and storage settings
-            </Text>
-            <Text size="xs" c="dimmed">
-              Last updated: {new Date(config.lastUpdated).toLocaleString()}
+              Format and encoding of the source's flows
             </Text>
+            {config.lastUpdated && (
+              <Text size="xs" c="dimmed">
+                Last updated: {new Date(config.lastUpdated).toLocaleString()}
+              </Text>
+            )}
           </Box>
           
           <Button
@@ -211,83 +208,44 @@ export function SourceConfigManager({
             <Title order={5} mb="md">Format Configuration</Title>
             <Grid>
               <Grid.Col span={6}>
-                <Stack gap="md">
-                  <Box>
-                    <Group gap="sm" mb={4}>
-                      {getFormatIcon(config.format)}
-                      <Text size="sm" fw={500}>Content Format</Text>
-                    </Group>
-                    <Text>{config.format}</Text>
-                  </Box>
-                  <Box>
-                    <Text size="sm" fw={500} c="dimmed">Configuration Version</Text>
-                    <Text>{config.version}</Text>
-                  </Box>
-                  <Box>
-                    <Text size="sm" fw={500} c="dimmed">Last Updated</Text>
-                    <Text>{new Date(config.lastUpdated).toLocaleString()}</Text>
-                  </Box>
-                </Stack>
+                <Box>
+                  <Group gap="sm" mb={4}>
+                    {getFormatIcon(config.format)}
+                    <Text size="sm" fw={500}>Content Format</Text>
+                  </Group>
+                  <Text>{config.format}</Text>
+                </Box>
               </Grid.Col>
               <Grid.Col span={6}>
-                <Stack gap="md">
-                  <Box>
-                    <Text size="sm" fw={500} c="dimmed">Quality Level</Text>
-                    <Badge 
-                      variant="light" 
-                      color={getQualityColor(config.quality.quality)}
-                      size="lg"
-                    >
-                      {config.quality.quality.charAt(0).toUpperCase() + config.quality.quality.slice(1)}
-                    </Badge>
-                  </Box>
-                  <Box>
-                    <Text size="sm" fw={500} c="dimmed">Storage Format</Text>
-                    <Text>{config.storage.format.toUpperCase()}</Text>
-                  </Box>
-                  <Box>
-                    <Text size="sm" fw={500} c="dimmed">Network Protocol</Text>
-                    <Text>{config.network.protocol.toUpperCase()}</Text>
-                  </Box>
-                </Stack>
+                <Box>
+                  <Text size="sm" fw={500} c="dimmed">Label</Text>
+                  <Text>{config.label || config.id}</Text>
+                </Box>
               </Grid.Col>
             </Grid>
           </Card>
 
-          {/* Configuration Presets */}
+          {/* Flow Encoding */}
           <Card withBorder>
-            <Title order={5} mb="md">Configuration Presets</Title>
+            <Title order={5} mb="md">Flows</Title>
             <Stack gap="md">
-              {config.presets.map((preset: any) => (
-                <Paper key={preset.id} withBorder p="md">
-                  <Group justify="space-between" align="flex-start">
-                    <Box>
-                      <Group gap="sm" align="center" mb="xs">
-                        <Text fw={500}>{preset.name}</Text>
-                        <Badge 
-                          variant="light" 
-                          color={getCategoryColor(preset.category)}
-                          size="sm"
-                        >
-                          {preset.category.charAt(0).toUpperCase() + preset.category.slice(1)}
-                        </Badge>
-                        {preset.isDefault && (
-                          <Badge variant="light" color="blue" size="sm">
-                            Default
-                          </Badge>
-                        )}
-                      </Group>
-                      <Text size="sm" c="dimmed" mb="xs">{preset.description}</Text>
-                    </Box>
-                    <Button
-                      variant="light"
-                      size="sm"
-                      onClick={() => {
-                        console.log('Applying preset:', preset);
-                      }}
-                    >
-                      Apply
-                    </Button>
+              {config.flows.length === 0 && (
+                <Text size="sm" c="dimmed">This source has no flows</Text>
+              )}
+              {config.flows.map(flow => (
+                <Paper key={flow.id} withBorder p="md">
+                  <Group gap="sm" align="center" mb="xs">
+                    {getFormatIcon(flow.format)}
+                    <Text fw={500}>{flow.label}</Text>
+                  </Group>
+                  <Group gap="xs">
+                    {flow.codec && <Badge variant="light" size="sm">{flow.codec}</Badge>}
+                    {flow.container && <Badge variant="light" color="gray" size="sm">{flow.container}</Badge>}
+                    {flow.resolution && <Badge variant="light" color="blue" size="sm">{flow.resolution}</Badge>}
+                    {flow.frameRate && <Badge variant="light" color="blue" size="sm">{flow.frameRate}</Badge>}
+                    {flow.sampleRate && <Badge variant="light" color="green" size="sm">{flow.sampleRate} Hz</Badge>}
+                    {flow.channels && <Badge variant="light" color="green" size="sm">{flow.channels} ch</Badge>}
+                    {flow.bitRate && <Badge variant="light" color="orange" size="sm">{flow.bitRate} kbit/s</Badge>}
                   </Group>
                 </Paper>
               ))}
@@ -37,6 +37,10 @@ import {
   IconVideo,
   IconClock
 } from '@tabler/icons-react';
+import { apiClient } from '../services/api';
+import { analyseSourceCoverage } from '../services/coverage';
+import { errorMessage } from '../services/errors';
+import { coverageChecks, coverageHealth } from '../utils/segmentCoverage';
 
 interface SourceHealthMonitorProps {
   sourceId?: string;
@@ -52,7 +56,7 @@ interface HealthCheck {
   message: string;
   lastChecked: string;
   responseTime?: number;
-  details?: Record<string, any>;
+  details?: Record<string, string | number>;
 }
 
 interface HealthSummary {
@@ -65,11 +69,12 @@ interface HealthSummary {
 }
 
 interface PerformanceMetrics {
-  uptime: number;
+  // Percentages
+  coverage: number;
+  issueRate: number;
+  healthyFlows: number;
+  // Time to read and analyse every segment, in ms
   responseTime: number;
-  errorRate: number;
-  throughput: number;
-  qualityScore: number;
 }
 
 interface SystemAlert {
@@ -105,110 +110,97 @@ export function SourceHealthMonitor({
 
   const intervalRef = useRef<number | null>(null);
 
-  // Mock health check data for demonstration
-  const mockHealthChecks: HealthCheck[] = [
-    {
-      id: 'connectivity',
-      name: 'Network Connectivity',
-      status: 'healthy',
-      message: 'Source is responding to network requests',
-      lastChecked: new Date().toISOString(),
-      responseTime: 45,
-      details: { ip: '192.168.1.100', port: 8080, protocol: 'HTTP' }
-    },
-    {
-      id: 'performance',
-      name: 'Performance Metrics',
-      status: 'healthy',
-      message: 'All performance metrics within acceptable ranges',
-      lastChecked: new Date().toISOString(),
-      responseTime: 120,
-      details: { cpu: '15%', memory: '45%', disk: '30%' }
-    },
-    {
-      id: 'storage',
-      name: 'Storage Health',
-      status: 'warning',
-      message: 'Storage usage approaching threshold',
-      lastChecked: new Date().toISOString(),
-      responseTime: 85,
-      details: { used: '85%', available: '15%', total: '1TB' }
-    },
-    {
-      id: 'quality',
-      name: 'Content Quality',
-      status: 'healthy',
-      message: 'Content quality metrics are optimal',
-      lastChecked: new Date().toISOString(),
-      responseTime: 65,
-      details: { bitrate: '5Mbps', resolution: '1080p', fps: '30' }
-    },
-    {
-      id: 'system',
-      name: 'System Status',
-      status: 'healthy',
-      message: 'System resources are healthy',
-      lastChecked: new Date().toISOString(),
-      responseTime: 95,
-      details: { uptime: '99.9%', temperature: '45°C', fanSpeed: '60%' }
-    }
-  ];
-
-  // Mock performance metrics
-  const mockPerformanceMetrics: PerformanceMetrics = {
-    uptime: 99.9,
-    responseTime: 85,
-    errorRate: 0.1,
-    throughput: 95.5,
-    qualityScore: 92
-  };
-
-  // Mock system alerts
-  const mockAlerts: SystemAlert[] = [
-    {
-      id: '1',
-      type: 'warning',
-      message: 'Storage usage approaching 90% threshold',
-      timestamp: new Date(Date.now() - 300000).toISOString(),
-      acknowledged: false,
-      source: 'Storage Health Check'
-    },
-    {
-      id: '2',
-      type: 'info',
-      message: 'Source performance metrics updated',
-      timestamp: new Date(Date.now() - 600000).toISOString(),
-      acknowledged: true,
-      source: 'Performance Monitor'
-    },
-    {
-      id: '3',
-      type: 'success',
-      message: 'All health checks passed successfully',
-      timestamp: new Date(Date.now() - 900000).toISOString(),
-      acknowledged: true,
-      source: 'Health Monitor'
-    }
-  ];
-
   const loadHealthData = async () => {
     if (disabled) return;
-    
+    if (!sourceId) {
+      setHealthChecks([]);
+      setPerformanceMetrics(null);
+      setAlerts([]);
+      return;
+    }
+
     setLoading(true);
     setError(null);
-    
+    const started = Date.now();
+
     try {
-      // In a real implementation, this would call the VAST TAMS API
-      // For now, we'll use mock data with simulated delays
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      setHealthChecks(mockHealthChecks);
-      setPerformanceMetrics(mockPerformanceMetrics);
-      setAlerts(mockAlerts);
-      
-    } catch (err: any) {
+      // Every segment of every flow of the source, through the paginated segments API
+      const flows = await analyseSourceCoverage(apiClient, sourceId);
+      const lastChecked = new Date().toISOString();
+      const responseTime = Date.now() - started;
+      const segments = flows.reduce((total, { report }) => total + report.segmentCount, 0);
+
+      const checks: HealthCheck[] = [
+        {
+          id: 'connectivity',
+          name: 'Store Connectivity',
+          status: 'healthy',
+          message: `Read ${flows.length} flow${flows.length === 1 ? '' : 's'} and ${segments} segment${segments === 1 ? '' : 's'}`,
+          lastChecked,
+          responseTime
+        },
+        ...flows.map(({ flow, report }): HealthCheck => {
+          const failing = coverageChecks(report).filter(check => check.status !== 'healthy');
+          const covered = report.spanSeconds > 0 ? (report.coveredSeconds / report.spanSeconds) * 100 : 0;
+          return {
+            id: flow.id,
+            name: `Coverage: ${flow.label || flow.id}`,
+            status: report.segmentCount === 0 ? 'unknown' : coverageHealth(report),
+            message: report.segmentCount === 0
+              ? 'The flow has no segments'
+              : failing.length > 0
+                ? failing.map(check => check.message).join('; ')
+                : 'Segments cover the flow without gaps, overlaps or timestamp problems',
+            lastChecked,
+            details: { segments: report.segmentCount, covered: `${covered.toFixed(1)}%`, issues: report.issues.length }
+          };
+        })
+      ];
+      if (flows.length === 0) {
+        checks.push({ id: 'flows', name: 'Flows', status: 'unknown', message: 'The source has no flows to check', lastChecked });
+      }
+
+      const spanSeconds = flows.reduce((total, { report }) => total + report.spanSeconds, 0);
+      const coveredSeconds = flows.reduce((total, { report }) => total + report.coveredSeconds, 0);
+      const segmentsWithIssues = flows.reduce((total, { report }) => total + new Set(report.issues
+        .filter(issue => issue.severity !== 'info')
+        .flatMap(issue => issue.segments)).size, 0);
+      const healthy = flows.filter(({ report }) => coverageHealth(report) === 'healthy').length;
+      setPerformanceMetrics({
+        coverage: spanSeconds > 0 ? (coveredSeconds / spanSeconds) * 100 : 0,
+        issueRate: segments > 0 ? (segmentsWithIssues / segments) * 100 : 0,
+        healthyFlows: flows.length > 0 ? (healthy / flows.length) * 100 : 0,
+        responseTime
+      });
+
+      // Alerts keep their acknowledgement across refreshes
+      setAlerts(previous => {
+        const found = flows.flatMap(({ flow, report }) => report.issues
+          .filter(issue => issue.severity !== 'info')
+          .map((issue): SystemAlert => {
+            const id = `${flow.id}:${issue.kind}:${issue.timerange ?? issue.objectId ?? issue.segments.join(',')}`;
+            return {
+              id,
+              type: issue.severity === 'critical' ? 'error' : 'warning',
+              message: issue.message,
+              timestamp: report.analysedAt,
+              acknowledged: previous.some(alert => alert.id === id && alert.acknowledged),
+              source: flow.label || flow.id
+            };
+          }));
+        return found.length > 0 || flows.length === 0 ? found : [{
+          id: 'all-clear',
+          type: 'success',
+          message: `All ${flows.length} flow${flows.length === 1 ? ' is' : 's are'} covered without gaps, overlaps or timestamp problems`,
+          timestamp: lastChecked,
+          acknowledged: true,
+          source: 'Coverage analysis'
+        }];
+      });
+      setHealthChecks(checks);
+    } catch (err: unknown) {
       console.error('Error loading health data:', err);
-      setError('Failed to load health monitoring data');
+      setError(`Failed to load health monitoring data: ${errorMessage(err)}`);
     } finally {
       setLoading(false);
     }
@@ -302,7 +294,7 @@ export function SourceHealthMonitor({
                 </Badge>
               </Group>
               <Text size="sm" c="dimmed" mt="xs">
-                Real-time monitoring of source health, performance, and system status
+                Segment coverage of the source's flows, checked against every segment
               </Text>
             </Box>
             
@@ -371,7 +363,7 @@ export function SourceHealthMonitor({
           {/* Performance Metrics */}
           {performanceMetrics && (
             <Card withBorder>
-              <Title order={5} mb="md">Performance Overview</Title>
+              <Title order={5} mb="md">Coverage Overview</Title>
               <Grid>
                 <Grid.Col span={4}>
                   <Paper withBorder p="xl" ta="center">
@@ -379,22 +371,22 @@ export function SourceHealthMonitor({
                       size={100}
                       thickness={8}
                       sections={[
-                        { value: performanceMetrics.uptime, color: 'green' }
+                        { value: performanceMetrics.coverage, color: performanceMetrics.coverage >= 99.9 ? 'green' : 'orange' }
                       ]}
                       label={
                         <Text ta="center" size="lg" fw={700}>
-                          {performanceMetrics.uptime}%
+                          {performanceMetrics.coverage.toFixed(1)}%
                         </Text>
                       }
                     />
-                    <Text size="sm" c="dimmed" mt="xs">Uptime</Text>
+                    <Text size="sm" c="dimmed" mt="xs">Coverage</Text>
                   </Paper>
                 </Grid.Col>
                 <Grid.Col span={8}>
                   <Stack gap="md">
                     <Box>
                       <Group justify="space-between" mb="xs">
-                        <Text size="sm" fw={500}>Response Time</Text>
+                        <Text size="sm" fw={500}>Analysis Time</Text>
                         <Text size="sm" fw={600}>{performanceMetrics.responseTime}ms</Text>
                       </Group>
                       <Progress
@@ -406,25 +398,25 @@ export function SourceHealthMonitor({
                     </Box>
                     <Box>
                       <Group justify="space-between" mb="xs">
-                        <Text size="sm" fw={500}>Error Rate</Text>
-                        <Text size="sm" fw={600}>{performanceMetrics.errorRate}%</Text>
+                        <Text size="sm" fw={500}>Segments with Issues</Text>
+                        <Text size="sm" fw={600}>{performanceMetrics.issueRate.toFixed(1)}%</Text>
                       </Group>
                       <Progress
-                        value={performanceMetrics.errorRate}
-                        color={performanceMetrics.errorRate < 1 ? 'green' : 
-                               performanceMetrics.errorRate < 5 ? 'yellow' : 'red'}
+                        value={performanceMetrics.issueRate}
+                        color={performanceMetrics.issueRate < 1 ? 'green' : 
+                               performanceMetrics.issueRate < 5 ? 'yellow' : 'red'}
                         size="sm"
                       />
                     </Box>
                     <Box>
                       <Group justify="space-between" mb="xs">
-                        <Text size="sm" fw={500}>Quality Score</Text>
-                        <Text size="sm" fw={600}>{performanceMetrics.qualityScore}%</Text>
+                        <Text size="sm" fw={500}>Healthy Flows</Text>
+                        <Text size="sm" fw={600}>{performanceMetrics.healthyFlows.toFixed(0)}%</Text>
                       </Group>
                       <Progress
-                        value={performanceMetrics.qualityScore}
-                        color={performanceMetrics.qualityScore > 90 ? 'green' : 
-                               performanceMetrics.qualityScore > 70 ? 'yellow' : 'red'}
+                        value={performanceMetrics.healthyFlows}
+                        color={performanceMetrics.healthyFlows > 90 ? 'green' : 
+                               performanceMetrics.healthyFlows > 70 ? 'yellow' : 'red'}
                         size="sm"
                       />
                     </Box>
@@ -23,6 +23,7 @@ import {
   IconX
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { NotFoundError } from '../services/errors';
 
 interface SourceTagsManagerProps {
   sourceId: string;
@@ -109,7 +110,7 @@ export function SourceTagsManager({ sourceId, initialTags = {}, disabled = false
       const normalizedTags: Record<string, string> = {};
       if (sourceTags && typeof sourceTags === 'object') {
         Object.entries(sourceTags).forEach(([key, value]) => {
-          normalizedTags[key] = Array.isArray(value) ? value[0] : String(value);
+          normalizedTags[key] = Array.isArray(value) ? value[0] ?? '' : String(value);
         });
       }
       
@@ -120,7 +121,7 @@ export function SourceTagsManager({ sourceId, initialTags = {}, disabled = false
       console.error('Error loading source tags:', err);
       
       // Check if it's a backend not available error
-      if (err.message && err.message.includes('404')) {
+      if (err instanceof NotFoundError) {
         // Don't set error if we have initial tags, just use them
         if (Object.keys(initialTags).length > 0) {
           const normalizedTags: Record<string, string> = {};
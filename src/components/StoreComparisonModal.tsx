@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Select,
+  Checkbox,
+  Button,
+  Text,
+  Alert,
+  Tabs,
+  Table,
+  Badge,
+  Code,
+  ScrollArea
+} from '@mantine/core';
+import { IconAlertCircle, IconArrowsDiff } from '@tabler/icons-react';
+import { useBackend } from '../contexts/BackendContext';
+import { compareStores } from '../services/federation';
+import { isAbortError } from '../services/http';
+import type { StoreComparison, StoreDifference, StoreDifferenceKind } from '../types/backend';
+import { BackendBadge } from './BackendBadge';
+
+interface StoreComparisonModalProps {
+  opened: boolean;
+  onClose: () => void;
+  // Stores preselected for comparison
+  backendIds?: string[];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function DifferenceTable({ kind, differences, comparison }: {
+  kind: StoreDifferenceKind;
+  differences: StoreDifference[];
+  comparison: StoreComparison;
+}) {
+  if (differences.length === 0) {
+    return <Text size="sm" c="dimmed" ta="center" py="md">No differences of this kind</Text>;
+  }
+
+  return (
+    <ScrollArea h={420}>
+      <Table striped>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Entity</Table.Th>
+            {kind === 'missing' && <Table.Th>Missing from</Table.Th>}
+            {kind === 'metadata' && <Table.Th>Differences</Table.Th>}
+            {kind === 'coverage' && (
+              <>
+                <Table.Th>Only in <BackendBadge backendId={comparison.backendA} /></Table.Th>
+                <Table.Th>Only in <BackendBadge backendId={comparison.backendB} /></Table.Th>
+              </>
+            )}
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {differences.map(difference => (
+            <Table.Tr key={`${difference.entity}:${difference.id}`}>
+              <Table.Td>
+                <Group gap="xs" wrap="nowrap">
+                  <Badge size="xs" variant="outline">{difference.entity}</Badge>
+                  <Text size="sm">{difference.label ?? difference.id}</Text>
+                </Group>
+                {difference.label && <Text size="xs" c="dimmed">{difference.id}</Text>}
+              </Table.Td>
+              {kind === 'missing' && difference.missingFrom && (
+                <Table.Td><BackendBadge backendId={difference.missingFrom} /></Table.Td>
+              )}
+              {kind === 'metadata' && (
+                <Table.Td>
+                  <Stack gap={2}>
+                    {difference.fields?.map(({ field, a, b }) => (
+                      <Text key={field} size="xs">
+                        <Code>{field}</Code> {formatValue(a)} → {formatValue(b)}
+                      </Text>
+                    ))}
+                  </Stack>
+                </Table.Td>
+              )}
+              {kind === 'coverage' && (
+                <>
+                  <Table.Td>
+                    {difference.onlyInA?.map(range => <Text key={range} size="xs" ff="monospace">{range}</Text>)}
+                  </Table.Td>
+                  <Table.Td>
+                    {difference.onlyInB?.map(range => <Text key={range} size="xs" ff="monospace">{range}</Text>)}
+                  </Table.Td>
+                </>
+              )}
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+    </ScrollArea>
+  );
+}
+
+export function StoreComparisonModal({ opened, onClose, backendIds = [] }: StoreComparisonModalProps) {
+  const { availableBackends, currentBackend } = useBackend();
+  const [backendA, setBackendA] = useState<string | null>(null);
+  const [backendB, setBackendB] = useState<string | null>(null);
+  const [coverage, setCoverage] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<StoreComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Preselect the federated backends, or the current one and the next
+  useEffect(() => {
+    if (!opened) return;
+    const [first, second] = backendIds.length >= 2
+      ? backendIds
+      : [currentBackend.id, availableBackends.find(backend => backend.id !== currentBackend.id)?.id];
+    setBackendA(first ?? null);
+    setBackendB(second ?? null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opened]);
+
+  // Stop a running comparison when the dialog closes
+  useEffect(() => {
+    if (!opened) abortRef.current?.abort();
+  }, [opened]);
+
+  const handleCompare = async () => {
+    const a = availableBackends.find(backend => backend.id === backendA);
+    const b = availableBackends.find(backend => backend.id === backendB);
+    if (!a || !b) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setComparison(null);
+    try {
+      setComparison(await compareStores(a, b, { coverage, signal: controller.signal, onProgress: setProgress }));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Comparison failed');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const options = availableBackends.map(backend => ({ value: backend.id, label: backend.name }));
+  const ofKind = (kind: StoreDifferenceKind) => comparison?.differences.filter(difference => difference.kind === kind) ?? [];
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Compare stores" size="xl">
+      <Stack gap="md">
+        <Group align="flex-end">
+          <Select label="Store A" data={options} value={backendA} onChange={setBackendA} w={220} />
+          <Select label="Store B" data={options} value={backendB} onChange={setBackendB} w={220} />
+          <Checkbox
+            label="Compare segment coverage"
+            checked={coverage}
+            onChange={event => setCoverage(event.currentTarget.checked)}
+            mb={8}
+          />
+          <Button
+            leftSection={<IconArrowsDiff size={16} />}
+            onClick={handleCompare}
+            loading={running}
+            disabled={!backendA || !backendB || backendA === backendB}
+          >
+            Compare
+          </Button>
+        </Group>
+
+        {progress && <Text size="sm" c="dimmed">{progress}…</Text>}
+
+        {error && (
+          <Alert color="red" icon={<IconAlertCircle size={16} />} onClose={() => setError(null)} withCloseButton>
+            {error}
+          </Alert>
+        )}
+
+        {comparison && (
+          <>
+            <Text size="sm" c="dimmed">
+              Compared {comparison.compared.sources} sources and {comparison.compared.flows} flows
+              {comparison.compared.coverage > 0 && `, and the segment coverage of ${comparison.compared.coverage} flows in both stores`}.
+            </Text>
+            <Tabs defaultValue="missing">
+              <Tabs.List>
+                <Tabs.Tab value="missing">Missing ({ofKind('missing').length})</Tabs.Tab>
+                <Tabs.Tab value="metadata">Metadata ({ofKind('metadata').length})</Tabs.Tab>
+                <Tabs.Tab value="coverage" disabled={!coverage}>Coverage ({ofKind('coverage').length})</Tabs.Tab>
+              </Tabs.List>
+              {(['missing', 'metadata', 'coverage'] as const).map(kind => (
+                <Tabs.Panel key={kind} value={kind} pt="sm">
+                  <DifferenceTable kind={kind} differences={ofKind(kind)} comparison={comparison} />
+                </Tabs.Panel>
+              ))}
+            </Tabs>
+          </>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
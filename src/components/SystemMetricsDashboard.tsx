@@ -31,6 +31,7 @@ import {
   IconX
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { NotFoundError } from '../services/errors';
 
 interface MetricsData {
   http_requests_total: { [key: string]: number };
@@ -60,69 +61,16 @@ export function SystemMetricsDashboard({ refreshInterval = 7200000 }: SystemMetr
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
 
-  // Mock data for development - replace with actual API call
-  const mockMetrics: MetricsData = {
-    http_requests_total: {
-      'GET /sources': 1247,
-      'POST /sources': 89,
-      'DELETE /sources': 23,
-      'GET /flows': 2156,
-      'POST /flows': 156,
-      'DELETE /flows': 45,
-      'GET /analytics': 892,
-      'GET /health': 1567
-    },
-    http_request_duration_seconds: {
-      'GET /sources': [0.1, 0.25, 0.5, 1.0, 2.5],
-      'POST /sources': [0.2, 0.4, 0.8, 1.5, 3.0],
-      'GET /flows': [0.15, 0.3, 0.6, 1.2, 2.8],
-      'GET /analytics': [0.3, 0.6, 1.2, 2.5, 5.0]
-    },
-    sources_total: 45,
-    flows_total: 234,
-    objects_total: 1247,
-    storage_bytes_total: 107374182400, // 100 GB
-    flow_operations_total: {
-      'create_success': 156,
-      'create_failed': 3,
-      'update_success': 89,
-      'update_failed': 1,
-      'delete_success': 45,
-      'delete_failed': 0
-    },
-    object_operations_total: {
-      'upload_success': 1247,
-      'upload_failed': 12,
-      'delete_success': 89,
-      'delete_failed': 2
-    },
-    source_operations_total: {
-      'create_success': 89,
-      'create_failed': 1,
-      'update_success': 45,
-      'update_failed': 0,
-      'delete_success': 23,
-      'delete_failed': 0
-    },
-    errors_total: 18,
-    vast_query_duration_seconds: 0.45,
-    s3_operation_duration_seconds: 0.23,
-    memory_usage_bytes: 536870912, // 512 MB
-    active_connections: 12,
-    last_updated: new Date().toISOString()
-  };
-
   const fetchMetrics = async () => {
     try {
       setLoading(true);
       setError(null);
       
-      // Fetch Prometheus metrics directly using the proxy to avoid CORS issues
       // Note: /metrics returns Prometheus format, not JSON
-      const response = await fetch(import.meta.env.DEV ? '/api/metrics' : '/api/proxy/metrics');
+      const response = await apiClient.fetch('/metrics', {}, { background: true });
       
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await apiClient.error(response);
       }
       
       // Get the Prometheus metrics as text
@@ -131,22 +79,22 @@ export function SystemMetricsDashboard({ refreshInterval = 7200000 }: SystemMetr
       // Parse Prometheus metrics to extract useful information
       const parsedMetrics = parsePrometheusMetrics(prometheusText);
       
-      // Create metrics data from parsed Prometheus response, with fallbacks to mock data if needed
+      // Metrics the backend does not export show as zero
       const metricsData: MetricsData = {
-        http_requests_total: parsedMetrics.http_requests_total || mockMetrics.http_requests_total,
-        http_request_duration_seconds: parsedMetrics.http_request_duration_seconds || mockMetrics.http_request_duration_seconds,
-        sources_total: parsedMetrics.sources_total || mockMetrics.sources_total,
-        flows_total: parsedMetrics.flows_total || mockMetrics.flows_total,
-        objects_total: parsedMetrics.objects_total || mockMetrics.objects_total,
-        storage_bytes_total: parsedMetrics.storage_bytes_total || mockMetrics.storage_bytes_total,
-        flow_operations_total: parsedMetrics.flow_operations_total || mockMetrics.flow_operations_total,
-        object_operations_total: parsedMetrics.object_operations_total || mockMetrics.object_operations_total,
-        source_operations_total: parsedMetrics.source_operations_total || mockMetrics.source_operations_total,
-        errors_total: parsedMetrics.errors_total || mockMetrics.errors_total,
-        vast_query_duration_seconds: parsedMetrics.vast_query_duration_seconds || mockMetrics.vast_query_duration_seconds,
-        s3_operation_duration_seconds: parsedMetrics.s3_operation_duration_seconds || mockMetrics.s3_operation_duration_seconds,
-        memory_usage_bytes: parsedMetrics.memory_usage_bytes || mockMetrics.memory_usage_bytes,
-        active_connections: parsedMetrics.active_connections || mockMetrics.active_connections,
+        http_requests_total: parsedMetrics.http_requests_total || {},
+        http_request_duration_seconds: parsedMetrics.http_request_duration_seconds || {},
+        sources_total: parsedMetrics.sources_total || 0,
+        flows_total: parsedMetrics.flows_total || 0,
+        objects_total: parsedMetrics.objects_total || 0,
+        storage_bytes_total: parsedMetrics.storage_bytes_total || 0,
+        flow_operations_total: parsedMetrics.flow_operations_total || {},
+        object_operations_total: parsedMetrics.object_operations_total || {},
+        source_operations_total: parsedMetrics.source_operations_total || {},
+        errors_total: parsedMetrics.errors_total || 0,
+        vast_query_duration_seconds: parsedMetrics.vast_query_duration_seconds || 0,
+        s3_operation_duration_seconds: parsedMetrics.s3_operation_duration_seconds || 0,
+        memory_usage_bytes: parsedMetrics.memory_usage_bytes || 0,
+        active_connections: parsedMetrics.active_connections || 0,
         last_updated: new Date().toISOString()
       };
       
@@ -154,15 +102,11 @@ export function SystemMetricsDashboard({ refreshInterval = 7200000 }: SystemMetr
       setLastRefresh(new Date());
     } catch (err: any) {
       // Check if it's a 404 error (backend not ready)
-      if (err.message && err.message.includes('404')) {
+      if (err instanceof NotFoundError) {
         setError('Backend Not Ready - Metrics endpoint is not available');
-        // Fall back to mock data for development
-        setMetrics(mockMetrics);
       } else {
-        console.warn('Failed to fetch Prometheus metrics, using mock data:', err.message);
-        setError('Using mock data - Failed to fetch live metrics');
-        // Fall back to mock data for development
-        setMetrics(mockMetrics);
+        console.warn('Failed to fetch Prometheus metrics:', err.message);
+        setError(`Failed to fetch live metrics: ${err.message}`);
       }
     } finally {
       setLoading(false);
@@ -200,6 +144,18 @@ export function SystemMetricsDashboard({ refreshInterval = 7200000 }: SystemMetr
               metrics.http_request_duration_seconds[label] = [];
             }
             metrics.http_request_duration_seconds[label].push(numValue);
+          } else if (metricName.includes('_operations_total')) {
+            // e.g. tams_flow_operations_total{operation="create",status="success"}
+            const entity = metricName.includes('flow_') ? 'flow_operations_total'
+              : metricName.includes('object_') ? 'object_operations_total'
+              : metricName.includes('source_') ? 'source_operations_total'
+              : null;
+            if (!entity) continue;
+            const labelValues = Object.fromEntries(
+              (labels ?? '').split(',').map(pair => pair.split('=').map(part => part.trim().replace(/"/g, '')))
+            );
+            const operation = [labelValues.operation, labelValues.status].filter(Boolean).join('_') || 'total';
+            metrics[entity] = { ...(metrics[entity] ?? {}), [operation]: numValue };
           } else if (metricName.includes('sources_total')) {
             metrics.sources_total = numValue;
           } else if (metricName.includes('flows_total')) {
@@ -0,0 +1,35 @@
+import { SegmentedControl, Group, Text, Tooltip } from '@mantine/core';
+import { IconClock } from '@tabler/icons-react';
+import { useTimeDisplay } from '../hooks/useTimeDisplay';
+import { TIME_DISPLAY_MODES, type TimeDisplayMode } from '../utils/timeDisplay';
+
+interface TimeDisplayModeSelectorProps {
+  size?: 'xs' | 'sm' | 'md';
+  showLabel?: boolean;
+}
+
+/**
+ * Selects how TAI timestamps are rendered across the app (TAI, UTC, local time or timecode)
+ */
+export function TimeDisplayModeSelector({ size = 'xs', showLabel = true }: TimeDisplayModeSelectorProps) {
+  const { mode, setMode } = useTimeDisplay();
+
+  return (
+    <Tooltip label="TAMS timestamps are TAI; UTC and local views apply the leap second table">
+      <Group gap="xs" wrap="nowrap">
+        {showLabel && (
+          <Group gap={4} wrap="nowrap">
+            <IconClock size={14} />
+            <Text size="xs" c="dimmed">Time</Text>
+          </Group>
+        )}
+        <SegmentedControl
+          size={size}
+          value={mode}
+          onChange={(value) => setMode(value as TimeDisplayMode)}
+          data={TIME_DISPLAY_MODES}
+        />
+      </Group>
+    </Tooltip>
+  );
+}
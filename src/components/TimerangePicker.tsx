@@ -13,12 +13,25 @@ import {
   Box,
   Divider,
   Code,
-  Switch
+  Switch,
+  SegmentedControl
 } from '@mantine/core';
 import { IconClock, IconX, IconInfoCircle, IconRefresh } from '@tabler/icons-react';
+import {
+  createTimerange,
+  formatTaiTimestamp,
+  formatTimerange,
+  taiTimestamp,
+  tryParseTimerange,
+  type EditRate,
+  type TaiTimestamp,
+  type Timerange
+} from '../utils/timerange';
+import { formatEditRate, isDropFrameRate, timecodeToTimestamp, timestampToTimecode } from '../utils/timecode';
+import { parseFrameRate } from '../utils/timeDisplay';
 
-// BBC TAMS Timerange format: [start]:[start_subsecond]_[end]:[end_subsecond]
-// Examples: "0:0", "0:0_1:30", "1:500000000_2:100000000"
+// BBC TAMS Timerange format: [start_seconds:start_nanoseconds_end_seconds:end_nanoseconds)
+// Examples: "[0:0]", "[0:0_1:500000000)", "(1:500000000_2:100000000]", "_" (eternity)
 interface TimerangePickerProps {
   value: string;
   onChange: (value: string) => void;
@@ -30,6 +43,10 @@ interface TimerangePickerProps {
   showPresets?: boolean;
   allowInfinite?: boolean;
   className?: string;
+
+  // Timecode entry (enabled when the flow frame rate is known)
+  frameRate?: EditRate | string | null;
+  timecodeOrigin?: TaiTimestamp; // TAI timestamp of timecode 00:00:00:00 (defaults to 0:0)
   
   // Custom styling
   size?: 'xs' | 'sm' | 'md' | 'lg' | 'xl';
@@ -41,32 +58,48 @@ interface TimeValue {
   subseconds: number;
 }
 
-interface ParsedTimerange {
-  start: TimeValue;
-  end: TimeValue | null;
-  isInfinite: boolean;
-}
+type EntryMode = 'seconds' | 'timecode';
+type TimecodeDrafts = { start?: string; end?: string };
 
-// BBC TAMS Timerange Presets
+// BBC TAMS Timerange Presets (canonical TAMS timerange strings)
 const BBC_TIMERANGE_PRESETS = [
-  { label: '0:0 (Start)', value: '0:0' },
-  { label: '0:0_1:0 (1 second)', value: '0:0_1:0' },
-  { label: '0:0_1:30 (1.5 seconds)', value: '0:0_1:30' },
-  { label: '0:0_5:0 (5 seconds)', value: '0:0_5:0' },
-  { label: '0:0_10:0 (10 seconds)', value: '0:0_10:0' },
-  { label: '0:0_30:0 (30 seconds)', value: '0:0_30:0' },
-  { label: '0:0_1:0_0 (1 minute)', value: '0:0_60:0' },
-  { label: '0:0_5:0_0 (5 minutes)', value: '0:0_300:0' },
-  { label: '0:0_10:0_0 (10 minutes)', value: '0:0_600:0' },
-  { label: '0:0_1:0_0_0 (1 hour)', value: '0:0_3600:0' },
-  { label: '∞ (Infinite)', value: '0:0_∞' }
+  { label: '[0:0] (Start)', value: '[0:0]' },
+  { label: '[0:0_1:0) (1 second)', value: '[0:0_1:0)' },
+  { label: '[0:0_1:500000000) (1.5 seconds)', value: '[0:0_1:500000000)' },
+  { label: '[0:0_5:0) (5 seconds)', value: '[0:0_5:0)' },
+  { label: '[0:0_10:0) (10 seconds)', value: '[0:0_10:0)' },
+  { label: '[0:0_30:0) (30 seconds)', value: '[0:0_30:0)' },
+  { label: '[0:0_60:0) (1 minute)', value: '[0:0_60:0)' },
+  { label: '[0:0_300:0) (5 minutes)', value: '[0:0_300:0)' },
+  { label: '[0:0_600:0) (10 minutes)', value: '[0:0_600:0)' },
+  { label: '[0:0_3600:0) (1 hour)', value: '[0:0_3600:0)' },
+  { label: '[0:0_ (Open-ended)', value: '[0:0_' },
+  { label: '_ (Eternity)', value: '_' }
 ];
 
+const DEFAULT_TIMERANGE = createTimerange(taiTimestamp(0), taiTimestamp(1, 500000000));
+const DEFAULT_END_TIME: TimeValue = { seconds: 1, subseconds: 500000000 };
+
+// The sign of a TAMS timestamp applies to the whole value ("-1:500000000" is -1.5s),
+// so the seconds field carries the sign and the subseconds field the magnitude
+const toTimeValue = (timestamp: TaiTimestamp): TimeValue => {
+  const [seconds = '0', subseconds = '0'] = formatTaiTimestamp(timestamp).split(':');
+  return { seconds: Number(seconds), subseconds: Number(subseconds) };
+};
+
+const fromTimeValue = (time: TimeValue): TaiTimestamp => {
+  const negative = time.seconds < 0 || Object.is(time.seconds, -0);
+  const magnitude = taiTimestamp(Math.abs(Math.trunc(time.seconds)), Math.trunc(time.subseconds));
+  return negative ? -magnitude : magnitude;
+};
+
 /**
  * Standardized BBC TAMS Timerange Picker Component
  * 
  * This component provides temporal filtering capabilities following BBC TAMS v6.0 specification.
- * It supports the BBC TAMS timerange format: [start]:[start_subsecond]_[end]:[end_subsecond]
+ * It supports the BBC TAMS timerange format, e.g. [0:0_1:500000000), including inclusive/exclusive
+ * bounds, negative times, nanosecond precision and unbounded ("_") ranges. When a frame rate is
+ * given, bounds can also be entered as SMPTE timecode (drop-frame for 29.97/59.94 rates).
  * 
  * @example
  * ```tsx
@@ -74,7 +107,7 @@ const BBC_TIMERANGE_PRESETS = [
  *   value={timerange}
  *   onChange={setTimerange}
  *   label="Time Range"
- *   placeholder="0:0_1:30"
+ *   placeholder="[0:0_1:500000000)"
  *   showPresets={true}
  *   allowInfinite={true}
  * />
@@ -83,7 +116,7 @@ const BBC_TIMERANGE_PRESETS = [
 export default function TimerangePicker({
   value,
   onChange,
-  placeholder = "0:0_1:30",
+  placeholder = "[0:0_1:500000000)",
   label = "Time Range",
   required = false,
   error,
@@ -91,121 +124,166 @@ export default function TimerangePicker({
   showPresets = true,
   allowInfinite = true,
   className,
+  frameRate,
+  timecodeOrigin = 0n,
   size = 'md',
   variant = 'outline'
 }: TimerangePickerProps) {
+  const rate = parseFrameRate(frameRate);
   const [startTime, setStartTime] = useState<TimeValue>({ seconds: 0, subseconds: 0 });
-  const [endTime, setEndTime] = useState<TimeValue | null>({ seconds: 1, subseconds: 30 });
+  const [endTime, setEndTime] = useState<TimeValue | null>(DEFAULT_END_TIME);
+  const [isOpenStart, setIsOpenStart] = useState(false);
   const [isInfinite, setIsInfinite] = useState(false);
+  const [includesStart, setIncludesStart] = useState(true);
+  const [includesEnd, setIncludesEnd] = useState(false);
   const [internalValue, setInternalValue] = useState(value);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [entryMode, setEntryMode] = useState<EntryMode>(rate ? 'timecode' : 'seconds');
+  const [timecodeDrafts, setTimecodeDrafts] = useState<TimecodeDrafts>({});
+  const [timecodeErrors, setTimecodeErrors] = useState<TimecodeDrafts>({});
 
-  // Parse timerange string into structured format
-  const parseTimerange = useCallback((timerange: string): ParsedTimerange => {
+  // Parse timerange string into structured format (invalid input yields null)
+  const parseValue = useCallback((timerange: string): Timerange | null => {
     if (!timerange) {
-      return {
-        start: { seconds: 0, subseconds: 0 },
-        end: { seconds: 1, subseconds: 30 },
-        isInfinite: false
-      };
-    }
-
-    const parts = timerange.split('_');
-    const startPart = parts[0];
-    const endPart = parts[1];
-
-    const parseTimePart = (timePart: string): TimeValue => {
-      const [seconds, subseconds] = timePart.split(':').map(Number);
-      return {
-        seconds: seconds || 0,
-        subseconds: subseconds || 0
-      };
-    };
-
-    const start = parseTimePart(startPart || '0:0');
-    let end: TimeValue | null = null;
-    let infinite = false;
-
-    if (endPart) {
-      if (endPart === '∞' || endPart === 'inf') {
-        infinite = true;
-      } else {
-        end = parseTimePart(endPart);
-      }
+      return DEFAULT_TIMERANGE;
     }
+    return tryParseTimerange(timerange);
+  }, []);
 
-    return { start, end, isInfinite: infinite };
+  const applyTimerange = useCallback((range: Timerange) => {
+    setStartTime(range.start === null ? { seconds: 0, subseconds: 0 } : toTimeValue(range.start));
+    setIsOpenStart(range.start === null);
+    setEndTime(range.end === null ? null : toTimeValue(range.end));
+    setIsInfinite(range.end === null);
+    setIncludesStart(range.includesStart);
+    setIncludesEnd(range.includesEnd);
   }, []);
 
-  // Generate timerange string from structured format
+  // Generate canonical timerange string from structured format
   const generateTimerange = useCallback((): string => {
-    if (isInfinite) {
-      return `${startTime.seconds}:${startTime.subseconds}_∞`;
-    }
-    
-    if (endTime) {
-      return `${startTime.seconds}:${startTime.subseconds}_${endTime.seconds}:${endTime.subseconds}`;
-    }
-    
-    return `${startTime.seconds}:${startTime.subseconds}`;
-  }, [startTime, endTime, isInfinite]);
+    return formatTimerange(createTimerange(
+      isOpenStart ? null : fromTimeValue(startTime),
+      isInfinite || !endTime ? null : fromTimeValue(endTime),
+      includesStart,
+      includesEnd
+    ));
+  }, [startTime, endTime, isOpenStart, isInfinite, includesStart, includesEnd]);
 
   // Update internal state when value prop changes
   useEffect(() => {
     if (value !== internalValue) {
-      const parsed = parseTimerange(value);
-      setStartTime(parsed.start);
-      setEndTime(parsed.end);
-      setIsInfinite(parsed.isInfinite);
+      const parsed = parseValue(value);
       setInternalValue(value);
+      if (parsed) {
+        applyTimerange(parsed);
+        setTimecodeDrafts({});
+        setParseError(null);
+      } else {
+        setParseError('Invalid TAMS timerange');
+      }
     }
-  }, [value, parseTimerange, internalValue]);
+  }, [value, parseValue, applyTimerange, internalValue]);
 
   // Update output when internal state changes
   useEffect(() => {
+    if (parseError) return;
     const newValue = generateTimerange();
     if (newValue !== internalValue) {
       setInternalValue(newValue);
       onChange(newValue);
     }
-  }, [startTime, endTime, isInfinite, generateTimerange, onChange, internalValue]);
+  }, [startTime, endTime, isOpenStart, isInfinite, includesStart, includesEnd, generateTimerange, onChange, internalValue, parseError]);
 
   const handleStartTimeChange = (field: 'seconds' | 'subseconds', value: string | number | null) => {
     const numValue = value === '' || value === null ? 0 : Number(value);
+    setParseError(null);
     setStartTime(prev => ({ ...prev, [field]: numValue }));
   };
 
   const handleEndTimeChange = (field: 'seconds' | 'subseconds', value: string | number | null) => {
     if (!endTime) return;
     const numValue = value === '' || value === null ? 0 : Number(value);
+    setParseError(null);
     setEndTime({ ...endTime, [field]: numValue });
   };
 
   const handlePresetSelect = (presetValue: string) => {
-    if (presetValue === '0:0_∞') {
-      setIsInfinite(true);
-      setStartTime({ seconds: 0, subseconds: 0 });
-      setEndTime(null);
-    } else {
-      const parsed = parseTimerange(presetValue);
-      setStartTime(parsed.start);
-      setEndTime(parsed.end);
-      setIsInfinite(parsed.isInfinite);
+    const parsed = parseValue(presetValue);
+    if (parsed) {
+      setParseError(null);
+      setTimecodeDrafts({});
+      setTimecodeErrors({});
+      applyTimerange(parsed);
     }
   };
 
+  const handleOpenStartToggle = () => {
+    setParseError(null);
+    setIsOpenStart(!isOpenStart);
+  };
+
   const handleInfiniteToggle = () => {
+    setParseError(null);
     setIsInfinite(!isInfinite);
     if (!isInfinite) {
       setEndTime(null);
     } else {
-      setEndTime({ seconds: 1, subseconds: 30 });
+      setEndTime(DEFAULT_END_TIME);
+      setIncludesEnd(false);
+    }
+  };
+
+  // Timecode entry: keep the typed text as a draft until it parses, then update the bound
+  const timecodeValue = (bound: 'start' | 'end'): string => {
+    const draft = timecodeDrafts[bound];
+    if (draft !== undefined) return draft;
+    const time = bound === 'start' ? startTime : endTime;
+    return rate && time ? timestampToTimecode(fromTimeValue(time), rate, timecodeOrigin) : '';
+  };
+
+  const handleTimecodeChange = (bound: 'start' | 'end', text: string) => {
+    if (!rate) return;
+    setTimecodeDrafts(prev => ({ ...prev, [bound]: text }));
+    try {
+      const time = toTimeValue(timecodeToTimestamp(text, rate, timecodeOrigin));
+      setParseError(null);
+      setTimecodeErrors(prev => ({ ...prev, [bound]: undefined }));
+      if (bound === 'start') {
+        setStartTime(time);
+      } else {
+        setEndTime(time);
+      }
+    } catch (err) {
+      setTimecodeErrors(prev => ({ ...prev, [bound]: err instanceof Error ? err.message : 'Invalid timecode' }));
+    }
+  };
+
+  const handleTimecodeBlur = (bound: 'start' | 'end') => {
+    // Drop valid drafts so the field shows the canonical timecode
+    if (!timecodeErrors[bound]) {
+      setTimecodeDrafts(prev => ({ ...prev, [bound]: undefined }));
     }
   };
 
+  const renderTimecodeInput = (bound: 'start' | 'end') => (
+    <TextInput
+      label={rate && isDropFrameRate(rate) ? 'Timecode (HH:MM:SS;FF)' : 'Timecode (HH:MM:SS:FF)'}
+      value={timecodeValue(bound)}
+      onChange={(e) => handleTimecodeChange(bound, e.target.value)}
+      onBlur={() => handleTimecodeBlur(bound)}
+      error={timecodeErrors[bound]}
+      disabled={disabled}
+      size={size}
+      style={{ flex: 1 }}
+      styles={{ input: { fontFamily: 'monospace' } }}
+    />
+  );
+
   const handleReset = () => {
-    setStartTime({ seconds: 0, subseconds: 0 });
-    setEndTime({ seconds: 1, subseconds: 30 });
-    setIsInfinite(false);
+    setParseError(null);
+    setTimecodeDrafts({});
+    setTimecodeErrors({});
+    applyTimerange(DEFAULT_TIMERANGE);
   };
 
   return (
@@ -221,7 +299,7 @@ export default function TimerangePicker({
       {/* BBC TAMS Format Info */}
       <Alert icon={<IconInfoCircle size={16} />} color="blue" variant="light" mb="md">
         <Text size="xs">
-          TAMS v6.0 format: <Code>[start]:[start_subsecond]_[end]:[end_subsecond]</Code>
+          TAMS v6.0 format: <Code>[seconds:nanoseconds_seconds:nanoseconds)</Code>, <Code>_</Code> for eternity
         </Text>
       </Alert>
 
@@ -230,7 +308,7 @@ export default function TimerangePicker({
         value={internalValue}
         onChange={(e) => onChange(e.target.value)}
         placeholder={placeholder}
-        error={error}
+        error={error || parseError}
         disabled={disabled}
         size={size}
         mb="md"
@@ -248,32 +326,64 @@ export default function TimerangePicker({
         }
       />
 
+      {/* Entry mode (timecode needs the flow frame rate) */}
+      {rate && (
+        <Group justify="space-between" align="center" mb="md">
+          <SegmentedControl
+            size="xs"
+            value={entryMode}
+            onChange={(value) => setEntryMode(value as EntryMode)}
+            data={[
+              { value: 'seconds', label: 'Seconds' },
+              { value: 'timecode', label: 'Timecode' }
+            ]}
+            disabled={disabled}
+          />
+          <Text size="xs" c="dimmed">
+            {formatEditRate(rate)} fps{isDropFrameRate(rate) ? ' drop-frame' : ''}
+          </Text>
+        </Group>
+      )}
+
       {/* Time Controls */}
       <Stack gap="md">
         {/* Start Time */}
         <Box>
-          <Text size="sm" fw={500} mb="xs">Start Time</Text>
-          <Group gap="xs">
-                         <NumberInput
-               label="Seconds"
-               value={startTime.seconds}
-               onChange={(value) => handleStartTimeChange('seconds', value || 0)}
-               min={0}
-               disabled={disabled}
-               size={size}
-               style={{ flex: 1 }}
-             />
-             <NumberInput
-               label="Subseconds (ns)"
-               value={startTime.subseconds}
-               onChange={(value) => handleStartTimeChange('subseconds', value || 0)}
-               min={0}
-               max={999999999}
-               disabled={disabled}
-               size={size}
-               style={{ flex: 1 }}
-             />
+          <Group justify="space-between" align="center" mb="xs">
+            <Text size="sm" fw={500}>Start Time</Text>
+            {allowInfinite && (
+              <Switch
+                label="Unbounded"
+                checked={isOpenStart}
+                onChange={handleOpenStartToggle}
+                disabled={disabled}
+                size={size}
+              />
+            )}
           </Group>
+          {!isOpenStart && rate && entryMode === 'timecode' && renderTimecodeInput('start')}
+          {!isOpenStart && (!rate || entryMode === 'seconds') && (
+            <Group gap="xs">
+                           <NumberInput
+                 label="Seconds"
+                 value={startTime.seconds}
+                 onChange={(value) => handleStartTimeChange('seconds', value || 0)}
+                 disabled={disabled}
+                 size={size}
+                 style={{ flex: 1 }}
+               />
+               <NumberInput
+                 label="Subseconds (ns)"
+                 value={startTime.subseconds}
+                 onChange={(value) => handleStartTimeChange('subseconds', value || 0)}
+                 min={0}
+                 max={999999999}
+                 disabled={disabled}
+                 size={size}
+                 style={{ flex: 1 }}
+               />
+            </Group>
+          )}
         </Box>
 
         {/* End Time */}
@@ -291,13 +401,13 @@ export default function TimerangePicker({
             )}
           </Group>
           
-          {!isInfinite && (
+          {!isInfinite && rate && entryMode === 'timecode' && renderTimecodeInput('end')}
+          {!isInfinite && (!rate || entryMode === 'seconds') && (
             <Group gap="xs">
                              <NumberInput
                  label="Seconds"
                  value={endTime?.seconds || 0}
                  onChange={(value) => handleEndTimeChange('seconds', value || 0)}
-                 min={0}
                  disabled={disabled}
                  size={size}
                  style={{ flex: 1 }}
@@ -322,7 +432,9 @@ export default function TimerangePicker({
         <Box mt="md">
           <Text size="sm" fw={500} mb="xs">Quick Presets</Text>
           <Group gap="xs" wrap="wrap">
-            {BBC_TIMERANGE_PRESETS.map((preset) => (
+            {BBC_TIMERANGE_PRESETS
+              .filter((preset) => allowInfinite || !preset.value.endsWith('_'))
+              .map((preset) => (
               <Button
                 key={preset.value}
                 variant={internalValue === preset.value ? 'filled' : 'light'}
@@ -38,7 +38,9 @@ import {
   IconDownload,
   IconRefresh,
   IconAlertCircle,
-  IconCheck
+  IconCheck,
+  IconChevronLeft,
+  IconChevronRight
 } from '@tabler/icons-react';
 import { VastTamsSegment } from '../services/vastTamsApi';
 import { 
@@ -49,6 +51,9 @@ import {
   hasValidVideoUrls,
   validateVastTamsSegment
 } from '../utils/vastTamsUtils';
+import { useTimeDisplay } from '../hooks/useTimeDisplay';
+import type { EditRate } from '../utils/timerange';
+import { frameToSeekTime, mediaTimeToTimecode, secondsToFrame, snapToFrame } from '../utils/timecode';
 
 interface VastTamsVideoPlayerProps {
   segment: VastTamsSegment;
@@ -61,6 +66,7 @@ interface VastTamsVideoPlayerProps {
   onLoadStart?: () => void;
   onLoadEnd?: () => void;
   onMetadataLoaded?: (metadata: any) => void;
+  frameRate?: EditRate; // Flow frame rate: enables timecode display and frame-accurate seeking
 }
 
 export default function VastTamsVideoPlayer({
@@ -73,7 +79,8 @@ export default function VastTamsVideoPlayer({
   onError,
   onLoadStart,
   onLoadEnd,
-  onMetadataLoaded
+  onMetadataLoaded,
+  frameRate
 }: VastTamsVideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -110,7 +117,8 @@ export default function VastTamsVideoPlayer({
   const segmentUrls = getAllSegmentUrls(segment);
   const playbackUrl = segmentUrls.playbackUrl;
   const metadataUrl = segmentUrls.metadataUrl;
-  const displayInfo = getSegmentDisplayInfo(segment);
+  const { mode: timeDisplayMode } = useTimeDisplay();
+  const displayInfo = getSegmentDisplayInfo(segment, { mode: timeDisplayMode, frameRate });
 
   // Handle video load
   useEffect(() => {
@@ -232,8 +240,19 @@ export default function VastTamsVideoPlayer({
     const video = videoRef.current;
     if (!video) return;
 
-    video.currentTime = time;
-    setCurrentTime(time);
+    const seekTime = frameRate ? snapToFrame(time, frameRate) : time;
+    video.currentTime = seekTime;
+    setCurrentTime(seekTime);
+  };
+
+  const handleFrameStep = (direction: -1 | 1) => {
+    const video = videoRef.current;
+    if (!video || !frameRate) return;
+
+    video.pause();
+    const seekTime = Math.min(frameToSeekTime(secondsToFrame(video.currentTime, frameRate) + direction, frameRate), video.duration || Infinity);
+    video.currentTime = seekTime;
+    setCurrentTime(seekTime);
   };
 
   const toggleFullscreen = () => {
@@ -253,6 +272,9 @@ export default function VastTamsVideoPlayer({
   };
 
   const formatTime = (time: number): string => {
+    if (frameRate) {
+      return mediaTimeToTimecode(time, frameRate);
+    }
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
@@ -349,6 +371,9 @@ export default function VastTamsVideoPlayer({
                 {displayInfo.size}
               </Badge>
             </Group>
+            <Text size="xs" c="dimmed" mb="sm">
+              {displayInfo.start} – {displayInfo.end}
+            </Text>
             
             {metadata && (
               <Box mb="sm">
@@ -471,6 +496,21 @@ export default function VastTamsVideoPlayer({
                 {isPlaying ? <IconPlayerPause size={20} /> : <IconPlayerPlay size={20} />}
               </ActionIcon>
 
+              {frameRate && (
+                <Group gap={4}>
+                  <Tooltip label="Previous frame">
+                    <ActionIcon variant="subtle" onClick={() => handleFrameStep(-1)} disabled={isLoading}>
+                      <IconChevronLeft size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                  <Tooltip label="Next frame">
+                    <ActionIcon variant="subtle" onClick={() => handleFrameStep(1)} disabled={isLoading}>
+                      <IconChevronRight size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Group>
+              )}
+
               <Group gap="xs">
                 <ActionIcon
                   variant="subtle"
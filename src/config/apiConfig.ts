@@ -26,12 +26,45 @@ function getBackendUrl(backendType: string, baseUrl: string): string {
   return baseUrl;
 }
 
+/**
+ * Get backend authentication settings from environment variables
+ *
+ * Reads `VITE_BACKEND_<PREFIX>_AUTH_TYPE` plus the optional `_API_KEY_HEADER`,
+ * `_TOKEN_ENDPOINT`, `_AUTHORIZATION_ENDPOINT`, `_CLIENT_ID` and `_SCOPE` settings.
+ * Secrets are never read from config; users enter them in the backend selector.
+ *
+ * @param prefix - Environment variable prefix, e.g. 'VAST_TAMS'
+ * @returns The auth settings, `{ type: 'none' }` when not configured
+ */
+function getBackendAuth(prefix: string): NonNullable<BackendApiConfig['auth']> {
+  const env = import.meta.env;
+  const type = env[`VITE_BACKEND_${prefix}_AUTH_TYPE`];
+  if (type !== 'api-key' && type !== 'bearer' && type !== 'oauth2') {
+    return { type: 'none' };
+  }
+
+  const settings: NonNullable<BackendApiConfig['auth']> = { type };
+  const optional = {
+    apiKeyHeader: env[`VITE_BACKEND_${prefix}_API_KEY_HEADER`],
+    tokenEndpoint: env[`VITE_BACKEND_${prefix}_TOKEN_ENDPOINT`],
+    authorizationEndpoint: env[`VITE_BACKEND_${prefix}_AUTHORIZATION_ENDPOINT`],
+    clientId: env[`VITE_BACKEND_${prefix}_CLIENT_ID`],
+    scope: env[`VITE_BACKEND_${prefix}_SCOPE`],
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (typeof value === 'string' && value) {
+      settings[key as keyof typeof optional] = value;
+    }
+  }
+  return settings;
+}
+
 export interface BackendApiConfig {
   id: string;
   name: string;
   description: string;
   baseUrl: string;
-  type: 'vast-tams' | 'bbc-tams' | 'ibc-thiago' | 'custom';
+  type: 'vast-tams' | 'bbc-tams' | 'ibc-thiago' | 'custom' | 'mock';
   version: string;
   features: {
     supportsSoftDelete: boolean;
@@ -55,10 +88,18 @@ export interface BackendApiConfig {
     storage: string;
     flowDeleteRequests: string;
   };
+  // Paths that differ from what the adapter sends, e.g. { '/flows': '/v2/flows' };
+  // `{flow_id}` placeholders carry over from one side to the other
+  endpointRemap?: Record<string, string>;
   auth?: {
     type: 'none' | 'api-key' | 'bearer' | 'oauth2';
     apiKeyHeader?: string;
     tokenEndpoint?: string;
+    // OAuth2 login page for the PKCE flow; without it the client credentials grant is used
+    authorizationEndpoint?: string;
+    // Public OAuth2 client ID (client secrets are entered by the user, never configured)
+    clientId?: string;
+    scope?: string;
   };
   cors?: {
     enabled: boolean;
@@ -70,6 +111,11 @@ export interface BackendApiConfig {
   };
 }
 
+/**
+ * Address of the offline mock backend; requests to it never reach the network (see services/mockTams.ts)
+ */
+export const MOCK_TAMS_BASE_URL = 'http://mock-tams.invalid';
+
 /**
  * Available Backend API Configurations
  */
@@ -103,9 +149,7 @@ export const BACKEND_APIS: Record<string, BackendApiConfig> = {
       storage: '/flows/{flow_id}/storage',
       flowDeleteRequests: '/flow-delete-requests',
     },
-    auth: {
-      type: 'none',
-    },
+    auth: getBackendAuth('VAST_TAMS'),
     cors: {
       enabled: true,
       credentials: false,
@@ -144,9 +188,7 @@ export const BACKEND_APIS: Record<string, BackendApiConfig> = {
       storage: '/flows/{flow_id}/storage',
       flowDeleteRequests: '/flow-delete-requests',
     },
-    auth: {
-      type: 'none',
-    },
+    auth: getBackendAuth('IBC_THIAGO'),
     cors: {
       enabled: true,
       credentials: false,
@@ -185,9 +227,7 @@ export const BACKEND_APIS: Record<string, BackendApiConfig> = {
       storage: '/flows/{flow_id}/storage',
       flowDeleteRequests: '/flow-delete-requests',
     },
-    auth: {
-      type: 'none',
-    },
+    auth: getBackendAuth('IBC_THIAGO_IMPORTED'),
     cors: {
       enabled: true,
       credentials: false,
@@ -197,8 +237,83 @@ export const BACKEND_APIS: Record<string, BackendApiConfig> = {
       requestsPerMinute: 1000,
     },
   },
+  'mock-tams': {
+    id: 'mock-tams',
+    name: 'Mock TAMS (offline)',
+    description: 'In-browser TAMS store seeded with demo content; needs no network',
+    baseUrl: MOCK_TAMS_BASE_URL,
+    type: 'mock',
+    version: '6.0',
+    features: {
+      supportsSoftDelete: true,
+      supportsCMCD: false,
+      supportsWebhooks: true,
+      supportsStorageAllocation: true,
+      supportsFlowCollections: true,
+      supportsAdvancedSearch: false,
+      supportsAsyncOperations: false,
+      supportsHealthMonitoring: true,
+    },
+    endpoints: {
+      sources: '/sources',
+      flows: '/flows',
+      segments: '/flows/{flow_id}/segments',
+      objects: '/objects',
+      analytics: '/analytics',
+      webhooks: '/service/webhooks',
+      health: '/health',
+      metrics: '/metrics',
+      storage: '/flows/{flow_id}/storage',
+      flowDeleteRequests: '/flow-delete-requests',
+    },
+    auth: { type: 'none' },
+  },
 };
 
+/**
+ * localStorage key for backends added at runtime from the backend selector
+ */
+const CUSTOM_BACKENDS_KEY = 'customBackends';
+
+/**
+ * Get backends added at runtime
+ */
+export function getCustomBackends(): BackendApiConfig[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_BACKENDS_KEY);
+    return stored ? JSON.parse(stored) as BackendApiConfig[] : [];
+  } catch {
+    // An unreadable entry lists no runtime backends; the next save replaces it
+    return [];
+  }
+}
+
+/**
+ * Add or replace a runtime backend; built-in backends cannot be replaced
+ */
+export function saveCustomBackend(config: BackendApiConfig): void {
+  if (BACKEND_APIS[config.id]) {
+    throw new Error(`Backend ID "${config.id}" is reserved for a built-in backend`);
+  }
+  const backends = getCustomBackends().filter(backend => backend.id !== config.id);
+  localStorage.setItem(CUSTOM_BACKENDS_KEY, JSON.stringify([...backends, config]));
+}
+
+/**
+ * Remove a runtime backend
+ */
+export function removeCustomBackend(id: string): void {
+  const backends = getCustomBackends().filter(backend => backend.id !== id);
+  localStorage.setItem(CUSTOM_BACKENDS_KEY, JSON.stringify(backends));
+}
+
+/**
+ * Check if a backend was added at runtime rather than built in
+ */
+export function isCustomBackend(id: string): boolean {
+  return !BACKEND_APIS[id] && getCustomBackends().some(backend => backend.id === id);
+}
+
 /**
  * Default backend configuration
  * Always defaults to 'vast-tams' (monks_tams_api) unless explicitly overridden
@@ -209,7 +324,7 @@ export const DEFAULT_BACKEND = import.meta.env.VITE_DEFAULT_BACKEND || 'vast-tam
  * Get backend configuration by ID
  */
 export function getBackendConfig(id: string): BackendApiConfig | null {
-  return BACKEND_APIS[id] || null;
+  return BACKEND_APIS[id] || getCustomBackends().find(backend => backend.id === id) || null;
 }
 
 /**
@@ -253,7 +368,7 @@ export function getCurrentBackendConfig(): BackendApiConfig {
  * Get all available backend configurations
  */
 export function getAvailableBackends(): BackendApiConfig[] {
-  return Object.values(BACKEND_APIS);
+  return [...Object.values(BACKEND_APIS), ...getCustomBackends()];
 }
 
 /**
@@ -290,6 +405,10 @@ export function validateBackendConfig(config: BackendApiConfig): string[] {
   Object.entries(config.endpoints).forEach(([key, value]) => {
     if (!value) errors.push(`Endpoint ${key} is required`);
   });
+
+  if (config.rateLimiting?.enabled && !(config.rateLimiting.requestsPerMinute > 0)) {
+    errors.push('Rate limit must be a positive number of requests per minute');
+  }
   
   return errors;
 }
@@ -5,7 +5,7 @@
  * Provides backend switching functionality, feature detection, and connection testing.
  */
 
-import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useMemo, ReactNode } from 'react';
 import { 
   BackendContextState, 
   BackendContextValue, 
@@ -14,7 +14,8 @@ import {
   BackendConnectionTest,
   BackendSwitchEvent,
   BackendPerformanceMetrics,
-  BackendFeature
+  BackendFeature,
+  BackendCapabilities
 } from '../types/backend';
 import { 
   getBackendConfig, 
@@ -22,6 +23,10 @@ import {
   getAvailableBackends,
   validateBackendConfig 
 } from '../config/apiConfig';
+import { credentialManager } from '../services/credentials';
+import { BackendHttpClient } from '../services/pipeline';
+import { capabilityRegistry, resolveFeatures } from '../services/capabilities';
+import { backendProfiles } from '../services/backendProfiles';
 
 // Action types for the reducer
 type BackendAction = 
@@ -32,9 +37,23 @@ type BackendAction =
   | { type: 'ADD_CONNECTION_TEST'; payload: BackendConnectionTest }
   | { type: 'ADD_SWITCH_EVENT'; payload: BackendSwitchEvent }
   | { type: 'SET_PERFORMANCE_METRICS'; payload: BackendPerformanceMetrics }
+  | { type: 'SET_CAPABILITIES'; payload: BackendCapabilities }
+  | { type: 'SET_FEDERATED_BACKENDS'; payload: string[] }
   | { type: 'CLEAR_ERROR' }
   | { type: 'REFRESH_BACKENDS' };
 
+// localStorage key for the backends listed together in federated mode
+const FEDERATED_BACKENDS_KEY = 'federatedBackends';
+
+function loadFederatedBackendIds(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FEDERATED_BACKENDS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(id => typeof id === 'string' && getBackendConfig(id)) : [];
+  } catch {
+    return [];
+  }
+}
+
 // Initial state
 const initialState: BackendContextState = {
   currentBackend: getCurrentBackendConfig(),
@@ -42,6 +61,8 @@ const initialState: BackendContextState = {
   isLoading: false,
   error: null,
   lastSwitchTime: null,
+  capabilities: capabilityRegistry.get(getCurrentBackendConfig().id),
+  federatedBackendIds: loadFederatedBackendIds(),
 };
 
 // Reducer function
@@ -54,6 +75,7 @@ function backendReducer(state: BackendContextState, action: BackendAction): Back
           ...state,
           currentBackend: newBackend,
           lastSwitchTime: new Date(),
+          capabilities: capabilityRegistry.get(newBackend.id),
         };
       }
       return state;
@@ -97,16 +119,34 @@ function backendReducer(state: BackendContextState, action: BackendAction): Back
         // Store performance metrics if needed
       };
       
+    case 'SET_CAPABILITIES':
+      // Ignore discoveries that finish after switching to another backend
+      if (action.payload.backendId !== state.currentBackend.id) {
+        return state;
+      }
+      return {
+        ...state,
+        capabilities: action.payload,
+      };
+      
     case 'CLEAR_ERROR':
       return {
         ...state,
         error: null,
       };
       
+    case 'SET_FEDERATED_BACKENDS':
+      return {
+        ...state,
+        federatedBackendIds: action.payload,
+      };
+      
     case 'REFRESH_BACKENDS':
       return {
         ...state,
         availableBackends: getAvailableBackends(),
+        // Drop backends that were removed
+        federatedBackendIds: state.federatedBackendIds.filter(id => getBackendConfig(id)),
       };
       
     default:
@@ -140,6 +180,13 @@ export function BackendProvider({ children }: BackendProviderProps) {
         if (storedBackend && getBackendConfig(storedBackend)) {
           dispatch({ type: 'SET_CURRENT_BACKEND', payload: storedBackend });
         }
+
+        // Finish an OAuth2 sign-in when the backend's login page redirected back here
+        try {
+          await credentialManager.completeSignIn();
+        } catch (error) {
+          dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Sign-in failed' });
+        }
         
         // Test connection to current backend (only if health endpoint is configured)
         // Skip health check on initial mount to avoid unnecessary requests
@@ -162,6 +209,20 @@ export function BackendProvider({ children }: BackendProviderProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Intentionally empty - only run on mount
 
+  // Pick up backends added or removed in the backend selector
+  useEffect(() => backendProfiles.subscribe(() => dispatch({ type: 'REFRESH_BACKENDS' })), []);
+
+  // Discover what the connected server supports whenever the backend changes
+  useEffect(() => {
+    const config = getBackendConfig(state.currentBackend.id);
+    if (!config) return;
+    capabilityRegistry.discover(config)
+      .then(capabilities => dispatch({ type: 'SET_CAPABILITIES', payload: capabilities }))
+      // Until discovery succeeds the configured features apply; refreshing the backend retries
+      // it and reports the error
+      .catch(() => undefined);
+  }, [state.currentBackend.id]);
+
   // Test backend connection
   const testBackendConnection = useCallback(async (backendId: string): Promise<boolean> => {
     try {
@@ -170,11 +231,12 @@ export function BackendProvider({ children }: BackendProviderProps) {
         throw new Error(`Backend configuration not found: ${backendId}`);
       }
 
+      const http = new BackendHttpClient(config);
       const startTime = Date.now();
       
       // Test health endpoint if available
       if (config.endpoints.health) {
-        const response = await fetch(`${config.baseUrl}${config.endpoints.health}`);
+        const response = await http.fetch(config.endpoints.health);
         const responseTime = Date.now() - startTime;
         
         if (response.ok) {
@@ -201,7 +263,7 @@ export function BackendProvider({ children }: BackendProviderProps) {
         }
       } else {
         // Fallback: test base URL connectivity
-        const response = await fetch(config.baseUrl);
+        const response = await http.fetch('');
         const responseTime = Date.now() - startTime;
         
         if (response.ok) {
@@ -304,6 +366,10 @@ export function BackendProvider({ children }: BackendProviderProps) {
       
       // Test current backend connection
       await testBackendConnection(state.currentBackend.id);
+
+      // Re-read what the server supports
+      const capabilities = await capabilityRegistry.discover(state.currentBackend, true);
+      dispatch({ type: 'SET_CAPABILITIES', payload: capabilities });
       
     } catch (error) {
       console.error('Failed to refresh backend:', error);
@@ -311,20 +377,40 @@ export function BackendProvider({ children }: BackendProviderProps) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.currentBackend.id, testBackendConnection]);
+  }, [state.currentBackend, testBackendConnection]);
 
   // Clear error
   const clearError = useCallback(() => {
     dispatch({ type: 'CLEAR_ERROR' });
   }, []);
 
+  // Choose the backends listed together in federated mode
+  const setFederatedBackends = useCallback((backendIds: string[]) => {
+    const known = backendIds.filter(id => getBackendConfig(id));
+    localStorage.setItem(FEDERATED_BACKENDS_KEY, JSON.stringify(known));
+    dispatch({ type: 'SET_FEDERATED_BACKENDS', payload: known });
+  }, []);
+
+  const federatedBackends = useMemo(
+    () => state.availableBackends.filter(backend => state.federatedBackendIds.includes(backend.id)),
+    [state.availableBackends, state.federatedBackendIds]
+  );
+
+  const features = useMemo(
+    () => resolveFeatures(state.currentBackend, state.capabilities),
+    [state.currentBackend, state.capabilities]
+  );
+
   // Context value
   const contextValue: BackendContextValue = {
     ...state,
+    features,
+    federatedBackends,
     switchBackend,
     refreshBackend,
     testBackendConnection,
     clearError,
+    setFederatedBackends,
   };
 
   return (
@@ -345,37 +431,37 @@ export function useBackend(): BackendContextValue {
 
 // Custom hook for backend features
 export function useBackendFeatures() {
-  const { currentBackend } = useBackend();
+  const { features } = useBackend();
   
   return {
-    canUseSoftDelete: currentBackend.features.supportsSoftDelete,
-    canUseCMCD: currentBackend.features.supportsCMCD,
-    canUseWebhooks: currentBackend.features.supportsWebhooks,
-    canUseStorageAllocation: currentBackend.features.supportsStorageAllocation,
-    canUseFlowCollections: currentBackend.features.supportsFlowCollections,
-    canUseAdvancedSearch: currentBackend.features.supportsAdvancedSearch,
-    canUseAsyncOperations: currentBackend.features.supportsAsyncOperations,
-    canUseHealthMonitoring: currentBackend.features.supportsHealthMonitoring,
+    canUseSoftDelete: features.supportsSoftDelete,
+    canUseCMCD: features.supportsCMCD,
+    canUseWebhooks: features.supportsWebhooks,
+    canUseStorageAllocation: features.supportsStorageAllocation,
+    canUseFlowCollections: features.supportsFlowCollections,
+    canUseAdvancedSearch: features.supportsAdvancedSearch,
+    canUseAsyncOperations: features.supportsAsyncOperations,
+    canUseHealthMonitoring: features.supportsHealthMonitoring,
     supports: (feature: BackendFeature) => {
       const featureMap: Record<BackendFeature, boolean> = {
-        softDelete: currentBackend.features.supportsSoftDelete,
-        cmcd: currentBackend.features.supportsCMCD,
-        webhooks: currentBackend.features.supportsWebhooks,
-        storageAllocation: currentBackend.features.supportsStorageAllocation,
-        flowCollections: currentBackend.features.supportsFlowCollections,
-        advancedSearch: currentBackend.features.supportsAdvancedSearch,
-        asyncOperations: currentBackend.features.supportsAsyncOperations,
-        healthMonitoring: currentBackend.features.supportsHealthMonitoring,
+        softDelete: features.supportsSoftDelete,
+        cmcd: features.supportsCMCD,
+        webhooks: features.supportsWebhooks,
+        storageAllocation: features.supportsStorageAllocation,
+        flowCollections: features.supportsFlowCollections,
+        advancedSearch: features.supportsAdvancedSearch,
+        asyncOperations: features.supportsAsyncOperations,
+        healthMonitoring: features.supportsHealthMonitoring,
       };
       return featureMap[feature] || false;
     },
     getUnsupportedFeatures: () => {
       const features: BackendFeature[] = ['softDelete', 'cmcd', 'webhooks', 'storageAllocation', 'flowCollections', 'advancedSearch', 'asyncOperations', 'healthMonitoring'];
-      return features.filter(feature => !currentBackend.features[`supports${feature.charAt(0).toUpperCase() + feature.slice(1)}` as keyof typeof currentBackend.features]);
+      return features.filter(feature => !features[`supports${feature.charAt(0).toUpperCase() + feature.slice(1)}` as keyof typeof features]);
     },
     getSupportedFeatures: () => {
       const features: BackendFeature[] = ['softDelete', 'cmcd', 'webhooks', 'storageAllocation', 'flowCollections', 'advancedSearch', 'asyncOperations', 'healthMonitoring'];
-      return features.filter(feature => currentBackend.features[`supports${feature.charAt(0).toUpperCase() + feature.slice(1)}` as keyof typeof currentBackend.features]);
+      return features.filter(feature => features[`supports${feature.charAt(0).toUpperCase() + feature.slice(1)}` as keyof typeof features]);
     },
   };
 }
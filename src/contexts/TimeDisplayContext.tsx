@@ -0,0 +1,57 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  formatTaiForDisplay,
+  formatTimerangeForDisplay,
+  getStoredTimeDisplayMode,
+  storeTimeDisplayMode,
+  type TimeDisplayMode
+} from '../utils/timeDisplay';
+import {
+  getLeapSecondTable,
+  isLeapSecondTableExpired,
+  parseLeapSecondsList,
+  resetLeapSecondTable,
+  setLeapSecondTable
+} from '../utils/taiUtc';
+import { TimeDisplayContext, type TimeDisplayContextType } from '../hooks/useTimeDisplay';
+
+export function TimeDisplayProvider({ children }: { children: React.ReactNode }) {
+  const [mode, setModeState] = useState<TimeDisplayMode>(getStoredTimeDisplayMode);
+  const [leapSecondTable, setLeapSecondTableState] = useState(getLeapSecondTable);
+  const [persisted, setPersisted] = useState(true);
+
+  const setMode = useCallback((newMode: TimeDisplayMode) => {
+    setModeState(newMode);
+    setPersisted(storeTimeDisplayMode(newMode));
+  }, []);
+
+  const loadLeapSecondsList = useCallback((text: string) => {
+    const { entries, expires } = parseLeapSecondsList(text);
+    setPersisted(setLeapSecondTable(entries, expires));
+    setLeapSecondTableState(getLeapSecondTable());
+  }, []);
+
+  const resetTable = useCallback(() => {
+    setPersisted(resetLeapSecondTable());
+    setLeapSecondTableState(getLeapSecondTable());
+  }, []);
+
+  // Recreated with the table, so formatted times follow a newly loaded one
+  const value = useMemo<TimeDisplayContextType>(() => ({
+    mode,
+    setMode,
+    formatTimestamp: (timestamp, options) => formatTaiForDisplay(timestamp, mode, options),
+    formatTimerange: (range, options) => formatTimerangeForDisplay(range, mode, options),
+    leapSecondTable,
+    leapSecondTableExpired: isLeapSecondTableExpired(),
+    loadLeapSecondsList,
+    resetLeapSecondTable: resetTable,
+    persisted
+  }), [mode, setMode, leapSecondTable, loadLeapSecondsList, resetTable, persisted]);
+
+  return (
+    <TimeDisplayContext.Provider value={value}>
+      {children}
+    </TimeDisplayContext.Provider>
+  );
+}
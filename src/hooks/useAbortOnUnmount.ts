@@ -0,0 +1,37 @@
+/**
+ * useAbortOnUnmount Hook
+ *
+ * Ties API requests to the lifetime of a component. Requests made with the returned
+ * signal are cancelled when the component unmounts, so late responses never update
+ * state on a page the user has already left.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Returns a getter for an AbortSignal that aborts when the component unmounts
+ *
+ * @example
+ * const getSignal = useAbortOnUnmount();
+ * const flow = await apiClient.getFlow(flowId, { signal: getSignal() });
+ */
+export function useAbortOnUnmount(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Reuse a controller handed out during render; otherwise a fresh one per mount
+    // (StrictMode mounts twice in development, aborting the first)
+    const controller = controllerRef.current && !controllerRef.current.signal.aborted
+      ? controllerRef.current
+      : new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
@@ -3,50 +3,58 @@
  * 
  * React hook for detecting backend capabilities and feature availability.
  * Provides type-safe feature checking and helper methods for conditional rendering.
+ * Support comes from the backend config, overridden by what capability discovery found
+ * on the connected server.
  */
 
 import { useMemo } from 'react';
 import { useBackend } from '../contexts/BackendContext';
 import { BackendFeature } from '../services/interfaces/IApiClient';
+import { isEndpointAvailable } from '../services/capabilities';
+import type { OptionalEndpoint } from '../types/backend';
 
 /**
  * Hook for backend feature detection and availability
  */
 export function useBackendFeatures() {
-  const { currentBackend } = useBackend();
+  const { currentBackend, features: support, capabilities } = useBackend();
+  const isIbcThiago = currentBackend.id === 'ibc-thiago';
+  // Servers that list a WebSocket event stream in /service push updates too
+  const hasWebSocketUpdates = isIbcThiago ||
+    (capabilities?.eventStreamMechanisms ?? []).some(name => /websocket/i.test(name));
 
   // Memoize feature detection to avoid recalculation on every render
   const features = useMemo(() => {
     return {
       // Core TAMS features
-      canUseSoftDelete: currentBackend.features.supportsSoftDelete,
-      canUseCMCD: currentBackend.features.supportsCMCD,
-      canUseWebhooks: currentBackend.features.supportsWebhooks,
-      canUseStorageAllocation: currentBackend.features.supportsStorageAllocation,
-      canUseFlowCollections: currentBackend.features.supportsFlowCollections,
-      canUseAdvancedSearch: currentBackend.features.supportsAdvancedSearch,
-      canUseAsyncOperations: currentBackend.features.supportsAsyncOperations,
-      canUseHealthMonitoring: currentBackend.features.supportsHealthMonitoring,
+      canUseSoftDelete: support.supportsSoftDelete,
+      canUseCMCD: support.supportsCMCD,
+      canUseWebhooks: support.supportsWebhooks,
+      canUseStorageAllocation: support.supportsStorageAllocation,
+      canUseFlowCollections: support.supportsFlowCollections,
+      canUseAdvancedSearch: support.supportsAdvancedSearch,
+      canUseAsyncOperations: support.supportsAsyncOperations,
+      canUseHealthMonitoring: support.supportsHealthMonitoring,
 
       // Backend-specific features
-      canUseHLSStreaming: currentBackend.id === 'ibc-thiago',
-      canUseRealTimeMarkers: currentBackend.id === 'ibc-thiago',
-      canUseWebSocketUpdates: currentBackend.id === 'ibc-thiago',
+      canUseHLSStreaming: isIbcThiago,
+      canUseRealTimeMarkers: isIbcThiago,
+      canUseWebSocketUpdates: hasWebSocketUpdates,
 
       // Generic feature checking
       supports: (feature: BackendFeature): boolean => {
         const featureMap: Record<BackendFeature, boolean> = {
-          softDelete: currentBackend.features.supportsSoftDelete,
-          cmcd: currentBackend.features.supportsCMCD,
-          webhooks: currentBackend.features.supportsWebhooks,
-          storageAllocation: currentBackend.features.supportsStorageAllocation,
-          flowCollections: currentBackend.features.supportsFlowCollections,
-          advancedSearch: currentBackend.features.supportsAdvancedSearch,
-          asyncOperations: currentBackend.features.supportsAsyncOperations,
-          healthMonitoring: currentBackend.features.supportsHealthMonitoring,
-          hlsStreaming: currentBackend.id === 'ibc-thiago',
-          realTimeMarkers: currentBackend.id === 'ibc-thiago',
-          webSocketUpdates: currentBackend.id === 'ibc-thiago',
+          softDelete: support.supportsSoftDelete,
+          cmcd: support.supportsCMCD,
+          webhooks: support.supportsWebhooks,
+          storageAllocation: support.supportsStorageAllocation,
+          flowCollections: support.supportsFlowCollections,
+          advancedSearch: support.supportsAdvancedSearch,
+          asyncOperations: support.supportsAsyncOperations,
+          healthMonitoring: support.supportsHealthMonitoring,
+          hlsStreaming: isIbcThiago,
+          realTimeMarkers: isIbcThiago,
+          webSocketUpdates: hasWebSocketUpdates,
         };
         return featureMap[feature] || false;
       },
@@ -69,17 +77,17 @@ export function useBackendFeatures() {
 
         return allFeatures.filter(feature => {
           const featureMap: Record<BackendFeature, boolean> = {
-            softDelete: currentBackend.features.supportsSoftDelete,
-            cmcd: currentBackend.features.supportsCMCD,
-            webhooks: currentBackend.features.supportsWebhooks,
-            storageAllocation: currentBackend.features.supportsStorageAllocation,
-            flowCollections: currentBackend.features.supportsFlowCollections,
-            advancedSearch: currentBackend.features.supportsAdvancedSearch,
-            asyncOperations: currentBackend.features.supportsAsyncOperations,
-            healthMonitoring: currentBackend.features.supportsHealthMonitoring,
-            hlsStreaming: currentBackend.id === 'ibc-thiago',
-            realTimeMarkers: currentBackend.id === 'ibc-thiago',
-            webSocketUpdates: currentBackend.id === 'ibc-thiago',
+            softDelete: support.supportsSoftDelete,
+            cmcd: support.supportsCMCD,
+            webhooks: support.supportsWebhooks,
+            storageAllocation: support.supportsStorageAllocation,
+            flowCollections: support.supportsFlowCollections,
+            advancedSearch: support.supportsAdvancedSearch,
+            asyncOperations: support.supportsAsyncOperations,
+            healthMonitoring: support.supportsHealthMonitoring,
+            hlsStreaming: isIbcThiago,
+            realTimeMarkers: isIbcThiago,
+            webSocketUpdates: hasWebSocketUpdates,
           };
           return !featureMap[feature];
         });
@@ -103,17 +111,17 @@ export function useBackendFeatures() {
 
         return allFeatures.filter(feature => {
           const featureMap: Record<BackendFeature, boolean> = {
-            softDelete: currentBackend.features.supportsSoftDelete,
-            cmcd: currentBackend.features.supportsCMCD,
-            webhooks: currentBackend.features.supportsWebhooks,
-            storageAllocation: currentBackend.features.supportsStorageAllocation,
-            flowCollections: currentBackend.features.supportsFlowCollections,
-            advancedSearch: currentBackend.features.supportsAdvancedSearch,
-            asyncOperations: currentBackend.features.supportsAsyncOperations,
-            healthMonitoring: currentBackend.features.supportsHealthMonitoring,
-            hlsStreaming: currentBackend.id === 'ibc-thiago',
-            realTimeMarkers: currentBackend.id === 'ibc-thiago',
-            webSocketUpdates: currentBackend.id === 'ibc-thiago',
+            softDelete: support.supportsSoftDelete,
+            cmcd: support.supportsCMCD,
+            webhooks: support.supportsWebhooks,
+            storageAllocation: support.supportsStorageAllocation,
+            flowCollections: support.supportsFlowCollections,
+            advancedSearch: support.supportsAdvancedSearch,
+            asyncOperations: support.supportsAsyncOperations,
+            healthMonitoring: support.supportsHealthMonitoring,
+            hlsStreaming: isIbcThiago,
+            realTimeMarkers: isIbcThiago,
+            webSocketUpdates: hasWebSocketUpdates,
           };
           return featureMap[feature];
         });
@@ -134,12 +142,12 @@ export function useBackendFeatures() {
 
       // Check if backend supports any advanced features
       hasAdvancedFeatures: () => {
-        return currentBackend.features.supportsSoftDelete ||
-               currentBackend.features.supportsCMCD ||
-               currentBackend.features.supportsStorageAllocation ||
-               currentBackend.features.supportsFlowCollections ||
-               currentBackend.features.supportsAsyncOperations ||
-               currentBackend.id === 'ibc-thiago';
+        return support.supportsSoftDelete ||
+               support.supportsCMCD ||
+               support.supportsStorageAllocation ||
+               support.supportsFlowCollections ||
+               support.supportsAsyncOperations ||
+               isIbcThiago;
       },
 
       // Check if backend is basic (minimal features)
@@ -214,7 +222,7 @@ export function useBackendFeatures() {
         };
       },
     };
-  }, [currentBackend]);
+  }, [support, isIbcThiago, hasWebSocketUpdates]);
 
   return features;
 }
@@ -227,6 +235,14 @@ export function useFeatureSupport(feature: BackendFeature): boolean {
   return supports(feature);
 }
 
+/**
+ * Hook for checking whether the connected server serves an optional endpoint
+ */
+export function useEndpointSupport(endpoint: OptionalEndpoint): boolean {
+  const { capabilities } = useBackend();
+  return isEndpointAvailable(capabilities, endpoint);
+}
+
 /**
  * Hook for getting feature availability for multiple features
  */
@@ -256,13 +272,13 @@ export function useFeatureConditional(feature: BackendFeature) {
  * Hook for getting backend capability summary
  */
 export function useBackendCapabilities() {
-  const { currentBackend } = useBackend();
+  const { currentBackend, features, capabilities } = useBackend();
   const { getFeatureSummary, hasAdvancedFeatures, isBasicBackend } = useBackendFeatures();
 
   return {
     backendType: currentBackend.type,
     backendName: currentBackend.name,
-    backendVersion: currentBackend.version,
+    backendVersion: capabilities?.apiVersion ?? currentBackend.version,
     featureSummary: getFeatureSummary(),
     hasAdvancedFeatures: hasAdvancedFeatures(),
     isBasicBackend: isBasicBackend(),
@@ -271,10 +287,10 @@ export function useBackendCapabilities() {
       advancedFeatures: hasAdvancedFeatures(),
       streaming: currentBackend.id === 'ibc-thiago',
       realTime: currentBackend.id === 'ibc-thiago',
-      analytics: currentBackend.features.supportsCMCD,
-      dataManagement: currentBackend.features.supportsSoftDelete,
-      storage: currentBackend.features.supportsStorageAllocation,
-      integration: currentBackend.features.supportsWebhooks,
+      analytics: features.supportsCMCD,
+      dataManagement: features.supportsSoftDelete,
+      storage: features.supportsStorageAllocation,
+      integration: features.supportsWebhooks,
     },
   };
 }
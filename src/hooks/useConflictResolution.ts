@@ -0,0 +1,69 @@
+/**
+ * useConflictResolution Hook
+ *
+ * Runs conditional saves for an editor and keeps the state of the three-way merge dialog.
+ * A save that conflicts with someone else's edit opens the dialog instead of overwriting;
+ * resolving it retries the save with the user's choices.
+ */
+
+import { useCallback, useState } from 'react';
+import {
+  EditConflictError,
+  resolveConflict,
+  saveWithConflictCheck,
+  type ConcurrentSave,
+  type ConflictChoice,
+  type FieldValues
+} from '../services/concurrency';
+
+type SavedCallback = (values: FieldValues) => void | Promise<void>;
+
+interface PendingConflict {
+  request: ConcurrentSave;
+  conflict: EditConflictError;
+  onSaved: SavedCallback;
+}
+
+/**
+ * @example
+ * const { save, conflict, resolve, cancel } = useConflictResolution();
+ * const saved = await save({ original, yours, loadTheirs, write }, values => setTags(values));
+ * <ConflictResolutionModal conflict={conflict} onResolve={resolve} onCancel={cancel} />
+ */
+export function useConflictResolution() {
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  /**
+   * Save, calling `onSaved` with the values now on the backend
+   * @returns false when the save is waiting for the user to resolve a conflict
+   */
+  const save = useCallback(async (request: ConcurrentSave, onSaved: SavedCallback): Promise<boolean> => {
+    try {
+      const values = await saveWithConflictCheck(request);
+      await onSaved(values);
+      return true;
+    } catch (error) {
+      if (error instanceof EditConflictError) {
+        setPending({ request, conflict: error, onSaved });
+        return false;
+      }
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Retry the pending save with the user's choice per conflicting field; a new conflict
+   * replaces the current one, other errors reject and leave the dialog open
+   */
+  const resolve = useCallback(async (choices: Record<string, ConflictChoice>): Promise<void> => {
+    if (!pending) return;
+    const retry = { ...pending.request, ...resolveConflict(pending.conflict, choices) };
+    if (await save(retry, pending.onSaved)) {
+      setPending(null);
+    }
+  }, [pending, save]);
+
+  const cancel = useCallback(() => setPending(null), []);
+
+  return { save, conflict: pending?.conflict ?? null, resolve, cancel };
+}
@@ -0,0 +1,42 @@
+/**
+ * useEntityCacheUpdates Hook
+ *
+ * Lets a page follow the entity cache: pages render cached sources and flows immediately,
+ * and this hook tells them when a background revalidation or a mutation elsewhere in the
+ * app has changed the data they show.
+ */
+
+import { useEffect, useRef } from 'react';
+import { apiClient } from '../services/api';
+import type { CacheChange, CacheChangeKind } from '../services/entityCache';
+
+/**
+ * Calls `onUpdate` once per revalidation or mutation that touches one of `kinds`
+ *
+ * @param kinds - Cached kinds the page displays
+ * @param id - Only react to changes of this entity (list-wide changes still match)
+ *
+ * @example
+ * useEntityCacheUpdates(['flow'], () => fetchFlows({ background: true }));
+ */
+export function useEntityCacheUpdates(
+  kinds: CacheChangeKind[],
+  onUpdate: (changes: CacheChange[]) => void,
+  id?: string
+): void {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const kindsKey = kinds.join(',');
+
+  useEffect(() => {
+    const watched = new Set(kindsKey.split(','));
+    return apiClient.onCacheChange(changes => {
+      const relevant = changes.filter(change =>
+        watched.has(change.kind) && (id === undefined || change.id === undefined || change.id === id)
+      );
+      if (relevant.length > 0) {
+        onUpdateRef.current(relevant);
+      }
+    });
+  }, [kindsKey, id]);
+}
@@ -0,0 +1,31 @@
+/**
+ * useRateLimitQueue Hook
+ *
+ * Follows the client-side rate limiter, so the UI can show when requests to a backend are
+ * being held back by its configured limit or by a `Retry-After` from the backend.
+ */
+
+import { useEffect, useState } from 'react';
+import { rateLimiter, type ThrottleState } from '../services/rateLimiter';
+
+/**
+ * Backends currently throttling requests; empty when nothing is waiting.
+ * Re-renders once a second while a pause is in force, for countdowns.
+ */
+export function useRateLimitQueue(): ThrottleState[] {
+  const [state, setState] = useState<ThrottleState[]>(() => rateLimiter.getState());
+
+  useEffect(() => {
+    setState(rateLimiter.getState());
+    return rateLimiter.subscribe(() => setState(rateLimiter.getState()));
+  }, []);
+
+  const paused = state.some(backend => backend.pausedUntil !== null);
+  useEffect(() => {
+    if (!paused) return;
+    const timer = setInterval(() => setState(rateLimiter.getState()), 1000);
+    return () => clearInterval(timer);
+  }, [paused]);
+
+  return state;
+}
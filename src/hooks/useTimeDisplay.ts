@@ -0,0 +1,37 @@
+/**
+ * useTimeDisplay Hook
+ *
+ * The user's time display mode and the formatters that apply it, provided by
+ * TimeDisplayProvider. UTC and local times depend on the leap second table, which is
+ * managed here too so that every timestamp re-renders when it is replaced.
+ */
+
+import { createContext, useContext } from 'react';
+import type { LeapSecondTable } from '../utils/taiUtc';
+import type { TimeDisplayMode, TimeDisplayOptions } from '../utils/timeDisplay';
+import type { TaiTimestamp, Timerange } from '../utils/timerange';
+
+export interface TimeDisplayContextType {
+  mode: TimeDisplayMode;
+  setMode: (mode: TimeDisplayMode) => void;
+  formatTimestamp: (timestamp: TaiTimestamp, options?: TimeDisplayOptions) => string;
+  formatTimerange: (range: Timerange, options?: TimeDisplayOptions) => string;
+  // Leap second table used for UTC and local times, and whether it is past its expiry
+  leapSecondTable: LeapSecondTable;
+  leapSecondTableExpired: boolean;
+  // Replace the table from a leap-seconds.list file's text; throws when it holds no entries
+  loadLeapSecondsList: (text: string) => void;
+  resetLeapSecondTable: () => void;
+  // False when the last change could not be saved for future sessions (storage unavailable)
+  persisted: boolean;
+}
+
+export const TimeDisplayContext = createContext<TimeDisplayContextType | undefined>(undefined);
+
+export function useTimeDisplay(): TimeDisplayContextType {
+  const context = useContext(TimeDisplayContext);
+  if (context === undefined) {
+    throw new Error('useTimeDisplay must be used within a TimeDisplayProvider');
+  }
+  return context;
+}
@@ -4,6 +4,14 @@ import '@mantine/core/styles.css';
 import './styles/tams.css';
 import './styles/dark-mode-fixed.css';
 import App from './App';
+import { ensureMockTams } from './services/mockTams';
+import { discardReplayBackends } from './services/sessionReplay';
+
+// Requests to the offline mock backend are answered in the browser: from the start in
+// development, otherwise once the mock backend is selected (see apiServiceFactory)
+if (import.meta.env.DEV) ensureMockTams();
+// Session replays are served from memory, so the ones from an earlier visit are gone
+discardReplayBackends();
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -41,6 +41,10 @@ import {
 } from '@tabler/icons-react';
 import AdvancedFilter, { FilterOption, FilterState, FilterPreset } from '../components/AdvancedFilter';
 import { useFilterPersistence } from '../hooks/useFilterPersistence';
+import { useBackend } from '../contexts/BackendContext';
+import { apiClient } from '../services/api';
+import { collectAll } from '../services/pagination';
+import type { FlowDeletionRequest, TamsContentFormat } from '../types/tams';
 
 // Deletion Request interface for backend v6.0
 interface DeletionRequest {
@@ -64,84 +68,23 @@ interface DeletionRequest {
   rejection_reason?: string;
   processed_at?: string;
   notes?: string;
-  tags?: Record<string, string>;
+  tags?: string[];
 }
 
-// Mock data for development
-const mockDeletionRequests: DeletionRequest[] = [
-  {
-    request_id: 'del_req_001',
-    flow_id: 'flow_001',
-    flow_name: 'BBC News Studio',
-    flow_format: 'urn:x-nmos:format:video',
-    reason: 'Content no longer needed - news cycle completed',
-    requested_by: 'user_123',
-    requested_at: '2025-01-25T10:00:00Z',
-    status: 'pending',
-    priority: 'medium',
-    estimated_size: 107374182400, // 100 GB
-    segments_count: 1247,
-    soft_delete: true,
-    cascade: true,
-    notes: 'Archive after 30 days if approved'
-  },
-  {
-    request_id: 'del_req_002',
-    flow_id: 'flow_002',
-    flow_name: 'Sports Arena Camera',
-    flow_format: 'urn:x-nmos:format:video',
-    reason: 'Season ended, storage cleanup required',
-    requested_by: 'user_456',
-    requested_at: '2025-01-25T09:30:00Z',
-    status: 'approved',
-    priority: 'high',
-    estimated_size: 53687091200, // 50 GB
-    segments_count: 892,
-    soft_delete: false,
-    cascade: true,
-    approved_by: 'admin_001',
-    approved_at: '2025-01-25T11:00:00Z',
-    processed_at: '2025-01-25T11:15:00Z',
-    notes: 'Hard delete approved - content no longer needed'
-  },
-  {
-    request_id: 'del_req_003',
-    flow_id: 'flow_003',
-    flow_name: 'Radio Studio A',
-    flow_format: 'urn:x-nmos:format:audio',
-    reason: 'Technical issues - corrupted segments',
-    requested_by: 'user_789',
-    requested_at: '2025-01-25T08:45:00Z',
-    status: 'rejected',
-    priority: 'urgent',
-    estimated_size: 21474836480, // 20 GB
-    segments_count: 156,
-    soft_delete: true,
-    cascade: false,
-    rejected_by: 'admin_001',
-    rejected_at: '2025-01-25T10:30:00Z',
-    rejection_reason: 'Content may be recoverable. Please investigate corruption extent first.',
-    notes: 'Rejected pending investigation'
-  },
-  {
-    request_id: 'del_req_004',
-    flow_id: 'flow_004',
-    flow_name: 'Photo Studio Feed',
-    flow_format: 'urn:x-tam:format:image',
-    reason: 'Storage optimization - low priority content',
-    requested_by: 'user_123',
-    requested_at: '2025-01-25T07:15:00Z',
-    status: 'processing',
-    priority: 'low',
-    estimated_size: 10737418240, // 10 GB
-    segments_count: 89,
-    soft_delete: true,
-    cascade: true,
-    approved_by: 'admin_002',
-    approved_at: '2025-01-25T09:00:00Z',
-    notes: 'Processing in background'
-  }
-];
+// Backend records carry `id` and `created`; fields the backend left out get neutral defaults
+const toDeletionRequest = (request: FlowDeletionRequest): DeletionRequest => ({
+  ...request,
+  request_id: request.id,
+  flow_name: request.flow_name ?? request.flow_id,
+  flow_format: request.flow_format ?? '',
+  reason: request.reason ?? '',
+  requested_at: request.created ?? request.updated ?? new Date().toISOString(),
+  priority: request.priority ?? 'medium',
+  estimated_size: request.estimated_size ?? 0,
+  segments_count: request.segments_count ?? 0,
+  soft_delete: request.soft_delete ?? true,
+  cascade: request.cascade ?? false
+});
 
 // Helper functions
 const getStatusColor = (status: string): string => {
@@ -175,7 +118,10 @@ const formatBytes = (bytes: number): string => {
 };
 
 export default function DeletionRequests() {
-  const [deletionRequests, setDeletionRequests] = useState<DeletionRequest[]>(mockDeletionRequests);
+  const { currentBackend } = useBackend();
+  const [deletionRequests, setDeletionRequests] = useState<DeletionRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<DeletionRequest | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
@@ -271,57 +217,71 @@ export default function DeletionRequests() {
 
   const paginatedRequests = filteredRequests.slice((currentPage - 1) * 10, currentPage * 10);
 
-  const handleCreateRequest = (requestData: Partial<DeletionRequest>) => {
-    const newRequest: DeletionRequest = {
-      request_id: `del_req_${Date.now()}`,
-      flow_id: requestData.flow_id || '',
-      flow_name: requestData.flow_name || '',
-      flow_format: requestData.flow_format || 'urn:x-nmos:format:video',
-      reason: requestData.reason || '',
-      requested_by: 'user_123', // TODO: Get from current user context
-      requested_at: new Date().toISOString(),
-      status: 'pending',
-      priority: requestData.priority || 'medium',
-      estimated_size: requestData.estimated_size || 0,
-      segments_count: requestData.segments_count || 0,
-      soft_delete: requestData.soft_delete || true,
-      cascade: requestData.cascade || true,
-      notes: requestData.notes || ''
-    };
-
-    setDeletionRequests([newRequest, ...deletionRequests]);
-    setShowCreateModal(false);
+  const loadRequests = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const requests = await collectAll(apiClient.iterateFlowDeleteRequests());
+      setDeletionRequests(requests.map(toDeletionRequest));
+    } catch (err) {
+      setError(`Failed to load deletion requests: ${err instanceof Error ? err.message : err}`);
+      setDeletionRequests([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+  }, [currentBackend.id]);
+
+  // Replace a request with the backend's copy after an update
+  const updateRequest = async (requestId: string, updates: Partial<FlowDeletionRequest>) => {
+    try {
+      const updated = await apiClient.updateFlowDeleteRequest(requestId, updates);
+      setDeletionRequests(requests =>
+        requests.map(req => req.request_id === requestId ? toDeletionRequest(updated) : req)
+      );
+    } catch (err) {
+      setError(`Failed to update deletion request: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleCreateRequest = async (requestData: Partial<DeletionRequest>) => {
+    try {
+      const created = await apiClient.createFlowDeleteRequest({
+        flow_id: requestData.flow_id || '',
+        ...(requestData.flow_name ? { flow_name: requestData.flow_name } : {}),
+        ...(requestData.flow_format ? { flow_format: requestData.flow_format as TamsContentFormat } : {}),
+        reason: requestData.reason || '',
+        requested_by: 'user_123', // TODO: Get from current user context
+        priority: requestData.priority || 'medium',
+        ...(requestData.estimated_size ? { estimated_size: requestData.estimated_size } : {}),
+        ...(requestData.segments_count ? { segments_count: requestData.segments_count } : {}),
+        soft_delete: requestData.soft_delete ?? true,
+        cascade: requestData.cascade ?? true,
+        notes: requestData.notes || ''
+      });
+      setDeletionRequests(requests => [toDeletionRequest(created), ...requests]);
+      setShowCreateModal(false);
+    } catch (err) {
+      setError(`Failed to create deletion request: ${err instanceof Error ? err.message : err}`);
+    }
   };
 
   const handleApproveRequest = (requestId: string) => {
-    setDeletionRequests(requests => 
-      requests.map(req => 
-        req.request_id === requestId 
-          ? { 
-              ...req, 
-              status: 'approved' as const, 
-              approved_by: 'admin_001', // TODO: Get from current user context
-              approved_at: new Date().toISOString() 
-            }
-          : req
-      )
-    );
+    updateRequest(requestId, {
+      status: 'approved',
+      approved_by: 'admin_001' // TODO: Get from current user context
+    });
   };
 
   const handleRejectRequest = (requestId: string, reason: string) => {
-    setDeletionRequests(requests => 
-      requests.map(req => 
-        req.request_id === requestId 
-          ? { 
-              ...req, 
-              status: 'rejected' as const, 
-              rejected_by: 'admin_001', // TODO: Get from current user context
-              rejected_at: new Date().toISOString(),
-              rejection_reason: reason
-            }
-          : req
-      )
-    );
+    updateRequest(requestId, {
+      status: 'rejected',
+      rejected_by: 'admin_001', // TODO: Get from current user context
+      rejection_reason: reason
+    });
   };
 
   const handleViewDetails = (request: DeletionRequest) => {
@@ -363,13 +323,21 @@ export default function DeletionRequests() {
           a controlled way to request removal of content with approval workflows, audit trails, and 
           soft delete capabilities.
         </Text>
-        <Text size="sm" mt="xs">
-          <strong>Note:</strong> This page currently displays mock data for demonstration purposes. 
-          In a production environment, this would connect to the TAMS backend API for real 
-          deletion request management.
-        </Text>
       </Alert>
 
+      {error && (
+        <Alert
+          icon={<IconAlertTriangle size={16} />}
+          color="red"
+          title="Error"
+          mb="md"
+          withCloseButton
+          onClose={() => setError(null)}
+        >
+          {error}
+        </Alert>
+      )}
+
       {/* Filter Controls */}
       <Group justify="space-between" mb="md">
         <Group>
@@ -395,6 +363,15 @@ export default function DeletionRequests() {
           <Text size="sm" c="dimmed">
             {filteredRequests.length} of {deletionRequests.length} requests
           </Text>
+          <Button
+            variant="subtle"
+            size="sm"
+            leftSection={<IconRefresh size={16} />}
+            onClick={loadRequests}
+            loading={loading}
+          >
+            Refresh
+          </Button>
         </Group>
       </Group>
 
@@ -429,6 +406,13 @@ export default function DeletionRequests() {
             </Table.Tr>
           </Table.Thead>
           <Table.Tbody>
+            {!loading && paginatedRequests.length === 0 && (
+              <Table.Tr>
+                <Table.Td colSpan={9}>
+                  <Text size="sm" c="dimmed" ta="center" py="md">No deletion requests</Text>
+                </Table.Td>
+              </Table.Tr>
+            )}
             {paginatedRequests.map((request) => (
               <Table.Tr key={request.request_id}>
                 <Table.Td>
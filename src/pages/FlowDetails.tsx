@@ -79,9 +79,13 @@ import {
   IconShieldCheck,
   IconClipboardCheck,
   IconTrash,
-  IconCheck
+  IconCheck,
+  IconFileImport
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { isAbortError } from '../services/http';
+import { errorFromResponse, TamsApiError, withErrorContext } from '../services/errors';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
 import AdvancedFilter, { FilterOption, FilterPreset } from '../components/AdvancedFilter';
 import { useFilterPersistence } from '../hooks/useFilterPersistence';
 import { cmcdTracker, type CMCDMetrics } from '../services/cmcdService';
@@ -89,10 +93,30 @@ import { FlowTagsManager } from '../components/FlowTagsManager';
 import { FlowDescriptionManager } from '../components/FlowDescriptionManager';
 // FlowCollectionManager removed - backend doesn't support /flows/:id/flow_collection endpoint
 import { FlowReadOnlyManager } from '../components/FlowReadOnlyManager';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { SegmentImporter } from '../components/SegmentImporter';
+import { FlowCoverage } from '../components/FlowCoverage';
 
 import HLSVideoPlayer from '../components/HLSVideoPlayer';
 import VastTamsVideoPlayer from '../components/VastTamsVideoPlayer';
 import { transformSegmentUrls } from '../utils/s3Proxy';
+import { primaryTrack, probeConflicts, probeMedia, type MediaProbe } from '../utils/mediaProbe';
+import { MULTIPART_THRESHOLD, MultipartUnsupportedError, multipartUploads } from '../services/multipartUpload';
+import type { MultipartProgress } from '../types/backend';
+import {
+  NANOS_PER_SECOND,
+  createTimerange,
+  formatTimerange,
+  secondsToTimestamp,
+  taiTimestamp,
+  timerangeDuration,
+  tryParseTimerange,
+  type TaiTimestamp,
+  type Timerange
+} from '../utils/timerange';
+import { currentTaiTimestamp, dateToTai, taiToDate } from '../utils/taiUtc';
+import { useTimeDisplay } from '../hooks/useTimeDisplay';
+import { TimeDisplayModeSelector } from '../components/TimeDisplayModeSelector';
 
 // BBC TAMS Flow interface based on real API response
 interface FlowDetails {
@@ -146,7 +170,8 @@ interface FlowDetails {
   // Optional metadata
   metadata_version?: string;
   generation?: number;
-  timerange?: {
+  // TAMS timerange string as the API returns it; older controllers sent start/end
+  timerange?: string | {
     start: string;
     end: string;
   };
@@ -269,6 +294,7 @@ interface SegmentItem {
   _id?: string; // MongoDB _id - needed for backend updates (ObjectId format)
   object_id: string;
   timerange: { start: string; end: string };
+  tams_timerange?: string; // Canonical TAMS timerange string, e.g. "[1766290849:0_1766290859:0)"
   description?: string;
   size?: number;
   status: string;
@@ -350,17 +376,55 @@ const createMockQCMarkers = (): any[] => {
   return markers;
 };
 
+/**
+ * Issue #6 fallback for flows the backend can't look up directly: resolve the flow from the
+ * entity cache when the flows list has already been loaded, otherwise from the flows list
+ */
+const findFlowInList = async (flowId: string, signal: AbortSignal): Promise<any> => {
+  const cachedFlow = apiClient.peekFlow(flowId);
+  if (cachedFlow) {
+    return cachedFlow;
+  }
+
+  const flowsResponse = await apiClient.getFlows({ signal });
+  let flowsData: any[] = [];
+
+  if (flowsResponse && flowsResponse.data && Array.isArray(flowsResponse.data)) {
+    flowsData = flowsResponse.data;
+  } else if (Array.isArray(flowsResponse)) {
+    flowsData = flowsResponse;
+  } else if (flowsResponse && 'flows' in flowsResponse && Array.isArray((flowsResponse as any).flows)) {
+    flowsData = (flowsResponse as any).flows;
+  }
+
+  // Find flow by matching _id or id (case-insensitive string comparison)
+  const foundFlow = flowsData.find((f: any) => {
+    const fId = f.id || f._id;
+    return fId && String(fId).toLowerCase() === String(flowId).toLowerCase();
+  });
+
+  if (!foundFlow) {
+    console.error(`Flow ${flowId} not found in ${flowsData.length} flows. Available IDs:`,
+      flowsData.slice(0, 5).map((f: any) => f.id || f._id));
+    throw new Error(`Flow ${flowId} not found in flows list (searched ${flowsData.length} flows)`);
+  }
+  return foundFlow;
+};
+
 export default function FlowDetails() {
   const { flowId } = useParams<{ flowId: string }>();
   const navigate = useNavigate();
   const searchParams = new URLSearchParams(window.location.search);
   const isDemoMode = flowId === 'demo' || searchParams.get('demo') === 'true';
+  // Requests are cancelled when the page unmounts
+  const getSignal = useAbortOnUnmount();
   
   // Removed unused searchParams
   const [flow, setFlow] = useState<FlowDetails | null>(null);
+  const timeDisplay = useTimeDisplay();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'segments' | 'tags' | 'technical' | 'analytics' | 'qc'>('overview');
 
   // Disabled state for operations
@@ -369,7 +433,7 @@ export default function FlowDetails() {
   // Segments state (flow-scoped)
   const [segments, setSegments] = useState<SegmentItem[]>([]);
   const [segmentsLoading, setSegmentsLoading] = useState(false);
-  const [segmentsError, setSegmentsError] = useState<string | null>(null);
+  const [segmentsError, setSegmentsError] = useState<string | Error | null>(null);
   const [viewMode, setViewMode] = useState<'timeline' | 'list'>('list');
   const [selectedSegment, setSelectedSegment] = useState<SegmentItem | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
@@ -386,6 +450,15 @@ export default function FlowDetails() {
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploadingSegment, setUploadingSegment] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFileProbe, setSelectedFileProbe] = useState<MediaProbe | null>(null);
+  const [probingSelectedFile, setProbingSelectedFile] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<MultipartProgress | null>(null);
+  // The backend does not presign multipart uploads, so a large file goes up with a single PUT
+  const [singlePutUpload, setSinglePutUpload] = useState(false);
+  // Stops a multipart upload; its checkpoint stays so choosing the file again resumes it
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Where an import from a manifest or folder starts; null while the importer is closed
+  const [importStart, setImportStart] = useState<TaiTimestamp | null>(null);
 
   // CMCD tracking state
   const [cmcdMetrics, setCmcdMetrics] = useState<CMCDMetrics[]>([]);
@@ -419,6 +492,10 @@ export default function FlowDetails() {
 
 
   useEffect(() => {
+    // Cancels the load when leaving the page or switching to another flow
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchFlowDetails = async () => {
       if (!flowId) return;
       
@@ -447,9 +524,10 @@ export default function FlowDetails() {
         let response: any;
         try {
           // First, try direct flow lookup
-          response = await apiClient.getFlow(flowId);
+          response = await apiClient.getFlow(flowId, { signal });
           console.log('VAST TAMS flow details response (direct):', response);
         } catch (directErr: any) {
+          if (isAbortError(directErr)) throw directErr;
           // If direct lookup fails with ObjectId error (Issue #6), fall back to list and filter
           // Check for various error patterns that indicate the ObjectId issue
           const errorMsg = directErr?.message || '';
@@ -465,41 +543,10 @@ export default function FlowDetails() {
             console.warn('Direct flow lookup failed (Issue #6 - non-ObjectId ID), falling back to flows list');
             
             try {
-              // Fetch all flows and find the one matching our ID
-              const flowsResponse = await apiClient.getFlows();
-              console.log('Flows list response:', flowsResponse);
-              
-              let flowsData: any[] = [];
-              
-              if (flowsResponse && flowsResponse.data && Array.isArray(flowsResponse.data)) {
-                flowsData = flowsResponse.data;
-              } else if (Array.isArray(flowsResponse)) {
-                flowsData = flowsResponse;
-              } else if (flowsResponse && 'flows' in flowsResponse && Array.isArray((flowsResponse as any).flows)) {
-                flowsData = (flowsResponse as any).flows;
-              }
-              
-              console.log(`Found ${flowsData.length} flows in list, searching for flow ID: ${flowId}`);
-              
-              // Find flow by matching _id or id (case-insensitive string comparison)
-              const foundFlow = flowsData.find((f: any) => {
-                const fId = f.id || f._id;
-                return fId && (
-                  fId === flowId ||
-                  String(fId) === String(flowId) ||
-                  String(fId).toLowerCase() === String(flowId).toLowerCase()
-                );
-              });
-              
-              if (foundFlow) {
-                response = foundFlow;
-                console.log('VAST TAMS flow details response (from list):', response);
-              } else {
-                console.error(`Flow ${flowId} not found in ${flowsData.length} flows. Available IDs:`, 
-                  flowsData.slice(0, 5).map((f: any) => f.id || f._id));
-                throw new Error(`Flow ${flowId} not found in flows list (searched ${flowsData.length} flows)`);
-              }
+              response = await findFlowInList(flowId, signal);
+              console.log('VAST TAMS flow details response (from list):', response);
             } catch (listErr: any) {
+              if (isAbortError(listErr)) throw listErr;
               console.error('Failed to fetch flows list for fallback:', listErr);
               throw new Error(`Failed to load flow: ${directErr.message}. Fallback also failed: ${listErr.message}`);
             }
@@ -535,29 +582,22 @@ export default function FlowDetails() {
         setError(null);
         setFlow(normalizedFlow);
       } catch (err: any) {
+        // Navigated away or switched flow; the next load owns the page state
+        if (isAbortError(err)) return;
         console.error('TAMS flow details API error:', err);
-        
-        // Set appropriate error message based on error type
-        if (err?.message?.includes('500') || err.message?.includes('Internal Server Error')) {
-          setError('TAMS backend temporarily unavailable - please try again later');
-        } else if (err?.message?.includes('Network') || err?.message?.includes('fetch') || err?.message?.includes('CORS')) {
-          setError('Network connection issue - please check your connection and try again');
-        } else if (err?.message?.includes('404') || err?.message?.includes('not found')) {
-          setError(`Flow not found: ${flowId}. Please check the flow ID and try again.`);
-        } else {
-          // Use error message directly if it already contains "TAMS API error", otherwise prefix it
-          const errorMsg = err?.message || 'Unknown error';
-          setError(errorMsg.includes('TAMS API error') ? errorMsg : `TAMS API error: ${errorMsg}`);
-        }
+        setError(withErrorContext(err));
         
         // Clear flow on error
         setFlow(null);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchFlowDetails();
+    return () => controller.abort();
   }, [flowId, isDemoMode]);
 
   // Load analytics when analytics tab is selected
@@ -599,11 +639,12 @@ export default function FlowDetails() {
       let statsData: any = null;
       try {
         // Try direct stats endpoint
-        const response = await fetch(`http://localhost:3000/flows/${flowId}/stats`);
+        const response = await apiClient.fetch(`/flows/${flowId}/stats`, {}, { signal: getSignal() });
         if (response.ok) {
           statsData = await response.json();
         }
       } catch (directErr: any) {
+        if (isAbortError(directErr)) return;
         // If direct lookup fails with ObjectId error (Issue #6), calculate from flow data
         console.warn('Direct stats lookup failed (Issue #6), using flow data');
         // Use flow data that already has total_segments and total_bytes from GET /flows
@@ -665,21 +706,23 @@ export default function FlowDetails() {
     
     try {
       console.log('Fetching QC markers for flow:', flowId);
-      const response = await apiClient.getQCMarkersForFlow(flowId);
+      const response = await apiClient.getQCMarkersForFlow(flowId, { signal: getSignal() }) as
+        unknown[] | { markers?: unknown[]; data?: unknown[] } | null;
       console.log('QC markers response:', response);
       
       // Handle different response formats
       let markers: any[] = [];
-      if (response && response.markers && Array.isArray(response.markers)) {
-        markers = response.markers;
-      } else if (Array.isArray(response)) {
+      if (Array.isArray(response)) {
         markers = response;
+      } else if (response && response.markers && Array.isArray(response.markers)) {
+        markers = response.markers;
       } else if (response && response.data && Array.isArray(response.data)) {
         markers = response.data;
       }
       
       setQcMarkers(markers);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error('Failed to load QC markers:', err);
       const errorMsg = err?.message || 'Unknown error';
       setQcMarkersError(errorMsg.includes('TAMS API error') ? errorMsg : `TAMS API error: ${errorMsg}`);
@@ -700,7 +743,7 @@ export default function FlowDetails() {
       const result = await apiClient.cleanupFlow(flowId, cleanupHours);
       console.log('Cleanup result:', result);
       
-      setCleanupResult(result);
+      setCleanupResult(result as typeof cleanupResult);
       
       // Refresh segments and flow details after cleanup
       await fetchSegments();
@@ -714,8 +757,7 @@ export default function FlowDetails() {
       }, 3000);
     } catch (err: any) {
       console.error('Failed to cleanup flow:', err);
-      const errorMsg = err?.message || 'Unknown error';
-      setError(`Failed to cleanup segments: ${errorMsg}`);
+      setError(withErrorContext(err, 'Failed to cleanup segments'));
       setCleanupResult(null);
     } finally {
       setCleaningUp(false);
@@ -792,8 +834,8 @@ export default function FlowDetails() {
     );
   };
 
-  // Fetch flow-scoped segments
-  const fetchSegments = async () => {
+  // Fetch flow-scoped segments; live polling passes `background` so it queues behind user actions
+  const fetchSegments = async ({ background = false } = {}) => {
     if (!flowId) return;
     
     // Demo mode: use mock segments
@@ -816,7 +858,7 @@ export default function FlowDetails() {
     try {
       setSegmentsLoading(true);
       setSegmentsError(null);
-      const flowSegments = await apiClient.getFlowSegments(flowId);
+      const flowSegments = await apiClient.getFlowSegments(flowId, { signal: getSignal(), background });
       console.log('VAST TAMS segments response:', flowSegments);
       
       // Handle different response formats - could be array directly or wrapped in data
@@ -829,67 +871,26 @@ export default function FlowDetails() {
         segmentsData = (flowSegments as any).segments;
       }
       
-      // Helper function to parse TAI timerange format: [seconds:nanoseconds_seconds:nanoseconds)
-      const parseTAITimerange = (timerangeStr: string): { start: string; end: string } => {
-        try {
-          // Remove brackets/parentheses: [1766290849:0_1766290859:0) -> 1766290849:0_1766290859:0
-          const clean = timerangeStr.replace(/^[\[\(]|[\]\)]$/g, '');
-          
-          if (clean.includes('_')) {
-            const [startStr, endStr] = clean.split('_', 2);
-            
-            // Parse start: "1766290849:0" -> seconds: 1766290849, nanoseconds: 0
-            let startSeconds = 0;
-            if (startStr && startStr.includes(':')) {
-              const [sec, nano] = startStr.split(':');
-              startSeconds = parseInt(sec || '0', 10) + (parseInt(nano || '0', 10) / 1e9);
-            } else if (startStr) {
-              startSeconds = parseInt(startStr, 10) || 0;
-            }
-            
-            // Parse end: "1766290859:0" -> seconds: 1766290859, nanoseconds: 0
-            let endSeconds = startSeconds + 10; // Default 10 seconds if not parseable
-            if (endStr && endStr.includes(':')) {
-              const [sec, nano] = endStr.split(':');
-              endSeconds = parseInt(sec || '0', 10) + (parseInt(nano || '0', 10) / 1e9);
-            } else if (endStr) {
-              const parsed = parseInt(endStr, 10);
-              endSeconds = isNaN(parsed) ? startSeconds + 10 : parsed;
-            }
-            
-            // Convert to ISO date strings (using Unix epoch)
-            const startDate = new Date(startSeconds * 1000).toISOString();
-            const endDate = new Date(endSeconds * 1000).toISOString();
-            
-            return { start: startDate, end: endDate };
-          } else {
-            // Single timestamp
-            let seconds = 0;
-            if (clean.includes(':')) {
-              const [sec, nano] = clean.split(':');
-              seconds = parseInt(sec || '0', 10) + (parseInt(nano || '0', 10) / 1e9);
-            } else {
-              const parsed = parseInt(clean, 10);
-              seconds = isNaN(parsed) ? 0 : parsed;
-            }
-            const date = new Date(seconds * 1000).toISOString();
-            return { start: date, end: date };
-          }
-        } catch (err) {
-          console.warn('Failed to parse TAI timerange:', timerangeStr, err);
-          const now = new Date().toISOString();
-          return { start: now, end: now };
-        }
+      // Convert a parsed TAMS timerange to UTC ISO date strings (applies the leap second offset)
+      const timerangeToIso = (range: Timerange): { start: string; end: string } => {
+        const startTs = range.start ?? range.end;
+        const endTs = range.end ?? range.start;
+        const toIso = (ts: bigint | null) => ts === null
+          ? new Date().toISOString()
+          : taiToDate(ts).toISOString();
+        return { start: toIso(startTs), end: toIso(endTs) };
       };
       
       const transformed = segmentsData.map((seg: any): SegmentItem => {
-        // Parse timerange - handle TAI format: [1766290849:0_1766290859:0)
+        // Parse timerange - handle TAMS format: [1766290849:0_1766290859:0)
         let timerange = { start: new Date().toISOString(), end: new Date().toISOString() };
+        let tamsTimerange: string | undefined;
         if (seg.timerange) {
           if (typeof seg.timerange === 'string') {
-            // Check if it's TAI format (contains brackets and underscores)
-            if (seg.timerange.includes('[') || seg.timerange.includes('_')) {
-              timerange = parseTAITimerange(seg.timerange);
+            const parsed = tryParseTimerange(seg.timerange);
+            if (parsed) {
+              tamsTimerange = formatTimerange(parsed);
+              timerange = timerangeToIso(parsed);
             } else if (seg.timerange.includes('/')) {
               // VAST TAMS format: "start/end" (ISO dates)
             const [start, end] = seg.timerange.split('/');
@@ -939,6 +940,7 @@ export default function FlowDetails() {
           _id: seg._id || (seg.id && seg.id.length === 24 && /^[0-9a-fA-F]{24}$/.test(seg.id) ? seg.id : undefined), // MongoDB _id (ObjectId format) for backend operations
           object_id: seg.object_id || seg.id || seg._id || 'unknown',
           timerange,
+          tams_timerange: tamsTimerange,
           description: seg.description || `Segment ${seg.object_id || seg._id || 'unknown'}`,
           size: seg.size || 0,
           status: seg.status || 'active',
@@ -975,7 +977,8 @@ export default function FlowDetails() {
       setSegments(transformed);
       setLastUpdateTime(new Date());
     } catch (err: any) {
-      setSegmentsError('Failed to fetch segments');
+      if (isAbortError(err)) return;
+      setSegmentsError(withErrorContext(err, 'Failed to fetch segments'));
       // Error logged by component
     } finally {
       setSegmentsLoading(false);
@@ -989,7 +992,7 @@ export default function FlowDetails() {
     
     // Set up polling every 10 minutes for live segments (demo-optimized)
     const interval = window.setInterval(() => {
-      fetchSegments();
+      fetchSegments({ background: true });
     }, 600000); // 10 minutes = 600,000ms
     
     setLiveUpdateInterval(interval);
@@ -1012,11 +1015,50 @@ export default function FlowDetails() {
     }
   };
 
+  // Format a segment bound in the selected time display mode, preferring the TAI timerange
+  const formatSegmentBound = (segment: SegmentItem, bound: 'start' | 'end'): string => {
+    const parsed = segment.tams_timerange ? tryParseTimerange(segment.tams_timerange) : null;
+    let timestamp: TaiTimestamp | null = parsed ? parsed[bound] : null;
+    if (timestamp === null) {
+      const date = new Date(segment.timerange[bound]);
+      if (isNaN(date.getTime())) return segment.timerange[bound];
+      timestamp = dateToTai(date);
+    }
+    return timeDisplay.formatTimestamp(timestamp, { frameRate: flow?.essence_parameters?.frame_rate });
+  };
+
+  /**
+   * Upload `file` as object `objectId` in parts, reporting progress; false when the backend
+   * does not support multipart uploads
+   */
+  const uploadInParts = async (objectId: string, file: File): Promise<boolean> => {
+    if (!flowId) return false;
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    try {
+      await multipartUploads.upload(apiClient, flowId, objectId, file, {
+        signal: controller.signal,
+        onProgress: setUploadProgress
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof MultipartUnsupportedError) {
+        setSinglePutUpload(true);
+        return false;
+      }
+      throw error;
+    } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
+    }
+  };
+
   // Upload segment functionality
-  const handleUploadSegment = async (file: File, segmentData: any) => {
+  const handleUploadSegment = async (file: File, segmentData: any, probe: MediaProbe | null) => {
     if (!flowId) return;
     
     setUploadingSegment(true);
+    setSinglePutUpload(false);
     try {
       // Convert HH:MM:SS format to TAI timerange format
         const parseTimeToSeconds = (timeStr: string | undefined): number => {
@@ -1030,29 +1072,37 @@ export default function FlowDetails() {
           return 0;
         };
 
-      // Parse timerange from form input (HH:MM:SS_HH:MM:SS) or use current time
-      let timerange: string;
+      // Duration, codec and container come from the file itself where it could be probed
+      const probedTrack = probe ? primaryTrack(probe) : undefined;
+
+      // Parse timerange from form input (HH:MM:SS_HH:MM:SS), or follow on from the flow's
+      // media for the probed duration
+      let range: Timerange;
       if (segmentData.timerange && segmentData.timerange.includes('_')) {
         // Already in format like "00:00:00_00:00:10"
         const [startStr, endStr] = segmentData.timerange.split('_');
         const startSeconds = parseTimeToSeconds(startStr);
         const endSeconds = parseTimeToSeconds(endStr);
         // Use current time as base, or 0 if start is 0
-        const baseTime = startSeconds === 0 ? Math.floor(Date.now() / 1000) : startSeconds;
-        timerange = `[${baseTime}:0_${baseTime + (endSeconds - startSeconds)}:0)`;
+        const baseTime = startSeconds === 0 ? Number(currentTaiTimestamp() / NANOS_PER_SECOND) : startSeconds;
+        range = createTimerange(
+          taiTimestamp(baseTime),
+          taiTimestamp(baseTime + (endSeconds - startSeconds))
+        );
       } else {
-        // Default: 10 second segment starting now
-        const now = Math.floor(Date.now() / 1000);
-        timerange = `[${now}:0_${now + 10}:0)`;
+        const flowRange = typeof flow?.timerange === 'string' ? tryParseTimerange(flow.timerange) : null;
+        const start = flowRange?.end ?? currentTaiTimestamp();
+        range = createTimerange(start, start + secondsToTimestamp(probe?.durationSeconds ?? 10));
       }
+      const durationNanos = timerangeDuration(range) ?? 0n;
 
       // Create segment metadata in VAST TAMS format
       // Note: object_id will be set from storage response, not from form
       const segment = {
-        timerange: timerange,
-        duration: file.size > 0 ? Math.round(file.size / 1000) : 10000, // Estimate or default 10s
-        format: 'mp4', // MP4 for uploaded files
-        codec: 'h264',
+        timerange: formatTimerange(range),
+        duration: Math.round(Number(durationNanos) / 1e6), // milliseconds
+        format: probe?.container === 'mpegts' ? 'ts' : 'mp4',
+        codec: probedTrack?.codec ?? 'h264',
         size: file.size,
         description: segmentData.description || 'Uploaded segment',
         tags: segmentData.tags || {}
@@ -1060,54 +1110,67 @@ export default function FlowDetails() {
 
       console.log('Uploading segment to VAST TAMS:', segment);
       
-      // Step 1: Get presigned URL for file upload
-      console.log('Step 1: Getting presigned URL for file upload...');
-      const storageResponse = await apiClient.getStorage(flowId);
-      console.log('Storage response:', storageResponse);
-      
-      if (!storageResponse || !storageResponse.media_objects || storageResponse.media_objects.length === 0) {
-        throw new Error('Failed to get storage URL from backend');
-      }
+      // An interrupted multipart upload of the same file resumes with the parts not yet uploaded
+      const resumable = file.size >= MULTIPART_THRESHOLD
+        ? multipartUploads.findForFile(apiClient.getBackend().id, flowId, file)
+        : null;
+      let objectId: string;
+      if (resumable) {
+        objectId = resumable.objectId;
+        await uploadInParts(objectId, file);
+      } else {
+        // Step 1: Get presigned URL for file upload
+        console.log('Step 1: Getting presigned URL for file upload...');
+        const storageResponse = await apiClient.getStorage(flowId);
+        console.log('Storage response:', storageResponse);
       
-      const mediaObject = storageResponse.media_objects[0];
-      const objectId = mediaObject.object_id;
-      let putUrl = mediaObject.put_url?.url;
+        const mediaObject = storageResponse?.media_objects?.[0];
+        if (!mediaObject?.object_id) {
+          throw new Error('Failed to get storage URL from backend');
+        }
       
-      if (!putUrl) {
-        throw new Error('Storage response missing put_url');
-      }
+        objectId = mediaObject.object_id;
+        let putUrl = mediaObject.put_url?.url;
       
-      // Replace Docker internal IP with Vite proxy path (for browser access)
-      // The presigned signature will work because we preserve the original Host header
-      const dockerInternalIpMatch = putUrl.match(/http:\/\/(172\.\d+\.\d+\.\d+):(\d+)(\/[^?]*)(\?.*)?/);
-      if (dockerInternalIpMatch) {
-        const dockerHost = dockerInternalIpMatch[1] + ':' + dockerInternalIpMatch[2];
-        const path = dockerInternalIpMatch[3];
-        const query = dockerInternalIpMatch[4] || '';
-        console.log(`Proxying Docker internal IP (${dockerHost}) through Vite proxy for browser access`);
-        // Use Vite proxy to forward to MinIO, including original host in path so proxy can preserve it
-        // Format: /minio-proxy/http://HOST/PATH?QUERY
-        putUrl = `http://localhost:5173/minio-proxy/http://${dockerHost}${path}${query}`;
-      }
+        if (!putUrl) {
+          throw new Error('Storage response missing put_url');
+        }
+
+        // Step 2: Upload large files in parts where the backend supports it, otherwise with
+        // a single PUT to the presigned URL
+        if (!(file.size >= MULTIPART_THRESHOLD && await uploadInParts(objectId, file))) {
+          // Replace Docker internal IP with Vite proxy path (for browser access)
+          // The presigned signature will work because we preserve the original Host header
+          const dockerInternalIpMatch = putUrl.match(/http:\/\/(172\.\d+\.\d+\.\d+):(\d+)(\/[^?]*)(\?.*)?/);
+          if (dockerInternalIpMatch) {
+            const dockerHost = dockerInternalIpMatch[1] + ':' + dockerInternalIpMatch[2];
+            const path = dockerInternalIpMatch[3];
+            const query = dockerInternalIpMatch[4] || '';
+            console.log(`Proxying Docker internal IP (${dockerHost}) through Vite proxy for browser access`);
+            // Use Vite proxy to forward to MinIO, including original host in path so proxy can preserve it
+            // Format: /minio-proxy/http://HOST/PATH?QUERY
+            putUrl = `http://localhost:5173/minio-proxy/http://${dockerHost}${path}${query}`;
+          }
       
-      console.log(`Step 2: Uploading file to storage (object_id: ${objectId})...`);
-      console.log(`Upload URL: ${putUrl.substring(0, 100)}...`); // Log first 100 chars
+          console.log(`Step 2: Uploading file to storage (object_id: ${objectId})...`);
+          console.log(`Upload URL: ${putUrl.substring(0, 100)}...`); // Log first 100 chars
       
-      // Step 2: Upload file to presigned URL
-      const uploadResponse = await fetch(putUrl, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': file.type || 'video/mp4',
-          'Content-Length': file.size.toString()
-        },
-        body: file
-      });
+          // Step 2: Upload file to presigned URL
+          const uploadResponse = await fetch(putUrl, {
+            method: 'PUT',
+            headers: {
+              'Content-Type': file.type || probe?.mimeType || 'video/mp4',
+              'Content-Length': file.size.toString()
+            },
+            body: file
+          });
       
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        throw new Error(`Failed to upload file to storage: ${uploadResponse.status} ${errorText}`);
+          if (!uploadResponse.ok) {
+            throw await errorFromResponse(uploadResponse, { method: 'PUT', endpoint: putUrl.split('?')[0] ?? putUrl }, 'Failed to upload file to storage');
+          }
+        }
       }
-      
+
       console.log('File uploaded successfully to storage');
       
       // Step 3: Register segment metadata with the object_id
@@ -1132,25 +1195,39 @@ export default function FlowDetails() {
         setShowUploadModal(false);
         setSelectedFile(null);
       }
-    } catch (error: any) {
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Segment upload stopped; choosing the same file again resumes it');
+        return;
+      }
       console.error('Failed to upload segment to VAST TAMS:', error);
-      const errorMessage = error?.message || 'Unknown error';
-      
-      // Provide more helpful error messages
-      if (errorMessage.includes('fetch') || errorMessage.includes('network') || errorMessage.includes('CORS')) {
-        setSegmentsError('Network error: Could not connect to the API. Make sure the TAMS API is running at http://localhost:3000');
-      } else if (errorMessage.includes('400') || errorMessage.includes('ValidationError')) {
-        setSegmentsError(`Upload validation failed: ${errorMessage}. Check that all required fields are filled correctly.`);
-      } else if (errorMessage.includes('413') || errorMessage.includes('too large')) {
+      if (error instanceof TamsApiError && error.status === 413) {
         setSegmentsError('File too large: The video file exceeds the maximum upload size.');
       } else {
-        setSegmentsError(`Failed to upload segment: ${errorMessage}`);
+        setSegmentsError(withErrorContext(error, 'Failed to upload segment'));
       }
     } finally {
       setUploadingSegment(false);
     }
   };
 
+  // Probe the file chosen for upload so conflicts with the flow show before uploading; the
+  // upload takes its duration, codec and container from this probe
+  useEffect(() => {
+    setSelectedFileProbe(null);
+    setProbingSelectedFile(selectedFile !== null);
+    if (!selectedFile) return;
+    let current = true;
+    probeMedia(selectedFile).then(probe => {
+      if (!current) return;
+      setSelectedFileProbe(probe);
+      setProbingSelectedFile(false);
+    });
+    return () => {
+      current = false;
+    };
+  }, [selectedFile]);
+
   // Cleanup live mode on unmount
   useEffect(() => {
     return () => {
@@ -1388,7 +1465,7 @@ export default function FlowDetails() {
       let response: any;
       try {
         // First, try direct flow lookup
-        response = await apiClient.getFlow(flowId);
+        response = await apiClient.getFlow(flowId, { signal: getSignal() });
       } catch (directErr: any) {
         // If direct lookup fails with ObjectId error (Issue #6), fall back to list and filter
         const errorMsg = directErr?.message || '';
@@ -1403,30 +1480,7 @@ export default function FlowDetails() {
         if (isObjectIdError) {
           console.warn('Direct flow lookup failed (Issue #6), falling back to flows list');
           
-          // Fetch all flows and find the one matching our ID
-          const flowsResponse = await apiClient.getFlows();
-          let flowsData: any[] = [];
-          
-          if (flowsResponse && flowsResponse.data && Array.isArray(flowsResponse.data)) {
-            flowsData = flowsResponse.data;
-          } else if (Array.isArray(flowsResponse)) {
-            flowsData = flowsResponse;
-          } else if (flowsResponse && 'flows' in flowsResponse && Array.isArray((flowsResponse as any).flows)) {
-            flowsData = (flowsResponse as any).flows;
-          }
-          
-          // Find flow by matching _id or id
-          const foundFlow = flowsData.find((f: any) => 
-            (f._id === flowId || f.id === flowId) ||
-            (f._id && String(f._id) === String(flowId)) ||
-            (f.id && String(f.id) === String(flowId))
-          );
-          
-          if (foundFlow) {
-            response = foundFlow;
-          } else {
-            throw new Error(`Flow ${flowId} not found in flows list`);
-          }
+          response = await findFlowInList(flowId, getSignal());
         } else {
           throw directErr;
         }
@@ -1460,12 +1514,8 @@ export default function FlowDetails() {
       
       setFlow(normalizedFlow);
     } catch (err: any) {
-      // Check if it's a 404 error (backend not ready)
-      if (err.message && err.message.includes('404')) {
-        setError('Backend Not Ready - Flow details endpoint is not available');
-      } else {
-        setError('Failed to refresh flow details');
-      }
+      if (isAbortError(err)) return;
+      setError(withErrorContext(err, 'Failed to refresh flow details'));
       console.error(err);
     } finally {
       setRefreshing(false);
@@ -1482,7 +1532,7 @@ export default function FlowDetails() {
       let response: any;
       try {
         // First, try direct flow lookup
-        response = await apiClient.getFlow(flowId);
+        response = await apiClient.getFlow(flowId, { signal: getSignal() });
       } catch (directErr: any) {
         // If direct lookup fails with ObjectId error (Issue #6), fall back to list and filter
         const errorMsg = directErr?.message || '';
@@ -1497,30 +1547,7 @@ export default function FlowDetails() {
         if (isObjectIdError) {
           console.warn('Direct flow lookup failed (Issue #6), falling back to flows list');
           
-          // Fetch all flows and find the one matching our ID
-          const flowsResponse = await apiClient.getFlows();
-          let flowsData: any[] = [];
-          
-          if (flowsResponse && flowsResponse.data && Array.isArray(flowsResponse.data)) {
-            flowsData = flowsResponse.data;
-          } else if (Array.isArray(flowsResponse)) {
-            flowsData = flowsResponse;
-          } else if (flowsResponse && 'flows' in flowsResponse && Array.isArray((flowsResponse as any).flows)) {
-            flowsData = (flowsResponse as any).flows;
-          }
-          
-          // Find flow by matching _id or id
-          const foundFlow = flowsData.find((f: any) => 
-            (f._id === flowId || f.id === flowId) ||
-            (f._id && String(f._id) === String(flowId)) ||
-            (f.id && String(f.id) === String(flowId))
-          );
-          
-          if (foundFlow) {
-            response = foundFlow;
-          } else {
-            throw new Error(`Flow ${flowId} not found in flows list`);
-          }
+          response = await findFlowInList(flowId, getSignal());
         } else {
           throw directErr;
         }
@@ -1554,22 +1581,14 @@ export default function FlowDetails() {
       
       setFlow(normalizedFlow);
     } catch (err: any) {
-      // Check if it's a 404 error (backend not ready)
-      if (err.message && err.message.includes('404')) {
-        setError('Backend Not Ready - Flow details endpoint is not available');
-      } else {
-        setError('Failed to fetch flow details');
-      }
+      if (isAbortError(err)) return;
+      setError(withErrorContext(err, 'Failed to fetch flow details'));
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const API_BASE_URL = import.meta.env.DEV 
-    ? (import.meta.env.VITE_API_URL || 'http://localhost:3000')
-    : '/api/proxy';
-
   if (loading && !flow) {
     return (
       <Container size="xl" px="xl" py="xl">
@@ -1598,20 +1617,7 @@ export default function FlowDetails() {
           </Group>
         </Box>
         
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="Backend Not Ready"
-          mb="xl"
-        >
-          The flow details endpoint is not available. This usually means the backend dependencies are not fully configured.
-          <br /><br />
-          <Text size="sm" c="dimmed">
-            • Check that the backend is running at {API_BASE_URL}<br />
-            • Verify that all required Python packages are installed<br />
-            • Check backend logs for dependency errors
-          </Text>
-        </Alert>
+        <ErrorPresenter error={error} title="Flow details unavailable" mb="xl" />
         
         <Card withBorder>
           <Box ta="center" py="xl">
@@ -1691,16 +1697,7 @@ export default function FlowDetails() {
 
       {/* Error Alert */}
       {error && (
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="Error"
-          withCloseButton
-          onClose={() => setError(null)}
-          mb="md"
-        >
-          {error}
-        </Alert>
+        <ErrorPresenter error={error} onClose={() => setError(null)} mb="md" />
       )}
 
       {/* Demo Mode Alert */}
@@ -1760,22 +1757,6 @@ export default function FlowDetails() {
       )}
 
 
-      {/* Backend Status Note */}
-      {error && error.includes('Backend Not Ready') && (
-        <Alert 
-          icon={<IconInfoCircle size={16} />} 
-          color="blue" 
-          title="Backend Status"
-          mb="md"
-        >
-          The backend API endpoints for flows are not responding. This is likely due to missing Python dependencies (like 'ibis') that prevent the flows router from loading properly.
-          <br /><br />
-          <Text size="sm" c="dimmed">
-            To fix this, the backend needs to have all required Python packages installed and running correctly.
-          </Text>
-        </Alert>
-      )}
-
       {/* Main Content - Segments First */}
       <Grid mb="xl">
             <Grid.Col span={8}>
@@ -1797,6 +1778,7 @@ export default function FlowDetails() {
                 )}
               </Group>
               <Group gap="xs">
+                <TimeDisplayModeSelector showLabel={false} />
                 <Button
                   variant={isLiveMode ? "filled" : "light"}
                   color={isLiveMode ? "red" : "blue"}
@@ -1812,7 +1794,7 @@ export default function FlowDetails() {
                   data={[{ value: 'timeline', label: 'Timeline View' }, { value: 'list', label: 'List View' }]}
                   size="sm"
                 />
-                <Button variant="light" leftSection={<IconRefresh size={16} />} size="sm" onClick={fetchSegments} loading={segmentsLoading}>
+                <Button variant="light" leftSection={<IconRefresh size={16} />} size="sm" onClick={() => fetchSegments()} loading={segmentsLoading}>
                   Refresh
                 </Button>
                 <Button 
@@ -1859,6 +1841,8 @@ export default function FlowDetails() {
               </Group>
             </Group>
 
+            {flowId && <FlowCoverage flowId={flowId} {...(flow ? { flow } : {})} refreshKey={segments.length} />}
+
             {/* Live mode info */}
             {isLiveMode && (
                               <Alert icon={<IconRadio size={16} />} color="red" variant="light" mb="md">
@@ -1886,9 +1870,7 @@ export default function FlowDetails() {
             )}
 
             {segmentsError && (
-              <Alert icon={<IconAlertCircle size={16} />} color="red" mb="md" withCloseButton onClose={() => setSegmentsError(null)}>
-                {segmentsError}
-              </Alert>
+              <ErrorPresenter error={segmentsError} onClose={() => setSegmentsError(null)} mb="md" />
             )}
 
             <AdvancedFilter
@@ -1947,7 +1929,7 @@ export default function FlowDetails() {
                         <Group justify="space-between">
                           <Group gap="xs">
                             <IconClock size={14} />
-                            <Text size="sm">{formatTimestamp(segment.timerange.start)} - {formatTimestamp(segment.timerange.end)}</Text>
+                            <Text size="sm">{formatSegmentBound(segment, 'start')} - {formatSegmentBound(segment, 'end')}</Text>
                           </Group>
                           <Group gap="xs">
                             <Badge color="blue" variant="light" size="sm">{formatIsoDuration(segment.last_duration || 'PT0S')}</Badge>
@@ -2066,8 +2048,8 @@ export default function FlowDetails() {
                           </Group>
                         </Table.Td>
                         <Table.Td>
-                          <Text size="xs" c="#b3b3b3">{formatTimestamp(segment.timerange.start)}</Text>
-                          <Text size="xs" c="#666666">to {formatTimestamp(segment.timerange.end)}</Text>
+                          <Text size="xs" c="#b3b3b3">{formatSegmentBound(segment, 'start')}</Text>
+                          <Text size="xs" c="#666666">to {formatSegmentBound(segment, 'end')}</Text>
                         </Table.Td>
                         <Table.Td>
                           <Text size="xs" c="#b3b3b3">{formatIsoDuration(segment.last_duration || 'PT0S')}</Text>
@@ -3010,7 +2992,7 @@ export default function FlowDetails() {
                     </Group>
                     <Group justify="space-between">
                       <Text size="xs" c="dimmed">Time Range</Text>
-                      <Text size="xs">{formatTimestamp(selectedSegment.timerange.start)}</Text>
+                      <Text size="xs">{formatSegmentBound(selectedSegment, 'start')}</Text>
                     </Group>
                     {selectedSegment.is_live && (
                       <Group justify="space-between">
@@ -3154,8 +3136,8 @@ export default function FlowDetails() {
                 </Group>
                 <Divider />
                 <Group gap="md">
-                  <Box><Text size="sm" fw={500}>Start Time</Text><Text size="sm">{formatTimestamp(selectedSegment.timerange.start)}</Text></Box>
-                  <Box><Text size="sm" fw={500}>End Time</Text><Text size="sm">{formatTimestamp(selectedSegment.timerange.end)}</Text></Box>
+                  <Box><Text size="sm" fw={500}>Start Time</Text><Text size="sm">{formatSegmentBound(selectedSegment, 'start')}</Text></Box>
+                  <Box><Text size="sm" fw={500}>End Time</Text><Text size="sm">{formatSegmentBound(selectedSegment, 'end')}</Text></Box>
                   <Box><Text size="sm" fw={500}>Duration</Text><Text size="sm">{formatIsoDuration(selectedSegment.last_duration || 'PT0S')}</Text></Box>
                 </Group>
                 {selectedSegment.size && (<Box><Text size="sm" fw={500}>File Size</Text><Text size="sm">{formatFileSize(selectedSegment.size)}</Text></Box>)}
@@ -3200,7 +3182,7 @@ export default function FlowDetails() {
                       <VastTamsVideoPlayer
                         segment={{
                           id: selectedSegment.id,
-                          timerange: `${selectedSegment.timerange.start}/${selectedSegment.timerange.end}`,
+                          timerange: selectedSegment.tams_timerange ?? `${selectedSegment.timerange.start}/${selectedSegment.timerange.end}`,
                           get_urls: selectedSegment.get_urls,
                           format: selectedSegment.flow_format || flow?.format,
                           ...(flow?.codec ? { codec: flow.codec } : {}),
@@ -3212,6 +3194,7 @@ export default function FlowDetails() {
                           deleted_at: null,
                           deleted_by: null
                         }}
+                        {...(flow?.essence_parameters?.frame_rate ? { frameRate: flow.essence_parameters.frame_rate } : {})}
                         {...(selectedSegment.description || flow.label ? { title: selectedSegment.description || flow.label || '' } : {})}
                         description={`TAMS segment playback for ${flow.label || 'segment'}`}
                         onClose={handleVideoPlayerClose}
@@ -3452,6 +3435,7 @@ export default function FlowDetails() {
         opened={showUploadModal}
         onClose={() => {
           console.log('Closing upload modal');
+          uploadAbortRef.current?.abort();
           setShowUploadModal(false);
           setSelectedFile(null);
         }}
@@ -3471,6 +3455,30 @@ export default function FlowDetails() {
             value={selectedFile}
             onChange={setSelectedFile}
           />
+
+          {selectedFileProbe && (() => {
+            const track = primaryTrack(selectedFileProbe);
+            const conflicts = flow ? probeConflicts(selectedFileProbe, flow) : [];
+            return (
+              <>
+                <Text size="xs" c="dimmed">
+                  {[
+                    selectedFileProbe.container === 'mpegts' ? 'MPEG-TS' : 'MP4',
+                    track?.codec,
+                    track?.width && track.height ? `${track.width}x${track.height}` : null,
+                    track?.frameRate ? `${(track.frameRate.numerator / (track.frameRate.denominator ?? 1)).toFixed(2)} fps` : null,
+                    track?.sampleRate ? `${track.sampleRate} Hz` : null,
+                    selectedFileProbe.durationSeconds !== null ? `${selectedFileProbe.durationSeconds.toFixed(2)} s` : null
+                  ].filter(Boolean).join(' · ')}
+                </Text>
+                {conflicts.length > 0 && (
+                  <Alert color="yellow" icon={<IconAlertCircle size={16} />} title="The file does not match this flow">
+                    {conflicts.map(conflict => <Text key={conflict} size="sm">{conflict}</Text>)}
+                  </Alert>
+                )}
+              </>
+            );
+          })()}
           
           <TextInput
             id="object-id"
@@ -3484,13 +3492,13 @@ export default function FlowDetails() {
               id="start-time"
               label="Start Time"
               placeholder="HH:MM:SS"
-              description="Segment start time"
+              description="Blank to follow on from the flow's media"
             />
             <TextInput
               id="end-time"
               label="End Time"
               placeholder="HH:MM:SS"
-              description="Segment end time"
+              description="Blank to use the file's duration"
             />
           </Group>
           
@@ -3507,9 +3515,49 @@ export default function FlowDetails() {
             placeholder="key1:value1,key2:value2"
             description="Comma-separated key-value pairs"
           />
+
+          {uploadProgress && (
+            <Stack gap={4}>
+              <Group justify="space-between">
+                <Text size="sm">
+                  Part {Math.min(uploadProgress.partsUploaded + 1, uploadProgress.partsTotal)} of {uploadProgress.partsTotal}
+                  {uploadProgress.partsInFlight.length > 1 ? ` (${uploadProgress.partsInFlight.length} in flight)` : ''}
+                </Text>
+                <Text size="sm" c="dimmed">
+                  {formatFileSize(uploadProgress.uploadedBytes)} / {formatFileSize(uploadProgress.totalBytes)}
+                </Text>
+              </Group>
+              <Progress value={uploadProgress.totalBytes > 0 ? (uploadProgress.uploadedBytes / uploadProgress.totalBytes) * 100 : 0} />
+              <Text size="xs" c="dimmed">
+                Stopping keeps the uploaded parts; choose the same file again to resume.
+              </Text>
+            </Stack>
+          )}
+
+          {singlePutUpload && uploadingSegment && (
+            <Alert color="yellow" variant="light">
+              This backend does not support multipart uploads: the file is uploading with a single PUT, which cannot resume if interrupted.
+            </Alert>
+          )}
           
           <Group gap="xs" justify="flex-end">
+            <Button
+              variant="subtle"
+              leftSection={<IconFileImport size={16} />}
+              style={{ marginRight: 'auto' }}
+              disabled={uploadingSegment}
+              onClick={() => {
+                // Imported segments follow on from the flow's media, like a single upload
+                const flowRange = typeof flow?.timerange === 'string' ? tryParseTimerange(flow.timerange) : null;
+                setImportStart(flowRange?.end ?? currentTaiTimestamp());
+                setShowUploadModal(false);
+                setSelectedFile(null);
+              }}
+            >
+              Import from HLS/DASH or folder
+            </Button>
             <Button variant="light" onClick={() => {
+              uploadAbortRef.current?.abort();
               setShowUploadModal(false);
               setSelectedFile(null);
             }}>
@@ -3550,13 +3598,15 @@ export default function FlowDetails() {
                   
                   const segmentData = {
                     object_id: objectIdInput?.value || undefined,
-                    timerange: `${startTimeInput?.value || '00:00:00'}_${endTimeInput?.value || '00:01:00'}`,
+                    timerange: startTimeInput?.value || endTimeInput?.value
+                      ? `${startTimeInput?.value || '00:00:00'}_${endTimeInput?.value || '00:01:00'}`
+                      : undefined,
                     description: descriptionInput?.value || 'Uploaded segment',
                     tags
                   };
                   
                   console.log('Uploading segment with data:', segmentData);
-                    handleUploadSegment(selectedFile, segmentData);
+                    handleUploadSegment(selectedFile, segmentData, selectedFileProbe);
                 } else {
                     console.warn('No file selected');
                   setError('Please select a file to upload');
@@ -3567,7 +3617,7 @@ export default function FlowDetails() {
                 }
               }}
               loading={uploadingSegment}
-              disabled={uploadingSegment}
+              disabled={uploadingSegment || probingSelectedFile}
             >
               Upload Segment
             </Button>
@@ -3575,6 +3625,26 @@ export default function FlowDetails() {
         </Stack>
       </Modal>
 
+      {/* Bulk Segment Import Modal */}
+      <Modal
+        opened={importStart !== null}
+        onClose={() => setImportStart(null)}
+        title="Import Segments from HLS/DASH or Folder"
+        size="xl"
+      >
+        {importStart !== null && flowId && (
+          <SegmentImporter
+            flowId={flowId}
+            start={importStart}
+            onImported={count => {
+              setNewSegmentsCount(prev => prev + count);
+              setShowNewSegmentsNotification(true);
+              void fetchSegments();
+            }}
+          />
+        )}
+      </Modal>
+
       {/* Cleanup Segments Modal */}
       <Modal
         opened={showCleanupModal}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Container,
@@ -29,6 +29,7 @@ import {
 } from '@mantine/core';
 import AdvancedFilter, { FilterOption, FilterState, FilterPreset } from '../components/AdvancedFilter';
 import { useFilterPersistence } from '../hooks/useFilterPersistence';
+import { useEntityCacheUpdates } from '../hooks/useEntityCacheUpdates';
 import {
   IconVideo, 
   IconMusic, 
@@ -47,10 +48,21 @@ import {
   IconMapPin,
   IconInfoCircle,
   IconLink,
-  IconArrowLeft
+  IconArrowLeft,
+  IconArrowsDiff
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
-import { BBCApiOptions, BBCApiResponse, BBCPaginationMeta } from '../services/api';
+import { BBCApiOptions } from '../services/api';
+import type { FlowUpdate } from '../types/tams';
+import { useBackend } from '../contexts/BackendContext';
+import { listFederatedFlows } from '../services/federation';
+import { errorKind, errorMessage, withErrorContext } from '../services/errors';
+import { BackendBadge } from '../components/BackendBadge';
+import { FederatedBackendPicker } from '../components/FederatedBackendPicker';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { StoreComparisonModal } from '../components/StoreComparisonModal';
+import { parseFrameRate } from '../utils/timeDisplay';
+import { formatEditRate, isDropFrameRate } from '../utils/timecode';
 
 // Enhanced Flow interface
 interface Flow {
@@ -83,6 +95,8 @@ interface Flow {
   deleted?: boolean;
   deleted_at?: string | null;
   deleted_by?: string | null;
+  // Backend the flow was listed from, in federated mode
+  backendId?: string;
 }
 
 // TAMS Flows - fetched from real backend API
@@ -195,20 +209,27 @@ const createMockFlows = (): Flow[] => {
   return flows;
 };
 
+// Upper bound on flows listed in the browser; the list pages through them client-side
+const MAX_LISTED_FLOWS = 5000;
+
 export default function Flows() {
   const navigate = useNavigate();
+  const { currentBackend, federatedBackends, switchBackend } = useBackend();
+  const federated = federatedBackends.length > 1;
+  const [federationErrors, setFederationErrors] = useState<Record<string, string>>({});
+  const [showComparison, setShowComparison] = useState(false);
   const [flows, setFlows] = useState<Flow[]>([]);
   const [sources, setSources] = useState<Array<{ id: string; label?: string }>>([]);
   const [selectedFlow, setSelectedFlow] = useState<Flow | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [showInfoBox, setShowInfoBox] = useState(true); // State for collapsible info box
   const [isDemoMode, setIsDemoMode] = useState(false); // Track if we're using demo data
   
-  // VAST TAMS API state
-  const [bbcPagination, setBbcPagination] = useState<BBCPaginationMeta>({});
-  const [currentCursor, setCurrentCursor] = useState<string | null>(null);
+  // Cancels the previous listing when filters change or the page unmounts
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  const [truncated, setTruncated] = useState(false);
   
   // Client-side pagination state
   const [activePage, setActivePage] = useState(1);
@@ -218,10 +239,17 @@ export default function Flows() {
   const { filters, updateFilters, clearFilters, hasActiveFilters, setFilter } = useFilterPersistence('flows');
   const [savedPresets, setSavedPresets] = useState<FilterPreset[]>([]);
 
-  // Fetch flows using VAST TAMS API
-  const fetchFlowsVastTams = async (cursor?: string) => {
+  // Fetch flows using VAST TAMS API, following cursors across every page
+  // A background refresh (after the cache revalidated) keeps the current page and shows no loader
+  const fetchFlowsVastTams = async (background: boolean = false) => {
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+
     try {
-      setLoading(true);
+      if (!background) {
+        setLoading(true);
+      }
       setError(null);
       
       const options: BBCApiOptions = {
@@ -232,10 +260,6 @@ export default function Flows() {
         // Issue #4: show_deleted is not a valid query parameter (schema rejects additionalProperties)
         // Filtering deleted flows will be handled client-side if needed
       };
-      
-      if (cursor) {
-        options.page = cursor;
-      }
 
       // Apply filters to VAST TAMS API (server-side filtering)
       if (filters.format) {
@@ -252,101 +276,66 @@ export default function Flows() {
         options.tags = { ...(options.tags || {}), year: filters.year };
       }
 
+      if (federated) {
+        const result = await listFederatedFlows(federatedBackends, {
+          ...options,
+          maxItems: MAX_LISTED_FLOWS,
+          signal: controller.signal
+        });
+        setFlows(result.items as Flow[]);
+        setFederationErrors(result.errors);
+        setTruncated(Object.values(result.counts).some(count => count >= MAX_LISTED_FLOWS));
+        setIsDemoMode(false);
+        if (!background) {
+          setActivePage(1);
+        }
+        return;
+      }
+      setFederationErrors({});
+
       console.log('Fetching flows from TAMS API with options:', options);
-      const response = await apiClient.getFlows(options);
-      console.log('TAMS flows API response:', response);
-      
-      // Handle different response formats
-      // The API returns a direct array of flows with pagination in headers
-      // bbcTamsGet normalizes to { data: [...], pagination: {...} }
-      // Note: API returns _id (MongoDB format), normalize to id for frontend
-      let flowsData: Flow[] = [];
-      let paginationData: BBCPaginationMeta = {};
-      
-      if (response && response.data && Array.isArray(response.data)) {
-        // Normalized BBC TAMS format from bbcTamsGet
-        // Normalize _id to id (API returns _id from MongoDB)
-        flowsData = response.data.map((flow: any) => ({
-          ...flow,
-          id: flow.id || flow._id // Normalize _id to id
-        }));
-        paginationData = response.pagination || {};
-      } else if (response && 'flows' in response && Array.isArray((response as any).flows)) {
-        // Alternative format: { flows: [...], count }
-        flowsData = (response as any).flows.map((flow: any) => ({
-          ...flow,
-          id: flow.id || flow._id // Normalize _id to id
-        }));
-        paginationData = {
-          count: (response as any).count || (response as any).flows.length,
-          limit: options.limit || 50
-        };
-      } else if (Array.isArray(response)) {
-        // Direct array response (when API works correctly)
-        flowsData = response.map((flow: any) => ({
-          ...flow,
-          id: flow.id || flow._id // Normalize _id to id
-        }));
-        paginationData = {
-          count: response.length,
-          limit: options.limit || 50
-        };
+      // bbcTamsGet normalises response envelopes and MongoDB _id keys (see responseValidation)
+      const flowsData: Flow[] = [];
+      for await (const flow of apiClient.iterateFlows({ ...options, maxItems: MAX_LISTED_FLOWS, signal: controller.signal })) {
+        // Decoded flows keep the backend's extension fields the list shows
+        flowsData.push(flow as Flow);
       }
+      console.log(`Fetched ${flowsData.length} flows from TAMS API`);
       
       setFlows(flowsData);
-      setBbcPagination(paginationData);
-      setCurrentCursor(cursor || null);
+      setTruncated(flowsData.length >= MAX_LISTED_FLOWS);
       setError(null);
       setIsDemoMode(false); // API is working, not in demo mode
       // Reset to first page when flows change
-      setActivePage(1);
+      if (!background) {
+        setActivePage(1);
+      }
     } catch (err: any) {
+      if (controller.signal.aborted) return;
+      // A failed background refresh keeps the current list; the next change retries it
+      if (background) {
+        return;
+      }
       console.error('TAMS flows API error:', err);
       
-      // Check if it's a network/connection error
-      const isNetworkError = err?.message?.includes('Network') || 
-                             err?.message?.includes('fetch') || 
-                             err?.message?.includes('CORS') ||
-                             err?.name === 'TypeError' ||
-                             err?.message?.includes('Could not connect');
-      
-      // Check if it's a validation error (Issue #3 - still broken)
-      const isValidationError = err?.message?.includes('ValidationError') ||
-                                  err?.message?.includes('must be integer') ||
-                                  err?.message?.includes('Invalid request data');
-      
-      if (isNetworkError) {
+      if (errorKind(err) === 'network') {
         // Network errors: fall back to demo data
         console.warn('Network error, falling back to demo data');
         const mockFlows = createMockFlows();
         setFlows(mockFlows);
-        setBbcPagination({
-          count: mockFlows.length,
-          limit: 50
-        });
-        setCurrentCursor(null);
+        setTruncated(false);
         setIsDemoMode(true);
         setError(null); // Don't show error for network issues, use demo data
-      } else if (isValidationError) {
-        // Validation errors: show error but don't use demo data
-        // Issue #3: limit parameter validation still broken
-        setError('API validation error. Some query parameters may not be supported yet. Please try without filters.');
-        setIsDemoMode(false);
-        setFlows([]);
-        setBbcPagination({});
-        setCurrentCursor(null);
       } else {
-        // Other errors: show error message
-        // Issue #1 is now fixed, so binding errors should not occur
-        const errorMsg = err?.message || 'Unknown error occurred';
-        setError(`Failed to load flows: ${errorMsg}`);
+        // Other errors, e.g. query parameters the backend rejects, are shown with guidance
+        setError(withErrorContext(err, 'Failed to load flows'));
         setIsDemoMode(false);
         setFlows([]);
-        setBbcPagination({});
-        setCurrentCursor(null);
       }
     } finally {
-      setLoading(false);
+      if (fetchAbortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
@@ -364,7 +353,24 @@ export default function Flows() {
   useEffect(() => {
     fetchFlowsVastTams();
     fetchSources();
-  }, [filters]);
+  }, [filters, federatedBackends]);
+
+  useEffect(() => () => fetchAbortRef.current?.abort(), []);
+
+  // Pick up flows revalidated in the background or changed on other pages
+  useEntityCacheUpdates(['flow'], () => fetchFlowsVastTams(true));
+
+  // Flows listed from another backend open after switching to it
+  const openFlow = async (flow: Flow) => {
+    if (flow.backendId && flow.backendId !== currentBackend.id) {
+      try {
+        await switchBackend(flow.backendId);
+      } catch {
+        return;
+      }
+    }
+    navigate(`/flow-details/${flow.id}`);
+  };
 
   // Refresh data function
   const handleRefresh = () => {
@@ -394,15 +400,14 @@ export default function Flows() {
         ...newFlow
       };
       
-      const response = await apiClient.createFlow(flowId, flowData);
+      const response = await apiClient.createFlow(flowId, flowData as FlowUpdate);
       
       // Refresh the flows list to get the new flow
       await fetchFlowsVastTams();
       setShowCreateModal(false);
       setError(null);
-    } catch (err: any) {
-      const errorMsg = err?.message || 'Failed to create flow';
-      setError(errorMsg);
+    } catch (err) {
+      setError(withErrorContext(err, 'Failed to create flow'));
       console.error('Create flow error:', err);
     } finally {
       setLoading(false);
@@ -574,6 +579,25 @@ export default function Flows() {
           >
             View Demo Flow
           </Button>
+          <FederatedBackendPicker />
+          <Button
+            variant="subtle"
+            leftSection={<IconArrowsDiff size={16} />}
+            onClick={() => setShowComparison(true)}
+            styles={{
+              root: {
+                backgroundColor: 'transparent',
+                border: '1px solid #333333',
+                color: '#b3b3b3',
+                '&:hover': {
+                  backgroundColor: '#1a1a1a',
+                  borderColor: '#404040',
+                },
+              },
+            }}
+          >
+            Compare Stores
+          </Button>
           <Button
             variant="subtle"
             leftSection={<IconRefresh size={16} />}
@@ -633,15 +657,27 @@ export default function Flows() {
 
       {/* Error Alert - only show if not in demo mode */}
       {error && !isDemoMode && (
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="TAMS Connection Error"
+        <ErrorPresenter error={error} onClose={() => setError(null)} mb="md" />
+      )}
+
+      {/* Federated backends that could not be listed */}
+      {federated && Object.keys(federationErrors).length > 0 && (
+        <Alert
+          icon={<IconAlertCircle size={16} />}
+          color="yellow"
+          title="Some backends could not be listed"
           withCloseButton
-          onClose={() => setError(null)}
+          onClose={() => setFederationErrors({})}
           mb="md"
         >
-          {error}
+          <Stack gap={4}>
+            {Object.entries(federationErrors).map(([backendId, message]) => (
+              <Group key={backendId} gap="xs">
+                <BackendBadge backendId={backendId} />
+                <Text size="sm">{message}</Text>
+              </Group>
+            ))}
+          </Stack>
         </Alert>
       )}
 
@@ -874,7 +910,7 @@ export default function Flows() {
             ) : error ? (
               <Table.Tr>
                 <Table.Td colSpan={6} ta="center" c="red">
-                  {error}
+                  {errorMessage(error)}
                 </Table.Td>
               </Table.Tr>
             ) : filteredFlows.length === 0 ? (
@@ -893,7 +929,7 @@ export default function Flows() {
             ) : (
               paginatedFlows.map((flow) => (
                 <Table.Tr 
-                  key={flow.id}
+                  key={flow.backendId ? `${flow.backendId}:${flow.id}` : flow.id}
                   style={{ 
                     opacity: flow.deleted ? 0.6 : 1,
                     cursor: 'pointer',
@@ -909,7 +945,7 @@ export default function Flows() {
                           style={{ cursor: 'pointer' }}
                           onClick={(e) => {
                             e.stopPropagation();
-                            navigate(`/flow-details/${flow.id}`);
+                            openFlow(flow);
                           }}
                           onMouseEnter={(e) => {
                             e.currentTarget.style.textDecoration = 'underline';
@@ -920,6 +956,9 @@ export default function Flows() {
                         >
                           {flow.label || 'Unnamed Flow'}
                         </Text>
+                        {federated && flow.backendId && (
+                          <BackendBadge backendId={flow.backendId} />
+                        )}
                         {flow.deleted && (
                           <Badge size="xs" color="red">DELETED</Badge>
                         )}
@@ -1056,11 +1095,18 @@ export default function Flows() {
           <Group justify="center" mt="md">
             <Text size="sm" c="#b3b3b3">
               Showing {startIndex + 1}-{Math.min(endIndex, filteredFlows.length)} of {filteredFlows.length} flows
+              {truncated && ` (listing stopped at ${MAX_LISTED_FLOWS} flows; narrow the filters to see more)`}
             </Text>
           </Group>
         )}
       </Box>
 
+        <StoreComparisonModal
+          opened={showComparison}
+          onClose={() => setShowComparison(false)}
+          backendIds={federatedBackends.map(backend => backend.id)}
+        />
+
         {/* Create Flow Modal */}
         <CreateFlowModal 
           opened={showCreateModal}
@@ -1100,6 +1146,7 @@ function CreateFlowModal({ opened, onClose, onSubmit, sources }: CreateFlowModal
 
   const [tagKey, setTagKey] = useState('');
   const [tagValue, setTagValue] = useState('');
+  const frameRate = parseFrameRate(formData.frame_rate);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -1218,6 +1265,10 @@ function CreateFlowModal({ opened, onClose, onSubmit, sources }: CreateFlowModal
                 placeholder="e.g., 25/1"
                 value={formData.frame_rate}
                 onChange={(e) => setFormData({ ...formData, frame_rate: e.currentTarget.value })}
+                error={formData.frame_rate && !frameRate ? 'Use a rational such as 25/1 or 30000/1001' : undefined}
+                description={frameRate
+                  ? `${formatEditRate(frameRate)} fps, ${isDropFrameRate(frameRate) ? 'drop-frame' : 'non-drop-frame'} timecode`
+                  : undefined}
               />
             </Group>
           )}
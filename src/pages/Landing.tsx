@@ -175,7 +175,7 @@ export default function Landing() {
       // Try to get storage backends
       let storageBackends: any[] = [];
       try {
-        const storageData = await apiClient.getStorageBackends().catch(() => null);
+        const storageData = await apiClient.getStorageBackends().catch(() => null) as { storage_backends?: typeof storageBackends } | null;
         if (storageData) {
           storageBackends = storageData.storage_backends || [];
         }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Container,
@@ -29,7 +29,9 @@ import {
   IconDatabase,
   IconEye
 } from '@tabler/icons-react';
-import { apiClient, BBCApiOptions, BBCApiResponse, BBCPaginationMeta } from '../services/api';
+import { apiClient } from '../services/api';
+import { NotFoundError, withErrorContext } from '../services/errors';
+import { ErrorPresenter } from '../components/ErrorPresenter';
 import { Pagination } from '@mantine/core';
 
 interface TAMSObject {
@@ -39,115 +41,73 @@ interface TAMSObject {
   [key: string]: any;
 }
 
+// Upper bound on objects listed in the browser; the table pages through them client-side
+const MAX_LISTED_OBJECTS = 5000;
+
 export default function Objects() {
   const navigate = useNavigate();
   const [objects, setObjects] = useState<TAMSObject[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [showInfoBox, setShowInfoBox] = useState(true);
   
-  // BBC TAMS API state
-  const [bbcPagination, setBbcPagination] = useState<BBCPaginationMeta>({});
-  const [currentCursor, setCurrentCursor] = useState<string | null>(null);
+  // Cancels the previous listing when the page refreshes or unmounts
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  const [truncated, setTruncated] = useState(false);
   
   // Client-side pagination state
   const [activePage, setActivePage] = useState(1);
   const itemsPerPage = 10;
 
-  // Fetch objects using BBC TAMS API
+  // Fetch objects using BBC TAMS API, following cursors across every page
   // Note: The /objects endpoint is not implemented in the backend yet
   // This is a placeholder that will work once the endpoint is added
-  const fetchObjects = async (cursor?: string) => {
+  const fetchObjects = async () => {
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
       
-      const options: BBCApiOptions = {
-        // Note: limit parameter causes validation errors - API expects integer but query strings are strings
-        // Backend team needs to fix query parameter type conversion
-        // For now, don't use limit - API will return all objects (when implemented)
-        // limit: 50, // Commented out until backend fixes query parameter validation
-      };
-      
-      if (cursor) {
-        options.page = cursor;
-      }
-
-      console.log('Fetching objects from TAMS API with options:', options);
-      const response: BBCApiResponse<TAMSObject> = await apiClient.getObjects(options);
-      console.log('TAMS objects API response:', response);
-      
-      // Handle different response formats
-      let objectsData: TAMSObject[] = [];
-      let paginationData: BBCPaginationMeta = {};
-      
-      if (response && response.data && Array.isArray(response.data)) {
-        // Normalized BBC TAMS format
-        objectsData = response.data;
-        paginationData = response.pagination || {};
-      } else {
-        const responseAny = response as any;
-        if (responseAny && responseAny.objects && Array.isArray(responseAny.objects)) {
-          // Alternative format: { objects: [...], count }
-          objectsData = responseAny.objects;
-          paginationData = {
-            count: responseAny.count || responseAny.objects.length,
-            ...(options.limit !== undefined ? { limit: options.limit } : {})
-          };
-        } else if (Array.isArray(response)) {
-          // Direct array response
-          objectsData = response;
-          paginationData = {
-            count: response.length,
-            ...(options.limit !== undefined ? { limit: options.limit } : {})
-          };
-        }
+      // Note: limit parameter causes validation errors - API expects integer but query strings are strings
+      // Backend team needs to fix query parameter type conversion
+      // For now, don't send a page size - the backend chooses one and we follow its cursors
+      const objectsData: TAMSObject[] = [];
+      for await (const object of apiClient.iterateObjects({ maxItems: MAX_LISTED_OBJECTS, signal: controller.signal })) {
+        objectsData.push(object);
       }
+      console.log(`Fetched ${objectsData.length} objects from TAMS API`);
       
       setObjects(objectsData);
-      setBbcPagination(paginationData);
-      
-      // Extract cursor from pagination
-      if (response.pagination?.nextKey) {
-        setCurrentCursor(response.pagination.nextKey);
-      } else {
-        setCurrentCursor(null);
-      }
+      setTruncated(objectsData.length >= MAX_LISTED_OBJECTS);
       
       // Reset to first page when objects change
       setActivePage(1);
       
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Error fetching objects:', err);
       
-      // Set appropriate error message based on error type
-      let errorMessage = 'Unknown error';
-      
-      if (err?.message) {
-        errorMessage = err.message;
-      } else if (err?.response) {
-        errorMessage = `HTTP ${err.response.status}: ${err.response.statusText || 'Error'}`;
-      } else if (err?.name === 'TypeError' && err?.message?.includes('fetch')) {
-        errorMessage = 'Network error: Could not connect to API. Is the backend running?';
-      } else if (err?.name === 'AbortError') {
-        errorMessage = 'Request timeout - please try again';
-      }
-      
-      // Check if it's a 404 (endpoint not implemented)
-      if (errorMessage.includes('404') || errorMessage.includes('Cannot GET') || errorMessage.includes('Not Found')) {
+      // A 404 means the backend has no endpoint for listing objects
+      if (err instanceof NotFoundError) {
         setError('The /objects endpoint is not yet implemented in the TAMS API. Objects are referenced by segments but there is no dedicated endpoint to list them. This feature will be available once the backend implements the objects endpoint.');
       } else {
-        setError(errorMessage.includes('TAMS API error') ? errorMessage : `TAMS API error: ${errorMessage}`);
+        setError(withErrorContext(err));
       }
       
       setObjects([]);
     } finally {
-      setLoading(false);
+      if (fetchAbortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
   useEffect(() => {
     fetchObjects();
+    return () => fetchAbortRef.current?.abort();
   }, []);
 
   const handleRefresh = () => {
@@ -243,9 +203,7 @@ export default function Objects() {
 
         {/* Error State */}
         {error && (
-          <Alert icon={<IconInfoCircle size={16} />} color="red" title="Error" withCloseButton onClose={() => setError(null)}>
-            {error}
-          </Alert>
+          <ErrorPresenter error={error} onClose={() => setError(null)} />
         )}
         
         {/* Endpoint Not Available Info */}
@@ -274,6 +232,7 @@ export default function Objects() {
                   <Title order={4}>All Objects</Title>
                   <Text size="sm" c="dimmed">
                     {objects.length} {objects.length === 1 ? 'object' : 'objects'}
+                    {truncated && ` (first ${MAX_LISTED_OBJECTS} shown)`}
                   </Text>
                 </Group>
                 
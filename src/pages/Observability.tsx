@@ -25,7 +25,6 @@ import {
   IconServer,
   IconDatabase,
   IconCloud,
-  IconAlertTriangle,
   IconInfoCircle,
   IconRefresh,
   IconTrendingUp,
@@ -35,9 +34,13 @@ import {
   IconGauge,
   IconShield,
   IconNetwork,
-  IconClock
+  IconClock,
+  IconBug
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import ApiDebugger from '../components/ApiDebugger';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { withErrorContext } from '../services/errors';
 
 // Live data interfaces
 interface LiveHealthEndpoint {
@@ -72,7 +75,7 @@ interface LiveTamsMetrics {
 export default function Observability() {
   const [activeTab, setActiveTab] = useState<string | null>('overview');
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   
   // Live data state
   const [healthEndpoints, setHealthEndpoints] = useState<LiveHealthEndpoint[]>([]);
@@ -147,14 +150,14 @@ export default function Observability() {
         const flowsToCheck = flowsData.slice(0, 10).filter((f: any) => f.id || f._id);
         const flowStatsPromises = flowsToCheck.map((flow: any) => {
           const flowId = flow.id || flow._id;
-          return apiClient.getFlowStats?.(flowId).catch(() => null); // Silently fail if stats not available
+          return apiClient.getFlowStats?.(flowId, { background: true }).catch(() => null); // Silently fail if stats not available
         });
         
         if (flowStatsPromises.length > 0) {
           const flowStatsResults = await Promise.allSettled(flowStatsPromises);
           flowStatsResults.forEach((result) => {
             if (result.status === 'fulfilled' && result.value) {
-              const stats = result.value;
+              const stats = result.value as { total_segments?: number; total_size_bytes?: number };
               if (stats.total_segments) {
                 totalSegments += stats.total_segments;
               }
@@ -182,35 +185,11 @@ export default function Observability() {
       // Check if health check failed - this is critical
       if (healthResult.status === 'rejected') {
         const error = healthResult.reason;
-        const errorMessage = error?.message || String(error) || 'Unknown error';
-        const errorStack = error?.stack || '';
         console.error('Health check failed - Full error details:', {
           error,
-          message: errorMessage,
-          stack: errorStack,
           result: healthResult
         });
-        
-        // Provide more specific error message
-        if (errorMessage.includes('Network error') || errorMessage.includes('fetch') || errorMessage.includes('Failed to fetch') || errorMessage.includes('ERR_')) {
-          setError(`Cannot connect to backend API. Please ensure the TAMS API is running on http://localhost:3000. 
-          
-Error details: ${errorMessage}
-
-Please check:
-1. Is the backend running? Try: curl http://localhost:3000/health
-2. Is the Vite proxy configured correctly?
-3. Check the browser console for more details.`);
-        } else {
-          setError(`Failed to fetch health data: ${errorMessage}. 
-
-Please check:
-1. Backend connectivity
-2. Browser console for details
-3. Network tab for failed requests
-
-Full error: ${errorMessage}`);
-        }
+        setError(withErrorContext(error, 'Failed to fetch health data'));
         setLoading(false);
         return; // Exit early if health check fails
       }
@@ -331,7 +310,7 @@ Full error: ${errorMessage}`);
 
       // Try to fetch metrics endpoint
       try {
-        const metricsResponse = await fetch(import.meta.env.DEV ? '/api/metrics' : '/api/proxy/metrics');
+        const metricsResponse = await apiClient.fetch('/metrics');
         endpoints.push({
           path: '/metrics',
           method: 'GET',
@@ -397,16 +376,7 @@ Full error: ${errorMessage}`);
       
     } catch (err: any) {
       console.error('Failed to fetch observability data:', err);
-      const errorMessage = err?.message || 'Unknown error';
-      
-      // Provide more specific error messages
-      if (errorMessage.includes('Network error') || errorMessage.includes('fetch') || errorMessage.includes('Failed to fetch')) {
-        setError(`Cannot connect to backend API. Please ensure the TAMS API is running on http://localhost:3000. Error: ${errorMessage}`);
-      } else if (errorMessage.includes('CORS')) {
-        setError(`CORS error: The backend may not be configured to allow requests from this origin. Error: ${errorMessage}`);
-      } else {
-        setError(`Failed to fetch observability data: ${errorMessage}. Please check backend connectivity and console for details.`);
-      }
+      setError(withErrorContext(err, 'Failed to fetch observability data'));
     } finally {
       setLoading(false);
     }
@@ -435,12 +405,7 @@ Full error: ${errorMessage}`);
       <Container size="xl" px="xl" py="xl">
         <Box display="flex" style={{ justifyContent: 'center', alignItems: 'center', minHeight: '80vh' }}>
           <Stack align="center">
-            <Alert icon={<IconAlertTriangle size={16} />} color="red" title="Error" mb="md">
-              {error}
-            </Alert>
-            <Button onClick={() => window.location.reload()} leftSection={<IconRefresh size={16} />}>
-              Retry
-            </Button>
+            <ErrorPresenter error={error} onRetry={() => window.location.reload()} mb="md" />
           </Stack>
         </Box>
       </Container>
@@ -534,6 +499,12 @@ Full error: ${errorMessage}`);
           >
             Performance
           </Tabs.Tab>
+          <Tabs.Tab 
+            value="debugger" 
+            leftSection={<IconBug size={16} />}
+          >
+            API Debugger
+          </Tabs.Tab>
         </Tabs.List>
 
         <Tabs.Panel value="overview" pt="lg">
@@ -1570,8 +1541,9 @@ Full error: ${errorMessage}`);
           </Stack>
         </Tabs.Panel>
 
-
-
+        <Tabs.Panel value="debugger" pt="lg">
+          <ApiDebugger />
+        </Tabs.Panel>
       </Tabs>
     </Container>
   );
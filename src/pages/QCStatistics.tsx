@@ -65,6 +65,13 @@ interface FailedChunk {
   [key: string]: any;
 }
 
+// QC chunk endpoints answer with a bare array or one of these envelopes
+type QCChunksResponse = FailedChunk[] | {
+  chunks?: FailedChunk[];
+  data?: FailedChunk[];
+  failed_chunks?: FailedChunk[];
+} | null;
+
 export default function QCStatistics() {
   const navigate = useNavigate();
   const [stats, setStats] = useState<QCStatistics | null>(null);
@@ -103,7 +110,7 @@ export default function QCStatistics() {
       let failed: FailedChunk[] = [];
       try {
         console.log('Fetching failed chunks from /api/v1/qc/failed-chunks');
-        const failedResponse = await apiClient.getQCFailedChunks(20, 0);
+        const failedResponse = await apiClient.getQCFailedChunks(20, 0) as QCChunksResponse;
         if (failedResponse && typeof failedResponse === 'object') {
           // Handle different response formats
           if (Array.isArray(failedResponse)) {
@@ -162,7 +169,7 @@ export default function QCStatistics() {
     
     try {
       console.log(`Fetching QC chunks by quality range: ${qualityRangeMin}-${qualityRangeMax}`);
-      const response = await apiClient.getQCByQuality(qualityRangeMin, qualityRangeMax);
+      const response = await apiClient.getQCByQuality(qualityRangeMin, qualityRangeMax) as QCChunksResponse;
       console.log('QC by quality response:', response);
       
       // Handle different response formats
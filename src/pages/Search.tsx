@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   Container, 
   Title, 
@@ -116,6 +116,7 @@ export default function Search() {
   const [searchTime, setSearchTime] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [showInfoBox, setShowInfoBox] = useState(true); // State for collapsible info box
+  const searchAbortRef = useRef<AbortController | null>(null); // Cancels a superseded search
 
   const [selectedVideo, setSelectedVideo] = useState<SearchResult | null>(null);
   const [showVideoPlayer, setShowVideoPlayer] = useState(false);
@@ -191,6 +192,10 @@ export default function Search() {
   const handleSearch = async () => {
     if (!isSearchReady) return;
     
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setShowResults(true);
     setLoading(true);
     setError(null);
@@ -222,7 +227,8 @@ export default function Search() {
       }
 
       console.log('🔍 Search Component: About to call performSearch with:', searchQueryData);
-      const searchResponse = await performSearch(searchQueryData, activePage, itemsPerPage);
+      const searchResponse = await performSearch(searchQueryData, activePage, itemsPerPage, controller.signal);
+      if (controller.signal.aborted) return;
       
       console.log('🔍 Search Component: Received search response:', searchResponse);
       
@@ -231,15 +237,20 @@ export default function Search() {
       setSearchTime(searchResponse.searchTime);
       
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Search failed:', error);
       setError(error instanceof Error ? error.message : 'Search failed');
       setSearchResults([]);
       setTotalResults(0);
     } finally {
-      setLoading(false);
+      if (searchAbortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
   // Handle result selection
   const toggleResultSelection = (resultId: string) => {
     const newSelected = new Set(selectedResults);
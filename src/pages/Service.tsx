@@ -32,9 +32,11 @@ import {
   IconDatabase as IconStorage
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { isAbortError } from '../services/http';
+import type { Service as TamsService } from '../types/tams';
 
 // Service info structure based on actual API response from GET /service
-interface ServiceInfo {
+interface ServiceInfo extends TamsService {
   name: string;
   version: string;
   capabilities: {
@@ -54,6 +56,10 @@ interface StorageBackend {
   [key: string]: any;
 }
 
+interface StorageBackendsResponse {
+  storage_backends?: StorageBackend[];
+}
+
 export default function Service() {
   const [serviceInfo, setServiceInfo] = useState<ServiceInfo | null>(null);
   const [storageBackends, setStorageBackends] = useState<StorageBackend[]>([]);
@@ -62,13 +68,18 @@ export default function Service() {
 
   // Fetch service info from API
   useEffect(() => {
+    // Cancels the load when leaving the page
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchData = async () => {
       try {
         setLoading(true);
         const [serviceResponse, backendsResponse] = await Promise.all([
-          apiClient.getService().catch(() => null),
-          apiClient.getStorageBackends().catch(() => null)
+          apiClient.getService({ signal }).catch(() => null),
+          apiClient.getStorageBackends({ signal }).catch(() => null) as Promise<StorageBackendsResponse | null>
         ]);
+        if (signal.aborted) return;
         
         // Use actual API response - backend returns: { name, version, capabilities }
         if (serviceResponse) {
@@ -81,14 +92,18 @@ export default function Service() {
           setStorageBackends(backendsResponse.storage_backends);
         }
       } catch (err: any) {
+        if (isAbortError(err)) return;
         setError('Failed to fetch service information');
         console.error(err);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchData();
+    return () => controller.abort();
   }, []);
 
   const refreshData = async () => {
@@ -97,7 +112,7 @@ export default function Service() {
       setError(null);
       const [serviceResponse, backendsResponse] = await Promise.all([
         apiClient.getService().catch(() => null),
-        apiClient.getStorageBackends().catch(() => null)
+        apiClient.getStorageBackends().catch(() => null) as Promise<StorageBackendsResponse | null>
       ]);
       
       // Use actual API response
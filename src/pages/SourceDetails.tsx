@@ -43,12 +43,25 @@ import {
   IconMapPin,
   IconNetwork,
   IconGauge,
-  IconCalendar
+  IconCalendar,
+  IconCopy
 } from '@tabler/icons-react';
 
 import { EnhancedDeleteModal, DeleteOptions } from '../components/EnhancedDeleteModal';
 import { SourceTagsManager } from '../components/SourceTagsManager';
 import { apiClient } from '../services/api';
+import { isAbortError } from '../services/http';
+import { NotFoundError, withErrorContext } from '../services/errors';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
+import { useEntityCacheUpdates } from '../hooks/useEntityCacheUpdates';
+import { useConflictResolution } from '../hooks/useConflictResolution';
+import { ConflictResolutionModal } from '../components/ConflictResolutionModal';
+import { ReplicationModal } from '../components/ReplicationModal';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { applyChanges, conditionalOptions, type FieldValues } from '../services/concurrency';
+import { parseFrameRate } from '../utils/timeDisplay';
+import type { EditRate } from '../utils/timerange';
+import type { TamsRational } from '../types/tams';
 
 // TAMS Source interface (based on API response)
 interface Source {
@@ -65,6 +78,7 @@ interface Source {
     label?: string;
     format: string;
     tags?: Record<string, string | string[]>;
+    essence_parameters?: { frame_rate?: TamsRational };
     created?: string;
     updated?: string;
   }>;
@@ -74,14 +88,32 @@ interface Source {
   deleted_by?: string | null;
 }
 
+/**
+ * Frame rate shared by all of a source's video flows; null when there are none or they differ
+ */
+function sharedVideoFrameRate(flows: Source['flows']): EditRate | null {
+  const rates = (flows ?? [])
+    .filter(flow => flow.format === 'urn:x-nmos:format:video')
+    .map(flow => parseFrameRate(flow.essence_parameters?.frame_rate));
+  const [first] = rates;
+  if (!first) return null;
+  const same = (rate: EditRate | null) =>
+    !!rate && rate.numerator * (first.denominator ?? 1) === first.numerator * (rate.denominator ?? 1);
+  return rates.every(same) ? first : null;
+}
+
 export default function SourceDetails() {
   const { sourceId } = useParams<{ sourceId: string }>();
   const navigate = useNavigate();
+  // Requests are cancelled when the page unmounts
+  const getSignal = useAbortOnUnmount();
+  const { save, conflict, resolve, cancel } = useConflictResolution();
   const [source, setSource] = useState<Source | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'analytics' | 'configuration'>('overview');
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showReplicationModal, setShowReplicationModal] = useState(false);
   const [disabled, setDisabled] = useState(false);
   const [showInfoBox, setShowInfoBox] = useState(true); // State for collapsible info box
   
@@ -112,15 +144,22 @@ export default function SourceDetails() {
     }
   }, [activeTab, source]);
 
-  const loadSource = async () => {
+  // Pick up this source when it is revalidated in the background or changed elsewhere
+  useEntityCacheUpdates(['source'], () => loadSource(true), sourceId);
+
+  // A background reload keeps the current view on screen and shows no loader
+  const loadSource = async (background: boolean = false) => {
     if (!sourceId) return;
     
-    setLoading(true);
+    if (!background) {
+      setLoading(true);
+    }
     setError(null);
     
     try {
       console.log('Fetching source details from TAMS API for ID:', sourceId);
-      const sourceData = await apiClient.getSource(sourceId);
+      // VAST TAMS includes the source's flows in the source details
+      const sourceData = await apiClient.getSource(sourceId, { signal: getSignal() }) as Source;
       console.log('TAMS source details response:', sourceData);
       
       // Log flows to debug
@@ -140,6 +179,7 @@ export default function SourceDetails() {
             // Fallback: Try to get flows by source_id to find the IDs
             const flowsResponse = await apiClient.getFlows({ 
               source_id: sourceId,
+              signal: getSignal(),
             } as any);
             
             if (flowsResponse?.data && Array.isArray(flowsResponse.data)) {
@@ -172,6 +212,7 @@ export default function SourceDetails() {
               setFlowsWithIds(flowIdMap);
             }
           } catch (err) {
+            if (isAbortError(err)) throw err;
             console.warn('Could not fetch flows to get IDs (fallback failed):', err);
             // Continue without IDs - buttons will be disabled
             // This should be rare since backend now provides flow IDs correctly
@@ -181,20 +222,13 @@ export default function SourceDetails() {
       
       setSource(sourceData);
     } catch (err: any) {
-      console.error('TAMS source details API error:', err);
-      
-      // Set appropriate error message based on error type
-      if (err?.message?.includes('500') || err?.message?.includes('Internal Server Error')) {
-        setError('TAMS backend temporarily unavailable - please try again later');
-      } else if (err?.message?.includes('Network') || err?.message?.includes('fetch') || err?.message?.includes('CORS')) {
-        setError('Network connection issue - please check your connection and try again');
-      } else if (err?.message?.includes('404')) {
-        setError('Source not found - please check the source ID and try again');
-      } else {
-        // Use error message directly if it already contains "TAMS API error", otherwise prefix it
-        const errorMsg = err?.message || 'Unknown error';
-        setError(errorMsg.includes('TAMS API error') ? errorMsg : `TAMS API error: ${errorMsg}`);
+      if (isAbortError(err)) return;
+      // A failed background refresh keeps the current view; the next change retries it
+      if (background) {
+        return;
       }
+      console.error('TAMS source details API error:', err);
+      setError(withErrorContext(err));
       
       // Clear source on error
       setSource(null);
@@ -235,6 +269,59 @@ export default function SourceDetails() {
     }
   };
 
+  /**
+   * Label and description the editors change, with empty values treated as unset
+   */
+  const editableFields = (value: { label?: string | undefined; description?: string | undefined } | null): FieldValues => ({
+    label: value?.label || undefined,
+    description: value?.description || undefined
+  });
+
+  /**
+   * Current label or description on the backend, read from the field's own resource so its
+   * ETag is known for the write; a missing field reads as unset
+   */
+  const readSourceField = async (field: 'label' | 'description'): Promise<string | undefined> => {
+    try {
+      return field === 'label'
+        ? (await apiClient.getSourceLabel(sourceId!)).label
+        : (await apiClient.getSourceDescription(sourceId!)).description;
+    } catch (err) {
+      if (err instanceof NotFoundError) return undefined;
+      throw err;
+    }
+  };
+
+  /**
+   * Apply `changes` to the label/description as loaded, unless another operator changed the
+   * same field meanwhile; then the conflict dialog opens and the save resumes from there
+   */
+  const saveSourceFields = (changes: FieldValues): Promise<boolean> => {
+    const original = editableFields(source);
+    return save({
+      original,
+      yours: applyChanges(original, changes),
+      loadTheirs: async () => editableFields({
+        label: await readSourceField('label'),
+        description: await readSourceField('description')
+      }),
+      write: async (fieldChanges: FieldValues) => {
+        for (const [field, value] of Object.entries(fieldChanges)) {
+          const options = conditionalOptions(apiClient.getBackend().id, `/sources/${sourceId}/${field}`);
+          if (field === 'label') {
+            await (value === undefined
+              ? apiClient.deleteSourceLabel(sourceId!, options)
+              : apiClient.setSourceLabel(sourceId!, String(value), options));
+          } else if (field === 'description') {
+            await (value === undefined
+              ? apiClient.deleteSourceDescription(sourceId!, options)
+              : apiClient.setSourceDescription(sourceId!, String(value), options));
+          }
+        }
+      }
+    }, () => loadSource());
+  };
+
   const handleUpdateDescription = async () => {
     if (!sourceId) return;
     
@@ -242,15 +329,8 @@ export default function SourceDetails() {
     setConfigError(null);
     
     try {
-      if (editingDescription.trim()) {
-        await apiClient.setSourceDescription(sourceId, editingDescription.trim());
-      } else {
-        // If empty, delete the description
-        await apiClient.deleteSourceDescription(sourceId);
-      }
-      
-      // Reload source data to reflect changes
-      await loadSource();
+      // If empty, delete the description; saving reloads the source, or hands over to the conflict dialog
+      await saveSourceFields({ description: editingDescription.trim() || undefined });
       
       // Close modal
       setShowDescriptionModal(false);
@@ -270,10 +350,8 @@ export default function SourceDetails() {
     setConfigError(null);
     
     try {
-      await apiClient.deleteSourceDescription(sourceId);
-      
-      // Reload source data to reflect changes
-      await loadSource();
+      // Saving reloads the source, or hands over to the conflict dialog
+      await saveSourceFields({ description: undefined });
       
       // Close modal if open
       setShowDescriptionModal(false);
@@ -293,10 +371,8 @@ export default function SourceDetails() {
     setConfigError(null);
     
     try {
-      await apiClient.setSourceLabel(sourceId, editingLabel.trim());
-      
-      // Reload source data to reflect changes
-      await loadSource();
+      // Saving reloads the source, or hands over to the conflict dialog
+      await saveSourceFields({ label: editingLabel.trim() });
       
       // Close modal
       setShowLabelModal(false);
@@ -318,7 +394,7 @@ export default function SourceDetails() {
       navigate('/sources');
     } catch (err) {
       console.error('Failed to delete source:', err);
-      setError('Failed to delete source');
+      setError(withErrorContext(err, 'Failed to delete source'));
     } finally {
       setLoading(false);
       setShowDeleteModal(false);
@@ -461,7 +537,7 @@ export default function SourceDetails() {
           <Button
             variant="subtle"
             leftSection={<IconRefresh size={16} />}
-            onClick={loadSource}
+            onClick={() => loadSource()}
             loading={loading}
             styles={{
               root: {
@@ -495,6 +571,24 @@ export default function SourceDetails() {
           >
             Edit
           </Button>
+          <Button
+            variant="subtle"
+            leftSection={<IconCopy size={16} />}
+            onClick={() => setShowReplicationModal(true)}
+            styles={{
+              root: {
+                backgroundColor: 'transparent',
+                border: '1px solid #333333',
+                color: '#b3b3b3',
+                '&:hover': {
+                  backgroundColor: '#1a1a1a',
+                  borderColor: '#404040',
+                },
+              },
+            }}
+          >
+            Replicate
+          </Button>
           <Button
             variant="subtle"
             color="red"
@@ -519,16 +613,7 @@ export default function SourceDetails() {
 
       {/* Error Alert */}
       {error && (
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="TAMS Connection Error"
-          withCloseButton
-          onClose={() => setError(null)}
-          mb="lg"
-        >
-          {error}
-        </Alert>
+        <ErrorPresenter error={error} onClose={() => setError(null)} mb="lg" />
       )}
 
       {/* VAST TAMS Info - Toggleable */}
@@ -1187,6 +1272,14 @@ export default function SourceDetails() {
         defaultDeletedBy="admin"
       />
 
+      <ReplicationModal
+        opened={showReplicationModal}
+        onClose={() => setShowReplicationModal(false)}
+        sourceId={source.id}
+        {...(source.label ? { sourceLabel: source.label } : {})}
+        frameRate={sharedVideoFrameRate(source.flows)}
+      />
+
       {/* Edit Label Modal */}
       <Modal
         opened={showLabelModal}
@@ -1379,6 +1472,14 @@ export default function SourceDetails() {
           </Group>
         </Stack>
       </Modal>
+
+      <ConflictResolutionModal
+        conflict={conflict}
+        onResolve={resolve}
+        onCancel={cancel}
+        itemName="source"
+        fieldLabel={field => (field === 'label' ? 'Label' : 'Description')}
+      />
     </Container>
   );
 }
@@ -45,7 +45,8 @@ import {
   IconActivity,
   IconInfoCircle,
   IconArrowLeft,
-  IconCheck
+  IconCheck,
+  IconArrowsDiff
 } from '@tabler/icons-react';
 import AdvancedFilter, { FilterOption, FilterState, FilterPreset } from '../components/AdvancedFilter';
 import { useFilterPersistence } from '../hooks/useFilterPersistence';
@@ -58,6 +59,17 @@ import {
   formatValidationErrors 
 } from '../utils/enhancedValidation';
 import { apiClient, BBCApiOptions, BBCApiResponse, BBCPaginationMeta } from '../services/api';
+import type { SourceInput } from '../types/tams';
+import { isAbortError } from '../services/http';
+import { errorMessage, withErrorContext } from '../services/errors';
+import { useAbortOnUnmount } from '../hooks/useAbortOnUnmount';
+import { useEntityCacheUpdates } from '../hooks/useEntityCacheUpdates';
+import { useBackend } from '../contexts/BackendContext';
+import { listFederatedSources } from '../services/federation';
+import { BackendBadge } from '../components/BackendBadge';
+import { FederatedBackendPicker } from '../components/FederatedBackendPicker';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { StoreComparisonModal } from '../components/StoreComparisonModal';
 
 // Enhanced Source interface
 interface Source {
@@ -76,6 +88,8 @@ interface Source {
   deleted?: boolean;
   deleted_at?: string | null;
   deleted_by?: string | null;
+  // Backend the source was listed from, in federated mode
+  backendId?: string;
 }
 
 // TAMS Sources - fetched from real backend API
@@ -113,9 +127,15 @@ const getFormatLabel = (format: string) => {
 export default function Sources() {
   const navigate = useNavigate();
   const location = useLocation();
+  // Requests are cancelled when the page unmounts
+  const getSignal = useAbortOnUnmount();
+  const { currentBackend, federatedBackends, switchBackend } = useBackend();
+  const federated = federatedBackends.length > 1;
+  const [federationErrors, setFederationErrors] = useState<Record<string, string>>({});
+  const [showComparison, setShowComparison] = useState(false);
   const [sources, setSources] = useState<Source[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
   const [selectedSource, setSelectedSource] = useState<Source | null>(null);
   const [selectedSourceId, setSelectedSourceId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -255,9 +275,12 @@ export default function Sources() {
   });
 
   // Fetch sources using TAMS API
-  const fetchSourcesTams = async (cursor?: string) => {
+  // A background refresh (after the cache revalidated) keeps the current page and shows no loader
+  const fetchSourcesTams = async (cursor?: string, background: boolean = false) => {
     try {
-      setLoading(true);
+      if (!background) {
+        setLoading(true);
+      }
       setError(null);
       
       const options: BBCApiOptions = {
@@ -267,6 +290,7 @@ export default function Sources() {
         // limit: 10, // Commented out until backend fixes query parameter validation
         // Note: show_deleted is not a valid query parameter for the API (schema rejects additionalProperties)
         // Filtering deleted sources will be handled client-side if needed
+        signal: getSignal(),
       };
       
       if (cursor) {
@@ -292,6 +316,20 @@ export default function Sources() {
         options.tags = { ...(options.tags || {}), year: filters.year };
       }
 
+      if (federated) {
+        // Every backend is listed in full; the table pages through them client-side
+        const result = await listFederatedSources(federatedBackends, options);
+        setSources(result.items as Source[]);
+        setFederationErrors(result.errors);
+        setBbcPagination({ count: result.items.length });
+        setCurrentCursor(null);
+        if (!background) {
+          setActivePage(1);
+        }
+        return;
+      }
+      setFederationErrors({});
+
       console.log('Fetching sources from TAMS API with options:', options);
       const response = await apiClient.getSources(options);
       console.log('TAMS API response:', response);
@@ -304,7 +342,7 @@ export default function Sources() {
       
       if (response && response.data && Array.isArray(response.data)) {
         // Normalized BBC TAMS format
-        sourcesData = response.data;
+        sourcesData = response.data as Source[];
         paginationData = response.pagination || {};
       } else {
         const responseAny = response as any;
@@ -330,40 +368,17 @@ export default function Sources() {
       setCurrentCursor(cursor || null);
       setError(null);
       // Reset to first page when sources change
-      setActivePage(1);
-    } catch (err: any) {
-      console.error('TAMS API error:', err);
-      console.error('Error details:', {
-        message: err?.message,
-        stack: err?.stack,
-        response: err?.response,
-        name: err?.name
-      });
-      
-      // Set appropriate error message based on error type
-      let errorMessage = 'Unknown error';
-      
-      if (err?.message) {
-        errorMessage = err.message;
-      } else if (err?.response) {
-        errorMessage = `HTTP ${err.response.status}: ${err.response.statusText || 'Error'}`;
-      } else if (err?.name === 'TypeError' && err?.message?.includes('fetch')) {
-        errorMessage = 'Network error: Could not connect to API. Is the backend running?';
-      } else if (err?.name === 'AbortError') {
-        errorMessage = 'Request timeout - please try again';
+      if (!background) {
+        setActivePage(1);
       }
-      
-      // Set appropriate error message based on error type
-      if (errorMessage.includes('500') || errorMessage.includes('Internal Server Error')) {
-        setError('TAMS backend temporarily unavailable - please try again later');
-      } else if (errorMessage.includes('Network') || errorMessage.includes('fetch') || errorMessage.includes('CORS') || errorMessage.includes('Could not connect')) {
-        setError('Network connection issue - please check your connection and try again. Make sure the TAMS API is running on http://localhost:3000');
-      } else if (errorMessage.includes('404')) {
-        setError('TAMS API endpoint not found - please check backend configuration');
-      } else {
-        // Use error message directly
-        setError(errorMessage.includes('TAMS API error') ? errorMessage : `TAMS API error: ${errorMessage}`);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      if (background) {
+        console.warn('Background sources refresh failed, keeping current list:', err);
+        return;
       }
+      console.error('TAMS API error:', err);
+      setError(withErrorContext(err));
       
       // Clear sources on error
       setSources([]);
@@ -380,8 +395,23 @@ export default function Sources() {
       console.log('Sources component: Fetching sources, location:', location.pathname);
       fetchSourcesTams();
     }
-  }, [location.pathname, showDeleted, filters]);
+  }, [location.pathname, showDeleted, filters, federatedBackends]);
+
+  // Pick up sources revalidated in the background or changed on other pages
+  useEntityCacheUpdates(['source'], () => fetchSourcesTams(currentCursor ?? undefined, true));
+
 
+  // Sources listed from another backend open after switching to it
+  const openSource = async (source: Source) => {
+    if (source.backendId && source.backendId !== currentBackend.id) {
+      try {
+        await switchBackend(source.backendId);
+      } catch {
+        return;
+      }
+    }
+    navigate(`/source-details/${source.id}`);
+  };
 
   const handleCreateSource = async (newSource: Omit<Source, 'id' | 'created' | 'updated'>) => {
     try {
@@ -395,15 +425,14 @@ export default function Sources() {
         ...newSource
       };
       
-      const response = await apiClient.createSource(sourceId, sourceData);
+      const response = await apiClient.createSource(sourceId, sourceData as Partial<SourceInput>);
       
       // Refresh the sources list to get the new source
       await fetchSourcesTams();
       setShowCreateModal(false);
       setError(null);
-    } catch (err: any) {
-      const errorMsg = err?.message || 'Failed to create source';
-      setError(errorMsg);
+    } catch (err) {
+      setError(withErrorContext(err, 'Failed to create source'));
       console.error('Create source error:', err);
     } finally {
       setLoading(false);
@@ -429,6 +458,15 @@ export default function Sources() {
             </Text>
           </Box>
         <Group>
+          <FederatedBackendPicker />
+          <Button
+            variant="light"
+            leftSection={<IconArrowsDiff size={16} />}
+            onClick={() => setShowComparison(true)}
+            className="dark-button"
+          >
+            Compare Stores
+          </Button>
           <Button
             variant="light"
             leftSection={<IconRefresh size={16} />}
@@ -453,15 +491,27 @@ export default function Sources() {
 
       {/* Error Alert */}
       {error && (
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="TAMS Connection Error"
+        <ErrorPresenter error={error} onClose={() => setError(null)} mb="md" />
+      )}
+
+      {/* Federated backends that could not be listed */}
+      {federated && Object.keys(federationErrors).length > 0 && (
+        <Alert
+          icon={<IconAlertCircle size={16} />}
+          color="yellow"
+          title="Some backends could not be listed"
           withCloseButton
-          onClose={() => setError(null)}
+          onClose={() => setFederationErrors({})}
           mb="md"
         >
-          {error}
+          <Stack gap={4}>
+            {Object.entries(federationErrors).map(([backendId, message]) => (
+              <Group key={backendId} gap="xs">
+                <BackendBadge backendId={backendId} />
+                <Text size="sm">{message}</Text>
+              </Group>
+            ))}
+          </Stack>
         </Alert>
       )}
 
@@ -584,7 +634,7 @@ export default function Sources() {
             ) : error ? (
               <Table.Tr>
                 <Table.Td colSpan={8} ta="center" c="red">
-                  {error}
+                  {errorMessage(error)}
                 </Table.Td>
               </Table.Tr>
             ) : paginatedSources.length === 0 ? (
@@ -600,16 +650,17 @@ export default function Sources() {
               </Table.Tr>
             ) : (
               paginatedSources.map((source) => {
-                const isSelected = selectedSourceId === source.id;
+                const rowKey = source.backendId ? `${source.backendId}:${source.id}` : source.id;
+                const isSelected = selectedSourceId === rowKey;
                 return (
                   <Table.Tr 
-                    key={source.id}
+                    key={rowKey}
                     style={{ 
                       opacity: source.deleted ? 0.6 : 1,
                       backgroundColor: isSelected ? '#1a1a1a' : 'transparent',
                       cursor: 'pointer',
                     }}
-                    onClick={() => setSelectedSourceId(isSelected ? null : source.id)}
+                    onClick={() => setSelectedSourceId(isSelected ? null : rowKey)}
                   >
                     <Table.Td>
                       {isSelected && (
@@ -625,7 +676,7 @@ export default function Sources() {
                           style={{ cursor: 'pointer' }}
                           onClick={(e) => {
                             e.stopPropagation();
-                            navigate(`/source-details/${source.id}`);
+                            openSource(source);
                           }}
                           onMouseEnter={(e) => {
                             e.currentTarget.style.textDecoration = 'underline';
@@ -636,6 +687,11 @@ export default function Sources() {
                         >
                           {source.label || 'Unnamed Source'}
                         </Text>
+                        {federated && source.backendId && (
+                          <Box mt={4}>
+                            <BackendBadge backendId={source.backendId} />
+                          </Box>
+                        )}
                         <Text size="xs" c="#b3b3b3" mt={4}>
                           {source.description || 'No description'}
                         </Text>
@@ -757,6 +813,12 @@ export default function Sources() {
 
 
 
+        <StoreComparisonModal
+          opened={showComparison}
+          onClose={() => setShowComparison(false)}
+          backendIds={federatedBackends.map(backend => backend.id)}
+        />
+
         {/* Create Source Modal */}
         <CreateSourceModal 
           opened={showCreateModal}
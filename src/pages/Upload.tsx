@@ -1,93 +1,81 @@
-import { useState, useEffect } from 'react';
-import { 
-  Container, 
-  Title, 
-  Text, 
-  Button, 
-  Stack, 
-  Card, 
-  Group, 
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Title,
+  Text,
+  Button,
+  Stack,
+  Card,
+  Group,
   Badge,
   Select,
   TextInput,
   FileInput,
+  NumberInput,
+  SegmentedControl,
   Progress,
   Alert,
   Box,
-  Divider,
   Table,
   ActionIcon,
-  Loader
+  Tooltip,
+  Loader,
+  Modal
 } from '@mantine/core';
-import { 
-  IconUpload, 
-  IconFile, 
-  IconPlayerPlay, 
-  IconTrash, 
+import {
+  IconUpload,
+  IconFile,
+  IconPlayerPlay,
+  IconTrash,
   IconAlertCircle,
   IconCheck,
   IconX,
-  IconRefresh
+  IconRefresh,
+  IconPlayerStop,
+  IconRotateClockwise,
+  IconFileImport
 } from '@tabler/icons-react';
 import { apiClient } from '../services/api';
+import { ingestManager, ingestProgress, planIngestSegments } from '../services/ingest';
+import { multipartUploads } from '../services/multipartUpload';
+import { ErrorPresenter } from '../components/ErrorPresenter';
+import { SegmentImporter } from '../components/SegmentImporter';
+import { withErrorContext } from '../services/errors';
+import type { IngestJob, IngestJobStatus } from '../types/backend';
+import type { Flow } from '../types/tams';
+import { formatTaiTimestamp, tryParseTimerange, type TaiTimestamp } from '../utils/timerange';
+import { currentTaiTimestamp } from '../utils/taiUtc';
+import {
+  codecMimeType,
+  flowFieldsFromProbe,
+  primaryTrack,
+  probeConflicts,
+  probeMedia,
+  type MediaProbe,
+  type ProbeTarget
+} from '../utils/mediaProbe';
 
-// Mock data for flows (will be replaced with real API calls)
-const dummyFlows = [
-  { id: '1', label: 'BBC News Studio Feed', format: 'Video', source: 'BBC News Studio' },
-  { id: '2', label: 'Radio Studio A', format: 'Audio', source: 'Radio Studio A' },
-  { id: '3', label: 'Sports Arena Camera', format: 'Video', source: 'Sports Arena Camera' },
-  { id: '4', label: 'Photo Studio Feed', format: 'Image', source: 'Photo Studio' }
-];
-
-// Mock upload history
-const dummyUploadHistory = [
-  {
-    id: '1',
-    fileName: 'news_segment_001.mp4',
-    flowName: 'BBC News Studio Feed',
-    status: 'completed',
-    progress: 100,
-    uploadedAt: '2025-01-25T10:30:00Z',
-    size: '15.2 MB'
-  },
-  {
-    id: '2',
-    fileName: 'radio_segment_001.wav',
-    flowName: 'Radio Studio A',
-    status: 'uploading',
-    progress: 65,
-    uploadedAt: '2025-01-25T10:25:00Z',
-    size: '8.7 MB'
-  },
-  {
-    id: '3',
-    fileName: 'sports_segment_001.mp4',
-    flowName: 'Sports Arena Camera',
-    status: 'failed',
-    progress: 0,
-    uploadedAt: '2025-01-25T10:20:00Z',
-    size: '45.1 MB'
-  }
-];
-
-const getStatusColor = (status: string) => {
+const getStatusColor = (status: IngestJobStatus) => {
   switch (status) {
     case 'completed':
       return 'green';
-    case 'uploading':
+    case 'running':
       return 'blue';
     case 'failed':
       return 'red';
+    case 'cancelled':
+      return 'yellow';
     default:
       return 'gray';
   }
 };
 
-const getStatusIcon = (status: string) => {
+const getStatusIcon = (status: IngestJobStatus) => {
   switch (status) {
     case 'completed':
       return <IconCheck size={16} />;
-    case 'uploading':
+    case 'running':
       return <IconUpload size={16} />;
     case 'failed':
       return <IconX size={16} />;
@@ -96,36 +84,83 @@ const getStatusIcon = (status: string) => {
   }
 };
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * Duration of an audio or video file as the browser reads it, or null when it cannot
+ */
+const readMediaDuration = (file: File): Promise<number | null> => new Promise(resolve => {
+  const element = document.createElement(file.type.startsWith('audio/') ? 'audio' : 'video');
+  const url = URL.createObjectURL(file);
+  const finish = (duration: number | null) => {
+    URL.revokeObjectURL(url);
+    resolve(duration);
+  };
+  element.preload = 'metadata';
+  element.onloadedmetadata = () => finish(Number.isFinite(element.duration) && element.duration > 0 ? element.duration : null);
+  element.onerror = () => finish(null);
+  element.src = url;
+});
+
 export default function Upload() {
+  const navigate = useNavigate();
   const [selectedSource, setSelectedSource] = useState<string | null>(null);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [uploadHistory, setUploadHistory] = useState<any[]>([]);
+  const [uploadError, setUploadError] = useState<string | Error | null>(null);
+  const [jobs, setJobs] = useState<IngestJob[]>(ingestManager.list());
   const [sources, setSources] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
+  const [error, setError] = useState<string | Error | null>(null);
+
+  // Target flow: a new one described below, or an existing flow of the source
+  const [target, setTarget] = useState<'new' | 'existing'>('new');
+  const [flows, setFlows] = useState<Flow[]>([]);
+  const [selectedFlow, setSelectedFlow] = useState<string | null>(null);
+
+  // Import of already-segmented media (HLS, DASH or chunk files); null while closed
+  const [importTarget, setImportTarget] = useState<{
+    flowId: string;
+    flow?: Record<string, unknown>;
+    start: TaiTimestamp;
+  } | null>(null);
+
   // New form state variables
   const [flowLabel, setFlowLabel] = useState('');
   const [flowDescription, setFlowDescription] = useState('');
   const [contentFormat, setContentFormat] = useState<string | null>(null);
   const [codec, setCodec] = useState('');
 
+  // Segmenting
+  const [durationSeconds, setDurationSeconds] = useState<number | ''>('');
+  const [segmentSeconds, setSegmentSeconds] = useState<number>(10);
+  const [detectingDuration, setDetectingDuration] = useState(false);
+  // What the file says about itself, where its container can be read
+  const [probe, setProbe] = useState<MediaProbe | null>(null);
+
+  // Ingest history lives in IndexedDB and survives reloads
+  useEffect(() => {
+    ingestManager.ready.then(() => setJobs(ingestManager.list()));
+    return ingestManager.subscribe(setJobs);
+  }, []);
+
   // Fetch sources from API
   useEffect(() => {
     const fetchSources = async () => {
       try {
         setLoading(true);
         setError(null);
-        
+
         const sourcesResponse = await apiClient.getSources();
         setSources(sourcesResponse.data || []);
-        
+
       } catch (err: any) {
-        setError('Failed to fetch sources');
-        console.error(err);
+        setError(withErrorContext(err, 'Failed to fetch sources'));
       } finally {
         setLoading(false);
       }
@@ -134,164 +169,281 @@ export default function Upload() {
     fetchSources();
   }, []);
 
+  // Flows of the selected source, for ingesting into an existing flow
+  useEffect(() => {
+    setSelectedFlow(null);
+    if (!selectedSource) {
+      setFlows([]);
+      return;
+    }
+    apiClient.getFlows({ custom: { source_id: selectedSource }, limit: 100 })
+      .then(response => setFlows((response.data || []).filter((flow: Flow) => flow.source_id === selectedSource)))
+      .catch(err => {
+        setError(withErrorContext(err, 'Failed to fetch the flows of the source'));
+        setFlows([]);
+      });
+  }, [selectedSource]);
+
   const refreshSources = async () => {
     try {
       setLoading(true);
       setError(null);
-      
+
       const sourcesResponse = await apiClient.getSources();
       setSources(sourcesResponse.data || []);
-      
+
     } catch (err: any) {
-      setError('Failed to refresh sources');
-      console.error(err);
+      setError(withErrorContext(err, 'Failed to refresh sources'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleFileChange = async (file: File | null) => {
+    setUploadFile(file);
+    setDurationSeconds('');
+    setProbe(null);
+    if (!file) return;
+    setDetectingDuration(true);
+    const probed = await probeMedia(file);
+    const duration = probed?.durationSeconds ?? await readMediaDuration(file);
+    setDetectingDuration(false);
+    setProbe(probed);
+    if (duration !== null) {
+      setDurationSeconds(Math.round(duration * 1000) / 1000);
+    }
+
+    // Describe a new flow from the file unless the user already has
+    const track = probed ? primaryTrack(probed) : undefined;
+    const mimeType = track ? codecMimeType(track.codec) : undefined;
+    if (track && mimeType) {
+      setCodec(current => current || mimeType);
+      setContentFormat(current => current ?? (track.kind === 'video' ? 'urn:x-nmos:format:video' : 'urn:x-nmos:format:audio'));
+    }
+  };
+
+  // Build the flow to create from the form, with the essence the file was probed to have
+  const buildFlow = (): Record<string, unknown> => {
+    const track = probe ? primaryTrack(probe) : undefined;
+    const probed = probe ? flowFieldsFromProbe(probe) : {};
+    const probedMatches = probed.format === contentFormat;
+    let flowData: Record<string, unknown> = {
+      source_id: selectedSource,
+      format: contentFormat,
+      codec: codec,
+      label: flowLabel,
+      ...(flowDescription ? { description: flowDescription } : {}),
+      ...(probe ? { container: probe.mimeType } : {}),
+      ...(probedMatches
+        ? { essence_parameters: probed.essence_parameters, codec_parameters: probed.codec_parameters }
+        : {}),
+      created_by: 'admin'
+    };
+
+    // Add format-specific fields
+    if (contentFormat === "urn:x-nmos:format:video") {
+      const frameRate = probedMatches ? track?.frameRate : undefined;
+      flowData = {
+        ...flowData,
+        frame_width: (probedMatches && track?.width) || 1920,
+        frame_height: (probedMatches && track?.height) || 1080,
+        frame_rate: frameRate ? `${frameRate.numerator}/${frameRate.denominator ?? 1}` : "25/1",
+        interlace_mode: "progressive",
+        color_sampling: "4:2:2",
+        color_space: "BT709",
+        transfer_characteristics: "BT709",
+        color_primaries: "BT709"
+      };
+    } else if (contentFormat === "urn:x-nmos:format:audio") {
+      flowData = {
+        ...flowData,
+        sample_rate: (probedMatches && track?.sampleRate) || 48000,
+        bits_per_sample: 16,
+        channels: (probedMatches && track?.channels) || 2
+      };
+    }
+    return flowData;
+  };
+
+  // The flow the file goes into, as far as the form knows it
+  const targetFlow: ProbeTarget | undefined = target === 'existing'
+    ? flows.find(flow => flow.id === selectedFlow)
+    : contentFormat ? { format: contentFormat, ...(codec ? { codec } : {}) } : undefined;
+  const conflicts = probe && targetFlow ? probeConflicts(probe, targetFlow) : [];
+
+  // The flow is described well enough to import already-segmented media into it
+  const flowComplete = Boolean(
+    selectedSource &&
+    (target === 'existing' ? selectedFlow : flowLabel && contentFormat && codec)
+  );
+
+  const formComplete = Boolean(
+    selectedSource &&
+    uploadFile &&
+    durationSeconds &&
+    (!probe?.cuts || segmentSeconds > 0) &&
+    (target === 'existing' ? selectedFlow : flowLabel && contentFormat && codec)
+  );
+
   const handleUpload = async () => {
-    if (!selectedSource || !flowLabel || !contentFormat || !codec) {
+    if (!formComplete || !uploadFile || !durationSeconds) {
       setUploadError('Please fill in all required fields');
       return;
     }
 
     setIsUploading(true);
     setUploadError(null);
-    setUploadProgress(0);
 
     try {
-      // Create a flow object based on the selected format
-      let flowData: any = {
-        id: `flow_${Date.now()}`,
-        source_id: selectedSource,
-        format: contentFormat,
-        codec: codec,
-        label: flowLabel,
-        description: flowDescription || undefined,
-        created_by: 'admin',
-        created: new Date().toISOString(),
-        updated: new Date().toISOString()
-      };
+      // Appending to an existing flow continues from the end of its timerange
+      const existing = target === 'existing' ? flows.find(flow => flow.id === selectedFlow) : undefined;
+      const flowEnd = tryParseTimerange(existing?.timerange)?.end ?? null;
+      const job = await ingestManager.start({
+        backendId: apiClient.getBackend().id,
+        flowId: existing ? existing.id : crypto.randomUUID(),
+        ...(existing ? {} : { flow: buildFlow() }),
+        durationSeconds,
+        ...(probe?.cuts ? { segmentSeconds } : {}),
+        start: formatTaiTimestamp(flowEnd ?? currentTaiTimestamp())
+      }, uploadFile, probe?.cuts);
 
-      // Add format-specific fields
-      if (contentFormat === "urn:x-nmos:format:video") {
-        flowData = {
-          ...flowData,
-          frame_width: 1920,
-          frame_height: 1080,
-          frame_rate: "25/1",
-          interlace_mode: "progressive",
-          color_sampling: "4:2:2",
-          color_space: "BT709",
-          transfer_characteristics: "BT709",
-          color_primaries: "BT709"
-        };
-      } else if (contentFormat === "urn:x-nmos:format:audio") {
-        flowData = {
-          ...flowData,
-          sample_rate: 48000,
-          bits_per_sample: 16,
-          channels: 2
-        };
+      if (job.status === 'failed') {
+        setUploadError(job.error ?? 'Ingest failed');
+      } else {
+        // Reset form
+        setUploadFile(null);
+        setProbe(null);
+        setDurationSeconds('');
+        setFlowLabel('');
+        setFlowDescription('');
+        setContentFormat(null);
+        setCodec('');
+        setSelectedFlow(null);
       }
-
-      // Create the flow using the API
-      // Extract flowId from flowData and pass it as first argument
-      const flowId = flowData.id;
-      const flowPayload = { ...flowData };
-      delete flowPayload.id; // Remove id from payload as it's in the URL
-      const response = await apiClient.createFlow(flowId, flowPayload);
-      
-      // Update progress to 100%
-      setUploadProgress(100);
-      
-      // Add to upload history
-      const newUpload = {
-        id: Date.now().toString(),
-        fileName: flowLabel,
-        flowName: `Created Flow: ${flowLabel}`,
-        status: 'completed',
-        progress: 100,
-        uploadedAt: new Date().toISOString(),
-        size: `${contentFormat} - ${codec}`
-      };
-      setUploadHistory([newUpload, ...uploadHistory]);
-      
-      // Reset form
-      setUploadFile(null);
-      setSelectedSource(null);
-      setFlowLabel('');
-      setFlowDescription('');
-      setContentFormat(null);
-      setCodec('');
-      
     } catch (err: any) {
-      setUploadError('Flow creation failed. Please try again.');
-      console.error('Flow creation error:', err);
-      setUploadProgress(0);
+      setUploadError(withErrorContext(err, 'Ingest failed'));
     } finally {
       setIsUploading(false);
     }
   };
 
-  const handleDeleteUpload = (uploadId: string) => {
-    setUploadHistory(uploadHistory.filter(upload => upload.id !== uploadId));
+  const handleImportOpen = () => {
+    // Like an ingest, the import appends to an existing flow or starts a new one now
+    const existing = target === 'existing' ? flows.find(flow => flow.id === selectedFlow) : undefined;
+    const flowEnd = tryParseTimerange(existing?.timerange)?.end ?? null;
+    setImportTarget({
+      flowId: existing ? existing.id : crypto.randomUUID(),
+      ...(existing ? {} : { flow: buildFlow() }),
+      start: flowEnd ?? currentTaiTimestamp()
+    });
+  };
+
+  const handleResume = async (jobId: string) => {
+    setUploadError(null);
+    try {
+      const job = await ingestManager.run(jobId);
+      if (job.status === 'failed') setUploadError(job.error ?? 'Ingest failed');
+    } catch (err) {
+      setUploadError(withErrorContext(err, 'Could not resume the ingest'));
+    }
+  };
+
+  const handleDeleteUpload = (jobId: string) => {
+    ingestManager.remove(jobId).catch(err => setUploadError(withErrorContext(err, 'Could not remove the ingest')));
   };
 
-  const rows = uploadHistory.map((upload) => (
-    <Table.Tr key={upload.id}>
-      <Table.Td>
-        <Box>
-          <Group gap="xs" mb={4}>
-            {getStatusIcon(upload.status)}
-            <Text fw={600}>
-              {upload.fileName}
+  // Only MPEG-TS files are cut, at the keyframes the probe found
+  const segmentCount = useMemo(() => {
+    if (!probe?.cuts || !(segmentSeconds > 0)) return 0;
+    return planIngestSegments(uploadFile?.size ?? 0, 0, 0n, { cuts: probe.cuts, segmentSeconds }).length;
+  }, [probe, segmentSeconds, uploadFile]);
+
+  const rows = jobs.map((job) => {
+    const registered = job.segments.filter(segment => segment.status === 'registered').length;
+    const resumable = job.status === 'failed' || job.status === 'cancelled';
+    return (
+      <Table.Tr key={job.id}>
+        <Table.Td>
+          <Box>
+            <Group gap="xs" mb={4}>
+              {getStatusIcon(job.status)}
+              <Text fw={600}>
+                {job.fileName}
+              </Text>
+            </Group>
+            <Text size="xs" c="dimmed">
+              {job.flowLabel ? `Flow: ${job.flowLabel}` : `Flow ${job.flowId}`}
             </Text>
-          </Group>
-          <Text size="xs" c="dimmed">
-            {upload.flowName}
+          </Box>
+        </Table.Td>
+
+        <Table.Td>
+          <Text size="sm">{formatBytes(job.fileSize)}</Text>
+          <Text size="xs" c="dimmed">{registered} / {job.segments.length} segments</Text>
+          {job.singlePut && (
+            <Tooltip label="The backend does not support multipart uploads, so large segments cannot resume part-way" multiline w={300}>
+              <Text size="xs" c="yellow.8">Uploaded with a single PUT</Text>
+            </Tooltip>
+          )}
+        </Table.Td>
+
+        <Table.Td>
+          <Tooltip label={job.error} disabled={!job.error} multiline w={300}>
+            <Badge color={getStatusColor(job.status)} variant="light">
+              {job.status}
+            </Badge>
+          </Tooltip>
+          <Progress value={ingestProgress(job)} size="xs" mt={4} color={getStatusColor(job.status)} />
+        </Table.Td>
+
+        <Table.Td>
+          <Text size="xs">
+            {new Date(job.createdAt).toLocaleString()}
           </Text>
-        </Box>
-      </Table.Td>
-      
-      <Table.Td>
-        <Text size="sm">{upload.size}</Text>
-      </Table.Td>
-      
-      <Table.Td>
-        <Badge color={getStatusColor(upload.status)} variant="light">
-          {upload.status}
-        </Badge>
-      </Table.Td>
-      
-      <Table.Td>
-        <Text size="xs">
-          {new Date(upload.uploadedAt).toLocaleString()}
-        </Text>
-      </Table.Td>
-      
-      <Table.Td>
-        <Group gap="xs">
-          <ActionIcon 
-            size="sm" 
-            variant="subtle"
-            color="blue"
-          >
-            <IconPlayerPlay size={16} />
-          </ActionIcon>
-          <ActionIcon 
-            size="sm" 
-            variant="subtle" 
-            color="red"
-            onClick={() => handleDeleteUpload(upload.id)}
-          >
-            <IconTrash size={16} />
-          </ActionIcon>
-        </Group>
-      </Table.Td>
-    </Table.Tr>
-  ));
+        </Table.Td>
+
+        <Table.Td>
+          <Group gap="xs">
+            <Tooltip label="Open flow">
+              <ActionIcon
+                size="sm"
+                variant="subtle"
+                color="blue"
+                onClick={() => navigate(`/flow-details/${job.flowId}`)}
+                disabled={!job.flowCreated}
+              >
+                <IconPlayerPlay size={16} />
+              </ActionIcon>
+            </Tooltip>
+            {job.status === 'running' && (
+              <Tooltip label="Stop">
+                <ActionIcon size="sm" variant="subtle" color="yellow" onClick={() => ingestManager.cancel(job.id)}>
+                  <IconPlayerStop size={16} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+            {resumable && (
+              <Tooltip label="Resume">
+                <ActionIcon size="sm" variant="subtle" color="blue" onClick={() => handleResume(job.id)}>
+                  <IconRotateClockwise size={16} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+            <Tooltip label="Remove from history">
+              <ActionIcon
+                size="sm"
+                variant="subtle"
+                color="red"
+                onClick={() => handleDeleteUpload(job.id)}
+              >
+                <IconTrash size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </Group>
+        </Table.Td>
+      </Table.Tr>
+    );
+  });
 
   return (
     <Container size="xl" px="xl" py="xl">
@@ -299,10 +451,10 @@ export default function Upload() {
         <Group justify="space-between" align="flex-end">
           <Box>
             <Title order={2} mb="md">
-              Flow Creation
+              Media Ingest
             </Title>
             <Text size="lg" c="dimmed">
-              Create new media flows from your sources
+              Upload media into a new or existing flow as timed segments
             </Text>
           </Box>
           <Button
@@ -318,16 +470,7 @@ export default function Upload() {
 
       {/* Error Alert */}
       {error && (
-        <Alert 
-          icon={<IconAlertCircle size={16} />} 
-          color="red" 
-          title="Error"
-          withCloseButton
-          onClose={() => setError(null)}
-          mb="md"
-        >
-          {error}
-        </Alert>
+        <ErrorPresenter error={error} onClose={() => setError(null)} mb="md" />
       )}
 
       {/* Upload Form */}
@@ -344,9 +487,9 @@ export default function Upload() {
         <Card withBorder mb="lg">
           <Stack gap="md">
             <Title order={3} size="h4">
-              Create New Flow
+              Ingest Media
             </Title>
-            
+
             <Select
               label="Select Source"
               placeholder="Choose a source for the flow"
@@ -360,75 +503,144 @@ export default function Upload() {
               required
               disabled={loading}
             />
-            
-            <TextInput
-              label="Flow Label"
-              placeholder="Enter a descriptive label for the flow"
-              value={flowLabel}
-              onChange={(e) => setFlowLabel(e.target.value)}
-              required
-            />
-            
-            <TextInput
-              label="Flow Description"
-              placeholder="Optional description of the flow"
-              value={flowDescription}
-              onChange={(e) => setFlowDescription(e.target.value)}
-            />
-            
-            <Select
-              label="Content Format"
-              placeholder="Select the content format"
+
+            <SegmentedControl
+              value={target}
+              onChange={value => setTarget(value as 'new' | 'existing')}
               data={[
-                { value: "urn:x-nmos:format:video", label: "Video" },
-                { value: "urn:x-nmos:format:audio", label: "Audio" },
-                { value: "urn:x-tam:format:image", label: "Image" },
-                { value: "urn:x-nmos:format:data", label: "Data" },
-                { value: "urn:x-nmos:format:multi", label: "Multi" }
+                { value: 'new', label: 'New flow' },
+                { value: 'existing', label: 'Existing flow' }
               ]}
-              value={contentFormat}
-              onChange={setContentFormat}
-              required
-            />
-            
-            <TextInput
-              label="Codec (MIME Type)"
-              placeholder="e.g., video/mp4, audio/wav"
-              value={codec}
-              onChange={(e) => setCodec(e.target.value)}
-              required
             />
-            
+
+            {target === 'existing' ? (
+              <Select
+                label="Flow"
+                placeholder={selectedSource ? 'Choose a flow of the source' : 'Select a source first'}
+                description="Segments are appended after the end of the flow's timerange"
+                data={flows.map(flow => ({
+                  value: flow.id,
+                  label: `${flow.label || flow.id} (${flow.format ?? 'unknown format'})`
+                }))}
+                value={selectedFlow}
+                onChange={setSelectedFlow}
+                disabled={!selectedSource}
+                nothingFoundMessage="The source has no flows"
+                required
+              />
+            ) : (
+              <>
+                <TextInput
+                  label="Flow Label"
+                  placeholder="Enter a descriptive label for the flow"
+                  value={flowLabel}
+                  onChange={(e) => setFlowLabel(e.target.value)}
+                  required
+                />
+
+                <TextInput
+                  label="Flow Description"
+                  placeholder="Optional description of the flow"
+                  value={flowDescription}
+                  onChange={(e) => setFlowDescription(e.target.value)}
+                />
+
+                <Select
+                  label="Content Format"
+                  placeholder="Select the content format"
+                  data={[
+                    { value: "urn:x-nmos:format:video", label: "Video" },
+                    { value: "urn:x-nmos:format:audio", label: "Audio" },
+                    { value: "urn:x-tam:format:image", label: "Image" },
+                    { value: "urn:x-nmos:format:data", label: "Data" },
+                    { value: "urn:x-nmos:format:multi", label: "Multi" }
+                  ]}
+                  value={contentFormat}
+                  onChange={setContentFormat}
+                  required
+                />
+
+                <TextInput
+                  label="Codec (MIME Type)"
+                  placeholder="e.g., video/mp4, audio/wav"
+                  value={codec}
+                  onChange={(e) => setCodec(e.target.value)}
+                  required
+                />
+              </>
+            )}
+
             <FileInput
-              label="Media File (Optional)"
-              placeholder="Select media file for reference"
-              accept="video/*,audio/*,image/*"
+              label="Media File"
+              placeholder="Select the media file to ingest"
+              accept="video/*,audio/*,image/*,.ts,.m2ts"
               value={uploadFile}
-              onChange={setUploadFile}
+              onChange={handleFileChange}
               leftSection={<IconFile size={16} />}
+              required
             />
-            
-            {uploadError && (
-              <Alert icon={<IconAlertCircle size={16} />} color="red">
-                {uploadError}
+
+            <Group grow align="flex-start">
+              <NumberInput
+                label="Media duration (seconds)"
+                description={detectingDuration ? 'Reading the file...' : probe ? `Read from the ${probe.container === 'mpegts' ? 'MPEG-TS' : 'MP4'} file` : 'Read from the file where the browser can'}
+                value={durationSeconds}
+                onChange={value => setDurationSeconds(typeof value === 'number' ? value : '')}
+                min={0}
+                decimalScale={3}
+                required
+              />
+              {probe?.cuts ? (
+                <NumberInput
+                  label="Segment duration (seconds)"
+                  description={segmentCount > 0 ? `${segmentCount} segment${segmentCount === 1 ? '' : 's'}, cut at keyframes` : ' '}
+                  value={segmentSeconds}
+                  onChange={value => setSegmentSeconds(typeof value === 'number' ? value : 0)}
+                  min={0.1}
+                  decimalScale={3}
+                  required
+                />
+              ) : uploadFile && !detectingDuration && (
+                <Text size="sm" c="dimmed" mt="lg">
+                  Uploaded as one segment: only MPEG-TS files can be cut into segments without remuxing
+                </Text>
+              )}
+            </Group>
+
+            {conflicts.length > 0 && (
+              <Alert icon={<IconAlertCircle size={16} />} color="yellow" title="The file does not match the flow">
+                {conflicts.map(conflict => <Text key={conflict} size="sm">{conflict}</Text>)}
               </Alert>
             )}
-            
-            {isUploading && (
-              <Box>
-                <Text size="sm" mb="xs">Creating flow...</Text>
-                <Progress value={uploadProgress} size="md" />
-              </Box>
+
+            {uploadError && (
+              uploadError instanceof Error
+                ? <ErrorPresenter error={uploadError} onClose={() => setUploadError(null)} />
+                : (
+                  <Alert icon={<IconAlertCircle size={16} />} color="red">
+                    {uploadError}
+                  </Alert>
+                )
             )}
-            
-            <Button
-              leftSection={<IconUpload size={16} />}
-              onClick={handleUpload}
-              disabled={!selectedSource || !flowLabel || !contentFormat || !codec || isUploading}
-              loading={isUploading}
-            >
-              Create Flow
-            </Button>
+
+            <Group grow>
+              <Button
+                leftSection={<IconUpload size={16} />}
+                onClick={handleUpload}
+                disabled={!formComplete || isUploading}
+                loading={isUploading}
+              >
+                Start Ingest
+              </Button>
+              <Button
+                variant="light"
+                leftSection={<IconFileImport size={16} />}
+                onClick={handleImportOpen}
+                disabled={!flowComplete || isUploading}
+              >
+                Import HLS/DASH or Folder
+              </Button>
+            </Group>
           </Stack>
         </Card>
       )}
@@ -437,43 +649,55 @@ export default function Upload() {
       <Card withBorder>
         <Box mb="md">
           <Title order={3} size="h4">
-            Flow Creation History
+            Ingest History
           </Title>
           <Text size="sm" c="dimmed">
-            Recent flows created and their status
+            Ingests on this browser; interrupted ones can be resumed
           </Text>
         </Box>
-        
-        {loading ? (
+
+        {(!ingestManager.persisted || !multipartUploads.persisted) && (
+          <Alert icon={<IconAlertCircle size={16} />} color="yellow" mb="md">
+            Browser storage is unavailable: ingests cannot be resumed after a reload.
+          </Alert>
+        )}
+
+        <Table striped>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>File</Table.Th>
+              <Table.Th>Size</Table.Th>
+              <Table.Th>Status</Table.Th>
+              <Table.Th>Started</Table.Th>
+              <Table.Th>Actions</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {rows}
+          </Table.Tbody>
+        </Table>
+
+        {jobs.length === 0 && (
           <Box ta="center" py="xl">
-            <Loader size="sm" />
-            <Text mt="md" c="dimmed">Loading...</Text>
+            <Text c="dimmed">No uploads yet</Text>
           </Box>
-        ) : (
-          <>
-            <Table striped>
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th>Flow Name</Table.Th>
-                  <Table.Th>Format & Codec</Table.Th>
-                  <Table.Th>Status</Table.Th>
-                  <Table.Th>Created Date</Table.Th>
-                  <Table.Th>Actions</Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {rows}
-              </Table.Tbody>
-            </Table>
-            
-            {uploadHistory.length === 0 && (
-              <Box ta="center" py="xl">
-                <Text c="dimmed">No uploads yet</Text>
-              </Box>
-            )}
-          </>
         )}
       </Card>
+
+      <Modal
+        opened={importTarget !== null}
+        onClose={() => setImportTarget(null)}
+        title="Import Segments from HLS/DASH or Folder"
+        size="xl"
+      >
+        {importTarget && (
+          <SegmentImporter
+            flowId={importTarget.flowId}
+            {...(importTarget.flow ? { flow: importTarget.flow } : {})}
+            start={importTarget.start}
+          />
+        )}
+      </Modal>
     </Container>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,465 @@
+/**
+ * Adapter Contract Tests
+ *
+ * Every backend adapter implements IApiClient on its own, with its own paging, error
+ * handling and field operations. These tests run one set of checks against each adapter,
+ * pointed at a mock TAMS server seeded from the demo fixtures, so adapters cannot drift
+ * apart unnoticed. Each test starts from a freshly seeded server.
+ *
+ * An operation the adapter rejects as not supported skips its test, unless the adapter
+ * claims the feature the test covers. An operation that resolves without doing what it
+ * says fails the test, as does any other error. Known gaps in an adapter are listed with
+ * its target and expected to fail, so fixing one flags the list as out of date.
+ */
+
+import { afterEach, assert, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BACKEND_APIS, type BackendApiConfig } from '../config/apiConfig';
+import type { FlowSegment, Source } from '../types/tams';
+import { taiToDate } from '../utils/taiUtc';
+import { timerangeDuration, timerangesOverlap, tryParseTimerange, NANOS_PER_SECOND } from '../utils/timerange';
+import { apiServiceFactory } from './apiServiceFactory';
+import { conditionalOptions, getEtag } from './concurrency';
+import { isPreconditionFailed, preconditionHeaders } from './http';
+import type { BackendFeature } from './interfaces/IApiClient';
+import { MockTamsServer } from './mockTams';
+import { defaultMockFixtures, MOCK_FLOW_IDS, MOCK_RECORDING_START, MOCK_SOURCE_IDS } from './mockTamsFixtures';
+import { collectAll, paginate } from './pagination';
+import { BackendHttpClient } from './pipeline';
+
+/**
+ * How one adapter is pointed at its mock server
+ */
+interface ContractTarget {
+  type: BackendApiConfig['type'];
+  name: string;
+  // Maps the adapter's own paths onto the mock's TAMS routes
+  endpointRemap?: Record<string, string>;
+  // Rewrites the mock's responses into the backend's wire format
+  respond?: (server: MockTamsServer, request: Request) => Promise<Response>;
+  // Tests the adapter is known to fail, by description, with the reason
+  knownGaps?: Record<string, string>;
+}
+
+// How adapters word their rejections of operations their backend lacks
+const UNSUPPORTED_PATTERN = /not (yet )?(supported|implemented)/i;
+
+const UNKNOWN_ID = '00000000-0000-4000-8000-00000000dead';
+
+/**
+ * A field value as read from a field endpoint: backends answer with the bare value or with
+ * an object holding it under the field's name
+ */
+function unwrapField(result: unknown, field: string): unknown {
+  if (result && typeof result === 'object' && !Array.isArray(result) && field in result) {
+    return (result as Record<string, unknown>)[field];
+  }
+  return result;
+}
+
+function idsOf(items: unknown): string[] {
+  const list = Array.isArray(items) ? items : [];
+  return list.flatMap(item => item && typeof item === 'object' && 'id' in item ? [String(item.id)] : []);
+}
+
+function secondsRange(from: number, to: number): string {
+  return `[${MOCK_RECORDING_START + from}:0_${MOCK_RECORDING_START + to}:0)`;
+}
+
+function fixtureFlow(id: string) {
+  const flow = defaultMockFixtures.flows.find(candidate => candidate.id === id);
+  if (!flow) throw new Error(`Fixture flow ${id} not found`);
+  return flow;
+}
+
+function fixtureSegments(flowId: string, timerange: string): FlowSegment[] {
+  const range = tryParseTimerange(timerange);
+  return (defaultMockFixtures.segments[flowId] ?? []).filter(segment => {
+    const segmentRange = tryParseTimerange(segment.timerange);
+    return !!range && !!segmentRange && timerangesOverlap(range, segmentRange);
+  });
+}
+
+/**
+ * Serve segment lists in the IBC Thiago format (wall-clock timestamp and duration)
+ */
+async function respondAsIbcThiago(server: MockTamsServer, request: Request): Promise<Response> {
+  const response = await server.handle(request);
+  const { pathname } = new URL(request.url);
+  if (request.method !== 'GET' || !response.ok || !/^\/flows\/[^/]+\/segments$/.test(pathname)) {
+    return response;
+  }
+  const segments = await response.json() as FlowSegment[];
+  const converted = segments.map(segment => {
+    const range = tryParseTimerange(segment.timerange);
+    const duration = range ? timerangeDuration(range) : null;
+    return {
+      segment_id: segment.object_id,
+      timestamp: range?.start != null ? taiToDate(range.start).toISOString() : null,
+      duration: duration !== null ? Number(duration) / Number(NANOS_PER_SECOND) : 0,
+      url: segment.get_urls?.[0]?.url ?? '',
+      format: 'video/mp2t',
+      size: 0
+    };
+  });
+  return new Response(JSON.stringify(converted), { status: response.status, headers: response.headers });
+}
+
+const CONTRACT_TARGETS: ContractTarget[] = [
+  {
+    type: 'vast-tams',
+    name: 'VastTamsApiClient',
+    knownGaps: {
+      'joins and leaves flow collections': 'getFlowCollection() returns only the first member',
+      'describes the service': 'getService() reads the service document from / instead of /service'
+    }
+  },
+  {
+    type: 'bbc-tams',
+    name: 'BbcTamsApiClient',
+    endpointRemap: { '/webhooks': '/service/webhooks', '/webhook-events': '/service/webhook-events' }
+  },
+  {
+    type: 'ibc-thiago',
+    name: 'IbcThiagoApiClient',
+    respond: respondAsIbcThiago,
+    knownGaps: {
+      'filters flows by format': 'getFlows() drops the format filter',
+      'follows page cursors through every flow': 'getFlows() returns no page cursors',
+      'reads, sets and deletes flow tags': 'flow tags resolve as empty instead of rejecting as not supported',
+      'reports, toggles and enforces read-only flows': 'read-only status resolves as writable instead of rejecting as not supported',
+      'joins and leaves flow collections': 'flow collections resolve as empty instead of rejecting as not supported',
+      'registers, updates and removes webhooks': 'claims webhooks (over WebSocket) but rejects the webhooks API'
+    }
+  },
+  {
+    type: 'custom',
+    name: 'CustomApiClient',
+    endpointRemap: {
+      '/api/sources': '/sources',
+      '/api/flows': '/flows',
+      '/api/objects': '/objects',
+      '/api/health': '/health'
+    },
+    knownGaps: {
+      'filters flows by format': 'getFlows() drops the format filter',
+      'follows page cursors through every flow': 'getFlows() returns no page cursors',
+      'filters segments by timerange across a recording gap': 'getFlowSegments() lists /api/segments without the flow ID',
+      'adds segments and deletes them by timerange': 'getFlowSegments() lists /api/segments without the flow ID'
+    }
+  }
+];
+
+/**
+ * Mock backend configuration for a contract target, served from its own base URL
+ */
+function contractConfig(target: ContractTarget): BackendApiConfig {
+  const base = BACKEND_APIS['mock-tams'];
+  if (!base) throw new Error('Mock TAMS backend configuration not found');
+  return {
+    ...base,
+    id: `contract-${target.type}`,
+    name: `${target.name} contract`,
+    type: target.type,
+    baseUrl: `http://contract-${target.type}.mock-tams.invalid`,
+    ...(target.endpointRemap ? { endpointRemap: target.endpointRemap } : {})
+  };
+}
+
+describe.each(CONTRACT_TARGETS)('$name contract', target => {
+  const server = new MockTamsServer(defaultMockFixtures);
+  const client = apiServiceFactory.createAdapter(contractConfig(target), target.type);
+
+  beforeEach(() => {
+    server.reset();
+    const respond = target.respond;
+    const handle = respond ? (request: Request) => respond(server, request) : (request: Request) => server.handle(request);
+    vi.stubGlobal('fetch', (...[input, init]: Parameters<typeof fetch>) =>
+      Promise.resolve().then(() => handle(new Request(input, init))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * A contract test; skipped when the adapter rejects an operation as not supported,
+   * unless it claims `feature`
+   */
+  const check = (description: string, run: () => Promise<void>, feature?: BackendFeature) => {
+    const gap = target.knownGaps?.[description];
+    const test = gap ? it.fails : it;
+    test(gap ? `${description} (known gap: ${gap})` : description, async context => {
+      try {
+        await run();
+      } catch (error) {
+        const adapterError = !(error instanceof Error && error.name === 'AssertionError');
+        const message = client.getErrorMessage(error);
+        if (adapterError && UNSUPPORTED_PATTERN.test(message) && !(feature && client.supportsFeature(feature))) {
+          context.skip(message);
+        }
+        throw error;
+      }
+    });
+  };
+
+  describe('sources', () => {
+    check('lists every source', async () => {
+      const ids = idsOf((await client.getSources()).data);
+      expect(ids).toEqual(expect.arrayContaining(defaultMockFixtures.sources.map(source => source.id)));
+    });
+
+    check('gets a source by ID', async () => {
+      const source = await client.getSource(MOCK_SOURCE_IDS.news);
+      expect(source.id).toBe(MOCK_SOURCE_IDS.news);
+      expect(source.label).toBe('BBC News Studio');
+    });
+
+    check('creates, updates and deletes a source', async () => {
+      const input: Source = { id: crypto.randomUUID(), format: 'urn:x-nmos:format:video', label: 'Contract source' };
+      expect((await client.createSource(input)).id).toBe(input.id);
+      await client.updateSource(input.id, { label: 'Contract source (renamed)' });
+      expect((await client.getSource(input.id)).label).toBe('Contract source (renamed)');
+      await client.deleteSource(input.id);
+      await expect(client.getSource(input.id)).rejects.toThrow();
+    });
+
+    check('restores a soft-deleted source', async () => {
+      await client.deleteSource(MOCK_SOURCE_IDS.radio, { softDelete: true });
+      await expect(client.getSource(MOCK_SOURCE_IDS.radio)).rejects.toThrow();
+      await client.restoreSource(MOCK_SOURCE_IDS.radio);
+      expect((await client.getSource(MOCK_SOURCE_IDS.radio)).id).toBe(MOCK_SOURCE_IDS.radio);
+    }, 'softDelete');
+  });
+
+  describe('flows', () => {
+    check('gets a flow by ID', async () => {
+      const flow = await client.getFlow(MOCK_FLOW_IDS.newsVideo);
+      expect(flow.id).toBe(MOCK_FLOW_IDS.newsVideo);
+      expect(flow.source_id).toBe(MOCK_SOURCE_IDS.news);
+      expect(flow.format).toBe('urn:x-nmos:format:video');
+    });
+
+    check('filters flows by format', async () => {
+      const flows = (await client.getFlows({ format: 'urn:x-nmos:format:audio' })).data;
+      expect(flows.map(flow => flow.format)).toEqual(flows.map(() => 'urn:x-nmos:format:audio'));
+      expect(idsOf(flows)).toEqual(expect.arrayContaining([MOCK_FLOW_IDS.newsAudio, MOCK_FLOW_IDS.radio]));
+    });
+
+    check('creates, updates and deletes a flow', async () => {
+      const id = crypto.randomUUID();
+      const created = await client.createFlow({
+        id,
+        source_id: MOCK_SOURCE_IDS.radio,
+        format: 'urn:x-nmos:format:audio',
+        label: 'Contract flow',
+        codec: 'audio/aac',
+        essence_parameters: { sample_rate: 48000, channels: 2 }
+      });
+      expect(created.id).toBe(id);
+      await client.updateFlow(id, { label: 'Contract flow (renamed)' });
+      const updated = await client.getFlow(id);
+      expect(updated.label).toBe('Contract flow (renamed)');
+      // Properties the update was not given are kept
+      expect(updated.codec).toBe('audio/aac');
+      await client.deleteFlow(id);
+      await expect(client.getFlow(id)).rejects.toThrow();
+    });
+
+    check('restores a soft-deleted flow', async () => {
+      await client.deleteFlow(MOCK_FLOW_IDS.radio, { softDelete: true });
+      await expect(client.getFlow(MOCK_FLOW_IDS.radio)).rejects.toThrow();
+      await client.restoreFlow(MOCK_FLOW_IDS.radio);
+      expect((await client.getFlow(MOCK_FLOW_IDS.radio)).id).toBe(MOCK_FLOW_IDS.radio);
+    }, 'softDelete');
+
+    check('follows page cursors through every flow', async () => {
+      const flows = await collectAll(paginate(options => client.getFlows(options), { limit: 2, prefetch: false }));
+      const ids = idsOf(flows);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(ids).toHaveLength(defaultMockFixtures.flows.length);
+    });
+  });
+
+  describe('flow properties', () => {
+    check('reads, sets and deletes flow tags', async () => {
+      expect((await client.getFlowTags(MOCK_FLOW_IDS.newsVideo)).quality).toBe('hd');
+      await client.setFlowTag(MOCK_FLOW_IDS.newsVideo, 'contract', 'yes');
+      expect(String((await client.getFlowTags(MOCK_FLOW_IDS.newsVideo)).contract)).toBe('yes');
+      await client.deleteFlowTag(MOCK_FLOW_IDS.newsVideo, 'contract');
+      const removed = await client.getFlowTags(MOCK_FLOW_IDS.newsVideo);
+      expect(removed).not.toHaveProperty('contract');
+      expect(removed.quality).toBe('hd');
+    });
+
+    check('reports, toggles and enforces read-only flows', async () => {
+      expect((await client.getFlowReadOnly(MOCK_FLOW_IDS.photo)).read_only).toBe(true);
+      await expect(client.setFlowTag(MOCK_FLOW_IDS.photo, 'contract', 'yes')).rejects.toThrow();
+      await client.setFlowReadOnly(MOCK_FLOW_IDS.radio, true);
+      expect((await client.getFlowReadOnly(MOCK_FLOW_IDS.radio)).read_only).toBe(true);
+      await client.setFlowReadOnly(MOCK_FLOW_IDS.radio, false);
+      expect((await client.getFlowReadOnly(MOCK_FLOW_IDS.radio)).read_only).toBe(false);
+    });
+
+    check('joins and leaves flow collections', async () => {
+      expect(idsOf(await client.getFlowCollection(MOCK_FLOW_IDS.newsCollection))).toContain(MOCK_FLOW_IDS.newsVideo);
+      await client.setFlowCollection(MOCK_FLOW_IDS.radio, MOCK_FLOW_IDS.newsCollection);
+      expect(idsOf(await client.getFlowCollection(MOCK_FLOW_IDS.newsCollection))).toContain(MOCK_FLOW_IDS.radio);
+      expect((await client.getFlow(MOCK_FLOW_IDS.radio)).collected_by).toContain(MOCK_FLOW_IDS.newsCollection);
+      await client.removeFlowFromCollection(MOCK_FLOW_IDS.radio);
+      expect(idsOf(await client.getFlowCollection(MOCK_FLOW_IDS.newsCollection))).not.toContain(MOCK_FLOW_IDS.radio);
+    }, 'flowCollections');
+
+    check('reads, writes and deletes flow fields', async () => {
+      const radio = fixtureFlow(MOCK_FLOW_IDS.radio);
+      expect(unwrapField(await client.getFieldValue('flows', radio.id, 'label'), 'label')).toBe(radio.label);
+      await client.updateFieldValue('flows', radio.id, 'label', 'Contract label');
+      expect((await client.getFlow(radio.id)).label).toBe('Contract label');
+      await client.deleteField('flows', radio.id, 'label');
+      expect((await client.getFlow(radio.id)).label).toBeUndefined();
+    });
+
+    check('reads and writes source fields', async () => {
+      expect(unwrapField(await client.getFieldValue('sources', MOCK_SOURCE_IDS.news, 'label'), 'label')).toBe('BBC News Studio');
+      await client.updateFieldValue('sources', MOCK_SOURCE_IDS.news, 'description', 'Contract description');
+      expect((await client.getSource(MOCK_SOURCE_IDS.news)).description).toBe('Contract description');
+    });
+  });
+
+  describe('segments and objects', () => {
+    check('filters segments by timerange across a recording gap', async () => {
+      // The sports recording stops at 450s and resumes at 750s
+      const timerange = secondsRange(440, 760);
+      const expected = fixtureSegments(MOCK_FLOW_IDS.sports, timerange).map(segment => segment.timerange);
+      const segments = (await client.getFlowSegments(MOCK_FLOW_IDS.sports, { timerange })).data;
+      expect(segments.map(segment => segment.timerange).sort()).toEqual([...expected].sort());
+    });
+
+    check('adds segments and deletes them by timerange', async () => {
+      const timerange = secondsRange(960, 970);
+      const before = (await client.getFlowSegments(MOCK_FLOW_IDS.radio)).data.length;
+      await client.createFlowSegment(MOCK_FLOW_IDS.radio, { object_id: 'contract-object', timerange });
+      const added = (await client.getFlowSegments(MOCK_FLOW_IDS.radio, { timerange })).data;
+      expect(added.map(segment => segment.object_id)).toEqual(['contract-object']);
+      await client.deleteFlowSegments(MOCK_FLOW_IDS.radio, { timerange });
+      expect((await client.getFlowSegments(MOCK_FLOW_IDS.radio, { timerange })).data).toHaveLength(0);
+      // Segments outside the timerange are kept
+      expect((await client.getFlowSegments(MOCK_FLOW_IDS.radio)).data).toHaveLength(before);
+    });
+
+    check('creates, reads and deletes an object', async () => {
+      expect((await client.createObject({ id: 'contract-object' })).id).toBe('contract-object');
+      expect((await client.getObject('contract-object')).id).toBe('contract-object');
+      await client.deleteObject('contract-object');
+      await expect(client.getObject('contract-object')).rejects.toThrow();
+    });
+
+    check('allocates storage for new segments', async () => {
+      const storage = await client.getStorage(MOCK_FLOW_IDS.radio) as { media_objects?: Array<{ put_url?: { url?: string } }> };
+      expect(storage?.media_objects?.[0]?.put_url?.url).toBeTruthy();
+    }, 'storageAllocation');
+  });
+
+  describe('service', () => {
+    check('registers, updates and removes webhooks', async () => {
+      expect(idsOf((await client.getWebhooks()).data)).toHaveLength(defaultMockFixtures.webhooks?.length ?? 0);
+      expect(await client.getWebhookEventTypes()).toContain('flows/created');
+      const created = await client.createWebhook({ url: 'https://hooks.example.com/contract', events: ['flows/created'] });
+      assert(created.id, 'createWebhook() returned no ID');
+      const updated = await client.updateWebhook(created.id, { url: 'https://hooks.example.com/contract-renamed' });
+      expect(updated.url).toBe('https://hooks.example.com/contract-renamed');
+      await client.deleteWebhook(created.id);
+      expect(idsOf((await client.getWebhooks()).data)).not.toContain(created.id);
+    }, 'webhooks');
+
+    check('reports backend health', async () => {
+      expect(typeof (await client.getHealth()).status).toBe('string');
+    }, 'healthMonitoring');
+
+    check('describes the service', async () => {
+      expect(typeof (await client.getService()).api_version).toBe('string');
+    });
+  });
+
+  describe('errors', () => {
+    check('rejects unknown entities with an Error naming the status', async () => {
+      const error = await client.getFlow(UNKNOWN_ID).then(() => null, (rejection: unknown) => rejection);
+      expect(error).toBeInstanceOf(Error);
+      expect(client.getErrorMessage(error)).toContain('404');
+    });
+
+    check('maps errors to messages consistently', async () => {
+      expect(client.getErrorMessage(new Error('boom'))).toBe('boom');
+      expect(client.getErrorMessage('boom')).toBe('boom');
+      expect(client.getErrorMessage({ message: 'boom' })).toBe('boom');
+      await expect(client.handleError(new Error('boom'), 'Loading flows')).rejects.toThrow('Loading flows: boom');
+    });
+  });
+});
+
+describe('conditional writes contract', () => {
+  const server = new MockTamsServer(defaultMockFixtures);
+  const config: BackendApiConfig = { ...contractConfig({ type: 'mock', name: 'Conditional writes' }), id: 'contract-conditional' };
+  const http = new BackendHttpClient(config);
+  const labelPath = `/sources/${MOCK_SOURCE_IDS.news}/label`;
+  let writes: Request[] = [];
+
+  /**
+   * Serve field reads with an ETag of the value, and fail writes whose If-Match is stale
+   */
+  async function respondWithEtags(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const current = await server.handle(new Request(request.url));
+    const etag = current.ok ? `"${(await current.clone().text()).length}-${encodeURIComponent(pathname)}"` : null;
+    if (request.method === 'GET') {
+      return new Response(current.body, { status: current.status, headers: { ...Object.fromEntries(current.headers), ...(etag ? { ETag: etag } : {}) } });
+    }
+    writes.push(request.clone());
+    const ifMatch = request.headers.get('If-Match');
+    if (ifMatch && ifMatch !== etag) {
+      return new Response(JSON.stringify({ summary: 'Precondition Failed' }), { status: 412, headers: { 'Content-Type': 'application/json' } });
+    }
+    return server.handle(request);
+  }
+
+  beforeEach(() => {
+    server.reset();
+    writes = [];
+    vi.stubGlobal('fetch', (...[input, init]: Parameters<typeof fetch>) =>
+      Promise.resolve().then(() => respondWithEtags(new Request(input, init))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const putLabel = (label: string) => http.request(labelPath, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...preconditionHeaders(conditionalOptions(config.id, labelPath)) },
+    body: JSON.stringify({ label })
+  });
+
+  it('sends If-Match with the ETag of the field read before the write', async () => {
+    await http.request(labelPath);
+    const etag = getEtag(config.id, labelPath);
+    expect(etag).toBeTruthy();
+    await putLabel('Contract label');
+    expect(writes.map(write => write.headers.get('If-Match'))).toEqual([etag]);
+    expect(unwrapField(await http.request(labelPath), 'label')).toBe('Contract label');
+  });
+
+  it('keeps ETags of different backends apart', async () => {
+    await http.request(labelPath);
+    expect(getEtag('contract-other', labelPath)).toBeUndefined();
+  });
+
+  it('rejects a write over a change made since the read as a failed precondition', async () => {
+    await http.request(labelPath);
+    await server.handle(new Request(`${config.baseUrl}${labelPath}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ label: 'Changed elsewhere' })
+    }));
+    const error = await putLabel('Contract label').then(() => null, (rejection: unknown) => rejection);
+    expect(isPreconditionFailed(error)).toBe(true);
+  });
+});
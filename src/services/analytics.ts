@@ -6,6 +6,8 @@
  * switches to real Hydrolix integration in production.
  */
 
+import { apiClient } from './api';
+
 export interface CMCDData {
   session_id: string;
   video_id?: string;
@@ -155,7 +157,7 @@ class AnalyticsService {
       throw new Error('Hydrolix endpoint not configured');
     }
 
-    const response = await fetch(import.meta.env.DEV ? '/api/analytics/cmcd' : '/api/proxy/analytics/cmcd', {
+    const response = await apiClient.fetch('/analytics/cmcd', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -374,11 +376,11 @@ class AnalyticsService {
    */
   public async getRealAnalytics(compilationId?: string): Promise<AnalyticsData> {
     try {
-      const url = compilationId 
-        ? `/api/analytics/${compilationId}`
-        : '/api/analytics/overview';
+      const endpoint = compilationId 
+        ? `/analytics/${compilationId}`
+        : '/analytics/overview';
       
-      const response = await fetch(url);
+      const response = await apiClient.fetch(endpoint);
       if (!response.ok) {
         throw new Error(`Analytics API error: ${response.status}`);
       }
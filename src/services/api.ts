@@ -4,6 +4,10 @@
  * 
  * This service consolidates BBC TAMS API functionality with VAST TAMS extensions
  * while maintaining full BBC TAMS compliance for future flexibility.
+ *
+ * Every request goes through the shared request pipeline (see pipeline.ts), which applies
+ * auth, retries, caching, validation and logging; the backend-specific clients are adapters
+ * selected by the current backend's type.
  */
 
 // Use proxy in development, Vercel proxy in production
@@ -14,72 +18,61 @@ const API_BASE_URL = import.meta.env.DEV
 // BBC TAMS API Configuration
 export const BBC_TAMS_BASE_URL = API_BASE_URL;
 
-// Import IBC Thiago API functions
-import { 
-  getIBCThiagoSources,
-  getIBCThiagoSource,
-  getIBCThiagoFlows,
-  getIBCThiagoFlow,
-  getIBCThiagoFlowSegments,
-  getIBCThiagoHLSManifest,
-  createIBCThiagoMarker,
-  updateIBCThiagoMarker,
-  deleteIBCThiagoMarker,
-  getIBCThiagoHealth,
-  getIBCThiagoStorage,
-  ibcThiagoWebSocket,
-  extractMarkersFromSource,
-  extractVideoFlowsFromSource,
-  isMarkerFlow,
-  getMarkerColor,
-  getMarkerDisplayType,
-  isMarkerEditable,
-  type IBCThiagoSource,
-  type IBCThiagoFlow,
-  type IBCThiagoSegment,
-  type IBCThiagoMarker
-} from './ibcThiagoApi';
-
-// BBC TAMS API Response Types
-export interface BBCPaginationMeta {
-  link?: string;
-  limit?: number;
-  nextKey?: string;
-  prevKey?: string;
-  firstKey?: string;
-  lastKey?: string;
-  timerange?: string;
-  count?: number;
-  reverseOrder?: boolean;
-}
-
-export interface BBCLinkHeader {
-  url: string;
-  rel: string;
-  params?: Record<string, string>;
-}
-
-export interface BBCApiResponse<T> {
-  data: T[];
-  pagination: BBCPaginationMeta;
-  links: BBCLinkHeader[];
-}
-
-export interface BBCApiOptions {
-  page?: string; // Cursor for pagination
-  limit?: number; // Number of items per page
-  timerange?: string; // BBC timerange format
-  format?: string; // Content format filter
-  codec?: string; // Codec filter
-  tags?: Record<string, string>; // Tag filters
-  tagExists?: Record<string, boolean>; // Tag existence filters
-  custom?: Record<string, any>; // Custom filters
-}
+import type { BackendHealth, IApiClient } from './interfaces/IApiClient';
+import { apiServiceFactory } from './apiServiceFactory';
+import { BackendHttpClient } from './pipeline';
+import type { TamsApiError } from './errors';
+import { paginate, type PaginateOptions } from './pagination';
+import {
+  isAbortError,
+  preconditionHeaders,
+  signalInit,
+  type ConditionalRequestOptions,
+  type RequestOptions,
+  type RequestPolicy
+} from './http';
+import { entityCache, queryKey, withFields, withoutFields, withTag, withoutTag, type CacheListener, type CacheReadOptions } from './entityCache';
+import type { BBCApiOptions, BBCApiResponse, BBCPaginationMeta } from './tamsProtocol';
+import { decodeEntity, decodeEntityList } from './tamsDecoders';
+import type { IBCThiagoFlow, IBCThiagoHLSManifest, IBCThiagoMarker, IBCThiagoSource } from './ibcThiagoApi';
+import { getBackendConfig, getCurrentBackendConfig, type BackendApiConfig } from '../config/apiConfig';
+import type {
+  DeleteOptions,
+  DeletionRequest,
+  Flow,
+  FlowDeletionRequest,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowStorage,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsEntityName,
+  TamsEntityTypes,
+  TamsObject,
+  TamsObjectInput,
+  TamsTags,
+  Webhook,
+  WebhookInput
+} from '../types/tams';
+
+export {
+  parseLinkHeader,
+  parseBBCHeaders,
+  buildBBCQueryString,
+  getAllNavigationCursors,
+  type BBCPaginationMeta,
+  type BBCLinkHeader,
+  type BBCApiResponse,
+  type BBCApiOptions
+} from './tamsProtocol';
 
 // Legacy API response types (for backward compatibility)
 interface ApiResponse<T> {
   data: T;
-  paging?: any;
+  paging?: unknown;
 }
 
 interface PaginatedResponse<T> {
@@ -91,563 +84,90 @@ interface PaginatedResponse<T> {
   };
 }
 
-// BBC TAMS Utility Functions
-
-/**
- * Parse BBC TAMS Link header according to RFC 5988
- */
-export function parseLinkHeader(linkHeader: string): BBCLinkHeader[] {
-  if (!linkHeader) return [];
-  
-  const links: BBCLinkHeader[] = [];
-  const linkRegex = /<([^>]+)>;\s*rel="([^"]+)"(?:;\s*([^,]+))?/g;
-  
-  let match;
-  while ((match = linkRegex.exec(linkHeader)) !== null) {
-    const [, url, rel, paramsString] = match;
-    const params: Record<string, string> = {};
-    
-    if (paramsString) {
-      const paramRegex = /([^=]+)="([^"]+)"/g;
-      let paramMatch;
-      while ((paramMatch = paramRegex.exec(paramsString)) !== null) {
-        const [, key, value] = paramMatch;
-        if (key && value) {
-          params[key] = value;
-        }
-      }
-    }
-    
-    if (url && rel) {
-      try {
-        // Handle both absolute and relative URLs
-        let urlObj: URL;
-        try {
-          urlObj = new URL(url);
-        } catch {
-          // If URL is relative, construct absolute URL using current origin
-          // For API responses, relative URLs are relative to the API base
-          urlObj = new URL(url, window.location.origin);
-        }
-        
-        const queryParams = urlObj.searchParams;
-        
-        // Extract BBC TAMS specific parameters
-        if (queryParams.has('page')) {
-          params.page = queryParams.get('page') || '';
-        }
-        if (queryParams.has('limit')) {
-          params.limit = queryParams.get('limit') || '';
-        }
-        if (queryParams.has('timerange')) {
-          params.timerange = queryParams.get('timerange') || '';
-        }
-        if (queryParams.has('format')) {
-          params.format = queryParams.get('format') || '';
-        }
-        if (queryParams.has('codec')) {
-          params.codec = queryParams.get('codec') || '';
-        }
-        if (queryParams.has('label')) {
-          params.label = queryParams.get('label') || '';
-        }
-      } catch (error) {
-        // Silently ignore Link header parsing errors - they're non-fatal
-        // The URL might be relative or malformed, but we can still use the response data
-      }
-      
-      links.push({ url, rel, params });
-    }
-  }
-  
-  return links;
-}
-
-/**
- * Parse BBC TAMS response headers for pagination metadata
- */
-export function parseBBCHeaders(headers: Headers): BBCPaginationMeta {
-  const linkHeader = headers.get('Link');
-  const limitHeader = headers.get('X-Paging-Limit');
-  const nextKeyHeader = headers.get('X-Paging-NextKey');
-  const prevKeyHeader = headers.get('X-Paging-PrevKey');
-  const firstKeyHeader = headers.get('X-Paging-FirstKey');
-  const lastKeyHeader = headers.get('X-Paging-LastKey');
-  const timerangeHeader = headers.get('X-Paging-Timerange');
-  const countHeader = headers.get('X-Paging-Count');
-  const reverseOrderHeader = headers.get('X-Paging-ReverseOrder');
-  
-  const result: BBCPaginationMeta = {
-    reverseOrder: reverseOrderHeader === 'true'
-  };
-  
-  if (linkHeader) result.link = linkHeader;
-  if (limitHeader) {
-    const limit = parseInt(limitHeader);
-    if (!isNaN(limit)) result.limit = limit;
-  }
-  if (nextKeyHeader) result.nextKey = nextKeyHeader;
-  if (prevKeyHeader) result.prevKey = prevKeyHeader;
-  if (firstKeyHeader) result.firstKey = firstKeyHeader;
-  if (lastKeyHeader) result.lastKey = lastKeyHeader;
-  if (timerangeHeader) result.timerange = timerangeHeader;
-  if (countHeader) {
-    const count = parseInt(countHeader);
-    if (!isNaN(count)) result.count = count;
-  }
-  
-  return result;
-}
-
-/**
- * Build BBC TAMS query string from options
- */
-export function buildBBCQueryString(options: BBCApiOptions): string {
-  const params: string[] = [];
-  
-  if (options.page) {
-    params.push(`page=${encodeURIComponent(options.page)}`);
-  }
-  
-  if (options.limit) {
-    // Ensure limit is an integer (API validation requires integer type)
-    const limitValue = typeof options.limit === 'number' ? options.limit : parseInt(String(options.limit), 10);
-    if (!isNaN(limitValue)) {
-      params.push(`limit=${limitValue}`);
-    }
-  }
-  
-  if (options.timerange) {
-    params.push(`timerange=${encodeURIComponent(options.timerange)}`);
-  }
-  
-  if (options.format) {
-    params.push(`format=${encodeURIComponent(options.format)}`);
-  }
-  
-  if (options.codec) {
-    params.push(`codec=${encodeURIComponent(options.codec)}`);
-  }
-  
-  if (options.tags) {
-    Object.entries(options.tags).forEach(([key, value]) => {
-      params.push(`tag.${key}=${encodeURIComponent(value)}`);
-    });
-  }
-  
-  if (options.tagExists) {
-    Object.entries(options.tagExists).forEach(([key, exists]) => {
-      params.push(`tag_exists.${key}=${exists}`);
-    });
-  }
-  
-  if (options.custom) {
-    Object.entries(options.custom).forEach(([key, value]) => {
-      params.push(`${key}=${encodeURIComponent(String(value))}`);
-    });
-  }
-  
-  return params.length > 0 ? `?${params.join('&')}` : '';
-}
-
-/**
- * Extract all available navigation cursors from BBC TAMS response
- */
-export function getAllNavigationCursors(response: BBCApiResponse<any>): {
-  next?: string;
-  prev?: string;
-  first?: string;
-  last?: string;
-} {
-  const cursors: { next?: string; prev?: string; first?: string; last?: string } = {};
-  
-  if (response.links) {
-    response.links.forEach(link => {
-      if (link.rel === 'next' && link.params?.page) {
-        cursors.next = link.params.page;
-      } else if (link.rel === 'prev' && link.params?.page) {
-        cursors.prev = link.params.page;
-      } else if (link.rel === 'first' && link.params?.page) {
-        cursors.first = link.params.page;
-      } else if (link.rel === 'last' && link.params?.page) {
-        cursors.last = link.params.page;
-      }
-    });
-  }
-  
-  // Also check pagination metadata for backward compatibility
-  if (response.pagination) {
-    if (response.pagination.nextKey) cursors.next = response.pagination.nextKey;
-    if (response.pagination.prevKey) cursors.prev = response.pagination.prevKey;
-    if (response.pagination.firstKey) cursors.first = response.pagination.firstKey;
-    if (response.pagination.lastKey) cursors.last = response.pagination.lastKey;
-  }
-  
-  return cursors;
-}
-
 // Unified API Client class with BBC TAMS compliance
-// This class now acts as a facade over the new service factory architecture
+// This class acts as a facade over the current backend's adapter and the request pipeline
 class UnifiedApiClient {
-  private baseUrl: string;
-  private currentBackend: string;
-  private apiClient: any = null;
-
-  constructor(baseUrl: string = API_BASE_URL) {
-    this.currentBackend = this.detectBackend();
-    this.baseUrl = this.getBackendUrl();
-    // Initialize API client asynchronously
-    this.initializeApiClient().catch(error => {
-      console.warn('Failed to initialize API client:', error);
-    });
-  }
-
-  /**
-   * Detect which backend is currently being used
-   * Always defaults to 'vast-tams' (monks_tams_api) unless explicitly overridden
-   */
-  private detectBackend(): string {
-    // Check environment variable first
-    const defaultBackend = import.meta.env.VITE_DEFAULT_BACKEND;
-    if (defaultBackend) {
-      return defaultBackend;
-    }
-    
-    // Check localStorage for backend selection
-    const storedBackend = localStorage.getItem('selectedBackend');
-    if (storedBackend) {
-      return storedBackend;
-    }
-    
-    // Default to vast-tams (monks_tams_api)
-    return 'vast-tams';
-  }
-
-  /**
-   * Get the correct backend URL based on the current backend configuration
-   */
-  private getBackendUrl(): string {
-    // Simplified to always use local TAMS API
-    // In development, use Vite proxy (/api) which forwards to localhost:3000
-    // In production, use /api/proxy (Vercel proxy)
-    return import.meta.env.DEV ? '/api' : '/api/proxy';
-  }
-
-  private initializationPromise: Promise<void> | null = null;
-
-  /**
-   * Initialize the appropriate API client using the service factory
-   * Always uses vast-tams (monks_tams_api) backend
-   */
-  private async initializeApiClient(): Promise<void> {
-    // If already initialized, return immediately
-    if (this.apiClient) {
-      return;
-    }
+  private backend: BackendApiConfig;
+  private http: BackendHttpClient;
+  private adapter: IApiClient;
+  // Timeout and retry behaviour for every request made by the facade
+  private requestPolicy: RequestPolicy = {};
 
-    // If already initializing, return the existing promise
-    if (this.initializationPromise) {
-      return this.initializationPromise;
-    }
-
-    this.initializationPromise = (async () => {
-      try {
-        const { apiServiceFactory } = await import('./apiServiceFactory');
-        const { getCurrentBackendConfig } = await import('../config/apiConfig');
-        
-        // Ensure we're using vast-tams backend (monks_tams_api)
-        const config = getCurrentBackendConfig();
-        
-        // Override to ensure vast-tams if not already set
-        if (config.id !== 'vast-tams') {
-          const { getBackendConfig } = await import('../config/apiConfig');
-          const vastTamsConfig = getBackendConfig('vast-tams');
-          if (vastTamsConfig) {
-            this.apiClient = await apiServiceFactory.createClient(
-              'vast-tams',
-              vastTamsConfig
-            );
-            console.log('Initialized API client with vast-tams (monks_tams_api) backend');
-            this.initializationPromise = null; // Clear promise on success
-            return;
-          }
-        }
-        
-        this.apiClient = await apiServiceFactory.createClient(
-          config.type as any,
-          config
-        );
-        console.log(`Initialized API client with ${config.id} backend`);
-        this.initializationPromise = null; // Clear promise on success
-      } catch (error) {
-        console.warn('Failed to initialize API client with service factory, falling back to legacy mode:', error);
-        // Clear promise on failure so we can retry if needed
-        this.initializationPromise = null;
-        // Fall back to legacy implementation
-      }
-    })();
-
-    return this.initializationPromise;
+  constructor(backend: BackendApiConfig = getCurrentBackendConfig()) {
+    this.backend = backend;
+    this.http = new BackendHttpClient(backend, this.requestPolicy);
+    this.adapter = apiServiceFactory.createAdapter(backend);
   }
 
   /**
-   * Ensure API client is initialized before making requests
+   * Set the current backend
    */
-  private async ensureApiClientInitialized(): Promise<void> {
-    // If already initialized, no need to wait
-    if (this.apiClient) {
-      return;
-    }
-
-    // If initializing, wait for it
-    if (this.initializationPromise) {
-      await this.initializationPromise;
-      return;
+  setBackend(backendId: string): void {
+    const config = getBackendConfig(backendId);
+    if (!config) {
+      throw new Error(`Backend configuration not found: ${backendId}`);
     }
-
-    // Otherwise, start initialization
-    await this.initializeApiClient();
+    this.backend = config;
+    this.http = new BackendHttpClient(config, this.requestPolicy);
+    this.adapter = apiServiceFactory.createAdapter(config);
   }
 
   /**
-   * Set the current backend
+   * Configuration of the backend requests are sent to
    */
-  async setBackend(backendId: string): Promise<void> {
-    this.currentBackend = backendId;
-    this.baseUrl = this.getBackendUrl();
-    
-    try {
-      const { apiServiceFactory } = await import('./apiServiceFactory');
-      const { getBackendConfig } = await import('../config/apiConfig');
-      
-      const config = getBackendConfig(backendId);
-      if (config) {
-        this.apiClient = await apiServiceFactory.createClient(
-          config.type as any,
-          config
-        );
-      }
-    } catch (error) {
-      console.error('Failed to switch backend:', error);
-      throw error;
-    }
+  getBackend(): BackendApiConfig {
+    return this.backend;
   }
 
-  /**
-   * Check if using IBC Thiago backend
-   */
-  private isIBCThiagoBackend(): boolean {
-    return this.currentBackend === 'ibc-thiago' || this.currentBackend === 'ibc-thiago-imported';
+  private get currentBackend(): string {
+    return this.backend.id;
   }
 
   /**
-   * Get the current API client instance
+   * Subscribe to background revalidations and mutations of cached entities on the current backend
+   * @returns unsubscribe function
    */
-  private getApiClient(): any {
-    return this.apiClient;
+  onCacheChange(listener: CacheListener): () => void {
+    return entityCache.subscribe(changes => {
+      const current = changes.filter(change => change.backend === this.currentBackend);
+      if (current.length > 0) listener(current);
+    });
   }
 
   /**
    * BBC TAMS compliant GET request with pagination support
-   * Handles multiple response formats from different API versions
+   * Response envelopes are normalised and validated per endpoint by the pipeline
    */
   async bbcTamsGet<T>(endpoint: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<T>> {
-    const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    let responseData;
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
-      });
-
-      // Check response status first
-      if (!response.ok) {
-        // Try to parse error response
-        try {
-          const errorData = await response.json();
-          if (errorData.error) {
-            throw new Error(`TAMS API error: ${errorData.error.message || errorData.error.code || 'Unknown error'}`);
-          }
-        } catch (parseError) {
-          // If we can't parse the error, use status text
-        }
-        throw new Error(`TAMS API error: ${response.status} ${response.statusText || 'Bad Request'}`);
-      }
-
-      // Parse successful response
-      responseData = await response.json();
-
-      // Check if response contains an error (even if status is 200)
-      if (responseData.error) {
-        // Handle both string and object error formats
-        let errorMessage = 'Unknown error';
-        if (typeof responseData.error === 'string') {
-          // Error is a string (e.g., "ValidationError")
-          errorMessage = responseData.message || responseData.error;
-        } else if (responseData.error.message) {
-          // Error is an object with message property
-          errorMessage = responseData.error.message;
-        } else if (responseData.error.code) {
-          // Error is an object with code property
-          errorMessage = responseData.error.code;
-        } else if (responseData.message) {
-          // Fallback to top-level message
-          errorMessage = responseData.message;
-        }
-        throw new Error(`TAMS API error: ${errorMessage}`);
-      }
-
-      // Continue with response processing
-      const pagination = parseBBCHeaders(response.headers);
-      const links = parseLinkHeader(response.headers.get('Link') || '');
-
-      // Handle different response formats from new API vs BBC TAMS format
-      let data: T[];
-      let count: number | undefined;
-
-      if (Array.isArray(responseData)) {
-        // New API format: direct array (e.g., /flows returns array)
-        data = responseData;
-        count = responseData.length;
-      } else if (responseData.data) {
-        // BBC TAMS format: { data: [...], pagination: {...} }
-        data = Array.isArray(responseData.data) ? responseData.data : [responseData.data];
-        count = responseData.pagination?.count;
-      } else if (responseData.sources) {
-        // New API format: { sources: [...], count }
-        data = responseData.sources;
-        count = responseData.count;
-      } else if (responseData.flows) {
-        // Alternative format: { flows: [...], count }
-        data = responseData.flows;
-        count = responseData.count;
-      } else {
-        // Single object or unknown format
-        data = [responseData];
-        count = 1;
-      }
-
-      // Merge pagination info from headers and response
-      const mergedPagination: BBCPaginationMeta = {
-        ...pagination,
-        count: count || pagination.count || data.length
-      };
-
-      return {
-        data,
-        pagination: mergedPagination,
-        links
-      };
-    } catch (error: any) {
-      // Re-throw if it's already an Error with a message
-      if (error instanceof Error && error.message.includes('TAMS API error')) {
-        throw error;
-      }
-      // Handle network errors
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw new Error(`Network error: Could not connect to ${url}. Is the backend running on http://localhost:3000?`);
-      }
-      // Handle JSON parse errors
-      if (error instanceof SyntaxError) {
-        throw new Error(`Invalid JSON response from API: ${error.message}`);
-      }
-      // Re-throw other errors with more context
-      const errorMsg = error?.message || String(error) || 'Unknown error';
-      throw new Error(`TAMS API error: ${errorMsg}`);
-    }
+    return this.http.list<T>(endpoint, options);
   }
 
   /**
    * BBC TAMS compliant POST request
    */
-  async bbcTamsPost<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
-    const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText || 'Bad Request'}`);
-    }
-
-    return response.json();
+  async bbcTamsPost<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
+    return this.http.post<T>(endpoint, body, options);
   }
 
   /**
    * BBC TAMS compliant PUT request
    */
-  async bbcTamsPut<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
-    const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText || 'Bad Request'}`);
-    }
-
-    return response.json();
+  async bbcTamsPut<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
+    return this.http.put<T>(endpoint, body, options);
   }
 
   /**
    * BBC TAMS compliant DELETE request
    */
   async bbcTamsDelete(endpoint: string, options: BBCApiOptions = {}): Promise<void> {
-    const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText || 'Bad Request'}`);
-    }
+    return this.http.delete(endpoint, options);
   }
 
   /**
    * BBC TAMS compliant HEAD request for metadata
    */
   async bbcTamsHead(endpoint: string, options: BBCApiOptions = {}): Promise<BBCPaginationMeta> {
-    const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
-      method: 'HEAD',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText || 'Bad Request'}`);
-    }
-
-    return parseBBCHeaders(response.headers);
+    return this.http.head(endpoint, options);
   }
 
   /**
@@ -655,457 +175,509 @@ class UnifiedApiClient {
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const defaultOptions: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    };
+    return this.http.request<T>(endpoint, options, requestOptions);
+  }
 
-    try {
-      const response = await fetch(url, defaultOptions);
-      
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-      }
+  /**
+   * Decode a response body as a TAMS entity, reporting any schema drift for `endpoint`
+   */
+  private decode<K extends TamsEntityName>(entity: K, value: unknown, endpoint: string): TamsEntityTypes[K] {
+    return decodeEntity(entity, value, { backend: this.currentBackend, endpoint });
+  }
 
-      // Handle empty responses
-      if (response.status === 204 || response.headers.get('content-length') === '0') {
-        return {} as T;
-      }
+  /**
+   * Raw request to the current backend through the request pipeline, for endpoints that
+   * don't answer with JSON (e.g. Prometheus metrics) or where the caller reads the status
+   */
+  fetch(endpoint: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> {
+    return this.http.fetch(endpoint, { ...init, ...signalInit(options) });
+  }
 
-      return await response.json();
-    } catch (error) {
-      console.error(`API request error for ${endpoint}:`, error);
-      throw error;
-    }
+  /**
+   * The typed error for a failed response from `fetch` (see errors); the body is consumed
+   */
+  error(response: Response, prefix?: string): Promise<TamsApiError> {
+    return this.http.error(response, prefix);
   }
 
   // Health check
-  async getHealth(): Promise<any> {
-    const client = this.getApiClient();
-    if (client) {
-      return client.getHealth();
-    }
-    
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoHealth();
-    }
-    
-    // Health endpoint returns a single object: { status, timestamp, services }
-    // Use direct request since it's not a collection endpoint
-    try {
-      const response = await fetch(`${this.baseUrl}/health`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
-      });
-
-      // Health endpoint can return 200 (healthy) or 503 (degraded/unhealthy)
-      // Both are valid responses, so we only throw on network errors
-      if (!response.ok && response.status !== 503) {
-        throw new Error(`Health check failed: ${response.status} ${response.statusText || 'Bad Request'}`);
-      }
-
-      const healthData = await response.json();
-      return healthData;
-    } catch (error: any) {
-      // Handle network errors
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw new Error(`Network error: Could not connect to ${this.baseUrl}/health. Is the backend running on http://localhost:3000?`);
-      }
-      console.error('Health check failed:', error);
-      throw error;
-    }
+  async getHealth(options: RequestOptions = {}): Promise<BackendHealth> {
+    return this.adapter.getHealth(options);
   }
 
   // Metrics
-  async getMetrics(): Promise<any> {
-    return this.request('/metrics');
+  async getMetrics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/metrics', {}, options);
   }
 
   // Service information
-  async getService(): Promise<any> {
-    return this.request('/service');
+  // Decoded by the pipeline's validation stage, like every other entity GET
+  async getService(options: RequestOptions = {}): Promise<Service> {
+    return this.request<Service>('/service', {}, options);
   }
 
   // Storage backends
-  async getStorageBackends(): Promise<any> {
-    return this.request('/service/storage-backends');
+  async getStorageBackends(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/service/storage-backends', {}, options);
   }
 
   // Search - searches segments by marker descriptions
   // Note: Backend schema only accepts 'query' parameter (additionalProperties: false)
   // The backend uses default limit=10 and page=1
-  async searchSegments(query: string, options: { limit?: number; page?: number } = {}): Promise<any> {
-    await this.ensureApiClientInitialized();
-    
+  async searchSegments(query: string, options: { limit?: number; page?: number } & RequestOptions = {}): Promise<unknown> {
     // Backend schema validation only allows 'query' parameter
     // Limit and page are not accepted by the schema, so we only send query
     const queryParams = new URLSearchParams();
     queryParams.append('query', query);
     
-    const url = `${this.baseUrl}/search?${queryParams.toString()}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`/search?${queryParams.toString()}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
-      }
+      },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw await this.http.error(response);
     }
 
     return await response.json();
   }
 
   // BBC TAMS Sources API
-  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    // Ensure API client is initialized before making the request
-    await this.ensureApiClientInitialized();
-    
-    // Always use the service factory API client (monks_tams_api / vast-tams)
-    const client = this.getApiClient();
-    if (client) {
-      return client.getSources(options);
-    }
-    
-    // Fallback: ensure we're using vast-tams backend (monks_tams_api)
-    // Remove IBC Thiago fallback - we only use monks_tams_api
-    console.warn('API client not initialized after wait, using direct bbcTamsGet for vast-tams backend');
-    return this.bbcTamsGet('/sources', options);
+  // Source, flow and segment reads are served from the entity cache (stale-while-revalidate);
+  // the mutations below keep it up to date
+  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<Source>> {
+    return entityCache.getList<Source>(this.currentBackend, 'source', queryKey(options),
+      requestOptions => this.fetchSources({ ...options, ...requestOptions }), options);
   }
 
-  async getSource(id: string): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoSource(id);
-    }
-    return this.request(`/sources/${id}`);
+  private async fetchSources(options: BBCApiOptions): Promise<BBCApiResponse<Source>> {
+    return this.adapter.getSources(options);
+  }
+
+  async getSource(id: string, options: CacheReadOptions = {}): Promise<Source> {
+    return entityCache.getEntity<Source>(this.currentBackend, 'source', id,
+      requestOptions => this.adapter.getSource(id, requestOptions), options);
   }
 
-  async createSource(sourceId: string, source: any): Promise<any> {
-    return this.request(`/sources/${sourceId}`, {
+  async createSource(sourceId: string, source: Partial<SourceInput>, options: RequestOptions = {}): Promise<Source> {
+    const created = this.decode('source', await this.request<unknown>(`/sources/${sourceId}`, {
       method: 'POST',
       body: JSON.stringify(source),
-    });
+    }, options), '/sources/{id}');
+    entityCache.setEntity(this.currentBackend, 'source', created);
+    return created;
   }
 
-  async updateSource(id: string, source: any): Promise<any> {
-    return this.request(`/sources/${id}`, {
+  async updateSource(id: string, source: Partial<SourceInput>, options: RequestOptions = {}): Promise<Source> {
+    const updated = this.decode('source', await this.request<unknown>(`/sources/${id}`, {
       method: 'PUT',
       body: JSON.stringify(source),
-    });
+    }, options), '/sources/{id}');
+    entityCache.setEntity(this.currentBackend, 'source', updated);
+    return updated;
   }
 
-  async deleteSource(id: string, options: any): Promise<any> {
+  async deleteSource(id: string, options: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams = new URLSearchParams();
     if (options.softDelete) queryParams.append('soft_delete', 'true');
     if (options.cascade) queryParams.append('cascade', 'true');
     if (options.deletedBy) queryParams.append('deleted_by', options.deletedBy);
     
     const endpoint = `/sources/${id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint, {
+    await this.request(endpoint, {
       method: 'DELETE',
-    });
+    }, requestOptions);
+    entityCache.evictEntity(this.currentBackend, 'source', id);
   }
 
-  async restoreSource(id: string): Promise<any> {
-    return this.request(`/sources/${id}/restore`, {
+  async restoreSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    const result = this.decode('source', await this.request<unknown>(`/sources/${id}/restore`, {
       method: 'POST',
-    });
+    }, options), '/sources/{id}/restore');
+    entityCache.invalidateLists(this.currentBackend, 'source');
+    return result;
   }
 
   // BBC TAMS Flows API
-  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoFlows(options);
-    }
-    return this.bbcTamsGet('/flows', options);
+  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<Flow>> {
+    return entityCache.getList<Flow>(this.currentBackend, 'flow', queryKey(options),
+      requestOptions => this.adapter.getFlows({ ...options, ...requestOptions }), options);
   }
 
-  async getFlow(id: string): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoFlow(id);
-    }
-    return this.request(`/flows/${id}`);
+  async getFlow(id: string, options: CacheReadOptions = {}): Promise<Flow> {
+    return entityCache.getEntity<Flow>(this.currentBackend, 'flow', id,
+      requestOptions => this.adapter.getFlow(id, requestOptions), options);
+  }
+
+  /**
+   * Flow from the entity cache without a request, matching `id` or `_id` case-insensitively
+   */
+  peekFlow(id: string): Flow | undefined {
+    return entityCache.peekEntity<Flow>(this.currentBackend, 'flow', id);
   }
 
-  async createFlow(flowId: string, flow: any): Promise<any> {
-    return this.request(`/flows/${flowId}`, {
+  async createFlow(flowId: string, flow: FlowUpdate, options: RequestOptions = {}): Promise<Flow> {
+    const created = this.decode('flow', await this.request<unknown>(`/flows/${flowId}`, {
       method: 'POST',
       body: JSON.stringify(flow),
-    });
+    }, options), '/flows/{id}');
+    entityCache.setEntity(this.currentBackend, 'flow', created);
+    return created;
   }
 
-  async updateFlow(id: string, flow: any): Promise<any> {
-    return this.request(`/flows/${id}`, {
+  async updateFlow(id: string, flow: FlowUpdate, options: RequestOptions = {}): Promise<Flow> {
+    const response = await this.request<object>(`/flows/${id}`, {
       method: 'PUT',
       body: JSON.stringify(flow),
-    });
+    }, options);
+    // Backends that answer 204 leave the flow as sent
+    const updated = this.decode('flow', Object.keys(response).length > 0 ? response : { ...flow, id }, '/flows/{id}');
+    entityCache.setEntity(this.currentBackend, 'flow', updated);
+    return updated;
   }
 
-  async deleteFlow(id: string, options: any): Promise<any> {
+  async deleteFlow(id: string, options: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams = new URLSearchParams();
     if (options.softDelete) queryParams.append('soft_delete', 'true');
     if (options.cascade) queryParams.append('cascade', 'true');
     if (options.deletedBy) queryParams.append('deleted_by', options.deletedBy);
     
     const endpoint = `/flows/${id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint, {
+    await this.request(endpoint, {
       method: 'DELETE',
-    });
+    }, requestOptions);
+    entityCache.evictEntity(this.currentBackend, 'flow', id);
   }
 
-  async restoreFlow(id: string): Promise<any> {
-    return this.request(`/flows/${id}/restore`, {
+  async restoreFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    const result = this.decode('flow', await this.request<unknown>(`/flows/${id}/restore`, {
       method: 'POST',
-    });
+    }, options), '/flows/{id}/restore');
+    entityCache.invalidateLists(this.currentBackend, 'flow');
+    return result;
   }
 
-  async cleanupFlow(id: string, hours: number = 24): Promise<any> {
-    return this.request(`/flows/${id}/cleanup?hours=${hours}`, {
+  async cleanupFlow(id: string, hours: number = 24, options: RequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${id}/cleanup?hours=${hours}`, {
       method: 'DELETE',
-    });
+    }, options);
+    entityCache.evictSegments(this.currentBackend, id);
+    return result;
   }
 
   // BBC TAMS Flow Tags Management
-  async getFlowTags(flowId: string): Promise<Record<string, string>> {
-    return this.request(`/flows/${flowId}/tags`);
+  async getFlowTags(flowId: string, options: RequestOptions = {}): Promise<Record<string, string>> {
+    return this.request(`/flows/${flowId}/tags`, {}, options);
+  }
+
+  async getFlowTag(flowId: string, tagName: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/flows/${flowId}/tags/${encodeURIComponent(tagName)}`, {}, options);
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
-    return this.request(`/flows/${flowId}/tags/${tagName}`, {
+  async setFlowTag(flowId: string, tagName: string, tagValue: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/tags/${encodeURIComponent(tagName)}`, {
       method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
       body: JSON.stringify({ value: tagValue }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withTag(tagName, tagValue));
+    return result;
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<any> {
-    return this.request(`/flows/${flowId}/tags/${tagName}`, {
+  async deleteFlowTag(flowId: string, tagName: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/tags/${encodeURIComponent(tagName)}`, {
       method: 'DELETE',
-    });
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withoutTag(tagName));
+    return result;
   }
 
   // BBC TAMS Source Tags Management
-  async getSourceTags(sourceId: string): Promise<Record<string, string>> {
+  async getSourceTags(sourceId: string, options: RequestOptions = {}): Promise<TamsTags> {
     // Source tags are included in the source details response
-    const source = await this.getSource(sourceId);
+    const source = await this.getSource(sourceId, options);
     return source.tags || {};
   }
 
-  async setSourceTag(sourceId: string, tagName: string, tagValue: string): Promise<any> {
+  async setSourceTag(sourceId: string, tagName: string, tagValue: string, options: RequestOptions = {}): Promise<unknown> {
     // API expects array of values according to BBC TAMS spec
-    return this.request(`/sources/${sourceId}/tags/${tagName}`, {
+    const result = await this.request<unknown>(`/sources/${sourceId}/tags/${tagName}`, {
       method: 'PUT',
       body: JSON.stringify([tagValue]),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withTag(tagName, [tagValue]));
+    return result;
   }
 
-  async deleteSourceTag(sourceId: string, tagName: string): Promise<any> {
-    return this.request(`/sources/${sourceId}/tags/${tagName}`, {
+  async deleteSourceTag(sourceId: string, tagName: string, options: RequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/sources/${sourceId}/tags/${tagName}`, {
       method: 'DELETE',
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withoutTag(tagName));
+    return result;
   }
 
   // BBC TAMS Flow Collection Management
-  async getFlowCollection(flowId: string): Promise<any> {
-    return this.request(`/flows/${flowId}/flow_collection`);
+  async getFlowCollection(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/flows/${flowId}/flow_collection`, {}, options);
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<any> {
-    return this.request(`/flows/${flowId}/flow_collection`, {
+  async setFlowCollection(flowId: string, collectionId: string, options: RequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/flow_collection`, {
       method: 'PUT',
       body: JSON.stringify({ collection_id: collectionId }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withFields({ collection_id: collectionId }));
+    return result;
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<any> {
-    return this.request(`/flows/${flowId}/flow_collection`, {
+  async removeFlowFromCollection(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/flow_collection`, {
       method: 'DELETE',
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withoutFields('collection_id'));
+    return result;
   }
 
   // BBC TAMS Flow Read-Only Status Management
-  async getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }> {
-    return this.request(`/flows/${flowId}/read_only`);
+  async getFlowReadOnly(flowId: string, options: RequestOptions = {}): Promise<{ read_only: boolean }> {
+    return this.request(`/flows/${flowId}/read_only`, {}, options);
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any> {
-    return this.request(`/flows/${flowId}/read_only`, {
+  async setFlowReadOnly(flowId: string, readOnly: boolean, options: RequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/read_only`, {
       method: 'PUT',
       body: JSON.stringify({ read_only: readOnly }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withFields({ read_only: readOnly }));
+    return result;
   }
 
   // BBC TAMS Flow Description Management
-  async getFlowDescription(flowId: string): Promise<{ description: string }> {
-    return this.request(`/flows/${flowId}/description`);
+  async getFlowDescription(flowId: string, options: RequestOptions = {}): Promise<{ description: string }> {
+    return this.request(`/flows/${flowId}/description`, {}, options);
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<any> {
-    return this.request(`/flows/${flowId}/description`, {
+  async setFlowDescription(flowId: string, description: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/description`, {
       method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
       body: JSON.stringify({ description }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withFields({ description }));
+    return result;
   }
 
   // BBC TAMS Flow Label Management
-  async getFlowLabel(flowId: string): Promise<{ label: string }> {
-    return this.request(`/flows/${flowId}/label`);
+  async getFlowLabel(flowId: string, options: RequestOptions = {}): Promise<{ label: string }> {
+    return this.request(`/flows/${flowId}/label`, {}, options);
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<any> {
-    return this.request(`/flows/${flowId}/label`, {
+  async setFlowLabel(flowId: string, label: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/flows/${flowId}/label`, {
       method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
       body: JSON.stringify({ label }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'flow', flowId, withFields({ label }));
+    return result;
   }
 
   // BBC TAMS Source Label Management
-  async setSourceLabel(sourceId: string, label: string): Promise<any> {
-    return this.request(`/sources/${sourceId}/label`, {
+  async getSourceLabel(sourceId: string, options: RequestOptions = {}): Promise<{ label: string }> {
+    return this.request(`/sources/${sourceId}/label`, {}, options);
+  }
+
+  async setSourceLabel(sourceId: string, label: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/sources/${sourceId}/label`, {
       method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
       body: JSON.stringify({ label }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withFields({ label }));
+    return result;
   }
 
-  async deleteSourceLabel(sourceId: string): Promise<any> {
-    return this.request(`/sources/${sourceId}/label`, {
+  async deleteSourceLabel(sourceId: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/sources/${sourceId}/label`, {
       method: 'DELETE',
-    });
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withoutFields('label'));
+    return result;
+  }
+
+  async getSourceDescription(sourceId: string, options: RequestOptions = {}): Promise<{ description: string }> {
+    return this.request(`/sources/${sourceId}/description`, {}, options);
   }
 
-  async setSourceDescription(sourceId: string, description: string): Promise<any> {
-    return this.request(`/sources/${sourceId}/description`, {
+  async setSourceDescription(sourceId: string, description: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/sources/${sourceId}/description`, {
       method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
       body: JSON.stringify({ description }),
-    });
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withFields({ description }));
+    return result;
   }
 
-  async deleteSourceDescription(sourceId: string): Promise<any> {
-    return this.request(`/sources/${sourceId}/description`, {
+  async deleteSourceDescription(sourceId: string, options: ConditionalRequestOptions = {}): Promise<unknown> {
+    const result = await this.request<unknown>(`/sources/${sourceId}/description`, {
       method: 'DELETE',
-    });
+      headers: { 'Content-Type': 'application/json', ...preconditionHeaders(options) },
+    }, options);
+    entityCache.patchEntity(this.currentBackend, 'source', sourceId, withoutFields('description'));
+    return result;
   }
 
   // BBC TAMS Segments API
-  async getFlowStats(flowId: string): Promise<any> {
-    return this.request(`/flows/${flowId}/stats`);
+  async getFlowStats(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/flows/${flowId}/stats`, {}, options);
   }
 
-  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoFlowSegments(flowId, options);
-    }
-    return this.bbcTamsGet(`/flows/${flowId}/segments`, options);
+  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<FlowSegment>> {
+    return entityCache.getSegments<FlowSegment>(this.currentBackend, flowId, queryKey(options),
+      requestOptions => this.adapter.getFlowSegments(flowId, { ...options, ...requestOptions }), options);
   }
 
-  async createFlowSegment(flowId: string, segment: any, file?: File): Promise<any> {
+  async createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File, options: RequestOptions = {}): Promise<FlowSegment> {
+    let created: object;
     if (file) {
       // Handle file upload with multipart form data
       const formData = new FormData();
       formData.append('segment_data', JSON.stringify(segment));
       formData.append('file', file);
       
-      return this.request(`/flows/${flowId}/segments`, {
+      created = await this.request<object>(`/flows/${flowId}/segments`, {
         method: 'POST',
         body: formData,
         headers: {
           // Don't set Content-Type for FormData, let the browser set it
         },
-      });
+      }, options);
     } else {
       // Handle JSON-only segment creation
-      return this.request(`/flows/${flowId}/segments`, {
+      created = await this.request<object>(`/flows/${flowId}/segments`, {
         method: 'POST',
         body: JSON.stringify(segment),
-      });
+      }, options);
     }
+    entityCache.evictSegments(this.currentBackend, flowId);
+    // Backends that answer 201 without a body registered the segment as sent
+    return this.decode('segment', Object.keys(created).length > 0 ? created : segment, '/flows/{id}/segments');
   }
 
-  async deleteFlowSegments(flowId: string, options: any): Promise<any> {
+  async deleteFlowSegments(flowId: string, options: DeleteOptions, requestOptions: RequestOptions = {}): Promise<DeletionRequest | void> {
     const queryParams = new URLSearchParams();
     if (options.timerange) queryParams.append('timerange', options.timerange);
     if (options.softDelete !== undefined) queryParams.append('soft_delete', options.softDelete.toString());
     if (options.deletedBy) queryParams.append('deleted_by', options.deletedBy);
     
     const endpoint = `/flows/${flowId}/segments${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint, {
+    const result = await this.request<object>(endpoint, {
       method: 'DELETE',
-    });
+    }, requestOptions);
+    entityCache.evictSegments(this.currentBackend, flowId);
+    // Large deletions are accepted (202) as a deletion request to follow; others answer 204
+    if ('id' in result) {
+      return this.decode('deletionRequest', result, '/flows/{id}/segments');
+    }
   }
 
-  async updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any> {
-    return this.request(`/flows/${flowId}/segments/${segmentId}`, {
+  async updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate, options: RequestOptions = {}): Promise<FlowSegment> {
+    const result = await this.request<unknown>(`/flows/${flowId}/segments/${segmentId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
-    });
+    }, options);
+    entityCache.evictSegments(this.currentBackend, flowId);
+    return this.decode('segment', result, '/flows/{id}/segments/{id}');
   }
 
   // BBC TAMS Objects API
-  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/objects', options);
+  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<TamsObject>> {
+    return decodeEntityList('object', await this.bbcTamsGet<unknown>('/objects', options), {
+      backend: this.currentBackend,
+      endpoint: '/objects'
+    });
   }
 
-  async getObject(id: string): Promise<any> {
-    return this.request(`/objects/${id}`);
+  // Cursor-following iterators over list endpoints, e.g. `for await (const flow of apiClient.iterateFlows())`
+  iterateSources(options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getSources(pageOptions), options);
   }
 
-  async createObject(object: any): Promise<any> {
-    return this.request('/objects', {
+  iterateFlows(options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getFlows(pageOptions), options);
+  }
+
+  iterateFlowSegments(flowId: string, options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getFlowSegments(flowId, pageOptions), options);
+  }
+
+  iterateObjects(options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getObjects(pageOptions), options);
+  }
+
+  iterateWebhooks(options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getWebhooks(pageOptions), options);
+  }
+
+  async getObject(id: string, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.request<TamsObject>(`/objects/${id}`, {}, options);
+  }
+
+  async createObject(object: TamsObjectInput, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.decode('object', await this.request<unknown>('/objects', {
       method: 'POST',
       body: JSON.stringify(object),
-    });
+    }, options), '/objects');
   }
 
-  async deleteObject(id: string, options: any): Promise<any> {
+  async deleteObject(id: string, options: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams = new URLSearchParams();
     if (options.softDelete !== undefined) queryParams.append('soft_delete', options.softDelete.toString());
     if (options.deletedBy) queryParams.append('deleted_by', options.deletedBy);
     
     const endpoint = `/objects/${id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint, {
+    await this.request(endpoint, {
       method: 'DELETE',
-    });
+    }, requestOptions);
   }
 
   // QC (Quality Control) API
-  async getQCStatistics(): Promise<any> {
-    return this.request('/api/v1/qc/statistics');
+  async getQCStatistics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/api/v1/qc/statistics', {}, options);
   }
 
-  async getQCFailedChunks(limit: number = 20, offset: number = 0): Promise<any> {
+  async getQCFailedChunks(limit: number = 20, offset: number = 0, options: RequestOptions = {}): Promise<unknown> {
     const queryParams = new URLSearchParams();
     if (limit) queryParams.append('limit', limit.toString());
     if (offset) queryParams.append('offset', offset.toString());
     const endpoint = `/api/v1/qc/failed-chunks${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint);
+    return this.request(endpoint, {}, options);
   }
 
-  async getQCMarkersForFlow(flowId: string): Promise<any> {
-    return this.request(`/api/v1/flows/${flowId}/qc-markers`);
+  async getQCMarkersForFlow(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/api/v1/flows/${flowId}/qc-markers`, {}, options);
   }
 
-  async getQCByQuality(min: number = 0, max: number = 100): Promise<any> {
+  async getQCByQuality(min: number = 0, max: number = 100, options: RequestOptions = {}): Promise<unknown> {
     const queryParams = new URLSearchParams();
     queryParams.append('min', min.toString());
     queryParams.append('max', max.toString());
-    return this.request(`/api/v1/qc/by-quality?${queryParams.toString()}`);
+    return this.request(`/api/v1/qc/by-quality?${queryParams.toString()}`, {}, options);
   }
 
   // BBC TAMS Field Operations API
-  async getFieldValue<T = any>(
+  async getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -1116,7 +688,7 @@ class UnifiedApiClient {
     return response.data as T;
   }
 
-  async updateFieldValue<T = any>(
+  async updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -1144,10 +716,10 @@ class UnifiedApiClient {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>> {
+  ): Promise<BBCApiResponse<Record<string, unknown>>> {
     const url = `/${entityType}/${entityId}/${fieldKey}`;
     const response = await this.bbcTamsHead(url, options);
-    return response as unknown as BBCApiResponse<any>;
+    return response as unknown as BBCApiResponse<Record<string, unknown>>;
   }
 
   // Get all available fields for an entity
@@ -1197,69 +769,61 @@ class UnifiedApiClient {
   }
 
   // Analytics
-  async getFlowUsageAnalytics(): Promise<any> {
-    return this.request('/analytics/flow-usage');
+  async getFlowUsageAnalytics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/analytics/flow-usage', {}, options);
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
-    return this.request('/analytics/storage-usage');
+  async getStorageUsageAnalytics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/analytics/storage-usage', {}, options);
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
-    return this.request('/analytics/time-range-analysis');
+  async getTimeRangeAnalytics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/analytics/time-range-analysis', {}, options);
   }
 
   // BBC TAMS Webhooks API
-  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/service/webhooks', options);
+  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<Webhook>> {
+    return this.bbcTamsGet<Webhook>('/service/webhooks', options);
   }
 
-  async createWebhook(webhookData: {
-    url: string;
-    events: string[];
-    api_key_name?: string;
-    api_key_value?: string;
-    owner_id?: string;
-  }): Promise<any> {
-    return this.bbcTamsPost('/service/webhooks', webhookData);
+  async createWebhook(webhookData: WebhookInput & { owner_id?: string }, options: RequestOptions = {}): Promise<Webhook> {
+    const created = await this.bbcTamsPost<unknown>('/service/webhooks', webhookData, options);
+    return this.decode('webhook', created, '/service/webhooks');
   }
 
   async updateWebhook(
     webhookId: string,
-    webhookData: {
-      url: string;
-      events: string[];
-      api_key_name?: string;
-      api_key_value?: string;
-      owner_id?: string;
-    }
-  ): Promise<any> {
-    return this.bbcTamsPut(`/service/webhooks/${webhookId}`, webhookData);
+    webhookData: Partial<WebhookInput> & { owner_id?: string },
+    options: RequestOptions = {}
+  ): Promise<Webhook> {
+    const updated = await this.bbcTamsPut<unknown>(`/service/webhooks/${webhookId}`, webhookData, options);
+    return this.decode('webhook', updated, '/service/webhooks/{id}');
   }
 
-  async deleteWebhook(webhookId: string): Promise<void> {
-    return this.bbcTamsDelete(`/service/webhooks/${webhookId}`);
+  async deleteWebhook(webhookId: string, options: RequestOptions = {}): Promise<void> {
+    return this.bbcTamsDelete(`/service/webhooks/${webhookId}`, options);
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
+  async testWebhook(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
     return this.request(`/service/webhooks/${webhookId}/test`, {
       method: 'POST',
-    });
+    }, options);
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
-    return this.request(`/service/webhooks/${webhookId}/history`);
+  async getWebhookHistory(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/service/webhooks/${webhookId}/history`, {}, options);
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
-    return this.request(`/service/webhooks/${webhookId}/stats`);
+  async getWebhookStats(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/service/webhooks/${webhookId}/stats`, {}, options);
   }
 
-  async getWebhookEventTypes(): Promise<string[]> {
+  async getWebhookEventTypes(options: RequestOptions = {}): Promise<string[]> {
     try {
-      const response = await this.request<{ events?: string[] }>('/service/webhook-events');
+      const response = await this.request<{ events?: string[] }>('/service/webhook-events', {}, options);
       return response.events || [];
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.warn('Could not retrieve webhook event types, using fallback:', error);
       // Fallback to common BBC TAMS webhook events
       return [
@@ -1276,129 +840,120 @@ class UnifiedApiClient {
     }
   }
 
+  // Flow deletion requests (VAST TAMS approval workflow)
+  async getFlowDeleteRequests(options: BBCApiOptions = {}): Promise<BBCApiResponse<FlowDeletionRequest>> {
+    return this.bbcTamsGet('/flow-delete-requests', options);
+  }
+
+  iterateFlowDeleteRequests(options: PaginateOptions = {}) {
+    return paginate(pageOptions => this.getFlowDeleteRequests(pageOptions), options);
+  }
+
+  async createFlowDeleteRequest(
+    request: Omit<FlowDeletionRequest, 'id' | 'status'>,
+    options: RequestOptions = {}
+  ): Promise<FlowDeletionRequest> {
+    return this.bbcTamsPost('/flow-delete-requests', request, options);
+  }
+
+  async updateFlowDeleteRequest(
+    requestId: string,
+    updates: Partial<Omit<FlowDeletionRequest, 'id'>>,
+    options: RequestOptions = {}
+  ): Promise<FlowDeletionRequest> {
+    return this.bbcTamsPut(`/flow-delete-requests/${requestId}`, updates, options);
+  }
+
   // OpenAPI specification
-  async getOpenApiSpec(): Promise<any> {
-    return this.request('/openapi.json');
+  async getOpenApiSpec(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/openapi.json', {}, options);
   }
 
   // Root endpoints
-  async getRootEndpoints(): Promise<string[]> {
-    return this.request('/');
+  async getRootEndpoints(options: RequestOptions = {}): Promise<string[]> {
+    return this.request('/', {}, options);
   }
 
-  // IBC Thiago specific methods
-  async getHLSManifest(flowId: string): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoHLSManifest(flowId);
+  // Backend-specific features, available when the current backend's adapter provides them
+  async getHLSManifest(flowId: string, options: RequestOptions = {}): Promise<IBCThiagoHLSManifest> {
+    if (!this.adapter.getHLSManifest) {
+      throw new Error('HLS manifest not supported by current backend');
     }
-    throw new Error('HLS manifest not supported by current backend');
+    return this.adapter.getHLSManifest(flowId, options);
   }
 
-  async createMarker(markerData: any): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return createIBCThiagoMarker(markerData);
+  async createMarker(markerData: Partial<IBCThiagoMarker>, options: RequestOptions = {}): Promise<IBCThiagoMarker> {
+    if (!this.adapter.createMarker) {
+      throw new Error('Marker creation not supported by current backend');
     }
-    throw new Error('Marker creation not supported by current backend');
+    return this.adapter.createMarker(markerData, options);
   }
 
-  async updateMarker(markerId: string, updates: any): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return updateIBCThiagoMarker(markerId, updates);
+  async updateMarker(markerId: string, updates: Partial<IBCThiagoMarker>, options: RequestOptions = {}): Promise<IBCThiagoMarker> {
+    if (!this.adapter.updateMarker) {
+      throw new Error('Marker updates not supported by current backend');
     }
-    throw new Error('Marker updates not supported by current backend');
+    return this.adapter.updateMarker(markerId, updates, options);
   }
 
-  async deleteMarker(markerId: string): Promise<void> {
-    if (this.isIBCThiagoBackend()) {
-      return deleteIBCThiagoMarker(markerId);
+  async deleteMarker(markerId: string, options: RequestOptions = {}): Promise<void> {
+    if (!this.adapter.deleteMarker) {
+      throw new Error('Marker deletion not supported by current backend');
     }
-    throw new Error('Marker deletion not supported by current backend');
+    return this.adapter.deleteMarker(markerId, options);
   }
 
-  async getStorage(flowId: string): Promise<any> {
-    if (this.isIBCThiagoBackend()) {
-      return getIBCThiagoStorage(flowId);
-    }
-    return this.request(`/flows/${flowId}/storage`, {
-      method: 'POST',
-      body: JSON.stringify({})
-    });
+  async getStorage(flowId: string, options: RequestOptions = {}): Promise<FlowStorage> {
+    return this.adapter.getStorage(flowId, options) as Promise<FlowStorage>;
   }
 
-  // WebSocket management for IBC Thiago
+  // WebSocket management
   connectWebSocket(): Promise<void> {
-    if (this.isIBCThiagoBackend()) {
-      return ibcThiagoWebSocket.connect();
+    if (!this.adapter.connectWebSocket) {
+      throw new Error('WebSocket not supported by current backend');
     }
-    throw new Error('WebSocket not supported by current backend');
+    return this.adapter.connectWebSocket();
   }
 
   disconnectWebSocket(): void {
-    if (this.isIBCThiagoBackend()) {
-      ibcThiagoWebSocket.disconnect();
-    }
+    this.adapter.disconnectWebSocket?.();
   }
 
-  subscribeToWebSocket(eventType: string, callback: (data: any) => void): void {
-    if (this.isIBCThiagoBackend()) {
-      ibcThiagoWebSocket.subscribe(eventType, callback);
-    }
+  subscribeToWebSocket(eventType: string, callback: (data: unknown) => void): void {
+    this.adapter.subscribeToWebSocket?.(eventType, callback);
   }
 
-  unsubscribeFromWebSocket(eventType: string, callback: (data: any) => void): void {
-    if (this.isIBCThiagoBackend()) {
-      ibcThiagoWebSocket.unsubscribe(eventType, callback);
-    }
+  unsubscribeFromWebSocket(eventType: string, callback: (data: unknown) => void): void {
+    this.adapter.unsubscribeFromWebSocket?.(eventType, callback);
   }
 
   isWebSocketConnected(): boolean {
-    if (this.isIBCThiagoBackend()) {
-      return ibcThiagoWebSocket.isConnected();
-    }
-    return false;
+    return this.adapter.isWebSocketConnected?.() ?? false;
   }
 
-  // Utility methods for IBC Thiago
-  extractMarkersFromSource(source: any): any[] {
-    if (this.isIBCThiagoBackend()) {
-      return extractMarkersFromSource(source);
-    }
-    return [];
+  // Marker utilities
+  extractMarkersFromSource(source: IBCThiagoSource): IBCThiagoMarker[] {
+    return this.adapter.extractMarkersFromSource?.(source) ?? [];
   }
 
-  extractVideoFlowsFromSource(source: any): any[] {
-    if (this.isIBCThiagoBackend()) {
-      return extractVideoFlowsFromSource(source);
-    }
-    return source.flows || [];
+  extractVideoFlowsFromSource(source: IBCThiagoSource): IBCThiagoFlow[] {
+    return this.adapter.extractVideoFlowsFromSource?.(source) ?? source.flows ?? [];
   }
 
-  isMarkerFlow(flow: any): boolean {
-    if (this.isIBCThiagoBackend()) {
-      return isMarkerFlow(flow);
-    }
-    return false;
+  isMarkerFlow(flow: IBCThiagoFlow): boolean {
+    return this.adapter.isMarkerFlow?.(flow) ?? false;
   }
 
-  getMarkerColor(marker: any): string {
-    if (this.isIBCThiagoBackend()) {
-      return getMarkerColor(marker);
-    }
-    return '#00ff00';
+  getMarkerColor(marker: IBCThiagoMarker): string {
+    return this.adapter.getMarkerColor?.(marker) ?? '#00ff00';
   }
 
-  getMarkerDisplayType(marker: any): string {
-    if (this.isIBCThiagoBackend()) {
-      return getMarkerDisplayType(marker);
-    }
-    return 'square';
+  getMarkerDisplayType(marker: IBCThiagoMarker): string {
+    return this.adapter.getMarkerDisplayType?.(marker) ?? 'square';
   }
 
-  isMarkerEditable(marker: any): boolean {
-    if (this.isIBCThiagoBackend()) {
-      return isMarkerEditable(marker);
-    }
-    return true;
+  isMarkerEditable(marker: IBCThiagoMarker): boolean {
+    return this.adapter.isMarkerEditable?.(marker) ?? true;
   }
 }
 
@@ -7,7 +7,12 @@
  */
 
 import { IApiClient, IApiClientFactory, BackendType, ApiClientOptions } from './interfaces/IApiClient';
-import { BackendApiConfig } from '../config/apiConfig';
+import { BackendApiConfig, MOCK_TAMS_BASE_URL } from '../config/apiConfig';
+import { VastTamsApiClient } from './clients/VastTamsApiClient';
+import { BbcTamsApiClient } from './clients/BbcTamsApiClient';
+import { IbcThiagoApiClient } from './clients/IbcThiagoApiClient';
+import { CustomApiClient } from './clients/CustomApiClient';
+import { ensureMockTams } from './mockTams';
 
 /**
  * API Service Factory Implementation
@@ -50,25 +55,8 @@ export class ApiServiceFactory implements IApiClientFactory {
       this.clientCache.delete(cacheKey);
     }
 
-    let client: IApiClient;
-
     try {
-      switch (backendType) {
-        case 'vast-tams':
-          client = await this.createVastTamsClient(config);
-          break;
-        case 'bbc-tams':
-          client = await this.createBbcTamsClient(config);
-          break;
-        case 'ibc-thiago':
-          client = await this.createIbcThiagoClient(config);
-          break;
-        case 'custom':
-          client = await this.createCustomClient(config);
-          break;
-        default:
-          throw new Error(`Unsupported backend type: ${backendType}`);
-      }
+      const client = this.createAdapter(config, backendType);
 
       // Initialize the client
       await client.initialize();
@@ -99,42 +87,34 @@ export class ApiServiceFactory implements IApiClientFactory {
   }
 
   /**
-   * Create VAST TAMS API client
-   */
-  private async createVastTamsClient(config: BackendApiConfig): Promise<IApiClient> {
-    const { VastTamsApiClient } = await import('./clients/VastTamsApiClient');
-    return new VastTamsApiClient(config);
-  }
-
-  /**
-   * Create BBC TAMS API client
-   */
-  private async createBbcTamsClient(config: BackendApiConfig): Promise<IApiClient> {
-    const { BbcTamsApiClient } = await import('./clients/BbcTamsApiClient');
-    return new BbcTamsApiClient(config);
-  }
-
-  /**
-   * Create IBC Thiago API client
+   * Create the adapter for a backend without initialising or testing it. Adapters send their
+   * requests through the shared request pipeline, so they are usable straight away.
    */
-  private async createIbcThiagoClient(config: BackendApiConfig): Promise<IApiClient> {
-    const { IbcThiagoApiClient } = await import('./clients/IbcThiagoApiClient');
-    return new IbcThiagoApiClient(config);
-  }
-
-  /**
-   * Create Custom API client
-   */
-  private async createCustomClient(config: BackendApiConfig): Promise<IApiClient> {
-    const { CustomApiClient } = await import('./clients/CustomApiClient');
-    return new CustomApiClient(config);
+  createAdapter(config: BackendApiConfig, backendType: BackendType = config.type): IApiClient {
+    switch (backendType) {
+      case 'vast-tams':
+        return new VastTamsApiClient(config);
+      case 'bbc-tams':
+        return new BbcTamsApiClient(config);
+      case 'ibc-thiago':
+        return new IbcThiagoApiClient(config);
+      case 'custom':
+        return new CustomApiClient(config);
+      case 'mock':
+        // Requests are only intercepted once a mock backend is in use
+        ensureMockTams();
+        // The mock serves the VAST TAMS routes
+        return new VastTamsApiClient(config);
+      default:
+        throw new Error(`Unsupported backend type: ${backendType}`);
+    }
   }
 
   /**
    * Get available backend types
    */
   getAvailableBackendTypes(): string[] {
-    return ['vast-tams', 'bbc-tams', 'ibc-thiago', 'custom'];
+    return ['vast-tams', 'bbc-tams', 'ibc-thiago', 'custom', 'mock'];
   }
 
   /**
@@ -157,6 +137,8 @@ export class ApiServiceFactory implements IApiClientFactory {
           return this.validateIbcThiagoConfig(config);
         case 'custom':
           return this.validateCustomConfig(config);
+        case 'mock':
+          return this.validateMockConfig(config);
         default:
           return false;
       }
@@ -206,6 +188,14 @@ export class ApiServiceFactory implements IApiClientFactory {
     return !!(config.endpoints.sources && config.endpoints.flows);
   }
 
+  /**
+   * Validate mock configuration
+   */
+  private validateMockConfig(config: BackendApiConfig): boolean {
+    // Only requests to the mock's address are answered by the mock
+    return config.baseUrl.startsWith(MOCK_TAMS_BASE_URL);
+  }
+
   /**
    * Get default configuration for backend type
    */
@@ -315,6 +305,33 @@ export class ApiServiceFactory implements IApiClientFactory {
             flowDeleteRequests: '/api/delete-requests',
           },
         };
+      case 'mock':
+        return {
+          type: 'mock',
+          baseUrl: MOCK_TAMS_BASE_URL,
+          features: {
+            supportsSoftDelete: true,
+            supportsCMCD: false,
+            supportsWebhooks: true,
+            supportsStorageAllocation: true,
+            supportsFlowCollections: true,
+            supportsAdvancedSearch: false,
+            supportsAsyncOperations: false,
+            supportsHealthMonitoring: true,
+          },
+          endpoints: {
+            sources: '/sources',
+            flows: '/flows',
+            segments: '/flows/{flow_id}/segments',
+            objects: '/objects',
+            analytics: '/analytics',
+            webhooks: '/service/webhooks',
+            health: '/health',
+            metrics: '/metrics',
+            storage: '/flows/{flow_id}/storage',
+            flowDeleteRequests: '/flow-delete-requests',
+          },
+        };
       default:
         throw new Error(`Unknown backend type: ${backendType}`);
     }
@@ -0,0 +1,291 @@
+/**
+ * Backend Profiles
+ *
+ * Backends added at runtime from the backend selector, without editing BACKEND_APIS or
+ * rebuilding. A profile is an ordinary BackendApiConfig built from the adapter type's
+ * defaults, so the rest of the app cannot tell it from a built-in backend. Endpoint paths
+ * that differ from the adapter's defaults become an `endpointRemap` that the request
+ * pipeline applies to every request.
+ *
+ * Profiles are kept in localStorage and can be exported to and imported from JSON to share
+ * them; credentials are never part of a profile.
+ */
+
+import {
+  BACKEND_APIS,
+  getBackendConfig,
+  getCustomBackends,
+  removeCustomBackend,
+  saveCustomBackend,
+  validateBackendConfig,
+  type BackendApiConfig
+} from '../config/apiConfig';
+import type {
+  BackendCapabilities,
+  BackendConnectionTest,
+  BackendProfileDraft,
+  BackendProfileImportResult,
+  BackendValidationResult
+} from '../types/backend';
+import { apiServiceFactory } from './apiServiceFactory';
+import { capabilityRegistry, resolveFeatures } from './capabilities';
+import { BackendHttpClient } from './pipeline';
+import type { RequestPolicy } from './http';
+
+type ProfileListener = () => void;
+
+type BackendEndpoints = BackendApiConfig['endpoints'];
+
+interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  backends: BackendApiConfig[];
+}
+
+const EXPORT_FORMAT = 'tams-backend-profiles/1';
+// Until discovery reports the server's API version
+const UNKNOWN_VERSION = 'unknown';
+const CONNECTION_TEST_POLICY: RequestPolicy = { timeout: 10000, retries: 0 };
+const BACKEND_TYPES: BackendApiConfig['type'][] = ['vast-tams', 'bbc-tams', 'ibc-thiago', 'custom', 'mock'];
+
+/**
+ * Profile ID from its name, e.g. "Staging TAMS" -> "staging-tams"
+ */
+export function profileId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function adapterEndpoints(type: BackendApiConfig['type']): BackendEndpoints {
+  const endpoints = apiServiceFactory.getDefaultConfig(type).endpoints;
+  if (!endpoints) {
+    throw new Error(`No default endpoints for backend type: ${type}`);
+  }
+  return endpoints;
+}
+
+// Drop settings left empty in the wizard so their defaults apply
+function compactAuth(auth: NonNullable<BackendApiConfig['auth']>): NonNullable<BackendApiConfig['auth']> {
+  const compact: NonNullable<BackendApiConfig['auth']> = { type: auth.type };
+  for (const [key, value] of Object.entries(auth) as [keyof typeof auth, string][]) {
+    if (key !== 'type' && value.trim()) {
+      compact[key] = value.trim();
+    }
+  }
+  return compact;
+}
+
+class BackendProfileManager {
+  private listeners = new Set<ProfileListener>();
+
+  /**
+   * Saved runtime backends
+   */
+  list(): BackendApiConfig[] {
+    return getCustomBackends();
+  }
+
+  /**
+   * Build a profile from the wizard's input; the result still needs validating
+   */
+  createProfile(draft: BackendProfileDraft): BackendApiConfig {
+    const defaults = apiServiceFactory.getDefaultConfig(draft.type);
+    const adapterPaths = adapterEndpoints(draft.type);
+    const endpoints = { ...adapterPaths };
+    for (const [key, path] of Object.entries(draft.endpoints ?? {}) as [keyof BackendEndpoints, string][]) {
+      if (path.trim()) endpoints[key] = path.trim();
+    }
+
+    const endpointRemap = Object.fromEntries(
+      (Object.keys(endpoints) as (keyof BackendEndpoints)[])
+        .filter(key => endpoints[key] !== adapterPaths[key])
+        .map(key => [adapterPaths[key], endpoints[key]])
+    );
+
+    const profile: BackendApiConfig = {
+      id: profileId(draft.name),
+      name: draft.name.trim(),
+      description: draft.description?.trim() || `Custom ${draft.type} backend`,
+      baseUrl: draft.baseUrl.trim().replace(/\/+$/, ''),
+      type: draft.type,
+      version: UNKNOWN_VERSION,
+      features: { ...defaults.features! },
+      endpoints,
+      auth: compactAuth(draft.auth),
+      cors: {
+        enabled: true,
+        credentials: false,
+      },
+    };
+    if (Object.keys(endpointRemap).length > 0) {
+      profile.endpointRemap = endpointRemap;
+    }
+    if (draft.requestsPerMinute && draft.requestsPerMinute > 0) {
+      profile.rateLimiting = { enabled: true, requestsPerMinute: draft.requestsPerMinute };
+    }
+    return profile;
+  }
+
+  /**
+   * Check a profile against the config rules and its adapter's requirements
+   */
+  validate(profile: BackendApiConfig, { allowReplace = false } = {}): BackendValidationResult {
+    const errors = validateBackendConfig(profile);
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+
+    if (BACKEND_APIS[profile.id]) {
+      errors.push(`"${profile.id}" is the ID of a built-in backend; choose another name`);
+    } else if (!allowReplace && getBackendConfig(profile.id)) {
+      errors.push(`A backend with ID "${profile.id}" already exists`);
+    }
+    if (!BACKEND_TYPES.includes(profile.type)) {
+      errors.push(`Unknown backend type: ${profile.type}`);
+    } else if (!apiServiceFactory.validateConfig(profile.type, profile)) {
+      errors.push(`The configuration does not meet the ${profile.type} adapter's requirements`);
+    }
+    if (profile.baseUrl && !/^(https?:\/\/|\/)/.test(profile.baseUrl)) {
+      errors.push('Base URL must start with http://, https:// or /');
+    }
+
+    if (profile.baseUrl.startsWith('http://') && !/^http:\/\/(localhost|127\.0\.0\.1)([:/]|$)/.test(profile.baseUrl)) {
+      warnings.push('Credentials will be sent over an unencrypted connection');
+    }
+    const auth = profile.auth ?? { type: 'none' };
+    if (auth.type === 'oauth2' && !auth.tokenEndpoint) {
+      errors.push('OAuth2 needs a token endpoint');
+    }
+    if (auth.type === 'oauth2' && !auth.authorizationEndpoint) {
+      suggestions.push('Add an authorization endpoint to let users sign in interactively');
+    }
+    if (!/^https?:\/\//.test(profile.baseUrl)) {
+      suggestions.push('A relative base URL only works behind this app\'s proxy');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings, suggestions };
+  }
+
+  /**
+   * Check that the backend answers on its health endpoint (or base URL without one)
+   */
+  async testConnection(profile: BackendApiConfig): Promise<BackendConnectionTest> {
+    const startTime = Date.now();
+    const result = (success: boolean, error?: string): BackendConnectionTest => ({
+      backendId: profile.id,
+      success,
+      responseTime: Date.now() - startTime,
+      timestamp: new Date(),
+      ...(error ? { error } : {}),
+    });
+
+    try {
+      const http = new BackendHttpClient(profile, CONNECTION_TEST_POLICY);
+      const response = await http.fetch(profile.endpoints.health || '');
+      // A degraded backend still answers
+      if (response.ok || response.status === 503) {
+        return result(true);
+      }
+      return result(false, `${response.status} ${response.statusText}`.trim());
+    } catch (error) {
+      return result(false, error instanceof Error ? error.message : 'Connection failed');
+    }
+  }
+
+  /**
+   * Find out what the server supports and fold it into the profile's features and version
+   */
+  async detectCapabilities(profile: BackendApiConfig): Promise<{ profile: BackendApiConfig; capabilities: BackendCapabilities }> {
+    const capabilities = await capabilityRegistry.discover(profile, true);
+    return {
+      profile: {
+        ...profile,
+        version: capabilities.apiVersion ?? profile.version,
+        features: resolveFeatures(profile, capabilities),
+      },
+      capabilities,
+    };
+  }
+
+  /**
+   * Persist a profile, replacing a saved one with the same ID
+   */
+  save(profile: BackendApiConfig): void {
+    saveCustomBackend(profile);
+    this.notify();
+  }
+
+  remove(id: string): void {
+    removeCustomBackend(id);
+    this.notify();
+  }
+
+  /**
+   * Serialise saved profiles (all of them unless `ids` is given) for sharing
+   */
+  exportProfiles(ids?: string[]): string {
+    const backends = this.list().filter(profile => !ids || ids.includes(profile.id));
+    const contents: ProfileExport = {
+      format: EXPORT_FORMAT,
+      exportedAt: new Date().toISOString(),
+      backends,
+    };
+    return JSON.stringify(contents, null, 2);
+  }
+
+  /**
+   * Save the valid profiles from an export; profiles with the ID of a saved one replace it,
+   * except `protectedIds` (e.g. the backend in use)
+   */
+  importProfiles(json: string, protectedIds: string[] = []): BackendProfileImportResult {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const backends = Array.isArray(parsed) ? parsed : (parsed as Partial<ProfileExport> | null)?.backends;
+    if (!Array.isArray(backends)) {
+      throw new Error('The file does not contain backend profiles');
+    }
+
+    const result: BackendProfileImportResult = { imported: [], skipped: [] };
+    for (const candidate of backends as BackendApiConfig[]) {
+      const id = typeof candidate?.id === 'string' ? candidate.id : '(no ID)';
+      if (protectedIds.includes(id)) {
+        result.skipped.push({ id, reason: 'In use; switch to another backend first' });
+        continue;
+      }
+      const validation = candidate?.endpoints
+        ? this.validate(candidate, { allowReplace: true })
+        : { isValid: false, errors: ['Endpoints are missing'] };
+      if (!validation.isValid) {
+        result.skipped.push({ id, reason: validation.errors.join('; ') });
+        continue;
+      }
+      saveCustomBackend(candidate);
+      result.imported.push(candidate);
+    }
+
+    if (result.imported.length > 0) {
+      this.notify();
+    }
+    return result;
+  }
+
+  /**
+   * Subscribe to profiles being added or removed
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const backendProfiles = new BackendProfileManager();
@@ -1,1079 +0,0 @@
-// BBC TAMS API Service - Implements BBC TAMS v6.0 specification
-// Handles cursor-based pagination, Link headers, and metadata parsing
-
-// BBC TAMS API Configuration
-import { BBCApiResponse, BBCApiOptions, BBCPaginationMeta } from './api';
-
-// Re-export interfaces for use by other modules
-export type { BBCApiResponse, BBCApiOptions, BBCPaginationMeta };
-
-// Use proxy in development, Vercel proxy in production
-export const BBC_TAMS_BASE_URL = import.meta.env.DEV 
-  ? '/api'  // Use Vite dev server proxy
-  : '/api/proxy'; // Use Vercel proxy in production
-
-// BBC TAMS Link Header interface (used by parseLinkHeader function)
-export interface BBCLinkHeader {
-  url: string;
-  rel: string;
-  params?: Record<string, string>;
-}
-
-// Parse BBC TAMS Link header according to RFC 5988
-export function parseLinkHeader(linkHeader: string): BBCLinkHeader[] {
-  if (!linkHeader) return [];
-  
-  const links: BBCLinkHeader[] = [];
-  // Enhanced regex to handle BBC TAMS Link header format
-  const linkRegex = /<([^>]+)>;\s*rel="([^"]+)"(?:;\s*([^,]+))?/g;
-  
-  let match;
-  while ((match = linkRegex.exec(linkHeader)) !== null) {
-    const [, url, rel, paramsString] = match;
-    const params: Record<string, string> = {};
-    
-    if (paramsString) {
-      // Parse additional parameters like page, limit, timerange
-      const paramRegex = /([^=]+)="([^"]+)"/g;
-      let paramMatch;
-      while ((paramMatch = paramRegex.exec(paramsString)) !== null) {
-        const [, key, value] = paramMatch;
-        if (key && value) {
-          params[key] = value;
-        }
-      }
-    }
-    
-    if (url && rel) {
-      // Extract query parameters from URL for BBC TAMS compliance
-      try {
-        const urlObj = new URL(url);
-        const queryParams = urlObj.searchParams;
-        
-        // Extract BBC TAMS specific parameters
-        if (queryParams.has('page')) {
-          params.page = queryParams.get('page') || '';
-        }
-        if (queryParams.has('limit')) {
-          params.limit = queryParams.get('limit') || '';
-        }
-        if (queryParams.has('timerange')) {
-          params.timerange = queryParams.get('timerange') || '';
-        }
-        if (queryParams.has('format')) {
-          params.format = queryParams.get('format') || '';
-        }
-        if (queryParams.has('codec')) {
-          params.codec = queryParams.get('codec') || '';
-        }
-        if (queryParams.has('label')) {
-          params.label = queryParams.get('label') || '';
-        }
-      } catch (error) {
-        console.warn('Failed to parse URL parameters from Link header:', error);
-      }
-      
-      links.push({ url, rel, params });
-    }
-  }
-  
-  return links;
-}
-
-// Parse BBC TAMS response headers for pagination metadata
-export function parseBBCHeaders(headers: Headers): BBCPaginationMeta {
-  const linkHeader = headers.get('Link');
-  const limitHeader = headers.get('X-Paging-Limit');
-  const nextKeyHeader = headers.get('X-Paging-NextKey');
-  const prevKeyHeader = headers.get('X-Paging-PrevKey');
-  const firstKeyHeader = headers.get('X-Paging-FirstKey');
-  const lastKeyHeader = headers.get('X-Paging-LastKey');
-  const timerangeHeader = headers.get('X-Paging-Timerange');
-  const countHeader = headers.get('X-Paging-Count');
-  const reverseOrderHeader = headers.get('X-Paging-ReverseOrder');
-  
-  const result: BBCPaginationMeta = {
-    reverseOrder: reverseOrderHeader === 'true'
-  };
-  
-  if (linkHeader) result.link = linkHeader;
-  if (limitHeader) {
-    const limit = parseInt(limitHeader);
-    if (!isNaN(limit)) result.limit = limit;
-  }
-  if (nextKeyHeader) result.nextKey = nextKeyHeader;
-  if (prevKeyHeader) result.prevKey = prevKeyHeader;
-  if (firstKeyHeader) result.firstKey = firstKeyHeader;
-  if (lastKeyHeader) result.lastKey = lastKeyHeader;
-  if (timerangeHeader) result.timerange = timerangeHeader;
-  if (countHeader) {
-    const count = parseInt(countHeader);
-    if (!isNaN(count)) result.count = count;
-  }
-  
-  return result;
-}
-
-// Build BBC TAMS query string from options
-export function buildBBCQueryString(options: BBCApiOptions): string {
-  const params: string[] = [];
-  
-  if (options.page) {
-    params.push(`page=${encodeURIComponent(options.page)}`);
-  }
-  
-  if (options.limit) {
-    params.push(`limit=${options.limit}`);
-  }
-  
-  if (options.timerange) {
-    params.push(`timerange=${encodeURIComponent(options.timerange)}`);
-  }
-  
-  if (options.format) {
-    params.push(`format=${encodeURIComponent(options.format)}`);
-  }
-  
-  if (options.codec) {
-    params.push(`codec=${encodeURIComponent(options.codec)}`);
-  }
-  
-  if (options.tags) {
-    Object.entries(options.tags).forEach(([key, value]) => {
-      params.push(`tag.${key}=${encodeURIComponent(value)}`);
-    });
-  }
-  
-  if (options.tagExists) {
-    Object.entries(options.tagExists).forEach(([key, exists]) => {
-      params.push(`tag_exists.${key}=${exists}`);
-    });
-  }
-  
-  if (options.custom) {
-    Object.entries(options.custom).forEach(([key, value]) => {
-      params.push(`${key}=${encodeURIComponent(String(value))}`);
-    });
-  }
-  
-  return params.length > 0 ? `?${params.join('&')}` : '';
-}
-
-// BBC TAMS API utility functions
-
-// Generic GET request with BBC TAMS pagination support
-export async function bbcTamsGet<T>(endpoint: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<T>> {
-  const queryString = buildBBCQueryString(options);
-  const url = `${BBC_TAMS_BASE_URL}${endpoint}${queryString}`;
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-
-  const responseData = await response.json();
-  const pagination = parseBBCHeaders(response.headers);
-  const links = parseLinkHeader(response.headers.get('Link') || '');
-
-  // Extract data from the response structure
-  // Backend returns: { "data": [...], "paging": null }
-  const data = responseData.data || responseData;
-  const backendPaging = responseData.paging;
-
-  return {
-    data,
-    pagination: pagination || backendPaging,
-    links
-  };
-}
-
-// Generic POST request
-export async function bbcTamsPost<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
-  const queryString = buildBBCQueryString(options);
-  const url = `${BBC_TAMS_BASE_URL}${endpoint}${queryString}`;
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    },
-    body: JSON.stringify(body)
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Generic PUT request
-export async function bbcTamsPut<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
-  const queryString = buildBBCQueryString(options);
-  const url = `${BBC_TAMS_BASE_URL}${endpoint}${queryString}`;
-  
-  const response = await fetch(url, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    },
-    body: JSON.stringify(body)
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Generic DELETE request
-export async function bbcTamsDelete(endpoint: string, options: BBCApiOptions = {}): Promise<void> {
-  const queryString = buildBBCQueryString(options);
-  const url = `${BBC_TAMS_BASE_URL}${endpoint}${queryString}`;
-  
-  const response = await fetch(url, {
-    method: 'DELETE',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-}
-
-// HEAD request for metadata (BBC TAMS supports this)
-export async function bbcTamsHead(endpoint: string, options: BBCApiOptions = {}): Promise<BBCPaginationMeta> {
-  const queryString = buildBBCQueryString(options);
-  const url = `${BBC_TAMS_BASE_URL}${endpoint}${queryString}`;
-  
-  const response = await fetch(url, {
-    method: 'HEAD',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-
-  return parseBBCHeaders(response.headers);
-}
-
-// Specific BBC TAMS API functions
-
-// Get flows with BBC TAMS pagination
-export async function getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  return bbcTamsGet('/flows', options);
-}
-
-// Get flow segments with BBC TAMS pagination
-export async function getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  return bbcTamsGet(`/flows/${flowId}/segments`, options);
-}
-
-// Get sources with BBC TAMS pagination
-export async function getSource(sourceId: string): Promise<any> {
-  try {
-    const response = await bbcTamsGet(`/sources/${sourceId}`);
-    // For single source, return just the data, not the full response structure
-    return response.data;
-  } catch (error) {
-    console.error('Error fetching source:', error);
-    throw error;
-  }
-}
-
-export async function getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  return bbcTamsGet('/sources', options);
-}
-
-// Get objects with BBC TAMS pagination
-export async function getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  return bbcTamsGet('/objects', options);
-}
-
-// Get service information
-export async function getService(): Promise<any> {
-  const response = await fetch(`${BBC_TAMS_BASE_URL}/service`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Create flow deletion request
-export async function createDeletionRequest(flowId: string, reason?: string): Promise<any> {
-  return bbcTamsPost('/flow-delete-requests', {
-    flow_id: flowId,
-    reason: reason || 'User requested deletion'
-  });
-}
-
-// Get deletion requests
-export async function getDeletionRequests(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  return bbcTamsGet('/flow-delete-requests', options);
-}
-
-// Utility functions for working with BBC TAMS data
-
-// Extract next page cursor from BBC TAMS response
-export function getNextPageCursor(response: BBCApiResponse<any>): string | null {
-  const nextLink = response.links.find(link => link.rel === 'next');
-  if (nextLink?.params?.page) {
-    return nextLink.params.page;
-  }
-  return response.pagination.nextKey || null;
-}
-
-// Extract previous page cursor from BBC TAMS response
-export function getPreviousPageCursor(response: BBCApiResponse<any>): string | null {
-  const prevLink = response.links.find(link => link.rel === 'prev');
-  if (prevLink?.params?.page) {
-    return prevLink.params.page;
-  }
-  return response.pagination.prevKey || null;
-}
-
-// Extract first page cursor from BBC TAMS response
-export function getFirstPageCursor(response: BBCApiResponse<any>): string | null {
-  const firstLink = response.links.find(link => link.rel === 'first');
-  if (firstLink?.params?.page) {
-    return firstLink.params.page;
-  }
-  return response.pagination.firstKey || null;
-}
-
-// Extract last page cursor from BBC TAMS response
-export function getLastPageCursor(response: BBCApiResponse<any>): string | null {
-  const lastLink = response.links.find(link => link.rel === 'last');
-  if (lastLink?.params?.page) {
-    return lastLink.params.page;
-  }
-  return response.pagination.lastKey || null;
-}
-
-
-
-// Check if there's a next page available
-export function hasNextPage(response: BBCApiResponse<any>): boolean {
-  return !!getNextPageCursor(response);
-}
-
-// Check if there's a previous page available
-export function hasPreviousPage(response: BBCApiResponse<any>): boolean {
-  return !!getPreviousPageCursor(response);
-}
-
-// Get total count from BBC TAMS response
-export function getTotalCount(response: BBCApiResponse<any>): number {
-  return response.pagination.count || 0;
-}
-
-// Get current limit from BBC TAMS response
-export function getCurrentLimit(response: BBCApiResponse<any>): number {
-  return response.pagination.limit || 0;
-}
-
-// Get timerange from BBC TAMS response
-export function getResponseTimerange(response: BBCApiResponse<any>): string | null {
-  return response.pagination.timerange || null;
-}
-
-// BBC TAMS Webhook Operations API Functions
-export async function getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-  // The actual endpoint is /service/webhooks, not /webhooks
-  return bbcTamsGet('/service/webhooks', options);
-}
-
-export async function createWebhook(webhookData: {
-  url: string;
-  events: string[];
-  api_key_name?: string;
-  api_key_value?: string;
-  owner_id?: string;
-}): Promise<any> {
-  // The actual endpoint is /service/webhooks, not /webhooks
-  return bbcTamsPost('/service/webhooks', webhookData);
-}
-
-export async function updateWebhook(
-  webhookId: string, 
-  webhookData: Partial<{
-    url: string;
-    events: string[];
-    api_key_name: string;
-    api_key_value: string;
-    owner_id: string;
-  }>
-): Promise<any> {
-  // Since the backend doesn't support PUT, we'll simulate this
-  console.warn('Webhook update not supported by backend, simulating operation');
-  return { ...webhookData, id: webhookId, updated: new Date().toISOString() };
-}
-
-export async function deleteWebhook(webhookId: string): Promise<void> {
-  // Since the backend doesn't support DELETE, we'll simulate this
-  console.warn('Webhook deletion not supported by backend, simulating operation');
-  return;
-}
-
-export async function testWebhook(webhookId: string): Promise<any> {
-  // Since the backend doesn't support testing, we'll simulate this
-  console.warn('Webhook testing not supported by backend, simulating operation');
-  return { 
-    success: true, 
-    message: 'Webhook test simulated successfully',
-    timestamp: new Date().toISOString() 
-  };
-}
-
-export async function getWebhookHistory(
-  webhookId: string, 
-  options: BBCApiOptions = {}
-): Promise<BBCApiResponse<any>> {
-  // Since the backend doesn't support history, we'll simulate this
-  console.warn('Webhook history not supported by backend, simulating operation');
-  return {
-    data: [
-      {
-        id: 'sim-1',
-        webhook_id: webhookId,
-        event_type: 'flow.created',
-        payload: { flow_id: 'demo-flow-1', action: 'created' },
-        response_status: 200,
-        created_at: new Date().toISOString(),
-        success: true
-      },
-      {
-        id: 'sim-2',
-        webhook_id: webhookId,
-        event_type: 'source.updated',
-        payload: { source_id: 'demo-source-1', action: 'updated' },
-        response_status: 200,
-        created_at: new Date(Date.now() - 3600000).toISOString(),
-        success: true
-      }
-    ],
-    pagination: {},
-    links: []
-  };
-}
-
-export async function getWebhookStats(webhookId: string): Promise<any> {
-  // Since the backend doesn't support stats, we'll simulate this
-  console.warn('Webhook statistics not supported by backend, simulating operation');
-  return {
-    total_deliveries: 15,
-    successful_deliveries: 14,
-    failed_deliveries: 1,
-    success_rate: 93.3,
-    average_response_time: 245,
-    last_delivery: new Date().toISOString()
-  };
-}
-
-// Get available webhook event types
-export async function getWebhookEventTypes(): Promise<string[]> {
-  try {
-    // The backend doesn't have a dedicated webhook-events endpoint
-    // We'll use the events we see in the actual webhook data
-    const response = await bbcTamsGet('/service/webhooks');
-    if (response && response.data && Array.isArray(response.data)) {
-      // Extract unique events from existing webhooks
-      const allEvents = new Set<string>();
-      response.data.forEach((webhook: any) => {
-        if (webhook.events && Array.isArray(webhook.events)) {
-          webhook.events.forEach((event: string) => allEvents.add(event));
-        }
-      });
-      
-      if (allEvents.size > 0) {
-        return Array.from(allEvents);
-      }
-    }
-  } catch (error) {
-    console.warn('Could not retrieve webhook event types from backend:', error);
-  }
-  
-  // Fallback to common BBC TAMS webhook events based on what we see in the backend
-  return [
-    'flow.created',
-    'flow.updated',
-    'flow.deleted',
-    'source.created',
-    'source.updated',
-    'source.deleted',
-    'segment.created',
-    'segment.updated',
-    'segment.deleted',
-    'object.created',
-    'object.updated',
-    'object.deleted',
-    'deletion_request.created',
-    'deletion_request.approved',
-    'deletion_request.rejected'
-  ];
-}
-
-// BBC TAMS Field Operations API Functions
-export async function getFieldValue<T = any>(
-  entityType: 'flows' | 'sources' | 'segments',
-  entityId: string,
-  fieldKey: string,
-  options?: BBCApiOptions
-): Promise<T> {
-  const url = `${BBC_TAMS_BASE_URL}/${entityType}/${entityId}/${fieldKey}`;
-  const response = await bbcTamsGet<T>(url, options);
-  return response.data as T;
-}
-
-export async function updateFieldValue<T = any>(
-  entityType: 'flows' | 'sources' | 'segments',
-  entityId: string,
-  fieldKey: string,
-  value: T,
-  options?: BBCApiOptions
-): Promise<BBCApiResponse<T>> {
-  const url = `${BBC_TAMS_BASE_URL}/${entityType}/${entityId}/${fieldKey}`;
-  const response = await bbcTamsPut<T>(url, value, options);
-  return response as BBCApiResponse<T>;
-}
-
-export async function deleteField(
-  entityType: 'flows' | 'sources' | 'segments',
-  entityId: string,
-  fieldKey: string,
-  options?: BBCApiOptions
-): Promise<BBCApiResponse<void>> {
-  const url = `${BBC_TAMS_BASE_URL}/${entityType}/${entityId}/${fieldKey}`;
-  const response = await bbcTamsDelete(url, options);
-  return response as unknown as BBCApiResponse<void>;
-}
-
-export async function getFieldMetadata(
-  entityType: 'flows' | 'sources' | 'segments',
-  entityId: string,
-  fieldKey: string,
-  options?: BBCApiOptions
-): Promise<BBCApiResponse<any>> {
-  const url = `${BBC_TAMS_BASE_URL}/${entityType}/${entityId}/${fieldKey}`;
-  const response = await bbcTamsHead(url, options);
-  return response as BBCApiResponse<any>;
-}
-
-// Get all available fields for an entity
-export async function getEntityFields(
-  entityType: 'flows' | 'sources' | 'segments',
-  entityId: string,
-  options?: BBCApiOptions
-): Promise<string[]> {
-  try {
-    // Try to get field information from HEAD request
-    const response = await bbcTamsHead(`${BBC_TAMS_BASE_URL}/${entityType}/${entityId}`, options);
-    
-    // For now, return common BBC TAMS fields since the backend might not expose field discovery yet
-    // In a production environment, this would parse headers or response metadata
-    const commonFields = [
-      'label',
-      'description', 
-      'format',
-      'codec',
-      'frame_width',
-      'frame_height',
-      'frame_rate',
-      'sample_rate',
-      'channels',
-      'max_bit_rate',
-      'tags',
-      'created',
-      'updated'
-    ];
-    
-    console.log('Using common BBC TAMS fields for', entityType, entityId);
-    return commonFields;
-    
-  } catch (error) {
-    console.warn('Could not retrieve entity fields from backend, using fallback:', error);
-    
-    // Fallback to common fields if backend doesn't support field discovery
-    const fallbackFields = [
-      'label',
-      'description',
-      'format',
-      'codec',
-      'tags'
-    ];
-    
-    return fallbackFields;
-  }
-}
-
-// Extract all available navigation cursors from BBC TAMS response
-export function getAllNavigationCursors(response: BBCApiResponse<any>): {
-  next?: string;
-  prev?: string;
-  first?: string;
-  last?: string;
-} {
-  const cursors: { next?: string; prev?: string; first?: string; last?: string } = {};
-  
-  // Try Link headers first (RFC 5988 compliant)
-  const nextLink = response.links.find(link => link.rel === 'next');
-  const prevLink = response.links.find(link => link.rel === 'prev');
-  const firstLink = response.links.find(link => link.rel === 'first');
-  const lastLink = response.links.find(link => link.rel === 'last');
-  
-  if (nextLink?.params?.page) cursors.next = nextLink.params.page;
-  if (prevLink?.params?.page) cursors.prev = prevLink.params.page;
-  if (firstLink?.params?.page) cursors.first = firstLink.params.page;
-  if (lastLink?.params?.page) cursors.last = lastLink.params.page;
-  
-  // Fallback to X-Paging-* headers if Link headers don't have page info
-  if (!cursors.next && response.pagination.nextKey) cursors.next = response.pagination.nextKey;
-  if (!cursors.prev && response.pagination.prevKey) cursors.prev = response.pagination.prevKey;
-  if (!cursors.first && response.pagination.firstKey) cursors.first = response.pagination.firstKey;
-  if (!cursors.last && response.pagination.lastKey) cursors.last = response.pagination.lastKey;
-  
-  return cursors;
-}
-
-// BBC TAMS Storage API Functions
-
-/**
- * Create storage allocation for a flow
- * POST /flows/{flow_id}/storage
- */
-export async function createFlowStorage(
-  flowId: string, 
-  storageRequest: { limit?: number; object_ids?: string[] }
-): Promise<{
-  storage_locations: Array<{
-    object_id: string;
-    put_url: string;
-    bucket_put_url?: string;
-  }>;
-}> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/storage`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(storageRequest),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Storage allocation failed: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error creating flow storage:', error);
-    throw error;
-  }
-}
-
-// BBC TAMS Flow Tags API Functions
-
-/**
- * Get flow tags
- * GET /flows/{flow_id}/tags
- */
-export async function getFlowTags(flowId: string): Promise<Record<string, string>> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/tags`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow tags not supported by IBC Thiago backend, returning empty tags');
-        return {};
-      }
-      throw new Error(`Failed to get flow tags: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error getting flow tags:', error);
-    // If it's a network error or 404, return empty tags for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot GET'))) {
-      console.warn('Flow tags not supported by backend, returning empty tags');
-      return {};
-    }
-    throw error;
-  }
-}
-
-/**
- * Update flow tag
- * PUT /flows/{flow_id}/tags/{name}
- */
-export async function updateFlowTag(flowId: string, tagName: string, tagValue: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/tags/${encodeURIComponent(tagName)}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ value: tagValue }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to update flow tag: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error updating flow tag:', error);
-    throw error;
-  }
-}
-
-/**
- * Set flow tag (alias for updateFlowTag)
- * PUT /flows/{flow_id}/tags/{name}
- */
-export async function setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<void> {
-  return updateFlowTag(flowId, tagName, tagValue);
-}
-
-/**
- * Delete flow tag
- * DELETE /flows/{flow_id}/tags/{name}
- */
-export async function deleteFlowTag(flowId: string, tagName: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/tags/${encodeURIComponent(tagName)}`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to delete flow tag: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error deleting flow tag:', error);
-    throw error;
-  }
-}
-
-/**
- * Update flow read-only status
- * PUT /flows/{flow_id}/read_only?read_only={boolean}
- */
-export async function updateFlowReadOnly(flowId: string, readOnly: boolean): Promise<void> {
-  try {
-    const url = `${BBC_TAMS_BASE_URL}/flows/${flowId}/read_only?read_only=${readOnly}`;
-    
-    console.log('Making read-only update request:', {
-      url,
-      method: 'PUT',
-      baseUrl: BBC_TAMS_BASE_URL,
-      flowId,
-      readOnly
-    });
-    
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    console.log('Read-only update response:', {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Error response body:', errorText);
-      throw new Error(`Failed to update flow read-only status: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-  } catch (error) {
-    console.error('Error updating flow read-only status:', error);
-    throw error;
-  }
-}
-
-/**
- * Set flow read-only status (alias for updateFlowReadOnly)
- * PUT /flows/{flow_id}/read_only
- */
-export async function setFlowReadOnly(flowId: string, readOnly: boolean): Promise<void> {
-  return updateFlowReadOnly(flowId, readOnly);
-}
-
-/**
- * Get flow collection
- * GET /flows/{flow_id}/flow_collection
- */
-export async function getFlowCollection(flowId: string): Promise<any> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/flow_collection`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow collections not supported by IBC Thiago backend, returning null');
-        return null;
-      }
-      throw new Error(`Failed to get flow collection: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error getting flow collection:', error);
-    // If it's a network error or 404, return null for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot GET'))) {
-      console.warn('Flow collections not supported by backend, returning null');
-      return null;
-    }
-    throw error;
-  }
-}
-
-/**
- * Set flow collection
- * PUT /flows/{flow_id}/flow_collection
- */
-export async function setFlowCollection(flowId: string, collectionId: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/flow_collection`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ collection_id: collectionId }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to set flow collection: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error setting flow collection:', error);
-    throw error;
-  }
-}
-
-/**
- * Remove flow from collection
- * DELETE /flows/{flow_id}/flow_collection
- */
-export async function removeFlowFromCollection(flowId: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/flow_collection`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to remove flow from collection: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error removing flow from collection:', error);
-    throw error;
-  }
-}
-
-/**
- * Get flow read-only status
- * GET /flows/{flow_id}/read_only
- */
-export async function getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/read_only`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get flow read-only status: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error getting flow read-only status:', error);
-    throw error;
-  }
-}
-
-/**
- * Get flow description
- * GET /flows/{flow_id}/description
- */
-export async function getFlowDescription(flowId: string): Promise<{ description: string | null }> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/description`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow description not supported by IBC Thiago backend, returning null');
-        return { description: null };
-      }
-      throw new Error(`Failed to get flow description: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error getting flow description:', error);
-    // If it's a network error or 404, return null for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot GET'))) {
-      console.warn('Flow description not supported by backend, returning null');
-      return { description: null };
-    }
-    throw error;
-  }
-}
-
-/**
- * Set flow description
- * PUT /flows/{flow_id}/description
- */
-export async function setFlowDescription(flowId: string, description: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/description`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ description }),
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow description not supported by IBC Thiago backend, operation ignored');
-        return;
-      }
-      throw new Error(`Failed to set flow description: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error setting flow description:', error);
-    // If it's a network error or 404, ignore for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot PUT'))) {
-      console.warn('Flow description not supported by backend, operation ignored');
-      return;
-    }
-    throw error;
-  }
-}
-
-/**
- * Get flow label
- * GET /flows/{flow_id}/label
- */
-export async function getFlowLabel(flowId: string): Promise<{ label: string | null }> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/label`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow label not supported by IBC Thiago backend, returning null');
-        return { label: null };
-      }
-      throw new Error(`Failed to get flow label: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error getting flow label:', error);
-    // If it's a network error or 404, return null for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot GET'))) {
-      console.warn('Flow label not supported by backend, returning null');
-      return { label: null };
-    }
-    throw error;
-  }
-}
-
-/**
- * Set flow label
- * PUT /flows/{flow_id}/label
- */
-export async function setFlowLabel(flowId: string, label: string): Promise<void> {
-  try {
-    const response = await fetch(`${BBC_TAMS_BASE_URL}/flows/${flowId}/label`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ label }),
-    });
-
-    if (!response.ok) {
-      // Check if this is a 404 from IBC Thiago backend (unsupported endpoint)
-      if (response.status === 404) {
-        console.warn('Flow label not supported by IBC Thiago backend, operation ignored');
-        return;
-      }
-      throw new Error(`Failed to set flow label: ${response.status} ${response.statusText}`);
-    }
-  } catch (error) {
-    console.error('Error setting flow label:', error);
-    // If it's a network error or 404, ignore for unsupported backends
-    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Cannot PUT'))) {
-      console.warn('Flow label not supported by backend, operation ignored');
-      return;
-    }
-    throw error;
-  }
-}
-
-
@@ -0,0 +1,217 @@
+/**
+ * Backend Capability Discovery
+ *
+ * BACKEND_APIS says which features a backend type is expected to offer; discovery finds out
+ * what the connected server actually serves. `/service` supplies the API version and event
+ * stream mechanisms, `/service/storage-backends` the storage backends, and optional endpoints
+ * are probed with HEAD, falling back to OPTIONS when the server does not allow HEAD.
+ *
+ * Discovered support overrides the configured features; whatever discovery could not settle
+ * (network errors, 5xx) keeps its configured value.
+ */
+
+import type { BackendApiConfig } from '../config/apiConfig';
+import type { BackendCapabilities, EndpointSupport, OptionalEndpoint } from '../types/backend';
+import { isAbortError, type RequestPolicy } from './http';
+import { BackendHttpClient } from './pipeline';
+
+type BackendFeatures = BackendApiConfig['features'];
+
+type CapabilityListener = (capabilities: BackendCapabilities) => void;
+
+interface ServiceDocument {
+  api_version?: string;
+  service_version?: string;
+  version?: string;
+  event_stream_mechanisms?: Array<{ name?: string } | string>;
+  capabilities?: { storage_backends?: string[] };
+}
+
+interface StorageBackendEntry {
+  id?: string;
+  label?: string;
+  type?: string;
+}
+
+// Probes are quick checks: a short timeout and no retries
+const PROBE_POLICY: RequestPolicy = { timeout: 5000, retries: 0 };
+
+// Optional endpoints without an entry in the backend's `endpoints` config
+const SEARCH_PATH = '/search';
+const QC_STATISTICS_PATH = '/api/v1/qc/statistics';
+const STORAGE_BACKENDS_PATH = '/service/storage-backends';
+
+// Configured features that depend on a single optional endpoint
+const FEATURE_ENDPOINTS: Partial<Record<keyof BackendFeatures, OptionalEndpoint>> = {
+  supportsWebhooks: 'webhooks',
+  supportsAdvancedSearch: 'search',
+  supportsHealthMonitoring: 'health'
+};
+
+function endpointPaths(config: BackendApiConfig): Record<OptionalEndpoint, string> {
+  return {
+    health: config.endpoints.health,
+    metrics: config.endpoints.metrics,
+    search: SEARCH_PATH,
+    webhooks: config.endpoints.webhooks,
+    flowDeleteRequests: config.endpoints.flowDeleteRequests,
+    qcStatistics: QC_STATISTICS_PATH
+  };
+}
+
+/**
+ * Whether a status means the endpoint exists; 4xx other than "not found" (bad query,
+ * missing credentials) still prove it does
+ */
+function supportFromStatus(status: number): EndpointSupport {
+  if (status === 404 || status === 410 || status === 501) return 'unavailable';
+  if (status >= 500) return 'unknown';
+  return 'available';
+}
+
+async function probeEndpoint(http: BackendHttpClient, path: string): Promise<EndpointSupport> {
+  if (!path) return 'unknown';
+  try {
+    const head = await http.fetch(path, { method: 'HEAD' }, PROBE_POLICY);
+    if (head.status !== 405) {
+      return supportFromStatus(head.status);
+    }
+    // The resource exists but not for HEAD; its Allow header says whether it can be read
+    const options = await http.fetch(path, { method: 'OPTIONS' }, PROBE_POLICY);
+    const allow = options.headers.get('Allow');
+    if (options.ok && allow) {
+      return allow.toUpperCase().includes('GET') ? 'available' : 'unavailable';
+    }
+    return 'available';
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return 'unknown';
+  }
+}
+
+async function readJson<T>(http: BackendHttpClient, path: string): Promise<T | null> {
+  try {
+    const response = await http.fetch(path, { headers: { 'Accept': 'application/json' } }, PROBE_POLICY);
+    return response.ok ? await response.json() as T : null;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // Unreadable documents are discovered as absent, like a non-2xx answer
+    return null;
+  }
+}
+
+function mechanismNames(service: ServiceDocument | null): string[] {
+  return (service?.event_stream_mechanisms ?? [])
+    .map(mechanism => typeof mechanism === 'string' ? mechanism : mechanism.name ?? '')
+    .filter(Boolean);
+}
+
+function storageBackendNames(service: ServiceDocument | null, listed: unknown): string[] {
+  const entries = Array.isArray(listed)
+    ? listed
+    : (listed as { storage_backends?: unknown[] } | null)?.storage_backends ?? [];
+  const names = (entries as Array<StorageBackendEntry | string>)
+    .map(entry => typeof entry === 'string' ? entry : entry.label ?? entry.id ?? entry.type ?? '')
+    .filter(Boolean);
+  return [...new Set([...names, ...(service?.capabilities?.storage_backends ?? [])])];
+}
+
+/**
+ * Configured features with discovered support applied
+ */
+export function resolveFeatures(config: BackendApiConfig, capabilities: BackendCapabilities | null): BackendFeatures {
+  const features = { ...config.features };
+  if (!capabilities || capabilities.backendId !== config.id) {
+    return features;
+  }
+
+  if (capabilities.eventStreamMechanisms.some(name => /webhook/i.test(name))) {
+    features.supportsWebhooks = true;
+  }
+  if (capabilities.storageBackends.length > 0) {
+    features.supportsStorageAllocation = true;
+  }
+  for (const [feature, endpoint] of Object.entries(FEATURE_ENDPOINTS) as [keyof BackendFeatures, OptionalEndpoint][]) {
+    const support = capabilities.endpoints[endpoint];
+    if (support !== 'unknown') {
+      features[feature] = support === 'available';
+    }
+  }
+  return features;
+}
+
+/**
+ * Whether the server serves an optional endpoint; true until discovery proves otherwise
+ */
+export function isEndpointAvailable(capabilities: BackendCapabilities | null, endpoint: OptionalEndpoint): boolean {
+  return capabilities?.endpoints[endpoint] !== 'unavailable';
+}
+
+class CapabilityRegistry {
+  private capabilities = new Map<string, BackendCapabilities>();
+  private discoveries = new Map<string, Promise<BackendCapabilities>>();
+  private listeners = new Set<CapabilityListener>();
+
+  /**
+   * Capabilities last discovered for a backend, if any
+   */
+  get(backendId: string): BackendCapabilities | null {
+    return this.capabilities.get(backendId) ?? null;
+  }
+
+  /**
+   * Discover a backend's capabilities; concurrent calls share one discovery and later calls
+   * reuse its result unless `refresh` is set
+   */
+  discover(config: BackendApiConfig, refresh = false): Promise<BackendCapabilities> {
+    const known = this.capabilities.get(config.id);
+    if (known && !refresh) {
+      return Promise.resolve(known);
+    }
+    let discovery = this.discoveries.get(config.id);
+    if (!discovery) {
+      discovery = this.run(config).finally(() => this.discoveries.delete(config.id));
+      this.discoveries.set(config.id, discovery);
+    }
+    return discovery;
+  }
+
+  /**
+   * Subscribe to newly discovered capabilities
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: CapabilityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async run(config: BackendApiConfig): Promise<BackendCapabilities> {
+    const http = new BackendHttpClient(config);
+    const paths = endpointPaths(config);
+    const [service, listedStorage, ...support] = await Promise.all([
+      readJson<ServiceDocument>(http, '/service'),
+      readJson<unknown>(http, STORAGE_BACKENDS_PATH),
+      ...Object.values(paths).map(path => probeEndpoint(http, path))
+    ]);
+
+    const endpointNames = Object.keys(paths) as OptionalEndpoint[];
+    const capabilities: BackendCapabilities = {
+      backendId: config.id,
+      eventStreamMechanisms: mechanismNames(service),
+      storageBackends: storageBackendNames(service, listedStorage),
+      endpoints: Object.fromEntries(endpointNames.map((name, index) => [name, support[index] ?? 'unknown'])) as Record<OptionalEndpoint, EndpointSupport>,
+      discoveredAt: new Date()
+    };
+    const apiVersion = service?.api_version ?? service?.version;
+    if (apiVersion) capabilities.apiVersion = apiVersion;
+    if (service?.service_version) capabilities.serviceVersion = service.service_version;
+
+    this.capabilities.set(config.id, capabilities);
+    this.listeners.forEach(listener => listener(capabilities));
+    return capabilities;
+  }
+}
+
+export const capabilityRegistry = new CapabilityRegistry();
@@ -5,14 +5,37 @@
  * Implements the IApiClient interface with BBC TAMS core features only.
  */
 
-import { IApiClient, BackendFeature, ApiClientOptions } from '../interfaces/IApiClient';
+import { IApiClient, BackendFeature, ApiClientOptions, BackendHealth } from '../interfaces/IApiClient';
+import { isAbortError, signalInit, type RequestOptions } from '../http';
+import { errorMessage, withErrorContext } from '../errors';
+import { BackendHttpClient } from '../pipeline';
 import { BackendApiConfig } from '../../config/apiConfig';
-import { BBCApiResponse, BBCApiOptions, buildBBCQueryString, parseBBCHeaders, parseLinkHeader } from '../api';
+import { BBCApiResponse, BBCApiOptions, buildBBCQueryString, parseBBCHeaders, parseLinkHeader } from '../tamsProtocol';
+import type { IBCThiagoFlow, IBCThiagoHLSManifest, IBCThiagoMarker, IBCThiagoSource } from '../ibcThiagoApi';
+import { decodeEntity, decodeEntityList } from '../tamsDecoders';
+import type {
+  DeleteOptions,
+  Flow,
+  FlowInput,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsEntityName,
+  TamsEntityTypes,
+  TamsObject,
+  TamsObjectInput,
+  Webhook,
+  WebhookInput
+} from '../../types/tams';
 
 export class BbcTamsApiClient implements IApiClient {
   private config: BackendApiConfig;
   private options: ApiClientOptions;
-  private baseUrl: string;
+  private http: BackendHttpClient;
   private connectionStatus: {
     connected: boolean;
     lastCheck: Date;
@@ -32,7 +55,7 @@ export class BbcTamsApiClient implements IApiClient {
       debug: false,
       ...options,
     };
-    this.baseUrl = config.baseUrl;
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   // ============================================================================
@@ -51,7 +74,7 @@ export class BbcTamsApiClient implements IApiClient {
 
   setBackendConfig(config: BackendApiConfig): void {
     this.config = config;
-    this.baseUrl = config.baseUrl;
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   getBackendConfig(): BackendApiConfig {
@@ -61,7 +84,7 @@ export class BbcTamsApiClient implements IApiClient {
   async testConnection(): Promise<boolean> {
     try {
       const startTime = Date.now();
-      const response = await fetch(`${this.baseUrl}/health`, {
+      const response = await this.http.fetch('/health', {
         method: 'GET',
         headers: { 'Accept': 'application/json' },
       });
@@ -95,172 +118,181 @@ export class BbcTamsApiClient implements IApiClient {
   // CORE TAMS OPERATIONS
   // ============================================================================
 
-  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/sources', options);
+  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<Source>> {
+    return this.decodeList('source', await this.bbcTamsGet<unknown>('/sources', options), '/sources');
   }
 
-  async getSource(id: string): Promise<any> {
-    return this.request(`/sources/${id}`);
+  async getSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    return this.decode('source', await this.request<unknown>(`/sources/${id}`, {}, options), '/sources/{id}');
   }
 
-  async createSource(source: any): Promise<any> {
-    return this.request('/sources', {
+  async createSource(source: SourceInput, options: RequestOptions = {}): Promise<Source> {
+    const created = await this.request<unknown>('/sources', {
       method: 'POST',
       body: JSON.stringify(source),
-    });
+    }, options);
+    return this.decode('source', created, '/sources');
   }
 
-  async updateSource(id: string, source: any): Promise<any> {
-    return this.request(`/sources/${id}`, {
+  async updateSource(id: string, source: Partial<SourceInput>, options: RequestOptions = {}): Promise<Source> {
+    const updated = await this.request<unknown>(`/sources/${id}`, {
       method: 'PUT',
       body: JSON.stringify(source),
-    });
+    }, options);
+    return this.decode('source', updated, '/sources/{id}');
   }
 
-  async deleteSource(id: string, options: any = {}): Promise<any> {
+  async deleteSource(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
     // BBC TAMS doesn't support soft delete
-    return this.request(`/sources/${id}`, { method: 'DELETE' });
+    await this.request(`/sources/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
-  async restoreSource(id: string): Promise<any> {
+  async restoreSource(id: string): Promise<Source> {
     throw new Error('Source restoration not supported by BBC TAMS backend');
   }
 
-  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/flows', options);
+  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<Flow>> {
+    return this.decodeList('flow', await this.bbcTamsGet<unknown>('/flows', options), '/flows');
   }
 
-  async getFlow(id: string): Promise<any> {
-    return this.request(`/flows/${id}`);
+  async getFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.request<unknown>(`/flows/${id}`, {}, options), '/flows/{id}');
   }
 
-  async createFlow(flow: any): Promise<any> {
-    return this.request('/flows', {
+  async createFlow(flow: FlowInput, options: RequestOptions = {}): Promise<Flow> {
+    const created = await this.request<unknown>('/flows', {
       method: 'POST',
       body: JSON.stringify(flow),
-    });
+    }, options);
+    return this.decode('flow', created, '/flows');
   }
 
-  async updateFlow(id: string, flow: any): Promise<any> {
-    return this.request(`/flows/${id}`, {
+  async updateFlow(id: string, flow: FlowUpdate, options: RequestOptions = {}): Promise<Flow> {
+    const updated = await this.request<unknown>(`/flows/${id}`, {
       method: 'PUT',
       body: JSON.stringify(flow),
-    });
+    }, options);
+    return this.decode('flow', updated, '/flows/{id}');
   }
 
-  async deleteFlow(id: string, options: any = {}): Promise<any> {
+  async deleteFlow(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
     // BBC TAMS doesn't support soft delete
-    return this.request(`/flows/${id}`, { method: 'DELETE' });
+    await this.request(`/flows/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
-  async restoreFlow(id: string): Promise<any> {
+  async restoreFlow(id: string): Promise<Flow> {
     throw new Error('Flow restoration not supported by BBC TAMS backend');
   }
 
-  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet(`/flows/${flowId}/segments`, options);
+  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<FlowSegment>> {
+    const endpoint = `/flows/${flowId}/segments`;
+    return this.decodeList('segment', await this.bbcTamsGet<unknown>(endpoint, options), '/flows/{id}/segments');
   }
 
-  async createFlowSegment(flowId: string, segment: any, file?: File): Promise<any> {
+  async createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File, options: RequestOptions = {}): Promise<FlowSegment> {
+    let created: unknown;
     if (file) {
       const formData = new FormData();
       formData.append('segment_data', JSON.stringify(segment));
       formData.append('file', file);
       
-      return this.request(`/flows/${flowId}/segments`, {
+      created = await this.request<unknown>(`/flows/${flowId}/segments`, {
         method: 'POST',
         body: formData,
-      });
+      }, options);
     } else {
-      return this.request(`/flows/${flowId}/segments`, {
+      created = await this.request<unknown>(`/flows/${flowId}/segments`, {
         method: 'POST',
         body: JSON.stringify(segment),
-      });
+      }, options);
     }
+    return this.decode('segment', created, '/flows/{id}/segments');
   }
 
-  async deleteFlowSegments(flowId: string, options: any = {}): Promise<any> {
+  async deleteFlowSegments(flowId: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams = new URLSearchParams();
     if (options.timerange) queryParams.append('timerange', options.timerange);
     
     const endpoint = `/flows/${flowId}/segments${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return this.request(endpoint, { method: 'DELETE' });
+    await this.request(endpoint, { method: 'DELETE' }, requestOptions);
   }
 
-  async cleanupFlow(id: string, hours: number = 24): Promise<any> {
+  async cleanupFlow(id: string, hours: number = 24): Promise<unknown> {
     throw new Error('cleanupFlow is not supported by BBC TAMS backend');
   }
 
-  async updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any> {
+  async updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate): Promise<FlowSegment> {
     throw new Error('updateFlowSegment is not supported by BBC TAMS backend');
   }
 
-  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/objects', options);
+  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<TamsObject>> {
+    return this.decodeList('object', await this.bbcTamsGet<unknown>('/objects', options), '/objects');
   }
 
-  async getObject(id: string): Promise<any> {
-    return this.request(`/objects/${id}`);
+  async getObject(id: string, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.decode('object', await this.request<unknown>(`/objects/${id}`, {}, options), '/objects/{id}');
   }
 
-  async createObject(object: any): Promise<any> {
-    return this.request('/objects', {
+  async createObject(object: TamsObjectInput, options: RequestOptions = {}): Promise<TamsObject> {
+    const created = await this.request<unknown>('/objects', {
       method: 'POST',
       body: JSON.stringify(object),
-    });
+    }, options);
+    return this.decode('object', created, '/objects');
   }
 
-  async deleteObject(id: string, options: any = {}): Promise<any> {
-    return this.request(`/objects/${id}`, { method: 'DELETE' });
+  async deleteObject(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request(`/objects/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
   // ============================================================================
   // ADVANCED FEATURES (BBC TAMS Core Only)
   // ============================================================================
 
-  async getFlowUsageAnalytics(): Promise<any> {
-    return this.request('/analytics/flow-usage');
+  async getFlowUsageAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.request('/analytics/flow-usage', {}, options);
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
-    return this.request('/analytics/storage-usage');
+  async getStorageUsageAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.request('/analytics/storage-usage', {}, options);
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
-    return this.request('/analytics/time-range-analysis');
+  async getTimeRangeAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.request('/analytics/time-range-analysis', {}, options);
   }
 
-  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.bbcTamsGet('/webhooks', options);
+  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<Webhook>> {
+    return this.decodeList('webhook', await this.bbcTamsGet<unknown>('/webhooks', options), '/webhooks');
   }
 
-  async createWebhook(webhookData: any): Promise<any> {
-    return this.bbcTamsPost('/webhooks', webhookData);
+  async createWebhook(webhookData: WebhookInput, options: RequestOptions = {}): Promise<Webhook> {
+    return this.decode('webhook', await this.bbcTamsPost<unknown>('/webhooks', webhookData, options), '/webhooks');
   }
 
-  async updateWebhook(webhookId: string, webhookData: any): Promise<any> {
-    return this.bbcTamsPut(`/webhooks/${webhookId}`, webhookData);
+  async updateWebhook(webhookId: string, webhookData: Partial<WebhookInput>, options: RequestOptions = {}): Promise<Webhook> {
+    const updated = await this.bbcTamsPut<unknown>(`/webhooks/${webhookId}`, webhookData, options);
+    return this.decode('webhook', updated, '/webhooks/{id}');
   }
 
-  async deleteWebhook(webhookId: string): Promise<void> {
-    return this.bbcTamsDelete(`/webhooks/${webhookId}`);
+  async deleteWebhook(webhookId: string, options: RequestOptions = {}): Promise<void> {
+    return this.bbcTamsDelete(`/webhooks/${webhookId}`, options);
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
-    return this.request(`/webhooks/${webhookId}/test`, { method: 'POST' });
+  async testWebhook(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/webhooks/${webhookId}/test`, { method: 'POST' }, options);
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
-    return this.request(`/webhooks/${webhookId}/history`);
+  async getWebhookHistory(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/webhooks/${webhookId}/history`, {}, options);
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
-    return this.request(`/webhooks/${webhookId}/stats`);
+  async getWebhookStats(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.request(`/webhooks/${webhookId}/stats`, {}, options);
   }
 
-  async getWebhookEventTypes(): Promise<string[]> {
+  async getWebhookEventTypes(options: RequestOptions = {}): Promise<string[]> {
     try {
-      const response = await this.request<{ events?: string[] }>('/webhook-events');
+      const response = await this.request<{ events?: string[] }>('/webhook-events', {}, options);
       return response.events || [];
     } catch (error) {
       console.warn('Could not retrieve webhook event types, using fallback:', error);
@@ -279,31 +311,31 @@ export class BbcTamsApiClient implements IApiClient {
   }
 
   // Flow Management - Basic BBC TAMS features only
-  async getFlowTags(flowId: string): Promise<Record<string, string>> {
-    return this.request(`/flows/${flowId}/tags`);
+  async getFlowTags(flowId: string, options: RequestOptions = {}): Promise<Record<string, string>> {
+    return this.request(`/flows/${flowId}/tags`, {}, options);
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
+  async setFlowTag(flowId: string, tagName: string, tagValue: string, options: RequestOptions = {}): Promise<unknown> {
     return this.request(`/flows/${flowId}/tags/${tagName}`, {
       method: 'PUT',
       body: JSON.stringify({ value: tagValue }),
-    });
+    }, options);
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<any> {
-    return this.request(`/flows/${flowId}/tags/${tagName}`, { method: 'DELETE' });
+  async deleteFlowTag(flowId: string, tagName: string, options: RequestOptions = {}): Promise<void> {
+    await this.request(`/flows/${flowId}/tags/${tagName}`, { method: 'DELETE' }, options);
   }
 
   // BBC TAMS doesn't support flow collections
-  async getFlowCollection(flowId: string): Promise<any> {
+  async getFlowCollection(flowId: string): Promise<unknown> {
     throw new Error('Flow collections not supported by BBC TAMS backend');
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<any> {
+  async setFlowCollection(flowId: string, collectionId: string): Promise<unknown> {
     throw new Error('Flow collections not supported by BBC TAMS backend');
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<any> {
+  async removeFlowFromCollection(flowId: string): Promise<void> {
     throw new Error('Flow collections not supported by BBC TAMS backend');
   }
 
@@ -311,34 +343,34 @@ export class BbcTamsApiClient implements IApiClient {
     throw new Error('Flow read-only status not supported by BBC TAMS backend');
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any> {
+  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<unknown> {
     throw new Error('Flow read-only status not supported by BBC TAMS backend');
   }
 
-  async getFlowDescription(flowId: string): Promise<{ description: string }> {
-    return this.request(`/flows/${flowId}/description`);
+  async getFlowDescription(flowId: string, options: RequestOptions = {}): Promise<{ description: string | null }> {
+    return this.request(`/flows/${flowId}/description`, {}, options);
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<any> {
+  async setFlowDescription(flowId: string, description: string, options: RequestOptions = {}): Promise<unknown> {
     return this.request(`/flows/${flowId}/description`, {
       method: 'PUT',
       body: JSON.stringify({ description }),
-    });
+    }, options);
   }
 
-  async getFlowLabel(flowId: string): Promise<{ label: string }> {
-    return this.request(`/flows/${flowId}/label`);
+  async getFlowLabel(flowId: string, options: RequestOptions = {}): Promise<{ label: string | null }> {
+    return this.request(`/flows/${flowId}/label`, {}, options);
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<any> {
+  async setFlowLabel(flowId: string, label: string, options: RequestOptions = {}): Promise<unknown> {
     return this.request(`/flows/${flowId}/label`, {
       method: 'PUT',
       body: JSON.stringify({ label }),
-    });
+    }, options);
   }
 
   // Field Operations
-  async getFieldValue<T = any>(
+  async getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -349,7 +381,7 @@ export class BbcTamsApiClient implements IApiClient {
     return response.data as T;
   }
 
-  async updateFieldValue<T = any>(
+  async updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -377,10 +409,10 @@ export class BbcTamsApiClient implements IApiClient {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>> {
+  ): Promise<BBCApiResponse<Record<string, unknown>>> {
     const url = `/${entityType}/${entityId}/${fieldKey}`;
     const response = await this.bbcTamsHead(url, options);
-    return response as unknown as BBCApiResponse<any>;
+    return response as unknown as BBCApiResponse<Record<string, unknown>>;
   }
 
   async getEntityFields(
@@ -426,35 +458,35 @@ export class BbcTamsApiClient implements IApiClient {
   }
 
   // BBC TAMS doesn't support storage allocation
-  async getStorage(flowId: string): Promise<any> {
+  async getStorage(flowId: string): Promise<unknown> {
     throw new Error('Storage allocation not supported by BBC TAMS backend');
   }
 
-  async getHealth(): Promise<any> {
-    return this.request('/health');
+  async getHealth(options: RequestOptions = {}): Promise<BackendHealth> {
+    return this.request<BackendHealth>('/health', {}, options);
   }
 
-  async getMetrics(): Promise<any> {
-    return this.request('/metrics');
+  async getMetrics(options: RequestOptions = {}): Promise<unknown> {
+    return this.request('/metrics', {}, options);
   }
 
-  async getService(): Promise<any> {
-    return this.request('/service');
+  async getService(options: RequestOptions = {}): Promise<Service> {
+    return this.decode('service', await this.request<unknown>('/service', {}, options), '/service');
   }
 
   // ============================================================================
   // BACKEND-SPECIFIC FEATURES (Not applicable for BBC TAMS)
   // ============================================================================
 
-  async getHLSManifest?(flowId: string): Promise<any> {
+  async getHLSManifest?(flowId: string): Promise<IBCThiagoHLSManifest> {
     throw new Error('HLS manifest not supported by BBC TAMS backend');
   }
 
-  async createMarker?(markerData: any): Promise<any> {
+  async createMarker?(markerData: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
     throw new Error('Marker creation not supported by BBC TAMS backend');
   }
 
-  async updateMarker?(markerId: string, updates: any): Promise<any> {
+  async updateMarker?(markerId: string, updates: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
     throw new Error('Marker updates not supported by BBC TAMS backend');
   }
 
@@ -470,11 +502,11 @@ export class BbcTamsApiClient implements IApiClient {
     throw new Error('WebSocket not supported by BBC TAMS backend');
   }
 
-  subscribeToWebSocket?(eventType: string, callback: (data: any) => void): void {
+  subscribeToWebSocket?(eventType: string, callback: (data: unknown) => void): void {
     throw new Error('WebSocket not supported by BBC TAMS backend');
   }
 
-  unsubscribeFromWebSocket?(eventType: string, callback: (data: any) => void): void {
+  unsubscribeFromWebSocket?(eventType: string, callback: (data: unknown) => void): void {
     throw new Error('WebSocket not supported by BBC TAMS backend');
   }
 
@@ -482,27 +514,27 @@ export class BbcTamsApiClient implements IApiClient {
     return false;
   }
 
-  extractMarkersFromSource?(source: any): any[] {
+  extractMarkersFromSource?(source: IBCThiagoSource): IBCThiagoMarker[] {
     return [];
   }
 
-  extractVideoFlowsFromSource?(source: any): any[] {
+  extractVideoFlowsFromSource?(source: IBCThiagoSource): IBCThiagoFlow[] {
     return source.flows || [];
   }
 
-  isMarkerFlow?(flow: any): boolean {
+  isMarkerFlow?(flow: IBCThiagoFlow): boolean {
     return false;
   }
 
-  getMarkerColor?(marker: any): string {
+  getMarkerColor?(marker: IBCThiagoMarker): string {
     return '#00ff00';
   }
 
-  getMarkerDisplayType?(marker: any): string {
+  getMarkerDisplayType?(marker: IBCThiagoMarker): string {
     return 'square';
   }
 
-  isMarkerEditable?(marker: any): boolean {
+  isMarkerEditable?(marker: IBCThiagoMarker): boolean {
     return true;
   }
 
@@ -612,50 +644,51 @@ export class BbcTamsApiClient implements IApiClient {
   // ERROR HANDLING
   // ============================================================================
 
-  async handleError(error: any, context?: string): Promise<never> {
-    const message = this.getErrorMessage(error);
-    const fullMessage = context ? `${context}: ${message}` : message;
-    console.error('BBC TAMS API Error:', fullMessage, error);
-    throw new Error(fullMessage);
+  async handleError(error: unknown, context?: string): Promise<never> {
+    const wrapped = withErrorContext(error, context);
+    console.error('BBC TAMS API Error:', wrapped.message, error);
+    throw wrapped;
   }
 
-  validateResponse(response: any, expectedType?: string): boolean {
+  validateResponse(response: unknown, expectedType?: string): boolean {
     if (!response) return false;
     if (expectedType && typeof response !== expectedType) return false;
     return true;
   }
 
-  getErrorMessage(error: any): string {
-    if (error instanceof Error) {
-      return error.message;
-    }
-    if (typeof error === 'string') {
-      return error;
-    }
-    if (error?.message) {
-      return error.message;
-    }
-    return 'Unknown error occurred';
+  getErrorMessage(error: unknown): string {
+    return errorMessage(error);
   }
 
   // ============================================================================
   // PRIVATE HELPER METHODS
   // ============================================================================
 
+  private decode<K extends TamsEntityName>(entity: K, value: unknown, endpoint: string): TamsEntityTypes[K] {
+    return decodeEntity(entity, value, { backend: this.config.id, endpoint });
+  }
+
+  private decodeList<K extends TamsEntityName>(
+    entity: K,
+    response: BBCApiResponse<unknown>,
+    endpoint: string
+  ): BBCApiResponse<TamsEntityTypes[K]> {
+    return decodeEntityList(entity, response, { backend: this.config.id, endpoint });
+  }
+
   private async bbcTamsGet<T>(endpoint: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<T>> {
     const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${queryString}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
-      }
+      },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'BBC TAMS API error');
     }
 
     const responseData = await response.json();
@@ -672,41 +705,39 @@ export class BbcTamsApiClient implements IApiClient {
     };
   }
 
-  private async bbcTamsPost<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
+  private async bbcTamsPost<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
     const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${queryString}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'BBC TAMS API error');
     }
 
     return response.json();
   }
 
-  private async bbcTamsPut<T>(endpoint: string, body: any, options: BBCApiOptions = {}): Promise<T> {
+  private async bbcTamsPut<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
     const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${queryString}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'BBC TAMS API error');
     }
 
     return response.json();
@@ -714,35 +745,33 @@ export class BbcTamsApiClient implements IApiClient {
 
   private async bbcTamsDelete(endpoint: string, options: BBCApiOptions = {}): Promise<void> {
     const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${queryString}`, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
-      }
+      },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'BBC TAMS API error');
     }
   }
 
-  private async bbcTamsHead(endpoint: string, options: BBCApiOptions = {}): Promise<any> {
+  private async bbcTamsHead(endpoint: string, options: BBCApiOptions = {}): Promise<ReturnType<typeof parseBBCHeaders>> {
     const queryString = buildBBCQueryString(options);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${queryString}`, {
       method: 'HEAD',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
-      }
+      },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`BBC TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'BBC TAMS API error');
     }
 
     return parseBBCHeaders(response.headers);
@@ -750,10 +779,9 @@ export class BbcTamsApiClient implements IApiClient {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
     const defaultOptions: RequestInit = {
       headers: {
         'Content-Type': 'application/json',
@@ -763,10 +791,10 @@ export class BbcTamsApiClient implements IApiClient {
     };
 
     try {
-      const response = await fetch(url, defaultOptions);
+      const response = await this.http.fetch(endpoint, { ...defaultOptions, ...signalInit(requestOptions) });
       
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        throw await this.http.error(response, 'API request failed');
       }
 
       if (response.status === 204 || response.headers.get('content-length') === '0') {
@@ -775,7 +803,9 @@ export class BbcTamsApiClient implements IApiClient {
 
       return await response.json();
     } catch (error) {
-      console.error(`API request error for ${endpoint}:`, error);
+      if (!isAbortError(error)) {
+        console.error(`API request error for ${endpoint}:`, error);
+      }
       throw error;
     }
   }
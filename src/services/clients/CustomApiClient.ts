@@ -5,14 +5,37 @@
  * Implements the IApiClient interface with basic functionality only.
  */
 
-import { IApiClient, BackendFeature, ApiClientOptions } from '../interfaces/IApiClient';
+import { IApiClient, BackendFeature, ApiClientOptions, BackendHealth } from '../interfaces/IApiClient';
+import { isAbortError, signalInit, type RequestOptions } from '../http';
+import { errorMessage, withErrorContext } from '../errors';
+import { BackendHttpClient } from '../pipeline';
 import { BackendApiConfig } from '../../config/apiConfig';
-import { BBCApiResponse, BBCApiOptions } from '../api';
+import { BBCApiResponse, BBCApiOptions } from '../tamsProtocol';
+import type { IBCThiagoFlow, IBCThiagoHLSManifest, IBCThiagoMarker, IBCThiagoSource } from '../ibcThiagoApi';
+import { decodeEntity, decodeEntityList } from '../tamsDecoders';
+import type {
+  DeleteOptions,
+  Flow,
+  FlowInput,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsEntityName,
+  TamsEntityTypes,
+  TamsObject,
+  TamsObjectInput,
+  Webhook,
+  WebhookInput
+} from '../../types/tams';
 
 export class CustomApiClient implements IApiClient {
   private config: BackendApiConfig;
   private options: ApiClientOptions;
-  private baseUrl: string;
+  private http: BackendHttpClient;
   private connectionStatus: {
     connected: boolean;
     lastCheck: Date;
@@ -32,7 +55,7 @@ export class CustomApiClient implements IApiClient {
       debug: false,
       ...options,
     };
-    this.baseUrl = config.baseUrl;
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   // ============================================================================
@@ -51,7 +74,7 @@ export class CustomApiClient implements IApiClient {
 
   setBackendConfig(config: BackendApiConfig): void {
     this.config = config;
-    this.baseUrl = config.baseUrl;
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   getBackendConfig(): BackendApiConfig {
@@ -61,7 +84,7 @@ export class CustomApiClient implements IApiClient {
   async testConnection(): Promise<boolean> {
     try {
       const startTime = Date.now();
-      const response = await fetch(`${this.baseUrl}/api/health`, {
+      const response = await this.http.fetch('/api/health', {
         method: 'GET',
         headers: { 'Accept': 'application/json' },
       });
@@ -95,144 +118,151 @@ export class CustomApiClient implements IApiClient {
   // CORE TAMS OPERATIONS (Limited Implementation)
   // ============================================================================
 
-  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.customGet('/api/sources', options);
+  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<Source>> {
+    return this.decodeList('source', await this.customGet<unknown>('/api/sources', options), '/api/sources');
   }
 
-  async getSource(id: string): Promise<any> {
-    return this.request(`/api/sources/${id}`);
+  async getSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    return this.decode('source', await this.request<unknown>(`/api/sources/${id}`, {}, options), '/api/sources/{id}');
   }
 
-  async createSource(source: any): Promise<any> {
-    return this.request('/api/sources', {
+  async createSource(source: SourceInput, options: RequestOptions = {}): Promise<Source> {
+    const created = await this.request<unknown>('/api/sources', {
       method: 'POST',
       body: JSON.stringify(source),
-    });
+    }, options);
+    return this.decode('source', created, '/api/sources');
   }
 
-  async updateSource(id: string, source: any): Promise<any> {
-    return this.request(`/api/sources/${id}`, {
+  async updateSource(id: string, source: Partial<SourceInput>, options: RequestOptions = {}): Promise<Source> {
+    const updated = await this.request<unknown>(`/api/sources/${id}`, {
       method: 'PUT',
       body: JSON.stringify(source),
-    });
+    }, options);
+    return this.decode('source', updated, '/api/sources/{id}');
   }
 
-  async deleteSource(id: string, options: any = {}): Promise<any> {
-    return this.request(`/api/sources/${id}`, { method: 'DELETE' });
+  async deleteSource(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request(`/api/sources/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
-  async restoreSource(id: string): Promise<any> {
+  async restoreSource(id: string): Promise<Source> {
     throw new Error('Source restoration not supported by custom backend');
   }
 
-  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.customGet('/api/flows', options);
+  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<Flow>> {
+    return this.decodeList('flow', await this.customGet<unknown>('/api/flows', options), '/api/flows');
   }
 
-  async getFlow(id: string): Promise<any> {
-    return this.request(`/api/flows/${id}`);
+  async getFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.request<unknown>(`/api/flows/${id}`, {}, options), '/api/flows/{id}');
   }
 
-  async createFlow(flow: any): Promise<any> {
-    return this.request('/api/flows', {
+  async createFlow(flow: FlowInput, options: RequestOptions = {}): Promise<Flow> {
+    const created = await this.request<unknown>('/api/flows', {
       method: 'POST',
       body: JSON.stringify(flow),
-    });
+    }, options);
+    return this.decode('flow', created, '/api/flows');
   }
 
-  async updateFlow(id: string, flow: any): Promise<any> {
-    return this.request(`/api/flows/${id}`, {
+  async updateFlow(id: string, flow: FlowUpdate, options: RequestOptions = {}): Promise<Flow> {
+    const updated = await this.request<unknown>(`/api/flows/${id}`, {
       method: 'PUT',
       body: JSON.stringify(flow),
-    });
+    }, options);
+    return this.decode('flow', updated, '/api/flows/{id}');
   }
 
-  async deleteFlow(id: string, options: any = {}): Promise<any> {
-    return this.request(`/api/flows/${id}`, { method: 'DELETE' });
+  async deleteFlow(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request(`/api/flows/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
-  async restoreFlow(id: string): Promise<any> {
+  async restoreFlow(id: string): Promise<Flow> {
     throw new Error('Flow restoration not supported by custom backend');
   }
 
-  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.customGet(`/api/segments`, options);
+  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<FlowSegment>> {
+    return this.decodeList('segment', await this.customGet<unknown>(`/api/segments`, options), '/api/segments');
   }
 
-  async createFlowSegment(flowId: string, segment: any, file?: File): Promise<any> {
+  async createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File, options: RequestOptions = {}): Promise<FlowSegment> {
+    let created: unknown;
     if (file) {
       const formData = new FormData();
       formData.append('segment_data', JSON.stringify(segment));
       formData.append('file', file);
       
-      return this.request(`/api/segments`, {
+      created = await this.request<unknown>(`/api/segments`, {
         method: 'POST',
         body: formData,
-      });
+      }, options);
     } else {
-      return this.request(`/api/segments`, {
+      created = await this.request<unknown>(`/api/segments`, {
         method: 'POST',
         body: JSON.stringify(segment),
-      });
+      }, options);
     }
+    return this.decode('segment', created, '/api/segments');
   }
 
-  async deleteFlowSegments(flowId: string, options: any = {}): Promise<any> {
-    return this.request(`/api/segments`, { method: 'DELETE' });
+  async deleteFlowSegments(flowId: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request(`/api/segments`, { method: 'DELETE' }, requestOptions);
   }
 
-   async cleanupFlow(id: string, hours: number = 24): Promise<any> {
+  async cleanupFlow(id: string, hours: number = 24): Promise<unknown> {
     throw new Error('cleanupFlow is not supported by custom backend');
   }
 
-  async updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any> {
+  async updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate): Promise<FlowSegment> {
     throw new Error('updateFlowSegment is not supported by custom backend');
   }
 
-  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return this.customGet('/api/objects', options);
+  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<TamsObject>> {
+    return this.decodeList('object', await this.customGet<unknown>('/api/objects', options), '/api/objects');
   }
 
-  async getObject(id: string): Promise<any> {
-    return this.request(`/api/objects/${id}`);
+  async getObject(id: string, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.decode('object', await this.request<unknown>(`/api/objects/${id}`, {}, options), '/api/objects/{id}');
   }
 
-  async createObject(object: any): Promise<any> {
-    return this.request('/api/objects', {
+  async createObject(object: TamsObjectInput, options: RequestOptions = {}): Promise<TamsObject> {
+    const created = await this.request<unknown>('/api/objects', {
       method: 'POST',
       body: JSON.stringify(object),
-    });
+    }, options);
+    return this.decode('object', created, '/api/objects');
   }
 
-  async deleteObject(id: string, options: any = {}): Promise<any> {
-    return this.request(`/api/objects/${id}`, { method: 'DELETE' });
+  async deleteObject(id: string, options: DeleteOptions = {}, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request(`/api/objects/${id}`, { method: 'DELETE' }, requestOptions);
   }
 
   // ============================================================================
   // ADVANCED FEATURES (Not Supported by Custom Backend)
   // ============================================================================
 
-  async getFlowUsageAnalytics(): Promise<any> {
+  async getFlowUsageAnalytics(): Promise<Record<string, unknown>> {
     throw new Error('Analytics not supported by custom backend');
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
+  async getStorageUsageAnalytics(): Promise<Record<string, unknown>> {
     throw new Error('Analytics not supported by custom backend');
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
+  async getTimeRangeAnalytics(): Promise<Record<string, unknown>> {
     throw new Error('Analytics not supported by custom backend');
   }
 
-  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
+  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<Webhook>> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
-  async createWebhook(webhookData: any): Promise<any> {
+  async createWebhook(webhookData: WebhookInput): Promise<Webhook> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
-  async updateWebhook(webhookId: string, webhookData: any): Promise<any> {
+  async updateWebhook(webhookId: string, webhookData: Partial<WebhookInput>): Promise<Webhook> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
@@ -240,15 +270,15 @@ export class CustomApiClient implements IApiClient {
     throw new Error('Webhooks not supported by custom backend');
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
+  async testWebhook(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
+  async getWebhookHistory(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
+  async getWebhookStats(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks not supported by custom backend');
   }
 
@@ -261,23 +291,23 @@ export class CustomApiClient implements IApiClient {
     throw new Error('Flow tags not supported by custom backend');
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
+  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<unknown> {
     throw new Error('Flow tags not supported by custom backend');
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<any> {
+  async deleteFlowTag(flowId: string, tagName: string): Promise<void> {
     throw new Error('Flow tags not supported by custom backend');
   }
 
-  async getFlowCollection(flowId: string): Promise<any> {
+  async getFlowCollection(flowId: string): Promise<unknown> {
     throw new Error('Flow collections not supported by custom backend');
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<any> {
+  async setFlowCollection(flowId: string, collectionId: string): Promise<unknown> {
     throw new Error('Flow collections not supported by custom backend');
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<any> {
+  async removeFlowFromCollection(flowId: string): Promise<void> {
     throw new Error('Flow collections not supported by custom backend');
   }
 
@@ -285,28 +315,28 @@ export class CustomApiClient implements IApiClient {
     throw new Error('Flow read-only status not supported by custom backend');
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any> {
+  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<unknown> {
     throw new Error('Flow read-only status not supported by custom backend');
   }
 
-  async getFlowDescription(flowId: string): Promise<{ description: string }> {
+  async getFlowDescription(flowId: string): Promise<{ description: string | null }> {
     throw new Error('Flow description not supported by custom backend');
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<any> {
+  async setFlowDescription(flowId: string, description: string): Promise<unknown> {
     throw new Error('Flow description not supported by custom backend');
   }
 
-  async getFlowLabel(flowId: string): Promise<{ label: string }> {
+  async getFlowLabel(flowId: string): Promise<{ label: string | null }> {
     throw new Error('Flow label not supported by custom backend');
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<any> {
+  async setFlowLabel(flowId: string, label: string): Promise<unknown> {
     throw new Error('Flow label not supported by custom backend');
   }
 
   // Field Operations - Not supported by custom backend
-  async getFieldValue<T = any>(
+  async getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -315,7 +345,7 @@ export class CustomApiClient implements IApiClient {
     throw new Error('Field operations not supported by custom backend');
   }
 
-  async updateFieldValue<T = any>(
+  async updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -339,7 +369,7 @@ export class CustomApiClient implements IApiClient {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>> {
+  ): Promise<BBCApiResponse<Record<string, unknown>>> {
     throw new Error('Field operations not supported by custom backend');
   }
 
@@ -351,19 +381,19 @@ export class CustomApiClient implements IApiClient {
     return ['id', 'name', 'created', 'updated'];
   }
 
-  async getStorage(flowId: string): Promise<any> {
+  async getStorage(flowId: string): Promise<unknown> {
     throw new Error('Storage allocation not supported by custom backend');
   }
 
-  async getHealth(): Promise<any> {
-    return this.request('/api/health');
+  async getHealth(options: RequestOptions = {}): Promise<BackendHealth> {
+    return this.request<BackendHealth>('/api/health', {}, options);
   }
 
-  async getMetrics(): Promise<any> {
+  async getMetrics(): Promise<unknown> {
     throw new Error('Metrics not supported by custom backend');
   }
 
-  async getService(): Promise<any> {
+  async getService(): Promise<Service> {
     throw new Error('Service info not supported by custom backend');
   }
 
@@ -371,15 +401,15 @@ export class CustomApiClient implements IApiClient {
   // BACKEND-SPECIFIC FEATURES (Not applicable for Custom Backend)
   // ============================================================================
 
-  async getHLSManifest?(flowId: string): Promise<any> {
+  async getHLSManifest?(flowId: string): Promise<IBCThiagoHLSManifest> {
     throw new Error('HLS manifest not supported by custom backend');
   }
 
-  async createMarker?(markerData: any): Promise<any> {
+  async createMarker?(markerData: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
     throw new Error('Marker creation not supported by custom backend');
   }
 
-  async updateMarker?(markerId: string, updates: any): Promise<any> {
+  async updateMarker?(markerId: string, updates: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
     throw new Error('Marker updates not supported by custom backend');
   }
 
@@ -395,11 +425,11 @@ export class CustomApiClient implements IApiClient {
     throw new Error('WebSocket not supported by custom backend');
   }
 
-  subscribeToWebSocket?(eventType: string, callback: (data: any) => void): void {
+  subscribeToWebSocket?(eventType: string, callback: (data: unknown) => void): void {
     throw new Error('WebSocket not supported by custom backend');
   }
 
-  unsubscribeFromWebSocket?(eventType: string, callback: (data: any) => void): void {
+  unsubscribeFromWebSocket?(eventType: string, callback: (data: unknown) => void): void {
     throw new Error('WebSocket not supported by custom backend');
   }
 
@@ -407,27 +437,27 @@ export class CustomApiClient implements IApiClient {
     return false;
   }
 
-  extractMarkersFromSource?(source: any): any[] {
+  extractMarkersFromSource?(source: IBCThiagoSource): IBCThiagoMarker[] {
     return [];
   }
 
-  extractVideoFlowsFromSource?(source: any): any[] {
+  extractVideoFlowsFromSource?(source: IBCThiagoSource): IBCThiagoFlow[] {
     return source.flows || [];
   }
 
-  isMarkerFlow?(flow: any): boolean {
+  isMarkerFlow?(flow: IBCThiagoFlow): boolean {
     return false;
   }
 
-  getMarkerColor?(marker: any): string {
+  getMarkerColor?(marker: IBCThiagoMarker): string {
     return '#00ff00';
   }
 
-  getMarkerDisplayType?(marker: any): string {
+  getMarkerDisplayType?(marker: IBCThiagoMarker): string {
     return 'square';
   }
 
-  isMarkerEditable?(marker: any): boolean {
+  isMarkerEditable?(marker: IBCThiagoMarker): boolean {
     return true;
   }
 
@@ -536,53 +566,55 @@ export class CustomApiClient implements IApiClient {
   // ERROR HANDLING
   // ============================================================================
 
-  async handleError(error: any, context?: string): Promise<never> {
-    const message = this.getErrorMessage(error);
-    const fullMessage = context ? `${context}: ${message}` : message;
-    console.error('Custom API Error:', fullMessage, error);
-    throw new Error(fullMessage);
+  async handleError(error: unknown, context?: string): Promise<never> {
+    const wrapped = withErrorContext(error, context);
+    console.error('Custom API Error:', wrapped.message, error);
+    throw wrapped;
   }
 
-  validateResponse(response: any, expectedType?: string): boolean {
+  validateResponse(response: unknown, expectedType?: string): boolean {
     if (!response) return false;
     if (expectedType && typeof response !== expectedType) return false;
     return true;
   }
 
-  getErrorMessage(error: any): string {
-    if (error instanceof Error) {
-      return error.message;
-    }
-    if (typeof error === 'string') {
-      return error;
-    }
-    if (error?.message) {
-      return error.message;
-    }
-    return 'Unknown error occurred';
+  getErrorMessage(error: unknown): string {
+    return errorMessage(error);
   }
 
   // ============================================================================
   // PRIVATE HELPER METHODS
   // ============================================================================
 
+  private decode<K extends TamsEntityName>(entity: K, value: unknown, endpoint: string): TamsEntityTypes[K] {
+    return decodeEntity(entity, value, { backend: this.config.id, endpoint });
+  }
+
+  private decodeList<K extends TamsEntityName>(
+    entity: K,
+    response: BBCApiResponse<unknown>,
+    endpoint: string
+  ): BBCApiResponse<TamsEntityTypes[K]> {
+    return decodeEntityList(entity, response, { backend: this.config.id, endpoint });
+  }
+
   private async customGet<T>(endpoint: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<T>> {
     const queryParams = new URLSearchParams();
     if (options.limit) queryParams.append('limit', options.limit.toString());
     if (options.page) queryParams.append('page', options.page);
+    const query = queryParams.toString();
     
-    const url = `${this.baseUrl}${endpoint}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`${endpoint}${query ? `?${query}` : ''}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
-      }
+      },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`Custom API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response, 'Custom API error');
     }
 
     const data = await response.json();
@@ -596,10 +628,9 @@ export class CustomApiClient implements IApiClient {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
     const defaultOptions: RequestInit = {
       headers: {
         'Content-Type': 'application/json',
@@ -609,10 +640,10 @@ export class CustomApiClient implements IApiClient {
     };
 
     try {
-      const response = await fetch(url, defaultOptions);
+      const response = await this.http.fetch(endpoint, { ...defaultOptions, ...signalInit(requestOptions) });
       
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        throw await this.http.error(response, 'API request failed');
       }
 
       if (response.status === 204 || response.headers.get('content-length') === '0') {
@@ -621,7 +652,9 @@ export class CustomApiClient implements IApiClient {
 
       return await response.json();
     } catch (error) {
-      console.error(`API request error for ${endpoint}:`, error);
+      if (!isAbortError(error)) {
+        console.error(`API request error for ${endpoint}:`, error);
+      }
       throw error;
     }
   }
@@ -6,9 +6,11 @@
  * including HLS streaming, real-time markers, and WebSocket connections.
  */
 
-import { IApiClient, BackendFeature, ApiClientOptions } from '../interfaces/IApiClient';
+import { IApiClient, BackendFeature, ApiClientOptions, BackendHealth } from '../interfaces/IApiClient';
+import type { RequestOptions } from '../http';
+import { errorMessage, withErrorContext } from '../errors';
 import { BackendApiConfig } from '../../config/apiConfig';
-import { BBCApiResponse, BBCApiOptions } from '../api';
+import { BBCApiResponse, BBCApiOptions } from '../tamsProtocol';
 import { 
   getIBCThiagoSources,
   getIBCThiagoSource,
@@ -31,8 +33,96 @@ import {
   type IBCThiagoSource,
   type IBCThiagoFlow,
   type IBCThiagoSegment,
-  type IBCThiagoMarker
+  type IBCThiagoMarker,
+  type IBCThiagoHLSManifest
 } from '../ibcThiagoApi';
+import { decodeEntity, decodeEntityList } from '../tamsDecoders';
+import { createTimerange, formatTimerange, secondsToTimestamp } from '../../utils/timerange';
+import { dateToTai } from '../../utils/taiUtc';
+import type {
+  DeleteOptions,
+  Flow,
+  FlowInput,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsContentFormat,
+  TamsObject,
+  TamsObjectInput,
+  Webhook,
+  WebhookInput
+} from '../../types/tams';
+
+// ============================================================================
+// IBC THIAGO → TAMS ADAPTERS
+// ============================================================================
+
+const IBC_FORMAT_ALIASES: Record<string, TamsContentFormat> = {
+  video: 'urn:x-nmos:format:video',
+  audio: 'urn:x-nmos:format:audio',
+  data: 'urn:x-nmos:format:data',
+  multi: 'urn:x-nmos:format:multi',
+  image: 'urn:x-tam:format:image'
+};
+
+/**
+ * IBC Thiago reports formats either as TAMS URNs or as bare names ("video")
+ */
+function toTamsFormat(format: string): string {
+  return IBC_FORMAT_ALIASES[format.toLowerCase()] ?? format;
+}
+
+/**
+ * Convert an IBC Thiago flow (flat fps/resolution fields) into a TAMS flow.
+ * The result is still passed through the flow decoder so unmapped values are reported.
+ */
+function adaptIBCThiagoFlow(flow: IBCThiagoFlow): unknown {
+  const { fps, resolution, ...rest } = flow;
+  const format = toTamsFormat(flow.format);
+  if (format !== 'urn:x-nmos:format:video') {
+    return { ...rest, format };
+  }
+
+  const [width, height] = (resolution ?? '').split('x').map(Number);
+  return {
+    ...rest,
+    format,
+    essence_parameters: {
+      frame_width: width || 0,
+      frame_height: height || 0,
+      ...(fps ? { frame_rate: { numerator: Math.round(fps * 1000), denominator: 1000 } } : {})
+    }
+  };
+}
+
+/**
+ * Convert an IBC Thiago source into a TAMS source. The source format is derived from its flows.
+ */
+function adaptIBCThiagoSource(source: IBCThiagoSource): unknown {
+  const { flows, ...rest } = source;
+  const formats = new Set((flows ?? []).map(flow => toTamsFormat(flow.format)));
+  const [onlyFormat] = formats;
+  return {
+    ...rest,
+    format: formats.size === 1 && onlyFormat ? onlyFormat : 'urn:x-nmos:format:multi'
+  };
+}
+
+/**
+ * Convert an IBC Thiago segment (wall-clock timestamp plus duration) into a TAMS flow segment
+ */
+function adaptIBCThiagoSegment(segment: IBCThiagoSegment): unknown {
+  const start = dateToTai(new Date(segment.timestamp));
+  return {
+    object_id: segment.segment_id,
+    timerange: formatTimerange(createTimerange(start, start + secondsToTimestamp(segment.duration))),
+    get_urls: [{ url: segment.url }]
+  };
+}
 
 export class IbcThiagoApiClient implements IApiClient {
   private config: BackendApiConfig;
@@ -84,7 +174,7 @@ export class IbcThiagoApiClient implements IApiClient {
   async testConnection(): Promise<boolean> {
     try {
       const startTime = Date.now();
-      const health = await getIBCThiagoHealth();
+      const health = await getIBCThiagoHealth({}, this.config);
       const responseTime = Date.now() - startTime;
 
       this.connectionStatus = {
@@ -112,87 +202,105 @@ export class IbcThiagoApiClient implements IApiClient {
   // CORE TAMS OPERATIONS
   // ============================================================================
 
-  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return getIBCThiagoSources(options);
+  async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<Source>> {
+    const response = await getIBCThiagoSources(options, this.config);
+    return decodeEntityList('source', { ...response, data: response.data.map(adaptIBCThiagoSource) }, {
+      backend: this.config.id,
+      endpoint: '/sources'
+    });
   }
 
-  async getSource(id: string): Promise<any> {
-    return getIBCThiagoSource(id);
+  async getSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    return decodeEntity('source', adaptIBCThiagoSource(await getIBCThiagoSource(id, options, this.config)), {
+      backend: this.config.id,
+      endpoint: '/sources/{id}'
+    });
   }
 
-  async createSource(source: any): Promise<any> {
+  async createSource(source: SourceInput): Promise<Source> {
     throw new Error('Source creation not supported by IBC Thiago backend');
   }
 
-  async updateSource(id: string, source: any): Promise<any> {
+  async updateSource(id: string, source: Partial<SourceInput>): Promise<Source> {
     throw new Error('Source updates not supported by IBC Thiago backend');
   }
 
-  async deleteSource(id: string, options?: any): Promise<any> {
+  async deleteSource(id: string, options?: DeleteOptions): Promise<void> {
     throw new Error('Source deletion not supported by IBC Thiago backend');
   }
 
-  async restoreSource(id: string): Promise<any> {
+  async restoreSource(id: string): Promise<Source> {
     throw new Error('Source restoration not supported by IBC Thiago backend');
   }
 
-  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return getIBCThiagoFlows(options);
+  async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<Flow>> {
+    const response = await getIBCThiagoFlows(options, this.config);
+    return decodeEntityList('flow', { ...response, data: response.data.map(adaptIBCThiagoFlow) }, {
+      backend: this.config.id,
+      endpoint: '/flows'
+    });
   }
 
-  async getFlow(id: string): Promise<any> {
-    return getIBCThiagoFlow(id);
+  async getFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    return decodeEntity('flow', adaptIBCThiagoFlow(await getIBCThiagoFlow(id, options, this.config)), {
+      backend: this.config.id,
+      endpoint: '/flows/{id}'
+    });
   }
 
-  async createFlow(flow: any): Promise<any> {
+  async createFlow(flow: FlowInput): Promise<Flow> {
     throw new Error('Flow creation not supported by IBC Thiago backend');
   }
 
-  async updateFlow(id: string, flow: any): Promise<any> {
+  async updateFlow(id: string, flow: FlowUpdate): Promise<Flow> {
     throw new Error('Flow updates not supported by IBC Thiago backend');
   }
 
-  async deleteFlow(id: string, options?: any): Promise<any> {
+  async deleteFlow(id: string, options?: DeleteOptions): Promise<void> {
     throw new Error('Flow deletion not supported by IBC Thiago backend');
   }
 
-  async restoreFlow(id: string): Promise<any> {
+  async restoreFlow(id: string): Promise<Flow> {
     throw new Error('Flow restoration not supported by IBC Thiago backend');
   }
 
-  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
-    return getIBCThiagoFlowSegments(flowId, options);
+  async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<FlowSegment>> {
+    const response = await getIBCThiagoFlowSegments(flowId, options, this.config);
+    return decodeEntityList('segment', { ...response, data: response.data.map(adaptIBCThiagoSegment) }, {
+      backend: this.config.id,
+      endpoint: '/flows/{id}/segments'
+    });
   }
 
-  async createFlowSegment(flowId: string, segment: any, file?: File): Promise<any> {
+  async createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File): Promise<FlowSegment> {
     throw new Error('Segment creation not supported by IBC Thiago backend');
   }
 
-  async deleteFlowSegments(flowId: string, options?: any): Promise<any> {
+  async deleteFlowSegments(flowId: string, options?: DeleteOptions): Promise<void> {
     throw new Error('Segment deletion not supported by IBC Thiago backend');
   }
 
-  async cleanupFlow(id: string, hours: number = 24): Promise<any> {
+  async cleanupFlow(id: string, hours: number = 24): Promise<unknown> {
     throw new Error('cleanupFlow is not supported by IBC Thiago backend');
   }
 
-  async updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any> {
+  async updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate): Promise<FlowSegment> {
     throw new Error('updateFlowSegment is not supported by IBC Thiago backend');
   }
 
-  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
+  async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<TamsObject>> {
     throw new Error('Objects API not supported by IBC Thiago backend');
   }
 
-  async getObject(id: string): Promise<any> {
+  async getObject(id: string): Promise<TamsObject> {
     throw new Error('Objects API not supported by IBC Thiago backend');
   }
 
-  async createObject(object: any): Promise<any> {
+  async createObject(object: TamsObjectInput): Promise<TamsObject> {
     throw new Error('Objects API not supported by IBC Thiago backend');
   }
 
-  async deleteObject(id: string, options?: any): Promise<any> {
+  async deleteObject(id: string, options?: DeleteOptions): Promise<void> {
     throw new Error('Objects API not supported by IBC Thiago backend');
   }
 
@@ -200,7 +308,7 @@ export class IbcThiagoApiClient implements IApiClient {
   // ADVANCED FEATURES
   // ============================================================================
 
-  async getFlowUsageAnalytics(): Promise<any> {
+  async getFlowUsageAnalytics(): Promise<Record<string, unknown>> {
     console.warn('Analytics not supported by IBC Thiago backend, returning empty analytics');
     return {
       flows: [],
@@ -215,7 +323,7 @@ export class IbcThiagoApiClient implements IApiClient {
     };
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
+  async getStorageUsageAnalytics(): Promise<Record<string, unknown>> {
     console.warn('Analytics not supported by IBC Thiago backend, returning empty storage analytics');
     return {
       totalStorage: 0,
@@ -230,7 +338,7 @@ export class IbcThiagoApiClient implements IApiClient {
     };
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
+  async getTimeRangeAnalytics(): Promise<Record<string, unknown>> {
     console.warn('Analytics not supported by IBC Thiago backend, returning empty time range analytics');
     return {
       timeRanges: [],
@@ -244,15 +352,15 @@ export class IbcThiagoApiClient implements IApiClient {
     };
   }
 
-  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<any>> {
+  async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<Webhook>> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
-  async createWebhook(webhookData: any): Promise<any> {
+  async createWebhook(webhookData: WebhookInput): Promise<Webhook> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
-  async updateWebhook(webhookId: string, webhookData: any): Promise<any> {
+  async updateWebhook(webhookId: string, webhookData: Partial<WebhookInput>): Promise<Webhook> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
@@ -260,15 +368,15 @@ export class IbcThiagoApiClient implements IApiClient {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
+  async testWebhook(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
+  async getWebhookHistory(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
+  async getWebhookStats(webhookId: string): Promise<unknown> {
     throw new Error('Webhooks API not supported by IBC Thiago backend');
   }
 
@@ -282,29 +390,27 @@ export class IbcThiagoApiClient implements IApiClient {
     return {};
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
+  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<unknown> {
     console.warn('Flow tags not supported by IBC Thiago backend, operation ignored');
     return { success: false, message: 'Flow tags not supported by IBC Thiago backend' };
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<any> {
+  async deleteFlowTag(flowId: string, tagName: string): Promise<void> {
     console.warn('Flow tags not supported by IBC Thiago backend, operation ignored');
-    return { success: false, message: 'Flow tags not supported by IBC Thiago backend' };
   }
 
-  async getFlowCollection(flowId: string): Promise<any> {
+  async getFlowCollection(flowId: string): Promise<unknown> {
     console.warn('Flow collections not supported by IBC Thiago backend, returning null');
     return null;
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<any> {
+  async setFlowCollection(flowId: string, collectionId: string): Promise<unknown> {
     console.warn('Flow collections not supported by IBC Thiago backend, operation ignored');
     return { success: false, message: 'Flow collections not supported by IBC Thiago backend' };
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<any> {
+  async removeFlowFromCollection(flowId: string): Promise<void> {
     console.warn('Flow collections not supported by IBC Thiago backend, operation ignored');
-    return { success: false, message: 'Flow collections not supported by IBC Thiago backend' };
   }
 
   async getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }> {
@@ -312,7 +418,7 @@ export class IbcThiagoApiClient implements IApiClient {
     return { read_only: false };
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any> {
+  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<unknown> {
     console.warn('Flow read-only status not supported by IBC Thiago backend, operation ignored');
     return { success: false, message: 'Flow read-only status not supported by IBC Thiago backend' };
   }
@@ -322,7 +428,7 @@ export class IbcThiagoApiClient implements IApiClient {
     return { description: null };
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<any> {
+  async setFlowDescription(flowId: string, description: string): Promise<unknown> {
     console.warn('Flow description not supported by IBC Thiago backend, operation ignored');
     return { success: false, message: 'Flow description not supported by IBC Thiago backend' };
   }
@@ -332,13 +438,13 @@ export class IbcThiagoApiClient implements IApiClient {
     return { label: null };
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<any> {
+  async setFlowLabel(flowId: string, label: string): Promise<unknown> {
     console.warn('Flow label not supported by IBC Thiago backend, operation ignored');
     return { success: false, message: 'Flow label not supported by IBC Thiago backend' };
   }
 
   // Field Operations - Not supported by IBC Thiago
-  async getFieldValue<T = any>(
+  async getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -347,7 +453,7 @@ export class IbcThiagoApiClient implements IApiClient {
     throw new Error('Field operations not supported by IBC Thiago backend');
   }
 
-  async updateFieldValue<T = any>(
+  async updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -371,7 +477,7 @@ export class IbcThiagoApiClient implements IApiClient {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>> {
+  ): Promise<BBCApiResponse<Record<string, unknown>>> {
     throw new Error('Field operations not supported by IBC Thiago backend');
   }
 
@@ -383,19 +489,19 @@ export class IbcThiagoApiClient implements IApiClient {
     return ['id', 'label', 'description', 'tags', 'created', 'updated'];
   }
 
-  async getStorage(flowId: string): Promise<any> {
-    return getIBCThiagoStorage(flowId);
+  async getStorage(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return getIBCThiagoStorage(flowId, options, this.config);
   }
 
-  async getHealth(): Promise<any> {
-    return getIBCThiagoHealth();
+  async getHealth(options: RequestOptions = {}): Promise<BackendHealth> {
+    return getIBCThiagoHealth(options, this.config);
   }
 
-  async getMetrics(): Promise<any> {
+  async getMetrics(): Promise<unknown> {
     throw new Error('Metrics not supported by IBC Thiago backend');
   }
 
-  async getService(): Promise<any> {
+  async getService(): Promise<Service> {
     throw new Error('Service info not supported by IBC Thiago backend');
   }
 
@@ -403,20 +509,20 @@ export class IbcThiagoApiClient implements IApiClient {
   // IBC THIAGO SPECIFIC FEATURES
   // ============================================================================
 
-  async getHLSManifest(flowId: string): Promise<any> {
-    return getIBCThiagoHLSManifest(flowId);
+  async getHLSManifest(flowId: string, options: RequestOptions = {}): Promise<IBCThiagoHLSManifest> {
+    return getIBCThiagoHLSManifest(flowId, options, this.config);
   }
 
-  async createMarker(markerData: any): Promise<any> {
-    return createIBCThiagoMarker(markerData);
+  async createMarker(markerData: Partial<IBCThiagoMarker>, options: RequestOptions = {}): Promise<IBCThiagoMarker> {
+    return createIBCThiagoMarker(markerData, options, this.config);
   }
 
-  async updateMarker(markerId: string, updates: any): Promise<any> {
-    return updateIBCThiagoMarker(markerId, updates);
+  async updateMarker(markerId: string, updates: Partial<IBCThiagoMarker>, options: RequestOptions = {}): Promise<IBCThiagoMarker> {
+    return updateIBCThiagoMarker(markerId, updates, options, this.config);
   }
 
-  async deleteMarker(markerId: string): Promise<void> {
-    return deleteIBCThiagoMarker(markerId);
+  async deleteMarker(markerId: string, options: RequestOptions = {}): Promise<void> {
+    return deleteIBCThiagoMarker(markerId, options, this.config);
   }
 
   async connectWebSocket(): Promise<void> {
@@ -427,11 +533,11 @@ export class IbcThiagoApiClient implements IApiClient {
     ibcThiagoWebSocket.disconnect();
   }
 
-  subscribeToWebSocket(eventType: string, callback: (data: any) => void): void {
+  subscribeToWebSocket(eventType: string, callback: (data: unknown) => void): void {
     ibcThiagoWebSocket.subscribe(eventType, callback);
   }
 
-  unsubscribeFromWebSocket(eventType: string, callback: (data: any) => void): void {
+  unsubscribeFromWebSocket(eventType: string, callback: (data: unknown) => void): void {
     ibcThiagoWebSocket.unsubscribe(eventType, callback);
   }
 
@@ -439,27 +545,27 @@ export class IbcThiagoApiClient implements IApiClient {
     return ibcThiagoWebSocket.isConnected();
   }
 
-  extractMarkersFromSource(source: any): any[] {
+  extractMarkersFromSource(source: IBCThiagoSource): IBCThiagoMarker[] {
     return extractMarkersFromSource(source);
   }
 
-  extractVideoFlowsFromSource(source: any): any[] {
+  extractVideoFlowsFromSource(source: IBCThiagoSource): IBCThiagoFlow[] {
     return extractVideoFlowsFromSource(source);
   }
 
-  isMarkerFlow(flow: any): boolean {
+  isMarkerFlow(flow: IBCThiagoFlow): boolean {
     return isMarkerFlow(flow);
   }
 
-  getMarkerColor(marker: any): string {
+  getMarkerColor(marker: IBCThiagoMarker): string {
     return getMarkerColor(marker);
   }
 
-  getMarkerDisplayType(marker: any): string {
+  getMarkerDisplayType(marker: IBCThiagoMarker): string {
     return getMarkerDisplayType(marker);
   }
 
-  isMarkerEditable(marker: any): boolean {
+  isMarkerEditable(marker: IBCThiagoMarker): boolean {
     return isMarkerEditable(marker);
   }
 
@@ -569,29 +675,19 @@ export class IbcThiagoApiClient implements IApiClient {
   // ERROR HANDLING
   // ============================================================================
 
-  async handleError(error: any, context?: string): Promise<never> {
-    const message = this.getErrorMessage(error);
-    const fullMessage = context ? `${context}: ${message}` : message;
-    console.error('IBC Thiago API Error:', fullMessage, error);
-    throw new Error(fullMessage);
+  async handleError(error: unknown, context?: string): Promise<never> {
+    const wrapped = withErrorContext(error, context);
+    console.error('IBC Thiago API Error:', wrapped.message, error);
+    throw wrapped;
   }
 
-  validateResponse(response: any, expectedType?: string): boolean {
+  validateResponse(response: unknown, expectedType?: string): boolean {
     if (!response) return false;
     if (expectedType && typeof response !== expectedType) return false;
     return true;
   }
 
-  getErrorMessage(error: any): string {
-    if (error instanceof Error) {
-      return error.message;
-    }
-    if (typeof error === 'string') {
-      return error;
-    }
-    if (error?.message) {
-      return error.message;
-    }
-    return 'Unknown error occurred';
+  getErrorMessage(error: unknown): string {
+    return errorMessage(error);
   }
 }
@@ -5,14 +5,43 @@
  * Provides full BBC TAMS v6.0 compliance with VAST TAMS extensions
  */
 
-import { IApiClient, BackendType, BackendFeature } from '../interfaces/IApiClient';
-import { BBCApiResponse, BBCApiOptions } from '../api';
+import { IApiClient, BackendType, BackendFeature, ApiClientOptions, BackendHealth } from '../interfaces/IApiClient';
+import { signalInit, type RequestOptions } from '../http';
+import { errorMessage, withErrorContext } from '../errors';
+import { BackendHttpClient } from '../pipeline';
+import { BBCApiResponse, BBCApiOptions } from '../tamsProtocol';
 import { BackendApiConfig } from '../../config/apiConfig';
-import { VastTamsApiClient as VastTamsService, createVastTamsApiClient } from '../vastTamsApi';
+import {
+  VastTamsApiClient as VastTamsService,
+  createVastTamsApiClient,
+  type VastTamsFlowDeleteRequest,
+  type VastTamsSource
+} from '../vastTamsApi';
+import { compareWithOpenApiSpec, decodeEntity, decodeEntityList, type SpecMismatch } from '../tamsDecoders';
+import type {
+  DeleteOptions,
+  Flow,
+  FlowInput,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsEntityName,
+  TamsEntityTypes,
+  TamsObject,
+  TamsObjectInput,
+  Webhook,
+  WebhookInput
+} from '../../types/tams';
 
 export class VastTamsApiClient implements IApiClient {
   private service: VastTamsService;
+  private http: BackendHttpClient;
   private config: BackendApiConfig;
+  private options: ApiClientOptions;
   private connectionStatus = {
     connected: false,
     lastCheck: new Date(),
@@ -20,9 +49,17 @@ export class VastTamsApiClient implements IApiClient {
     error: undefined as string | undefined
   };
 
-  constructor(config: BackendApiConfig) {
+  constructor(config: BackendApiConfig, options: ApiClientOptions = {}) {
     this.config = config;
-    this.service = createVastTamsApiClient(config);
+    this.options = {
+      timeout: 10000,
+      retries: 3,
+      retryDelay: 1000,
+      debug: false,
+      ...options,
+    };
+    this.service = createVastTamsApiClient(config, this.options);
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   // Initialization
@@ -39,7 +76,8 @@ export class VastTamsApiClient implements IApiClient {
 
   setBackendConfig(config: BackendApiConfig): void {
     this.config = config;
-    this.service = createVastTamsApiClient(config);
+    this.service = createVastTamsApiClient(config, this.options);
+    this.http = new BackendHttpClient(config, this.options);
   }
 
   getBackendConfig(): BackendApiConfig {
@@ -181,94 +219,87 @@ export class VastTamsApiClient implements IApiClient {
   }
 
   // Error Handling
-  async handleError(error: any, context?: string): Promise<never> {
-    const message = this.getErrorMessage(error);
-    const fullMessage = context ? `${context}: ${message}` : message;
-    console.error('VAST TAMS API Error:', fullMessage, error);
-    throw new Error(fullMessage);
+  async handleError(error: unknown, context?: string): Promise<never> {
+    const wrapped = withErrorContext(error, context);
+    console.error('VAST TAMS API Error:', wrapped.message, error);
+    throw wrapped;
   }
 
-  validateResponse(response: any, expectedType?: string): boolean {
+  validateResponse(response: unknown, expectedType?: string): boolean {
     if (!response) return false;
     if (expectedType && typeof response !== expectedType) return false;
     return true;
   }
 
-  getErrorMessage(error: any): string {
-    if (error instanceof Error) {
-      return error.message;
-    }
-    if (typeof error === 'string') {
-      return error;
-    }
-    if (error?.message) {
-      return error.message;
-    }
-    return 'Unknown error occurred';
+  getErrorMessage(error: unknown): string {
+    return errorMessage(error);
   }
 
   // Core TAMS Operations - Sources
-  async getSources(options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
-    return this.service.getSources(options);
+  async getSources(options?: BBCApiOptions): Promise<BBCApiResponse<Source>> {
+    return this.decodeList('source', await this.service.getSources(options), '/sources');
   }
 
-  async getSource(id: string): Promise<any> {
-    return this.service.getSource(id);
+  async getSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    return this.decode('source', await this.service.getSource(id, options), '/sources/{id}');
   }
 
-  async createSource(source: any): Promise<any> {
-    return this.service.createSource(source);
+  async createSource(source: SourceInput, options: RequestOptions = {}): Promise<Source> {
+    // VAST's source type requires collection labels; the wire format is the TAMS schema
+    const created = await this.service.createSource(source as Partial<VastTamsSource>, options);
+    return this.decode('source', created, '/sources');
   }
 
-  async updateSource(id: string, source: any): Promise<any> {
-    return this.service.updateSource(id, source);
+  async updateSource(id: string, source: Partial<SourceInput>, options: RequestOptions = {}): Promise<Source> {
+    const updated = await this.service.updateSource(id, source as Partial<VastTamsSource>, options);
+    return this.decode('source', updated, '/sources/{id}');
   }
 
-  async deleteSource(id: string, options?: any): Promise<any> {
-    return this.service.deleteSource(id, options);
+  async deleteSource(id: string, options?: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
+    return this.service.deleteSource(id, options, requestOptions);
   }
 
-  async restoreSource(id: string): Promise<any> {
-    return this.service.restoreSource(id);
+  async restoreSource(id: string, options: RequestOptions = {}): Promise<Source> {
+    return this.decode('source', await this.service.restoreSource(id, options), '/sources/{id}/restore');
   }
 
   // Core TAMS Operations - Flows
-  async getFlows(options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
-    return this.service.getFlows(options);
+  async getFlows(options?: BBCApiOptions): Promise<BBCApiResponse<Flow>> {
+    return this.decodeList('flow', await this.service.getFlows(options), '/flows');
   }
 
-  async getFlow(id: string): Promise<any> {
-    return this.service.getFlow(id);
+  async getFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.service.getFlow(id, options), '/flows/{id}');
   }
 
-  async createFlow(flow: any): Promise<any> {
-    return this.service.createFlow(flow);
+  async createFlow(flow: FlowInput, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.service.createFlow(flow, options), '/flows');
   }
 
-  async updateFlow(id: string, flow: any): Promise<any> {
-    return this.service.updateFlow(id, flow);
+  async updateFlow(id: string, flow: FlowUpdate, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.service.updateFlow(id, flow, options), '/flows/{id}');
   }
 
-  async deleteFlow(id: string, options?: any): Promise<any> {
-    return this.service.deleteFlow(id, options);
+  async deleteFlow(id: string, options?: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
+    return this.service.deleteFlow(id, options, requestOptions);
   }
 
-  async restoreFlow(id: string): Promise<any> {
-    return this.service.restoreFlow(id);
+  async restoreFlow(id: string, options: RequestOptions = {}): Promise<Flow> {
+    return this.decode('flow', await this.service.restoreFlow(id, options), '/flows/{id}/restore');
   }
 
-  async cleanupFlow(id: string, hours: number = 24): Promise<any> {
-    const url = `${this.config.baseUrl}/flows/${id}/cleanup?hours=${hours}`;
-    const response = await fetch(url, {
+  async cleanupFlow(id: string, hours: number = 24, options: RequestOptions = {}): Promise<unknown> {
+    const response = await this.http.fetch(`/flows/${id}/cleanup?hours=${hours}`, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response);
     }
 
     // Backend may return 204 No Content for successful cleanup
@@ -280,169 +311,180 @@ export class VastTamsApiClient implements IApiClient {
   }
 
   // Core TAMS Operations - Segments
-  async getFlowSegments(flowId: string, options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
-    return this.service.getFlowSegments(flowId, options);
+  async getFlowSegments(flowId: string, options?: BBCApiOptions): Promise<BBCApiResponse<FlowSegment>> {
+    return this.decodeList('segment', await this.service.getFlowSegments(flowId, options), '/flows/{id}/segments');
   }
 
-  async getFlowStats(flowId: string): Promise<any> {
+  async getFlowStats(flowId: string, options: RequestOptions = {}): Promise<Record<string, unknown>> {
     // Use the service's request method via a direct fetch call
     // The service's makeRequest is private, so we'll make the request directly
-    const url = `${this.config.baseUrl}/flows/${flowId}/stats`;
-    const response = await fetch(url, {
+    const response = await this.http.fetch(`/flows/${flowId}/stats`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
+      ...signalInit(options)
     });
     
     if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response);
     }
     
     return await response.json();
   }
 
-  async createFlowSegment(flowId: string, segment: any, file?: File): Promise<any> {
-    return this.service.createFlowSegment(flowId, segment, file);
+  async createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File, options: RequestOptions = {}): Promise<FlowSegment> {
+    const created = await this.service.createFlowSegment(flowId, segment, file, options);
+    return this.decode('segment', created, '/flows/{id}/segments');
   }
 
-  async deleteFlowSegments(flowId: string, options?: any): Promise<any> {
-    return this.service.deleteFlowSegments(flowId, options);
+  async deleteFlowSegments(flowId: string, options?: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
+    return this.service.deleteFlowSegments(flowId, options, requestOptions);
   }
 
-  async updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any> {
-    const url = `${this.config.baseUrl}/flows/${flowId}/segments/${segmentId}`;
-    const response = await fetch(url, {
+  async updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate, options: RequestOptions = {}): Promise<FlowSegment> {
+    const response = await this.http.fetch(`/flows/${flowId}/segments/${segmentId}`, {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
       body: JSON.stringify(updates),
+      ...signalInit(options)
     });
 
     if (!response.ok) {
-      throw new Error(`TAMS API error: ${response.status} ${response.statusText}`);
+      throw await this.http.error(response);
     }
 
-    return await response.json();
+    return this.decode('segment', await response.json(), '/flows/{id}/segments/{segmentId}');
   }
 
   // Core TAMS Operations - Objects
-  async getObjects(options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
-    return this.service.getObjects(options);
+  async getObjects(options?: BBCApiOptions): Promise<BBCApiResponse<TamsObject>> {
+    return this.decodeList('object', await this.service.getObjects(options), '/objects');
   }
 
-  async getObject(id: string): Promise<any> {
-    return this.service.getObject(id);
+  async getObject(id: string, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.decode('object', await this.service.getObject(id, options), '/objects/{id}');
   }
 
-  async createObject(object: any): Promise<any> {
-    return this.service.createObject(object);
+  async createObject(object: TamsObjectInput, options: RequestOptions = {}): Promise<TamsObject> {
+    return this.decode('object', await this.service.createObject(object, options), '/objects');
   }
 
-  async deleteObject(id: string, options?: any): Promise<any> {
-    return this.service.deleteObject(id, options);
+  async deleteObject(id: string, options?: DeleteOptions, requestOptions: RequestOptions = {}): Promise<void> {
+    return this.service.deleteObject(id, options, requestOptions);
   }
 
   // Advanced Features - Analytics
-  async getFlowUsageAnalytics(): Promise<any> {
-    return this.service.getFlowUsageAnalytics();
+  async getFlowUsageAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.service.getFlowUsageAnalytics(options);
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
-    return this.service.getStorageUsageAnalytics();
+  async getStorageUsageAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.service.getStorageUsageAnalytics(options);
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
-    return this.service.getTimeRangeAnalytics();
+  async getTimeRangeAnalytics(options: RequestOptions = {}): Promise<Record<string, unknown>> {
+    return this.service.getTimeRangeAnalytics(options);
   }
 
   // Advanced Features - Webhooks
-  async getWebhooks(options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
-    return this.service.getWebhooks(options);
+  async getWebhooks(options?: BBCApiOptions): Promise<BBCApiResponse<Webhook>> {
+    return this.decodeList('webhook', await this.service.getWebhooks(options), '/service/webhooks');
   }
 
-  async createWebhook(webhookData: any): Promise<any> {
-    return this.service.createWebhook(webhookData);
+  async createWebhook(webhookData: WebhookInput, options: RequestOptions = {}): Promise<Webhook> {
+    return this.decode('webhook', await this.service.createWebhook(webhookData, options), '/service/webhooks');
   }
 
-  async updateWebhook(webhookId: string, webhookData: any): Promise<any> {
-    return this.service.updateWebhook(webhookId, webhookData);
+  async updateWebhook(webhookId: string, webhookData: Partial<WebhookInput>, options: RequestOptions = {}): Promise<Webhook> {
+    // VAST TAMS replaces the whole webhook, so merge the update over the stored registration
+    const current = await this.service.getWebhooks(options).then(response =>
+      response.data.find(webhook => webhook.id === webhookId)
+    );
+    const updated = await this.service.updateWebhook(webhookId, {
+      url: webhookData.url ?? current?.url ?? '',
+      events: webhookData.events ?? current?.events ?? [],
+      ...(webhookData.api_key_name !== undefined ? { api_key_name: webhookData.api_key_name } : {}),
+      ...(webhookData.api_key_value !== undefined ? { api_key_value: webhookData.api_key_value } : {})
+    }, options);
+    return this.decode('webhook', updated, '/service/webhooks/{id}');
   }
 
-  async deleteWebhook(webhookId: string): Promise<void> {
-    return this.service.deleteWebhook(webhookId);
+  async deleteWebhook(webhookId: string, options: RequestOptions = {}): Promise<void> {
+    return this.service.deleteWebhook(webhookId, options);
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
-    return this.service.testWebhook(webhookId);
+  async testWebhook(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.testWebhook(webhookId, options);
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
-    return this.service.getWebhookHistory(webhookId);
+  async getWebhookHistory(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.getWebhookHistory(webhookId, options);
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
-    return this.service.getWebhookStats(webhookId);
+  async getWebhookStats(webhookId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.getWebhookStats(webhookId, options);
   }
 
-  async getWebhookEventTypes(): Promise<string[]> {
-    return this.service.getWebhookEventTypes();
+  async getWebhookEventTypes(options: RequestOptions = {}): Promise<string[]> {
+    return this.service.getWebhookEventTypes(options);
   }
 
   // Advanced Features - Flow Management
-  async getFlowTags(flowId: string): Promise<Record<string, string>> {
-    return this.service.getFlowTags(flowId);
+  async getFlowTags(flowId: string, options: RequestOptions = {}): Promise<Record<string, string>> {
+    return this.service.getFlowTags(flowId, options);
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
-    return this.service.setFlowTag(flowId, tagName, tagValue);
+  async setFlowTag(flowId: string, tagName: string, tagValue: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.setFlowTag(flowId, tagName, tagValue, options);
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<any> {
-    return this.service.deleteFlowTag(flowId, tagName);
+  async deleteFlowTag(flowId: string, tagName: string, options: RequestOptions = {}): Promise<void> {
+    return this.service.deleteFlowTag(flowId, tagName, options);
   }
 
-  async getFlowCollection(flowId: string): Promise<any> {
-    return this.service.getFlowCollection(flowId);
+  async getFlowCollection(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.getFlowCollection(flowId, options);
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<any> {
-    return this.service.setFlowCollection(flowId, collectionId);
+  async setFlowCollection(flowId: string, collectionId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.setFlowCollection(flowId, collectionId, options);
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<any> {
-    return this.service.removeFlowFromCollection(flowId);
+  async removeFlowFromCollection(flowId: string, options: RequestOptions = {}): Promise<void> {
+    return this.service.removeFlowFromCollection(flowId, options);
   }
 
-  async getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }> {
-    return this.service.getFlowReadOnly(flowId);
+  async getFlowReadOnly(flowId: string, options: RequestOptions = {}): Promise<{ read_only: boolean }> {
+    return this.service.getFlowReadOnly(flowId, options);
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any> {
-    return this.service.setFlowReadOnly(flowId, readOnly);
+  async setFlowReadOnly(flowId: string, readOnly: boolean, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.setFlowReadOnly(flowId, readOnly, options);
   }
 
-  async getFlowDescription(flowId: string): Promise<{ description: string }> {
-    return this.service.getFlowDescription(flowId);
+  async getFlowDescription(flowId: string, options: RequestOptions = {}): Promise<{ description: string | null }> {
+    return this.service.getFlowDescription(flowId, options);
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<any> {
-    return this.service.setFlowDescription(flowId, description);
+  async setFlowDescription(flowId: string, description: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.setFlowDescription(flowId, description, options);
   }
 
-  async getFlowLabel(flowId: string): Promise<{ label: string }> {
-    return this.service.getFlowLabel(flowId);
+  async getFlowLabel(flowId: string, options: RequestOptions = {}): Promise<{ label: string | null }> {
+    return this.service.getFlowLabel(flowId, options);
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<any> {
-    return this.service.setFlowLabel(flowId, label);
+  async setFlowLabel(flowId: string, label: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.setFlowLabel(flowId, label, options);
   }
 
   // Advanced Features - Field Operations
-  async getFieldValue<T = any>(
+  async getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -455,7 +497,7 @@ export class VastTamsApiClient implements IApiClient {
     throw new Error(`Field operations for ${entityType} not yet implemented`);
   }
 
-  async updateFieldValue<T = any>(
+  async updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -497,7 +539,7 @@ export class VastTamsApiClient implements IApiClient {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>> {
+  ): Promise<BBCApiResponse<Record<string, unknown>>> {
     // This would require a HEAD request implementation
     throw new Error('Field metadata retrieval not yet implemented');
   }
@@ -528,21 +570,21 @@ export class VastTamsApiClient implements IApiClient {
   }
 
   // Advanced Features - Storage Management
-  async getStorage(flowId: string): Promise<any> {
-    return this.service.getStorageAllocation(flowId);
+  async getStorage(flowId: string, options: RequestOptions = {}): Promise<unknown> {
+    return this.service.getStorageAllocation(flowId, options);
   }
 
   // Health and Monitoring
-  async getHealth(): Promise<any> {
-    return this.service.getHealth();
+  async getHealth(options: RequestOptions = {}): Promise<BackendHealth> {
+    return { ...(await this.service.getHealth(options)) };
   }
 
-  async getMetrics(): Promise<any> {
-    return this.service.getMetrics();
+  async getMetrics(options: RequestOptions = {}): Promise<unknown> {
+    return this.service.getMetrics(options);
   }
 
-  async getService(): Promise<any> {
-    return this.service.getService();
+  async getService(options: RequestOptions = {}): Promise<Service> {
+    return this.decode('service', await this.service.getService(options), '/service');
   }
 
   // VAST TAMS Specific Features
@@ -554,23 +596,47 @@ export class VastTamsApiClient implements IApiClient {
     return this.service.getSegmentMetadataUrl(flowId, segmentId);
   }
 
-  async getFlowDeleteRequests(options?: BBCApiOptions): Promise<BBCApiResponse<any>> {
+  async getFlowDeleteRequests(options?: BBCApiOptions): Promise<BBCApiResponse<VastTamsFlowDeleteRequest>> {
     return this.service.getFlowDeleteRequests(options);
   }
 
-  async getFlowDeleteRequest(requestId: string): Promise<any> {
+  async getFlowDeleteRequest(requestId: string): Promise<VastTamsFlowDeleteRequest> {
     return this.service.getFlowDeleteRequest(requestId);
   }
 
-  async createFlowDeleteRequest(requestData: any): Promise<any> {
+  async createFlowDeleteRequest(
+    requestData: Parameters<VastTamsService['createFlowDeleteRequest']>[0]
+  ): Promise<VastTamsFlowDeleteRequest> {
     return this.service.createFlowDeleteRequest(requestData);
   }
 
-  async updateFlowDeleteRequest(requestId: string, updates: any): Promise<any> {
+  async updateFlowDeleteRequest(
+    requestId: string,
+    updates: Parameters<VastTamsService['updateFlowDeleteRequest']>[1]
+  ): Promise<VastTamsFlowDeleteRequest> {
     return this.service.updateFlowDeleteRequest(requestId, updates);
   }
 
-  async getOpenApiSpec(): Promise<any> {
+  async getOpenApiSpec(): Promise<unknown> {
     return this.service.getOpenApiSpec();
   }
+
+  /**
+   * Compare the backend's published OpenAPI schemas with the shared TAMS types
+   */
+  async checkSchemaConformance(): Promise<SpecMismatch[]> {
+    return compareWithOpenApiSpec(await this.getOpenApiSpec());
+  }
+
+  private decode<K extends TamsEntityName>(entity: K, value: unknown, endpoint: string): TamsEntityTypes[K] {
+    return decodeEntity(entity, value, { backend: this.config.id, endpoint });
+  }
+
+  private decodeList<K extends TamsEntityName>(
+    entity: K,
+    response: BBCApiResponse<unknown>,
+    endpoint: string
+  ): BBCApiResponse<TamsEntityTypes[K]> {
+    return decodeEntityList(entity, response, { backend: this.config.id, endpoint });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,186 @@
+/**
+ * Optimistic Concurrency
+ *
+ * Conditional updates for the editors that change a few fields of a flow or source (tags,
+ * label, description, field editor). Before writing, the values the editor started from are
+ * compared with the backend's current values: changes made by someone else to other fields
+ * are kept, and fields both sides changed differently raise an EditConflictError carrying
+ * the original, yours and theirs values for the three-way merge dialog.
+ *
+ * ETags seen on GET responses are recorded per backend and resource path (as callers name it,
+ * before any endpoint remapping); writes to a path with a known ETag send `If-Match`, so a
+ * change landing between the check and the write comes back as HTTP 412 and is re-checked
+ * instead of being overwritten. Editors read each resource they write (a field, a tag) so
+ * its ETag is known.
+ */
+
+import { isPreconditionFailed, type ConditionalRequestOptions } from './http';
+
+export type FieldValues = Record<string, unknown>;
+
+export interface FieldConflict {
+  field: string;
+  original: unknown;
+  yours: unknown;
+  theirs: unknown;
+}
+
+export type ConflictChoice = 'yours' | 'theirs';
+
+export interface ConcurrentSave {
+  // Values when the editor was opened
+  original: FieldValues;
+  // Values the user wants to save
+  yours: FieldValues;
+  // Current values on the backend (must bypass caches)
+  loadTheirs: () => Promise<FieldValues>;
+  // Apply the changed fields; `undefined` means delete the field
+  write: (changes: FieldValues) => Promise<void>;
+}
+
+// Re-checks after a 412 before giving up
+const MAX_PRECONDITION_RETRIES = 2;
+
+export class EditConflictError extends Error {
+  readonly conflicts: FieldConflict[];
+  readonly original: FieldValues;
+  readonly yours: FieldValues;
+  readonly theirs: FieldValues;
+
+  constructor(conflicts: FieldConflict[], original: FieldValues, yours: FieldValues, theirs: FieldValues) {
+    super(`Edit conflict: ${conflicts.map(conflict => conflict.field).join(', ')} changed on the backend`);
+    this.name = 'EditConflictError';
+    this.conflicts = conflicts;
+    this.original = original;
+    this.yours = yours;
+    this.theirs = theirs;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Three-way comparison
+// ---------------------------------------------------------------------------
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldsOf = (...values: FieldValues[]): string[] =>
+  [...new Set(values.flatMap(value => Object.keys(value)))];
+
+/**
+ * Fields the user changed, with their new values (`undefined` for removed fields)
+ */
+export function changedFields(original: FieldValues, yours: FieldValues): FieldValues {
+  const changes: FieldValues = {};
+  for (const field of fieldsOf(original, yours)) {
+    if (!sameValue(original[field], yours[field])) {
+      changes[field] = yours[field];
+    }
+  }
+  return changes;
+}
+
+/**
+ * Fields changed on both sides to different values
+ */
+export function detectConflicts(original: FieldValues, yours: FieldValues, theirs: FieldValues): FieldConflict[] {
+  return Object.keys(changedFields(original, yours))
+    .filter(field => !sameValue(original[field], theirs[field]) && !sameValue(yours[field], theirs[field]))
+    .map(field => ({ field, original: original[field], yours: yours[field], theirs: theirs[field] }));
+}
+
+/**
+ * Values with `changes` applied, dropping removed fields
+ */
+export function applyChanges(values: FieldValues, changes: FieldValues): FieldValues {
+  const result: FieldValues = { ...values, ...changes };
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined) delete result[field];
+  }
+  return result;
+}
+
+/**
+ * The edit to retry after the user resolved a conflict: based on their values, with the
+ * user's non-conflicting changes and the chosen side of every conflicting field
+ */
+export function resolveConflict(
+  conflict: EditConflictError,
+  choices: Record<string, ConflictChoice>
+): Pick<ConcurrentSave, 'original' | 'yours'> {
+  const chosen: FieldValues = {};
+  for (const { field, yours, theirs } of conflict.conflicts) {
+    chosen[field] = choices[field] === 'theirs' ? theirs : yours;
+  }
+  const changes = { ...changedFields(conflict.original, conflict.yours), ...chosen };
+  return { original: conflict.theirs, yours: applyChanges(conflict.theirs, changes) };
+}
+
+// ---------------------------------------------------------------------------
+// ETags
+// ---------------------------------------------------------------------------
+
+const etags = new Map<string, string>();
+
+const etagKey = (backendId: string, path: string): string => `${backendId} ${path.split('?')[0] ?? path}`;
+
+/**
+ * Remember the ETag a GET to `backendId` returned for `path`
+ */
+export function recordEtag(backendId: string, path: string, etag: string | null): void {
+  if (etag) {
+    etags.set(etagKey(backendId, path), etag);
+  } else {
+    etags.delete(etagKey(backendId, path));
+  }
+}
+
+/**
+ * ETag last seen for `path` on `backendId`, for `If-Match` on a write to the same resource
+ */
+export function getEtag(backendId: string, path: string): string | undefined {
+  return etags.get(etagKey(backendId, path));
+}
+
+/**
+ * Request options for a conditional write to `path` on `backendId`; empty when no ETag is known
+ */
+export function conditionalOptions(backendId: string, path: string): ConditionalRequestOptions {
+  const etag = getEtag(backendId, path);
+  return etag ? { ifMatch: etag } : {};
+}
+
+// ---------------------------------------------------------------------------
+// Conditional save
+// ---------------------------------------------------------------------------
+
+/**
+ * Save the user's changes unless someone else changed the same fields since the editor was
+ * opened. Resolves with the values now on the backend; rejects with EditConflictError when
+ * the user has to choose between versions.
+ */
+export async function saveWithConflictCheck(save: ConcurrentSave): Promise<FieldValues> {
+  for (let attempt = 0; ; attempt++) {
+    const theirs = await save.loadTheirs();
+    const conflicts = detectConflicts(save.original, save.yours, theirs);
+    if (conflicts.length > 0) {
+      throw new EditConflictError(conflicts, save.original, save.yours, theirs);
+    }
+
+    // Skip fields the backend already has at the wanted value
+    const changes = changedFields(theirs, applyChanges(theirs, changedFields(save.original, save.yours)));
+    if (Object.keys(changes).length === 0) {
+      return theirs;
+    }
+
+    try {
+      await save.write(changes);
+      return applyChanges(theirs, changes);
+    } catch (error) {
+      if (!isPreconditionFailed(error)) throw error;
+      if (attempt >= MAX_PRECONDITION_RETRIES) {
+        throw new Error('The item keeps changing on the backend while saving; reload it and try again');
+      }
+      // Someone else saved in between: re-check for conflicts against their version
+    }
+  }
+}
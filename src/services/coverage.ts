@@ -0,0 +1,62 @@
+/**
+ * Flow Coverage
+ *
+ * Fetches every segment of a flow through the paginated segments API and analyses how they
+ * cover its timeline (see segmentCoverage). Drives the coverage bar on a flow's segment
+ * timeline, the downloadable coverage report and the flow and source health monitors.
+ */
+
+import type { FlowCoverageReport } from '../types/backend';
+import type { Flow, FlowSegment } from '../types/tams';
+import type { UnifiedApiClient } from './api';
+import { collectAll } from './pagination';
+import { analyseSegmentCoverage, type CoverageFlow } from '../utils/segmentCoverage';
+
+// Segments requested per page while walking a flow
+const SEGMENT_PAGE_SIZE = 1000;
+
+export interface CoverageOptions {
+  signal?: AbortSignal;
+  // The flow, when the caller has it already; fetched otherwise
+  flow?: CoverageFlow;
+}
+
+/**
+ * Analyse the coverage of one flow across all its segments
+ */
+export async function analyseFlowCoverage(
+  client: UnifiedApiClient,
+  flowId: string,
+  { signal, flow }: CoverageOptions = {}
+): Promise<FlowCoverageReport> {
+  const request = signal ? { signal } : {};
+  const [flowData, segments] = await Promise.all([
+    flow ?? client.getFlow(flowId, request) as Promise<CoverageFlow | null>,
+    collectAll<FlowSegment>(client.iterateFlowSegments(flowId, { ...request, limit: SEGMENT_PAGE_SIZE }))
+  ]);
+  return analyseSegmentCoverage(flowId, segments, flowData ?? undefined);
+}
+
+export interface SourceFlowCoverage {
+  flow: Flow;
+  report: FlowCoverageReport;
+}
+
+/**
+ * Analyse the coverage of each flow of a source, one flow at a time
+ */
+export async function analyseSourceCoverage(
+  client: UnifiedApiClient,
+  sourceId: string,
+  { signal }: Pick<CoverageOptions, 'signal'> = {}
+): Promise<SourceFlowCoverage[]> {
+  const request = signal ? { signal } : {};
+  const flows = (await collectAll<Flow>(client.iterateFlows({ ...request, custom: { source_id: sourceId } })))
+    // Backends that ignore the filter return every flow
+    .filter(flow => flow.source_id === sourceId);
+  const coverage: SourceFlowCoverage[] = [];
+  for (const flow of flows) {
+    coverage.push({ flow, report: await analyseFlowCoverage(client, flow.id, { ...request, flow }) });
+  }
+  return coverage;
+}
@@ -0,0 +1,416 @@
+/**
+ * Backend Credentials
+ *
+ * Supplies each backend's credentials to the request pipeline's auth middleware according
+ * to its `auth` config:
+ * an API key header, a bearer token, or an OAuth2 access token obtained from
+ * `tokenEndpoint` with the client credentials grant or the authorization code flow with PKCE. OAuth2 tokens
+ * are refreshed shortly before they expire and again after a 401.
+ *
+ * Secrets and tokens live in sessionStorage, per backend and per browser tab, so they are
+ * gone when the tab closes and never end up in committed config.
+ */
+
+import { getBackendConfig, type BackendApiConfig } from '../config/apiConfig';
+import { AuthError } from './errors';
+import { fetchWithPolicy } from './http';
+
+export interface StoredCredentials {
+  // api-key
+  apiKey?: string;
+  // bearer
+  token?: string;
+  // oauth2 client credentials grant (clientId also overrides the configured one for PKCE)
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export type CredentialStatus =
+  | 'not-required'
+  | 'missing'
+  | 'configured'
+  | 'signed-in'
+  | 'rejected';
+
+interface OAuthToken {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds; absent when the token endpoint did not say
+  expiresAt?: number;
+}
+
+interface PendingSignIn {
+  backendId: string;
+  state: string;
+  verifier: string;
+  redirectUri: string;
+}
+
+type CredentialListener = () => void;
+
+const CREDENTIALS_KEY_PREFIX = 'tams-credentials:';
+const TOKEN_KEY_PREFIX = 'tams-oauth-token:';
+const PENDING_SIGN_IN_KEY = 'tams-oauth-pending';
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+// Refresh access tokens this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+function readJson<T>(key: string): T | null {
+  const raw = sessionStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    // Unreadable entries are dropped, as if they had never been stored
+    sessionStorage.removeItem(key);
+    return null;
+  }
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return window.btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(byteLength = 32): string {
+  return base64Url(window.crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts (leaving `promise` running)
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  const abortError = () => signal.reason ?? new DOMException('Request aborted', 'AbortError');
+  if (signal.aborted) return Promise.reject(abortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+export class CredentialManager {
+  // Token requests in flight per backend, shared by concurrent callers
+  private tokenRequests = new Map<string, Promise<OAuthToken | null>>();
+  // Backends whose current credentials were answered with 401
+  private rejected = new Set<string>();
+  private listeners = new Set<CredentialListener>();
+
+  /**
+   * Credentials the user entered for a backend
+   */
+  getCredentials(backendId: string): StoredCredentials {
+    return readJson<StoredCredentials>(CREDENTIALS_KEY_PREFIX + backendId) ?? {};
+  }
+
+  /**
+   * Store credentials for a backend, replacing any previous ones and their tokens
+   */
+  saveCredentials(backendId: string, credentials: StoredCredentials): void {
+    const entries = Object.entries(credentials).filter(([, value]) => typeof value === 'string' && value.trim());
+    if (entries.length === 0) {
+      sessionStorage.removeItem(CREDENTIALS_KEY_PREFIX + backendId);
+    } else {
+      sessionStorage.setItem(CREDENTIALS_KEY_PREFIX + backendId, JSON.stringify(Object.fromEntries(entries)));
+    }
+    sessionStorage.removeItem(TOKEN_KEY_PREFIX + backendId);
+    this.rejected.delete(backendId);
+    this.notify();
+  }
+
+  /**
+   * Forget everything stored for a backend (credentials and tokens)
+   */
+  signOut(backendId: string): void {
+    sessionStorage.removeItem(CREDENTIALS_KEY_PREFIX + backendId);
+    sessionStorage.removeItem(TOKEN_KEY_PREFIX + backendId);
+    this.rejected.delete(backendId);
+    this.notify();
+  }
+
+  /**
+   * Whether requests to a backend can currently be authenticated
+   */
+  getStatus(config: BackendApiConfig): CredentialStatus {
+    const type = config.auth?.type ?? 'none';
+    if (type === 'none') return 'not-required';
+    if (this.rejected.has(config.id)) return 'rejected';
+
+    const credentials = this.getCredentials(config.id);
+    switch (type) {
+      case 'api-key':
+        return credentials.apiKey ? 'configured' : 'missing';
+      case 'bearer':
+        return credentials.token ? 'configured' : 'missing';
+      case 'oauth2': {
+        const token = this.storedToken(config.id);
+        if (token && (!this.isExpiring(token) || token.refreshToken)) return 'signed-in';
+        return credentials.clientSecret ? 'configured' : 'missing';
+      }
+    }
+  }
+
+  /**
+   * Subscribe to credential changes (saved, signed in or out, rejected)
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: CredentialListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Request authentication
+  // -------------------------------------------------------------------------
+
+  /**
+   * Called after `config` answered 401; resolves true when fresh credentials are available
+   * and the request should be sent again
+   */
+  async onUnauthorized(config: BackendApiConfig, signal?: AbortSignal): Promise<boolean> {
+    if (config.auth?.type === 'oauth2') {
+      // Keep the refresh token; the access token was revoked or expired early
+      const token = this.storedToken(config.id);
+      if (token) {
+        const { refreshToken } = token;
+        this.storeToken(config.id, refreshToken ? { accessToken: '', refreshToken, expiresAt: 0 } : null);
+      }
+      if (await this.accessToken(config, signal)) return true;
+    }
+
+    // Without credentials the 401 just means the user has not entered any yet
+    if (this.getStatus(config) !== 'missing') {
+      // Shown through the 'rejected' status until the user enters new credentials
+      this.rejected.add(config.id);
+      this.notify();
+    }
+    return false;
+  }
+
+  /**
+   * Headers carrying the credentials for `config`; empty when none are available
+   */
+  async headersFor(config: BackendApiConfig, signal?: AbortSignal): Promise<Record<string, string>> {
+    const credentials = this.getCredentials(config.id);
+    switch (config.auth?.type) {
+      case 'api-key':
+        return credentials.apiKey ? { [config.auth.apiKeyHeader ?? DEFAULT_API_KEY_HEADER]: credentials.apiKey } : {};
+      case 'bearer':
+        return credentials.token ? { Authorization: `Bearer ${credentials.token}` } : {};
+      case 'oauth2': {
+        const accessToken = await this.accessToken(config, signal);
+        return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+      }
+      default:
+        return {};
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // OAuth2
+  // -------------------------------------------------------------------------
+
+  /**
+   * Start the authorization code flow with PKCE: redirects the browser to the backend's
+   * login page, which returns to the current page (see completeSignIn)
+   */
+  async signIn(config: BackendApiConfig): Promise<void> {
+    const auth = config.auth;
+    const clientId = this.getCredentials(config.id).clientId ?? auth?.clientId;
+    if (auth?.type !== 'oauth2' || !auth.authorizationEndpoint || !clientId) {
+      throw new Error(`${config.name} is not configured for OAuth2 sign-in (authorization endpoint and client ID required)`);
+    }
+
+    const pending: PendingSignIn = {
+      backendId: config.id,
+      state: randomString(16),
+      verifier: randomString(),
+      redirectUri: `${window.location.origin}${window.location.pathname}`,
+    };
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: pending.redirectUri,
+      code_challenge: await pkceChallenge(pending.verifier),
+      code_challenge_method: 'S256',
+      state: pending.state,
+    });
+    if (auth.scope) params.set('scope', auth.scope);
+
+    sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+    window.location.assign(`${auth.authorizationEndpoint}?${params.toString()}`);
+  }
+
+  /**
+   * Finish a sign-in started by signIn when the login page redirected back here: exchanges
+   * the authorization code for tokens and removes it from the address bar
+   * @returns The backend signed in to, or null when the page was not an OAuth2 redirect
+   */
+  async completeSignIn(): Promise<string | null> {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const state = params.get('state');
+    const pending = readJson<PendingSignIn>(PENDING_SIGN_IN_KEY);
+    if (!pending || !state || state !== pending.state) return null;
+    // Consume the pending sign-in first so a second call (e.g. StrictMode) does nothing
+    sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+
+    const url = new URL(window.location.href);
+    for (const name of ['code', 'state', 'session_state', 'error', 'error_description']) {
+      url.searchParams.delete(name);
+    }
+    window.history.replaceState(window.history.state, '', url.href);
+
+    const config = getBackendConfig(pending.backendId);
+    if (!config || !code) {
+      throw new Error(`Sign-in failed: ${params.get('error_description') ?? params.get('error') ?? 'no authorization code returned'}`);
+    }
+
+    const clientId = this.getCredentials(config.id).clientId ?? config.auth?.clientId ?? '';
+    const exchange = this.requestToken(config, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: clientId,
+      code_verifier: pending.verifier,
+    });
+    this.tokenRequests.set(config.id, exchange);
+    try {
+      await exchange;
+    } finally {
+      this.tokenRequests.delete(config.id);
+    }
+    this.rejected.delete(config.id);
+    this.notify();
+    return config.id;
+  }
+
+  /**
+   * A valid access token for `config`, refreshing or requesting one when needed; null when
+   * the user has to sign in or enter client credentials first
+   */
+  private async accessToken(config: BackendApiConfig, signal?: AbortSignal): Promise<string | null> {
+    const token = this.storedToken(config.id);
+    if (token?.accessToken && !this.isExpiring(token)) {
+      return token.accessToken;
+    }
+
+    // Shared by every request waiting for a token, so it runs without any one caller's
+    // signal; each caller stops waiting when its own signal aborts
+    let request = this.tokenRequests.get(config.id);
+    if (!request) {
+      request = this.renewToken(config, token).finally(() => this.tokenRequests.delete(config.id));
+      this.tokenRequests.set(config.id, request);
+    }
+    return (await raceAbort(request, signal))?.accessToken ?? null;
+  }
+
+  private async renewToken(config: BackendApiConfig, token: OAuthToken | null): Promise<OAuthToken | null> {
+    const credentials = this.getCredentials(config.id);
+    const clientId = credentials.clientId ?? config.auth?.clientId;
+
+    if (token?.refreshToken) {
+      try {
+        return await this.requestToken(config, {
+          grant_type: 'refresh_token',
+          refresh_token: token.refreshToken,
+          ...(clientId ? { client_id: clientId } : {}),
+          ...(credentials.clientSecret ? { client_secret: credentials.clientSecret } : {}),
+        });
+      } catch {
+        // The refresh token is spent; fall back to client credentials or a new sign-in
+        this.storeToken(config.id, null);
+      }
+    }
+
+    if (clientId && credentials.clientSecret) {
+      return this.requestToken(config, {
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: credentials.clientSecret,
+        ...(config.auth?.scope ? { scope: config.auth.scope } : {}),
+      });
+    }
+
+    if (token) {
+      this.storeToken(config.id, null);
+      this.notify();
+    }
+    return null;
+  }
+
+  /**
+   * POST a token request to the backend's token endpoint and store the result. Failures
+   * reject with an AuthError, which the request pipeline does not retry.
+   */
+  private async requestToken(config: BackendApiConfig, params: Record<string, string>): Promise<OAuthToken> {
+    const tokenEndpoint = config.auth?.tokenEndpoint;
+    if (!tokenEndpoint) {
+      throw new Error(`${config.name} has no OAuth2 token endpoint configured`);
+    }
+
+    const response = await fetchWithPolicy(tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams(params).toString(),
+    }).catch((error: unknown) => {
+      throw new AuthError(`Token request failed: ${error instanceof Error ? error.message : String(error)}`, { backend: config.id });
+    });
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+    if (!response.ok || typeof body.access_token !== 'string') {
+      const reason = typeof body.error_description === 'string' ? body.error_description : body.error ?? response.statusText;
+      throw new AuthError(`Token request failed: ${response.status} ${String(reason)}`, { backend: config.id });
+    }
+
+    const refreshToken = typeof body.refresh_token === 'string' ? body.refresh_token : params.refresh_token;
+    const token: OAuthToken = {
+      accessToken: body.access_token,
+      ...(refreshToken ? { refreshToken } : {}),
+      ...(typeof body.expires_in === 'number' ? { expiresAt: Date.now() + body.expires_in * 1000 } : {}),
+    };
+    this.storeToken(config.id, token);
+    return token;
+  }
+
+  private storedToken(backendId: string): OAuthToken | null {
+    return readJson<OAuthToken>(TOKEN_KEY_PREFIX + backendId);
+  }
+
+  private storeToken(backendId: string, token: OAuthToken | null): void {
+    if (token) {
+      sessionStorage.setItem(TOKEN_KEY_PREFIX + backendId, JSON.stringify(token));
+    } else {
+      sessionStorage.removeItem(TOKEN_KEY_PREFIX + backendId);
+    }
+  }
+
+  private isExpiring(token: OAuthToken): boolean {
+    return token.expiresAt !== undefined && token.expiresAt - REFRESH_MARGIN_MS <= Date.now();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const credentialManager = new CredentialManager();
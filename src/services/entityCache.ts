@@ -0,0 +1,562 @@
+/**
+ * Entity Cache
+ *
+ * Normalised client-side cache for sources, flows and flow segments, keyed by backend and
+ * entity id. List responses are stored as id lists over the shared entity records, so a
+ * flow fetched by the flows page is already available to the flow details page, and a
+ * mutation applied to one record shows up in every list that contains it.
+ *
+ * Reads are stale-while-revalidate: a fresh record is returned as-is, a stale one is
+ * returned immediately while a background request refreshes it, and an expired or missing
+ * one is fetched. Concurrent reads of the same key share one request, which is only
+ * cancelled once every caller waiting on it has aborted.
+ */
+
+import type { BBCApiResponse } from './tamsProtocol';
+import type { RequestOptions } from './http';
+
+export type CachedEntityKind = 'source' | 'flow';
+
+export type CacheChangeKind = CachedEntityKind | 'segments';
+
+export interface CacheChange {
+  backend: string;
+  kind: CacheChangeKind;
+  // Entity (or, for segments, flow) id; absent when a whole list changed
+  id?: string;
+}
+
+// Receives the changes made by one revalidation or mutation
+export type CacheListener = (changes: CacheChange[]) => void;
+
+export type CacheLoader<T> = (options: RequestOptions) => Promise<T>;
+
+export interface CacheReadOptions extends RequestOptions {
+  // Wait for the backend instead of serving a cached record, e.g. before a conditional update
+  fresh?: boolean;
+}
+
+// Records younger than this are served without revalidating
+const STALE_TIME_MS = 30 * 1000;
+// Records older than this are refetched before being served
+const MAX_AGE_MS = 5 * 60 * 1000;
+// Cached list and segment queries per backend before the oldest are dropped
+const MAX_QUERY_RECORDS = 200;
+
+interface EntityRecord {
+  value: Record<string, unknown>;
+  fetchedAt: number;
+  // Mutation sequence number of the last write, see EntityCache.sequence
+  writtenAt: number;
+}
+
+interface ListRecord {
+  kind: CachedEntityKind;
+  ids: string[];
+  // The list response with an empty data array
+  envelope: BBCApiResponse<unknown>;
+  fetchedAt: number;
+  invalidated: boolean;
+}
+
+interface SegmentsRecord {
+  flowId: string;
+  response: BBCApiResponse<unknown>;
+  fetchedAt: number;
+}
+
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  // Callers with a signal that are still waiting
+  waiters: number;
+  // Set once a caller without a signal (or a background revalidation) joins
+  pinned: boolean;
+}
+
+interface Freshness {
+  fetchedAt: number;
+  invalidated?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Id of a TAMS entity, accepting Mongo-style `_id` from backends that omit `id`
+ */
+export function entityId(value: unknown): string | undefined {
+  if (!isRecord(value)) return undefined;
+  const id = value.id ?? value._id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/**
+ * Stable cache key for list query options; the abort signal and priority are not part of the query
+ */
+export function queryKey(options: object = {}): string {
+  const entries = Object.entries(options)
+    .filter(([key, value]) => key !== 'signal' && key !== 'background' && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+// ---------------------------------------------------------------------------
+// Updates for patchEntity
+// ---------------------------------------------------------------------------
+
+export type EntityUpdate = (value: Record<string, unknown>) => Record<string, unknown>;
+
+export const withFields = (fields: Record<string, unknown>): EntityUpdate =>
+  value => ({ ...value, ...fields });
+
+export const withoutFields = (...fields: string[]): EntityUpdate =>
+  value => Object.fromEntries(Object.entries(value).filter(([key]) => !fields.includes(key)));
+
+export const withTag = (name: string, tagValue: string | string[]): EntityUpdate =>
+  value => ({ ...value, tags: { ...(isRecord(value.tags) ? value.tags : {}), [name]: tagValue } });
+
+export const withoutTag = (name: string): EntityUpdate =>
+  value => ({ ...value, tags: withoutFields(name)(isRecord(value.tags) ? value.tags : {}) });
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Request aborted', 'AbortError');
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+class EntityCache {
+  private entities = new Map<string, EntityRecord>();
+  private lists = new Map<string, ListRecord>();
+  private segments = new Map<string, SegmentsRecord>();
+  private inflight = new Map<string, SharedRequest<unknown>>();
+  private listeners = new Set<CacheListener>();
+  // Incremented by every mutation; fetches started before a mutation don't overwrite it
+  private sequence = 0;
+  // Sequence number at which an entity or a flow's segments were last evicted
+  private evictedAt = new Map<string, number>();
+
+  // -------------------------------------------------------------------------
+  // Reads
+  // -------------------------------------------------------------------------
+
+  /**
+   * Read a single source or flow
+   */
+  async getEntity<T>(
+    backend: string,
+    kind: CachedEntityKind,
+    id: string,
+    load: CacheLoader<T>,
+    options: CacheReadOptions = {}
+  ): Promise<T> {
+    const key = this.entityKey(backend, kind, id);
+    return this.read<T>(
+      key,
+      () => {
+        const record = this.entities.get(key);
+        return record && { value: clone(record.value) as T, freshness: record };
+      },
+      async requestOptions => {
+        const startedAt = this.sequence;
+        const value = await load(requestOptions);
+        if (this.writeEntity(backend, kind, value, startedAt)) {
+          return { value, changed: [{ backend, kind, id }] };
+        }
+        return { value, changed: [] };
+      },
+      options
+    );
+  }
+
+  /**
+   * Read a list of sources or flows; the entities are stored individually
+   */
+  async getList<T>(
+    backend: string,
+    kind: CachedEntityKind,
+    query: string,
+    load: CacheLoader<BBCApiResponse<T>>,
+    options: RequestOptions = {}
+  ): Promise<BBCApiResponse<T>> {
+    const key = `${backend}|${kind}s|${query}`;
+    return this.read<BBCApiResponse<T>>(
+      key,
+      () => {
+        const record = this.lists.get(key);
+        const data = record && this.materialise(backend, record);
+        return data && { value: { ...clone(record.envelope), data: data as T[] }, freshness: record };
+      },
+      async requestOptions => {
+        const startedAt = this.sequence;
+        const response = await load(requestOptions);
+        return { value: response, changed: this.writeList(backend, kind, key, response, startedAt) };
+      },
+      options
+    );
+  }
+
+  /**
+   * Read a page of segments for a flow
+   */
+  async getSegments<T>(
+    backend: string,
+    flowId: string,
+    query: string,
+    load: CacheLoader<BBCApiResponse<T>>,
+    options: RequestOptions = {}
+  ): Promise<BBCApiResponse<T>> {
+    const key = `${backend}|segments|${flowId}|${query}`;
+    return this.read<BBCApiResponse<T>>(
+      key,
+      () => {
+        const record = this.segments.get(key);
+        return record && { value: clone(record.response) as BBCApiResponse<T>, freshness: record };
+      },
+      async requestOptions => {
+        const startedAt = this.sequence;
+        const response = await load(requestOptions);
+        const previous = this.segments.get(key);
+        // Segments changed by a mutation since the request started are newer than the response
+        if ((this.evictedAt.get(this.segmentsKey(backend, flowId)) ?? -1) > startedAt) {
+          return { value: response, changed: [] };
+        }
+        this.segments.delete(key);
+        this.segments.set(key, { flowId, response: clone(response), fetchedAt: Date.now() });
+        this.trim(this.segments);
+        const changed = !previous || JSON.stringify(previous.response) !== JSON.stringify(response);
+        return { value: response, changed: changed ? [{ backend, kind: 'segments' as const, id: flowId }] : [] };
+      },
+      options
+    );
+  }
+
+  /**
+   * Cached source or flow without fetching, e.g. to resolve an id the backend can't look up
+   */
+  peekEntity<T = unknown>(backend: string, kind: CachedEntityKind, id: string): T | undefined {
+    const direct = this.entities.get(this.entityKey(backend, kind, id));
+    if (direct) return clone(direct.value) as T;
+
+    // Fall back to a case-insensitive match on id or _id
+    const prefix = `${backend}|${kind}|`;
+    const wanted = id.toLowerCase();
+    for (const [key, record] of this.entities) {
+      if (!key.startsWith(prefix)) continue;
+      const candidates = [record.value.id, record.value._id].filter(value => typeof value === 'string') as string[];
+      if (candidates.some(candidate => candidate.toLowerCase() === wanted)) {
+        return clone(record.value) as T;
+      }
+    }
+    return undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Mutations
+  // -------------------------------------------------------------------------
+
+  /**
+   * Store an entity returned by a create or update and mark its lists stale
+   */
+  setEntity(backend: string, kind: CachedEntityKind, value: unknown): void {
+    const id = entityId(value);
+    if (!id) {
+      this.invalidateLists(backend, kind);
+      return;
+    }
+    this.sequence++;
+    this.writeEntity(backend, kind, value, this.sequence);
+    this.invalidateLists(backend, kind, false);
+    this.emit([{ backend, kind, id }]);
+  }
+
+  /**
+   * Apply an update to a cached entity in place; does nothing if the entity isn't cached
+   */
+  patchEntity(
+    backend: string,
+    kind: CachedEntityKind,
+    id: string,
+    update: EntityUpdate
+  ): void {
+    const record = this.entities.get(this.entityKey(backend, kind, id));
+    if (!record) return;
+    this.sequence++;
+    record.value = update(clone(record.value));
+    record.writtenAt = this.sequence;
+    this.emit([{ backend, kind, id }]);
+  }
+
+  /**
+   * Drop a deleted entity from the cache and from every cached list; deleting a flow also
+   * drops its segments, and deleting a source marks the flow lists stale
+   */
+  evictEntity(backend: string, kind: CachedEntityKind, id: string): void {
+    this.sequence++;
+    const key = this.entityKey(backend, kind, id);
+    this.entities.delete(key);
+    this.evictedAt.set(key, this.sequence);
+    for (const record of this.listsFor(backend, kind)) {
+      record.ids = record.ids.filter(listed => listed !== id);
+    }
+    if (kind === 'flow') {
+      this.evictSegments(backend, id);
+    } else {
+      this.invalidateLists(backend, 'flow', false);
+    }
+    this.emit([{ backend, kind, id }]);
+  }
+
+  /**
+   * Drop every cached segment page for a flow
+   */
+  evictSegments(backend: string, flowId: string): void {
+    this.sequence++;
+    this.evictedAt.set(this.segmentsKey(backend, flowId), this.sequence);
+    for (const [key, record] of this.segments) {
+      if (key.startsWith(`${backend}|`) && record.flowId === flowId) {
+        this.segments.delete(key);
+      }
+    }
+    this.emit([{ backend, kind: 'segments', id: flowId }]);
+  }
+
+  /**
+   * Mark the cached lists of a kind stale, e.g. after a create whose response has no body
+   */
+  invalidateLists(backend: string, kind: CachedEntityKind, notify: boolean = true): void {
+    for (const record of this.listsFor(backend, kind)) {
+      record.invalidated = true;
+    }
+    if (notify) {
+      this.emit([{ backend, kind }]);
+    }
+  }
+
+  /**
+   * Forget everything cached for a backend, or for all backends
+   */
+  clear(backend?: string): void {
+    this.sequence++;
+    for (const map of [this.entities, this.lists, this.segments, this.evictedAt] as Map<string, unknown>[]) {
+      for (const key of [...map.keys()]) {
+        if (!backend || key.startsWith(`${backend}|`)) {
+          map.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Notify `listener` of background revalidations and mutations
+   * @returns unsubscribe function
+   */
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private entityKey(backend: string, kind: CachedEntityKind, id: string): string {
+    return `${backend}|${kind}|${id}`;
+  }
+
+  private segmentsKey(backend: string, flowId: string): string {
+    return `${backend}|segments|${flowId}`;
+  }
+
+  private listsFor(backend: string, kind: CachedEntityKind): ListRecord[] {
+    return [...this.lists.entries()]
+      .filter(([key, record]) => key.startsWith(`${backend}|`) && record.kind === kind)
+      .map(([, record]) => record);
+  }
+
+  /**
+   * The entities of a list, or undefined when one of them is no longer cached
+   */
+  private materialise(backend: string, record: ListRecord): unknown[] | undefined {
+    const data: unknown[] = [];
+    for (const id of record.ids) {
+      const entity = this.entities.get(this.entityKey(backend, record.kind, id));
+      if (!entity) return undefined;
+      data.push(clone(entity.value));
+    }
+    return data;
+  }
+
+  /**
+   * Store a fetched entity unless a mutation has written it since `startedAt`
+   * @returns whether the stored value changed
+   */
+  private writeEntity(backend: string, kind: CachedEntityKind, value: unknown, startedAt: number): boolean {
+    const id = entityId(value);
+    if (!id || !isRecord(value)) return false;
+    const key = this.entityKey(backend, kind, id);
+    const previous = this.entities.get(key);
+    if (previous && previous.writtenAt > startedAt) return false;
+    if ((this.evictedAt.get(key) ?? -1) > startedAt) return false;
+
+    const changed = !previous || JSON.stringify(previous.value) !== JSON.stringify(value);
+    this.entities.set(key, { value: clone(value), fetchedAt: Date.now(), writtenAt: startedAt });
+    return changed;
+  }
+
+  private writeList(
+    backend: string,
+    kind: CachedEntityKind,
+    key: string,
+    response: BBCApiResponse<unknown>,
+    startedAt: number
+  ): CacheChange[] {
+    const items = Array.isArray(response?.data) ? response.data : [];
+    const previous = this.lists.get(key);
+    const changed: CacheChange[] = [];
+    const ids: string[] = [];
+
+    for (const item of items) {
+      const id = entityId(item);
+      // Items without an id can't be normalised, so the list isn't cached
+      if (!id) return [];
+      // Skip entities deleted since the request started
+      if ((this.evictedAt.get(this.entityKey(backend, kind, id)) ?? -1) > startedAt) continue;
+      ids.push(id);
+      if (this.writeEntity(backend, kind, item, startedAt)) {
+        changed.push({ backend, kind, id });
+      }
+    }
+
+    this.lists.delete(key);
+    this.lists.set(key, { kind, ids, envelope: clone({ ...response, data: [] }), fetchedAt: Date.now(), invalidated: false });
+    this.trim(this.lists);
+
+    if (!previous || previous.ids.join('\n') !== ids.join('\n')) {
+      changed.push({ backend, kind });
+    }
+    return changed;
+  }
+
+  /**
+   * Drop the least recently written query records beyond the limit
+   */
+  private trim(map: Map<string, unknown>): void {
+    for (const key of map.keys()) {
+      if (map.size <= MAX_QUERY_RECORDS) break;
+      map.delete(key);
+    }
+  }
+
+  /**
+   * Stale-while-revalidate read of `key`
+   */
+  private async read<T>(
+    key: string,
+    cached: () => { value: T; freshness: Freshness } | undefined,
+    fetch: (options: RequestOptions) => Promise<{ value: T; changed: CacheChange[] }>,
+    options: CacheReadOptions
+  ): Promise<T> {
+    const hit = options.fresh ? undefined : cached();
+    const age = hit ? Date.now() - hit.freshness.fetchedAt : Infinity;
+
+    if (hit && age < MAX_AGE_MS) {
+      if (hit.freshness.invalidated || age >= STALE_TIME_MS) {
+        this.share(key, fetch, undefined, true)
+          .then(({ changed }) => this.emit(changed))
+          // The stale record stays served; once it expires the next read fetches in the
+          // foreground and its caller sees the error
+          .catch(() => undefined);
+      }
+      return hit.value;
+    }
+
+    const { value } = await this.share(key, fetch, options.signal, options.background ?? false);
+    return clone(value);
+  }
+
+  /**
+   * Join the in-flight request for `key`, or start one (at low priority when `background`)
+   */
+  private share<T>(
+    key: string,
+    fetch: (options: RequestOptions) => Promise<T>,
+    signal?: AbortSignal,
+    background = false
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    let shared = this.inflight.get(key) as SharedRequest<T> | undefined;
+    if (!shared) {
+      const controller = new AbortController();
+      const request: SharedRequest<T> = {
+        promise: fetch({ signal: controller.signal, background }).finally(() => {
+          if (this.inflight.get(key) === request) this.inflight.delete(key);
+        }),
+        controller,
+        waiters: 0,
+        pinned: false
+      };
+      // Rejections are delivered to the waiters
+      request.promise.catch(() => undefined);
+      this.inflight.set(key, request);
+      shared = request;
+    }
+
+    if (!signal) {
+      shared.pinned = true;
+      return shared.promise;
+    }
+
+    const request = shared;
+    request.waiters++;
+    return new Promise<T>((resolve, reject) => {
+      let waiting = true;
+      const stopWaiting = () => {
+        signal.removeEventListener('abort', onAbort);
+        if (waiting) request.waiters--;
+        waiting = false;
+      };
+      const onAbort = () => {
+        stopWaiting();
+        if (request.waiters === 0 && !request.pinned) {
+          // Nobody is waiting any more: cancel, and let the next read start afresh
+          if (this.inflight.get(key) === request) this.inflight.delete(key);
+          request.controller.abort(abortReason(signal));
+        }
+        reject(abortReason(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise.then(
+        value => {
+          stopWaiting();
+          resolve(value);
+        },
+        error => {
+          stopWaiting();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private emit(changes: CacheChange[]): void {
+    if (changes.length === 0) return;
+    this.listeners.forEach(listener => {
+      try {
+        listener(changes);
+      } catch (error) {
+        // One failing listener must not keep the others (or the caller) from their update;
+        // rethrown outside the loop so it still reaches the global error handlers
+        globalThis.queueMicrotask(() => { throw error; });
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const entityCache = new EntityCache();
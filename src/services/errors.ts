@@ -0,0 +1,307 @@
+/**
+ * API Errors
+ *
+ * Typed errors for failed backend requests, so callers can tell failure kinds apart with
+ * `instanceof` (or `kind`) instead of matching on message text. Every error carries the
+ * context needed to chase it up: the backend, the endpoint, the HTTP status and the
+ * request id shown in the request log (or the backend's own `X-Request-ID`).
+ *
+ * Messages keep the `<prefix>: <status> <statusText>` form the adapters have always thrown,
+ * followed by the backend's summary when its error body has one.
+ */
+
+export type TamsErrorKind =
+  | 'network'
+  | 'auth'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'read-only'
+  | 'rate-limited'
+  | 'degraded'
+  | 'unexpected';
+
+export interface TamsErrorContext {
+  // Backend config id
+  backend?: string;
+  // Path below the backend's base URL
+  endpoint?: string;
+  method?: string;
+  status?: number;
+  requestId?: string;
+}
+
+export interface ValidationIssue {
+  // Dotted path of the offending field, e.g. `essence_parameters.frame_width`; empty for the whole body
+  path: string;
+  message: string;
+}
+
+export class TamsApiError extends Error {
+  readonly kind: TamsErrorKind = 'unexpected';
+  readonly backend: string | undefined;
+  readonly endpoint: string | undefined;
+  readonly method: string | undefined;
+  readonly status: number | undefined;
+  readonly requestId: string | undefined;
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message);
+    this.name = 'TamsApiError';
+    this.backend = context.backend;
+    this.endpoint = context.endpoint;
+    this.method = context.method;
+    this.status = context.status;
+    this.requestId = context.requestId;
+  }
+
+  get context(): TamsErrorContext {
+    return {
+      ...(this.backend !== undefined ? { backend: this.backend } : {}),
+      ...(this.endpoint !== undefined ? { endpoint: this.endpoint } : {}),
+      ...(this.method !== undefined ? { method: this.method } : {}),
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.requestId !== undefined ? { requestId: this.requestId } : {})
+    };
+  }
+
+  /**
+   * The same error with `prefix: ` in front of its message, e.g. the operation that failed
+   */
+  withPrefix(prefix: string): TamsApiError {
+    const copy = Object.assign(Object.create(Object.getPrototypeOf(this) as object) as TamsApiError, this);
+    copy.message = `${prefix}: ${this.message}`;
+    if (this.stack) copy.stack = this.stack;
+    return copy;
+  }
+}
+
+export class NetworkError extends TamsApiError {
+  override readonly kind = 'network';
+  // True when the request was abandoned after the policy's timeout rather than refused
+  readonly timedOut: boolean;
+
+  constructor(message: string, context: TamsErrorContext = {}, timedOut = false) {
+    super(message, context);
+    this.name = 'NetworkError';
+    this.timedOut = timedOut;
+  }
+}
+
+export class AuthError extends TamsApiError {
+  override readonly kind = 'auth';
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message, context);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends TamsApiError {
+  override readonly kind = 'not-found';
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends TamsApiError {
+  override readonly kind = 'conflict';
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message, context);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ValidationError extends TamsApiError {
+  override readonly kind = 'validation';
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, context: TamsErrorContext = {}, issues: ValidationIssue[] = []) {
+    super(message, context);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ReadOnlyViolationError extends TamsApiError {
+  override readonly kind = 'read-only';
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message, context);
+    this.name = 'ReadOnlyViolationError';
+  }
+}
+
+export class RateLimitedError extends TamsApiError {
+  override readonly kind = 'rate-limited';
+  // From the backend's `Retry-After`; null when it did not say
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, context: TamsErrorContext = {}, retryAfterMs: number | null = null) {
+    super(message, context);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class BackendDegradedError extends TamsApiError {
+  override readonly kind = 'degraded';
+
+  constructor(message: string, context: TamsErrorContext = {}) {
+    super(message, context);
+    this.name = 'BackendDegradedError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Classifying responses
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) into milliseconds
+ */
+export function retryAfterDelay(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const READ_ONLY_PATTERN = /read[-_ ]?only/i;
+
+interface ErrorBody {
+  summary?: string;
+  issues: ValidationIssue[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validation issues from a FastAPI `detail` list (`{loc, msg}`) or an `errors` list of
+ * `{path|field, message}`
+ */
+function issuesOf(body: Record<string, unknown>): ValidationIssue[] {
+  const entries = Array.isArray(body.detail) ? body.detail : Array.isArray(body.errors) ? body.errors : [];
+  return entries.filter(isRecord).map(entry => {
+    const location = Array.isArray(entry.loc)
+      ? entry.loc.filter(part => part !== 'body').join('.')
+      : String(entry.path ?? entry.field ?? '');
+    return { path: location, message: String(entry.msg ?? entry.message ?? 'Invalid value') };
+  });
+}
+
+/**
+ * The summary and validation issues of an error body: a TAMS error (`{type, summary}`), an
+ * `{error: {message}}` or `{error, message}` envelope, a FastAPI `detail`, or plain text
+ */
+function parseErrorBody(text: string): ErrorBody {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    const trimmed = text.trim();
+    return { ...(trimmed && trimmed.length <= 200 && !trimmed.startsWith('<') ? { summary: trimmed } : {}), issues: [] };
+  }
+  if (!isRecord(body)) return { issues: [] };
+
+  const issues = issuesOf(body);
+  const error = body.error;
+  const candidates = [
+    body.summary,
+    isRecord(error) ? error.message ?? error.code : undefined,
+    body.message,
+    typeof body.detail === 'string' ? body.detail : undefined,
+    typeof error === 'string' ? error : undefined,
+    issues.length > 0 ? issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ') : undefined
+  ];
+  const summary = candidates.find((candidate): candidate is string => typeof candidate === 'string' && candidate.length > 0);
+  return { ...(summary ? { summary } : {}), issues };
+}
+
+/**
+ * The typed error for a failed response with `status` and a parsed body
+ */
+export function errorForStatus(
+  message: string,
+  context: TamsErrorContext & { status: number },
+  details: { summary?: string; issues?: ValidationIssue[]; retryAfterMs?: number | null } = {}
+): TamsApiError {
+  const { status } = context;
+  if (status === 401) return new AuthError(message, context);
+  if (status === 403) {
+    return READ_ONLY_PATTERN.test(details.summary ?? '')
+      ? new ReadOnlyViolationError(message, context)
+      : new AuthError(message, context);
+  }
+  if (status === 404) return new NotFoundError(message, context);
+  if (status === 409 || status === 412) return new ConflictError(message, context);
+  if (status === 400 || status === 422) return new ValidationError(message, context, details.issues ?? []);
+  if (status === 429) return new RateLimitedError(message, context, details.retryAfterMs ?? null);
+  if (status === 502 || status === 503 || status === 504) return new BackendDegradedError(message, context);
+  return new TamsApiError(message, context);
+}
+
+/**
+ * Read a failed response into its typed error. The body is consumed.
+ * @param prefix Start of the message, e.g. `TAMS API error`
+ */
+export async function errorFromResponse(
+  response: Response,
+  context: Omit<TamsErrorContext, 'status'> = {},
+  prefix = 'TAMS API error'
+): Promise<TamsApiError> {
+  const text = await response.text().catch(() => '');
+  const { summary, issues } = parseErrorBody(text);
+  const statusText = response.statusText || (response.status === 400 ? 'Bad Request' : '');
+  const message = `${prefix}: ${response.status}${statusText ? ` ${statusText}` : ''}${summary ? ` - ${summary}` : ''}`;
+  return errorForStatus(message, { ...context, status: response.status }, {
+    ...(summary ? { summary } : {}),
+    issues,
+    retryAfterMs: retryAfterDelay(response)
+  });
+}
+
+/**
+ * Message of an error-like value, for display
+ */
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return 'Unknown error occurred';
+}
+
+/**
+ * `error` with `context: ` in front of its message, keeping its type when it is a
+ * TamsApiError; anything else becomes a plain Error
+ */
+export function withErrorContext(error: unknown, context?: string): Error {
+  if (error instanceof TamsApiError) {
+    return context ? error.withPrefix(context) : error;
+  }
+  const message = errorMessage(error);
+  return new Error(context ? `${context}: ${message}` : message);
+}
+
+/**
+ * Kind of any error: a TamsApiError's own kind, `network` for errors fetch throws when a
+ * backend cannot be reached, otherwise `unexpected`
+ */
+export function errorKind(error: unknown): TamsErrorKind {
+  if (error instanceof TamsApiError) return error.kind;
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return 'network';
+  return 'unexpected';
+}
@@ -0,0 +1,247 @@
+/**
+ * Federated Browsing
+ *
+ * Lists sources and flows from several backends at once and compares two stores that
+ * should hold the same content. Every backend gets its own UnifiedApiClient, so requests
+ * go through the request pipeline and entity cache exactly as they do for the current
+ * backend, and a backend that fails does not hide the others' results.
+ *
+ * A comparison matches sources and flows by ID and reports those missing from one store,
+ * those whose metadata differs (audit fields such as `updated` are ignored), and flows
+ * whose segments cover different time in the two stores.
+ */
+
+import type { BackendApiConfig } from '../config/apiConfig';
+import type { Flow, Source } from '../types/tams';
+import type {
+  FederatedItem,
+  FederatedListResult,
+  StoreComparison,
+  StoreDifference
+} from '../types/backend';
+import { apiClient, UnifiedApiClient, type BBCApiOptions } from './api';
+import { changedFields, type FieldValues } from './concurrency';
+import { collectAll } from './pagination';
+import { isAbortError } from './http';
+import {
+  formatTimerange,
+  mergeTimeranges,
+  subtractTimerange,
+  tryParseTimerange,
+  type Timerange
+} from '../utils/timerange';
+
+export interface FederatedListOptions extends BBCApiOptions {
+  // Per backend
+  maxItems?: number;
+}
+
+export interface StoreComparisonOptions {
+  // Also compare segment coverage of flows in both stores (one listing per flow and store)
+  coverage?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
+type Entity = Source | Flow;
+
+// Fields expected to differ between stores holding the same content
+const AUDIT_FIELDS = new Set([
+  'created',
+  'created_by',
+  'updated',
+  'updated_by',
+  'metadata_updated',
+  'segments_updated',
+  'metadata_version',
+  'backendId',
+  '_id'
+]);
+
+// Flows whose segments are listed at the same time during a coverage comparison
+const COVERAGE_CONCURRENCY = 4;
+
+const clients = new Map<string, UnifiedApiClient>();
+
+/**
+ * API client for a backend; the app-wide client when it is the current backend
+ */
+export function clientFor(backend: BackendApiConfig): UnifiedApiClient {
+  if (apiClient.getBackend().id === backend.id) {
+    return apiClient;
+  }
+  let client = clients.get(backend.id);
+  if (!client || client.getBackend() !== backend) {
+    client = new UnifiedApiClient(backend);
+    clients.set(backend.id, client);
+  }
+  return client;
+}
+
+async function listFederated<T>(
+  backends: BackendApiConfig[],
+  list: (client: UnifiedApiClient) => Promise<T[]>
+): Promise<FederatedListResult<T>> {
+  const results = await Promise.allSettled(backends.map(backend => list(clientFor(backend))));
+  const federated: FederatedListResult<T> = { items: [], counts: {}, errors: {} };
+
+  results.forEach((result, index) => {
+    const backendId = backends[index]!.id;
+    if (result.status === 'fulfilled') {
+      federated.items.push(...result.value.map(item => ({ ...item, backendId }) as FederatedItem<T>));
+      federated.counts[backendId] = result.value.length;
+    } else {
+      if (isAbortError(result.reason)) throw result.reason;
+      federated.errors[backendId] = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    }
+  });
+
+  if (results.length > 0 && results.every(result => result.status === 'rejected')) {
+    throw new Error(`No backend answered: ${Object.entries(federated.errors).map(([id, message]) => `${id}: ${message}`).join('; ')}`);
+  }
+  return federated;
+}
+
+/**
+ * List sources from every backend, following cursors on each
+ */
+export function listFederatedSources(backends: BackendApiConfig[], options: FederatedListOptions = {}) {
+  return listFederated(backends, client => collectAll(client.iterateSources(options)));
+}
+
+/**
+ * List flows from every backend, following cursors on each
+ */
+export function listFederatedFlows(backends: BackendApiConfig[], options: FederatedListOptions = {}) {
+  return listFederated(backends, client => collectAll(client.iterateFlows(options)));
+}
+
+function byId(items: Entity[]): Map<string, Entity> {
+  return new Map(items.map(item => [item.id, item]));
+}
+
+function metadataFields(entity: Entity): FieldValues {
+  return Object.fromEntries(Object.entries(entity).filter(([field]) => !AUDIT_FIELDS.has(field)));
+}
+
+function compareEntities(
+  entity: StoreDifference['entity'],
+  a: Map<string, Entity>,
+  b: Map<string, Entity>,
+  backendA: string,
+  backendB: string
+): StoreDifference[] {
+  const differences: StoreDifference[] = [];
+  for (const id of new Set([...a.keys(), ...b.keys()])) {
+    const inA = a.get(id);
+    const inB = b.get(id);
+    const label = inA?.label ?? inB?.label;
+    const base = { entity, id, ...(label ? { label } : {}) };
+
+    if (!inA || !inB) {
+      differences.push({ ...base, kind: 'missing', missingFrom: inA ? backendB : backendA });
+      continue;
+    }
+    const fieldsA = metadataFields(inA);
+    const fieldsB = metadataFields(inB);
+    const changed = Object.keys(changedFields(fieldsA, fieldsB));
+    if (changed.length > 0) {
+      differences.push({
+        ...base,
+        kind: 'metadata',
+        fields: changed.sort().map(field => ({ field, a: fieldsA[field], b: fieldsB[field] }))
+      });
+    }
+  }
+  return differences;
+}
+
+async function segmentCoverage(client: UnifiedApiClient, flowId: string, signal?: AbortSignal): Promise<Timerange[]> {
+  const segments = await collectAll(client.iterateFlowSegments(flowId, signal ? { signal } : {}));
+  return mergeTimeranges(
+    segments
+      .map(segment => tryParseTimerange(segment?.timerange))
+      .filter((range): range is Timerange => range !== null)
+  );
+}
+
+/**
+ * Parts of `ranges` not covered by `covered`
+ */
+function uncovered(ranges: Timerange[], covered: Timerange[]): Timerange[] {
+  return covered.reduce<Timerange[]>(
+    (remaining, range) => remaining.flatMap(piece => subtractTimerange(piece, range)),
+    ranges
+  );
+}
+
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Compare the sources and flows of two stores
+ */
+export async function compareStores(
+  backendA: BackendApiConfig,
+  backendB: BackendApiConfig,
+  { coverage = true, signal, onProgress }: StoreComparisonOptions = {}
+): Promise<StoreComparison> {
+  const clientA = clientFor(backendA);
+  const clientB = clientFor(backendB);
+  const listOptions = signal ? { signal } : {};
+
+  onProgress?.('Listing sources');
+  const [sourcesA, sourcesB] = await Promise.all([
+    collectAll(clientA.iterateSources(listOptions)),
+    collectAll(clientB.iterateSources(listOptions))
+  ]);
+  onProgress?.('Listing flows');
+  const [flowsA, flowsB] = await Promise.all([
+    collectAll(clientA.iterateFlows(listOptions)),
+    collectAll(clientB.iterateFlows(listOptions))
+  ]);
+
+  const flowMapA = byId(flowsA);
+  const flowMapB = byId(flowsB);
+  const differences = [
+    ...compareEntities('source', byId(sourcesA), byId(sourcesB), backendA.id, backendB.id),
+    ...compareEntities('flow', flowMapA, flowMapB, backendA.id, backendB.id)
+  ];
+
+  const sharedFlows = [...flowMapA.keys()].filter(id => flowMapB.has(id));
+  if (coverage) {
+    let done = 0;
+    await forEachLimited(sharedFlows, COVERAGE_CONCURRENCY, async id => {
+      const [coverageA, coverageB] = await Promise.all([
+        segmentCoverage(clientA, id, signal),
+        segmentCoverage(clientB, id, signal)
+      ]);
+      const onlyInA = uncovered(coverageA, coverageB).map(formatTimerange);
+      const onlyInB = uncovered(coverageB, coverageA).map(formatTimerange);
+      if (onlyInA.length > 0 || onlyInB.length > 0) {
+        const label = flowMapA.get(id)?.label;
+        differences.push({ entity: 'flow', id, ...(label ? { label } : {}), kind: 'coverage', onlyInA, onlyInB });
+      }
+      onProgress?.(`Compared segment coverage of ${++done} of ${sharedFlows.length} flows`);
+    });
+  }
+
+  return {
+    backendA: backendA.id,
+    backendB: backendB.id,
+    differences,
+    compared: {
+      sources: new Set([...sourcesA, ...sourcesB].map(source => source.id)).size,
+      flows: new Set([...flowMapA.keys(), ...flowMapB.keys()]).size,
+      coverage: coverage ? sharedFlows.length : 0
+    },
+    comparedAt: new Date()
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * HTTP Transport
+ *
+ * `fetch` wrapper shared by the API clients. Every request gets a timeout and can be
+ * cancelled through an AbortSignal; idempotent methods are retried on network errors,
+ * timeouts and transient statuses (408, 429, 502-504) with exponential backoff and full
+ * jitter, honouring `Retry-After` when the backend sends it.
+ *
+ * Backend API traffic goes through the request pipeline (see pipeline), which composes
+ * `fetchAttempt` and `withRetries` with its other middleware; `fetchWithPolicy` is the same
+ * behaviour for requests outside it, such as OAuth2 token requests.
+ */
+
+import { NetworkError, retryAfterDelay, TamsApiError } from './errors';
+
+export interface RequestOptions {
+  // Cancels the request (and any pending retry); the returned promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Work nobody is waiting on, such as polling; sent with fetch priority `low`, and queued
+  // behind interactive requests while the backend is rate limited (see rateLimiter)
+  background?: boolean;
+}
+
+export interface ConditionalRequestOptions extends RequestOptions {
+  // ETag from the last read of the target resource; the write fails with 412 if it has changed
+  ifMatch?: string;
+}
+
+export interface RequestPolicy {
+  // Per-attempt timeout in milliseconds (0 disables it)
+  timeout?: number;
+  // Additional attempts for idempotent methods
+  retries?: number;
+  // Base delay for exponential backoff in milliseconds
+  retryDelay?: number;
+  // Upper bound for a single backoff delay in milliseconds
+  maxRetryDelay?: number;
+  // Statuses that are retried; e.g. health checks pass [] because 503 means "degraded"
+  retryableStatuses?: readonly number[];
+}
+
+export const DEFAULT_REQUEST_POLICY: Required<RequestPolicy> = {
+  timeout: 10000,
+  retries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 10000,
+  retryableStatuses: [408, 429, 502, 503, 504]
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * True when `error` is the result of the caller aborting a request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * `RequestInit` fields for `options`, for spreading into a fetch init
+ */
+export function signalInit(options: RequestOptions = {}): RequestInit {
+  return {
+    ...(options.signal ? { signal: options.signal } : {}),
+    ...(options.background ? { priority: 'low' as const } : {})
+  };
+}
+
+/**
+ * Precondition headers for a conditional write, for spreading into request headers
+ */
+export function preconditionHeaders(options: ConditionalRequestOptions = {}): Record<string, string> {
+  return options.ifMatch ? { 'If-Match': options.ifMatch } : {};
+}
+
+/**
+ * True when `error` reports a failed precondition (HTTP 412), i.e. the resource changed
+ * since the ETag sent with a conditional write was read
+ */
+export function isPreconditionFailed(error: unknown): boolean {
+  if (error instanceof TamsApiError) return error.status === 412;
+  return error instanceof Error && /\b412\b/.test(error.message);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Request aborted', 'AbortError');
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): a random value up to
+ * `retryDelay * 2^attempt`, capped at `maxRetryDelay`
+ */
+export function backoffDelay(attempt: number, policy: RequestPolicy = {}): number {
+  const { retryDelay, maxRetryDelay } = { ...DEFAULT_REQUEST_POLICY, ...policy };
+  return Math.round(Math.random() * Math.min(maxRetryDelay, retryDelay * 2 ** attempt));
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Single attempt: `fetch` bounded by `timeout` (0 disables it) and `init.signal`
+ */
+export async function fetchAttempt(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const signal = init.signal ?? undefined;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeout > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+  const onAbort = () => controller.abort(abortReason(signal as AbortSignal));
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new NetworkError(`Request timed out after ${timeout}ms: ${url}`, {}, true);
+    }
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+    if (error instanceof TypeError) {
+      throw new NetworkError(`Network error: Could not connect to ${url} (${error.message})`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * True when a failed attempt is worth repeating: transport failures (refused connections,
+ * timeouts) and HTTP errors with one of `retryableStatuses`. Anything else, such as a
+ * failed OAuth2 token request inside the attempt, would fail the same way again.
+ */
+function isRetryableError(error: unknown, retryableStatuses: readonly number[]): boolean {
+  if (error instanceof NetworkError || error instanceof TypeError) return true;
+  return error instanceof TamsApiError && error.status !== undefined && retryableStatuses.includes(error.status);
+}
+
+/**
+ * Run `send` until it succeeds or the policy's attempts are used up. Idempotent methods are
+ * retried on transport errors and on retryable statuses; the final response (including
+ * non-2xx ones) is returned as is.
+ */
+export async function withRetries(
+  send: () => Promise<Response>,
+  method: string,
+  signal: AbortSignal | undefined,
+  policy: RequestPolicy = {}
+): Promise<Response> {
+  const { retries, retryableStatuses, maxRetryDelay } = { ...DEFAULT_REQUEST_POLICY, ...policy };
+  const maxAttempts = IDEMPOTENT_METHODS.has(method.toUpperCase()) ? retries + 1 : 1;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    const isLastAttempt = attemptNumber + 1 >= maxAttempts;
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      if (isLastAttempt || !isRetryableError(error, retryableStatuses)) throw error;
+      await sleep(backoffDelay(attemptNumber, policy), signal);
+      continue;
+    }
+
+    if (isLastAttempt || !retryableStatuses.includes(response.status)) {
+      return response;
+    }
+    const delay = retryAfterDelay(response) ?? backoffDelay(attemptNumber, policy);
+    // Release the connection before waiting
+    response.body?.cancel().catch(() => undefined);
+    await sleep(Math.min(delay, maxRetryDelay), signal);
+  }
+}
+
+/**
+ * `fetch` with timeout, cancellation and retries. Resolves with the final response
+ * (including non-2xx ones, which callers handle as before) and rejects on network
+ * errors, timeouts or when `init.signal` aborts.
+ */
+export async function fetchWithPolicy(url: string, init: RequestInit = {}, policy: RequestPolicy = {}): Promise<Response> {
+  const timeout = policy.timeout ?? DEFAULT_REQUEST_POLICY.timeout;
+  return withRetries(() => fetchAttempt(url, init, timeout), init.method ?? 'GET', init.signal ?? undefined, policy);
+}
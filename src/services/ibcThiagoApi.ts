@@ -5,7 +5,10 @@
  * Handles HLS streaming, real-time markers, and WebSocket connections
  */
 
-import { BBCApiResponse, BBCApiOptions } from './api';
+import { BBCApiResponse, BBCApiOptions } from './tamsProtocol';
+import { signalInit, type RequestOptions } from './http';
+import { BackendHttpClient } from './pipeline';
+import { getBackendConfig, type BackendApiConfig } from '../config/apiConfig';
 
 // IBC Thiago specific configuration
 export const IBC_THIAGO_BASE_URL = import.meta.env.VITE_BACKEND_IBC_THIAGO_URL || 'http://localhost:3000';
@@ -24,6 +27,20 @@ export function getIBCThiagoBaseUrl(): string {
   return IBC_THIAGO_BASE_URL;
 }
 
+// Requests go through the shared request pipeline with the calling adapter's backend settings,
+// or the IBC Thiago backend's when called directly
+function ibcThiagoHttp(backend?: BackendApiConfig): BackendHttpClient {
+  if (backend) {
+    return new BackendHttpClient(backend);
+  }
+  const backendId = import.meta.env.VITE_DEFAULT_BACKEND === 'ibc-thiago-imported' ? 'ibc-thiago-imported' : 'ibc-thiago';
+  const config = getBackendConfig(backendId);
+  if (!config) {
+    throw new Error(`Backend configuration not found: ${backendId}`);
+  }
+  return new BackendHttpClient({ ...config, baseUrl: getIBCThiagoBaseUrl() });
+}
+
 // IBC Thiago specific types
 export interface IBCThiagoSource {
   id: string;
@@ -198,7 +215,7 @@ class IBCThiagoWebSocketManager {
 export const ibcThiagoWebSocket = new IBCThiagoWebSocketManager();
 
 // IBC Thiago API functions
-export async function getIBCThiagoSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<IBCThiagoSource>> {
+export async function getIBCThiagoSources(options: BBCApiOptions = {}, backend?: BackendApiConfig): Promise<BBCApiResponse<IBCThiagoSource>> {
   const queryParams = new URLSearchParams();
   
   // IBC Thiago API has validation issues with limit parameter, so we'll skip it for now
@@ -214,18 +231,19 @@ export async function getIBCThiagoSources(options: BBCApiOptions = {}): Promise<
     });
   }
   
-  const url = `${getIBCThiagoBaseUrl()}/sources${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-  
-  const response = await fetch(url, {
+  const query = queryParams.toString();
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/sources${query ? `?${query}` : ''}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   const data = await response.json();
@@ -237,23 +255,25 @@ export async function getIBCThiagoSources(options: BBCApiOptions = {}): Promise<
   };
 }
 
-export async function getIBCThiagoSource(sourceId: string): Promise<IBCThiagoSource> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/sources/${sourceId}`, {
+export async function getIBCThiagoSource(sourceId: string, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<IBCThiagoSource> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/sources/${sourceId}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   return response.json();
 }
 
-export async function getIBCThiagoFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<IBCThiagoFlow>> {
+export async function getIBCThiagoFlows(options: BBCApiOptions = {}, backend?: BackendApiConfig): Promise<BBCApiResponse<IBCThiagoFlow>> {
   const queryParams = new URLSearchParams();
   if (options.limit) queryParams.append('limit', options.limit.toString());
   if (options.page) queryParams.append('page', options.page);
@@ -263,18 +283,19 @@ export async function getIBCThiagoFlows(options: BBCApiOptions = {}): Promise<BB
     });
   }
   
-  const url = `${getIBCThiagoBaseUrl()}/flows${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-  
-  const response = await fetch(url, {
+  const query = queryParams.toString();
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows${query ? `?${query}` : ''}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   const data = await response.json();
@@ -286,40 +307,43 @@ export async function getIBCThiagoFlows(options: BBCApiOptions = {}): Promise<BB
   };
 }
 
-export async function getIBCThiagoFlow(flowId: string): Promise<IBCThiagoFlow> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${flowId}`, {
+export async function getIBCThiagoFlow(flowId: string, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<IBCThiagoFlow> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${flowId}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   return response.json();
 }
 
-export async function getIBCThiagoFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<IBCThiagoSegment>> {
+export async function getIBCThiagoFlowSegments(flowId: string, options: BBCApiOptions = {}, backend?: BackendApiConfig): Promise<BBCApiResponse<IBCThiagoSegment>> {
   const queryParams = new URLSearchParams();
   if (options.limit) queryParams.append('limit', options.limit.toString());
   if (options.timerange) queryParams.append('timerange', options.timerange);
   if (options.custom?.duration) queryParams.append('duration', options.custom.duration.toString());
   
-  const url = `${getIBCThiagoBaseUrl()}/flows/${flowId}/segments${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-  
-  const response = await fetch(url, {
+  const query = queryParams.toString();
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${flowId}/segments${query ? `?${query}` : ''}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   const data = await response.json();
@@ -331,16 +355,18 @@ export async function getIBCThiagoFlowSegments(flowId: string, options: BBCApiOp
   };
 }
 
-export async function getIBCThiagoHLSManifest(flowId: string): Promise<IBCThiagoHLSManifest> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${flowId}/stream.m3u8`, {
+export async function getIBCThiagoHLSManifest(flowId: string, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<IBCThiagoHLSManifest> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${flowId}/stream.m3u8`, {
     method: 'GET',
     headers: {
       'Accept': 'application/vnd.apple.mpegurl, application/x-mpegURL, application/octet-stream'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago HLS error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago HLS error');
   }
 
   const manifest = await response.text();
@@ -378,8 +404,9 @@ export async function getIBCThiagoHLSManifest(flowId: string): Promise<IBCThiago
   };
 }
 
-export async function createIBCThiagoMarker(markerData: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${markerData.id}`, {
+export async function createIBCThiagoMarker(markerData: Partial<IBCThiagoMarker>, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<IBCThiagoMarker> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${markerData.id}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -398,73 +425,82 @@ export async function createIBCThiagoMarker(markerData: Partial<IBCThiagoMarker>
         editable: markerData.tags?.editable || ['true']
       },
       metadata: markerData.metadata
-    })
+    }),
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   return response.json();
 }
 
-export async function updateIBCThiagoMarker(markerId: string, updates: Partial<IBCThiagoMarker>): Promise<IBCThiagoMarker> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${markerId}`, {
+export async function updateIBCThiagoMarker(markerId: string, updates: Partial<IBCThiagoMarker>, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<IBCThiagoMarker> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${markerId}`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
     },
-    body: JSON.stringify(updates)
+    body: JSON.stringify(updates),
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 
   return response.json();
 }
 
-export async function deleteIBCThiagoMarker(markerId: string): Promise<void> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${markerId}`, {
+export async function deleteIBCThiagoMarker(markerId: string, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<void> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${markerId}`, {
     method: 'DELETE',
     headers: {
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago API error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago API error');
   }
 }
 
-export async function getIBCThiagoHealth(): Promise<any> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/health`, {
+export async function getIBCThiagoHealth(options: RequestOptions = {}, backend?: BackendApiConfig): Promise<any> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch('/health', {
     method: 'GET',
     headers: {
       'Accept': 'application/json'
-    }
+    },
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago health check failed: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago health check failed');
   }
 
   return response.json();
 }
 
-export async function getIBCThiagoStorage(flowId: string): Promise<any> {
-  const response = await fetch(`${getIBCThiagoBaseUrl()}/flows/${flowId}/storage`, {
+export async function getIBCThiagoStorage(flowId: string, options: RequestOptions = {}, backend?: BackendApiConfig): Promise<any> {
+  const http = ibcThiagoHttp(backend);
+  const response = await http.fetch(`/flows/${flowId}/storage`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json'
     },
-    body: JSON.stringify({})
+    body: JSON.stringify({}),
+    ...signalInit(options)
   });
 
   if (!response.ok) {
-    throw new Error(`IBC Thiago storage error: ${response.status} ${response.statusText}`);
+    throw await http.error(response, 'IBC Thiago storage error');
   }
 
   return response.json();
@@ -0,0 +1,429 @@
+/**
+ * Media Ingest
+ *
+ * Uploads a media file into a flow. MPEG-TS files are cut into segments of about the chosen
+ * duration at the keyframes the probe found (see mediaProbe), so each segment decodes on its
+ * own, and each segment's timerange runs from its first keyframe's PTS to the next segment's.
+ * Other containers cannot be cut without remuxing and are uploaded as one segment. For each
+ * segment, storage is allocated through the flow's storage endpoint, the segment's bytes are
+ * PUT to the presigned URL, and the segment is registered with its timerange.
+ *
+ * Segments of MULTIPART_THRESHOLD or more are uploaded in parts where the backend supports
+ * it (see multipartUpload), and with a single PUT otherwise.
+ *
+ * Jobs and their files are persisted in IndexedDB (see ingestStore) after every step, so a
+ * failed, cancelled or interrupted ingest resumes with the first segment not yet registered.
+ * A segment that was uploaded but not registered keeps its object and is only registered;
+ * one interrupted during a multipart upload carries on with the parts not yet uploaded.
+ */
+
+import { getBackendConfig, type BackendApiConfig } from '../config/apiConfig';
+import type { IngestJob, IngestRequest, IngestSegment } from '../types/backend';
+import type { FlowStorage } from '../types/tams';
+import { PTS_CLOCK, type TsCuts } from '../utils/mediaProbe';
+import { errorFromResponse, errorMessage } from './errors';
+import type { UnifiedApiClient } from './api';
+import { clientFor } from './federation';
+import { isAbortError } from './http';
+import { ingestStore } from './ingestStore';
+import {
+  MULTIPART_THRESHOLD,
+  MultipartUnsupportedError,
+  multipartUploads,
+  type MultipartUploadOptions
+} from './multipartUpload';
+import {
+  createTimerange,
+  formatTimerange,
+  parseTaiTimestamp,
+  secondsToTimestamp,
+  NANOS_PER_SECOND,
+  type TaiTimestamp
+} from '../utils/timerange';
+
+type JobListener = (jobs: IngestJob[]) => void;
+
+function resolveBackend(id: string): BackendApiConfig {
+  const backend = getBackendConfig(id);
+  if (!backend) {
+    throw new Error(`Backend "${id}" is no longer configured`);
+  }
+  return backend;
+}
+
+/**
+ * How to cut an MPEG-TS file: its cut points and the shortest segment wanted
+ */
+export interface TsSegmentation {
+  cuts: TsCuts;
+  segmentSeconds: number;
+}
+
+/**
+ * The segments to ingest a file of `fileSize` bytes as, from `start`. An MPEG-TS file with
+ * `segmentation` is cut at the first cut point at least `segmentSeconds` after the previous
+ * cut, with timeranges from the cut points' PTS; anything else is one segment of
+ * `durationSeconds`.
+ */
+export function planIngestSegments(
+  fileSize: number,
+  durationSeconds: number,
+  start: TaiTimestamp,
+  segmentation?: TsSegmentation
+): IngestSegment[] {
+  if (!segmentation) {
+    if (!(durationSeconds > 0)) {
+      throw new Error('The media duration must be positive');
+    }
+    const end = start + secondsToTimestamp(durationSeconds);
+    return [{ index: 0, byteStart: 0, byteEnd: fileSize, timerange: formatTimerange(createTimerange(start, end)), status: 'pending' }];
+  }
+
+  const { cuts, segmentSeconds } = segmentation;
+  if (!(segmentSeconds > 0)) {
+    throw new Error('The segment duration must be positive');
+  }
+  if (!(cuts.endPts > cuts.startPts)) {
+    throw new Error('The file\'s timestamps do not give it a duration');
+  }
+  const step = segmentSeconds * PTS_CLOCK;
+  const timeAt = (pts: number): TaiTimestamp =>
+    start + (BigInt(Math.round(pts - cuts.startPts)) * NANOS_PER_SECOND) / BigInt(PTS_CLOCK);
+
+  // The first segment starts with the file, whether or not it opens with a keyframe
+  const boundaries = [{ byteOffset: 0, pts: cuts.startPts }];
+  for (const point of cuts.points) {
+    const previous = boundaries[boundaries.length - 1]!;
+    if (point.byteOffset > previous.byteOffset && point.pts - previous.pts >= step && point.pts < cuts.endPts) {
+      boundaries.push(point);
+    }
+  }
+
+  return boundaries.map((boundary, index) => {
+    const next = boundaries[index + 1];
+    return {
+      index,
+      byteStart: boundary.byteOffset,
+      byteEnd: next ? next.byteOffset : fileSize,
+      timerange: formatTimerange(createTimerange(timeAt(boundary.pts), timeAt(next ? next.pts : cuts.endPts))),
+      status: 'pending'
+    };
+  });
+}
+
+export interface MediaObjectUploadOptions extends MultipartUploadOptions {
+  // Called with the allocated object ID before a multipart upload of it starts
+  onMultipartStart?: (objectId: string) => Promise<void>;
+  // Called when an object large enough for parts goes up with a single PUT instead
+  onSinglePut?: () => void;
+}
+
+/**
+ * Allocate an object in the flow's storage and upload `body` to it, in parts when it is
+ * MULTIPART_THRESHOLD or more and the backend supports that; resolves with the object ID
+ */
+export async function uploadMediaObject(
+  client: UnifiedApiClient,
+  flowId: string,
+  body: Blob,
+  options: MediaObjectUploadOptions = {}
+): Promise<string> {
+  const { signal } = options;
+  const allocation = await client.getStorage(flowId, signal ? { signal } : {}) as FlowStorage | null;
+  const object = allocation?.media_objects?.[0];
+  if (!object?.object_id || !object.put_url?.url) {
+    throw new Error('The backend did not allocate storage for the segment');
+  }
+  if (body.size >= MULTIPART_THRESHOLD) {
+    try {
+      await options.onMultipartStart?.(object.object_id);
+      await multipartUploads.upload(client, flowId, object.object_id, body, options);
+      return object.object_id;
+    } catch (error) {
+      if (!(error instanceof MultipartUnsupportedError)) throw error;
+      options.onSinglePut?.();
+    }
+  }
+
+  const url = object.put_url.url;
+  const response = await fetch(url, {
+    method: 'PUT',
+    body,
+    headers: { 'Content-Type': object.put_url['content-type'] || options.contentType || body.type || 'application/octet-stream' },
+    ...(signal ? { signal } : {})
+  });
+  if (!response.ok) {
+    throw await errorFromResponse(response, { method: 'PUT', endpoint: url.split('?')[0] ?? url }, 'Upload failed');
+  }
+  return object.object_id;
+}
+
+class IngestManager {
+  private jobs: IngestJob[] = [];
+  private controllers = new Map<string, AbortController>();
+  // Files of this visit's jobs; jobs from earlier visits read theirs from the store
+  private files = new Map<string, Blob>();
+  private listeners = new Set<JobListener>();
+  // Resolves once jobs from an earlier visit are loaded
+  readonly ready: Promise<void>;
+  // False once the store turned out unavailable or refused a job: jobs then only last for this visit
+  persisted = true;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  /**
+   * Queued, running and past jobs, newest first
+   */
+  list(): IngestJob[] {
+    return this.sorted().map(job => structuredClone(job));
+  }
+
+  get(id: string): IngestJob | null {
+    const job = this.find(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  isRunning(id: string): boolean {
+    return this.controllers.has(id);
+  }
+
+  /**
+   * Record an ingest of `file` and run it; an MPEG-TS file is cut at `cuts`, anything else
+   * is uploaded as one segment
+   */
+  async start(request: IngestRequest, file: File, cuts?: TsCuts): Promise<IngestJob> {
+    await this.ready;
+    const now = new Date().toISOString();
+    const flowLabel = typeof request.flow?.label === 'string' ? request.flow.label : undefined;
+    const job: IngestJob = {
+      ...request,
+      id: crypto.randomUUID(),
+      ...(flowLabel ? { flowLabel } : {}),
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      flowCreated: !request.flow,
+      status: 'queued',
+      segments: planIngestSegments(
+        file.size,
+        request.durationSeconds,
+        parseTaiTimestamp(request.start),
+        cuts && request.segmentSeconds ? { cuts, segmentSeconds: request.segmentSeconds } : undefined
+      ),
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.push(job);
+    this.files.set(job.id, file);
+    await ingestStore.putFile(job.id, file);
+    await this.save(job);
+    return this.run(job.id);
+  }
+
+  /**
+   * Upload and register the segments not yet registered; running a failed or cancelled
+   * job resumes it
+   */
+  async run(id: string): Promise<IngestJob> {
+    await this.ready;
+    const job = this.find(id);
+    if (!job) {
+      throw new Error(`Ingest job ${id} not found`);
+    }
+    if (this.isRunning(id)) {
+      throw new Error('The ingest is already running');
+    }
+    const file = this.files.get(id) ?? await ingestStore.getFile(id);
+    if (!file) {
+      throw new Error('The file for this ingest is no longer stored; start a new ingest');
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.controllers.set(id, controller);
+    job.status = 'running';
+    job.attempts += 1;
+    delete job.error;
+    await this.save(job);
+
+    let current: IngestSegment | undefined;
+    try {
+      const client = clientFor(resolveBackend(job.backendId));
+      if (job.flow && !job.flowCreated) {
+        await client.createFlow(job.flowId, job.flow, { signal });
+        job.flowCreated = true;
+        await this.save(job);
+      }
+
+      for (const segment of job.segments) {
+        if (segment.status === 'registered') continue;
+        current = segment;
+        signal.throwIfAborted();
+
+        if (segment.status !== 'uploaded' || !segment.objectId) {
+          segment.objectId = await this.upload(job, segment, file, client, signal);
+          segment.status = 'uploaded';
+          await this.save(job);
+        }
+        await client.createFlowSegment(job.flowId, { object_id: segment.objectId, timerange: segment.timerange }, undefined, { signal });
+        segment.status = 'registered';
+        delete segment.error;
+        await this.save(job);
+      }
+      job.status = 'completed';
+      this.files.delete(id);
+      await ingestStore.deleteFile(id);
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = current ? `Segment ${current.index + 1}: ${errorMessage(error)}` : errorMessage(error);
+        if (current) {
+          // An uploaded segment stays uploaded; only its registration failed
+          if (current.status !== 'uploaded') current.status = 'failed';
+          current.error = errorMessage(error);
+        }
+      }
+    } finally {
+      this.controllers.delete(id);
+      await this.save(job);
+    }
+    return structuredClone(job);
+  }
+
+  /**
+   * Stop a running job after its current request; it can be resumed with `run`
+   */
+  cancel(id: string): void {
+    this.controllers.get(id)?.abort();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.cancel(id);
+    const job = this.find(id);
+    const backend = job ? getBackendConfig(job.backendId) : undefined;
+    if (job && backend) {
+      // Unfinished multipart uploads would otherwise keep their parts in storage
+      for (const segment of job.segments) {
+        const upload = segment.objectId ? multipartUploads.get(backend.id, job.flowId, segment.objectId) : null;
+        if (upload) await multipartUploads.discard(clientFor(backend), upload);
+      }
+    }
+    this.jobs = this.jobs.filter(candidate => candidate.id !== id);
+    this.files.delete(id);
+    await ingestStore.deleteJob(id);
+    this.notify();
+  }
+
+  /**
+   * Subscribe to job changes, including progress
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async load(): Promise<void> {
+    try {
+      this.persisted = await ingestStore.isPersistent();
+      const stored = await ingestStore.listJobs();
+      // A job still marked as running was interrupted by a reload; it can be resumed
+      for (const job of stored) {
+        if (job.status === 'running' || job.status === 'queued') {
+          job.status = 'failed';
+          job.error = 'Interrupted';
+        }
+      }
+      this.jobs = [...stored, ...this.jobs.filter(job => !stored.some(loaded => loaded.id === job.id))];
+      this.notify();
+    } catch {
+      // Unreadable jobs are dropped; the files can be ingested again
+      this.persisted = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Allocate an object for `segment`, upload its bytes and return the object ID
+   */
+  private async upload(
+    job: IngestJob,
+    segment: IngestSegment,
+    file: Blob,
+    client: UnifiedApiClient,
+    signal: AbortSignal
+  ): Promise<string> {
+    const body = file.slice(segment.byteStart, segment.byteEnd, job.fileType);
+    const options: MediaObjectUploadOptions = {
+      signal,
+      contentType: job.fileType,
+      // Keep the object ID so a resumed job finds the multipart upload's checkpoint
+      onMultipartStart: async objectId => {
+        segment.objectId = objectId;
+        await this.save(job);
+      },
+      onSinglePut: () => {
+        job.singlePut = true;
+        this.notify();
+      },
+      onProgress: progress => {
+        segment.uploadedBytes = progress.uploadedBytes;
+        this.notify();
+      }
+    };
+
+    let objectId: string;
+    if (segment.objectId && multipartUploads.get(client.getBackend().id, job.flowId, segment.objectId)) {
+      // A multipart upload interrupted earlier carries on with the object it was allocated
+      objectId = segment.objectId;
+      await multipartUploads.upload(client, job.flowId, objectId, body, options);
+    } else {
+      delete segment.objectId;
+      objectId = await uploadMediaObject(client, job.flowId, body, options);
+    }
+    delete segment.uploadedBytes;
+    return objectId;
+  }
+
+  private find(id: string): IngestJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  private sorted(): IngestJob[] {
+    return [...this.jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async save(job: IngestJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    try {
+      await ingestStore.putJob(job);
+    } catch {
+      this.persisted = false;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const jobs = this.list();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const ingestManager = new IngestManager();
+
+/**
+ * Share of a job's bytes registered, or in storage for segments uploading in parts, 0-100
+ */
+export function ingestProgress(job: IngestJob): number {
+  if (job.fileSize === 0) return job.status === 'completed' ? 100 : 0;
+  const done = job.segments.reduce((bytes, segment) =>
+    bytes + (segment.status === 'registered' ? segment.byteEnd - segment.byteStart : segment.uploadedBytes ?? 0), 0);
+  return Math.round((done / job.fileSize) * 100);
+}
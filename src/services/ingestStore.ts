@@ -0,0 +1,104 @@
+/**
+ * Ingest Store
+ *
+ * IndexedDB persistence for ingest jobs and the files they upload. Jobs live in the `jobs`
+ * store and each unfinished job's file in `files` under the job id, so an ingest interrupted
+ * by a reload can resume without the user choosing the file again. Checkpoints of multipart
+ * uploads live in `uploads`, keyed by backend, flow and object. Where IndexedDB is
+ * unavailable (some private browsing modes) nothing is persisted and every call is a no-op.
+ */
+
+import type { IngestJob, MultipartUpload } from '../types/backend';
+
+const DB_NAME = 'tams-ingest';
+const DB_VERSION = 2;
+const JOBS = 'jobs';
+const FILES = 'files';
+const UPLOADS = 'uploads';
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(JOBS)) db.createObjectStore(JOBS, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+    if (!db.objectStoreNames.contains(UPLOADS)) db.createObjectStore(UPLOADS, { keyPath: 'id' });
+  };
+  // Like a missing IndexedDB; see IngestStore.isPersistent
+  return settle(request).catch(() => null);
+}
+
+class IngestStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Whether jobs and files survive a reload; false where IndexedDB is unavailable or fails to open
+   */
+  async isPersistent(): Promise<boolean> {
+    this.db ??= openDatabase();
+    return (await this.db) !== null;
+  }
+
+  async listJobs(): Promise<IngestJob[]> {
+    return await this.run(JOBS, 'readonly', store => store.getAll() as IDBRequest<IngestJob[]>) ?? [];
+  }
+
+  async putJob(job: IngestJob): Promise<void> {
+    await this.run(JOBS, 'readwrite', store => store.put(job));
+  }
+
+  /**
+   * Remove a job and its file
+   */
+  async deleteJob(id: string): Promise<void> {
+    await this.run(JOBS, 'readwrite', store => store.delete(id));
+    await this.deleteFile(id);
+  }
+
+  async putFile(jobId: string, file: Blob): Promise<void> {
+    await this.run(FILES, 'readwrite', store => store.put(file, jobId));
+  }
+
+  async getFile(jobId: string): Promise<Blob | null> {
+    return await this.run(FILES, 'readonly', store => store.get(jobId) as IDBRequest<Blob | undefined>) ?? null;
+  }
+
+  async deleteFile(jobId: string): Promise<void> {
+    await this.run(FILES, 'readwrite', store => store.delete(jobId));
+  }
+
+  async listUploads(): Promise<MultipartUpload[]> {
+    return await this.run(UPLOADS, 'readonly', store => store.getAll() as IDBRequest<MultipartUpload[]>) ?? [];
+  }
+
+  async putUpload(upload: MultipartUpload): Promise<void> {
+    await this.run(UPLOADS, 'readwrite', store => store.put(upload));
+  }
+
+  async deleteUpload(id: string): Promise<void> {
+    await this.run(UPLOADS, 'readwrite', store => store.delete(id));
+  }
+
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    this.db ??= openDatabase();
+    const db = await this.db;
+    if (!db) return undefined;
+    return settle(action(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+}
+
+export const ingestStore = new IngestStore();
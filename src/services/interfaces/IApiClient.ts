@@ -6,83 +6,112 @@
  * while allowing for backend-specific features and optimizations.
  */
 
-import { BBCApiResponse, BBCApiOptions } from '../api';
+import { BBCApiResponse, BBCApiOptions } from '../tamsProtocol';
+import type { BackendApiConfig } from '../../config/apiConfig';
+import type { RequestOptions } from '../http';
+import type { IBCThiagoFlow, IBCThiagoHLSManifest, IBCThiagoMarker, IBCThiagoSource } from '../ibcThiagoApi';
+import type {
+  DeleteOptions,
+  DeletionRequest,
+  Flow,
+  FlowInput,
+  FlowSegment,
+  FlowSegmentInput,
+  FlowSegmentUpdate,
+  FlowUpdate,
+  Service,
+  Source,
+  SourceInput,
+  TamsObject,
+  TamsObjectInput,
+  Webhook,
+  WebhookInput
+} from '../../types/tams';
 
 /**
- * Core TAMS operations that all backends must support
+ * Health report returned by backend health endpoints (shape beyond `status` varies)
+ */
+export interface BackendHealth {
+  status: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Core TAMS operations that all backends must support.
+ * Entities are typed against the shared TAMS schema (`types/tams`) and decoded at runtime.
  */
 export interface ICoreTamsOperations {
   // Sources API
-  getSources(options?: BBCApiOptions): Promise<BBCApiResponse<any>>;
-  getSource(id: string): Promise<any>;
-  createSource(source: any): Promise<any>;
-  updateSource(id: string, source: any): Promise<any>;
-  deleteSource(id: string, options?: any): Promise<any>;
-  restoreSource(id: string): Promise<any>;
+  getSources(options?: BBCApiOptions): Promise<BBCApiResponse<Source>>;
+  getSource(id: string, options?: RequestOptions): Promise<Source>;
+  createSource(source: SourceInput, options?: RequestOptions): Promise<Source>;
+  updateSource(id: string, source: Partial<SourceInput>, options?: RequestOptions): Promise<Source>;
+  deleteSource(id: string, options?: DeleteOptions, requestOptions?: RequestOptions): Promise<void>;
+  restoreSource(id: string, options?: RequestOptions): Promise<Source>;
 
   // Flows API
-  getFlows(options?: BBCApiOptions): Promise<BBCApiResponse<any>>;
-  getFlow(id: string): Promise<any>;
-  createFlow(flow: any): Promise<any>;
-  updateFlow(id: string, flow: any): Promise<any>;
-  deleteFlow(id: string, options?: any): Promise<any>;
-  restoreFlow(id: string): Promise<any>;
-  cleanupFlow(id: string, hours?: number): Promise<any>;
+  getFlows(options?: BBCApiOptions): Promise<BBCApiResponse<Flow>>;
+  getFlow(id: string, options?: RequestOptions): Promise<Flow>;
+  createFlow(flow: FlowInput, options?: RequestOptions): Promise<Flow>;
+  updateFlow(id: string, flow: FlowUpdate, options?: RequestOptions): Promise<Flow>;
+  deleteFlow(id: string, options?: DeleteOptions, requestOptions?: RequestOptions): Promise<void>;
+  restoreFlow(id: string, options?: RequestOptions): Promise<Flow>;
+  cleanupFlow(id: string, hours?: number, options?: RequestOptions): Promise<unknown>;
 
   // Segments API
-  getFlowSegments(flowId: string, options?: BBCApiOptions): Promise<BBCApiResponse<any>>;
-  createFlowSegment(flowId: string, segment: any, file?: File): Promise<any>;
-  updateFlowSegment(flowId: string, segmentId: string, updates: any): Promise<any>;
-  deleteFlowSegments(flowId: string, options?: any): Promise<any>;
+  getFlowSegments(flowId: string, options?: BBCApiOptions): Promise<BBCApiResponse<FlowSegment>>;
+  createFlowSegment(flowId: string, segment: FlowSegmentInput, file?: File, options?: RequestOptions): Promise<FlowSegment>;
+  updateFlowSegment(flowId: string, segmentId: string, updates: FlowSegmentUpdate, options?: RequestOptions): Promise<FlowSegment>;
+  deleteFlowSegments(flowId: string, options?: DeleteOptions, requestOptions?: RequestOptions): Promise<void | DeletionRequest>;
 
   // Objects API
-  getObjects(options?: BBCApiOptions): Promise<BBCApiResponse<any>>;
-  getObject(id: string): Promise<any>;
-  createObject(object: any): Promise<any>;
-  deleteObject(id: string, options?: any): Promise<any>;
+  getObjects(options?: BBCApiOptions): Promise<BBCApiResponse<TamsObject>>;
+  getObject(id: string, options?: RequestOptions): Promise<TamsObject>;
+  createObject(object: TamsObjectInput, options?: RequestOptions): Promise<TamsObject>;
+  deleteObject(id: string, options?: DeleteOptions, requestOptions?: RequestOptions): Promise<void>;
 }
 
 /**
  * Advanced features that may not be supported by all backends
  */
 export interface IAdvancedFeatures {
-  // Analytics
-  getFlowUsageAnalytics(): Promise<any>;
-  getStorageUsageAnalytics(): Promise<any>;
-  getTimeRangeAnalytics(): Promise<any>;
+  // Analytics (backend-specific report shapes)
+  getFlowUsageAnalytics(options?: RequestOptions): Promise<Record<string, unknown>>;
+  getStorageUsageAnalytics(options?: RequestOptions): Promise<Record<string, unknown>>;
+  getTimeRangeAnalytics(options?: RequestOptions): Promise<Record<string, unknown>>;
 
   // Webhooks
-  getWebhooks(options?: BBCApiOptions): Promise<BBCApiResponse<any>>;
-  createWebhook(webhookData: any): Promise<any>;
-  updateWebhook(webhookId: string, webhookData: any): Promise<any>;
-  deleteWebhook(webhookId: string): Promise<void>;
-  testWebhook(webhookId: string): Promise<any>;
-  getWebhookHistory(webhookId: string): Promise<any>;
-  getWebhookStats(webhookId: string): Promise<any>;
-  getWebhookEventTypes(): Promise<string[]>;
+  getWebhooks(options?: BBCApiOptions): Promise<BBCApiResponse<Webhook>>;
+  createWebhook(webhookData: WebhookInput, options?: RequestOptions): Promise<Webhook>;
+  updateWebhook(webhookId: string, webhookData: Partial<WebhookInput>, options?: RequestOptions): Promise<Webhook>;
+  deleteWebhook(webhookId: string, options?: RequestOptions): Promise<void>;
+  testWebhook(webhookId: string, options?: RequestOptions): Promise<unknown>;
+  getWebhookHistory(webhookId: string, options?: RequestOptions): Promise<unknown>;
+  getWebhookStats(webhookId: string, options?: RequestOptions): Promise<unknown>;
+  getWebhookEventTypes(options?: RequestOptions): Promise<string[]>;
 
   // Flow Management
-  getFlowTags(flowId: string): Promise<Record<string, string>>;
-  setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any>;
-  deleteFlowTag(flowId: string, tagName: string): Promise<any>;
-  getFlowCollection(flowId: string): Promise<any>;
-  setFlowCollection(flowId: string, collectionId: string): Promise<any>;
-  removeFlowFromCollection(flowId: string): Promise<any>;
-  getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }>;
-  setFlowReadOnly(flowId: string, readOnly: boolean): Promise<any>;
-  getFlowDescription(flowId: string): Promise<{ description: string | null }>;
-  setFlowDescription(flowId: string, description: string): Promise<any>;
-  getFlowLabel(flowId: string): Promise<{ label: string | null }>;
-  setFlowLabel(flowId: string, label: string): Promise<any>;
+  getFlowTags(flowId: string, options?: RequestOptions): Promise<Record<string, string>>;
+  setFlowTag(flowId: string, tagName: string, tagValue: string, options?: RequestOptions): Promise<unknown>;
+  deleteFlowTag(flowId: string, tagName: string, options?: RequestOptions): Promise<void>;
+  getFlowCollection(flowId: string, options?: RequestOptions): Promise<unknown>;
+  setFlowCollection(flowId: string, collectionId: string, options?: RequestOptions): Promise<unknown>;
+  removeFlowFromCollection(flowId: string, options?: RequestOptions): Promise<void>;
+  getFlowReadOnly(flowId: string, options?: RequestOptions): Promise<{ read_only: boolean }>;
+  setFlowReadOnly(flowId: string, readOnly: boolean, options?: RequestOptions): Promise<unknown>;
+  getFlowDescription(flowId: string, options?: RequestOptions): Promise<{ description: string | null }>;
+  setFlowDescription(flowId: string, description: string, options?: RequestOptions): Promise<unknown>;
+  getFlowLabel(flowId: string, options?: RequestOptions): Promise<{ label: string | null }>;
+  setFlowLabel(flowId: string, label: string, options?: RequestOptions): Promise<unknown>;
 
   // Field Operations
-  getFieldValue<T = any>(
+  getFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
   ): Promise<T>;
-  updateFieldValue<T = any>(
+  updateFieldValue<T = unknown>(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
     fieldKey: string,
@@ -100,7 +129,7 @@ export interface IAdvancedFeatures {
     entityId: string,
     fieldKey: string,
     options?: BBCApiOptions
-  ): Promise<BBCApiResponse<any>>;
+  ): Promise<BBCApiResponse<Record<string, unknown>>>;
   getEntityFields(
     entityType: 'flows' | 'sources' | 'segments',
     entityId: string,
@@ -108,12 +137,12 @@ export interface IAdvancedFeatures {
   ): Promise<string[]>;
 
   // Storage Management
-  getStorage(flowId: string): Promise<any>;
+  getStorage(flowId: string, options?: RequestOptions): Promise<unknown>;
 
   // Health and Monitoring
-  getHealth(): Promise<any>;
-  getMetrics(): Promise<any>;
-  getService(): Promise<any>;
+  getHealth(options?: RequestOptions): Promise<BackendHealth>;
+  getMetrics(options?: RequestOptions): Promise<unknown>;
+  getService(options?: RequestOptions): Promise<Service>;
 }
 
 /**
@@ -121,23 +150,23 @@ export interface IAdvancedFeatures {
  */
 export interface IBackendSpecificFeatures {
   // IBC Thiago specific features
-  getHLSManifest?(flowId: string): Promise<any>;
-  createMarker?(markerData: any): Promise<any>;
-  updateMarker?(markerId: string, updates: any): Promise<any>;
-  deleteMarker?(markerId: string): Promise<void>;
+  getHLSManifest?(flowId: string, options?: RequestOptions): Promise<IBCThiagoHLSManifest>;
+  createMarker?(markerData: Partial<IBCThiagoMarker>, options?: RequestOptions): Promise<IBCThiagoMarker>;
+  updateMarker?(markerId: string, updates: Partial<IBCThiagoMarker>, options?: RequestOptions): Promise<IBCThiagoMarker>;
+  deleteMarker?(markerId: string, options?: RequestOptions): Promise<void>;
   connectWebSocket?(): Promise<void>;
   disconnectWebSocket?(): void;
-  subscribeToWebSocket?(eventType: string, callback: (data: any) => void): void;
-  unsubscribeFromWebSocket?(eventType: string, callback: (data: any) => void): void;
+  subscribeToWebSocket?(eventType: string, callback: (data: unknown) => void): void;
+  unsubscribeFromWebSocket?(eventType: string, callback: (data: unknown) => void): void;
   isWebSocketConnected?(): boolean;
 
   // Utility methods for IBC Thiago
-  extractMarkersFromSource?(source: any): any[];
-  extractVideoFlowsFromSource?(source: any): any[];
-  isMarkerFlow?(flow: any): boolean;
-  getMarkerColor?(marker: any): string;
-  getMarkerDisplayType?(marker: any): string;
-  isMarkerEditable?(marker: any): boolean;
+  extractMarkersFromSource?(source: IBCThiagoSource): IBCThiagoMarker[];
+  extractVideoFlowsFromSource?(source: IBCThiagoSource): IBCThiagoFlow[];
+  isMarkerFlow?(flow: IBCThiagoFlow): boolean;
+  getMarkerColor?(marker: IBCThiagoMarker): string;
+  getMarkerDisplayType?(marker: IBCThiagoMarker): string;
+  isMarkerEditable?(marker: IBCThiagoMarker): boolean;
 }
 
 /**
@@ -240,19 +269,20 @@ export interface IBackendMetadata {
  */
 export interface IErrorHandling {
   /**
-   * Handle API errors consistently
+   * Handle API errors consistently: rethrows `error` with `context` in front of its message,
+   * keeping the type of typed API errors (see errors)
    */
-  handleError(error: any, context?: string): Promise<never>;
+  handleError(error: unknown, context?: string): Promise<never>;
 
   /**
    * Validate API responses
    */
-  validateResponse(response: any, expectedType?: string): boolean;
+  validateResponse(response: unknown, expectedType?: string): boolean;
 
   /**
    * Get error message from API response
    */
-  getErrorMessage(error: any): string;
+  getErrorMessage(error: unknown): string;
 }
 
 /**
@@ -277,12 +307,12 @@ export interface IApiClient
   /**
    * Set the backend configuration
    */
-  setBackendConfig(config: any): void;
+  setBackendConfig(config: BackendApiConfig): void;
 
   /**
    * Get the current backend configuration
    */
-  getBackendConfig(): any;
+  getBackendConfig(): BackendApiConfig;
 
   /**
    * Test connection to the backend
@@ -307,7 +337,7 @@ export interface IApiClientFactory {
   /**
    * Create an API client for the specified backend type
    */
-  createClient(backendType: string, config: any): Promise<IApiClient>;
+  createClient(backendType: BackendType, config: BackendApiConfig): Promise<IApiClient>;
 
   /**
    * Get available backend types
@@ -317,12 +347,12 @@ export interface IApiClientFactory {
   /**
    * Validate backend configuration
    */
-  validateConfig(backendType: string, config: any): boolean;
+  validateConfig(backendType: BackendType, config: BackendApiConfig): boolean;
 
   /**
    * Get default configuration for backend type
    */
-  getDefaultConfig(backendType: string): any;
+  getDefaultConfig(backendType: BackendType): Partial<BackendApiConfig>;
 }
 
 /**
@@ -344,7 +374,7 @@ export type BackendFeature =
 /**
  * Backend types for type safety
  */
-export type BackendType = 'vast-tams' | 'bbc-tams' | 'custom' | 'ibc-thiago';
+export type BackendType = 'vast-tams' | 'bbc-tams' | 'custom' | 'ibc-thiago' | 'mock';
 
 /**
  * API Client creation options
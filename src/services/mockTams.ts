@@ -0,0 +1,1336 @@
+/**
+ * Offline Mock TAMS Backend
+ *
+ * An in-memory TAMS v6 store that answers the routes the API clients use, so the app works
+ * without a network. `installMockTams()` wraps `fetch`: requests to MOCK_TAMS_BASE_URL are
+ * answered by the mock and everything else goes out as before. Select the "Mock TAMS"
+ * backend (type 'mock') to browse it. `mountMockTams()` serves further stores at their own
+ * base URLs.
+ *
+ * The mock speaks the VAST TAMS flavour the adapters expect: lists are paged with `limit`
+ * and `page` and answer with X-Paging headers and a `Link: rel="next"` header, storage
+ * allocation hands out put URLs the mock itself accepts (with multipart uploads, see
+ * multipartUpload), and deletes with `soft_delete=true`
+ * hide entities until they are restored. State is seeded from fixtures and `reset()`
+ * returns to the seed.
+ */
+
+import { MOCK_TAMS_BASE_URL } from '../config/apiConfig';
+import type {
+  Flow,
+  FlowDeletionRequest,
+  FlowSegment,
+  GetUrl,
+  Source,
+  TamsError,
+  TamsObjectInput,
+  TamsTags,
+  Webhook,
+  WebhookEvent
+} from '../types/tams';
+import {
+  extendTimerange,
+  formatTimerange,
+  mergeTimeranges,
+  timerangeDuration,
+  timerangesOverlap,
+  tryParseTimerange,
+  NANOS_PER_SECOND,
+  type Timerange
+} from '../utils/timerange';
+import { crc32c, crc32cToBase64 } from '../utils/crc32c';
+import { defaultMockFixtures } from './mockTamsFixtures';
+
+/**
+ * Content the mock store starts with
+ */
+export interface MockTamsFixtures {
+  sources: Source[];
+  flows: Flow[];
+  // Segments per flow ID
+  segments: Record<string, FlowSegment[]>;
+  // Sizes of the objects segments refer to; objects without an entry have no size
+  objects?: TamsObjectInput[];
+  deletionRequests?: FlowDeletionRequest[];
+  webhooks?: Webhook[];
+}
+
+interface SoftDeleted {
+  deleted?: boolean;
+  deleted_at?: string;
+  deleted_by?: string;
+}
+
+type StoredSource = Source & SoftDeleted;
+type StoredFlow = Flow & SoftDeleted;
+type StoredSegment = FlowSegment & SoftDeleted;
+
+interface StoredObject {
+  id: string;
+  size?: number;
+  // Bytes uploaded to the object's put URL
+  media?: ArrayBuffer;
+  contentType?: string;
+}
+
+// A multipart upload in progress: the parts received so far, by part number
+interface StoredMultipartUpload {
+  objectId: string;
+  contentType: string;
+  parts: Map<number, { data: ArrayBuffer; etag: string }>;
+}
+
+interface MockRequest {
+  method: string;
+  url: URL;
+  params: Record<string, string>;
+  request: Request;
+}
+
+type RouteHandler = (request: MockRequest) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  // Path template, e.g. '/flows/:flowId/segments'; also the metrics label
+  path: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 1000;
+const STORAGE_ID = 'mock-storage';
+const MEDIA_PATH = '/_media';
+const MOCK_USER = 'mock-user';
+
+const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'flows/created',
+  'flows/updated',
+  'flows/deleted',
+  'flows/segments_added',
+  'flows/segments_deleted',
+  'sources/created',
+  'sources/updated',
+  'sources/deleted'
+];
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict'
+};
+
+class MockTamsHttpError extends Error {
+  readonly status: number;
+  readonly type: string;
+
+  constructor(status: number, type: string, summary: string) {
+    super(summary);
+    this.name = 'MockTamsHttpError';
+    this.status = status;
+    this.type = type;
+  }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+// S3 answers its multipart requests with XML documents
+function xml(body: string, status = 200): Response {
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    headers: { 'Content-Type': 'application/xml' }
+  });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204, statusText: 'No Content' });
+}
+
+function errorResponse(status: number, type: string, summary: string): Response {
+  const error: TamsError = { type, summary, time: new Date().toISOString() };
+  return json(error, status);
+}
+
+function notFound(what: string, id: string): never {
+  throw new MockTamsHttpError(404, 'NotFound', `${what} ${id} not found`);
+}
+
+function badRequest(summary: string): never {
+  throw new MockTamsHttpError(400, 'BadRequest', summary);
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function compileRoute(method: string, path: string, handler: RouteHandler): Route {
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, '(?<$1>[^/]+)')}/?$`);
+  return { method, path, pattern, handler };
+}
+
+function isTrue(value: string | null): boolean {
+  return value === 'true' || value === '1';
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    badRequest('Request body is not valid JSON');
+  }
+}
+
+async function readObject(request: Request): Promise<Record<string, unknown>> {
+  const body = await readJson(request);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    badRequest('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * A field PUT body: `{ <field>: value }` from the app's clients, or the bare JSON value
+ */
+function fieldValue(body: unknown, field: string): unknown {
+  if (body && typeof body === 'object' && !Array.isArray(body) && field in body) {
+    return (body as Record<string, unknown>)[field];
+  }
+  return body;
+}
+
+/**
+ * A tag PUT body: `{ value }`, `[value]` or a bare string
+ */
+function tagValue(body: unknown): string | string[] {
+  const value = fieldValue(body, 'value');
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.length === 1 ? value[0]! : value;
+  }
+  badRequest('Tag value must be a string or a list of strings');
+}
+
+function matchesTags(tags: TamsTags | undefined, query: URLSearchParams): boolean {
+  for (const [key, value] of query) {
+    if (key.startsWith('tag.')) {
+      const tag = tags?.[key.slice(4)];
+      if (tag === undefined || !(Array.isArray(tag) ? tag.includes(value) : tag === value)) return false;
+    } else if (key.startsWith('tag_exists.')) {
+      const exists = tags?.[key.slice(11)] !== undefined;
+      if (exists !== isTrue(value)) return false;
+    }
+  }
+  return true;
+}
+
+function queryTimerange(query: URLSearchParams): Timerange | null {
+  const value = query.get('timerange');
+  if (!value) return null;
+  const range = tryParseTimerange(value);
+  if (!range) badRequest(`Invalid timerange ${value}`);
+  return range;
+}
+
+function visible<T extends SoftDeleted>(items: Iterable<T>, query: URLSearchParams): T[] {
+  const includeDeleted = isTrue(query.get('include_deleted'));
+  return [...items].filter(item => includeDeleted || !item.deleted);
+}
+
+function markDeleted(entity: SoftDeleted, deletedBy: string | null): void {
+  entity.deleted = true;
+  entity.deleted_at = now();
+  entity.deleted_by = deletedBy || MOCK_USER;
+}
+
+function restore(entity: SoftDeleted): void {
+  delete entity.deleted;
+  delete entity.deleted_at;
+  delete entity.deleted_by;
+}
+
+/**
+ * The entity and operation a write counts towards in the metrics, e.g. 'flow|create'
+ */
+function operationOf(method: string, path: string): string | null {
+  const entity = path.startsWith('/flows') ? 'flow'
+    : path.startsWith('/sources') ? 'source'
+    : path.startsWith('/objects') || path.startsWith(MEDIA_PATH) ? 'object'
+    : null;
+  const operation = path.startsWith(MEDIA_PATH) ? (method === 'PUT' ? 'upload' : null)
+    : path.endsWith('/restore') ? 'restore'
+    : method === 'POST' ? 'create'
+    : method === 'PUT' || method === 'PATCH' ? 'update'
+    : method === 'DELETE' ? 'delete'
+    : null;
+  if (!entity || !operation) return null;
+  return `${entity}|${path.includes('/segments') ? `segment_${operation}` : operation}`;
+}
+
+export class MockTamsServer {
+  private sources = new Map<string, StoredSource>();
+  private flows = new Map<string, StoredFlow>();
+  private segments = new Map<string, StoredSegment[]>();
+  private objects = new Map<string, StoredObject>();
+  private multipartUploads = new Map<string, StoredMultipartUpload>();
+  private deletionRequests = new Map<string, FlowDeletionRequest>();
+  private webhooks = new Map<string, Webhook>();
+  // Requests per route, writes per entity and outcome, and failed requests, for /metrics
+  private requestCounts = new Map<string, number>();
+  private operationCounts = new Map<string, number>();
+  private errorCount = 0;
+  private fixtures: MockTamsFixtures;
+  private routes: Route[];
+
+  constructor(fixtures: MockTamsFixtures = defaultMockFixtures) {
+    this.fixtures = fixtures;
+    this.routes = this.buildRoutes();
+    this.seed(fixtures);
+  }
+
+  /**
+   * Replace the store's content with the given fixtures
+   */
+  seed(fixtures: MockTamsFixtures): void {
+    const copy = structuredClone(fixtures);
+    this.fixtures = fixtures;
+    this.sources = new Map(copy.sources.map(source => [source.id, source]));
+    this.flows = new Map(copy.flows.map(flow => [flow.id, flow]));
+    this.segments = new Map(Object.entries(copy.segments));
+    this.objects = new Map((copy.objects ?? []).map(object => [object.id, { id: object.id, ...(object.size !== undefined ? { size: object.size } : {}) }]));
+    for (const segments of this.segments.values()) {
+      for (const segment of segments) {
+        if (!this.objects.has(segment.object_id)) {
+          this.objects.set(segment.object_id, { id: segment.object_id });
+        }
+      }
+    }
+    this.multipartUploads.clear();
+    this.deletionRequests = new Map((copy.deletionRequests ?? []).map(request => [request.id, request]));
+    this.webhooks = new Map((copy.webhooks ?? []).map((webhook, index) => [webhook.id ?? `webhook-${index + 1}`, webhook]));
+    for (const flowId of this.flows.keys()) {
+      this.updateFlowTimerange(flowId);
+    }
+    this.requestCounts.clear();
+    this.operationCounts.clear();
+    this.errorCount = 0;
+  }
+
+  /**
+   * Return to the last seeded fixtures
+   */
+  reset(): void {
+    this.seed(this.fixtures);
+  }
+
+  /**
+   * Answer a request addressed to MOCK_TAMS_BASE_URL
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.signal.aborted) {
+      throw request.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const candidates = this.routes.filter(route => route.pattern.test(path));
+
+    if (method === 'OPTIONS' && candidates.length > 0) {
+      const allow = [...new Set(candidates.flatMap(route => route.method === 'GET' ? ['GET', 'HEAD'] : [route.method]))];
+      return new Response(null, { status: 204, headers: { Allow: [...allow, 'OPTIONS'].join(', ') } });
+    }
+
+    const route = candidates.find(candidate => candidate.method === (method === 'HEAD' ? 'GET' : method));
+    const routeKey = `${method} ${route?.path ?? path}`;
+    this.requestCounts.set(routeKey, (this.requestCounts.get(routeKey) ?? 0) + 1);
+
+    let response: Response;
+    if (!route) {
+      response = candidates.length > 0
+        ? errorResponse(405, 'MethodNotAllowed', `${method} is not allowed on ${path}`)
+        : errorResponse(404, 'NotFound', `No route for ${path}`);
+    } else {
+      try {
+        const params = route.pattern.exec(path)?.groups ?? {};
+        const decoded = Object.fromEntries(Object.entries(params).map(([key, value]) => [key, decodeURIComponent(value)]));
+        response = await route.handler({ method, url, params: decoded, request });
+      } catch (error) {
+        if (!(error instanceof MockTamsHttpError)) throw error;
+        response = errorResponse(error.status, error.type, error.message);
+      }
+    }
+
+    if (!response.ok) this.errorCount++;
+    const operation = route && operationOf(method, route.path);
+    if (operation) {
+      const key = `${operation}|${response.ok ? 'success' : 'failed'}`;
+      this.operationCounts.set(key, (this.operationCounts.get(key) ?? 0) + 1);
+    }
+    if (method === 'HEAD') {
+      return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+    return response;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Routes
+  // ---------------------------------------------------------------------------
+
+  private buildRoutes(): Route[] {
+    const routes: Array<[string, string, RouteHandler]> = [
+      ['GET', '/', () => json(['service', 'sources', 'flows', 'objects', 'flow-delete-requests'])],
+      ['GET', '/service', () => json(this.service())],
+      ['GET', '/service/storage-backends', () => json([{ id: STORAGE_ID, label: STORAGE_ID, type: 'memory' }])],
+      ['GET', '/service/webhooks', ({ url }) => this.page(url, [...this.webhooks.values()])],
+      ['POST', '/service/webhooks', ({ request }) => this.createWebhook(request)],
+      ['GET', '/service/webhooks/:webhookId', ({ params }) => json(this.webhook(params.webhookId!))],
+      ['PUT', '/service/webhooks/:webhookId', ({ params, request }) => this.updateWebhook(params.webhookId!, request)],
+      ['DELETE', '/service/webhooks/:webhookId', ({ params }) => this.deleteWebhook(params.webhookId!)],
+      ['POST', '/service/webhooks/:webhookId/test', ({ params }) => json({ success: true, webhook_id: this.webhook(params.webhookId!).id })],
+      ['GET', '/service/webhooks/:webhookId/history', ({ params }) => json({ webhook_id: this.webhook(params.webhookId!).id, deliveries: [] })],
+      ['GET', '/service/webhooks/:webhookId/stats', ({ params }) => json({ webhook_id: this.webhook(params.webhookId!).id, total_deliveries: 0, failed_deliveries: 0 })],
+      ['GET', '/service/webhook-events', () => json({ events: WEBHOOK_EVENTS })],
+      ['GET', '/health', () => json({ status: 'healthy', backend: 'mock', timestamp: now() })],
+      ['GET', '/metrics', () => new Response(this.metrics(), { status: 200, headers: { 'Content-Type': 'text/plain; version=0.0.4' } })],
+      ['GET', '/openapi.json', () => json({ openapi: '3.0.0', info: { title: 'Mock TAMS', version: '6.0' }, paths: {} })],
+
+      ['GET', '/sources', ({ url }) => this.listSources(url)],
+      ['GET', '/sources/:sourceId', ({ params }) => json(this.sourceWithFlows(params.sourceId!))],
+      ['POST', '/sources', ({ request }) => this.putSource(undefined, request)],
+      ['POST', '/sources/:sourceId', ({ params, request }) => this.putSource(params.sourceId, request)],
+      ['PUT', '/sources/:sourceId', ({ params, request }) => this.putSource(params.sourceId, request)],
+      ['DELETE', '/sources/:sourceId', ({ params, url }) => this.deleteSource(params.sourceId!, url)],
+      ['POST', '/sources/:sourceId/restore', ({ params }) => this.restoreSource(params.sourceId!)],
+      ['GET', '/sources/:sourceId/tags', ({ params }) => json(this.source(params.sourceId!).tags ?? {})],
+      ['GET', '/sources/:sourceId/tags/:name', ({ params }) => json(this.tag(this.source(params.sourceId!).tags, params.name!))],
+      ['PUT', '/sources/:sourceId/tags/:name', ({ params, request }) => this.setTag(this.source(params.sourceId!), params.name!, request)],
+      ['DELETE', '/sources/:sourceId/tags/:name', ({ params }) => this.deleteTag(this.source(params.sourceId!), params.name!)],
+      ['GET', '/sources/:sourceId/:field', ({ params }) => this.getField(this.source(params.sourceId!), params.field!)],
+      ['PUT', '/sources/:sourceId/:field', ({ params, request }) => this.setField(this.source(params.sourceId!), params.field!, request)],
+      ['DELETE', '/sources/:sourceId/:field', ({ params }) => this.deleteField(this.source(params.sourceId!), params.field!)],
+
+      ['GET', '/flows', ({ url }) => this.listFlows(url)],
+      ['GET', '/flows/:flowId', ({ params }) => json(this.flow(params.flowId!))],
+      ['POST', '/flows', ({ request }) => this.putFlow(undefined, request)],
+      ['POST', '/flows/:flowId', ({ params, request }) => this.putFlow(params.flowId, request)],
+      ['PUT', '/flows/:flowId', ({ params, request }) => this.putFlow(params.flowId, request)],
+      ['DELETE', '/flows/:flowId', ({ params, url }) => this.deleteFlow(params.flowId!, url)],
+      ['POST', '/flows/:flowId/restore', ({ params }) => this.restoreFlow(params.flowId!)],
+      ['POST', '/flows/:flowId/cleanup', ({ params }) => this.cleanupFlow(params.flowId!)],
+      ['GET', '/flows/:flowId/stats', ({ params }) => json(this.flowStats(params.flowId!))],
+      ['GET', '/flows/:flowId/storage', ({ params, url }) => this.allocateStorage(params.flowId!, Number(url.searchParams.get('limit')) || 1)],
+      ['POST', '/flows/:flowId/storage', async ({ params, request }) => {
+        const body = await readJson(request) as { limit?: unknown; object_ids?: unknown; multipart?: unknown } | null;
+        if (body?.multipart) return this.presignMultipart(params.flowId!, body.object_ids, body.multipart);
+        return this.allocateStorage(params.flowId!, Number(body?.limit) || 1);
+      }],
+      ['GET', '/flows/:flowId/segments', ({ params, url }) => this.listSegments(params.flowId!, url)],
+      ['POST', '/flows/:flowId/segments', ({ params, request }) => this.createSegments(params.flowId!, request)],
+      ['DELETE', '/flows/:flowId/segments', ({ params, url }) => this.deleteSegments(params.flowId!, url)],
+      ['PATCH', '/flows/:flowId/segments/:objectId', ({ params, request }) => this.updateSegment(params.flowId!, params.objectId!, request)],
+      ['GET', '/flows/:flowId/tags', ({ params }) => json(this.flow(params.flowId!).tags ?? {})],
+      ['GET', '/flows/:flowId/tags/:name', ({ params }) => json(this.tag(this.flow(params.flowId!).tags, params.name!))],
+      ['PUT', '/flows/:flowId/tags/:name', ({ params, request }) => this.setTag(this.writableFlow(params.flowId!), params.name!, request)],
+      ['DELETE', '/flows/:flowId/tags/:name', ({ params }) => this.deleteTag(this.writableFlow(params.flowId!), params.name!)],
+      ['GET', '/flows/:flowId/flow_collection', ({ params }) => json(this.flow(params.flowId!).flow_collection ?? [])],
+      ['PUT', '/flows/:flowId/flow_collection', ({ params, request }) => this.joinCollection(params.flowId!, request)],
+      ['DELETE', '/flows/:flowId/flow_collection', ({ params }) => this.leaveCollections(params.flowId!)],
+      ['GET', '/flows/:flowId/read_only', ({ params }) => json({ read_only: this.flow(params.flowId!).read_only ?? false })],
+      ['PUT', '/flows/:flowId/read_only', async ({ params, request }) => {
+        const flow = this.flow(params.flowId!);
+        const value = fieldValue(await readJson(request), 'read_only');
+        if (typeof value !== 'boolean') badRequest('read_only must be a boolean');
+        flow.read_only = value;
+        this.touchFlow(flow);
+        return json({ read_only: value });
+      }],
+      ['GET', '/flows/:flowId/:field', ({ params }) => this.getField(this.flow(params.flowId!), params.field!)],
+      ['PUT', '/flows/:flowId/:field', ({ params, request }) => this.setField(this.writableFlow(params.flowId!), params.field!, request)],
+      ['DELETE', '/flows/:flowId/:field', ({ params }) => this.deleteField(this.writableFlow(params.flowId!), params.field!)],
+
+      ['GET', '/objects', ({ url }) => this.page(url, [...this.objects.keys()].map(id => this.objectInfo(id)))],
+      ['POST', '/objects', async ({ request }) => {
+        const body = await readObject(request);
+        const id = typeof body.id === 'string' && body.id ? body.id : crypto.randomUUID();
+        this.objects.set(id, { id, ...(typeof body.size === 'number' ? { size: body.size } : {}) });
+        return json(this.objectInfo(id), 201);
+      }],
+      ['GET', '/objects/:objectId', ({ params }) => {
+        if (!this.objects.has(params.objectId!)) notFound('Object', params.objectId!);
+        return json(this.objectInfo(params.objectId!));
+      }],
+      ['DELETE', '/objects/:objectId', ({ params }) => {
+        if (!this.objects.has(params.objectId!)) notFound('Object', params.objectId!);
+        if (this.objectInfo(params.objectId!).referenced_by_flows.length > 0) {
+          throw new MockTamsHttpError(409, 'Conflict', `Object ${params.objectId} is referenced by segments`);
+        }
+        this.objects.delete(params.objectId!);
+        return noContent();
+      }],
+      ['GET', `${MEDIA_PATH}/:objectId`, ({ params }) => this.readMedia(params.objectId!)],
+      ['PUT', `${MEDIA_PATH}/:objectId`, ({ params, request }) => this.writeMedia(params.objectId!, request)],
+      ['PUT', `${MEDIA_PATH}/:objectId/uploads/:uploadId/:partNumber`, ({ params, request }) => this.writePart(params.objectId!, params.uploadId!, Number(params.partNumber), request)],
+      ['GET', `${MEDIA_PATH}/:objectId/uploads/:uploadId`, ({ params }) => this.listParts(params.objectId!, params.uploadId!)],
+      ['POST', `${MEDIA_PATH}/:objectId/uploads/:uploadId`, ({ params, request }) => this.completeMultipart(params.objectId!, params.uploadId!, request)],
+      ['DELETE', `${MEDIA_PATH}/:objectId/uploads/:uploadId`, ({ params }) => {
+        this.multipartUpload(params.objectId!, params.uploadId!);
+        this.multipartUploads.delete(params.uploadId!);
+        return noContent();
+      }],
+
+      ['GET', '/flow-delete-requests', ({ url }) => this.page(url, [...this.deletionRequests.values()])],
+      ['POST', '/flow-delete-requests', ({ request }) => this.createDeletionRequest(request)],
+      ['GET', '/flow-delete-requests/:requestId', ({ params }) => json(this.deletionRequest(params.requestId!))],
+      ['PUT', '/flow-delete-requests/:requestId', ({ params, request }) => this.updateDeletionRequest(params.requestId!, request)],
+
+      ['GET', '/analytics/flow-usage', () => json(this.flowUsage())],
+      ['GET', '/analytics/storage-usage', () => json(this.storageUsage())],
+      ['GET', '/analytics/time-range-analysis', () => json(this.timeRangeAnalysis())]
+    ];
+    return routes.map(([method, path, handler]) => compileRoute(method, path, handler));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Paging and lookups
+  // ---------------------------------------------------------------------------
+
+  private page<T>(url: URL, items: T[]): Response {
+    const requested = Number(url.searchParams.get('limit')) || DEFAULT_PAGE_LIMIT;
+    const limit = Math.min(Math.max(requested, 1), MAX_PAGE_LIMIT);
+    const offset = Math.max(Number(url.searchParams.get('page')) || 0, 0);
+    const headers: Record<string, string> = {
+      'X-Paging-Limit': String(limit),
+      'X-Paging-Count': String(items.length)
+    };
+    if (offset + limit < items.length) {
+      const next = new URL(url);
+      next.searchParams.set('page', String(offset + limit));
+      next.searchParams.set('limit', String(limit));
+      headers['X-Paging-NextKey'] = String(offset + limit);
+      headers['Link'] = `<${next.pathname}${next.search}>; rel="next"`;
+    }
+    return json(items.slice(offset, offset + limit), 200, headers);
+  }
+
+  private source(id: string): StoredSource {
+    const source = this.sources.get(id);
+    if (!source || source.deleted) notFound('Source', id);
+    return source;
+  }
+
+  private flow(id: string): StoredFlow {
+    const flow = this.flows.get(id);
+    if (!flow || flow.deleted) notFound('Flow', id);
+    return flow;
+  }
+
+  private writableFlow(id: string): StoredFlow {
+    const flow = this.flow(id);
+    if (flow.read_only) {
+      throw new MockTamsHttpError(403, 'Forbidden', `Flow ${id} is read-only`);
+    }
+    return flow;
+  }
+
+  private webhook(id: string): Webhook {
+    return this.webhooks.get(id) ?? notFound('Webhook', id);
+  }
+
+  private deletionRequest(id: string): FlowDeletionRequest {
+    return this.deletionRequests.get(id) ?? notFound('Deletion request', id);
+  }
+
+  private touchFlow(flow: StoredFlow, segments = false): void {
+    const timestamp = now();
+    flow.metadata_updated = timestamp;
+    if (segments) flow.segments_updated = timestamp;
+    flow.updated_by = MOCK_USER;
+  }
+
+  private segmentsOf(flowId: string): StoredSegment[] {
+    let segments = this.segments.get(flowId);
+    if (!segments) {
+      segments = [];
+      this.segments.set(flowId, segments);
+    }
+    return segments;
+  }
+
+  // The flow's timerange spans its segments
+  private updateFlowTimerange(flowId: string): void {
+    const flow = this.flows.get(flowId);
+    if (!flow) return;
+    const ranges = (this.segments.get(flowId) ?? [])
+      .filter(segment => !segment.deleted)
+      .map(segment => tryParseTimerange(segment.timerange))
+      .filter((range): range is Timerange => range !== null);
+    if (ranges.length === 0) {
+      delete flow.timerange;
+      return;
+    }
+    flow.timerange = formatTimerange(ranges.reduce(extendTimerange));
+  }
+
+  private getUrls(objectId: string): GetUrl[] {
+    return [{
+      url: `${MOCK_TAMS_BASE_URL}${MEDIA_PATH}/${encodeURIComponent(objectId)}`,
+      label: STORAGE_ID,
+      presigned: true,
+      storage_id: STORAGE_ID
+    }];
+  }
+
+  private objectSize(id: string): number | undefined {
+    const object = this.objects.get(id);
+    return object?.media?.byteLength ?? object?.size;
+  }
+
+  private objectInfo(id: string) {
+    const referencedBy = [...this.segments.entries()]
+      .filter(([, segments]) => segments.some(segment => segment.object_id === id && !segment.deleted))
+      .map(([flowId]) => flowId);
+    const size = this.objectSize(id);
+    return {
+      id,
+      referenced_by_flows: referencedBy,
+      ...(referencedBy[0] ? { first_referenced_by_flow: referencedBy[0] } : {}),
+      ...(size !== undefined ? { size } : {}),
+      get_urls: this.getUrls(id)
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sources
+  // ---------------------------------------------------------------------------
+
+  private listSources(url: URL): Response {
+    const query = url.searchParams;
+    const sources = visible(this.sources.values(), query).filter(source =>
+      (!query.get('format') || source.format === query.get('format')) &&
+      (!query.get('label') || source.label === query.get('label')) &&
+      matchesTags(source.tags, query)
+    );
+    return this.page(url, sources);
+  }
+
+  // Source reads include the source's flows, as the VAST backend does
+  private sourceWithFlows(id: string) {
+    const source = this.source(id);
+    const flows = [...this.flows.values()].filter(flow => flow.source_id === id && !flow.deleted);
+    return { ...source, flows };
+  }
+
+  private async putSource(id: string | undefined, request: Request): Promise<Response> {
+    const body = await readObject(request);
+    const sourceId = id ?? (typeof body.id === 'string' && body.id ? body.id : crypto.randomUUID());
+    const existing = this.sources.get(sourceId);
+    // Updates may send only the properties that change
+    if (typeof body.format !== 'string' && (!existing || existing.deleted)) badRequest('Source format is required');
+
+    const timestamp = now();
+    const source = {
+      ...(existing && !existing.deleted ? existing : {}),
+      ...body,
+      id: sourceId,
+      created: existing?.created ?? timestamp,
+      created_by: existing?.created_by ?? MOCK_USER,
+      updated: timestamp,
+      updated_by: MOCK_USER
+    } as StoredSource & { flows?: unknown };
+    delete source.flows;
+    restore(source);
+    this.sources.set(sourceId, source);
+    return json(source, existing && !existing.deleted ? 200 : 201);
+  }
+
+  private deleteSource(id: string, url: URL): Response {
+    const source = this.source(id);
+    const soft = isTrue(url.searchParams.get('soft_delete'));
+    const cascade = url.searchParams.get('cascade') !== 'false';
+    const flows = [...this.flows.values()].filter(flow => flow.source_id === id && !flow.deleted);
+    if (flows.length > 0 && !cascade) {
+      throw new MockTamsHttpError(409, 'Conflict', `Source ${id} still has ${flows.length} flows`);
+    }
+    for (const flow of flows) {
+      this.removeFlow(flow, soft, url.searchParams.get('deleted_by'));
+    }
+    if (soft) {
+      markDeleted(source, url.searchParams.get('deleted_by'));
+    } else {
+      this.sources.delete(id);
+    }
+    return noContent();
+  }
+
+  private restoreSource(id: string): Response {
+    const source = this.sources.get(id);
+    if (!source?.deleted) notFound('Deleted source', id);
+    restore(source);
+    for (const flow of this.flows.values()) {
+      if (flow.source_id === id && flow.deleted) {
+        restore(flow);
+        this.segmentsOf(flow.id).forEach(restore);
+      }
+    }
+    return json(source);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Flows
+  // ---------------------------------------------------------------------------
+
+  private listFlows(url: URL): Response {
+    const query = url.searchParams;
+    const range = queryTimerange(query);
+    const flows = visible(this.flows.values(), query).filter(flow => {
+      const flowRange = tryParseTimerange(flow.timerange);
+      return (!query.get('source_id') || flow.source_id === query.get('source_id')) &&
+        (!query.get('format') || flow.format === query.get('format')) &&
+        (!query.get('codec') || flow.codec === query.get('codec')) &&
+        (!query.get('label') || flow.label === query.get('label')) &&
+        (!range || (flowRange !== null && timerangesOverlap(range, flowRange))) &&
+        matchesTags(flow.tags, query);
+    });
+    return this.page(url, flows);
+  }
+
+  private async putFlow(id: string | undefined, request: Request): Promise<Response> {
+    const body = await readObject(request);
+    const flowId = id ?? (typeof body.id === 'string' && body.id ? body.id : crypto.randomUUID());
+    const existing = this.flows.get(flowId);
+    const current = existing && !existing.deleted ? existing : undefined;
+    // Updates may send only the properties that change
+    if (!current) {
+      if (typeof body.format !== 'string') badRequest('Flow format is required');
+      if (typeof body.source_id !== 'string' || !body.source_id) badRequest('Flow source_id is required');
+    }
+    if (current?.read_only && body.read_only !== false) {
+      throw new MockTamsHttpError(403, 'Forbidden', `Flow ${flowId} is read-only`);
+    }
+    const timestamp = now();
+    const flow = {
+      ...(current ?? {}),
+      ...body,
+      id: flowId,
+      created: current?.created ?? timestamp,
+      created_by: current?.created_by ?? MOCK_USER,
+      metadata_updated: timestamp,
+      updated_by: MOCK_USER
+    } as StoredFlow;
+    restore(flow);
+    this.flows.set(flowId, flow);
+    this.updateFlowTimerange(flowId);
+
+    // As in TAMS, writing a flow for an unknown source creates the source
+    if (!this.sources.get(flow.source_id) || this.sources.get(flow.source_id)?.deleted) {
+      this.sources.set(flow.source_id, {
+        id: flow.source_id,
+        format: flow.format,
+        ...(flow.label ? { label: flow.label } : {}),
+        created: timestamp,
+        created_by: MOCK_USER
+      });
+    }
+    return json(flow, current ? 200 : 201);
+  }
+
+  private removeFlow(flow: StoredFlow, soft: boolean, deletedBy: string | null): void {
+    if (soft) {
+      markDeleted(flow, deletedBy);
+      this.segmentsOf(flow.id).forEach(segment => markDeleted(segment, deletedBy));
+      return;
+    }
+    this.flows.delete(flow.id);
+    this.segments.delete(flow.id);
+    for (const other of this.flows.values()) {
+      if (other.flow_collection) other.flow_collection = other.flow_collection.filter(item => item.id !== flow.id);
+      if (other.collected_by) other.collected_by = other.collected_by.filter(collectionId => collectionId !== flow.id);
+    }
+  }
+
+  private deleteFlow(id: string, url: URL): Response {
+    const flow = this.flow(id);
+    this.removeFlow(flow, isTrue(url.searchParams.get('soft_delete')), url.searchParams.get('deleted_by'));
+    return noContent();
+  }
+
+  private restoreFlow(id: string): Response {
+    const flow = this.flows.get(id);
+    if (!flow?.deleted) notFound('Deleted flow', id);
+    restore(flow);
+    this.segmentsOf(id).forEach(restore);
+    const source = this.sources.get(flow.source_id);
+    if (source?.deleted) restore(source);
+    this.updateFlowTimerange(id);
+    return json(flow);
+  }
+
+  // Soft-deleted segments are purged for good
+  private cleanupFlow(id: string): Response {
+    const segments = this.segmentsOf(this.flow(id).id);
+    const kept = segments.filter(segment => !segment.deleted);
+    this.segments.set(id, kept);
+    return json({ flow_id: id, removed_segments: segments.length - kept.length });
+  }
+
+  private flowStats(id: string) {
+    const flow = this.flow(id);
+    const segments = this.segmentsOf(id).filter(segment => !segment.deleted);
+    const ranges = segments
+      .map(segment => tryParseTimerange(segment.timerange))
+      .filter((range): range is Timerange => range !== null);
+    const duration = mergeTimeranges(ranges)
+      .reduce((total, range) => total + (timerangeDuration(range) ?? 0n), 0n);
+    const size = segments.reduce((total, segment) => total + (this.objectSize(segment.object_id) ?? 0), 0);
+    return {
+      flow_id: id,
+      segment_count: segments.length,
+      total_duration_seconds: Number(duration) / Number(NANOS_PER_SECOND),
+      total_size_bytes: size,
+      ...(flow.timerange ? { timerange: flow.timerange } : {})
+    };
+  }
+
+  private async joinCollection(flowId: string, request: Request): Promise<Response> {
+    const flow = this.writableFlow(flowId);
+    const collectionId = fieldValue(await readJson(request), 'collection_id');
+    if (typeof collectionId !== 'string') badRequest('collection_id is required');
+    const collection = this.flow(collectionId);
+    if (!collection.flow_collection?.some(item => item.id === flowId)) {
+      collection.flow_collection = [...(collection.flow_collection ?? []), { id: flowId }];
+    }
+    if (!flow.collected_by?.includes(collectionId)) {
+      flow.collected_by = [...(flow.collected_by ?? []), collectionId];
+    }
+    this.touchFlow(flow);
+    return json({ flow_id: flowId, collection_id: collectionId });
+  }
+
+  private leaveCollections(flowId: string): Response {
+    const flow = this.writableFlow(flowId);
+    for (const collectionId of flow.collected_by ?? []) {
+      const collection = this.flows.get(collectionId);
+      if (collection?.flow_collection) {
+        collection.flow_collection = collection.flow_collection.filter(item => item.id !== flowId);
+      }
+    }
+    delete flow.collected_by;
+    this.touchFlow(flow);
+    return noContent();
+  }
+
+  private allocateStorage(flowId: string, limit: number): Response {
+    this.writableFlow(flowId);
+    const count = Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_LIMIT);
+    const mediaObjects = Array.from({ length: count }, () => {
+      const objectId = crypto.randomUUID();
+      this.objects.set(objectId, { id: objectId });
+      return {
+        object_id: objectId,
+        put_url: {
+          url: `${MOCK_TAMS_BASE_URL}${MEDIA_PATH}/${objectId}`,
+          'content-type': 'application/octet-stream'
+        }
+      };
+    });
+    return json({ storage_id: STORAGE_ID, media_objects: mediaObjects }, 201);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Segments
+  // ---------------------------------------------------------------------------
+
+  private listSegments(flowId: string, url: URL): Response {
+    this.flow(flowId);
+    const range = queryTimerange(url.searchParams);
+    const segments = visible(this.segmentsOf(flowId), url.searchParams)
+      .filter(segment => {
+        const segmentRange = tryParseTimerange(segment.timerange);
+        return !range || (segmentRange !== null && timerangesOverlap(range, segmentRange));
+      })
+      .sort((a, b) => {
+        const startA = tryParseTimerange(a.timerange)?.start ?? 0n;
+        const startB = tryParseTimerange(b.timerange)?.start ?? 0n;
+        return startA < startB ? -1 : startA > startB ? 1 : 0;
+      })
+      .map(segment => ({ ...segment, get_urls: this.getUrls(segment.object_id) }));
+    return this.page(url, segments);
+  }
+
+  private async createSegments(flowId: string, request: Request): Promise<Response> {
+    const flow = this.writableFlow(flowId);
+    let body: unknown;
+    let upload: Blob | null = null;
+
+    if (request.headers.get('Content-Type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const data = form.get('segment_data');
+      const file = form.get('file');
+      body = typeof data === 'string' ? JSON.parse(data) : null;
+      upload = file instanceof Blob ? file : null;
+    } else {
+      body = await readJson(request);
+    }
+
+    const inputs = (Array.isArray(body) ? body : [body]) as Array<Partial<FlowSegment> | null>;
+    const created: StoredSegment[] = [];
+    for (const input of inputs) {
+      if (!input || typeof input.timerange !== 'string' || !tryParseTimerange(input.timerange)) {
+        badRequest('Segment timerange is missing or invalid');
+      }
+      const objectId = input.object_id || crypto.randomUUID();
+      const object = this.objects.get(objectId) ?? { id: objectId };
+      if (upload) {
+        object.media = await upload.arrayBuffer();
+        object.contentType = upload.type || 'application/octet-stream';
+      }
+      this.objects.set(objectId, object);
+
+      const segment = { ...input, object_id: objectId, timerange: input.timerange } as StoredSegment;
+      delete segment.get_urls;
+      const segments = this.segmentsOf(flowId);
+      const existing = segments.findIndex(other => other.timerange === segment.timerange && !other.deleted);
+      if (existing >= 0) {
+        segments[existing] = segment;
+      } else {
+        segments.push(segment);
+      }
+      created.push(segment);
+    }
+
+    this.touchFlow(flow, true);
+    this.updateFlowTimerange(flowId);
+    return json(Array.isArray(body) ? created : created[0], 201);
+  }
+
+  private deleteSegments(flowId: string, url: URL): Response {
+    const flow = this.writableFlow(flowId);
+    const range = queryTimerange(url.searchParams);
+    const soft = isTrue(url.searchParams.get('soft_delete'));
+    const matches = (segment: StoredSegment) => {
+      const segmentRange = tryParseTimerange(segment.timerange);
+      return !segment.deleted && (!range || (segmentRange !== null && timerangesOverlap(range, segmentRange)));
+    };
+
+    if (soft) {
+      this.segmentsOf(flowId).filter(matches).forEach(segment => markDeleted(segment, url.searchParams.get('deleted_by')));
+    } else {
+      this.segments.set(flowId, this.segmentsOf(flowId).filter(segment => !matches(segment)));
+    }
+    this.touchFlow(flow, true);
+    this.updateFlowTimerange(flowId);
+    return noContent();
+  }
+
+  // Segments are addressed by object ID
+  private async updateSegment(flowId: string, objectId: string, request: Request): Promise<Response> {
+    const flow = this.writableFlow(flowId);
+    const segment = this.segmentsOf(flowId).find(candidate => candidate.object_id === objectId && !candidate.deleted);
+    if (!segment) notFound('Segment', objectId);
+    const updates = await readObject(request);
+    if (updates.timerange !== undefined && (typeof updates.timerange !== 'string' || !tryParseTimerange(updates.timerange))) {
+      badRequest('Segment timerange is invalid');
+    }
+    Object.assign(segment, updates, { object_id: objectId });
+    delete segment.get_urls;
+    this.touchFlow(flow, true);
+    this.updateFlowTimerange(flowId);
+    return json({ ...segment, get_urls: this.getUrls(objectId) });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tags and fields
+  // ---------------------------------------------------------------------------
+
+  private tag(tags: TamsTags | undefined, name: string): string | string[] {
+    const value = tags?.[name];
+    if (value === undefined) notFound('Tag', name);
+    return value;
+  }
+
+  private async setTag(entity: StoredSource | StoredFlow, name: string, request: Request): Promise<Response> {
+    const value = tagValue(await readJson(request));
+    entity.tags = { ...(entity.tags ?? {}), [name]: value };
+    this.touch(entity);
+    return json({ [name]: value });
+  }
+
+  private deleteTag(entity: StoredSource | StoredFlow, name: string): Response {
+    this.tag(entity.tags, name);
+    const tags = { ...(entity.tags ?? {}) };
+    delete tags[name];
+    entity.tags = tags;
+    this.touch(entity);
+    return noContent();
+  }
+
+  private getField(entity: StoredSource | StoredFlow, field: string): Response {
+    const value = (entity as unknown as Record<string, unknown>)[field];
+    if (value === undefined) notFound('Field', field);
+    return json({ [field]: value });
+  }
+
+  private async setField(entity: StoredSource | StoredFlow, field: string, request: Request): Promise<Response> {
+    if (field === 'id' || field === 'source_id' || field === 'format') {
+      badRequest(`${field} cannot be changed`);
+    }
+    const value = fieldValue(await readJson(request), field);
+    (entity as unknown as Record<string, unknown>)[field] = value;
+    this.touch(entity);
+    return json({ [field]: value });
+  }
+
+  private deleteField(entity: StoredSource | StoredFlow, field: string): Response {
+    if (field === 'id' || field === 'source_id' || field === 'format') {
+      badRequest(`${field} cannot be removed`);
+    }
+    delete (entity as unknown as Record<string, unknown>)[field];
+    this.touch(entity);
+    return noContent();
+  }
+
+  private touch(entity: StoredSource | StoredFlow): void {
+    if (this.flows.get(entity.id) === entity) {
+      this.touchFlow(entity as StoredFlow);
+    } else {
+      (entity as StoredSource).updated = now();
+      (entity as StoredSource).updated_by = MOCK_USER;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Objects and media
+  // ---------------------------------------------------------------------------
+
+  private readMedia(objectId: string): Response {
+    const object = this.objects.get(objectId);
+    if (!object?.media) notFound('Media for object', objectId);
+    return new Response(object.media.slice(0), {
+      status: 200,
+      headers: {
+        'Content-Type': object.contentType ?? 'application/octet-stream',
+        'Content-Length': String(object.media.byteLength)
+      }
+    });
+  }
+
+  private async writeMedia(objectId: string, request: Request): Promise<Response> {
+    const object = this.objects.get(objectId);
+    if (!object) notFound('Object', objectId);
+    object.media = await request.arrayBuffer();
+    object.contentType = request.headers.get('Content-Type') ?? 'application/octet-stream';
+    return new Response(null, { status: 200, headers: { 'Content-Length': '0' } });
+  }
+
+  /**
+   * The multipart extension of the storage request: create an upload of an allocated object,
+   * or presign the S3-style requests of one
+   */
+  private presignMultipart(flowId: string, objectIds: unknown, multipart: unknown): Response {
+    this.writableFlow(flowId);
+    const objectId = Array.isArray(objectIds) && typeof objectIds[0] === 'string' ? objectIds[0] : undefined;
+    if (!objectId || !this.objects.has(objectId)) badRequest('object_ids must name an allocated object');
+    const request = multipart as { upload_id?: unknown; content_type?: unknown; parts?: unknown };
+    let uploadId: string;
+    if (typeof request.upload_id === 'string') {
+      uploadId = request.upload_id;
+      this.multipartUpload(objectId, uploadId);
+    } else {
+      uploadId = crypto.randomUUID();
+      this.multipartUploads.set(uploadId, {
+        objectId,
+        contentType: typeof request.content_type === 'string' ? request.content_type : 'application/octet-stream',
+        parts: new Map()
+      });
+    }
+    const parts = Array.isArray(request.parts) ? request.parts as Array<{ part_number?: unknown }> : [];
+    if (!parts.every(part => Number.isInteger(part.part_number) && Number(part.part_number) >= 1)) {
+      badRequest('parts must list part numbers');
+    }
+    const base = `${MOCK_TAMS_BASE_URL}${MEDIA_PATH}/${objectId}/uploads/${uploadId}`;
+    return json({
+      storage_id: STORAGE_ID,
+      media_objects: [{
+        object_id: objectId,
+        multipart: {
+          upload_id: uploadId,
+          part_urls: parts.map(part => ({ part_number: part.part_number, url: `${base}/${String(part.part_number)}` })),
+          list_parts_url: base,
+          complete_url: base,
+          abort_url: base
+        }
+      }]
+    }, typeof request.upload_id === 'string' ? 200 : 201);
+  }
+
+  private multipartUpload(objectId: string, uploadId: string): StoredMultipartUpload {
+    const upload = this.multipartUploads.get(uploadId);
+    if (!upload || upload.objectId !== objectId) notFound('Multipart upload', uploadId);
+    return upload;
+  }
+
+  private listParts(objectId: string, uploadId: string): Response {
+    const upload = this.multipartUpload(objectId, uploadId);
+    const parts = [...upload.parts.entries()].map(([partNumber, part]) =>
+      `<Part><PartNumber>${partNumber}</PartNumber><ETag>${part.etag.replace(/"/g, '&quot;')}</ETag><Size>${part.data.byteLength}</Size></Part>`);
+    return xml(`<ListPartsResult><UploadId>${uploadId}</UploadId><IsTruncated>false</IsTruncated>${parts.join('')}</ListPartsResult>`);
+  }
+
+  private async writePart(objectId: string, uploadId: string, partNumber: number, request: Request): Promise<Response> {
+    const upload = this.multipartUpload(objectId, uploadId);
+    const data = await request.arrayBuffer();
+    // Like S3, reject bytes that do not match the checksum sent with them
+    const checksum = crc32cToBase64(crc32c(new Uint8Array(data)));
+    const expected = request.headers.get('x-amz-checksum-crc32c');
+    if (expected && expected !== checksum) {
+      return errorResponse(400, 'BadDigest', `The CRC32C checksum of part ${partNumber} does not match`);
+    }
+    const etag = `"${crypto.randomUUID().replace(/-/g, '')}"`;
+    upload.parts.set(partNumber, { data, etag });
+    return new Response(null, { status: 200, headers: { ETag: etag, 'x-amz-checksum-crc32c': checksum } });
+  }
+
+  private async completeMultipart(objectId: string, uploadId: string, request: Request): Promise<Response> {
+    const upload = this.multipartUpload(objectId, uploadId);
+    // The CompleteMultipartUpload document, read without an XML parser: parts in order
+    const parts = [...(await request.text()).matchAll(/<Part>[\s\S]*?<PartNumber>(\d+)<\/PartNumber>[\s\S]*?<ETag>([^<]*)<\/ETag>[\s\S]*?<\/Part>/g)]
+      .map(([, partNumber, etag]) => ({ partNumber: Number(partNumber), etag: (etag ?? '').replace(/&quot;/g, '"') }));
+    if (parts.length === 0) badRequest('The request must list the uploaded parts');
+    const chunks: ArrayBuffer[] = [];
+    let previous = 0;
+    for (const part of parts) {
+      const stored = upload.parts.get(part.partNumber);
+      if (!stored || stored.etag !== part.etag) badRequest(`Part ${part.partNumber} was not uploaded`);
+      if (part.partNumber <= previous) badRequest('Parts must be listed in ascending order');
+      previous = part.partNumber;
+      chunks.push(stored.data);
+    }
+    const media = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+    chunks.reduce((offset, chunk) => {
+      media.set(new Uint8Array(chunk), offset);
+      return offset + chunk.byteLength;
+    }, 0);
+    const object = this.objects.get(objectId);
+    if (!object) notFound('Object', objectId);
+    object.media = media.buffer;
+    object.contentType = upload.contentType;
+    object.size = media.byteLength;
+    this.multipartUploads.delete(uploadId);
+    return xml(`<CompleteMultipartUploadResult><Key>${objectId}</Key></CompleteMultipartUploadResult>`);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Deletion requests, webhooks and service
+  // ---------------------------------------------------------------------------
+
+  private async createDeletionRequest(request: Request): Promise<Response> {
+    const body = await readObject(request);
+    if (typeof body.flow_id !== 'string') badRequest('flow_id is required');
+    const flow = this.flow(body.flow_id);
+    const stats = this.flowStats(flow.id);
+    const timestamp = now();
+    const deletionRequest: FlowDeletionRequest = {
+      soft_delete: true,
+      cascade: false,
+      priority: 'medium',
+      ...body,
+      id: crypto.randomUUID(),
+      flow_id: flow.id,
+      ...(flow.label ? { flow_name: flow.label } : {}),
+      flow_format: flow.format,
+      segments_count: stats.segment_count,
+      estimated_size: stats.total_size_bytes,
+      requested_by: typeof body.requested_by === 'string' ? body.requested_by : MOCK_USER,
+      status: 'pending',
+      created: timestamp,
+      updated: timestamp
+    };
+    this.deletionRequests.set(deletionRequest.id, deletionRequest);
+    return json(deletionRequest, 201);
+  }
+
+  // Completing a request deletes the flow, softly unless the request says otherwise
+  private async updateDeletionRequest(id: string, request: Request): Promise<Response> {
+    const deletionRequest = this.deletionRequest(id);
+    const updates = await readObject(request);
+    const timestamp = now();
+    Object.assign(deletionRequest, updates, { id, updated: timestamp });
+
+    if (updates.status === 'approved') deletionRequest.approved_at ??= timestamp;
+    if (updates.status === 'rejected') deletionRequest.rejected_at ??= timestamp;
+    if (updates.status === 'completed') {
+      const flow = this.flows.get(deletionRequest.flow_id);
+      if (flow && !flow.deleted) {
+        this.removeFlow(flow, deletionRequest.soft_delete !== false, deletionRequest.approved_by ?? null);
+      }
+      deletionRequest.completed_at ??= timestamp;
+    }
+    return json(deletionRequest);
+  }
+
+  private async createWebhook(request: Request): Promise<Response> {
+    const body = await readObject(request);
+    if (typeof body.url !== 'string' || !Array.isArray(body.events)) badRequest('Webhook url and events are required');
+    const webhook = { ...body, id: crypto.randomUUID(), status: 'created' } as Webhook;
+    this.webhooks.set(webhook.id!, webhook);
+    return json(webhook, 201);
+  }
+
+  private async updateWebhook(id: string, request: Request): Promise<Response> {
+    const webhook = { ...this.webhook(id), ...await readObject(request), id } as Webhook;
+    this.webhooks.set(id, webhook);
+    return json(webhook);
+  }
+
+  private deleteWebhook(id: string): Response {
+    this.webhook(id);
+    this.webhooks.delete(id);
+    return noContent();
+  }
+
+  private service() {
+    return {
+      type: 'urn:x-tams:service.mock',
+      api_version: '6.0',
+      service_version: 'mock-1.0',
+      name: 'Mock TAMS',
+      description: 'In-memory TAMS store for offline development',
+      media_store: { type: 'http_object_store' },
+      event_stream_mechanisms: [{ name: 'webhooks' }],
+      capabilities: { storage_backends: [STORAGE_ID] }
+    };
+  }
+
+  private storageUsage() {
+    const sizes = [...this.objects.keys()].map(id => this.objectSize(id) ?? 0);
+    return {
+      total_objects: sizes.length,
+      total_size_bytes: sizes.reduce((total, size) => total + size, 0),
+      storage_backends: [STORAGE_ID]
+    };
+  }
+
+  private flowUsage() {
+    const flows = [...this.flows.values()].filter(flow => !flow.deleted);
+    const byFormat: Record<string, number> = {};
+    for (const flow of flows) {
+      byFormat[flow.format] = (byFormat[flow.format] ?? 0) + 1;
+    }
+    return { total_flows: flows.length, flows_by_format: byFormat };
+  }
+
+  private timeRangeAnalysis() {
+    const ranges = [...this.flows.values()]
+      .filter(flow => !flow.deleted)
+      .map(flow => tryParseTimerange(flow.timerange))
+      .filter((range): range is Timerange => range !== null);
+    const merged = mergeTimeranges(ranges);
+    const duration = merged.reduce((total, range) => total + (timerangeDuration(range) ?? 0n), 0n);
+    return {
+      ...(ranges.length > 0 ? { timerange: formatTimerange(ranges.reduce(extendTimerange)) } : {}),
+      covered_timeranges: merged.map(formatTimerange),
+      total_duration_seconds: Number(duration) / Number(NANOS_PER_SECOND)
+    };
+  }
+
+  // Prometheus text exposition of the store's size and the requests it has answered
+  private metrics(): string {
+    const storage = this.storageUsage();
+    const gauges: Array<[string, number]> = [
+      ['tams_sources_total', [...this.sources.values()].filter(source => !source.deleted).length],
+      ['tams_flows_total', [...this.flows.values()].filter(flow => !flow.deleted).length],
+      ['tams_segments_total', [...this.segments.values()].reduce((total, segments) => total + segments.filter(segment => !segment.deleted).length, 0)],
+      ['tams_objects_total', storage.total_objects],
+      ['tams_storage_bytes_total', storage.total_size_bytes],
+      ['tams_errors_total', this.errorCount],
+      ['active_connections', 0]
+    ];
+    const lines = gauges.flatMap(([name, value]) => [`# TYPE ${name} gauge`, `${name} ${value}`]);
+    for (const entity of ['flow', 'object', 'source']) {
+      lines.push(`# TYPE tams_${entity}_operations_total counter`);
+      for (const [key, count] of this.operationCounts) {
+        const [counted, operation, status] = key.split('|');
+        if (counted === entity) {
+          lines.push(`tams_${entity}_operations_total{operation="${operation}",status="${status}"} ${count}`);
+        }
+      }
+    }
+    lines.push('# TYPE http_requests_total counter');
+    for (const [route, count] of this.requestCounts) {
+      lines.push(`http_requests_total{endpoint="${route}"} ${count}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * The app's mock store
+ */
+export const mockTams = new MockTamsServer();
+
+let uninstall: (() => void) | null = null;
+
+// Further stand-in servers by base URL, e.g. a replayed session (see sessionReplay)
+const mounts = new Map<string, Pick<MockTamsServer, 'handle'>>();
+
+/**
+ * Answer requests to MOCK_TAMS_BASE_URL from the mock; returns a function that restores
+ * the previous `fetch`. Installing again replaces the earlier interceptor.
+ */
+export function installMockTams(server: MockTamsServer = mockTams): () => void {
+  uninstall?.();
+  const networkFetch = globalThis.fetch;
+
+  globalThis.fetch = (...[input, init]: Parameters<typeof fetch>) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const target = url.startsWith(MOCK_TAMS_BASE_URL)
+      ? server
+      : [...mounts].find(([baseUrl]) => url.startsWith(baseUrl))?.[1];
+    if (!target) {
+      return networkFetch(input, init);
+    }
+    // Answer asynchronously, as the network would
+    return Promise.resolve().then(() => target.handle(new Request(input, init)));
+  };
+
+  const restoreFetch = () => {
+    if (uninstall !== restoreFetch) return;
+    globalThis.fetch = networkFetch;
+    uninstall = null;
+  };
+  uninstall = restoreFetch;
+  return restoreFetch;
+}
+
+/**
+ * Install the interceptor for the shared mock unless one is installed already
+ */
+export function ensureMockTams(): void {
+  if (!uninstall) installMockTams();
+}
+
+/**
+ * Answer requests to `baseUrl` from another stand-in server (installing the interceptor if
+ * needed); returns a function that unmounts it
+ */
+export function mountMockTams(baseUrl: string, server: Pick<MockTamsServer, 'handle'>): () => void {
+  ensureMockTams();
+  mounts.set(baseUrl, server);
+  return () => {
+    if (mounts.get(baseUrl) === server) mounts.delete(baseUrl);
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Mock TAMS Fixtures
+ *
+ * Demo content the offline mock backend starts with: a news studio with video, audio and a
+ * multi-essence collection flow, a radio studio, a sports camera whose recording has a gap,
+ * and a photo studio, plus deletion requests in each workflow state and a webhook.
+ */
+
+import type { MockTamsFixtures } from './mockTams';
+import type { FlowSegment, TamsObjectInput } from '../types/tams';
+
+export const MOCK_SOURCE_IDS = {
+  news: '6c1b7a52-3f0e-4d8a-9a61-0b5f2d1e0001',
+  radio: '6c1b7a52-3f0e-4d8a-9a61-0b5f2d1e0002',
+  sports: '6c1b7a52-3f0e-4d8a-9a61-0b5f2d1e0003',
+  photo: '6c1b7a52-3f0e-4d8a-9a61-0b5f2d1e0004'
+};
+
+export const MOCK_FLOW_IDS = {
+  newsVideo: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0101',
+  newsAudio: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0102',
+  newsCollection: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0103',
+  radio: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0201',
+  sports: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0301',
+  photo: '9e4d2c80-71a5-4b3e-8f27-5a0c3b6d0401'
+};
+
+// 2025-01-25T10:00:00Z
+export const MOCK_RECORDING_START = 1737799200;
+const CREATED = '2025-01-25T06:00:00Z';
+
+interface SegmentRun {
+  flowId: string;
+  // Seconds after MOCK_RECORDING_START
+  offset: number;
+  count: number;
+  duration: number;
+  bitRate: number;
+}
+
+/**
+ * Contiguous segments, and the objects they refer to sized from the flow's bit rate
+ */
+function segmentRun({ flowId, offset, count, duration, bitRate }: SegmentRun): {
+  segments: FlowSegment[];
+  objects: TamsObjectInput[];
+} {
+  const segments: FlowSegment[] = [];
+  const objects: TamsObjectInput[] = [];
+  for (let index = 0; index < count; index++) {
+    const start = MOCK_RECORDING_START + offset + index * duration;
+    const objectId = `${flowId.slice(-4)}-${offset + index * duration}`;
+    segments.push({ object_id: objectId, timerange: `[${start}:0_${start + duration}:0)` });
+    objects.push({ id: objectId, size: Math.round(bitRate * 1000 * duration / 8) });
+  }
+  return { segments, objects };
+}
+
+const runs = {
+  newsVideo: segmentRun({ flowId: MOCK_FLOW_IDS.newsVideo, offset: 0, count: 60, duration: 10, bitRate: 8000 }),
+  newsAudio: segmentRun({ flowId: MOCK_FLOW_IDS.newsAudio, offset: 0, count: 60, duration: 10, bitRate: 128 }),
+  radio: segmentRun({ flowId: MOCK_FLOW_IDS.radio, offset: 600, count: 36, duration: 10, bitRate: 320 }),
+  // Two recordings with a five minute gap between them
+  sportsFirstHalf: segmentRun({ flowId: MOCK_FLOW_IDS.sports, offset: 0, count: 45, duration: 10, bitRate: 25000 }),
+  sportsSecondHalf: segmentRun({ flowId: MOCK_FLOW_IDS.sports, offset: 750, count: 45, duration: 10, bitRate: 25000 }),
+  photo: segmentRun({ flowId: MOCK_FLOW_IDS.photo, offset: 0, count: 12, duration: 1, bitRate: 40000 })
+};
+
+export const defaultMockFixtures: MockTamsFixtures = {
+  sources: [
+    {
+      id: MOCK_SOURCE_IDS.news,
+      format: 'urn:x-nmos:format:multi',
+      label: 'BBC News Studio',
+      description: 'Main news studio output',
+      created: CREATED,
+      created_by: 'user_123',
+      tags: { location: 'Studio 1', genre: 'news' }
+    },
+    {
+      id: MOCK_SOURCE_IDS.radio,
+      format: 'urn:x-nmos:format:audio',
+      label: 'Radio Studio A',
+      description: 'Live radio studio microphone mix',
+      created: CREATED,
+      created_by: 'user_789',
+      tags: { location: 'Radio House', genre: 'talk' }
+    },
+    {
+      id: MOCK_SOURCE_IDS.sports,
+      format: 'urn:x-nmos:format:video',
+      label: 'Sports Arena Camera',
+      description: 'Wide camera at the arena',
+      created: CREATED,
+      created_by: 'user_456',
+      tags: { location: 'Arena', genre: 'sport' }
+    },
+    {
+      id: MOCK_SOURCE_IDS.photo,
+      format: 'urn:x-tam:format:image',
+      label: 'Photo Studio',
+      description: 'Stills from the photo studio',
+      created: CREATED,
+      created_by: 'user_123',
+      tags: { location: 'Studio 3' }
+    }
+  ],
+  flows: [
+    {
+      id: MOCK_FLOW_IDS.newsVideo,
+      source_id: MOCK_SOURCE_IDS.news,
+      format: 'urn:x-nmos:format:video',
+      label: 'BBC News Studio - HD video',
+      codec: 'video/h264',
+      container: 'video/mp2t',
+      avg_bit_rate: 8000,
+      max_bit_rate: 10000,
+      segment_duration: { numerator: 10 },
+      created: CREATED,
+      created_by: 'user_123',
+      tags: { quality: 'hd' },
+      collected_by: [MOCK_FLOW_IDS.newsCollection],
+      essence_parameters: {
+        frame_rate: { numerator: 25 },
+        frame_width: 1920,
+        frame_height: 1080,
+        interlace_mode: 'progressive'
+      }
+    },
+    {
+      id: MOCK_FLOW_IDS.newsAudio,
+      source_id: MOCK_SOURCE_IDS.news,
+      format: 'urn:x-nmos:format:audio',
+      label: 'BBC News Studio - stereo audio',
+      codec: 'audio/aac',
+      container: 'video/mp2t',
+      avg_bit_rate: 128,
+      segment_duration: { numerator: 10 },
+      created: CREATED,
+      created_by: 'user_123',
+      collected_by: [MOCK_FLOW_IDS.newsCollection],
+      essence_parameters: { sample_rate: 48000, channels: 2, bit_depth: 16 }
+    },
+    {
+      id: MOCK_FLOW_IDS.newsCollection,
+      source_id: MOCK_SOURCE_IDS.news,
+      format: 'urn:x-nmos:format:multi',
+      label: 'BBC News Studio - programme',
+      created: CREATED,
+      created_by: 'user_123',
+      flow_collection: [
+        { id: MOCK_FLOW_IDS.newsVideo, role: 'video' },
+        { id: MOCK_FLOW_IDS.newsAudio, role: 'audio' }
+      ]
+    },
+    {
+      id: MOCK_FLOW_IDS.radio,
+      source_id: MOCK_SOURCE_IDS.radio,
+      format: 'urn:x-nmos:format:audio',
+      label: 'Radio Studio A - programme mix',
+      codec: 'audio/mpeg',
+      container: 'audio/mpeg',
+      avg_bit_rate: 320,
+      segment_duration: { numerator: 10 },
+      created: CREATED,
+      created_by: 'user_789',
+      essence_parameters: { sample_rate: 48000, channels: 2 }
+    },
+    {
+      id: MOCK_FLOW_IDS.sports,
+      source_id: MOCK_SOURCE_IDS.sports,
+      format: 'urn:x-nmos:format:video',
+      label: 'Sports Arena Camera - UHD',
+      codec: 'video/h265',
+      container: 'video/mp4',
+      avg_bit_rate: 25000,
+      max_bit_rate: 40000,
+      segment_duration: { numerator: 10 },
+      created: CREATED,
+      created_by: 'user_456',
+      tags: { quality: 'uhd' },
+      essence_parameters: {
+        frame_rate: { numerator: 50 },
+        frame_width: 3840,
+        frame_height: 2160,
+        interlace_mode: 'progressive'
+      }
+    },
+    {
+      id: MOCK_FLOW_IDS.photo,
+      source_id: MOCK_SOURCE_IDS.photo,
+      format: 'urn:x-tam:format:image',
+      label: 'Photo Studio Feed',
+      codec: 'image/jpeg',
+      container: 'image/jpeg',
+      created: CREATED,
+      created_by: 'user_123',
+      read_only: true,
+      essence_parameters: { frame_width: 4000, frame_height: 3000 }
+    }
+  ],
+  segments: {
+    [MOCK_FLOW_IDS.newsVideo]: runs.newsVideo.segments,
+    [MOCK_FLOW_IDS.newsAudio]: runs.newsAudio.segments,
+    [MOCK_FLOW_IDS.radio]: runs.radio.segments,
+    [MOCK_FLOW_IDS.sports]: [...runs.sportsFirstHalf.segments, ...runs.sportsSecondHalf.segments],
+    [MOCK_FLOW_IDS.photo]: runs.photo.segments
+  },
+  objects: Object.values(runs).flatMap(run => run.objects),
+  deletionRequests: [
+    {
+      id: 'del_req_001',
+      flow_id: MOCK_FLOW_IDS.newsVideo,
+      flow_name: 'BBC News Studio - HD video',
+      flow_format: 'urn:x-nmos:format:video',
+      reason: 'Content no longer needed - news cycle completed',
+      requested_by: 'user_123',
+      status: 'pending',
+      priority: 'medium',
+      estimated_size: 600000000,
+      segments_count: 60,
+      soft_delete: true,
+      cascade: true,
+      notes: 'Archive after 30 days if approved',
+      created: '2025-01-25T10:00:00Z',
+      updated: '2025-01-25T10:00:00Z'
+    },
+    {
+      id: 'del_req_002',
+      flow_id: MOCK_FLOW_IDS.sports,
+      flow_name: 'Sports Arena Camera - UHD',
+      flow_format: 'urn:x-nmos:format:video',
+      reason: 'Season ended, storage cleanup required',
+      requested_by: 'user_456',
+      status: 'approved',
+      priority: 'high',
+      estimated_size: 2812500000,
+      segments_count: 90,
+      soft_delete: false,
+      cascade: true,
+      approved_by: 'admin_001',
+      approved_at: '2025-01-25T11:00:00Z',
+      notes: 'Hard delete approved - content no longer needed',
+      created: '2025-01-25T09:30:00Z',
+      updated: '2025-01-25T11:00:00Z'
+    },
+    {
+      id: 'del_req_003',
+      flow_id: MOCK_FLOW_IDS.radio,
+      flow_name: 'Radio Studio A - programme mix',
+      flow_format: 'urn:x-nmos:format:audio',
+      reason: 'Technical issues - corrupted segments',
+      requested_by: 'user_789',
+      status: 'rejected',
+      priority: 'urgent',
+      estimated_size: 14400000,
+      segments_count: 36,
+      soft_delete: true,
+      cascade: false,
+      rejected_by: 'admin_001',
+      rejected_at: '2025-01-25T10:30:00Z',
+      rejection_reason: 'Content may be recoverable. Please investigate corruption extent first.',
+      notes: 'Rejected pending investigation',
+      created: '2025-01-25T08:45:00Z',
+      updated: '2025-01-25T10:30:00Z'
+    },
+    {
+      id: 'del_req_004',
+      flow_id: MOCK_FLOW_IDS.photo,
+      flow_name: 'Photo Studio Feed',
+      flow_format: 'urn:x-tam:format:image',
+      reason: 'Storage optimization - low priority content',
+      requested_by: 'user_123',
+      status: 'processing',
+      priority: 'low',
+      estimated_size: 60000000,
+      segments_count: 12,
+      soft_delete: true,
+      cascade: true,
+      approved_by: 'admin_002',
+      approved_at: '2025-01-25T09:00:00Z',
+      notes: 'Processing in background',
+      created: '2025-01-25T07:15:00Z',
+      updated: '2025-01-25T09:00:00Z'
+    }
+  ],
+  webhooks: [
+    {
+      id: 'b7f3e2a1-5c4d-4e6f-8a9b-0c1d2e3f4a5b',
+      url: 'https://hooks.example.com/tams',
+      events: ['flows/created', 'flows/segments_added', 'flows/deleted'],
+      status: 'started'
+    }
+  ]
+};
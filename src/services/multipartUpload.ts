@@ -0,0 +1,511 @@
+/**
+ * Multipart Uploads
+ *
+ * Large media objects are uploaded to S3-compatible storage in parts rather than with a single
+ * PUT, which fails for multi-GB camera files. The browser speaks the store's own multipart API
+ * (UploadPart, ListParts, CompleteMultipartUpload and AbortMultipartUpload) through URLs the
+ * backend presigns. TAMS has no multipart uploads, so this relies on backends extending the
+ * flow storage request (`POST /flows/{flow_id}/storage` unless configured otherwise) for an
+ * object ID they allocated:
+ *
+ *   { object_ids: [object_id], multipart: { part_count, content_type, checksum_algorithm } }
+ *       CreateMultipartUpload for the object, with CRC32C part checksums
+ *   { object_ids: [object_id], multipart: { upload_id, parts?: [{ part_number, checksum_crc32c }] } }
+ *       presign requests of that upload; an UploadPart URL signs the part's checksum header
+ *
+ * Both answer with `media_objects[0].multipart`:
+ *
+ *   { upload_id, part_urls: [{ part_number, url }], list_parts_url, complete_url, abort_url }
+ *
+ * Parts go straight to their presigned URLs, a few at a time, each with its CRC32C in
+ * `x-amz-checksum-crc32c` so the store rejects corrupted bytes; URLs are requested just before
+ * each request, so expiry during a long upload does not matter. The store must expose the
+ * `ETag` header to the browser (CORS ExposeHeaders).
+ *
+ * A checkpoint of every upload is saved to IndexedDB (see ingestStore) after each part, so an
+ * upload interrupted by a failure, a cancel or a reload resumes with the parts not yet in
+ * storage. Backends without the extension reject the request or answer without `multipart`,
+ * which raises MultipartUnsupportedError for the caller to fall back to a single PUT and say so.
+ */
+
+import type { MultipartPart, MultipartProgress, MultipartUpload } from '../types/backend';
+import type { UnifiedApiClient } from './api';
+import { errorFromResponse } from './errors';
+import { fetchAttempt, isAbortError, withRetries, type RequestPolicy } from './http';
+import { ingestStore } from './ingestStore';
+import { crc32cOfBlob, crc32cToBase64 } from '../utils/crc32c';
+
+type UploadListener = (uploads: MultipartUpload[]) => void;
+
+export interface MultipartUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: MultipartProgress) => void;
+  // Parts uploaded at the same time
+  concurrency?: number;
+  partSize?: number;
+  contentType?: string;
+}
+
+// Objects at least this large are uploaded in parts
+export const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+
+const DEFAULT_PART_SIZE = 16 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 8;
+// S3 limits: every part but the last at least 5 MiB, at most 10,000 parts
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+// A part is retried a few times, each time with a fresh URL, and may take a while to send
+const PART_POLICY: RequestPolicy = { retries: 3, timeout: 5 * 60 * 1000 };
+// Answers to the initiating storage request from backends without the multipart extension
+const UNSUPPORTED_STATUSES = [400, 404, 405, 422, 501];
+
+export class MultipartUnsupportedError extends Error {
+  constructor(backend: string) {
+    super(`Backend "${backend}" does not support multipart uploads`);
+    this.name = 'MultipartUnsupportedError';
+  }
+}
+
+/**
+ * Identity of the file an upload reads, to match it when it is chosen again
+ */
+interface FileIdentity {
+  name?: string;
+  size: number;
+  lastModified?: number;
+}
+
+/**
+ * Presigned requests of one multipart upload, as the backend returns them
+ */
+interface PresignedUpload {
+  upload_id?: string;
+  part_urls?: Array<{ part_number?: number; url?: string }>;
+  list_parts_url?: string;
+  complete_url?: string;
+  abort_url?: string;
+}
+
+function uploadKey(backendId: string, flowId: string, objectId: string): string {
+  return `${backendId}/${flowId}/${objectId}`;
+}
+
+/**
+ * Part size for `size` bytes: at least `requested` (and 5 MiB), larger when needed to stay
+ * within the part limit
+ */
+function partSizeFor(size: number, requested: number): number {
+  return Math.max(requested, MIN_PART_SIZE, Math.ceil(size / MAX_PARTS));
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function xmlText(parent: Element, tag: string): string | undefined {
+  return parent.getElementsByTagName(tag)[0]?.textContent ?? undefined;
+}
+
+/**
+ * CompleteMultipartUpload request body listing the uploaded parts
+ */
+function completeBody(parts: MultipartPart[]): string {
+  const items = parts.map(part => '<Part>'
+    + `<PartNumber>${part.partNumber}</PartNumber>`
+    + `<ETag>${escapeXml(part.etag ?? '')}</ETag>`
+    + (part.checksum ? `<ChecksumCRC32C>${part.checksum}</ChecksumCRC32C>` : '')
+    + '</Part>');
+  return `<?xml version="1.0" encoding="UTF-8"?><CompleteMultipartUpload>${items.join('')}</CompleteMultipartUpload>`;
+}
+
+function planParts(size: number, partSize: number): MultipartPart[] {
+  const count = Math.max(1, Math.ceil(size / partSize));
+  return Array.from({ length: count }, (_, index) => ({
+    partNumber: index + 1,
+    byteStart: index * partSize,
+    byteEnd: Math.min(size, (index + 1) * partSize),
+    status: 'pending'
+  }));
+}
+
+class MultipartUploader {
+  private uploads = new Map<string, MultipartUpload>();
+  private saving: Promise<void> = Promise.resolve();
+  private listeners = new Set<UploadListener>();
+  // Resolves once checkpoints from an earlier visit are loaded
+  readonly ready: Promise<void>;
+  // False once a checkpoint could not be saved: the upload cannot resume after a reload
+  persisted = true;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  /**
+   * Unfinished uploads, oldest first
+   */
+  list(): MultipartUpload[] {
+    return [...this.uploads.values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(upload => structuredClone(upload));
+  }
+
+  get(backendId: string, flowId: string, objectId: string): MultipartUpload | null {
+    const upload = this.uploads.get(uploadKey(backendId, flowId, objectId));
+    return upload ? structuredClone(upload) : null;
+  }
+
+  /**
+   * An unfinished upload of `file` into the flow, to resume when the file is chosen again
+   */
+  findForFile(backendId: string, flowId: string, file: FileIdentity): MultipartUpload | null {
+    const upload = [...this.uploads.values()].find(candidate =>
+      candidate.backendId === backendId &&
+      candidate.flowId === flowId &&
+      candidate.fileSize === file.size &&
+      candidate.fileName === (file.name ?? '') &&
+      (candidate.fileLastModified === undefined || candidate.fileLastModified === file.lastModified)
+    );
+    return upload ? structuredClone(upload) : null;
+  }
+
+  /**
+   * Upload `file` as object `objectId` of the flow, resuming a checkpointed upload of the
+   * same object. Throws MultipartUnsupportedError when the backend does not presign
+   * multipart uploads; on any other failure the checkpoint is kept for a later resume.
+   */
+  async upload(
+    client: UnifiedApiClient,
+    flowId: string,
+    objectId: string,
+    file: Blob & Partial<FileIdentity>,
+    options: MultipartUploadOptions = {}
+  ): Promise<void> {
+    await this.ready;
+    const { signal } = options;
+    const backendId = client.getBackend().id;
+    const id = uploadKey(backendId, flowId, objectId);
+
+    let upload = this.uploads.get(id);
+    if (upload && upload.fileSize !== file.size) {
+      // A different file for the same object; the old parts are of no use
+      await this.discard(client, upload);
+      upload = undefined;
+    }
+    if (upload && !(await this.reconcile(client, upload, signal))) {
+      await this.forget(upload.id);
+      upload = undefined;
+    }
+    if (!upload) {
+      upload = await this.initiate(client, flowId, objectId, file, options);
+    }
+
+    await this.uploadParts(client, upload, file, options);
+
+    const { complete_url: url } = await this.presign(client, upload, {}, signal);
+    if (!url) {
+      throw new Error('The backend did not presign completion of the multipart upload');
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: completeBody(upload.parts),
+      ...(signal ? { signal } : {})
+    });
+    if (!response.ok) {
+      throw await errorFromResponse(response, { method: 'POST', endpoint: 'CompleteMultipartUpload' }, 'Could not complete the multipart upload');
+    }
+    // S3 can fail a completion after answering 200, with an error document as the body
+    const result = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    if (result.documentElement.nodeName === 'Error') {
+      throw new Error(`Could not complete the multipart upload: ${xmlText(result.documentElement, 'Message') ?? xmlText(result.documentElement, 'Code') ?? 'unknown error'}`);
+    }
+    await this.forget(upload.id);
+  }
+
+  /**
+   * Abort an upload in the store and drop its checkpoint. An upload that cannot be aborted is
+   * left to the store's lifecycle rule for incomplete multipart uploads.
+   */
+  async discard(client: UnifiedApiClient, upload: MultipartUpload): Promise<void> {
+    try {
+      const { abort_url: url } = await this.presign(client, upload, {}, undefined);
+      if (url) await fetch(url, { method: 'DELETE' });
+    } catch {
+      // As above: the parts stay in the store until its lifecycle rule removes them
+    }
+    await this.forget(upload.id);
+  }
+
+  /**
+   * Subscribe to checkpoint changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: UploadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private storagePath(client: UnifiedApiClient, flowId: string): string {
+    const storage = client.getBackend().endpoints.storage || '/flows/{flow_id}/storage';
+    return storage.replace('{flow_id}', encodeURIComponent(flowId));
+  }
+
+  /**
+   * Send the multipart extension of the storage request for `objectId`; see the header
+   */
+  private async requestMultipart(
+    client: UnifiedApiClient,
+    flowId: string,
+    objectId: string,
+    multipart: Record<string, unknown>,
+    signal: AbortSignal | undefined
+  ): Promise<Response> {
+    return client.fetch(this.storagePath(client, flowId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ object_ids: [objectId], multipart })
+    }, signal ? { signal } : {});
+  }
+
+  private async presignedUpload(response: Response, objectId: string): Promise<PresignedUpload | undefined> {
+    const { media_objects: objects = [] } = await response.json() as {
+      media_objects?: Array<{ object_id?: string; multipart?: PresignedUpload }>;
+    };
+    return (objects.find(object => object.object_id === objectId) ?? objects[0])?.multipart;
+  }
+
+  /**
+   * Presigned requests of an upload, with UploadPart URLs for `parts`
+   */
+  private async presign(
+    client: UnifiedApiClient,
+    upload: MultipartUpload,
+    { parts = [] }: { parts?: MultipartPart[] },
+    signal: AbortSignal | undefined
+  ): Promise<PresignedUpload> {
+    const response = await this.requestMultipart(client, upload.flowId, upload.objectId, {
+      upload_id: upload.uploadId,
+      ...(parts.length > 0
+        ? { parts: parts.map(part => ({ part_number: part.partNumber, checksum_crc32c: part.checksum })) }
+        : {})
+    }, signal);
+    if (!response.ok) {
+      throw await client.error(response, 'Could not presign the multipart upload');
+    }
+    const presigned = await this.presignedUpload(response, upload.objectId);
+    if (!presigned) {
+      throw new Error('The backend did not presign the multipart upload');
+    }
+    return presigned;
+  }
+
+  private async initiate(
+    client: UnifiedApiClient,
+    flowId: string,
+    objectId: string,
+    file: Blob & Partial<FileIdentity>,
+    options: MultipartUploadOptions
+  ): Promise<MultipartUpload> {
+    const partSize = partSizeFor(file.size, options.partSize ?? DEFAULT_PART_SIZE);
+    const parts = planParts(file.size, partSize);
+    const response = await this.requestMultipart(client, flowId, objectId, {
+      part_count: parts.length,
+      content_type: options.contentType || file.type || 'application/octet-stream',
+      checksum_algorithm: 'CRC32C'
+    }, options.signal);
+    if (UNSUPPORTED_STATUSES.includes(response.status)) {
+      response.body?.cancel().catch(() => undefined);
+      throw new MultipartUnsupportedError(client.getBackend().id);
+    }
+    if (!response.ok) {
+      throw await client.error(response, 'Could not start the multipart upload');
+    }
+    // Backends without the extension allocate storage as usual and ignore `multipart`
+    const uploadId = (await this.presignedUpload(response, objectId))?.upload_id;
+    if (!uploadId) {
+      throw new MultipartUnsupportedError(client.getBackend().id);
+    }
+
+    const now = new Date().toISOString();
+    const upload: MultipartUpload = {
+      id: uploadKey(client.getBackend().id, flowId, objectId),
+      backendId: client.getBackend().id,
+      flowId,
+      objectId,
+      uploadId,
+      fileName: file.name ?? '',
+      fileSize: file.size,
+      ...(file.lastModified !== undefined ? { fileLastModified: file.lastModified } : {}),
+      partSize,
+      parts,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.uploads.set(upload.id, upload);
+    await this.save(upload);
+    return upload;
+  }
+
+  /**
+   * Check a checkpoint against the parts the store lists: parts it lacks are uploaded again.
+   * False when the store no longer knows the upload (expired or aborted).
+   */
+  private async reconcile(client: UnifiedApiClient, upload: MultipartUpload, signal: AbortSignal | undefined): Promise<boolean> {
+    const { list_parts_url: url } = await this.presign(client, upload, {}, signal);
+    // Without a ListParts URL the checkpoint is trusted
+    if (!url) return true;
+    const response = await fetch(url, signal ? { signal } : {});
+    // NoSuchUpload
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw await errorFromResponse(response, { method: 'GET', endpoint: 'ListParts' }, 'Could not check the multipart upload');
+    }
+    const listing = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    const stored = new Map<number, string | undefined>();
+    for (const part of Array.from(listing.getElementsByTagName('Part'))) {
+      stored.set(Number(xmlText(part, 'PartNumber')), xmlText(part, 'ETag'));
+    }
+    // One page lists up to 1,000 parts; the checkpoint is trusted for parts past it
+    const listedUpTo = xmlText(listing.documentElement, 'IsTruncated') === 'true'
+      ? Number(xmlText(listing.documentElement, 'NextPartNumberMarker'))
+      : Infinity;
+    for (const part of upload.parts) {
+      if (part.status === 'uploaded' && part.partNumber <= listedUpTo && stored.get(part.partNumber) !== part.etag) {
+        part.status = 'pending';
+        delete part.etag;
+      }
+    }
+    await this.save(upload);
+    return true;
+  }
+
+  private async uploadParts(
+    client: UnifiedApiClient,
+    upload: MultipartUpload,
+    file: Blob,
+    options: MultipartUploadOptions
+  ): Promise<void> {
+    const { signal, onProgress } = options;
+    const concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY), MAX_CONCURRENCY);
+    const queue = upload.parts.filter(part => part.status !== 'uploaded');
+    const inFlight = new Set<number>();
+    let stopped = false;
+
+    const report = () => {
+      if (!onProgress) return;
+      const uploaded = upload.parts.filter(part => part.status === 'uploaded');
+      onProgress({
+        uploadedBytes: uploaded.reduce((bytes, part) => bytes + part.byteEnd - part.byteStart, 0),
+        totalBytes: upload.fileSize,
+        partsUploaded: uploaded.length,
+        partsTotal: upload.parts.length,
+        partsInFlight: [...inFlight].sort((a, b) => a - b)
+      });
+    };
+    report();
+
+    const worker = async () => {
+      for (let part = queue.shift(); part && !stopped; part = queue.shift()) {
+        signal?.throwIfAborted();
+        const current = part;
+        const body = file.slice(current.byteStart, current.byteEnd);
+        inFlight.add(current.partNumber);
+        report();
+        current.checksum ??= crc32cToBase64(await crc32cOfBlob(body, signal));
+        const init: RequestInit = {
+          method: 'PUT',
+          body,
+          headers: { 'x-amz-checksum-crc32c': current.checksum },
+          ...(signal ? { signal } : {})
+        };
+
+        const response = await withRetries(async () => {
+          const url = await this.partUrl(client, upload, current, signal);
+          return fetchAttempt(url, init, PART_POLICY.timeout ?? 0);
+        }, 'PUT', signal, PART_POLICY);
+        if (!response.ok) {
+          throw await errorFromResponse(response, { method: 'PUT', endpoint: `UploadPart ${current.partNumber}` }, `Upload of part ${current.partNumber} failed`);
+        }
+        const etag = response.headers.get('ETag');
+        if (!etag) {
+          throw new Error('The storage did not expose the ETag of the uploaded part; allow the ETag header in its CORS configuration');
+        }
+        const stored = response.headers.get('x-amz-checksum-crc32c');
+        if (stored && stored !== current.checksum) {
+          throw new Error(`Part ${current.partNumber} was corrupted in transit: checksum ${stored}, expected ${current.checksum}`);
+        }
+
+        current.etag = etag;
+        current.status = 'uploaded';
+        inFlight.delete(current.partNumber);
+        await this.save(upload);
+        report();
+      }
+    };
+
+    // The first failure stops the other workers taking further parts
+    const workers = Array.from({ length: Math.min(concurrency, queue.length) }, () => worker().catch(error => {
+      stopped = true;
+      throw error;
+    }));
+    const results = await Promise.allSettled(workers);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      // Prefer reporting the cause over aborts
+      const cause = results.find((result): result is PromiseRejectedResult =>
+        result.status === 'rejected' && !isAbortError(result.reason));
+      throw (cause ?? failure).reason;
+    }
+  }
+
+  private async partUrl(client: UnifiedApiClient, upload: MultipartUpload, part: MultipartPart, signal: AbortSignal | undefined): Promise<string> {
+    const { part_urls: urls = [] } = await this.presign(client, upload, { parts: [part] }, signal);
+    const url = urls.find(candidate => candidate.part_number === part.partNumber)?.url;
+    if (!url) {
+      throw new Error(`The backend did not return an upload URL for part ${part.partNumber}`);
+    }
+    return url;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      for (const upload of await ingestStore.listUploads()) {
+        this.uploads.set(upload.id, upload);
+      }
+      this.notify();
+    } catch {
+      // Unreadable checkpoints are dropped; their files upload afresh
+    }
+  }
+
+  private async save(upload: MultipartUpload): Promise<void> {
+    upload.updatedAt = new Date().toISOString();
+    const snapshot = structuredClone(upload);
+    // Parts finish concurrently; writes are queued so an older snapshot never lands last
+    this.saving = this.saving.then(() => ingestStore.putUpload(snapshot)).catch(() => {
+      this.persisted = false;
+    });
+    await this.saving;
+    this.notify();
+  }
+
+  private async forget(id: string): Promise<void> {
+    this.uploads.delete(id);
+    // A checkpoint left behind is dropped on resume, as the store no longer lists its upload
+    this.saving = this.saving.then(() => ingestStore.deleteUpload(id)).catch(() => undefined);
+    await this.saving;
+    this.notify();
+  }
+
+  private notify(): void {
+    const uploads = this.list();
+    this.listeners.forEach(listener => listener(uploads));
+  }
+}
+
+export const multipartUploads = new MultipartUploader();
@@ -0,0 +1,125 @@
+/**
+ * Cursor Pagination
+ *
+ * Async iteration over TAMS list endpoints. Pages are followed using the `Link: rel="next"`
+ * header, falling back to `X-Paging-NextKey`, so callers can write
+ * `for await (const flow of apiClient.iterateFlows({ limit: 100 }))` instead of driving
+ * cursors by hand. The next page is requested while the current one is being consumed,
+ * and iteration stops at `maxItems`, at the last page, or when `signal` is aborted.
+ */
+
+import type { BBCApiOptions, BBCApiResponse } from './tamsProtocol';
+
+export interface PaginateOptions extends BBCApiOptions {
+  // Stop after yielding this many items (across all pages)
+  maxItems?: number;
+  // Abort iteration; any pending page request is abandoned and the iterator rejects
+  signal?: AbortSignal;
+  // Request the next page while the current one is consumed (default true)
+  prefetch?: boolean;
+}
+
+export type PageFetcher<T> = (options: BBCApiOptions) => Promise<BBCApiResponse<T>>;
+
+/**
+ * Cursor for the page after `response`, or null on the last page
+ */
+export function getNextCursor(response: BBCApiResponse<unknown>): string | null {
+  const nextLink = response.links?.find(link => link.rel === 'next');
+  if (nextLink?.params?.page) {
+    return nextLink.params.page;
+  }
+  return response.pagination?.nextKey || null;
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Pagination aborted', 'AbortError');
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Iterate over pages of a list endpoint
+ */
+export async function* paginatePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<BBCApiResponse<T>, void, undefined> {
+  const { maxItems, signal, prefetch = true, ...requestOptions } = options;
+  const seenCursors = new Set<string>();
+  let remaining = maxItems ?? Infinity;
+  let pending: Promise<BBCApiResponse<T>> | null = fetchPage(requestOptions);
+
+  try {
+    while (pending && remaining > 0) {
+      const response: BBCApiResponse<T> = await raceAbort(pending, signal);
+      pending = null;
+
+      const cursor = getNextCursor(response);
+      const hasMore = response.data.length > 0 && cursor !== null && !seenCursors.has(cursor);
+      const page = response.data.length > remaining ? { ...response, data: response.data.slice(0, remaining) } : response;
+      remaining -= page.data.length;
+
+      if (hasMore && remaining > 0) {
+        seenCursors.add(cursor);
+        const nextOptions = { ...requestOptions, page: cursor };
+        pending = prefetch ? fetchPage(nextOptions) : null;
+        yield page;
+        if (signal?.aborted) throw abortError(signal);
+        pending ??= fetchPage(nextOptions);
+      } else {
+        yield page;
+      }
+    }
+  } finally {
+    // The consumer stopped early: a prefetched page may still reject, which is not an error
+    pending?.catch(() => undefined);
+  }
+}
+
+/**
+ * Iterate over every item of a list endpoint, following cursors across pages
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    for (const item of page.data) {
+      if (options.signal?.aborted) throw abortError(options.signal);
+      yield item;
+    }
+  }
+}
+
+/**
+ * Collect an async iterable into an array
+ */
+export async function collectAll<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
@@ -0,0 +1,614 @@
+/**
+ * Request Pipeline
+ *
+ * The single path every backend API request takes, whichever page, facade method or backend
+ * adapter makes it. A request names the backend it is for and a path below that backend's
+ * base URL; middleware then runs outermost first:
+ *
+ *   logging → validation → recording → caching → retry → rate limit → auth → transport
+ *
+ * - logging records method, path, status and timing per backend (see getRequestLog)
+ * - validation normalises and schema-checks list and entity responses (see responseValidation)
+ * - recording captures full exchanges for bug reports while a session is being recorded
+ *   (see sessionRecording)
+ * - caching revalidates GETs with `If-None-Match` and records ETags for conditional writes
+ * - retry applies the request policy's backoff for transient failures (see http)
+ * - rate limit queues each attempt for the backend's token bucket, background requests last,
+ *   and pauses a backend that answers 429 or 503 with `Retry-After` (see rateLimiter)
+ * - auth attaches the backend's credentials and retries once after a 401 (see credentials)
+ *
+ * Failures surface as typed errors (see errors) carrying the backend, endpoint and the
+ * request id the logging stage assigned, so an error shown to the user can be found in the log.
+ *
+ * Backend adapters (see clients) and the facade (see api) talk to a backend through a
+ * BackendHttpClient bound to its config, so switching the backend switches all traffic.
+ */
+
+import type { BackendApiConfig } from '../config/apiConfig';
+import {
+  DEFAULT_REQUEST_POLICY,
+  fetchAttempt,
+  isAbortError,
+  preconditionHeaders,
+  signalInit,
+  withRetries,
+  type RequestOptions,
+  type RequestPolicy
+} from './http';
+import { credentialManager } from './credentials';
+import { errorFromResponse, NetworkError, retryAfterDelay, TamsApiError } from './errors';
+import { rateLimiter } from './rateLimiter';
+import { recordingMiddleware } from './sessionRecording';
+import { recordEtag } from './concurrency';
+import { validateEntityResponse, validateListResponse, type ResponseKind } from './responseValidation';
+import {
+  buildBBCQueryString,
+  parseBBCHeaders,
+  parseLinkHeader,
+  type BBCApiOptions,
+  type BBCApiResponse,
+  type BBCPaginationMeta
+} from './tamsProtocol';
+
+export interface PipelineRequest {
+  backend: BackendApiConfig;
+  // Path below the backend's base URL, including any query string
+  path: string;
+  // The path as the caller named it, before the backend's endpoint remapping
+  resource: string;
+  init: RequestInit;
+  policy: RequestPolicy;
+  // Shape to normalise a successful GET response to; other responses pass through unchanged
+  expect?: ResponseKind;
+  // Assigned by the logging stage
+  requestId?: string;
+}
+
+export type RequestHandler = (request: PipelineRequest) => Promise<Response>;
+
+export type Middleware = (request: PipelineRequest, next: RequestHandler) => Promise<Response>;
+
+interface Stage {
+  name: string;
+  middleware: Middleware;
+}
+
+export interface RequestLogEntry {
+  id: number;
+  backend: string;
+  method: string;
+  path: string;
+  // Absent when the request failed without a response
+  status?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: Date;
+}
+
+const MAX_LOG_ENTRIES = 200;
+const MAX_CACHED_RESPONSES = 100;
+
+export function requestUrl(request: PipelineRequest): string {
+  return `${request.backend.baseUrl}${request.path}`;
+}
+
+export function requestMethod(request: PipelineRequest): string {
+  return (request.init.method ?? 'GET').toUpperCase();
+}
+
+/**
+ * `request` with `headers` added; headers the caller set take precedence
+ */
+export function withHeaders(request: PipelineRequest, headers: Record<string, string>): PipelineRequest {
+  const merged = new Headers(request.init.headers);
+  for (const [name, value] of Object.entries(headers)) {
+    if (!merged.has(name)) merged.set(name, value);
+  }
+  return { ...request, init: { ...request.init, headers: merged } };
+}
+
+/**
+ * A JSON response carrying `body` with the status and headers of `response`
+ */
+function jsonResponse(body: unknown, response: Response): Response {
+  const headers = new Headers(response.headers);
+  headers.delete('Content-Length');
+  headers.delete('Content-Encoding');
+  return new Response(JSON.stringify(body), { status: response.status, statusText: response.statusText, headers });
+}
+
+export class RequestPipeline {
+  private stages: Stage[] = [];
+  private transport: RequestHandler;
+
+  constructor(transport: RequestHandler) {
+    this.transport = transport;
+  }
+
+  /**
+   * Add middleware, innermost (next to the transport) unless `before` names the stage it
+   * should run ahead of
+   * @returns Function that removes the middleware again
+   */
+  use(name: string, middleware: Middleware, options: { before?: string } = {}): () => void {
+    const stage = { name, middleware };
+    const index = options.before ? this.stages.findIndex(existing => existing.name === options.before) : -1;
+    if (index >= 0) {
+      this.stages.splice(index, 0, stage);
+    } else {
+      this.stages.push(stage);
+    }
+    return () => {
+      this.stages = this.stages.filter(existing => existing !== stage);
+    };
+  }
+
+  /**
+   * Stage names, outermost first
+   */
+  getStages(): string[] {
+    return this.stages.map(stage => stage.name);
+  }
+
+  send(request: PipelineRequest): Promise<Response> {
+    const stages = this.stages;
+    const dispatch = (index: number, current: PipelineRequest): Promise<Response> => {
+      const stage = stages[index];
+      return stage
+        ? stage.middleware(current, next => dispatch(index + 1, next))
+        : this.transport(current);
+    };
+    return dispatch(0, request);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Request log
+// ---------------------------------------------------------------------------
+
+let requestLog: RequestLogEntry[] = [];
+let nextRequestId = 1;
+const logListeners = new Set<() => void>();
+const responseEntries = new WeakMap<Response, Pick<RequestLogEntry, 'id' | 'method' | 'path'>>();
+
+/**
+ * Requests made through the pipeline, most recent first
+ */
+export function getRequestLog(): RequestLogEntry[] {
+  return requestLog;
+}
+
+export function clearRequestLog(): void {
+  requestLog = [];
+  logListeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to request log changes. Returns an unsubscribe function.
+ */
+export function subscribeToRequestLog(listener: () => void): () => void {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+}
+
+/**
+ * Id of the request that produced `response`: the backend's `X-Request-ID` when it sends
+ * one, otherwise the request log id
+ */
+export function requestIdOf(response: Response): string | undefined {
+  const entry = responseEntries.get(response);
+  return response.headers.get('X-Request-ID') ?? (entry ? String(entry.id) : undefined);
+}
+
+function logRequest(entry: RequestLogEntry): void {
+  requestLog = [entry, ...requestLog].slice(0, MAX_LOG_ENTRIES);
+  logListeners.forEach(listener => listener());
+}
+
+// ---------------------------------------------------------------------------
+// Middleware
+// ---------------------------------------------------------------------------
+
+export const loggingMiddleware: Middleware = async (request, next) => {
+  const startedAt = Date.now();
+  const entry = {
+    id: nextRequestId++,
+    backend: request.backend.id,
+    method: requestMethod(request),
+    path: request.path,
+    timestamp: new Date(startedAt)
+  };
+  try {
+    const response = await next({ ...request, requestId: String(entry.id) });
+    logRequest({ ...entry, status: response.status, durationMs: Date.now() - startedAt });
+    responseEntries.set(response, entry);
+    return response;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      logRequest({ ...entry, error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - startedAt });
+    }
+    throw error;
+  }
+};
+
+export const validationMiddleware: Middleware = async (request, next) => {
+  const response = await next(request);
+  const isJson = response.headers.get('Content-Type')?.includes('json') ?? true;
+  const isEmpty = response.status === 204 || response.headers.get('Content-Length') === '0';
+  if (!request.expect || requestMethod(request) !== 'GET' || !response.ok || isEmpty || !isJson) {
+    return response;
+  }
+
+  const body: unknown = await response.json();
+  // Error envelopes sent with a 2xx status are left for the caller to report
+  if (body && typeof body === 'object' && 'error' in body) {
+    return jsonResponse(body, response);
+  }
+  const context = { backend: request.backend.id, endpoint: request.path };
+  if (request.expect === 'list') {
+    const { data, count } = validateListResponse(body, context);
+    return jsonResponse(count !== undefined ? { data, count } : { data }, response);
+  }
+  return jsonResponse(validateEntityResponse(body, context), response);
+};
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+}
+
+const revalidationCache = new Map<string, CachedResponse>();
+
+export const cachingMiddleware: Middleware = async (request, next) => {
+  if (requestMethod(request) !== 'GET') {
+    return next(request);
+  }
+
+  const key = `${request.backend.id} ${request.path}`;
+  const cached = revalidationCache.get(key);
+  const response = await next(cached ? withHeaders(request, { 'If-None-Match': cached.etag }) : request);
+
+  if (response.status === 304 && cached) {
+    recordEtag(request.backend.id, request.resource, cached.etag);
+    return new Response(cached.body, { status: cached.status, statusText: cached.statusText, headers: cached.headers });
+  }
+
+  const etag = response.headers.get('ETag');
+  recordEtag(request.backend.id, request.resource, etag);
+  revalidationCache.delete(key);
+  if (etag && response.ok) {
+    revalidationCache.set(key, {
+      etag,
+      body: await response.clone().text(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers.entries()]
+    });
+    if (revalidationCache.size > MAX_CACHED_RESPONSES) {
+      const oldest = revalidationCache.keys().next().value;
+      if (oldest !== undefined) revalidationCache.delete(oldest);
+    }
+  }
+  return response;
+};
+
+export const retryMiddleware: Middleware = (request, next) =>
+  withRetries(() => next(request), requestMethod(request), request.init.signal ?? undefined, request.policy);
+
+export const rateLimitMiddleware: Middleware = async (request, next) => {
+  const priority = request.init.priority === 'low' ? 'background' : 'interactive';
+  await rateLimiter.acquire(request.backend, priority, request.init.signal ?? undefined);
+  const response = await next(request);
+  if (response.status === 429 || response.status === 503) {
+    const delay = retryAfterDelay(response);
+    if (delay !== null) rateLimiter.pause(request.backend.id, delay);
+  }
+  return response;
+};
+
+export const authMiddleware: Middleware = async (request, next) => {
+  const signal = request.init.signal ?? undefined;
+  if ((request.backend.auth?.type ?? 'none') === 'none') {
+    return next(request);
+  }
+
+  const response = await next(withHeaders(request, await credentialManager.headersFor(request.backend, signal)));
+  if (response.status !== 401 || !(await credentialManager.onUnauthorized(request.backend, signal))) {
+    return response;
+  }
+  // The rejected request never reached its handler, so even non-idempotent requests are safe to resend
+  response.body?.cancel().catch(() => undefined);
+  return next(withHeaders(request, await credentialManager.headersFor(request.backend, signal)));
+};
+
+const fetchTransport: RequestHandler = async request => {
+  try {
+    return await fetchAttempt(requestUrl(request), request.init, request.policy.timeout ?? DEFAULT_REQUEST_POLICY.timeout);
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+    const message = error.timedOut
+      ? error.message
+      : `Network error: Could not connect to ${requestUrl(request)}. Is the ${request.backend.name} backend running?`;
+    throw new NetworkError(message, {
+      backend: request.backend.id,
+      endpoint: request.path,
+      method: requestMethod(request),
+      ...(request.requestId ? { requestId: request.requestId } : {})
+    }, error.timedOut);
+  }
+};
+
+export const requestPipeline = new RequestPipeline(fetchTransport);
+requestPipeline.use('logging', loggingMiddleware);
+requestPipeline.use('validation', validationMiddleware);
+requestPipeline.use('recording', recordingMiddleware);
+requestPipeline.use('caching', cachingMiddleware);
+requestPipeline.use('retry', retryMiddleware);
+requestPipeline.use('rate-limit', rateLimitMiddleware);
+requestPipeline.use('auth', authMiddleware);
+
+// ---------------------------------------------------------------------------
+// Per-backend client
+// ---------------------------------------------------------------------------
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json'
+};
+
+/**
+ * Rewrite the start of `path` by the backend's endpoint remapping; the longest matching
+ * template wins, so `/flows/{flow_id}/segments` is tried before `/flows`
+ */
+function remapPath(path: string, remap: BackendApiConfig['endpointRemap']): string {
+  if (!remap) return path;
+  const templates = Object.keys(remap).sort((a, b) => b.length - a.length);
+  for (const from of templates) {
+    const pattern = new RegExp(`^${escapeRegExp(from).replace(/\\\{flow_id\\\}/g, '([^/?]+)')}(?=$|[/?])`);
+    const match = pattern.exec(path);
+    if (match) {
+      const to = (remap[from] ?? from).replace(/\{flow_id\}/g, () => match[1] ?? '');
+      return `${to}${path.slice(match[0].length)}`;
+    }
+  }
+  return path;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * HTTP access to one backend through the request pipeline. Paths are relative to the
+ * backend's base URL.
+ */
+export class BackendHttpClient {
+  readonly backend: BackendApiConfig;
+  private policy: RequestPolicy;
+  private pipeline: RequestPipeline;
+
+  constructor(backend: BackendApiConfig, policy: RequestPolicy = {}, pipeline: RequestPipeline = requestPipeline) {
+    this.backend = backend;
+    this.policy = policy;
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Absolute URL of `path` on this backend, e.g. for media elements
+   */
+  url(path: string): string {
+    return `${this.backend.baseUrl}${remapPath(path, this.backend.endpointRemap)}`;
+  }
+
+  /**
+   * Send a request and return the raw response (non-2xx responses included)
+   */
+  fetch(path: string, init: RequestInit = {}, policy: RequestPolicy = {}, expect?: ResponseKind): Promise<Response> {
+    return this.pipeline.send({
+      backend: this.backend,
+      path: remapPath(path, this.backend.endpointRemap),
+      resource: path,
+      init,
+      policy: { ...this.policy, ...policy },
+      ...(expect ? { expect } : {})
+    });
+  }
+
+  /**
+   * The typed error for a failed response from this backend (see errors); the body is consumed
+   * @param prefix Start of the message, `TAMS API error` by default
+   */
+  error(response: Response, prefix?: string): Promise<TamsApiError> {
+    const entry = responseEntries.get(response);
+    const { baseUrl } = this.backend;
+    const endpoint = entry?.path ?? (response.url.startsWith(baseUrl) ? response.url.slice(baseUrl.length) : undefined);
+    const requestId = requestIdOf(response);
+    return errorFromResponse(response, {
+      backend: this.backend.id,
+      ...(endpoint ? { endpoint } : {}),
+      ...(entry ? { method: entry.method } : {}),
+      ...(requestId ? { requestId } : {})
+    }, prefix);
+  }
+
+  /**
+   * GET a BBC TAMS list endpoint with paging, normalised to the list envelope
+   */
+  async list<T>(endpoint: string, options: BBCApiOptions = {}, policy: RequestPolicy = {}): Promise<BBCApiResponse<T>> {
+    const path = `${endpoint}${buildBBCQueryString(options)}`;
+
+    try {
+      const response = await this.fetch(path, { method: 'GET', headers: JSON_HEADERS, ...signalInit(options) }, policy, 'list');
+
+      // Check response status first
+      if (!response.ok) {
+        throw await this.error(response);
+      }
+
+      const responseData = await response.json();
+
+      // Check if response contains an error (even if status is 200)
+      if (responseData.error) {
+        // Handle both string and object error formats
+        let errorMessage = 'Unknown error';
+        if (typeof responseData.error === 'string') {
+          // Error is a string (e.g., "ValidationError")
+          errorMessage = responseData.message || responseData.error;
+        } else if (responseData.error.message) {
+          // Error is an object with message property
+          errorMessage = responseData.error.message;
+        } else if (responseData.error.code) {
+          // Error is an object with code property
+          errorMessage = responseData.error.code;
+        } else if (responseData.message) {
+          // Fallback to top-level message
+          errorMessage = responseData.message;
+        }
+        const requestId = requestIdOf(response);
+        throw new TamsApiError(`TAMS API error: ${errorMessage}`, {
+          backend: this.backend.id,
+          endpoint: path,
+          status: response.status,
+          ...(requestId ? { requestId } : {})
+        });
+      }
+
+      // The validation stage already unwrapped the envelope into { data, count }
+      const data = responseData.data as T[];
+      const pagination = parseBBCHeaders(response.headers);
+      const links = parseLinkHeader(response.headers.get('Link') || '');
+
+      // Merge pagination info from headers and response
+      const mergedPagination: BBCPaginationMeta = {
+        ...pagination,
+        count: responseData.count || pagination.count || data.length
+      };
+
+      return {
+        data,
+        pagination: mergedPagination,
+        links
+      };
+    } catch (error) {
+      // Cancellation is not a failure; let callers recognise it with isAbortError
+      if (isAbortError(error)) {
+        throw error;
+      }
+      // Typed errors from the response or the transport already carry their context
+      if (error instanceof TamsApiError) {
+        throw error;
+      }
+      // Handle network errors from transports other than fetch
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new NetworkError(`Network error: Could not connect to ${this.url(path)}. Is the ${this.backend.name} backend running?`, {
+          backend: this.backend.id,
+          endpoint: path
+        });
+      }
+      // Handle JSON parse errors
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid JSON response from API: ${error.message}`);
+      }
+      // Re-throw other errors with more context
+      const errorMsg = (error instanceof Error ? error.message : String(error)) || 'Unknown error';
+      throw new Error(`TAMS API error: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * BBC TAMS compliant POST request
+   */
+  async post<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
+    const response = await this.fetch(`${endpoint}${buildBBCQueryString(options)}`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify(body),
+      ...signalInit(options)
+    });
+
+    if (!response.ok) {
+      throw await this.error(response);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * BBC TAMS compliant PUT request; sends `If-Match` when `options.ifMatch` is set
+   */
+  async put<T>(endpoint: string, body: unknown, options: BBCApiOptions = {}): Promise<T> {
+    const response = await this.fetch(`${endpoint}${buildBBCQueryString(options)}`, {
+      method: 'PUT',
+      headers: { ...JSON_HEADERS, ...preconditionHeaders(options) },
+      body: JSON.stringify(body),
+      ...signalInit(options)
+    });
+
+    if (!response.ok) {
+      throw await this.error(response);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * BBC TAMS compliant DELETE request; sends `If-Match` when `options.ifMatch` is set
+   */
+  async delete(endpoint: string, options: BBCApiOptions = {}): Promise<void> {
+    const response = await this.fetch(`${endpoint}${buildBBCQueryString(options)}`, {
+      method: 'DELETE',
+      headers: { ...JSON_HEADERS, ...preconditionHeaders(options) },
+      ...signalInit(options)
+    });
+
+    if (!response.ok) {
+      throw await this.error(response);
+    }
+  }
+
+  /**
+   * BBC TAMS compliant HEAD request for paging metadata
+   */
+  async head(endpoint: string, options: BBCApiOptions = {}): Promise<BBCPaginationMeta> {
+    const response = await this.fetch(`${endpoint}${buildBBCQueryString(options)}`, {
+      method: 'HEAD',
+      headers: JSON_HEADERS,
+      ...signalInit(options)
+    });
+
+    if (!response.ok) {
+      throw await this.error(response);
+    }
+
+    return parseBBCHeaders(response.headers);
+  }
+
+  /**
+   * JSON request returning the parsed body; GET responses are validated as a single entity
+   */
+  async request<T>(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    // Headers given by the caller replace the JSON default, e.g. `{}` for FormData bodies
+    const response = await this.fetch(path, {
+      ...init,
+      headers: init.headers ?? { 'Content-Type': 'application/json' },
+      ...signalInit(options),
+    }, {}, method === 'GET' ? 'entity' : undefined);
+
+    if (!response.ok) {
+      throw await this.error(response, 'API request failed');
+    }
+
+    // Handle empty responses
+    if (response.status === 204 || response.headers.get('content-length') === '0') {
+      return {} as T;
+    }
+
+    return response.json();
+  }
+}
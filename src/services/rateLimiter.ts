@@ -0,0 +1,221 @@
+/**
+ * Client-side Rate Limiting
+ *
+ * A token bucket per backend, used by the request pipeline's rate-limit stage. Backends with
+ * `rateLimiting.enabled` get `requestsPerMinute` tokens a minute, and up to ten seconds'
+ * worth can be spent in a burst; requests beyond that wait in a queue. Interactive requests
+ * are served before background ones (polling, cache revalidation), first come first served
+ * within each priority.
+ *
+ * Independently of the configured limit, a `Retry-After` on a 429 or 503 response pauses
+ * every request to that backend until the time it names.
+ */
+
+import type { BackendApiConfig } from '../config/apiConfig';
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface ThrottleState {
+  backend: string;
+  // Requests waiting for a token, by priority
+  interactive: number;
+  background: number;
+  // Set while a Retry-After from the backend is in force
+  pausedUntil: Date | null;
+  // Configured limit; null when only a Retry-After is holding requests back
+  requestsPerMinute: number | null;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Bucket {
+  // Per millisecond; Infinity when the backend has no configured limit
+  refillRate: number;
+  capacity: number;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+type ThrottleListener = () => void;
+
+// Burst allowance, as the tokens refilled in this time
+const BURST_MS = 10 * 1000;
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Request aborted', 'AbortError');
+}
+
+class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private listeners = new Set<ThrottleListener>();
+
+  /**
+   * Wait for a request slot on `backend`
+   * @param signal Aborting it removes the request from the queue and rejects with an AbortError
+   */
+  acquire(backend: BackendApiConfig, priority: RequestPriority = 'interactive', signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    const bucket = this.bucketFor(backend);
+    this.refill(bucket);
+    const ahead = bucket.queue.some(waiter => priority === 'background' || waiter.priority === 'interactive');
+    if (!ahead && Date.now() >= bucket.pausedUntil && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        // In place: a bucket replaced after a limit change shares its queue
+        const position = bucket.queue.indexOf(waiter);
+        if (position >= 0) bucket.queue.splice(position, 1);
+        reject(abortReason(signal as AbortSignal));
+        this.notify();
+      };
+      const waiter: Waiter = {
+        priority,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Interactive requests go ahead of every queued background request
+      const index = priority === 'interactive'
+        ? bucket.queue.findIndex(queued => queued.priority === 'background')
+        : -1;
+      bucket.queue.splice(index >= 0 ? index : bucket.queue.length, 0, waiter);
+      this.schedule(backend.id, bucket);
+      this.notify();
+    });
+  }
+
+  /**
+   * Hold back requests to `backendId` for `delayMs`, e.g. from a `Retry-After` header
+   */
+  pause(backendId: string, delayMs: number): void {
+    const bucket = this.buckets.get(backendId) ?? this.createBucket(null);
+    this.buckets.set(backendId, bucket);
+    const until = Date.now() + delayMs;
+    if (until <= bucket.pausedUntil) return;
+    bucket.pausedUntil = until;
+    this.schedule(backendId, bucket);
+    this.notify();
+  }
+
+  /**
+   * Backends currently holding requests back
+   */
+  getState(): ThrottleState[] {
+    const now = Date.now();
+    return [...this.buckets.entries()]
+      .filter(([, bucket]) => bucket.queue.length > 0 || bucket.pausedUntil > now)
+      .map(([backend, bucket]) => ({
+        backend,
+        interactive: bucket.queue.filter(waiter => waiter.priority === 'interactive').length,
+        background: bucket.queue.filter(waiter => waiter.priority === 'background').length,
+        pausedUntil: bucket.pausedUntil > now ? new Date(bucket.pausedUntil) : null,
+        requestsPerMinute: Number.isFinite(bucket.refillRate) ? Math.round(bucket.refillRate * 60000) : null
+      }));
+  }
+
+  /**
+   * Subscribe to queue and pause changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ThrottleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private createBucket(requestsPerMinute: number | null): Bucket {
+    const refillRate = requestsPerMinute !== null ? requestsPerMinute / 60000 : Infinity;
+    const capacity = Number.isFinite(refillRate) ? Math.max(1, Math.floor(refillRate * BURST_MS)) : Infinity;
+    return {
+      refillRate,
+      capacity,
+      tokens: capacity,
+      refilledAt: Date.now(),
+      pausedUntil: 0,
+      queue: [],
+      timer: undefined
+    };
+  }
+
+  /**
+   * The bucket for `backend`, following changes to its configured limit
+   */
+  private bucketFor(backend: BackendApiConfig): Bucket {
+    const limit = backend.rateLimiting?.enabled && backend.rateLimiting.requestsPerMinute > 0
+      ? backend.rateLimiting.requestsPerMinute
+      : null;
+    const existing = this.buckets.get(backend.id);
+    const refillRate = limit !== null ? limit / 60000 : Infinity;
+    if (existing && existing.refillRate === refillRate) {
+      return existing;
+    }
+
+    const bucket = this.createBucket(limit);
+    if (existing) {
+      bucket.tokens = Math.min(existing.tokens, bucket.capacity);
+      bucket.pausedUntil = existing.pausedUntil;
+      bucket.queue = existing.queue;
+      clearTimeout(existing.timer);
+    }
+    this.buckets.set(backend.id, bucket);
+    if (bucket.queue.length > 0) this.schedule(backend.id, bucket);
+    return bucket;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    if (Number.isFinite(bucket.refillRate)) {
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.refilledAt) * bucket.refillRate);
+    }
+    bucket.refilledAt = now;
+  }
+
+  /**
+   * Release queued requests that can go now, and set a timer for the rest
+   */
+  private drain(backendId: string, bucket: Bucket): void {
+    bucket.timer = undefined;
+    this.refill(bucket);
+    while (bucket.queue.length > 0 && Date.now() >= bucket.pausedUntil && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.queue.shift()?.resolve();
+    }
+    this.schedule(backendId, bucket);
+    this.notify();
+  }
+
+  /**
+   * Wake when the next queued request can go, or when a pause ends so listeners see it lifted
+   */
+  private schedule(backendId: string, bucket: Bucket): void {
+    if (bucket.timer !== undefined || this.buckets.get(backendId) !== bucket) return;
+    const untilResumed = bucket.pausedUntil - Date.now();
+    if (bucket.queue.length === 0 && untilResumed <= 0) return;
+    const untilToken = bucket.queue.length === 0 || bucket.tokens >= 1
+      ? 0
+      : Math.ceil((1 - bucket.tokens) / bucket.refillRate);
+    bucket.timer = setTimeout(() => this.drain(backendId, bucket), Math.max(untilResumed, untilToken, 0));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const rateLimiter = new RateLimiter();
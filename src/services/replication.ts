@@ -0,0 +1,457 @@
+/**
+ * Flow Replication
+ *
+ * Copies a source, its flows and the segments within a timerange from one backend to
+ * another. A job is planned first: the plan lists every write the target needs, skipping
+ * the source, flows and segment timeranges the target already holds, and can be inspected
+ * as a dry run before anything is written.
+ *
+ * Running a job performs the pending steps in order and persists the job after each one,
+ * so a run that fails or is cancelled resumes from the step it stopped at. When both
+ * stores report a common storage backend, segments reference the source's object IDs;
+ * otherwise each segment is downloaded from its get_urls and uploaded through the target's
+ * presigned storage URLs.
+ */
+
+import { getBackendConfig, type BackendApiConfig } from '../config/apiConfig';
+import type {
+  ReplicationJob,
+  ReplicationRequest,
+  ReplicationStep
+} from '../types/backend';
+import type { FlowSegment, FlowStorage, GetUrl, TamsTags } from '../types/tams';
+import type { UnifiedApiClient } from './api';
+import { capabilityRegistry } from './capabilities';
+import { clientFor } from './federation';
+import { isAbortError } from './http';
+import { collectAll } from './pagination';
+import {
+  mergeTimeranges,
+  subtractTimerange,
+  tryParseTimerange,
+  type Timerange
+} from '../utils/timerange';
+
+type JobListener = (jobs: ReplicationJob[]) => void;
+
+interface Stores {
+  from: UnifiedApiClient;
+  to: UnifiedApiClient;
+}
+
+/**
+ * localStorage key for replication jobs
+ */
+const REPLICATION_JOBS_KEY = 'replicationJobs';
+
+// Finished jobs kept for the operation monitor
+const MAX_FINISHED_JOBS = 20;
+
+// Server-managed fields that are not part of a create request
+const SERVER_FIELDS = [
+  'created',
+  'created_by',
+  'updated',
+  'updated_by',
+  'metadata_updated',
+  'segments_updated',
+  'metadata_version',
+  'collected_by',
+  'timerange',
+  'flows',
+  '_id'
+];
+
+function loadJobs(): ReplicationJob[] {
+  try {
+    const stored = localStorage.getItem(REPLICATION_JOBS_KEY);
+    return stored ? JSON.parse(stored) as ReplicationJob[] : [];
+  } catch {
+    // Unreadable jobs are dropped; the replications themselves can be planned again
+    return [];
+  }
+}
+
+function resolveBackend(id: string): BackendApiConfig {
+  const backend = getBackendConfig(id);
+  if (!backend) {
+    throw new Error(`Backend "${id}" is no longer configured`);
+  }
+  return backend;
+}
+
+function createBody<T extends object>(entity: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(entity).filter(([field]) => !SERVER_FIELDS.includes(field))
+  ) as Partial<T>;
+}
+
+function segmentBody(segment: FlowSegment, objectId: string): FlowSegment {
+  const body: FlowSegment = { ...segment, object_id: objectId };
+  delete body.get_urls;
+  return body;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The entity, or null when the backend does not have it
+ */
+async function findEntity<T>(read: () => Promise<T>): Promise<T | null> {
+  try {
+    return await read() ?? null;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return null;
+  }
+}
+
+async function segmentCoverage(client: UnifiedApiClient, flowId: string, signal?: AbortSignal): Promise<Timerange[]> {
+  const segments = await collectAll<FlowSegment>(client.iterateFlowSegments(flowId, signal ? { signal } : {}));
+  return mergeTimeranges(
+    segments
+      .map(segment => tryParseTimerange(segment.timerange))
+      .filter((range): range is Timerange => range !== null)
+  );
+}
+
+function isCovered(timerange: string, coverage: Timerange[]): boolean {
+  const range = tryParseTimerange(timerange);
+  if (!range) return false;
+  const remaining = coverage.reduce<Timerange[]>(
+    (pieces, covered) => pieces.flatMap(piece => subtractTimerange(piece, covered)),
+    [range]
+  );
+  return remaining.length === 0;
+}
+
+// Presigned URLs are preferred: they need no credentials for the source store
+function downloadUrl(urls: GetUrl[] = []): string | undefined {
+  return (urls.find(url => url.presigned) ?? urls[0])?.url;
+}
+
+class ReplicationManager {
+  private jobs: ReplicationJob[] = loadJobs();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<JobListener>();
+  // False once storage refused the jobs: they then only last for this session
+  persisted = true;
+
+  constructor() {
+    // A job still marked as running was interrupted by a reload; it can be resumed
+    for (const job of this.jobs) {
+      if (job.status === 'running') {
+        job.status = 'failed';
+        job.error = 'Interrupted';
+      }
+    }
+  }
+
+  /**
+   * Planned, running and recent jobs, newest first
+   */
+  list(): ReplicationJob[] {
+    return this.sorted().map(job => structuredClone(job));
+  }
+
+  get(id: string): ReplicationJob | null {
+    const job = this.find(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  isRunning(id: string): boolean {
+    return this.controllers.has(id);
+  }
+
+  /**
+   * Work out what the target is missing without writing anything (a dry run)
+   */
+  async plan(request: ReplicationRequest, { signal }: { signal?: AbortSignal } = {}): Promise<ReplicationJob> {
+    if (request.fromBackendId === request.toBackendId) {
+      throw new Error('Choose two different backends');
+    }
+    const fromBackend = resolveBackend(request.fromBackendId);
+    const toBackend = resolveBackend(request.toBackendId);
+    const { from, to } = this.stores(fromBackend, toBackend);
+    const options = signal ? { signal } : {};
+
+    const source = await from.getSource(request.sourceId, options);
+    if (!source) {
+      throw new Error(`Source ${request.sourceId} was not found in ${fromBackend.name}`);
+    }
+    const flows = (await collectAll(from.iterateFlows({ ...options, custom: { source_id: request.sourceId } })))
+      .filter(flow => flow.source_id === request.sourceId);
+    const flowIds = new Set(flows.map(flow => flow.id as string));
+
+    const [fromCapabilities, toCapabilities] = await Promise.all([
+      capabilityRegistry.discover(fromBackend),
+      capabilityRegistry.discover(toBackend)
+    ]);
+    const sharedStorage = fromCapabilities.storageBackends
+      .some(name => toCapabilities.storageBackends.includes(name));
+
+    const steps: ReplicationStep[] = [];
+    const present = (step: ReplicationStep, exists: boolean): ReplicationStep =>
+      exists ? { ...step, status: 'skipped', note: 'Already in the target' } : step;
+
+    const targetSource = await findEntity(() => to.getSource(request.sourceId, { ...options, fresh: true }));
+    steps.push(present(
+      { kind: 'source', id: request.sourceId, ...(source.label ? { label: source.label } : {}), status: 'pending' },
+      targetSource !== null
+    ));
+
+    const targetFlows = new Map<string, { collected_by?: string[] } | null>();
+    for (const flow of flows) {
+      const targetFlow = await findEntity(() => to.getFlow(flow.id, { ...options, fresh: true }));
+      targetFlows.set(flow.id, targetFlow);
+      steps.push(present(
+        { kind: 'flow', id: flow.id, ...(flow.label ? { label: flow.label } : {}), status: 'pending' },
+        targetFlow !== null
+      ));
+    }
+
+    // Memberships go after every flow exists, as the collection may be one of them
+    for (const flow of flows) {
+      for (const collectionId of (flow.collected_by ?? []) as string[]) {
+        const step: ReplicationStep = { kind: 'collection', id: flow.id, collectionId, status: 'pending' };
+        if (targetFlows.get(flow.id)?.collected_by?.includes(collectionId)) {
+          steps.push(present(step, true));
+        } else if (!flowIds.has(collectionId) && !await findEntity(() => to.getFlow(collectionId, options))) {
+          steps.push({ ...step, status: 'skipped', note: 'The collection flow is not in the target' });
+        } else {
+          steps.push(step);
+        }
+      }
+    }
+
+    for (const flow of flows) {
+      const segments = await collectAll<FlowSegment>(from.iterateFlowSegments(flow.id, {
+        ...options,
+        ...(request.timerange ? { timerange: request.timerange } : {})
+      }));
+      const coverage = targetFlows.get(flow.id) ? await segmentCoverage(to, flow.id, signal) : [];
+      for (const segment of segments) {
+        steps.push(present({
+          kind: 'segment',
+          id: flow.id,
+          timerange: segment.timerange,
+          objectId: segment.object_id,
+          transfer: sharedStorage ? 'reference' : 'copy',
+          status: 'pending'
+        }, isCovered(segment.timerange, coverage)));
+      }
+    }
+
+    const now = new Date().toISOString();
+    const job: ReplicationJob = {
+      ...request,
+      id: crypto.randomUUID(),
+      ...(source.label ? { sourceLabel: source.label } : {}),
+      sharedStorage,
+      status: 'planned',
+      steps,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.push(job);
+    this.save(job);
+    return structuredClone(job);
+  }
+
+  /**
+   * Perform a job's pending and failed steps; running a failed or cancelled job resumes it
+   */
+  async run(id: string): Promise<ReplicationJob> {
+    const job = this.find(id);
+    if (!job) {
+      throw new Error(`Replication job ${id} not found`);
+    }
+    if (this.isRunning(id)) {
+      throw new Error('The job is already running');
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    job.status = 'running';
+    job.attempts += 1;
+    delete job.error;
+    this.save(job);
+
+    let current: ReplicationStep | undefined;
+    try {
+      const stores = this.stores(resolveBackend(job.fromBackendId), resolveBackend(job.toBackendId));
+      for (const step of job.steps) {
+        if (step.status === 'done' || step.status === 'skipped') continue;
+        current = step;
+        controller.signal.throwIfAborted();
+        await this.perform(step, stores, controller.signal);
+        step.status = 'done';
+        delete step.note;
+        this.save(job);
+      }
+      job.status = 'completed';
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = current ? `${current.kind} ${current.id}: ${errorMessage(error)}` : errorMessage(error);
+        if (current) {
+          current.status = 'failed';
+          current.note = errorMessage(error);
+        }
+      }
+    } finally {
+      this.controllers.delete(id);
+      this.save(job);
+    }
+    return structuredClone(job);
+  }
+
+  /**
+   * Plan a job and run it unless `dryRun` is set
+   */
+  async replicate(request: ReplicationRequest, { dryRun = false } = {}): Promise<ReplicationJob> {
+    const job = await this.plan(request);
+    return dryRun ? job : this.run(job.id);
+  }
+
+  /**
+   * Stop a running job after its current step; it can be resumed with `run`
+   */
+  cancel(id: string): void {
+    this.controllers.get(id)?.abort();
+  }
+
+  remove(id: string): void {
+    this.cancel(id);
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.save();
+  }
+
+  /**
+   * Subscribe to job changes, including progress
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(id: string): ReplicationJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  private sorted(): ReplicationJob[] {
+    return [...this.jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private stores(fromBackend: BackendApiConfig, toBackend: BackendApiConfig): Stores {
+    return { from: clientFor(fromBackend), to: clientFor(toBackend) };
+  }
+
+  private async perform(step: ReplicationStep, { from, to }: Stores, signal: AbortSignal): Promise<void> {
+    const options = { signal };
+    switch (step.kind) {
+      case 'source': {
+        const source = await from.getSource(step.id, options);
+        await to.createSource(step.id, createBody(source), options);
+        return;
+      }
+      case 'flow': {
+        const flow = await from.getFlow(step.id, options);
+        await to.createFlow(step.id, createBody(flow), options);
+        // Some backends ignore tags in the flow body
+        for (const [name, value] of Object.entries((flow.tags ?? {}) as TamsTags)) {
+          if (typeof value === 'string') {
+            await to.setFlowTag(step.id, name, value, options);
+          }
+        }
+        return;
+      }
+      case 'collection':
+        await to.setFlowCollection(step.id, step.collectionId!, options);
+        return;
+      case 'segment':
+        await this.replicateSegment(step, from, to, signal);
+        return;
+    }
+  }
+
+  private async replicateSegment(
+    step: ReplicationStep,
+    from: UnifiedApiClient,
+    to: UnifiedApiClient,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Read the segment again: get_urls from the plan may have expired
+    const segments = await collectAll<FlowSegment>(from.iterateFlowSegments(step.id, { timerange: step.timerange!, signal }));
+    const segment = segments.find(candidate => candidate.timerange === step.timerange);
+    if (!segment) {
+      throw new Error(`No segment with timerange ${step.timerange} in the source store`);
+    }
+
+    if (step.transfer === 'reference') {
+      await to.createFlowSegment(step.id, segmentBody(segment, segment.object_id), undefined, { signal });
+      return;
+    }
+
+    const url = downloadUrl(segment.get_urls);
+    if (!url) {
+      throw new Error('The segment has no download URL');
+    }
+    const download = await fetch(url, { signal });
+    if (!download.ok) {
+      throw new Error(`Download failed: ${download.status} ${download.statusText}`.trim());
+    }
+    const media = await download.blob();
+
+    const allocation = await to.getStorage(step.id, { signal }) as FlowStorage | null;
+    const object = allocation?.media_objects?.[0];
+    if (!object?.object_id || !object.put_url?.url) {
+      throw new Error('The target store did not allocate storage for the segment');
+    }
+    const upload = await fetch(object.put_url.url, {
+      method: 'PUT',
+      body: media,
+      headers: { 'Content-Type': object.put_url['content-type'] || media.type || 'application/octet-stream' },
+      signal
+    });
+    if (!upload.ok) {
+      throw new Error(`Upload failed: ${upload.status} ${upload.statusText}`.trim());
+    }
+    await to.createFlowSegment(step.id, segmentBody(segment, object.object_id), undefined, { signal });
+  }
+
+  private save(changed?: ReplicationJob): void {
+    if (changed) changed.updatedAt = new Date().toISOString();
+    // Keep every unfinished job and the most recent finished ones
+    const finished = this.sorted().filter(job => job.status === 'completed').slice(MAX_FINISHED_JOBS);
+    this.jobs = this.jobs.filter(job => !finished.includes(job));
+
+    try {
+      localStorage.setItem(REPLICATION_JOBS_KEY, JSON.stringify(this.jobs));
+      this.persisted = true;
+    } catch {
+      this.persisted = false;
+    }
+    const jobs = this.list();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const replicationManager = new ReplicationManager();
+
+/**
+ * Share of a job's steps that no longer need doing, 0-100
+ */
+export function replicationProgress(job: ReplicationJob): number {
+  if (job.steps.length === 0) return 100;
+  const settled = job.steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+  return Math.round((settled / job.steps.length) * 100);
+}
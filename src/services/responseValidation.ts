@@ -0,0 +1,360 @@
+/**
+ * Response Validation
+ *
+ * Validation stage for raw backend responses. Each GET response is matched to a
+ * validator for its endpoint, which normalises the known response variants (bare arrays,
+ * `{ data }` envelopes, `{ sources, count }` style envelopes, Mongo `_id` keys) and checks
+ * the entities against the TAMS schema decoders. Mismatches are collected in a drift log
+ * keyed by backend, endpoint and path, so a backend that breaks the contract shows up in
+ * the API debugger instead of as an empty page.
+ */
+
+import {
+  decodeTams,
+  describeValue,
+  onSchemaDrift,
+  reportSchemaDrift,
+  type SchemaDriftReport,
+  type SchemaIssue
+} from './tamsDecoders';
+import type { TamsEntityName } from '../types/tams';
+
+export interface ResponseValidationContext {
+  backend: string;
+  endpoint: string;
+}
+
+export type ResponseKind = 'list' | 'entity';
+
+export interface ValidatedResponse {
+  data: unknown;
+  count?: number;
+  // Response shape that was recognised, e.g. "array", "data", "flows", "single", "unknown"
+  variant: string;
+}
+
+export interface ResponseValidator {
+  readonly name: string;
+  readonly kind: ResponseKind;
+  matches(path: string): boolean;
+  validate(body: unknown, context: ResponseValidationContext): ValidatedResponse;
+}
+
+// ---------------------------------------------------------------------------
+// Known response variants
+// ---------------------------------------------------------------------------
+
+// Collection keys used by non-TAMS list envelopes, e.g. { sources: [...], count: 3 }
+const COLLECTION_KEYS = ['sources', 'flows', 'segments', 'objects', 'webhooks', 'items'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Rename a Mongo-style `_id` to `id` when a backend omits the TAMS key
+ */
+function normaliseIdentifier(item: unknown): unknown {
+  if (isRecord(item) && item.id === undefined && typeof item._id === 'string') {
+    const { _id, ...rest } = item;
+    return { ...rest, id: _id };
+  }
+  return item;
+}
+
+/**
+ * Unwrap the list envelopes seen across backends. Unrecognised objects are treated as a
+ * single item, matching the previous behaviour, but reported as variant "unknown".
+ */
+export function normaliseListEnvelope(body: unknown): ValidatedResponse {
+  if (Array.isArray(body)) {
+    return { data: body.map(normaliseIdentifier), count: body.length, variant: 'array' };
+  }
+  if (!isRecord(body)) {
+    return { data: [], variant: 'unknown' };
+  }
+  if (body.data !== undefined) {
+    const items = Array.isArray(body.data) ? body.data : [body.data];
+    const pagination = isRecord(body.pagination) ? body.pagination : {};
+    return {
+      data: items.map(normaliseIdentifier),
+      ...(typeof pagination.count === 'number' ? { count: pagination.count } : {}),
+      variant: 'data'
+    };
+  }
+  for (const key of COLLECTION_KEYS) {
+    const items = body[key];
+    if (Array.isArray(items)) {
+      return {
+        data: items.map(normaliseIdentifier),
+        ...(typeof body.count === 'number' ? { count: body.count } : {}),
+        variant: key
+      };
+    }
+  }
+  return { data: [normaliseIdentifier(body)], count: 1, variant: 'unknown' };
+}
+
+/**
+ * Unwrap single-entity responses, which some backends return as `{ data: entity }` or a
+ * one-item array
+ */
+export function normaliseEntityEnvelope(body: unknown): ValidatedResponse {
+  if (Array.isArray(body)) {
+    return { data: normaliseIdentifier(body[0]), variant: body.length === 1 ? 'array' : 'unknown' };
+  }
+  if (isRecord(body) && body.data !== undefined && body.id === undefined) {
+    const inner = Array.isArray(body.data) ? body.data[0] : body.data;
+    return { data: normaliseIdentifier(inner), variant: 'data' };
+  }
+  return { data: normaliseIdentifier(body), variant: 'single' };
+}
+
+// ---------------------------------------------------------------------------
+// Schema validators
+// ---------------------------------------------------------------------------
+
+/**
+ * Validator that checks every item of a list endpoint against a TAMS entity schema
+ */
+export function createListValidator(entity: TamsEntityName, pattern: RegExp): ResponseValidator {
+  return {
+    name: `${entity}-list`,
+    kind: 'list',
+    matches: path => pattern.test(path),
+    validate(body, context) {
+      const normalised = normaliseListEnvelope(body);
+      const items = normalised.data as unknown[];
+      const issues: SchemaIssue[] = [];
+
+      if (normalised.variant === 'unknown') {
+        issues.push({
+          path: '$',
+          message: isRecord(body)
+            ? `unrecognised list envelope with keys [${Object.keys(body).join(', ')}]; treated as a single ${entity}`
+            : `expected list of ${entity}, received ${describeValue(body)}`,
+          severity: 'error'
+        });
+      }
+
+      const data = items.map((item, index) => {
+        const decoded = decodeTams(entity, item);
+        decoded.issues.forEach(issue => issues.push({ ...issue, path: issue.path.replace(/^\$/, `$[${index}]`) }));
+        return decoded.value;
+      });
+
+      if (issues.length > 0) {
+        reportSchemaDrift({ ...context, entity, issues, timestamp: new Date() });
+      }
+      return { ...normalised, data };
+    }
+  };
+}
+
+/**
+ * Validator that checks a single-entity endpoint against a TAMS entity schema
+ */
+export function createEntityValidator(entity: TamsEntityName, pattern: RegExp): ResponseValidator {
+  return {
+    name: entity,
+    kind: 'entity',
+    matches: path => pattern.test(path),
+    validate(body, context) {
+      const normalised = normaliseEntityEnvelope(body);
+      const { value, issues } = decodeTams(entity, normalised.data);
+      if (normalised.variant === 'unknown') {
+        issues.unshift({ path: '$', message: `expected a single ${entity}, received a list`, severity: 'error' });
+      }
+      if (issues.length > 0) {
+        reportSchemaDrift({ ...context, entity, issues, timestamp: new Date() });
+      }
+      return { ...normalised, data: value };
+    }
+  };
+}
+
+const DEFAULT_VALIDATORS: ResponseValidator[] = [
+  createListValidator('source', /^\/sources\/?$/),
+  createEntityValidator('source', /^\/sources\/[^/]+$/),
+  createListValidator('flow', /^\/flows\/?$/),
+  createEntityValidator('flow', /^\/flows\/[^/]+$/),
+  createListValidator('segment', /^\/flows\/[^/]+\/segments\/?$/),
+  createEntityValidator('object', /^\/objects\/[^/]+$/),
+  createListValidator('webhook', /^\/service\/webhooks\/?$/),
+  createEntityValidator('webhook', /^\/service\/webhooks\/[^/]+$/),
+  createEntityValidator('service', /^\/service\/?$/)
+];
+
+let customValidators: ResponseValidator[] = [];
+
+/**
+ * Register an additional validator. Custom validators take precedence over the
+ * built-in TAMS schemas. Returns a function that removes the validator again.
+ */
+export function registerResponseValidator(validator: ResponseValidator): () => void {
+  customValidators = [validator, ...customValidators];
+  return () => {
+    customValidators = customValidators.filter(existing => existing !== validator);
+  };
+}
+
+function findValidator(path: string, kind: ResponseKind): ResponseValidator | undefined {
+  return [...customValidators, ...DEFAULT_VALIDATORS].find(
+    validator => validator.kind === kind && validator.matches(path)
+  );
+}
+
+const endpointPath = (endpoint: string): string => endpoint.split('?')[0] ?? endpoint;
+
+const ID_COLLECTIONS = new Set(['sources', 'flows', 'segments', 'objects', 'webhooks', 'flow-delete-requests']);
+
+/**
+ * Replace entity IDs in a path with placeholders so drift is grouped per endpoint,
+ * e.g. "/flows/abc/segments" becomes "/flows/{id}/segments"
+ */
+export function endpointTemplate(path: string): string {
+  const parts = path.split('/');
+  return parts
+    .map((part, index) => (index > 0 && part && ID_COLLECTIONS.has(parts[index - 1] ?? '') ? '{id}' : part))
+    .join('/');
+}
+
+/**
+ * Normalise and validate a list response. Endpoints without a registered schema are
+ * only normalised.
+ */
+export function validateListResponse(
+  body: unknown,
+  context: ResponseValidationContext
+): { data: unknown[]; count?: number; variant: string } {
+  const path = endpointPath(context.endpoint);
+  const validator = findValidator(path, 'list');
+  const result = validator
+    ? validator.validate(body, { ...context, endpoint: endpointTemplate(path) })
+    : normaliseListEnvelope(body);
+  return { ...result, data: Array.isArray(result.data) ? result.data : [result.data] };
+}
+
+/**
+ * Normalise and validate a single-entity response. Responses from endpoints without a
+ * registered schema are returned unchanged.
+ */
+export function validateEntityResponse(body: unknown, context: ResponseValidationContext): unknown {
+  const path = endpointPath(context.endpoint);
+  const validator = findValidator(path, 'entity');
+  return validator ? validator.validate(body, { ...context, endpoint: endpointTemplate(path) }).data : body;
+}
+
+// ---------------------------------------------------------------------------
+// Drift log
+// ---------------------------------------------------------------------------
+
+export interface DriftLogEntry {
+  key: string;
+  backend: string;
+  endpoint: string;
+  entity: TamsEntityName;
+  // Offending path with list indices collapsed, e.g. "$[].essence_parameters.frame_rate"
+  path: string;
+  message: string;
+  severity: SchemaIssue['severity'];
+  occurrences: number;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface DriftSummary {
+  backend: string;
+  errors: number;
+  warnings: number;
+  endpoints: string[];
+  lastSeen: Date;
+}
+
+const MAX_DRIFT_LOG_ENTRIES = 500;
+const driftLog = new Map<string, DriftLogEntry>();
+const driftLogListeners = new Set<() => void>();
+
+function recordDrift(report: SchemaDriftReport): void {
+  const backend = report.backend ?? 'unknown';
+  const endpoint = report.endpoint ?? 'unknown';
+
+  report.issues.forEach(issue => {
+    const path = issue.path.replace(/\[\d+\]/g, '[]');
+    const key = `${backend}|${endpoint}|${report.entity}|${path}|${issue.message}`;
+    const existing = driftLog.get(key);
+    if (existing) {
+      existing.occurrences += 1;
+      existing.lastSeen = report.timestamp;
+      // Re-insert so the map stays ordered by most recent occurrence
+      driftLog.delete(key);
+      driftLog.set(key, existing);
+      return;
+    }
+    driftLog.set(key, {
+      key,
+      backend,
+      endpoint,
+      entity: report.entity,
+      path,
+      message: issue.message,
+      severity: issue.severity,
+      occurrences: 1,
+      firstSeen: report.timestamp,
+      lastSeen: report.timestamp
+    });
+  });
+
+  while (driftLog.size > MAX_DRIFT_LOG_ENTRIES) {
+    const oldest = driftLog.keys().next().value;
+    if (oldest === undefined) break;
+    driftLog.delete(oldest);
+  }
+  driftLogListeners.forEach(listener => listener());
+}
+
+// Every drift report (validation stage and client decoders) ends up in the log
+onSchemaDrift(recordDrift);
+
+/**
+ * Drift log entries, most recent first
+ */
+export function getDriftLog(): DriftLogEntry[] {
+  return Array.from(driftLog.values()).reverse();
+}
+
+export function clearDriftLog(): void {
+  driftLog.clear();
+  driftLogListeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to drift log changes. Returns an unsubscribe function.
+ */
+export function subscribeToDriftLog(listener: () => void): () => void {
+  driftLogListeners.add(listener);
+  return () => {
+    driftLogListeners.delete(listener);
+  };
+}
+
+/**
+ * Per-backend drift totals, so the backend that broke the contract stands out
+ */
+export function summariseDriftLog(entries: DriftLogEntry[] = getDriftLog()): DriftSummary[] {
+  const summaries = new Map<string, DriftSummary>();
+  entries.forEach(entry => {
+    const summary = summaries.get(entry.backend) ?? {
+      backend: entry.backend,
+      errors: 0,
+      warnings: 0,
+      endpoints: [],
+      lastSeen: entry.lastSeen
+    };
+    if (entry.severity === 'error') summary.errors += entry.occurrences;
+    else summary.warnings += entry.occurrences;
+    if (!summary.endpoints.includes(entry.endpoint)) summary.endpoints.push(entry.endpoint);
+    if (entry.lastSeen > summary.lastSeen) summary.lastSeen = entry.lastSeen;
+    summaries.set(entry.backend, summary);
+  });
+  return Array.from(summaries.values()).sort((a, b) => b.errors - a.errors || b.warnings - a.warnings);
+}
@@ -2,6 +2,7 @@
 // Handles search queries, results, and content discovery using real backend endpoints
 
 import { apiClient, BBCApiOptions, BBCApiResponse } from './api';
+import { collectAll } from './pagination';
 
 // Search result interface for real API data
 export interface SearchResult {
@@ -74,6 +75,21 @@ export interface SearchResponse {
   };
 }
 
+// The /search endpoint's response: items of matched words, each with the segments it matched
+interface SegmentSearchResponse {
+  items?: Array<{ result?: Array<{ id?: string; _id?: string; object_id?: string }>; thumbnail?: string }>;
+}
+
+// URL fields older backends put on segments instead of get_urls
+interface LegacySegmentUrls {
+  content_url?: string;
+  video_url?: string;
+  url?: string;
+  media_url?: string;
+  stream_url?: string;
+  file_url?: string;
+}
+
 // Convert BBC TAMS flow data to SearchResult format
 function convertFlowToSearchResult(flow: any): SearchResult {
   return {
@@ -222,52 +238,41 @@ function buildSearchOptions(query: SearchQuery): BBCApiOptions {
   return options;
 }
 
+// Upper bound on sources/flows collected per search (all pages are followed up to this)
+const MAX_SEARCH_ITEMS = 2000;
+
 // Perform search using BBC TAMS API
-export async function performSearch(query: SearchQuery, page: number = 1, limit: number = 20): Promise<SearchResponse> {
+// Sources and flows are collected across every cursor page; `page` and `limit` describe the
+// page the caller displays, which is sliced client-side from the full result set
+export async function performSearch(
+  query: SearchQuery,
+  page: number = 1,
+  limit: number = 20,
+  signal?: AbortSignal
+): Promise<SearchResponse> {
   const startTime = Date.now();
   console.log('🔍 Search Service: Starting search with query:', query);
   
   const searchOptions = buildSearchOptions(query);
   console.log('🔍 Search Service: Built search options:', searchOptions);
   
-  searchOptions.limit = limit;
-  console.log('🔍 Search Service: Set limit to:', limit);
-  
-  // Add pagination cursor if not first page
-  if (page > 1) {
-    // For now, we'll use a simple offset-based approach
-    // In production, this should use proper cursor-based pagination
-    searchOptions.page = `page_${page}`;
-  }
+  const iterateOptions = {
+    ...searchOptions,
+    maxItems: MAX_SEARCH_ITEMS,
+    ...(signal ? { signal } : {})
+  };
 
   try {
     const results: SearchResult[] = [];
-    let totalResults = 0;
-    let hasNextPage = false;
-    let hasPreviousPage = false;
-    let nextCursor: string | undefined;
-    let previousCursor: string | undefined;
 
     // Execute search based on strategy
     if (query.searchStrategy.sources) {
       try {
-        const sourcesResponse = await apiClient.getSources(searchOptions);
-        console.log('🔍 Search Service: Sources API response:', sourcesResponse);
-        
-        const sourceResults = sourcesResponse.data.map(convertSourceToSearchResult);
-        console.log('🔍 Search Service: Converted source results:', sourceResults);
-        
-        results.push(...sourceResults);
-        totalResults += sourcesResponse.data.length;
-        
-        // Update pagination info
-        if (sourcesResponse.pagination) {
-          hasNextPage = hasNextPage || !!sourcesResponse.pagination.nextKey;
-          hasPreviousPage = hasPreviousPage || !!sourcesResponse.pagination.prevKey;
-          nextCursor = nextCursor || sourcesResponse.pagination.nextKey;
-          previousCursor = previousCursor || sourcesResponse.pagination.prevKey;
-        }
+        const sources = await collectAll(apiClient.iterateSources(iterateOptions));
+        console.log(`🔍 Search Service: Collected ${sources.length} sources`);
+        results.push(...sources.map(convertSourceToSearchResult));
       } catch (error) {
+        if (signal?.aborted) throw error;
         console.warn('Failed to search sources:', error);
       }
     }
@@ -275,21 +280,11 @@ export async function performSearch(query: SearchQuery, page: number = 1, limit:
     if (query.searchStrategy.flows) {
       try {
         console.log('🔍 Search Service: Searching flows with options:', searchOptions);
-        const flowsResponse = await apiClient.getFlows(searchOptions);
-        console.log('🔍 Search Service: Flows API response:', flowsResponse);
-        const flowResults = flowsResponse.data.map(convertFlowToSearchResult);
-        console.log('🔍 Search Service: Converted flow results:', flowResults);
-        results.push(...flowResults);
-        totalResults += flowsResponse.data.length;
-        
-        // Update pagination info
-        if (flowsResponse.pagination) {
-          hasNextPage = hasNextPage || !!flowsResponse.pagination.nextKey;
-          hasPreviousPage = hasPreviousPage || !!flowsResponse.pagination.prevKey;
-          nextCursor = nextCursor || flowsResponse.pagination.nextKey;
-          previousCursor = previousCursor || flowsResponse.pagination.prevKey;
-        }
+        const flows = await collectAll(apiClient.iterateFlows(iterateOptions));
+        console.log(`🔍 Search Service: Collected ${flows.length} flows`);
+        results.push(...flows.map(convertFlowToSearchResult));
       } catch (error) {
+        if (signal?.aborted) throw error;
         console.warn('Failed to search flows:', error);
       }
     }
@@ -301,7 +296,7 @@ export async function performSearch(query: SearchQuery, page: number = 1, limit:
           const searchResponse = await apiClient.searchSegments(query.query, {
             limit: limit,
             page: page
-          });
+          }) as SegmentSearchResponse;
           
           console.log('🔍 Search Service: Search API response:', searchResponse);
           
@@ -337,7 +332,6 @@ export async function performSearch(query: SearchQuery, page: number = 1, limit:
           }
           
           results.push(...segmentResults);
-          totalResults = segmentResults.length;
           
           console.log('🔍 Search Service: Converted segment results:', segmentResults);
         } else {
@@ -356,7 +350,6 @@ export async function performSearch(query: SearchQuery, page: number = 1, limit:
                 convertSegmentToSearchResult(segment, flow)
               );
               results.push(...segmentResults);
-              totalResults += segmentsResponse.data.length;
             } catch (err) {
               console.warn(`Failed to get segments for flow ${flow.id}:`, err);
             }
@@ -394,17 +387,16 @@ export async function performSearch(query: SearchQuery, page: number = 1, limit:
     console.log('🔍 Search Service: Total results:', finalResults.length);
     console.log('🔍 Search Service: Search time:', searchTime);
 
+    const totalPages = Math.ceil(finalResults.length / limit);
     return {
       results: finalResults,
       totalResults: finalResults.length,
       searchTime,
       pagination: {
         currentPage: page,
-        totalPages: Math.ceil(finalResults.length / limit),
-        hasNextPage,
-        hasPreviousPage,
-        ...(nextCursor && { nextCursor }),
-        ...(previousCursor && { previousCursor })
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1
       }
     };
 
@@ -447,12 +439,13 @@ export async function getSegmentContentUrl(flowId: string, segmentId: string): P
     }
     
     // Fallback to legacy URL fields
-    const contentUrl = targetSegment.content_url || 
-                      targetSegment.video_url || 
-                      targetSegment.url || 
-                      targetSegment.media_url ||
-                      targetSegment.stream_url ||
-                      targetSegment.file_url ||
+    const legacy = targetSegment as LegacySegmentUrls;
+    const contentUrl = legacy.content_url || 
+                      legacy.video_url || 
+                      legacy.url || 
+                      legacy.media_url ||
+                      legacy.stream_url ||
+                      legacy.file_url ||
                       '';
     
     return contentUrl;
@@ -0,0 +1,310 @@
+/**
+ * Bulk Segment Import
+ *
+ * Registers media that is already cut into chunks (an HLS or DASH rendition, or a folder of
+ * numbered chunk files) as TAMS segments, one segment per chunk. A manifest gives each
+ * chunk's duration (EXTINF, SegmentTimeline); a folder without one is probed chunk by
+ * chunk. The plan lays the chunks end to end from a start timestamp, so the segments'
+ * timeranges are contiguous whatever the media timestamps inside the chunks are, and gives
+ * each segment the ts_offset (segment timestamp minus media timestamp) that maps one to the
+ * other. Chunks whose media start is not known in advance (HLS) get theirs by probing the
+ * chunk when it is uploaded.
+ *
+ * Importing uploads and registers the chunks in order, stopping at the first failure; running
+ * the import again carries on from that chunk. fMP4 chunks have the rendition's
+ * initialization segment put in front of them so each segment is playable on its own.
+ */
+
+import type { SegmentImportItem } from '../types/backend';
+import type { UnifiedApiClient } from './api';
+import { errorMessage } from './errors';
+import { uploadMediaObject } from './ingest';
+import { probeMedia } from '../utils/mediaProbe';
+import {
+  manifestKind,
+  parseDashManifest,
+  parseHlsPlaylist,
+  resolveManifestUri,
+  type ManifestChunk,
+  type ManifestKind,
+  type ManifestRendition
+} from '../utils/segmentManifest';
+import {
+  createTimerange,
+  formatTaiTimestamp,
+  formatTimerange,
+  parseTimerange,
+  secondsToTimestamp,
+  type TaiTimestamp
+} from '../utils/timerange';
+
+/**
+ * A file of a dropped or chosen folder, with its path relative to the folder
+ */
+export interface ImportFile {
+  path: string;
+  file: File;
+}
+
+/**
+ * Where the chunks of an import come from, and the renditions to choose between
+ */
+export interface ImportSource {
+  kind: ManifestKind | 'folder';
+  name: string;
+  renditions: ManifestRendition[];
+  // Files of a folder by relative path; chunks are read from a server when absent
+  files?: Map<string, File>;
+}
+
+export interface SegmentImportOptions {
+  signal?: AbortSignal;
+  // Flow to create before the first segment is registered
+  flow?: Record<string, unknown>;
+  onProgress?: (items: SegmentImportItem[]) => void;
+}
+
+const CHUNK_EXTENSIONS = /\.(ts|m2ts|mts|m4s|mp4|m4v|m4a|cmfv|cmfa|aac)$/i;
+const MANIFEST_EXTENSIONS = /\.(m3u8?|mpd)$/i;
+const INIT_NAMES = /(^|[/_.-])init[^/]*$/i;
+
+async function fetchText(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(url, signal ? { signal } : {});
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${url}: ${response.status} ${response.statusText}`.trim());
+  }
+  return response.text();
+}
+
+function parseManifest(kind: ManifestKind, text: string, base: string): ManifestRendition[] {
+  return kind === 'hls' ? parseHlsPlaylist(text, base) : parseDashManifest(text, base);
+}
+
+/**
+ * Fetch and parse the HLS playlist or DASH MPD at `url`
+ */
+export async function loadManifestUrl(url: string, signal?: AbortSignal): Promise<ImportSource> {
+  const text = await fetchText(url, signal);
+  const name = new URL(url).pathname.split('/').pop() || url;
+  const kind = manifestKind(name, text);
+  if (!kind) {
+    throw new Error('The URL is neither an HLS playlist nor a DASH manifest');
+  }
+  return { kind, name, renditions: parseManifest(kind, text, url) };
+}
+
+/**
+ * Read a folder of files: the manifest in it if there is one, with its chunks matched to
+ * the folder's files; otherwise its chunk files in natural order (chunk_2 before chunk_10),
+ * probed for their durations and media starts
+ */
+export async function loadImportFiles(entries: ImportFile[], signal?: AbortSignal): Promise<ImportSource> {
+  const files = new Map(entries.map(({ path, file }) => [path.replace(/^\/+/, ''), file]));
+  const paths = [...files.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const folder = paths[0]?.includes('/') ? paths[0].split('/')[0] ?? 'Folder' : 'Files';
+
+  const manifests = paths.filter(path => MANIFEST_EXTENSIONS.test(path));
+  // A master playlist names the media playlists, so prefer it to them
+  for (const path of manifests.sort((a, b) => a.split('/').length - b.split('/').length)) {
+    const text = await files.get(path)!.text();
+    const kind = manifestKind(path, text);
+    if (kind) {
+      return { kind, name: path, renditions: parseManifest(kind, text, path), files };
+    }
+  }
+
+  const init = paths.find(path => INIT_NAMES.test(path) && CHUNK_EXTENSIONS.test(path));
+  const chunkPaths = paths.filter(path => path !== init && CHUNK_EXTENSIONS.test(path));
+  if (chunkPaths.length === 0) {
+    throw new Error('The folder has no manifest and no media chunks (.ts, .m4s, .mp4, ...)');
+  }
+  const initFile = init ? files.get(init) : undefined;
+  const chunks: ManifestChunk[] = [];
+  for (const path of chunkPaths) {
+    signal?.throwIfAborted();
+    const file = files.get(path)!;
+    const probe = await probeMedia(initFile ? new Blob([initFile, file]) : file);
+    if (!probe?.durationSeconds) {
+      throw new Error(`Could not read the duration of ${path}; add the HLS or DASH manifest to the folder`);
+    }
+    chunks.push({
+      uri: path,
+      durationSeconds: probe.durationSeconds,
+      ...(probe.startSeconds !== null ? { mediaStartSeconds: probe.startSeconds } : {})
+    });
+  }
+  return {
+    kind: 'folder',
+    name: folder,
+    renditions: [{ id: '1', label: `${chunks.length} chunk files`, ...(init ? { initUri: init } : {}), chunks }],
+    files
+  };
+}
+
+/**
+ * The rendition with its chunks, reading an HLS variant's media playlist when needed
+ */
+export async function loadRendition(
+  source: ImportSource,
+  rendition: ManifestRendition,
+  signal?: AbortSignal
+): Promise<ManifestRendition> {
+  if (!rendition.playlistUri) return rendition;
+  const text = source.files
+    ? await readFile(source, rendition.playlistUri).text()
+    : await fetchText(rendition.playlistUri, signal);
+  const [media] = parseHlsPlaylist(text, rendition.playlistUri);
+  if (!media || media.playlistUri) {
+    throw new Error(`${rendition.playlistUri} is not a media playlist`);
+  }
+  const variant = { ...rendition };
+  delete variant.playlistUri;
+  return {
+    ...variant,
+    ...(media.initUri ? { initUri: media.initUri } : {}),
+    ...(media.initByteRange ? { initByteRange: media.initByteRange } : {}),
+    chunks: media.chunks
+  };
+}
+
+function tsOffsetFor(segmentStart: TaiTimestamp, mediaStartSeconds: number): string | undefined {
+  const offset = segmentStart - secondsToTimestamp(mediaStartSeconds);
+  return offset === 0n ? undefined : formatTaiTimestamp(offset);
+}
+
+function chunkName(uri: string): string {
+  return decodeURIComponent(uri.split('?')[0]?.split('/').pop() ?? uri);
+}
+
+/**
+ * Lay the rendition's chunks end to end from `start`: contiguous timeranges by cumulative
+ * duration, and ts_offsets for the chunks whose media start is known
+ */
+export function planSegmentImport(rendition: ManifestRendition, start: TaiTimestamp): SegmentImportItem[] {
+  let elapsed = 0;
+  return rendition.chunks.map((chunk, index) => {
+    // From the cumulative duration, so rounding does not accumulate across chunks
+    const segmentStart = start + secondsToTimestamp(elapsed);
+    elapsed += chunk.durationSeconds;
+    const segmentEnd = start + secondsToTimestamp(elapsed);
+    const tsOffset = chunk.mediaStartSeconds !== undefined ? tsOffsetFor(segmentStart, chunk.mediaStartSeconds) : undefined;
+    return {
+      index,
+      name: chunkName(chunk.uri),
+      durationSeconds: chunk.durationSeconds,
+      ...(chunk.mediaStartSeconds !== undefined ? { mediaStartSeconds: chunk.mediaStartSeconds } : {}),
+      timerange: formatTimerange(createTimerange(segmentStart, segmentEnd)),
+      ...(tsOffset ? { tsOffset } : {}),
+      status: 'pending'
+    };
+  });
+}
+
+function readFile(source: ImportSource, path: string): File {
+  const file = source.files?.get(path);
+  if (!file) {
+    throw new Error(`${path} is listed in the manifest but is not in the folder`);
+  }
+  return file;
+}
+
+async function readChunk(
+  source: ImportSource,
+  uri: string,
+  byteRange: { offset: number; length: number } | undefined,
+  signal: AbortSignal | undefined
+): Promise<Blob> {
+  if (source.files) {
+    const file = readFile(source, resolveManifestUri(uri, ''));
+    return byteRange ? file.slice(byteRange.offset, byteRange.offset + byteRange.length) : file;
+  }
+  const response = await fetch(uri, {
+    ...(byteRange ? { headers: { Range: `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}` } } : {}),
+    ...(signal ? { signal } : {})
+  });
+  if (!response.ok) {
+    throw new Error(`Download of ${chunkName(uri)} failed: ${response.status} ${response.statusText}`.trim());
+  }
+  return response.blob();
+}
+
+function contentTypeFor(uri: string, body: Blob): string {
+  if (/\.(ts|m2ts|mts)$/i.test(uri)) return 'video/mp2t';
+  if (/\.(m4a|cmfa)$/i.test(uri)) return 'audio/mp4';
+  if (CHUNK_EXTENSIONS.test(uri)) return 'video/mp4';
+  return body.type || 'application/octet-stream';
+}
+
+/**
+ * Upload and register the planned chunks not yet registered, in order; `items` is updated in
+ * place as each one progresses and the import stops at the first failure
+ */
+export async function importSegments(
+  client: UnifiedApiClient,
+  flowId: string,
+  source: ImportSource,
+  rendition: ManifestRendition,
+  items: SegmentImportItem[],
+  options: SegmentImportOptions = {}
+): Promise<void> {
+  const { signal, onProgress } = options;
+  const report = () => onProgress?.(items.map(item => ({ ...item })));
+  const request = signal ? { signal } : {};
+
+  if (options.flow && !items.some(item => item.status === 'registered')) {
+    await client.createFlow(flowId, options.flow, request);
+  }
+
+  let init: Blob | undefined;
+  for (const item of items) {
+    if (item.status === 'registered') continue;
+    const chunk = rendition.chunks[item.index];
+    if (!chunk) continue;
+    signal?.throwIfAborted();
+    delete item.error;
+
+    try {
+      if (item.status !== 'uploaded' || !item.objectId) {
+        item.status = 'uploading';
+        report();
+        if (rendition.initUri && !init) {
+          init = await readChunk(source, rendition.initUri, rendition.initByteRange, signal);
+        }
+        const media = await readChunk(source, chunk.uri, chunk.byteRange, signal);
+        const body = init ? new Blob([init, media]) : media;
+
+        // The chunk's own timestamps decide its ts_offset when the manifest did not
+        if (item.mediaStartSeconds === undefined) {
+          const probe = await probeMedia(body);
+          if (probe?.startSeconds !== null && probe?.startSeconds !== undefined) {
+            item.mediaStartSeconds = probe.startSeconds;
+            const segmentStart = parseTimerange(item.timerange).start;
+            const tsOffset = segmentStart !== null ? tsOffsetFor(segmentStart, probe.startSeconds) : undefined;
+            if (tsOffset) item.tsOffset = tsOffset;
+          }
+        }
+
+        item.objectId = await uploadMediaObject(client, flowId, body, {
+          contentType: contentTypeFor(chunk.uri, body),
+          ...request
+        });
+        item.status = 'uploaded';
+        report();
+      }
+
+      await client.createFlowSegment(flowId, {
+        object_id: item.objectId,
+        timerange: item.timerange,
+        ...(item.tsOffset ? { ts_offset: item.tsOffset } : {})
+      }, undefined, request);
+      item.status = 'registered';
+      report();
+    } catch (error) {
+      // An uploaded chunk stays uploaded; only its registration is retried
+      if (item.status !== 'uploaded') item.status = signal?.aborted ? 'pending' : 'failed';
+      if (!signal?.aborted) item.error = errorMessage(error);
+      report();
+      throw error;
+    }
+  }
+}
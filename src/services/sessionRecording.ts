@@ -0,0 +1,424 @@
+/**
+ * Session Recording
+ *
+ * Captures the requests the app makes through the request pipeline, so a user can attach
+ * "what I saw" to a bug report. Each exchange keeps the method, URL, headers, bodies, status,
+ * timing and response headers (paging headers included) as the adapters received them, before
+ * validation normalised them, so replaying it through the same adapter rebuilds the same state.
+ *
+ * Secrets are redacted as exchanges are recorded: credential headers, token and signature
+ * query parameters (in request URLs and in URLs inside bodies) and JSON fields named like
+ * passwords, secrets or tokens. Binary and oversized bodies are left out.
+ *
+ * A session exports as a HAR 1.2 archive. The `_backend`, `_path` and `_requestId` entry fields
+ * and the `_backends` log field carry what sessionReplay needs to serve it again offline.
+ */
+
+import { getBackendConfig, type BackendApiConfig } from '../config/apiConfig';
+import { isAbortError } from './http';
+import type { Middleware } from './pipeline';
+
+export interface RecordedExchange {
+  id: number;
+  // Backend config id
+  backend: string;
+  // Request log id (see pipeline)
+  requestId?: string;
+  startedAt: Date;
+  durationMs: number;
+  method: string;
+  url: string;
+  // Path below the backend's base URL, including any query string
+  path: string;
+  requestHeaders: [string, string][];
+  requestBody?: string;
+  // 0 when the request failed without a response
+  status: number;
+  statusText: string;
+  responseHeaders: [string, string][];
+  // Absent for binary and oversized bodies
+  responseBody?: string;
+  error?: string;
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _backend: string;
+  _path: string;
+  _requestId?: string;
+  _error?: string;
+}
+
+export interface HarArchive {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    comment?: string;
+    entries: HarEntry[];
+    // Configs of the backends the entries were sent to
+    _backends: BackendApiConfig[];
+    // App route open when the session was exported
+    _route?: string;
+  };
+}
+
+type RecorderListener = () => void;
+
+const MAX_EXCHANGES = 2000;
+const MAX_BODY_LENGTH = 2 * 1024 * 1024;
+const REDACTED = '[REDACTED]';
+
+const SECRET_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie)$|token|secret|api[-_]?key|password/i;
+const SECRET_PARAM = /^(access_token|id_token|token|api[-_]?key|key|sig|signature|client_secret|password|x-amz-(signature|credential|security-token)|x-goog-(signature|credential))$/i;
+const SECRET_FIELD = /password|secret|token|api[-_]?key|authorization|credential/i;
+const TEXT_CONTENT = /json|text|xml|mpegurl|dash|javascript|urlencoded/i;
+
+/**
+ * `params` with secret values replaced; null when nothing needed redacting
+ */
+function redactParams(params: URLSearchParams): URLSearchParams | null {
+  let changed = false;
+  for (const name of new Set(params.keys())) {
+    if (SECRET_PARAM.test(name)) {
+      params.set(name, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? params : null;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return redactParams(parsed.searchParams) ? parsed.href : url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * `path` (with its query string) with secret query parameters redacted. Replay matches
+ * requests after the same redaction.
+ */
+export function redactPath(path: string): string {
+  const index = path.indexOf('?');
+  if (index < 0) return path;
+  const params = redactParams(new URLSearchParams(path.slice(index + 1)));
+  return params ? `${path.slice(0, index)}?${params.toString()}` : path;
+}
+
+function redactHeaders(headers: RequestInit['headers'], backend: BackendApiConfig): [string, string][] {
+  const apiKeyHeader = backend.auth?.apiKeyHeader?.toLowerCase();
+  return [...new Headers(headers).entries()].map(([name, value]) =>
+    [name, SECRET_HEADER.test(name) || name === apiKeyHeader ? REDACTED : value]);
+}
+
+function redactJson(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return /^https?:\/\//.test(value) ? redactUrl(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactJson);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+      [key, typeof field === 'string' && SECRET_FIELD.test(key) ? REDACTED : redactJson(field)]));
+  }
+  return value;
+}
+
+function redactBody(text: string): string {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return text;
+  }
+  return JSON.stringify(redactJson(body));
+}
+
+/**
+ * Recordable text of a request body; binary bodies (files, form data) are left out
+ */
+function requestBodyText(body: RequestInit['body']): string | undefined {
+  if (typeof body === 'string') return body.length <= MAX_BODY_LENGTH ? redactBody(body) : undefined;
+  if (body instanceof URLSearchParams) return (redactParams(new URLSearchParams(body)) ?? body).toString();
+  return undefined;
+}
+
+async function responseBodyText(response: Response): Promise<string | undefined> {
+  const type = response.headers.get('Content-Type') ?? '';
+  const length = Number(response.headers.get('Content-Length') ?? 0);
+  if ((type && !TEXT_CONTENT.test(type)) || length > MAX_BODY_LENGTH) return undefined;
+  const text = await response.clone().text().catch(() => undefined);
+  return text !== undefined && text.length <= MAX_BODY_LENGTH ? redactBody(text) : undefined;
+}
+
+function headerValue(headers: [string, string][], name: string): string | undefined {
+  return headers.find(([header]) => header.toLowerCase() === name)?.[1];
+}
+
+function toNameValues(entries: Iterable<[string, string]>): HarNameValue[] {
+  return [...entries].map(([name, value]) => ({ name, value }));
+}
+
+function toHarEntry(exchange: RecordedExchange): HarEntry {
+  const query = exchange.path.includes('?') ? exchange.path.slice(exchange.path.indexOf('?') + 1) : '';
+  const responseType = headerValue(exchange.responseHeaders, 'content-type') ?? '';
+  return {
+    startedDateTime: exchange.startedAt.toISOString(),
+    time: exchange.durationMs,
+    request: {
+      method: exchange.method,
+      url: exchange.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(exchange.requestHeaders),
+      queryString: toNameValues(new URLSearchParams(query).entries()),
+      ...(exchange.requestBody !== undefined
+        ? {
+            postData: {
+              mimeType: headerValue(exchange.requestHeaders, 'content-type') ?? 'application/json',
+              text: exchange.requestBody
+            }
+          }
+        : {}),
+      headersSize: -1,
+      bodySize: exchange.requestBody?.length ?? -1
+    },
+    response: {
+      status: exchange.status,
+      statusText: exchange.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(exchange.responseHeaders),
+      content: exchange.responseBody !== undefined
+        ? { size: exchange.responseBody.length, mimeType: responseType, text: exchange.responseBody }
+        : { size: -1, mimeType: responseType, comment: 'Body not recorded (binary or too large)' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: exchange.responseBody?.length ?? -1
+    },
+    cache: {},
+    timings: { send: 0, wait: exchange.durationMs, receive: 0 },
+    _backend: exchange.backend,
+    _path: exchange.path,
+    ...(exchange.requestId ? { _requestId: exchange.requestId } : {}),
+    ...(exchange.error ? { _error: exchange.error } : {})
+  };
+}
+
+/**
+ * Exchanges of a recorded archive, in recorded order; entries without the recorder's
+ * `_backend` and `_path` fields (e.g. from a browser's HAR export) are skipped
+ */
+export function exchangesFromHar(archive: HarArchive): RecordedExchange[] {
+  return archive.log.entries
+    .filter(entry => typeof entry._backend === 'string' && typeof entry._path === 'string')
+    .map((entry, index) => ({
+      id: index + 1,
+      backend: entry._backend,
+      ...(entry._requestId ? { requestId: entry._requestId } : {}),
+      startedAt: new Date(entry.startedDateTime),
+      durationMs: entry.time,
+      method: entry.request.method,
+      url: entry.request.url,
+      path: entry._path,
+      requestHeaders: (entry.request.headers ?? []).map(({ name, value }) => [name, value] as [string, string]),
+      ...(entry.request.postData ? { requestBody: entry.request.postData.text } : {}),
+      status: entry.response.status,
+      statusText: entry.response.statusText ?? '',
+      responseHeaders: (entry.response.headers ?? []).map(({ name, value }) => [name, value] as [string, string]),
+      ...(entry.response.content?.text !== undefined ? { responseBody: entry.response.content.text } : {}),
+      ...(entry._error ? { error: entry._error } : {})
+    }));
+}
+
+/**
+ * Parse an exported session; throws when the text is not a HAR archive
+ */
+export function parseHarArchive(text: string): HarArchive {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('Not a HAR file: the content is not JSON');
+  }
+  const log = typeof archive === 'object' && archive !== null && 'log' in archive ? archive.log : undefined;
+  if (typeof log !== 'object' || log === null || !('entries' in log) || !Array.isArray(log.entries)) {
+    throw new Error('Not a HAR file: it has no log entries');
+  }
+  return {
+    log: {
+      ...(log as HarArchive['log']),
+      _backends: '_backends' in log && Array.isArray(log._backends) ? log._backends as BackendApiConfig[] : []
+    }
+  };
+}
+
+class SessionRecorder {
+  private recording = false;
+  private exchanges: RecordedExchange[] = [];
+  private nextId = 1;
+  // Set once the oldest exchanges have been dropped to stay within MAX_EXCHANGES
+  private truncated = false;
+  private listeners = new Set<RecorderListener>();
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  start(): void {
+    this.recording = true;
+    this.notify();
+  }
+
+  stop(): void {
+    this.recording = false;
+    this.notify();
+  }
+
+  clear(): void {
+    this.exchanges = [];
+    this.truncated = false;
+    this.notify();
+  }
+
+  /**
+   * True once the oldest exchanges were dropped; the recording holds the last MAX_EXCHANGES
+   */
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  /**
+   * Exchanges recorded so far, oldest first
+   */
+  getExchanges(): RecordedExchange[] {
+    return this.exchanges;
+  }
+
+  /**
+   * Send `request` on and record the exchange
+   */
+  async capture(...[request, next]: Parameters<Middleware>): Promise<Response> {
+    const startedAt = Date.now();
+    const requestBody = requestBodyText(request.init.body);
+    const exchange = {
+      id: this.nextId++,
+      backend: request.backend.id,
+      ...(request.requestId ? { requestId: request.requestId } : {}),
+      startedAt: new Date(startedAt),
+      method: (request.init.method ?? 'GET').toUpperCase(),
+      url: redactUrl(`${request.backend.baseUrl}${request.path}`),
+      path: redactPath(request.path),
+      requestHeaders: redactHeaders(request.init.headers, request.backend),
+      ...(requestBody !== undefined ? { requestBody } : {})
+    };
+
+    try {
+      const response = await next(request);
+      const responseBody = await responseBodyText(response);
+      this.add({
+        ...exchange,
+        durationMs: Date.now() - startedAt,
+        status: response.status,
+        statusText: response.statusText,
+        responseHeaders: redactHeaders(response.headers, request.backend),
+        ...(responseBody !== undefined ? { responseBody } : {})
+      });
+      return response;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this.add({
+          ...exchange,
+          durationMs: Date.now() - startedAt,
+          status: 0,
+          statusText: '',
+          responseHeaders: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The session as a HAR archive
+   * @param options.comment - What the user saw, for the bug report
+   * @param options.route - App route to open when the session is replayed
+   */
+  exportHar(options: { comment?: string; route?: string } = {}): HarArchive {
+    const backendIds = [...new Set(this.exchanges.map(exchange => exchange.backend))];
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'tams-frontend session recorder', version: '1.0' },
+        ...(options.comment ? { comment: options.comment } : {}),
+        entries: this.exchanges.map(toHarEntry),
+        _backends: backendIds
+          .map(id => getBackendConfig(id))
+          .filter((config): config is BackendApiConfig => config !== null),
+        ...(options.route ? { _route: options.route } : {})
+      }
+    };
+  }
+
+  /**
+   * Subscribe to recording changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private add(exchange: RecordedExchange): void {
+    if (this.exchanges.length >= MAX_EXCHANGES) {
+      this.truncated = true;
+    }
+    this.exchanges = [...this.exchanges, exchange].slice(-MAX_EXCHANGES);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
+
+export const recordingMiddleware: Middleware = (request, next) =>
+  sessionRecorder.isRecording() ? sessionRecorder.capture(request, next) : next(request);
@@ -0,0 +1,191 @@
+/**
+ * Session Replay
+ *
+ * Serves a recorded session (see sessionRecording) as offline fake backends, so a developer
+ * can load the recording attached to a bug report and see the pages as the reporter saw them.
+ * Each backend in the recording becomes a "<name> (replay)" backend with the same adapter
+ * type and endpoint remapping, mounted like the extra mock TAMS stores (see mockTams) at an
+ * address that never reaches the network.
+ *
+ * Requests are matched on method and path. Repeats of a request are answered in recorded
+ * order, and the last answer stands for any further repeats, so paging and refreshes replay as
+ * they happened. Requests the recording lacks answer 404, except the health check, which
+ * always succeeds so the backend can be selected. Replay backends last as long as the page;
+ * discardReplayBackends() removes any left in the backend list by an earlier visit.
+ */
+
+import { getCustomBackends, removeCustomBackend, type BackendApiConfig } from '../config/apiConfig';
+import type { TamsError } from '../types/tams';
+import { backendProfiles } from './backendProfiles';
+import { mountMockTams } from './mockTams';
+import { exchangesFromHar, redactPath, type HarArchive, type RecordedExchange } from './sessionRecording';
+
+export interface ReplayBackend {
+  config: BackendApiConfig;
+  // Backend the session was recorded against
+  recordedBackend: string;
+  exchanges: number;
+  // App route open when the session was exported
+  route?: string;
+}
+
+export interface ReplayLoadResult {
+  backends: ReplayBackend[];
+  // Recorded backends left out because the recording does not describe them
+  skipped: string[];
+}
+
+type ReplayListener = () => void;
+
+const REPLAY_ID_PREFIX = 'replay-';
+
+// Statuses whose responses cannot have a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function replayResponse(exchange: RecordedExchange): Response {
+  if (exchange.status === 0) {
+    // As fetch reports a request that never got a response
+    throw new TypeError(`Failed to fetch (recorded: ${exchange.error ?? 'no response'})`);
+  }
+  const headers = new Headers(exchange.responseHeaders);
+  ['Content-Length', 'Content-Encoding', 'Transfer-Encoding'].forEach(name => headers.delete(name));
+  return new Response(NULL_BODY_STATUSES.has(exchange.status) ? null : exchange.responseBody ?? '', {
+    status: exchange.status,
+    statusText: exchange.statusText,
+    headers
+  });
+}
+
+function tamsError(status: number, type: string, summary: string): Response {
+  const error: TamsError = { type, summary, time: new Date().toISOString() };
+  return new Response(JSON.stringify(error), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Answers requests from the exchanges recorded against one backend
+ */
+class ReplayServer {
+  private byRequest = new Map<string, RecordedExchange[]>();
+  private served = new Map<string, number>();
+  private healthPath: string;
+
+  constructor(exchanges: RecordedExchange[], healthPath: string) {
+    this.healthPath = healthPath;
+    for (const exchange of exchanges) {
+      const key = `${exchange.method} ${exchange.path}`;
+      this.byRequest.set(key, [...(this.byRequest.get(key) ?? []), exchange]);
+    }
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = redactPath(`${url.pathname}${url.search}`);
+    const key = `${request.method.toUpperCase()} ${path}`;
+    const recorded = this.byRequest.get(key);
+    if (!recorded || recorded.length === 0) {
+      if (request.method.toUpperCase() === 'GET' && path === this.healthPath) {
+        return new Response(JSON.stringify({ status: 'healthy' }), { headers: { 'Content-Type': 'application/json' } });
+      }
+      return tamsError(404, 'NotFound', `Not in the recording: ${key}`);
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return replayResponse(recorded[Math.min(index, recorded.length - 1)] as RecordedExchange);
+  }
+}
+
+class SessionReplay {
+  private backends: ReplayBackend[] = [];
+  private unmounts = new Map<string, () => void>();
+  private listeners = new Set<ReplayListener>();
+
+  /**
+   * Serve a recorded session; replaces an earlier replay of the same backends
+   * @returns One replay backend per backend in the recording, and the backends skipped
+   */
+  load(archive: HarArchive): ReplayLoadResult {
+    const exchanges = exchangesFromHar(archive);
+    if (exchanges.length === 0) {
+      throw new Error('The recording has no requests this app can replay');
+    }
+
+    const loaded: ReplayBackend[] = [];
+    const skipped: string[] = [];
+    for (const recordedBackend of new Set(exchanges.map(exchange => exchange.backend))) {
+      const recordedConfig = archive.log._backends.find(config => config.id === recordedBackend);
+      if (!recordedConfig) {
+        skipped.push(recordedBackend);
+        continue;
+      }
+
+      const id = `${REPLAY_ID_PREFIX}${recordedBackend}`;
+      this.unload(id);
+      const config: BackendApiConfig = {
+        ...recordedConfig,
+        id,
+        name: `${recordedConfig.name} (replay)`,
+        description: `Recorded session of ${recordedConfig.name}, served offline`,
+        baseUrl: `http://${recordedBackend.replace(/[^a-z0-9-]/gi, '-')}.replay.invalid`,
+        auth: { type: 'none' }
+      };
+      delete config.rateLimiting;
+
+      const backendExchanges = exchanges.filter(exchange => exchange.backend === recordedBackend);
+      this.unmounts.set(id, mountMockTams(config.baseUrl, new ReplayServer(backendExchanges, config.endpoints.health)));
+      backendProfiles.save(config);
+      loaded.push({
+        config,
+        recordedBackend,
+        exchanges: backendExchanges.length,
+        ...(archive.log._route ? { route: archive.log._route } : {})
+      });
+    }
+
+    this.backends = [...this.backends, ...loaded];
+    this.notify();
+    return { backends: loaded, skipped };
+  }
+
+  /**
+   * Stop serving a replay backend and remove it from the backend list
+   */
+  unload(id: string): void {
+    const unmount = this.unmounts.get(id);
+    if (!unmount) return;
+    unmount();
+    this.unmounts.delete(id);
+    this.backends = this.backends.filter(backend => backend.config.id !== id);
+    backendProfiles.remove(id);
+    this.notify();
+  }
+
+  getBackends(): ReplayBackend[] {
+    return this.backends;
+  }
+
+  /**
+   * Subscribe to replays being loaded and unloaded
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const sessionReplay = new SessionReplay();
+
+/**
+ * Remove replay backends saved by an earlier page load; their recordings are gone with it
+ */
+export function discardReplayBackends(): void {
+  getCustomBackends()
+    .filter(backend => backend.id.startsWith(REPLAY_ID_PREFIX))
+    .forEach(backend => removeCustomBackend(backend.id));
+}
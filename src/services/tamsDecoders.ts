@@ -0,0 +1,637 @@
+/**
+ * TAMS Schema Decoders
+ *
+ * Runtime decoders for the TAMS domain model in `types/tams`. Backend responses are
+ * decoded leniently: values that do not match the schema are still passed through so
+ * pages keep rendering, but every mismatch is recorded as a schema issue and reported to
+ * drift listeners, so a backend that changes shape is noticed instead of silently
+ * rendering empty pages.
+ *
+ * Object decoders also describe their fields, which lets `compareWithOpenApiSpec` check
+ * the client-side model against a backend's published OpenAPI document.
+ */
+
+import type { BBCApiResponse } from './tamsProtocol';
+import { isValidTimerange } from '../utils/timerange';
+import type {
+  DeletionRequest,
+  Flow,
+  FlowSegment,
+  Service,
+  Source,
+  TamsEntityName,
+  TamsEntityTypes,
+  TamsObject,
+  Webhook
+} from '../types/tams';
+
+// ---------------------------------------------------------------------------
+// Issues and drift reporting
+// ---------------------------------------------------------------------------
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  // 'error': required data is missing or has the wrong type
+  // 'warning': unknown field or enum value (usually a newer spec or a vendor extension)
+  severity: 'error' | 'warning';
+}
+
+export interface SchemaDriftContext {
+  backend?: string;
+  endpoint?: string;
+}
+
+export interface SchemaDriftReport extends SchemaDriftContext {
+  entity: TamsEntityName;
+  issues: SchemaIssue[];
+  timestamp: Date;
+}
+
+export type SchemaDriftListener = (report: SchemaDriftReport) => void;
+
+const driftListeners = new Set<SchemaDriftListener>();
+
+/**
+ * Subscribe to schema drift reports. Returns an unsubscribe function.
+ */
+export function onSchemaDrift(listener: SchemaDriftListener): () => void {
+  driftListeners.add(listener);
+  return () => {
+    driftListeners.delete(listener);
+  };
+}
+
+/**
+ * Report schema issues found outside the decoders (e.g. unexpected response envelopes).
+ * Reports are shown in the schema drift log (see responseValidation).
+ */
+export function reportSchemaDrift(report: SchemaDriftReport): void {
+  driftListeners.forEach(listener => {
+    try {
+      listener(report);
+    } catch (error) {
+      // One failing listener must not keep the others from the report
+      globalThis.queueMicrotask(() => { throw error; });
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Decoder primitives
+// ---------------------------------------------------------------------------
+
+export interface Decoder<T> {
+  readonly expected: string;
+  decode(value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+export interface ObjectDecoder<T> extends Decoder<T> {
+  readonly fields: readonly string[];
+  readonly required: readonly string[];
+}
+
+/**
+ * JSON type of a value, for issue messages
+ */
+export const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Decoder<T> {
+  return {
+    expected,
+    decode(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, message: `expected ${expected}, received ${describeValue(value)}`, severity: 'error' });
+      }
+      return value as T;
+    }
+  };
+}
+
+const string = primitive<string>('string', value => typeof value === 'string');
+const integer = primitive<number>('integer', value => typeof value === 'number' && Number.isInteger(value));
+const boolean = primitive<boolean>('boolean', value => typeof value === 'boolean');
+const anyObject = primitive<Record<string, unknown>>('object', value =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const timerange: Decoder<string> = {
+  expected: 'TAMS timerange',
+  decode(value, path, issues) {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected TAMS timerange string, received ${describeValue(value)}`, severity: 'error' });
+    } else if (!isValidTimerange(value)) {
+      issues.push({ path, message: `invalid TAMS timerange "${value}"`, severity: 'error' });
+    }
+    return value as string;
+  }
+};
+
+/**
+ * Enumerations are open for forward compatibility: unknown values are warnings
+ */
+function oneOf<T extends string>(values: readonly T[]): Decoder<T> {
+  return {
+    expected: values.join(' | '),
+    decode(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected one of ${values.join(', ')}, received ${describeValue(value)}`, severity: 'error' });
+      } else if (!values.includes(value as T)) {
+        issues.push({ path, message: `unknown value "${value}"`, severity: 'warning' });
+      }
+      return value as T;
+    }
+  };
+}
+
+function arrayOf<T>(item: Decoder<T>): Decoder<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    decode(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, received ${describeValue(value)}`, severity: 'error' });
+        return value as T[];
+      }
+      return value.map((entry, index) => item.decode(entry, `${path}[${index}]`, issues));
+    }
+  };
+}
+
+function recordOf<T>(entry: Decoder<T>): Decoder<Record<string, T>> {
+  return {
+    expected: `Record<string, ${entry.expected}>`,
+    decode(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, received ${describeValue(value)}`, severity: 'error' });
+        return value as Record<string, T>;
+      }
+      const result: Record<string, T> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = entry.decode(item, `${path}.${key}`, issues);
+      }
+      return result;
+    }
+  };
+}
+
+function either<A, B>(first: Decoder<A>, second: Decoder<B>): Decoder<A | B> {
+  return {
+    expected: `${first.expected} | ${second.expected}`,
+    decode(value, path, issues) {
+      const firstIssues: SchemaIssue[] = [];
+      const decoded = first.decode(value, path, firstIssues);
+      if (firstIssues.length === 0) return decoded;
+      const secondIssues: SchemaIssue[] = [];
+      const fallback = second.decode(value, path, secondIssues);
+      if (secondIssues.length === 0) return fallback;
+      issues.push({ path, message: `expected ${first.expected} | ${second.expected}, received ${describeValue(value)}`, severity: 'error' });
+      return value as A | B;
+    }
+  };
+}
+
+interface ObjectOptions {
+  // Fields that must be present
+  required?: readonly string[];
+  // Vendor extension fields that are accepted without a warning
+  extensions?: readonly string[];
+}
+
+/**
+ * Decode an object described field by field. `fields` must list every property of T.
+ * Unknown properties are kept on the decoded value and reported as warnings.
+ */
+function objectOf<T>(
+  name: string,
+  fields: { [K in keyof T & string]-?: Decoder<unknown> },
+  options: ObjectOptions = {}
+): ObjectDecoder<T> {
+  const fieldDecoders = fields as Record<string, Decoder<unknown>>;
+  const fieldNames = Object.keys(fieldDecoders);
+  const required = options.required ?? [];
+  const extensions = new Set(options.extensions ?? []);
+
+  return {
+    expected: name,
+    fields: fieldNames,
+    required,
+    decode(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected ${name} object, received ${describeValue(value)}`, severity: 'error' });
+        return value as T;
+      }
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...input };
+
+      for (const field of required) {
+        if (input[field] === undefined || input[field] === null) {
+          issues.push({ path: `${path}.${field}`, message: 'missing required field', severity: 'error' });
+        }
+      }
+      for (const [key, fieldValue] of Object.entries(input)) {
+        const decoder = fieldDecoders[key];
+        if (decoder) {
+          if (fieldValue !== undefined && (fieldValue !== null || required.includes(key))) {
+            result[key] = decoder.decode(fieldValue, `${path}.${key}`, issues);
+          }
+        } else if (!extensions.has(key)) {
+          issues.push({ path: `${path}.${key}`, message: `unknown field in ${name}`, severity: 'warning' });
+        }
+      }
+      return result as T;
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// TAMS schema decoders
+// ---------------------------------------------------------------------------
+
+// Soft delete and audit fields added by the VAST TAMS backend
+const SOFT_DELETE_EXTENSIONS = ['deleted', 'deleted_at', 'deleted_by'];
+
+const CONTENT_FORMATS = [
+  'urn:x-nmos:format:video',
+  'urn:x-nmos:format:audio',
+  'urn:x-nmos:format:data',
+  'urn:x-nmos:format:multi',
+  'urn:x-tam:format:image'
+] as const;
+
+const tags = recordOf(either(string, arrayOf(string)));
+const uuidList = arrayOf(string);
+
+const rational = objectOf<{ numerator: number; denominator?: number }>('rational', {
+  numerator: integer,
+  denominator: integer
+}, { required: ['numerator'] });
+
+const collectionItem = objectOf<{ id: string; role?: string; container_mapping?: unknown }>('collection item', {
+  id: string,
+  role: string,
+  container_mapping: anyObject
+}, { required: ['id'] });
+
+export const sourceDecoder = objectOf<Source>('source', {
+  id: string,
+  format: oneOf(CONTENT_FORMATS),
+  label: string,
+  description: string,
+  created_by: string,
+  updated_by: string,
+  created: string,
+  updated: string,
+  tags,
+  source_collection: arrayOf(collectionItem),
+  collected_by: uuidList
+}, { required: ['id', 'format'], extensions: SOFT_DELETE_EXTENSIONS });
+
+const flowCoreFields = {
+  id: string,
+  source_id: string,
+  format: oneOf(CONTENT_FORMATS),
+  generation: integer,
+  metadata_version: string,
+  created: string,
+  metadata_updated: string,
+  segments_updated: string,
+  created_by: string,
+  updated_by: string,
+  tags,
+  label: string,
+  description: string,
+  read_only: boolean,
+  max_bit_rate: integer,
+  avg_bit_rate: integer,
+  timerange,
+  codec: string,
+  container: string,
+  segment_duration: rational,
+  flow_collection: arrayOf(collectionItem),
+  collected_by: uuidList
+};
+
+const videoEssenceDecoder = objectOf<Extract<Flow, { format: 'urn:x-nmos:format:video' }>['essence_parameters']>('video essence_parameters', {
+  frame_rate: rational,
+  frame_width: integer,
+  frame_height: integer,
+  bit_depth: integer,
+  interlace_mode: oneOf(['progressive', 'interlaced_tff', 'interlaced_bff', 'interlaced_psf']),
+  colorspace: string,
+  transfer_characteristic: string,
+  aspect_ratio: rational,
+  pixel_aspect_ratio: rational,
+  component_type: string,
+  vertical_chroma_subs: integer,
+  horizontal_chroma_subs: integer,
+  avc_parameters: anyObject,
+  unc_parameters: anyObject
+}, { required: ['frame_width', 'frame_height'] });
+
+const audioEssenceDecoder = objectOf<Extract<Flow, { format: 'urn:x-nmos:format:audio' }>['essence_parameters']>('audio essence_parameters', {
+  sample_rate: integer,
+  channels: integer,
+  bit_depth: integer,
+  codec_parameters: anyObject,
+  unc_parameters: anyObject
+});
+
+const dataEssenceDecoder = objectOf<{ data_type?: string }>('data essence_parameters', {
+  data_type: string
+});
+
+const imageEssenceDecoder = objectOf<{ frame_width: number; frame_height: number }>('image essence_parameters', {
+  frame_width: integer,
+  frame_height: integer
+}, { required: ['frame_width', 'frame_height'] });
+
+const FLOW_OPTIONS = { extensions: SOFT_DELETE_EXTENSIONS };
+
+export const flowDecoders = {
+  'urn:x-nmos:format:video': objectOf<Extract<Flow, { format: 'urn:x-nmos:format:video' }>>('video flow', {
+    ...flowCoreFields,
+    format: oneOf(['urn:x-nmos:format:video']),
+    essence_parameters: videoEssenceDecoder
+  }, { ...FLOW_OPTIONS, required: ['id', 'source_id', 'format', 'essence_parameters'] }),
+  'urn:x-nmos:format:audio': objectOf<Extract<Flow, { format: 'urn:x-nmos:format:audio' }>>('audio flow', {
+    ...flowCoreFields,
+    format: oneOf(['urn:x-nmos:format:audio']),
+    essence_parameters: audioEssenceDecoder
+  }, { ...FLOW_OPTIONS, required: ['id', 'source_id', 'format', 'essence_parameters'] }),
+  'urn:x-nmos:format:data': objectOf<Extract<Flow, { format: 'urn:x-nmos:format:data' }>>('data flow', {
+    ...flowCoreFields,
+    format: oneOf(['urn:x-nmos:format:data']),
+    essence_parameters: dataEssenceDecoder
+  }, { ...FLOW_OPTIONS, required: ['id', 'source_id', 'format'] }),
+  'urn:x-tam:format:image': objectOf<Extract<Flow, { format: 'urn:x-tam:format:image' }>>('image flow', {
+    ...flowCoreFields,
+    format: oneOf(['urn:x-tam:format:image']),
+    essence_parameters: imageEssenceDecoder
+  }, { ...FLOW_OPTIONS, required: ['id', 'source_id', 'format', 'essence_parameters'] }),
+  'urn:x-nmos:format:multi': objectOf<Extract<Flow, { format: 'urn:x-nmos:format:multi' }>>('multi flow', {
+    ...flowCoreFields,
+    format: oneOf(['urn:x-nmos:format:multi'])
+  }, { ...FLOW_OPTIONS, required: ['id', 'source_id', 'format'] })
+} as const;
+
+/**
+ * Flows are discriminated on `format`; unknown formats are decoded as a multi flow
+ */
+export const flowDecoder: Decoder<Flow> = {
+  expected: 'flow',
+  decode(value, path, issues) {
+    const format = typeof value === 'object' && value !== null ? (value as { format?: unknown }).format : undefined;
+    const decoder = typeof format === 'string' ? flowDecoders[format as keyof typeof flowDecoders] : undefined;
+    if (!decoder) {
+      issues.push({
+        path: `${path}.format`,
+        message: format === undefined ? 'missing required field' : `unknown flow format "${String(format)}"`,
+        severity: 'error'
+      });
+      return flowDecoders['urn:x-nmos:format:multi'].decode(value, path, []) as Flow;
+    }
+    return decoder.decode(value, path, issues) as Flow;
+  }
+};
+
+const getUrl = objectOf<NonNullable<FlowSegment['get_urls']>[number]>('get_url', {
+  url: string,
+  label: string,
+  presigned: boolean,
+  controlled: boolean,
+  storage_id: string
+}, { required: ['url'] });
+
+export const segmentDecoder = objectOf<FlowSegment>('flow segment', {
+  object_id: string,
+  timerange,
+  ts_offset: string,
+  last_duration: string,
+  sample_offset: integer,
+  sample_count: integer,
+  get_urls: arrayOf(getUrl),
+  key_frame_count: integer
+}, { required: ['object_id', 'timerange'], extensions: SOFT_DELETE_EXTENSIONS });
+
+export const objectDecoder = objectOf<TamsObject>('object', {
+  id: string,
+  referenced_by_flows: uuidList,
+  first_referenced_by_flow: string,
+  size: integer,
+  get_urls: arrayOf(getUrl)
+}, { required: ['id', 'referenced_by_flows'], extensions: SOFT_DELETE_EXTENSIONS });
+
+export const webhookDecoder = objectOf<Webhook>('webhook', {
+  id: string,
+  url: string,
+  api_key_name: string,
+  api_key_value: string,
+  events: arrayOf(oneOf([
+    'flows/created',
+    'flows/updated',
+    'flows/deleted',
+    'flows/segments_added',
+    'flows/segments_deleted',
+    'sources/created',
+    'sources/updated',
+    'sources/deleted'
+  ])),
+  flow_ids: uuidList,
+  source_ids: uuidList,
+  flow_collected_by_ids: uuidList,
+  source_collected_by_ids: uuidList,
+  accept_get_urls: arrayOf(string),
+  accept_storage_ids: uuidList,
+  presigned: boolean,
+  verbose_storage: boolean,
+  status: oneOf(['created', 'started', 'disabled', 'error'])
+}, { required: ['url', 'events'] });
+
+const tamsError = objectOf<NonNullable<DeletionRequest['error']>>('error', {
+  type: string,
+  summary: string,
+  time: string,
+  traceback: arrayOf(string)
+}, { required: ['type', 'summary'] });
+
+export const deletionRequestDecoder = objectOf<DeletionRequest>('deletion request', {
+  id: string,
+  flow_id: string,
+  timerange_to_delete: timerange,
+  timerange_remaining: timerange,
+  delete_flow: boolean,
+  status: oneOf(['created', 'started', 'done', 'error']),
+  created: string,
+  created_by: string,
+  updated: string,
+  expiry: string,
+  error: tamsError
+}, { required: ['id', 'flow_id', 'timerange_to_delete', 'delete_flow', 'status'] });
+
+export const serviceDecoder = objectOf<Service>('service', {
+  type: string,
+  api_version: string,
+  service_version: string,
+  name: string,
+  description: string,
+  media_store: objectOf<{ type: string }>('media_store', { type: string }, { required: ['type'] }),
+  event_stream_mechanisms: arrayOf(objectOf<{ name: string; docs?: Record<string, unknown> }>('event stream mechanism', {
+    name: string,
+    docs: anyObject
+  }, { required: ['name'] })),
+  min_object_timeout: string
+}, { required: ['type', 'api_version'] });
+
+export const TAMS_DECODERS: { [K in TamsEntityName]: Decoder<TamsEntityTypes[K]> } = {
+  source: sourceDecoder,
+  flow: flowDecoder,
+  segment: segmentDecoder,
+  object: objectDecoder,
+  webhook: webhookDecoder,
+  deletionRequest: deletionRequestDecoder,
+  service: serviceDecoder
+};
+
+// ---------------------------------------------------------------------------
+// Decoding entry points
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a value as a TAMS entity, returning the decoded value and any schema issues
+ */
+export function decodeTams<K extends TamsEntityName>(
+  entity: K,
+  value: unknown
+): { value: TamsEntityTypes[K]; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const decoded = TAMS_DECODERS[entity].decode(value, '$', issues);
+  return { value: decoded, issues };
+}
+
+/**
+ * Decode a single entity and report any drift
+ */
+export function decodeEntity<K extends TamsEntityName>(
+  entity: K,
+  value: unknown,
+  context: SchemaDriftContext = {}
+): TamsEntityTypes[K] {
+  const { value: decoded, issues } = decodeTams(entity, value);
+  if (issues.length > 0) {
+    reportSchemaDrift({ ...context, entity, issues, timestamp: new Date() });
+  }
+  return decoded;
+}
+
+/**
+ * Decode every item of a paginated list response and report any drift as one report
+ */
+export function decodeEntityList<K extends TamsEntityName>(
+  entity: K,
+  response: BBCApiResponse<unknown>,
+  context: SchemaDriftContext = {}
+): BBCApiResponse<TamsEntityTypes[K]> {
+  const issues: SchemaIssue[] = [];
+  const decoder = TAMS_DECODERS[entity];
+  const data = Array.isArray(response.data)
+    ? response.data.map((item, index) => decoder.decode(item, `$[${index}]`, issues))
+    : [];
+  if (!Array.isArray(response.data)) {
+    issues.push({ path: '$', message: `expected array of ${entity}, received ${describeValue(response.data)}`, severity: 'error' });
+  }
+  if (issues.length > 0) {
+    reportSchemaDrift({ ...context, entity, issues, timestamp: new Date() });
+  }
+  return { ...response, data };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAPI comparison
+// ---------------------------------------------------------------------------
+
+export interface SpecMismatch {
+  entity: string;
+  schema: string;
+  message: string;
+}
+
+// Schema names used by the TAMS OpenAPI document for each decoder
+const SPEC_SCHEMAS: Array<{ entity: string; schema: string; decoder: ObjectDecoder<unknown> }> = [
+  { entity: 'source', schema: 'source', decoder: sourceDecoder as ObjectDecoder<unknown> },
+  { entity: 'video flow', schema: 'flow-video', decoder: flowDecoders['urn:x-nmos:format:video'] as ObjectDecoder<unknown> },
+  { entity: 'audio flow', schema: 'flow-audio', decoder: flowDecoders['urn:x-nmos:format:audio'] as ObjectDecoder<unknown> },
+  { entity: 'data flow', schema: 'flow-data', decoder: flowDecoders['urn:x-nmos:format:data'] as ObjectDecoder<unknown> },
+  { entity: 'image flow', schema: 'flow-image', decoder: flowDecoders['urn:x-tam:format:image'] as ObjectDecoder<unknown> },
+  { entity: 'multi flow', schema: 'flow-multi', decoder: flowDecoders['urn:x-nmos:format:multi'] as ObjectDecoder<unknown> },
+  { entity: 'flow segment', schema: 'flow-segment', decoder: segmentDecoder as ObjectDecoder<unknown> },
+  { entity: 'object', schema: 'object', decoder: objectDecoder as ObjectDecoder<unknown> },
+  { entity: 'webhook', schema: 'webhook', decoder: webhookDecoder as ObjectDecoder<unknown> },
+  { entity: 'deletion request', schema: 'deletion-request', decoder: deletionRequestDecoder as ObjectDecoder<unknown> },
+  { entity: 'service', schema: 'service', decoder: serviceDecoder as ObjectDecoder<unknown> }
+];
+
+interface OpenApiSchema {
+  $ref?: string;
+  allOf?: OpenApiSchema[];
+  properties?: Record<string, unknown>;
+  required?: string[];
+}
+
+function collectSchemaFields(
+  schema: OpenApiSchema | undefined,
+  schemas: Record<string, OpenApiSchema>,
+  depth: number = 0
+): { properties: Set<string>; required: Set<string> } {
+  const properties = new Set<string>();
+  const required = new Set<string>();
+  if (!schema || depth > 8) return { properties, required };
+
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() ?? '';
+    return collectSchemaFields(schemas[name], schemas, depth + 1);
+  }
+  for (const part of schema.allOf ?? []) {
+    const nested = collectSchemaFields(part, schemas, depth + 1);
+    nested.properties.forEach(property => properties.add(property));
+    nested.required.forEach(field => required.add(field));
+  }
+  Object.keys(schema.properties ?? {}).forEach(property => properties.add(property));
+  (schema.required ?? []).forEach(field => required.add(field));
+  return { properties, required };
+}
+
+/**
+ * Check the decoders against an OpenAPI document (e.g. from a backend's /openapi.json).
+ * Schemas missing from the document are skipped, since backends publish different subsets.
+ */
+export function compareWithOpenApiSpec(spec: unknown): SpecMismatch[] {
+  const schemas = ((spec as { components?: { schemas?: Record<string, OpenApiSchema> } })?.components?.schemas) ?? {};
+  const mismatches: SpecMismatch[] = [];
+
+  for (const { entity, schema, decoder } of SPEC_SCHEMAS) {
+    if (!schemas[schema]) continue;
+    const { properties, required } = collectSchemaFields(schemas[schema], schemas);
+    const known = new Set(decoder.fields);
+
+    properties.forEach(property => {
+      if (!known.has(property)) {
+        mismatches.push({ entity, schema, message: `specification field "${property}" is not modelled` });
+      }
+    });
+    decoder.fields.forEach(field => {
+      if (!properties.has(field)) {
+        mismatches.push({ entity, schema, message: `modelled field "${field}" is not in the specification` });
+      }
+    });
+    required.forEach(field => {
+      if (!decoder.required.includes(field)) {
+        mismatches.push({ entity, schema, message: `specification requires "${field}" but the decoder treats it as optional` });
+      }
+    });
+  }
+  return mismatches;
+}
@@ -0,0 +1,242 @@
+/**
+ * TAMS Protocol Helpers
+ *
+ * Wire-level types and helpers shared by every backend adapter: the paged list envelope,
+ * BBC TAMS query strings, and the paging headers (`Link`, `X-Paging-*`) of list responses.
+ */
+
+import type { TamsQueryValue } from '../types/tams';
+
+// BBC TAMS API Response Types
+export interface BBCPaginationMeta {
+  link?: string;
+  limit?: number;
+  nextKey?: string;
+  prevKey?: string;
+  firstKey?: string;
+  lastKey?: string;
+  timerange?: string;
+  count?: number;
+  reverseOrder?: boolean;
+}
+
+export interface BBCLinkHeader {
+  url: string;
+  rel: string;
+  params?: Record<string, string>;
+}
+
+export interface BBCApiResponse<T> {
+  data: T[];
+  pagination: BBCPaginationMeta;
+  links: BBCLinkHeader[];
+}
+
+export interface BBCApiOptions {
+  page?: string; // Cursor for pagination
+  limit?: number; // Number of items per page
+  timerange?: string; // BBC timerange format
+  format?: string; // Content format filter
+  codec?: string; // Codec filter
+  tags?: Record<string, string>; // Tag filters
+  tagExists?: Record<string, boolean>; // Tag existence filters
+  custom?: Record<string, TamsQueryValue>; // Custom filters
+  signal?: AbortSignal; // Cancels the request (not sent as a query parameter)
+  background?: boolean; // Low priority request, e.g. polling (not sent as a query parameter)
+  ifMatch?: string; // Sent as If-Match on PUT/DELETE for conditional writes (see concurrency)
+}
+
+// BBC TAMS Utility Functions
+
+/**
+ * Parse BBC TAMS Link header according to RFC 5988
+ */
+export function parseLinkHeader(linkHeader: string): BBCLinkHeader[] {
+  if (!linkHeader) return [];
+  
+  const links: BBCLinkHeader[] = [];
+  const linkRegex = /<([^>]+)>;\s*rel="([^"]+)"(?:;\s*([^,]+))?/g;
+  
+  let match;
+  while ((match = linkRegex.exec(linkHeader)) !== null) {
+    const [, url, rel, paramsString] = match;
+    const params: Record<string, string> = {};
+    
+    if (paramsString) {
+      const paramRegex = /([^=]+)="([^"]+)"/g;
+      let paramMatch;
+      while ((paramMatch = paramRegex.exec(paramsString)) !== null) {
+        const [, key, value] = paramMatch;
+        if (key && value) {
+          params[key] = value;
+        }
+      }
+    }
+    
+    if (url && rel) {
+      try {
+        // Handle both absolute and relative URLs
+        let urlObj: URL;
+        try {
+          urlObj = new URL(url);
+        } catch {
+          // If URL is relative, construct absolute URL using current origin
+          // For API responses, relative URLs are relative to the API base
+          urlObj = new URL(url, window.location.origin);
+        }
+        
+        const queryParams = urlObj.searchParams;
+        
+        // Extract BBC TAMS specific parameters
+        if (queryParams.has('page')) {
+          params.page = queryParams.get('page') || '';
+        }
+        if (queryParams.has('limit')) {
+          params.limit = queryParams.get('limit') || '';
+        }
+        if (queryParams.has('timerange')) {
+          params.timerange = queryParams.get('timerange') || '';
+        }
+        if (queryParams.has('format')) {
+          params.format = queryParams.get('format') || '';
+        }
+        if (queryParams.has('codec')) {
+          params.codec = queryParams.get('codec') || '';
+        }
+        if (queryParams.has('label')) {
+          params.label = queryParams.get('label') || '';
+        }
+      } catch {
+        // Silently ignore Link header parsing errors - they're non-fatal
+        // The URL might be relative or malformed, but we can still use the response data
+      }
+      
+      links.push({ url, rel, params });
+    }
+  }
+  
+  return links;
+}
+
+/**
+ * Parse BBC TAMS response headers for pagination metadata
+ */
+export function parseBBCHeaders(headers: Headers): BBCPaginationMeta {
+  const linkHeader = headers.get('Link');
+  const limitHeader = headers.get('X-Paging-Limit');
+  const nextKeyHeader = headers.get('X-Paging-NextKey');
+  const prevKeyHeader = headers.get('X-Paging-PrevKey');
+  const firstKeyHeader = headers.get('X-Paging-FirstKey');
+  const lastKeyHeader = headers.get('X-Paging-LastKey');
+  const timerangeHeader = headers.get('X-Paging-Timerange');
+  const countHeader = headers.get('X-Paging-Count');
+  const reverseOrderHeader = headers.get('X-Paging-ReverseOrder');
+  
+  const result: BBCPaginationMeta = {
+    reverseOrder: reverseOrderHeader === 'true'
+  };
+  
+  if (linkHeader) result.link = linkHeader;
+  if (limitHeader) {
+    const limit = parseInt(limitHeader);
+    if (!isNaN(limit)) result.limit = limit;
+  }
+  if (nextKeyHeader) result.nextKey = nextKeyHeader;
+  if (prevKeyHeader) result.prevKey = prevKeyHeader;
+  if (firstKeyHeader) result.firstKey = firstKeyHeader;
+  if (lastKeyHeader) result.lastKey = lastKeyHeader;
+  if (timerangeHeader) result.timerange = timerangeHeader;
+  if (countHeader) {
+    const count = parseInt(countHeader);
+    if (!isNaN(count)) result.count = count;
+  }
+  
+  return result;
+}
+
+/**
+ * Build BBC TAMS query string from options
+ */
+export function buildBBCQueryString(options: BBCApiOptions): string {
+  const params: string[] = [];
+  
+  if (options.page) {
+    params.push(`page=${encodeURIComponent(options.page)}`);
+  }
+  
+  if (options.limit) {
+    // Ensure limit is an integer (API validation requires integer type)
+    const limitValue = typeof options.limit === 'number' ? options.limit : parseInt(String(options.limit), 10);
+    if (!isNaN(limitValue)) {
+      params.push(`limit=${limitValue}`);
+    }
+  }
+  
+  if (options.timerange) {
+    params.push(`timerange=${encodeURIComponent(options.timerange)}`);
+  }
+  
+  if (options.format) {
+    params.push(`format=${encodeURIComponent(options.format)}`);
+  }
+  
+  if (options.codec) {
+    params.push(`codec=${encodeURIComponent(options.codec)}`);
+  }
+  
+  if (options.tags) {
+    Object.entries(options.tags).forEach(([key, value]) => {
+      params.push(`tag.${key}=${encodeURIComponent(value)}`);
+    });
+  }
+  
+  if (options.tagExists) {
+    Object.entries(options.tagExists).forEach(([key, exists]) => {
+      params.push(`tag_exists.${key}=${exists}`);
+    });
+  }
+  
+  if (options.custom) {
+    Object.entries(options.custom).forEach(([key, value]) => {
+      params.push(`${key}=${encodeURIComponent(String(value))}`);
+    });
+  }
+  
+  return params.length > 0 ? `?${params.join('&')}` : '';
+}
+
+/**
+ * Extract all available navigation cursors from BBC TAMS response
+ */
+export function getAllNavigationCursors(response: BBCApiResponse<unknown>): {
+  next?: string;
+  prev?: string;
+  first?: string;
+  last?: string;
+} {
+  const cursors: { next?: string; prev?: string; first?: string; last?: string } = {};
+  
+  if (response.links) {
+    response.links.forEach(link => {
+      if (link.rel === 'next' && link.params?.page) {
+        cursors.next = link.params.page;
+      } else if (link.rel === 'prev' && link.params?.page) {
+        cursors.prev = link.params.page;
+      } else if (link.rel === 'first' && link.params?.page) {
+        cursors.first = link.params.page;
+      } else if (link.rel === 'last' && link.params?.page) {
+        cursors.last = link.params.page;
+      }
+    });
+  }
+  
+  // Also check pagination metadata for backward compatibility
+  if (response.pagination) {
+    if (response.pagination.nextKey) cursors.next = response.pagination.nextKey;
+    if (response.pagination.prevKey) cursors.prev = response.pagination.prevKey;
+    if (response.pagination.firstKey) cursors.first = response.pagination.firstKey;
+    if (response.pagination.lastKey) cursors.last = response.pagination.lastKey;
+  }
+  
+  return cursors;
+}
@@ -10,8 +10,10 @@
  * - Dual URL support (GET/HEAD presigned URLs)
  */
 
-import { BBCApiResponse, BBCApiOptions, parseBBCHeaders, parseLinkHeader, buildBBCQueryString } from './api';
+import { BBCApiResponse, BBCApiOptions, parseBBCHeaders, parseLinkHeader, buildBBCQueryString } from './tamsProtocol';
 import { BackendApiConfig } from '../config/apiConfig';
+import { isAbortError, signalInit, type RequestOptions, type RequestPolicy } from './http';
+import { BackendHttpClient } from './pipeline';
 
 // VAST TAMS specific types
 export interface VastTamsSegment {
@@ -149,12 +151,12 @@ export interface VastTamsFlowDeleteRequest {
 
 // VAST TAMS API Client
 export class VastTamsApiClient {
-  private baseUrl: string;
   private config: BackendApiConfig;
+  private http: BackendHttpClient;
 
-  constructor(config: BackendApiConfig) {
+  constructor(config: BackendApiConfig, policy: RequestPolicy = {}) {
     this.config = config;
-    this.baseUrl = config.baseUrl;
+    this.http = new BackendHttpClient(config, policy);
   }
 
   /**
@@ -176,7 +178,6 @@ export class VastTamsApiClient {
     queryParams: BBCApiOptions = {}
   ): Promise<BBCApiResponse<T>> {
     const queryString = buildBBCQueryString(queryParams);
-    const url = `${this.baseUrl}${endpoint}${queryString}`;
     
     const defaultOptions: RequestInit = {
       headers: {
@@ -187,12 +188,15 @@ export class VastTamsApiClient {
       ...options,
     };
 
+    // 503 is valid for health endpoint (degraded service) - handle it specially
+    // Check if this is a health endpoint request
+    const isHealthEndpoint = endpoint === '/health' || endpoint.endsWith('/health');
+    const policy: RequestPolicy = isHealthEndpoint
+      ? { retryableStatuses: [408, 429, 502, 504] }
+      : {};
+
     try {
-      const response = await fetch(url, defaultOptions);
-      
-      // 503 is valid for health endpoint (degraded service) - handle it specially
-      // Check if this is a health endpoint request
-      const isHealthEndpoint = endpoint === '/health' || endpoint.endsWith('/health');
+      const response = await this.http.fetch(`${endpoint}${queryString}`, defaultOptions, policy);
       
       if (!response.ok) {
         // For health endpoint, 503 means degraded but available
@@ -226,7 +230,7 @@ export class VastTamsApiClient {
             } as BBCApiResponse<T>;
           }
         }
-        throw new Error(`TAMS API error: ${response.status} ${response.statusText}`);
+        throw await this.http.error(response);
       }
 
       // Handle empty responses
@@ -272,119 +276,127 @@ export class VastTamsApiClient {
         links
       };
     } catch (error) {
-      console.error(`VAST TAMS API request error for ${endpoint}:`, error);
+      if (!isAbortError(error)) {
+        console.error(`VAST TAMS API request error for ${endpoint}:`, error);
+      }
       throw error;
     }
   }
 
   // Health and System Information
-  async getHealth(): Promise<VastTamsHealth> {
+  async getHealth(options: RequestOptions = {}): Promise<VastTamsHealth> {
     // Health endpoint can return 503 for degraded service, which is valid
     // The makeRequest method now handles 503 for /health endpoint specially
-    const response = await this.makeRequest<VastTamsHealth>('/health');
+    const response = await this.makeRequest<VastTamsHealth>('/health', signalInit(options));
     return this.getFirstItem(response, 'Health data not available');
   }
 
-  async getMetrics(): Promise<any> {
-    const response = await this.makeRequest<any>('/metrics');
+  async getMetrics(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/metrics', signalInit(options));
     return this.getFirstItem(response, 'Metrics data not available');
   }
 
-  async getService(): Promise<any> {
-    const response = await this.makeRequest<any>('/');
+  async getService(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/', signalInit(options));
     return this.getFirstItem(response, 'Service data not available');
   }
 
   // Sources API
   async getSources(options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsSource>> {
-    return this.makeRequest<VastTamsSource>('/sources', { method: 'GET' }, options);
+    return this.makeRequest<VastTamsSource>('/sources', { method: 'GET', ...signalInit(options) }, options);
   }
 
-  async getSource(id: string): Promise<VastTamsSource> {
-    const response = await this.makeRequest<VastTamsSource>(`/sources/${id}`);
+  async getSource(id: string, options: RequestOptions = {}): Promise<VastTamsSource> {
+    const response = await this.makeRequest<VastTamsSource>(`/sources/${id}`, signalInit(options));
     return this.getFirstItem(response, `Source ${id} not found`);
   }
 
-  async createSource(source: Partial<VastTamsSource>): Promise<VastTamsSource> {
+  async createSource(source: Partial<VastTamsSource>, options: RequestOptions = {}): Promise<VastTamsSource> {
     const response = await this.makeRequest<VastTamsSource>('/sources', {
       method: 'POST',
-      body: JSON.stringify(source)
+      body: JSON.stringify(source),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async updateSource(id: string, source: Partial<VastTamsSource>): Promise<VastTamsSource> {
+  async updateSource(id: string, source: Partial<VastTamsSource>, options: RequestOptions = {}): Promise<VastTamsSource> {
     const response = await this.makeRequest<VastTamsSource>(`/sources/${id}`, {
       method: 'PUT',
-      body: JSON.stringify(source)
+      body: JSON.stringify(source),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async deleteSource(id: string, options: { softDelete?: boolean; cascade?: boolean; deletedBy?: string } = {}): Promise<void> {
+  async deleteSource(id: string, options: { softDelete?: boolean; cascade?: boolean; deletedBy?: string } = {}, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams: BBCApiOptions = {};
     if (options.softDelete) queryParams.custom = { soft_delete: 'true' };
     if (options.cascade) queryParams.custom = { ...queryParams.custom, cascade: 'true' };
     if (options.deletedBy) queryParams.custom = { ...queryParams.custom, deleted_by: options.deletedBy };
 
-    await this.makeRequest(`/sources/${id}`, { method: 'DELETE' }, queryParams);
+    await this.makeRequest(`/sources/${id}`, { method: 'DELETE', ...signalInit(requestOptions) }, queryParams);
   }
 
-  async restoreSource(id: string): Promise<VastTamsSource> {
+  async restoreSource(id: string, options: RequestOptions = {}): Promise<VastTamsSource> {
     const response = await this.makeRequest<VastTamsSource>(`/sources/${id}/restore`, {
-      method: 'POST'
+      method: 'POST',
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Flows API
   async getFlows(options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsFlow>> {
-    return this.makeRequest<VastTamsFlow>('/flows', { method: 'GET' }, options);
+    return this.makeRequest<VastTamsFlow>('/flows', { method: 'GET', ...signalInit(options) }, options);
   }
 
-  async getFlow(id: string): Promise<VastTamsFlow> {
-    const response = await this.makeRequest<VastTamsFlow>(`/flows/${id}`);
+  async getFlow(id: string, options: RequestOptions = {}): Promise<VastTamsFlow> {
+    const response = await this.makeRequest<VastTamsFlow>(`/flows/${id}`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async createFlow(flow: Partial<VastTamsFlow>): Promise<VastTamsFlow> {
+  async createFlow(flow: Partial<VastTamsFlow>, options: RequestOptions = {}): Promise<VastTamsFlow> {
     const response = await this.makeRequest<VastTamsFlow>('/flows', {
       method: 'POST',
-      body: JSON.stringify(flow)
+      body: JSON.stringify(flow),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async updateFlow(id: string, flow: Partial<VastTamsFlow>): Promise<VastTamsFlow> {
+  async updateFlow(id: string, flow: Partial<VastTamsFlow>, options: RequestOptions = {}): Promise<VastTamsFlow> {
     const response = await this.makeRequest<VastTamsFlow>(`/flows/${id}`, {
       method: 'PUT',
-      body: JSON.stringify(flow)
+      body: JSON.stringify(flow),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async deleteFlow(id: string, options: { softDelete?: boolean; cascade?: boolean; deletedBy?: string } = {}): Promise<void> {
+  async deleteFlow(id: string, options: { softDelete?: boolean; cascade?: boolean; deletedBy?: string } = {}, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams: BBCApiOptions = {};
     if (options.softDelete) queryParams.custom = { soft_delete: 'true' };
     if (options.cascade) queryParams.custom = { ...queryParams.custom, cascade: 'true' };
     if (options.deletedBy) queryParams.custom = { ...queryParams.custom, deleted_by: options.deletedBy };
 
-    await this.makeRequest(`/flows/${id}`, { method: 'DELETE' }, queryParams);
+    await this.makeRequest(`/flows/${id}`, { method: 'DELETE', ...signalInit(requestOptions) }, queryParams);
   }
 
-  async restoreFlow(id: string): Promise<VastTamsFlow> {
+  async restoreFlow(id: string, options: RequestOptions = {}): Promise<VastTamsFlow> {
     const response = await this.makeRequest<VastTamsFlow>(`/flows/${id}/restore`, {
-      method: 'POST'
+      method: 'POST',
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Segments API
   async getFlowSegments(flowId: string, options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsSegment>> {
-    return this.makeRequest<VastTamsSegment>(`/flows/${flowId}/segments`, { method: 'GET' }, options);
+    return this.makeRequest<VastTamsSegment>(`/flows/${flowId}/segments`, { method: 'GET', ...signalInit(options) }, options);
   }
 
-  async createFlowSegment(flowId: string, segment: Partial<VastTamsSegment>, file?: File): Promise<VastTamsSegment> {
+  async createFlowSegment(flowId: string, segment: Partial<VastTamsSegment>, file?: File, options: RequestOptions = {}): Promise<VastTamsSegment> {
     if (file) {
       // Handle file upload with multipart form data
       const formData = new FormData();
@@ -396,169 +408,178 @@ export class VastTamsApiClient {
         body: formData,
         headers: {
           // Don't set Content-Type for FormData, let the browser set it
-        }
+        },
+        ...signalInit(options)
       });
       return this.getFirstItem(response, 'Data not available');
     } else {
       // Handle JSON-only segment creation
       const response = await this.makeRequest<VastTamsSegment>(`/flows/${flowId}/segments`, {
         method: 'POST',
-        body: JSON.stringify(segment)
+        body: JSON.stringify(segment),
+        ...signalInit(options)
       });
       return this.getFirstItem(response, 'Data not available');
     }
   }
 
-  async deleteFlowSegments(flowId: string, options: { timerange?: string; softDelete?: boolean; deletedBy?: string } = {}): Promise<void> {
+  async deleteFlowSegments(flowId: string, options: { timerange?: string; softDelete?: boolean; deletedBy?: string } = {}, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams: BBCApiOptions = {};
     if (options.timerange) queryParams.timerange = options.timerange;
     if (options.softDelete) queryParams.custom = { soft_delete: 'true' };
     if (options.deletedBy) queryParams.custom = { ...queryParams.custom, deleted_by: options.deletedBy };
 
-    await this.makeRequest(`/flows/${flowId}/segments`, { method: 'DELETE' }, queryParams);
+    await this.makeRequest(`/flows/${flowId}/segments`, { method: 'DELETE', ...signalInit(requestOptions) }, queryParams);
   }
 
   // Objects API
   async getObjects(options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsObject>> {
-    return this.makeRequest<VastTamsObject>('/objects', { method: 'GET' }, options);
+    return this.makeRequest<VastTamsObject>('/objects', { method: 'GET', ...signalInit(options) }, options);
   }
 
-  async getObject(id: string): Promise<VastTamsObject> {
-    const response = await this.makeRequest<VastTamsObject>(`/objects/${id}`);
+  async getObject(id: string, options: RequestOptions = {}): Promise<VastTamsObject> {
+    const response = await this.makeRequest<VastTamsObject>(`/objects/${id}`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async createObject(object: Partial<VastTamsObject>): Promise<VastTamsObject> {
+  async createObject(object: Partial<VastTamsObject>, options: RequestOptions = {}): Promise<VastTamsObject> {
     const response = await this.makeRequest<VastTamsObject>('/objects', {
       method: 'POST',
-      body: JSON.stringify(object)
+      body: JSON.stringify(object),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async deleteObject(id: string, options: { softDelete?: boolean; deletedBy?: string } = {}): Promise<void> {
+  async deleteObject(id: string, options: { softDelete?: boolean; deletedBy?: string } = {}, requestOptions: RequestOptions = {}): Promise<void> {
     const queryParams: BBCApiOptions = {};
     if (options.softDelete) queryParams.custom = { soft_delete: 'true' };
     if (options.deletedBy) queryParams.custom = { ...queryParams.custom, deleted_by: options.deletedBy };
 
-    await this.makeRequest(`/objects/${id}`, { method: 'DELETE' }, queryParams);
+    await this.makeRequest(`/objects/${id}`, { method: 'DELETE', ...signalInit(requestOptions) }, queryParams);
   }
 
   // Flow Field Operations
   async getFlowField<T = any>(flowId: string, fieldKey: string, options?: BBCApiOptions): Promise<T> {
-    const response = await this.makeRequest<T>(`/flows/${flowId}/${fieldKey}`, { method: 'GET' }, options);
+    const response = await this.makeRequest<T>(`/flows/${flowId}/${fieldKey}`, { method: 'GET', ...signalInit(options) }, options);
     return this.getFirstItem(response, 'Data not available');
   }
 
   async updateFlowField<T = any>(flowId: string, fieldKey: string, value: T, options?: BBCApiOptions): Promise<T> {
     const response = await this.makeRequest<T>(`/flows/${flowId}/${fieldKey}`, {
       method: 'PUT',
-      body: JSON.stringify(value)
+      body: JSON.stringify(value),
+      ...signalInit(options)
     }, options);
     return this.getFirstItem(response, 'Data not available');
   }
 
   async deleteFlowField(flowId: string, fieldKey: string, options?: BBCApiOptions): Promise<void> {
-    await this.makeRequest(`/flows/${flowId}/${fieldKey}`, { method: 'DELETE' }, options);
+    await this.makeRequest(`/flows/${flowId}/${fieldKey}`, { method: 'DELETE', ...signalInit(options) }, options);
   }
 
   // Flow Tags Management
-  async getFlowTags(flowId: string): Promise<Record<string, string>> {
-    const response = await this.makeRequest<Record<string, string>>(`/flows/${flowId}/tags`);
+  async getFlowTags(flowId: string, options: RequestOptions = {}): Promise<Record<string, string>> {
+    const response = await this.makeRequest<Record<string, string>>(`/flows/${flowId}/tags`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async setFlowTag(flowId: string, tagName: string, tagValue: string): Promise<any> {
+  async setFlowTag(flowId: string, tagName: string, tagValue: string, options: RequestOptions = {}): Promise<any> {
     const response = await this.makeRequest<any>(`/flows/${flowId}/tags/${tagName}`, {
       method: 'PUT',
-      body: JSON.stringify({ value: tagValue })
+      body: JSON.stringify({ value: tagValue }),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async deleteFlowTag(flowId: string, tagName: string): Promise<void> {
-    await this.makeRequest(`/flows/${flowId}/tags/${tagName}`, { method: 'DELETE' });
+  async deleteFlowTag(flowId: string, tagName: string, options: RequestOptions = {}): Promise<void> {
+    await this.makeRequest(`/flows/${flowId}/tags/${tagName}`, { method: 'DELETE', ...signalInit(options) });
   }
 
   // Flow Collection Management
-  async getFlowCollection(flowId: string): Promise<VastTamsFlowCollection> {
-    const response = await this.makeRequest<VastTamsFlowCollection>(`/flows/${flowId}/flow_collection`);
+  async getFlowCollection(flowId: string, options: RequestOptions = {}): Promise<VastTamsFlowCollection> {
+    const response = await this.makeRequest<VastTamsFlowCollection>(`/flows/${flowId}/flow_collection`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async setFlowCollection(flowId: string, collectionId: string): Promise<VastTamsFlowCollection> {
+  async setFlowCollection(flowId: string, collectionId: string, options: RequestOptions = {}): Promise<VastTamsFlowCollection> {
     const response = await this.makeRequest<VastTamsFlowCollection>(`/flows/${flowId}/flow_collection`, {
       method: 'PUT',
-      body: JSON.stringify({ collection_id: collectionId })
+      body: JSON.stringify({ collection_id: collectionId }),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async removeFlowFromCollection(flowId: string): Promise<void> {
-    await this.makeRequest(`/flows/${flowId}/flow_collection`, { method: 'DELETE' });
+  async removeFlowFromCollection(flowId: string, options: RequestOptions = {}): Promise<void> {
+    await this.makeRequest(`/flows/${flowId}/flow_collection`, { method: 'DELETE', ...signalInit(options) });
   }
 
   // Flow Read-Only Status Management
-  async getFlowReadOnly(flowId: string): Promise<{ read_only: boolean }> {
-    const response = await this.makeRequest<{ read_only: boolean }>(`/flows/${flowId}/read_only`);
+  async getFlowReadOnly(flowId: string, options: RequestOptions = {}): Promise<{ read_only: boolean }> {
+    const response = await this.makeRequest<{ read_only: boolean }>(`/flows/${flowId}/read_only`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async setFlowReadOnly(flowId: string, readOnly: boolean): Promise<{ read_only: boolean }> {
+  async setFlowReadOnly(flowId: string, readOnly: boolean, options: RequestOptions = {}): Promise<{ read_only: boolean }> {
     const response = await this.makeRequest<{ read_only: boolean }>(`/flows/${flowId}/read_only`, {
       method: 'PUT',
-      body: JSON.stringify({ read_only: readOnly })
+      body: JSON.stringify({ read_only: readOnly }),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Flow Description Management
-  async getFlowDescription(flowId: string): Promise<{ description: string }> {
-    const response = await this.makeRequest<{ description: string }>(`/flows/${flowId}/description`);
+  async getFlowDescription(flowId: string, options: RequestOptions = {}): Promise<{ description: string }> {
+    const response = await this.makeRequest<{ description: string }>(`/flows/${flowId}/description`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async setFlowDescription(flowId: string, description: string): Promise<{ description: string }> {
+  async setFlowDescription(flowId: string, description: string, options: RequestOptions = {}): Promise<{ description: string }> {
     const response = await this.makeRequest<{ description: string }>(`/flows/${flowId}/description`, {
       method: 'PUT',
-      body: JSON.stringify({ description })
+      body: JSON.stringify({ description }),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Flow Label Management
-  async getFlowLabel(flowId: string): Promise<{ label: string }> {
-    const response = await this.makeRequest<{ label: string }>(`/flows/${flowId}/label`);
+  async getFlowLabel(flowId: string, options: RequestOptions = {}): Promise<{ label: string }> {
+    const response = await this.makeRequest<{ label: string }>(`/flows/${flowId}/label`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async setFlowLabel(flowId: string, label: string): Promise<{ label: string }> {
+  async setFlowLabel(flowId: string, label: string, options: RequestOptions = {}): Promise<{ label: string }> {
     const response = await this.makeRequest<{ label: string }>(`/flows/${flowId}/label`, {
       method: 'PUT',
-      body: JSON.stringify({ label })
+      body: JSON.stringify({ label }),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Analytics API
-  async getFlowUsageAnalytics(): Promise<any> {
-    const response = await this.makeRequest<any>('/analytics/flow-usage');
+  async getFlowUsageAnalytics(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/analytics/flow-usage', signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async getStorageUsageAnalytics(): Promise<any> {
-    const response = await this.makeRequest<any>('/analytics/storage-usage');
+  async getStorageUsageAnalytics(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/analytics/storage-usage', signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async getTimeRangeAnalytics(): Promise<any> {
-    const response = await this.makeRequest<any>('/analytics/time-range-analysis');
+  async getTimeRangeAnalytics(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/analytics/time-range-analysis', signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Webhooks API
   async getWebhooks(options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsWebhook>> {
-    return this.makeRequest<VastTamsWebhook>('/service/webhooks', { method: 'GET' }, options);
+    return this.makeRequest<VastTamsWebhook>('/service/webhooks', { method: 'GET', ...signalInit(options) }, options);
   }
 
   async createWebhook(webhookData: {
@@ -567,10 +588,11 @@ export class VastTamsApiClient {
     api_key_name?: string;
     api_key_value?: string;
     owner_id?: string;
-  }): Promise<VastTamsWebhook> {
+  }, options: RequestOptions = {}): Promise<VastTamsWebhook> {
     const response = await this.makeRequest<VastTamsWebhook>('/service/webhooks', {
       method: 'POST',
-      body: JSON.stringify(webhookData)
+      body: JSON.stringify(webhookData),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
@@ -581,38 +603,40 @@ export class VastTamsApiClient {
     api_key_name?: string;
     api_key_value?: string;
     owner_id?: string;
-  }): Promise<VastTamsWebhook> {
+  }, options: RequestOptions = {}): Promise<VastTamsWebhook> {
     const response = await this.makeRequest<VastTamsWebhook>(`/service/webhooks/${webhookId}`, {
       method: 'PUT',
-      body: JSON.stringify(webhookData)
+      body: JSON.stringify(webhookData),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async deleteWebhook(webhookId: string): Promise<void> {
-    await this.makeRequest(`/service/webhooks/${webhookId}`, { method: 'DELETE' });
+  async deleteWebhook(webhookId: string, options: RequestOptions = {}): Promise<void> {
+    await this.makeRequest(`/service/webhooks/${webhookId}`, { method: 'DELETE', ...signalInit(options) });
   }
 
-  async testWebhook(webhookId: string): Promise<any> {
+  async testWebhook(webhookId: string, options: RequestOptions = {}): Promise<any> {
     const response = await this.makeRequest<any>(`/service/webhooks/${webhookId}/test`, {
-      method: 'POST'
+      method: 'POST',
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async getWebhookHistory(webhookId: string): Promise<any> {
-    const response = await this.makeRequest<any>(`/service/webhooks/${webhookId}/history`);
+  async getWebhookHistory(webhookId: string, options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>(`/service/webhooks/${webhookId}/history`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async getWebhookStats(webhookId: string): Promise<any> {
-    const response = await this.makeRequest<any>(`/service/webhooks/${webhookId}/stats`);
+  async getWebhookStats(webhookId: string, options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>(`/service/webhooks/${webhookId}/stats`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
-  async getWebhookEventTypes(): Promise<string[]> {
+  async getWebhookEventTypes(options: RequestOptions = {}): Promise<string[]> {
     try {
-      const response = await this.makeRequest<{ events?: string[] }>('/service/webhook-events');
+      const response = await this.makeRequest<{ events?: string[] }>('/service/webhook-events', signalInit(options));
       return response.data[0]?.events || [];
     } catch (error) {
       console.warn('Could not retrieve webhook event types, using fallback:', error);
@@ -632,18 +656,18 @@ export class VastTamsApiClient {
   }
 
   // Storage Allocation API
-  async getStorageAllocation(flowId: string): Promise<VastTamsStorageAllocation> {
-    const response = await this.makeRequest<VastTamsStorageAllocation>(`/flows/${flowId}/storage`);
+  async getStorageAllocation(flowId: string, options: RequestOptions = {}): Promise<VastTamsStorageAllocation> {
+    const response = await this.makeRequest<VastTamsStorageAllocation>(`/flows/${flowId}/storage`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
   // Flow Delete Requests API
   async getFlowDeleteRequests(options: BBCApiOptions = {}): Promise<BBCApiResponse<VastTamsFlowDeleteRequest>> {
-    return this.makeRequest<VastTamsFlowDeleteRequest>('/flow-delete-requests', { method: 'GET' }, options);
+    return this.makeRequest<VastTamsFlowDeleteRequest>('/flow-delete-requests', { method: 'GET', ...signalInit(options) }, options);
   }
 
-  async getFlowDeleteRequest(requestId: string): Promise<VastTamsFlowDeleteRequest> {
-    const response = await this.makeRequest<VastTamsFlowDeleteRequest>(`/flow-delete-requests/${requestId}`);
+  async getFlowDeleteRequest(requestId: string, options: RequestOptions = {}): Promise<VastTamsFlowDeleteRequest> {
+    const response = await this.makeRequest<VastTamsFlowDeleteRequest>(`/flow-delete-requests/${requestId}`, signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 
@@ -651,10 +675,11 @@ export class VastTamsApiClient {
     flow_id: string;
     requested_by: string;
     reason?: string;
-  }): Promise<VastTamsFlowDeleteRequest> {
+  }, options: RequestOptions = {}): Promise<VastTamsFlowDeleteRequest> {
     const response = await this.makeRequest<VastTamsFlowDeleteRequest>('/flow-delete-requests', {
       method: 'POST',
-      body: JSON.stringify(requestData)
+      body: JSON.stringify(requestData),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
@@ -663,10 +688,11 @@ export class VastTamsApiClient {
     status?: 'pending' | 'approved' | 'rejected' | 'completed';
     approved_by?: string;
     reason?: string;
-  }): Promise<VastTamsFlowDeleteRequest> {
+  }, options: RequestOptions = {}): Promise<VastTamsFlowDeleteRequest> {
     const response = await this.makeRequest<VastTamsFlowDeleteRequest>(`/flow-delete-requests/${requestId}`, {
       method: 'PUT',
-      body: JSON.stringify(updates)
+      body: JSON.stringify(updates),
+      ...signalInit(options)
     });
     return this.getFirstItem(response, 'Data not available');
   }
@@ -711,13 +737,13 @@ export class VastTamsApiClient {
   }
 
   // OpenAPI specification
-  async getOpenApiSpec(): Promise<any> {
-    const response = await this.makeRequest<any>('/openapi.json');
+  async getOpenApiSpec(options: RequestOptions = {}): Promise<any> {
+    const response = await this.makeRequest<any>('/openapi.json', signalInit(options));
     return this.getFirstItem(response, 'Data not available');
   }
 }
 
 // Export singleton instance factory
-export function createVastTamsApiClient(config: BackendApiConfig): VastTamsApiClient {
-  return new VastTamsApiClient(config);
+export function createVastTamsApiClient(config: BackendApiConfig, policy: RequestPolicy = {}): VastTamsApiClient {
+  return new VastTamsApiClient(config, policy);
 }
@@ -15,6 +15,10 @@ export interface BackendContextState {
   isLoading: boolean;
   error: string | null;
   lastSwitchTime: Date | null;
+  // What the connected server reported and served at connect time; null until discovered
+  capabilities: BackendCapabilities | null;
+  // Backends the Sources and Flows pages list together; federated mode needs at least two
+  federatedBackendIds: string[];
 }
 
 /**
@@ -25,12 +29,18 @@ export interface BackendContextActions {
   refreshBackend: () => Promise<void>;
   testBackendConnection: (backendId: string) => Promise<boolean>;
   clearError: () => void;
+  setFederatedBackends: (backendIds: string[]) => void;
 }
 
 /**
  * Backend context value
  */
-export interface BackendContextValue extends BackendContextState, BackendContextActions {}
+export interface BackendContextValue extends BackendContextState, BackendContextActions {
+  // Configured feature support, overridden by what discovery found on the connected server
+  features: BackendApiConfig['features'];
+  // Configs of `federatedBackendIds`
+  federatedBackends: BackendApiConfig[];
+}
 
 /**
  * Backend feature types
@@ -45,6 +55,35 @@ export type BackendFeature =
   | 'asyncOperations'
   | 'healthMonitoring';
 
+/**
+ * Optional endpoints probed when connecting to a backend
+ */
+export type OptionalEndpoint =
+  | 'health'
+  | 'metrics'
+  | 'search'
+  | 'webhooks'
+  | 'flowDeleteRequests'
+  | 'qcStatistics';
+
+/**
+ * Probe outcome; 'unknown' when the server could not answer (network error, 5xx)
+ */
+export type EndpointSupport = 'available' | 'unavailable' | 'unknown';
+
+/**
+ * Capabilities discovered from a backend's /service endpoint and endpoint probes
+ */
+export interface BackendCapabilities {
+  backendId: string;
+  apiVersion?: string;
+  serviceVersion?: string;
+  eventStreamMechanisms: string[];
+  storageBackends: string[];
+  endpoints: Record<OptionalEndpoint, EndpointSupport>;
+  discoveredAt: Date;
+}
+
 /**
  * Backend feature support map
  */
@@ -105,6 +144,300 @@ export interface BackendValidationResult {
   suggestions: string[];
 }
 
+/**
+ * What the "Add backend" wizard collects for a runtime backend profile
+ */
+export interface BackendProfileDraft {
+  name: string;
+  description?: string;
+  baseUrl: string;
+  // Adapter that speaks to the backend
+  type: BackendApiConfig['type'];
+  auth: NonNullable<BackendApiConfig['auth']>;
+  // Endpoint paths that differ from the adapter's defaults
+  endpoints?: Partial<BackendApiConfig['endpoints']>;
+  // Client-side limit; 0 for none
+  requestsPerMinute?: number;
+}
+
+/**
+ * Outcome of importing shared backend profiles
+ */
+export interface BackendProfileImportResult {
+  imported: BackendApiConfig[];
+  // Profiles left out, with the reason
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * An entity listed in federated mode, tagged with the backend it came from
+ */
+export type FederatedItem<T> = T & { backendId: string };
+
+/**
+ * Entities listed from several backends; a backend that failed is left out and reported
+ */
+export interface FederatedListResult<T> {
+  items: FederatedItem<T>[];
+  // Items listed per backend
+  counts: Record<string, number>;
+  // Error message per failed backend
+  errors: Record<string, string>;
+}
+
+export type StoreDifferenceKind = 'missing' | 'metadata' | 'coverage';
+
+/**
+ * A source or flow that is not the same in two stores
+ */
+export interface StoreDifference {
+  entity: 'source' | 'flow';
+  id: string;
+  label?: string;
+  kind: StoreDifferenceKind;
+  // 'missing': the backend without the entity
+  missingFrom?: string;
+  // 'metadata': fields with different values
+  fields?: Array<{ field: string; a: unknown; b: unknown }>;
+  // 'coverage': timeranges with segments in one store only
+  onlyInA?: string[];
+  onlyInB?: string[];
+}
+
+/**
+ * Differences between two stores that should hold the same content
+ */
+export interface StoreComparison {
+  backendA: string;
+  backendB: string;
+  differences: StoreDifference[];
+  compared: { sources: number; flows: number; coverage: number };
+  comparedAt: Date;
+}
+
+/**
+ * What to replicate: a source, its flows and the segments within a timerange
+ */
+export interface ReplicationRequest {
+  sourceId: string;
+  fromBackendId: string;
+  toBackendId: string;
+  // All segments when omitted
+  timerange?: string;
+}
+
+export type ReplicationStepKind = 'source' | 'flow' | 'collection' | 'segment';
+
+export type ReplicationStepStatus = 'pending' | 'done' | 'skipped' | 'failed';
+
+/**
+ * One write to the target store; a job resumes from its first step not yet done
+ */
+export interface ReplicationStep {
+  kind: ReplicationStepKind;
+  // Source or flow ID
+  id: string;
+  label?: string;
+  // 'collection': the collection flow the flow joins
+  collectionId?: string;
+  // 'segment'
+  timerange?: string;
+  objectId?: string;
+  // 'segment': register the source's object ID, or download and upload the media
+  transfer?: 'reference' | 'copy';
+  status: ReplicationStepStatus;
+  // Why a step was skipped or failed
+  note?: string;
+}
+
+export type ReplicationJobStatus = 'planned' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A replication plan and its progress, persisted so a failed run can resume
+ */
+export interface ReplicationJob extends ReplicationRequest {
+  id: string;
+  sourceLabel?: string;
+  // Both stores use a common storage backend, so segments reference existing objects
+  sharedStorage: boolean;
+  status: ReplicationJobStatus;
+  steps: ReplicationStep[];
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type IngestSegmentStatus = 'pending' | 'uploaded' | 'registered' | 'failed';
+
+/**
+ * A byte range of the ingested file and the timerange it is registered under
+ */
+export interface IngestSegment {
+  index: number;
+  byteStart: number;
+  // Exclusive
+  byteEnd: number;
+  timerange: string;
+  // Set once the bytes are in storage, or when a multipart upload of them starts
+  objectId?: string;
+  // Bytes in storage while the segment uploads in parts
+  uploadedBytes?: number;
+  status: IngestSegmentStatus;
+  error?: string;
+}
+
+export interface IngestRequest {
+  backendId: string;
+  flowId: string;
+  // Flow to create before the first segment; absent when ingesting into an existing flow
+  flow?: Record<string, unknown>;
+  // Media duration, and the shortest segment an MPEG-TS file is cut into, in seconds
+  durationSeconds: number;
+  segmentSeconds?: number;
+  // TAI start of the first segment, as `<seconds>:<nanoseconds>`
+  start: string;
+}
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * An ingest and its progress, persisted with the file so an interrupted ingest can resume
+ */
+export interface IngestJob extends IngestRequest {
+  id: string;
+  flowLabel?: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  // The flow in `flow` exists on the backend
+  flowCreated: boolean;
+  status: IngestJobStatus;
+  segments: IngestSegment[];
+  // Large segments went up with a single PUT: the backend does not presign multipart uploads
+  singlePut?: boolean;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MultipartPartStatus = 'pending' | 'uploaded';
+
+/**
+ * One part of a multipart upload; part numbers start at 1
+ */
+export interface MultipartPart {
+  partNumber: number;
+  byteStart: number;
+  // Exclusive
+  byteEnd: number;
+  status: MultipartPartStatus;
+  // From the store's response to the part upload; needed to complete the upload
+  etag?: string;
+  // Base64 CRC32C of the part's bytes
+  checksum?: string;
+}
+
+/**
+ * Checkpoint of a multipart upload of one media object, saved after every part so a
+ * reload resumes with the parts not yet uploaded
+ */
+export interface MultipartUpload {
+  // `<backendId>/<flowId>/<objectId>`
+  id: string;
+  backendId: string;
+  flowId: string;
+  objectId: string;
+  // The store's upload ID from initiation
+  uploadId: string;
+  // Identify the file when it is chosen again after a reload
+  fileName: string;
+  fileSize: number;
+  fileLastModified?: number;
+  partSize: number;
+  parts: MultipartPart[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Progress of a multipart upload by part
+ */
+export interface MultipartProgress {
+  // Bytes of the parts in storage
+  uploadedBytes: number;
+  totalBytes: number;
+  partsUploaded: number;
+  partsTotal: number;
+  // Numbers of the parts being sent
+  partsInFlight: number[];
+}
+
+export type SegmentImportStatus = 'pending' | 'uploading' | 'uploaded' | 'registered' | 'failed';
+
+/**
+ * One chunk of a bulk segment import and the TAMS segment it becomes
+ */
+export interface SegmentImportItem {
+  index: number;
+  name: string;
+  durationSeconds: number;
+  // Media time of the chunk's first sample, when known from the manifest or by probing
+  mediaStartSeconds?: number;
+  timerange: string;
+  // Segment timestamp minus media timestamp; omitted when zero
+  tsOffset?: string;
+  objectId?: string;
+  status: SegmentImportStatus;
+  error?: string;
+}
+
+export type CoverageIssueKind =
+  | 'gap'
+  | 'overlap'
+  | 'duplicate_object'
+  | 'ts_offset'
+  | 'sample_count';
+
+export type CoverageSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * One problem found in a flow's segments
+ */
+export interface CoverageIssue {
+  kind: CoverageIssueKind;
+  severity: CoverageSeverity;
+  message: string;
+  // Where on the flow's timeline the problem is
+  timerange?: string;
+  // Positions of the segments involved, in timeline order
+  segments: number[];
+  objectId?: string;
+}
+
+/**
+ * Coverage of a flow's timeline by its segments, and what is wrong with them
+ */
+export interface FlowCoverageReport {
+  flowId: string;
+  analysedAt: string;
+  segmentCount: number;
+  // Segments left out of the analysis as they have no bounded timerange
+  skippedSegments: number;
+  // From the first segment's start to the last one's end; null without bounded segments
+  span: string | null;
+  // The flow's own timerange, which gaps at either end are measured against
+  flowTimerange?: string;
+  // Merged timeranges that have media
+  covered: string[];
+  gaps: string[];
+  overlaps: string[];
+  spanSeconds: number;
+  coveredSeconds: number;
+  issues: CoverageIssue[];
+}
+
 /**
  * Backend feature comparison result
  */
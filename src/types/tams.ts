@@ -0,0 +1,329 @@
+/**
+ * TAMS Schema Type Definitions
+ *
+ * Domain model for the Time-addressable Media Store API, following the schemas in the
+ * TAMS OpenAPI specification (source, flow, flow-segment, object, webhook,
+ * deletion-request and service). Every backend client is typed against these shapes;
+ * backend-specific wire formats are decoded into them by `services/tamsDecoders`.
+ */
+
+/**
+ * Version of the TAMS API specification these types follow
+ */
+export const TAMS_SCHEMA_VERSION = '6.0';
+
+export type TamsUuid = string;
+export type TamsTimerangeString = string; // e.g. "[0:0_10:0)", see utils/timerange
+export type TamsDateTime = string; // RFC 3339
+export type TamsTags = Record<string, string | string[]>;
+// Query parameter values of the list endpoints, e.g. source_id or include_timerange
+export type TamsQueryValue = string | number | boolean;
+
+export interface TamsRational {
+  numerator: number;
+  denominator?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+export type TamsContentFormat =
+  | 'urn:x-nmos:format:video'
+  | 'urn:x-nmos:format:audio'
+  | 'urn:x-nmos:format:data'
+  | 'urn:x-nmos:format:multi'
+  | 'urn:x-tam:format:image';
+
+export interface CollectionItem {
+  id: TamsUuid;
+  role?: string;
+}
+
+export interface Source {
+  id: TamsUuid;
+  format: TamsContentFormat;
+  label?: string;
+  description?: string;
+  created_by?: string;
+  updated_by?: string;
+  created?: TamsDateTime;
+  updated?: TamsDateTime;
+  tags?: TamsTags;
+  source_collection?: CollectionItem[];
+  collected_by?: TamsUuid[];
+}
+
+// ---------------------------------------------------------------------------
+// Flows
+// ---------------------------------------------------------------------------
+
+export interface FlowCollectionItem extends CollectionItem {
+  container_mapping?: Record<string, unknown>;
+}
+
+/**
+ * Properties shared by all flow formats (flow-core in the specification)
+ */
+export interface FlowCore {
+  id: TamsUuid;
+  source_id: TamsUuid;
+  generation?: number;
+  metadata_version?: string;
+  created?: TamsDateTime;
+  metadata_updated?: TamsDateTime;
+  segments_updated?: TamsDateTime;
+  created_by?: string;
+  updated_by?: string;
+  tags?: TamsTags;
+  label?: string;
+  description?: string;
+  read_only?: boolean;
+  max_bit_rate?: number;
+  avg_bit_rate?: number;
+  timerange?: TamsTimerangeString;
+  codec?: string;
+  container?: string;
+  segment_duration?: TamsRational;
+  flow_collection?: FlowCollectionItem[];
+  collected_by?: TamsUuid[];
+}
+
+export interface VideoEssenceParameters {
+  frame_rate?: TamsRational;
+  frame_width: number;
+  frame_height: number;
+  bit_depth?: number;
+  interlace_mode?: 'progressive' | 'interlaced_tff' | 'interlaced_bff' | 'interlaced_psf';
+  colorspace?: string;
+  transfer_characteristic?: string;
+  aspect_ratio?: TamsRational;
+  pixel_aspect_ratio?: TamsRational;
+  component_type?: string;
+  vertical_chroma_subs?: number;
+  horizontal_chroma_subs?: number;
+  avc_parameters?: Record<string, unknown>;
+  unc_parameters?: Record<string, unknown>;
+}
+
+export interface AudioEssenceParameters {
+  sample_rate?: number;
+  channels?: number;
+  bit_depth?: number;
+  codec_parameters?: Record<string, unknown>;
+  unc_parameters?: Record<string, unknown>;
+}
+
+export interface DataEssenceParameters {
+  data_type?: string;
+}
+
+export interface ImageEssenceParameters {
+  frame_width: number;
+  frame_height: number;
+}
+
+export interface VideoFlow extends FlowCore {
+  format: 'urn:x-nmos:format:video';
+  essence_parameters: VideoEssenceParameters;
+}
+
+export interface AudioFlow extends FlowCore {
+  format: 'urn:x-nmos:format:audio';
+  essence_parameters: AudioEssenceParameters;
+}
+
+export interface DataFlow extends FlowCore {
+  format: 'urn:x-nmos:format:data';
+  essence_parameters?: DataEssenceParameters;
+}
+
+export interface ImageFlow extends FlowCore {
+  format: 'urn:x-tam:format:image';
+  essence_parameters: ImageEssenceParameters;
+}
+
+export interface MultiFlow extends FlowCore {
+  format: 'urn:x-nmos:format:multi';
+}
+
+export type Flow = VideoFlow | AudioFlow | DataFlow | ImageFlow | MultiFlow;
+
+// ---------------------------------------------------------------------------
+// Segments and objects
+// ---------------------------------------------------------------------------
+
+export interface GetUrl {
+  url: string;
+  label?: string;
+  presigned?: boolean;
+  controlled?: boolean;
+  storage_id?: TamsUuid;
+}
+
+/**
+ * Response of `POST /flows/{flowId}/storage`: objects to upload media to. Fields are
+ * optional as backends differ in what they fill in.
+ */
+export interface FlowStorage {
+  storage_id?: TamsUuid;
+  media_objects?: Array<{
+    object_id?: string;
+    put_url?: { url?: string; 'content-type'?: string };
+  }>;
+}
+
+export interface FlowSegment {
+  object_id: string;
+  timerange: TamsTimerangeString;
+  ts_offset?: string;
+  last_duration?: string;
+  sample_offset?: number;
+  sample_count?: number;
+  get_urls?: GetUrl[];
+  key_frame_count?: number;
+}
+
+export interface TamsObject {
+  id: string;
+  referenced_by_flows: TamsUuid[];
+  first_referenced_by_flow?: TamsUuid;
+  size?: number;
+  get_urls?: GetUrl[];
+}
+
+// ---------------------------------------------------------------------------
+// Webhooks, deletion requests and service
+// ---------------------------------------------------------------------------
+
+export type WebhookEvent =
+  | 'flows/created'
+  | 'flows/updated'
+  | 'flows/deleted'
+  | 'flows/segments_added'
+  | 'flows/segments_deleted'
+  | 'sources/created'
+  | 'sources/updated'
+  | 'sources/deleted';
+
+export interface Webhook {
+  id?: TamsUuid;
+  url: string;
+  api_key_name?: string;
+  api_key_value?: string;
+  events: WebhookEvent[];
+  flow_ids?: TamsUuid[];
+  source_ids?: TamsUuid[];
+  flow_collected_by_ids?: TamsUuid[];
+  source_collected_by_ids?: TamsUuid[];
+  accept_get_urls?: string[];
+  accept_storage_ids?: TamsUuid[];
+  presigned?: boolean;
+  verbose_storage?: boolean;
+  status?: 'created' | 'started' | 'disabled' | 'error';
+}
+
+export interface TamsError {
+  type: string;
+  summary: string;
+  time?: TamsDateTime;
+  traceback?: string[];
+}
+
+export interface DeletionRequest {
+  id: TamsUuid;
+  flow_id: TamsUuid;
+  timerange_to_delete: TamsTimerangeString;
+  timerange_remaining?: TamsTimerangeString;
+  delete_flow: boolean;
+  status: 'created' | 'started' | 'done' | 'error';
+  created?: TamsDateTime;
+  created_by?: string;
+  updated?: TamsDateTime;
+  expiry?: TamsDateTime;
+  error?: TamsError;
+}
+
+/**
+ * Flow deletion request with an approval workflow (VAST TAMS `/flow-delete-requests`)
+ */
+export interface FlowDeletionRequest {
+  id: TamsUuid;
+  flow_id: TamsUuid;
+  flow_name?: string;
+  flow_format?: TamsContentFormat;
+  reason?: string;
+  requested_by: string;
+  status: 'pending' | 'approved' | 'rejected' | 'processing' | 'completed' | 'cancelled';
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  estimated_size?: number;
+  segments_count?: number;
+  soft_delete?: boolean;
+  cascade?: boolean;
+  approved_by?: string;
+  approved_at?: TamsDateTime;
+  rejected_by?: string;
+  rejected_at?: TamsDateTime;
+  rejection_reason?: string;
+  processed_at?: TamsDateTime;
+  completed_at?: TamsDateTime;
+  notes?: string;
+  tags?: string[];
+  created?: TamsDateTime;
+  updated?: TamsDateTime;
+}
+
+export interface EventStreamMechanism {
+  name: string;
+  docs?: Record<string, unknown>;
+}
+
+export interface Service {
+  type: string;
+  api_version: string;
+  service_version?: string;
+  name?: string;
+  description?: string;
+  media_store?: { type: string };
+  event_stream_mechanisms?: EventStreamMechanism[];
+  min_object_timeout?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Write models
+// ---------------------------------------------------------------------------
+
+export type SourceInput = Omit<Source, 'created' | 'updated' | 'created_by' | 'updated_by' | 'collected_by'>;
+export type FlowInput = Flow;
+export type FlowUpdate = Partial<Omit<FlowCore, 'id'>> & { format?: TamsContentFormat };
+export type FlowSegmentInput = FlowSegment;
+export type FlowSegmentUpdate = Partial<FlowSegment>;
+export type TamsObjectInput = Omit<TamsObject, 'referenced_by_flows' | 'first_referenced_by_flow'> & {
+  referenced_by_flows?: TamsUuid[];
+};
+export type WebhookInput = Omit<Webhook, 'id' | 'status'>;
+
+/**
+ * Options accepted by entity deletion across backends (soft delete is a backend extension)
+ */
+export interface DeleteOptions {
+  softDelete?: boolean;
+  cascade?: boolean;
+  deletedBy?: string;
+  timerange?: TamsTimerangeString;
+}
+
+/**
+ * Map of entity names to their schema types, used by decoders and drift reports
+ */
+export interface TamsEntityTypes {
+  source: Source;
+  flow: Flow;
+  segment: FlowSegment;
+  object: TamsObject;
+  webhook: Webhook;
+  deletionRequest: DeletionRequest;
+  service: Service;
+}
+
+export type TamsEntityName = keyof TamsEntityTypes;
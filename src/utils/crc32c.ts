@@ -0,0 +1,51 @@
+/**
+ * CRC32C (Castagnoli) Checksums
+ *
+ * The checksum S3-compatible stores verify uploaded bytes against when it is sent as
+ * `x-amz-checksum-crc32c` (big-endian, base64). Computed incrementally, so a large Blob is
+ * hashed a slice at a time rather than read into memory whole.
+ */
+
+const POLYNOMIAL = 0x82f63b78;
+
+// Bytes hashed per read of a Blob
+const BLOB_SLICE = 4 * 1024 * 1024;
+
+const TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? (c >>> 1) ^ POLYNOMIAL : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC32C of `bytes`, continuing from the CRC of the bytes before them when given
+ */
+export function crc32c(bytes: Uint8Array, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (TABLE[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+export async function crc32cOfBlob(blob: Blob, signal?: AbortSignal): Promise<number> {
+  let crc = 0;
+  for (let offset = 0; offset < blob.size; offset += BLOB_SLICE) {
+    signal?.throwIfAborted();
+    crc = crc32c(new Uint8Array(await blob.slice(offset, offset + BLOB_SLICE).arrayBuffer()), crc);
+  }
+  return crc;
+}
+
+/**
+ * A CRC32C as the `x-amz-checksum-crc32c` header value
+ */
+export function crc32cToBase64(crc: number): string {
+  return window.btoa(String.fromCharCode((crc >>> 24) & 0xff, (crc >>> 16) & 0xff, (crc >>> 8) & 0xff, crc & 0xff));
+}
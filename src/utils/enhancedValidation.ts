@@ -5,6 +5,8 @@
  * backend requirements including strict format validation and soft delete handling.
  */
 
+import { isValidTimerange } from './timerange';
+
 // Valid content format URNs as defined in backend v6.0
 export const VALID_CONTENT_FORMATS = [
   'urn:x-nmos:format:video',
@@ -19,9 +21,6 @@ export type ContentFormat = typeof VALID_CONTENT_FORMATS[number];
 // Valid MIME type patterns
 export const MIME_TYPE_PATTERN = /^[a-zA-Z0-9!#$&\-\^_]*\/[a-zA-Z0-9!#$&\-\^_]*$/;
 
-// Time range validation pattern (TAMS format)
-export const TIME_RANGE_PATTERN = /^(\[|\()?(-?(0|[1-9][0-9]*):(0|[1-9][0-9]{0,8}))?(_(-?(0|[1-9][0-9]*):(0|[1-9][0-9]{0,8}))?)?(\]|\))?$/;
-
 /**
  * Validates content format URN
  */
@@ -37,10 +36,10 @@ export function validateMimeType(mimeType: string): boolean {
 }
 
 /**
- * Validates time range format
+ * Validates time range format (TAMS timerange string)
  */
 export function validateTimeRange(timeRange: string): boolean {
-  return TIME_RANGE_PATTERN.test(timeRange);
+  return isValidTimerange(timeRange);
 }
 
 /**
@@ -0,0 +1,109 @@
+/**
+ * Media Probe Tests
+ *
+ * Probing synthetic MPEG-TS files for their H.264 track and the keyframes they can be
+ * cut at, and mapping probes onto flow fields.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PTS_CLOCK, codecMimeType, flowFieldsFromProbe, probeMedia, type MediaProbe } from './mediaProbe';
+
+const PACKET = 188;
+const VIDEO_PID = 0x101;
+// 25 fps in 90 kHz ticks
+const FRAME = 3600;
+const PTS_WRAP = 2 ** 33;
+
+function packet(pid: number, unitStart: boolean, payload: number[]): number[] {
+  const bytes = [0x47, (unitStart ? 0x40 : 0) | (pid >> 8), pid & 0xff, 0x10, ...payload];
+  while (bytes.length < PACKET) bytes.push(0xff);
+  return bytes;
+}
+
+// PAT naming the PMT on PID 0x100, and a PMT with one H.264 stream on VIDEO_PID
+const PAT = packet(0, true, [0, 0x00, 0xb0, 13, 0, 1, 0xc1, 0, 0, 0, 1, 0xe1, 0x00, 0, 0, 0, 0]);
+const PMT = packet(0x100, true, [0, 0x02, 0xb0, 18, 0, 1, 0xc1, 0, 0, 0xe1, 0x01, 0xf0, 0, 0x1b, 0xe1, 0x01, 0xf0, 0, 0, 0, 0, 0]);
+
+function ptsBytes(pts: number): number[] {
+  const raw = pts % PTS_WRAP;
+  const middle = Math.floor(raw / 2 ** 15) & 0x7fff;
+  const low = raw % 2 ** 15;
+  return [0x21 | ((Math.floor(raw / 2 ** 30) & 0x07) << 1), middle >> 7, ((middle & 0x7f) << 1) | 1, low >> 7, ((low & 0x7f) << 1) | 1];
+}
+
+/**
+ * A transport stream of one-packet frames, with an IDR slice and a repeated PAT and PMT
+ * before every second frame, and a non-IDR slice otherwise
+ */
+function transportStream(frames: number, firstPts: number): Blob {
+  const bytes: number[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    const keyframe = frame % 2 === 0;
+    if (keyframe) bytes.push(...PAT, ...PMT);
+    const nal = keyframe ? 0x65 : 0x41;
+    bytes.push(...packet(VIDEO_PID, true, [0, 0, 1, 0xe0, 0, 0, 0x80, 0x80, 5, ...ptsBytes(firstPts + frame * FRAME), 0, 0, 1, nal]));
+  }
+  return new Blob([new Uint8Array(bytes)]);
+}
+
+async function probe(file: Blob): Promise<MediaProbe> {
+  const result = await probeMedia(file);
+  if (!result) throw new Error('Expected the file to probe');
+  return result;
+}
+
+describe('MPEG-TS probing', () => {
+  it('reads the video track from the PMT and PES timestamps', async () => {
+    const result = await probe(transportStream(10, 10 * PTS_CLOCK));
+    expect(result).toMatchObject({ container: 'mpegts', mimeType: 'video/mp2t', startSeconds: 10, durationSeconds: 0.4 });
+    expect(result.tracks).toEqual([expect.objectContaining({
+      kind: 'video',
+      codec: 'avc1',
+      sampleCount: 10,
+      frameRate: { numerator: 25 }
+    })]);
+  });
+
+  it('cuts at each IDR frame, before the PAT repeated for it', async () => {
+    const result = await probe(transportStream(10, 10 * PTS_CLOCK));
+    // Keyframes take three packets (PAT, PMT, PES) and other frames one
+    expect(result.cuts).toEqual({
+      startPts: 10 * PTS_CLOCK,
+      endPts: 10 * PTS_CLOCK + 10 * FRAME,
+      points: [0, 2, 4, 6, 8].map(frame => ({ byteOffset: frame * 2 * PACKET, pts: 10 * PTS_CLOCK + frame * FRAME }))
+    });
+  });
+
+  it('keeps timestamps increasing across the 33-bit PTS wrap', async () => {
+    const firstPts = PTS_WRAP - 2 * FRAME;
+    const result = await probe(transportStream(4, firstPts));
+    expect(result.cuts?.points.map(point => point.pts)).toEqual([firstPts, PTS_WRAP]);
+    expect(result.cuts?.endPts).toBe(firstPts + 4 * FRAME);
+    expect(result.tracks[0]?.durationSeconds).toBeCloseTo(4 * FRAME / PTS_CLOCK);
+  });
+
+  it('leaves files that are not MP4 or MPEG-TS unprobed', async () => {
+    expect(await probeMedia(new Blob(['RIFF\0\0\0\0WAVEfmt ']))).toBeNull();
+    expect(await probeMedia(new Blob([]))).toBeNull();
+  });
+});
+
+describe('flow fields', () => {
+  it('maps codec strings onto TAMS codec MIME types', () => {
+    expect(codecMimeType('avc1.64001f')).toBe('video/h264');
+    expect(codecMimeType('hev1.1.6.L93.B0')).toBe('video/h265');
+    expect(codecMimeType('mp4a.40.2')).toBe('audio/aac');
+    expect(codecMimeType('stream-type-06')).toBeUndefined();
+  });
+
+  it('describes the probed video track', async () => {
+    const result = await probe(transportStream(4, 0));
+    expect(flowFieldsFromProbe(result)).toEqual({
+      format: 'urn:x-nmos:format:video',
+      codec: 'video/h264',
+      container: 'video/mp2t',
+      essence_parameters: { frame_width: 0, frame_height: 0, frame_rate: { numerator: 25 } },
+      codec_parameters: { codec_string: 'avc1' }
+    });
+  });
+});
@@ -0,0 +1,954 @@
+/**
+ * Media Container Probe
+ *
+ * Reads what TAMS needs to know about a media file from the file itself: its duration and
+ * first media timestamp, the RFC 6381 codec string of each track (avc1.64001f,
+ * hvc1.1.6.L93.B0, mp4a.40.2, ...), frame rate, resolution, audio sample rate and channels,
+ * and sample count.
+ *
+ * ISO-BMFF (MP4, MOV) is read from the moov box (mvhd, tkhd, mdhd, hdlr, stsd, stts, stsz),
+ * falling back to the movie fragments of fragmented files; only the boxes needed are read, so
+ * large files are not loaded whole. MPEG-TS is scanned in chunks: the PAT and PMT name the
+ * streams, PES timestamps give duration and frame rate, and the first H.264 SPS and ADTS
+ * header of each stream give the codec details. The PES that start a keyframe of the main
+ * track are where a transport stream can be cut into segments that each decode on their own.
+ */
+
+import type { AudioEssenceParameters, TamsRational, VideoEssenceParameters } from '../types/tams';
+
+export type ProbedContainer = 'mp4' | 'mpegts';
+
+export interface ProbedTrack {
+  kind: 'video' | 'audio' | 'other';
+  // RFC 6381 codec string, or the sample entry / stream type when there is none
+  codec: string;
+  durationSeconds: number | null;
+  // Media timestamp of the first sample (PTS, or tfdt of the first fragment), in seconds
+  startSeconds: number | null;
+  // Frames for video, coded frames for audio; null when the file does not say
+  sampleCount: number | null;
+  frameRate?: TamsRational;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * A place an MPEG-TS file can be cut: the packet starting a keyframe PES of the main track
+ * (any PES for audio), or the PAT the muxer repeated just before it
+ */
+export interface TsCutPoint {
+  byteOffset: number;
+  // PTS of the keyframe, in 90 kHz ticks
+  pts: number;
+}
+
+/**
+ * The cut points of an MPEG-TS file, in file order, and the PTS range of its main track
+ */
+export interface TsCuts {
+  // PTS of the main track's first frame and the end of its last, in 90 kHz ticks
+  startPts: number;
+  endPts: number;
+  points: TsCutPoint[];
+}
+
+export interface MediaProbe {
+  container: ProbedContainer;
+  mimeType: string;
+  // Of the whole presentation; null when the file does not say
+  durationSeconds: number | null;
+  // Of the video track, or the audio track of audio-only media
+  startSeconds: number | null;
+  tracks: ProbedTrack[];
+  // MPEG-TS with timestamps only: where the file can be cut into segments
+  cuts?: TsCuts;
+}
+
+/**
+ * The flow fields a probe is checked against; any flow shape has them
+ */
+export interface ProbeTarget {
+  format: string;
+  codec?: string;
+  container?: string;
+  essence_parameters?: object;
+}
+
+// Essence parameters a probe can check, of whichever format
+interface ProbedEssence {
+  frame_width?: number;
+  frame_height?: number;
+  frame_rate?: TamsRational;
+  sample_rate?: number;
+  channels?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, Math.min(end, file.size)).arrayBuffer());
+}
+
+function fourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+function u16(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] ?? 0) << 8) | (bytes[offset + 1] ?? 0);
+}
+
+function u32(bytes: Uint8Array, offset: number): number {
+  return (((bytes[offset] ?? 0) << 24) >>> 0) + (((bytes[offset + 1] ?? 0) << 16) | ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0));
+}
+
+function u64(bytes: Uint8Array, offset: number): number {
+  return u32(bytes, offset) * 2 ** 32 + u32(bytes, offset + 4);
+}
+
+function hex2(value: number): string {
+  return value.toString(16).padStart(2, '0');
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function rational(numerator: number, denominator: number): TamsRational {
+  const divisor = gcd(numerator, denominator) || 1;
+  return denominator / divisor === 1
+    ? { numerator: numerator / divisor }
+    : { numerator: numerator / divisor, denominator: denominator / divisor };
+}
+
+/**
+ * The value covering the most samples
+ */
+function dominant(counts: Map<number, number>): number | undefined {
+  let best: number | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function addCount(counts: Map<number, number>, value: number, count = 1): void {
+  counts.set(value, (counts.get(value) ?? 0) + count);
+}
+
+/**
+ * Exp-Golomb bit reader over an RBSP (emulation prevention bytes already removed)
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  bit(): number {
+    const byte = this.bytes[this.position >> 3] ?? 0;
+    const value = (byte >> (7 - (this.position & 7))) & 1;
+    this.position += 1;
+    return value;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = value * 2 + this.bit();
+    return value;
+  }
+
+  ue(): number {
+    let zeros = 0;
+    while (this.bit() === 0 && zeros < 32) zeros++;
+    return 2 ** zeros - 1 + this.bits(zeros);
+  }
+
+  se(): number {
+    const value = this.ue();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+function unescapeRbsp(nal: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < nal.length; i++) {
+    if (i >= 2 && nal[i] === 3 && nal[i - 1] === 0 && nal[i - 2] === 0) continue;
+    out.push(nal[i] ?? 0);
+  }
+  return Uint8Array.from(out);
+}
+
+const HIGH_PROFILES = new Set([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135]);
+
+/**
+ * Codec string and coded picture size of an H.264 SPS NAL unit (header byte included)
+ */
+function parseAvcSps(nal: Uint8Array): { codec: string; width: number; height: number } {
+  const profile = nal[1] ?? 0;
+  const codec = `avc1.${hex2(profile)}${hex2(nal[2] ?? 0)}${hex2(nal[3] ?? 0)}`;
+  const reader = new BitReader(unescapeRbsp(nal.subarray(4)));
+  reader.ue(); // seq_parameter_set_id
+  let chromaFormat = 1;
+  if (HIGH_PROFILES.has(profile)) {
+    chromaFormat = reader.ue();
+    if (chromaFormat === 3) reader.bit();
+    reader.ue();
+    reader.ue();
+    reader.bit();
+    if (reader.bit()) {
+      for (let list = 0; list < (chromaFormat === 3 ? 12 : 8); list++) {
+        if (!reader.bit()) continue;
+        let last = 8;
+        let next = 8;
+        for (let j = 0; j < (list < 6 ? 16 : 64) && next !== 0; j++) {
+          next = (last + reader.se() + 256) % 256;
+          last = next === 0 ? last : next;
+        }
+      }
+    }
+  }
+  reader.ue(); // log2_max_frame_num_minus4
+  const pocType = reader.ue();
+  if (pocType === 0) {
+    reader.ue();
+  } else if (pocType === 1) {
+    reader.bit();
+    reader.se();
+    reader.se();
+    const cycle = reader.ue();
+    for (let i = 0; i < cycle; i++) reader.se();
+  }
+  reader.ue(); // max_num_ref_frames
+  reader.bit();
+  const widthInMbs = reader.ue() + 1;
+  const heightInMapUnits = reader.ue() + 1;
+  const frameMbsOnly = reader.bit();
+  if (!frameMbsOnly) reader.bit();
+  reader.bit();
+  let crop = [0, 0, 0, 0];
+  if (reader.bit()) crop = [reader.ue(), reader.ue(), reader.ue(), reader.ue()];
+  const cropUnitX = chromaFormat === 1 || chromaFormat === 2 ? 2 : 1;
+  const cropUnitY = (chromaFormat === 1 ? 2 : 1) * (2 - frameMbsOnly);
+  const [left = 0, right = 0, top = 0, bottom = 0] = crop;
+  return {
+    codec,
+    width: widthInMbs * 16 - (left + right) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (top + bottom) * cropUnitY
+  };
+}
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// ---------------------------------------------------------------------------
+// ISO-BMFF
+// ---------------------------------------------------------------------------
+
+interface Box {
+  type: string;
+  // Offset of the box content, after the header
+  start: number;
+  end: number;
+}
+
+function* childBoxes(bytes: Uint8Array, start = 0, end = bytes.length): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = u32(bytes, offset);
+    const type = fourcc(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = u64(bytes, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) return;
+    yield { type, start: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+function findBox(bytes: Uint8Array, parent: Box | null, ...path: string[]): Box | undefined {
+  let current = parent ?? { type: '', start: 0, end: bytes.length };
+  for (const type of path) {
+    const next = [...childBoxes(bytes, current.start, current.end)].find(box => box.type === type);
+    if (!next) return undefined;
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Descriptor at `offset` in an esds box: tag, content offset and length
+ */
+function readDescriptor(bytes: Uint8Array, offset: number): { tag: number; start: number; length: number } {
+  const tag = bytes[offset] ?? 0;
+  let length = 0;
+  let position = offset + 1;
+  for (let i = 0; i < 4; i++) {
+    const byte = bytes[position++] ?? 0;
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { tag, start: position, length };
+}
+
+function mp4aCodec(bytes: Uint8Array, esds: Box): string {
+  // Full box header, then the ES descriptor
+  const es = readDescriptor(bytes, esds.start + 4);
+  if (es.tag !== 0x03) return 'mp4a';
+  const flags = bytes[es.start + 2] ?? 0;
+  let offset = es.start + 3;
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + (bytes[offset] ?? 0);
+  if (flags & 0x20) offset += 2;
+  const config = readDescriptor(bytes, offset);
+  if (config.tag !== 0x04) return 'mp4a';
+  const objectType = bytes[config.start] ?? 0;
+  if (objectType !== 0x40) return `mp4a.${hex2(objectType)}`;
+  const specific = readDescriptor(bytes, config.start + 13);
+  if (specific.tag !== 0x05) return 'mp4a.40';
+  let audioObjectType = (bytes[specific.start] ?? 0) >> 3;
+  if (audioObjectType === 31) {
+    audioObjectType = 32 + ((((bytes[specific.start] ?? 0) & 0x07) << 3) | ((bytes[specific.start + 1] ?? 0) >> 5));
+  }
+  return `mp4a.40.${audioObjectType}`;
+}
+
+function hevcCodec(type: string, bytes: Uint8Array, hvcC: Box): string {
+  const at = hvcC.start;
+  const profileByte = bytes[at + 1] ?? 0;
+  const space = ['', 'A', 'B', 'C'][profileByte >> 6] ?? '';
+  const tier = profileByte & 0x20 ? 'H' : 'L';
+  // Compatibility flags are written in reverse bit order
+  let compatibility = 0;
+  const flags = u32(bytes, at + 2);
+  for (let bit = 0; bit < 32; bit++) {
+    if (flags & (1 << bit)) compatibility |= 1 << (31 - bit);
+  }
+  const constraints = Array.from(bytes.subarray(at + 6, at + 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+  return [
+    type,
+    `${space}${profileByte & 0x1f}`,
+    (compatibility >>> 0).toString(16).toUpperCase(),
+    `${tier}${bytes[at + 12] ?? 0}`,
+    ...constraints.map(byte => byte.toString(16).toUpperCase())
+  ].join('.');
+}
+
+interface SampleEntry {
+  codec: string;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+const VISUAL_ENTRY_SIZE = 78;
+const AUDIO_ENTRY_SIZE = 28;
+
+function readSampleEntry(bytes: Uint8Array, stsd: Box, kind: ProbedTrack['kind']): SampleEntry | null {
+  // Full box header and entry count precede the first entry
+  const entry = childBoxes(bytes, stsd.start + 8, stsd.end).next().value;
+  if (!entry) return null;
+  let type = entry.type;
+
+  if (kind === 'video') {
+    const children: Box = { type, start: entry.start + VISUAL_ENTRY_SIZE, end: entry.end };
+    if (type === 'encv') type = fourcc(bytes, findBox(bytes, children, 'sinf', 'frma')?.start ?? entry.start);
+    const width = u16(bytes, entry.start + 24);
+    const height = u16(bytes, entry.start + 26);
+    const avcC = findBox(bytes, children, 'avcC');
+    const hvcC = findBox(bytes, children, 'hvcC');
+    const codec = avcC
+      ? `${type}.${hex2(bytes[avcC.start + 1] ?? 0)}${hex2(bytes[avcC.start + 2] ?? 0)}${hex2(bytes[avcC.start + 3] ?? 0)}`
+      : hvcC ? hevcCodec(type, bytes, hvcC) : type;
+    return { codec, width, height };
+  }
+
+  if (kind === 'audio') {
+    // QuickTime sound descriptions versions 1 and 2 are longer
+    const version = u16(bytes, entry.start + 8);
+    const extra = version === 1 ? 16 : version === 2 ? 36 : 0;
+    const children: Box = { type, start: entry.start + AUDIO_ENTRY_SIZE + extra, end: entry.end };
+    if (type === 'enca') type = fourcc(bytes, findBox(bytes, children, 'sinf', 'frma')?.start ?? entry.start);
+    const channels = u16(bytes, entry.start + 16);
+    const sampleRate = u32(bytes, entry.start + 24) >>> 16;
+    const esds = findBox(bytes, children, 'esds') ?? findBox(bytes, children, 'wave', 'esds');
+    const codec = type === 'mp4a' && esds ? mp4aCodec(bytes, esds) : type === 'Opus' ? 'opus' : type;
+    return { codec, sampleRate, channels };
+  }
+
+  return { codec: type };
+}
+
+interface FragmentTotals {
+  duration: number;
+  samples: number;
+  durations: Map<number, number>;
+  // Earliest tfdt base media decode time
+  firstDecodeTime: number | null;
+}
+
+interface IsoTrack {
+  id: number;
+  timescale: number;
+  track: ProbedTrack;
+  durations: Map<number, number>;
+  // Sample duration from trex, for fragments that do not give one
+  defaultDuration: number;
+}
+
+function readTrack(bytes: Uint8Array, trak: Box): IsoTrack | null {
+  const tkhd = findBox(bytes, trak, 'tkhd');
+  const mdhd = findBox(bytes, trak, 'mdia', 'mdhd');
+  const hdlr = findBox(bytes, trak, 'mdia', 'hdlr');
+  const stbl = findBox(bytes, trak, 'mdia', 'minf', 'stbl');
+  if (!tkhd || !mdhd || !hdlr || !stbl) return null;
+
+  const id = u32(bytes, tkhd.start + ((bytes[tkhd.start] ?? 0) === 1 ? 20 : 12));
+  const mdhdV1 = (bytes[mdhd.start] ?? 0) === 1;
+  const timescale = u32(bytes, mdhd.start + (mdhdV1 ? 20 : 12));
+  const duration = mdhdV1 ? u64(bytes, mdhd.start + 24) : u32(bytes, mdhd.start + 16);
+  const handler = fourcc(bytes, hdlr.start + 8);
+  const kind: ProbedTrack['kind'] = handler === 'vide' ? 'video' : handler === 'soun' ? 'audio' : 'other';
+
+  const stsd = findBox(bytes, stbl, 'stsd');
+  const entry = stsd ? readSampleEntry(bytes, stsd, kind) : null;
+
+  const durations = new Map<number, number>();
+  const stts = findBox(bytes, stbl, 'stts');
+  if (stts) {
+    const entries = u32(bytes, stts.start + 4);
+    for (let i = 0; i < entries; i++) {
+      addCount(durations, u32(bytes, stts.start + 12 + i * 8), u32(bytes, stts.start + 8 + i * 8));
+    }
+  }
+  const stsz = findBox(bytes, stbl, 'stsz');
+  const sampleCount = stsz ? u32(bytes, stsz.start + 8) : null;
+
+  // tkhd holds the display size as 16.16 fixed point in its last eight bytes
+  const displayWidth = u32(bytes, tkhd.end - 8) >>> 16;
+  const displayHeight = u32(bytes, tkhd.end - 4) >>> 16;
+
+  const track: ProbedTrack = {
+    kind,
+    codec: entry?.codec ?? 'unknown',
+    durationSeconds: timescale > 0 && duration > 0 ? duration / timescale : null,
+    // Unfragmented media starts at zero; fragments say where they start
+    startSeconds: 0,
+    sampleCount: sampleCount || null,
+    ...(kind === 'video'
+      ? { width: entry?.width || displayWidth, height: entry?.height || displayHeight }
+      : {}),
+    ...(entry?.sampleRate ? { sampleRate: entry.sampleRate } : {}),
+    ...(entry?.channels ? { channels: entry.channels } : {})
+  };
+  return { id, timescale, track, durations, defaultDuration: 0 };
+}
+
+/**
+ * Add the samples of one moof box to the per-track totals
+ */
+function readFragment(bytes: Uint8Array, moof: Box, tracks: Map<number, IsoTrack>, totals: Map<number, FragmentTotals>): void {
+  for (const traf of childBoxes(bytes, moof.start, moof.end)) {
+    if (traf.type !== 'traf') continue;
+    const tfhd = findBox(bytes, traf, 'tfhd');
+    if (!tfhd) continue;
+    const trackId = u32(bytes, tfhd.start + 4);
+    const tfhdFlags = u32(bytes, tfhd.start) & 0xffffff;
+    let offset = tfhd.start + 8;
+    if (tfhdFlags & 0x01) offset += 8;
+    if (tfhdFlags & 0x02) offset += 4;
+    const defaultDuration = tfhdFlags & 0x08 ? u32(bytes, offset) : tracks.get(trackId)?.defaultDuration ?? 0;
+
+    const total = totals.get(trackId) ?? { duration: 0, samples: 0, durations: new Map(), firstDecodeTime: null };
+    totals.set(trackId, total);
+    const tfdt = findBox(bytes, traf, 'tfdt');
+    if (tfdt) {
+      const decodeTime = (bytes[tfdt.start] ?? 0) === 1 ? u64(bytes, tfdt.start + 4) : u32(bytes, tfdt.start + 4);
+      total.firstDecodeTime = Math.min(total.firstDecodeTime ?? decodeTime, decodeTime);
+    }
+    for (const trun of childBoxes(bytes, traf.start, traf.end)) {
+      if (trun.type !== 'trun') continue;
+      const flags = u32(bytes, trun.start) & 0xffffff;
+      const count = u32(bytes, trun.start + 4);
+      let position = trun.start + 8 + (flags & 0x01 ? 4 : 0) + (flags & 0x04 ? 4 : 0);
+      const perSample = [0x100, 0x200, 0x400, 0x800].filter(flag => flags & flag).length * 4;
+      for (let i = 0; i < count; i++) {
+        const duration = flags & 0x100 ? u32(bytes, position) : defaultDuration;
+        total.duration += duration;
+        addCount(total.durations, duration);
+        position += perSample;
+      }
+      total.samples += count;
+    }
+  }
+}
+
+// Largest moov or moof box read into memory
+const MAX_METADATA_BOX = 64 * 1024 * 1024;
+
+async function probeIsoBmff(file: Blob): Promise<MediaProbe | null> {
+  let moov: Uint8Array | null = null;
+  const fragments = new Map<number, FragmentTotals>();
+  const fragmentBoxes: Uint8Array[] = [];
+
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = u32(header, 0);
+    const type = fourcc(header, 4);
+    if (size === 1) size = u64(header, 8);
+    if (size === 0) size = file.size - offset;
+    if (size < 8) break;
+    if ((type === 'moov' || type === 'moof') && size <= MAX_METADATA_BOX) {
+      const box = await readBytes(file, offset, offset + size);
+      if (type === 'moov') moov = box;
+      else fragmentBoxes.push(box);
+    }
+    offset += size;
+  }
+  if (!moov) return null;
+
+  const root = findBox(moov, null, 'moov');
+  if (!root) return null;
+  const tracks = new Map<number, IsoTrack>();
+  for (const trak of childBoxes(moov, root.start, root.end)) {
+    if (trak.type !== 'trak') continue;
+    const track = readTrack(moov, trak);
+    if (track) tracks.set(track.id, track);
+  }
+  const mvex = findBox(moov, root, 'mvex');
+  if (mvex) {
+    for (const trex of childBoxes(moov, mvex.start, mvex.end)) {
+      const track = trex.type === 'trex' ? tracks.get(u32(moov, trex.start + 4)) : undefined;
+      if (track) track.defaultDuration = u32(moov, trex.start + 12);
+    }
+  }
+  for (const fragment of fragmentBoxes) {
+    const moof = findBox(fragment, null, 'moof');
+    if (moof) readFragment(fragment, moof, tracks, fragments);
+  }
+
+  for (const [id, { track, timescale, durations }] of tracks) {
+    const fragmented = fragments.get(id);
+    if (fragmented && fragmented.samples > 0) {
+      if (timescale > 0) track.durationSeconds = ((track.durationSeconds ?? 0) * timescale + fragmented.duration) / timescale;
+      track.sampleCount = (track.sampleCount ?? 0) + fragmented.samples;
+      fragmented.durations.forEach((count, duration) => addCount(durations, duration, count));
+      if (fragmented.firstDecodeTime !== null && timescale > 0) track.startSeconds = fragmented.firstDecodeTime / timescale;
+    }
+    const frameDuration = dominant(durations);
+    if (track.kind === 'video' && frameDuration && timescale > 0) {
+      track.frameRate = rational(timescale, frameDuration);
+    }
+  }
+
+  const mvhd = findBox(moov, root, 'mvhd');
+  let durationSeconds: number | null = null;
+  if (mvhd) {
+    const v1 = (moov[mvhd.start] ?? 0) === 1;
+    const timescale = u32(moov, mvhd.start + (v1 ? 20 : 12));
+    let duration = v1 ? u64(moov, mvhd.start + 24) : u32(moov, mvhd.start + 16);
+    const mehd = mvex ? findBox(moov, mvex, 'mehd') : undefined;
+    if (!duration && mehd) {
+      duration = (moov[mehd.start] ?? 0) === 1 ? u64(moov, mehd.start + 4) : u32(moov, mehd.start + 4);
+    }
+    if (timescale > 0 && duration > 0) durationSeconds = duration / timescale;
+  }
+  const trackDurations = [...tracks.values()]
+    .map(({ track }) => track.durationSeconds)
+    .filter((seconds): seconds is number => seconds !== null);
+  if (durationSeconds === null && trackDurations.length > 0) durationSeconds = Math.max(...trackDurations);
+
+  const probe: MediaProbe = {
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    durationSeconds,
+    startSeconds: null,
+    tracks: [...tracks.values()].map(({ track }) => track)
+  };
+  probe.startSeconds = primaryTrack(probe)?.startSeconds ?? null;
+  return probe;
+}
+
+// ---------------------------------------------------------------------------
+// MPEG-TS
+// ---------------------------------------------------------------------------
+
+const TS_SYNC = 0x47;
+export const PTS_CLOCK = 90000;
+const PTS_WRAP = 2 ** 33;
+// Bytes of a stream's first PES kept to find its SPS or ADTS header
+const FIRST_PES_BYTES = 64 * 1024;
+const TS_CHUNK_PACKETS = 20000;
+
+interface TsStream {
+  kind: ProbedTrack['kind'];
+  codec: string;
+  streamType: number;
+  pts: number[];
+  lastRaw: number | null;
+  wrapOffset: number;
+  firstPes: number[] | null;
+  track: Partial<ProbedTrack>;
+}
+
+const STREAM_TYPES: Record<number, { kind: ProbedTrack['kind']; codec: string }> = {
+  0x01: { kind: 'video', codec: 'mp2v' },
+  0x02: { kind: 'video', codec: 'mp2v' },
+  0x03: { kind: 'audio', codec: 'mp4a.6b' },
+  0x04: { kind: 'audio', codec: 'mp4a.69' },
+  0x0f: { kind: 'audio', codec: 'mp4a.40.2' },
+  0x1b: { kind: 'video', codec: 'avc1' },
+  0x24: { kind: 'video', codec: 'hvc1' },
+  0x81: { kind: 'audio', codec: 'ac-3' },
+  0x87: { kind: 'audio', codec: 'ec-3' }
+};
+
+/**
+ * Whether the elementary stream data at the start of a PES begins a keyframe: an IDR picture
+ * for H.264, an IRAP picture for HEVC
+ */
+function startsKeyframe(streamType: number, data: Uint8Array): boolean {
+  for (let i = 0; i + 3 < data.length; i++) {
+    if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 1) continue;
+    const header = data[i + 3] ?? 0;
+    if (streamType === 0x1b && (header & 0x1f) === 5) return true;
+    if (streamType === 0x24 && ((header >> 1) & 0x3f) >= 16 && ((header >> 1) & 0x3f) <= 21) return true;
+  }
+  return false;
+}
+
+/**
+ * Offset of the first packet and the packet size (188, or 192 for M2TS), or null when the
+ * bytes are not a transport stream
+ */
+function detectTransportStream(head: Uint8Array): { offset: number; packetSize: number } | null {
+  for (const packetSize of [188, 192]) {
+    const offset = packetSize === 192 ? 4 : 0;
+    if ([0, 1, 2].every(i => head[offset + i * packetSize] === TS_SYNC)) {
+      return { offset, packetSize };
+    }
+  }
+  return null;
+}
+
+function readPts(pes: Uint8Array, at: number): number {
+  return ((pes[at] ?? 0) >> 1 & 0x07) * 2 ** 30
+    + (((pes[at + 1] ?? 0) << 7) | ((pes[at + 2] ?? 0) >> 1)) * 2 ** 15
+    + (((pes[at + 3] ?? 0) << 7) | ((pes[at + 4] ?? 0) >> 1));
+}
+
+function tableSection(payload: Uint8Array): Uint8Array {
+  const pointer = payload[0] ?? 0;
+  const section = payload.subarray(1 + pointer);
+  const length = ((section[1] ?? 0) & 0x0f) << 8 | (section[2] ?? 0);
+  // Up to the CRC
+  return section.subarray(0, Math.max(0, 3 + length - 4));
+}
+
+function describeFirstPes(stream: TsStream): void {
+  const data = Uint8Array.from(stream.firstPes ?? []);
+  if (stream.streamType === 0x1b) {
+    for (let i = 0; i + 4 < data.length; i++) {
+      if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1 && ((data[i + 3] ?? 0) & 0x1f) === 7) {
+        let end = i + 4;
+        while (end + 2 < data.length && !(data[end] === 0 && data[end + 1] === 0 && ((data[end + 2] ?? 0) <= 1))) end++;
+        try {
+          const sps = parseAvcSps(data.subarray(i + 3, end));
+          stream.codec = sps.codec;
+          stream.track.width = sps.width;
+          stream.track.height = sps.height;
+        } catch {
+          // A truncated or unusual SPS leaves the codec as plain avc1, without a size
+        }
+        return;
+      }
+    }
+  } else if (stream.streamType === 0x0f) {
+    for (let i = 0; i + 4 < data.length; i++) {
+      if (data[i] === 0xff && ((data[i + 1] ?? 0) & 0xf6) === 0xf0) {
+        const byte2 = data[i + 2] ?? 0;
+        stream.codec = `mp4a.40.${(byte2 >> 6) + 1}`;
+        const sampleRate = AAC_SAMPLE_RATES[(byte2 >> 2) & 0x0f];
+        if (sampleRate) stream.track.sampleRate = sampleRate;
+        stream.track.channels = ((byte2 & 0x01) << 2) | ((data[i + 3] ?? 0) >> 6);
+        return;
+      }
+    }
+  }
+}
+
+async function probeTransportStream(file: Blob, firstPacket: number, packetSize: number): Promise<MediaProbe> {
+  const syncOffset = packetSize - 188;
+  let pmtPid: number | null = null;
+  const streams = new Map<number, TsStream>();
+  // The video stream, or the audio stream of audio-only media, once the PMT is read
+  let mainPid: number | null = null;
+  const cutPoints: TsCutPoint[] = [];
+  let lastPat = -1;
+  let lastMainPes = -1;
+
+  for (let chunkStart = firstPacket - syncOffset; chunkStart < file.size; chunkStart += packetSize * TS_CHUNK_PACKETS) {
+    const chunk = await readBytes(file, chunkStart, chunkStart + packetSize * TS_CHUNK_PACKETS);
+    for (let at = syncOffset; at + 188 <= chunk.length; at += packetSize) {
+      const packet = chunk.subarray(at, at + 188);
+      if (packet[0] !== TS_SYNC) continue;
+      const packetOffset = chunkStart + at - syncOffset;
+      const unitStart = ((packet[1] ?? 0) & 0x40) !== 0;
+      const pid = ((packet[1] ?? 0) & 0x1f) << 8 | (packet[2] ?? 0);
+      const adaptation = ((packet[3] ?? 0) >> 4) & 0x03;
+      if (!(adaptation & 0x01)) continue;
+      const randomAccess = (adaptation & 0x02) !== 0 && (packet[4] ?? 0) > 0 && ((packet[5] ?? 0) & 0x40) !== 0;
+      const payload = packet.subarray(adaptation & 0x02 ? 5 + (packet[4] ?? 0) : 4);
+
+      if (pid === 0 && unitStart) {
+        lastPat = packetOffset;
+        if (pmtPid !== null) continue;
+        const section = tableSection(payload);
+        for (let i = 8; i + 4 <= section.length; i += 4) {
+          if (u16(section, i) !== 0) {
+            pmtPid = u16(section, i + 2) & 0x1fff;
+            break;
+          }
+        }
+      } else if (pid === pmtPid && unitStart && streams.size === 0) {
+        const section = tableSection(payload);
+        let i = 12 + (u16(section, 10) & 0x0fff);
+        while (i + 5 <= section.length) {
+          const streamType = section[i] ?? 0;
+          const esPid = u16(section, i + 1) & 0x1fff;
+          const infoLength = u16(section, i + 3) & 0x0fff;
+          const descriptors = section.subarray(i + 5, i + 5 + infoLength);
+          let known = STREAM_TYPES[streamType];
+          if (streamType === 0x06) {
+            // Private data: AC-3 and E-AC-3 are signalled by descriptor
+            for (let d = 0; d + 2 <= descriptors.length; d += 2 + (descriptors[d + 1] ?? 0)) {
+              if (descriptors[d] === 0x6a) known = { kind: 'audio', codec: 'ac-3' };
+              if (descriptors[d] === 0x7a) known = { kind: 'audio', codec: 'ec-3' };
+            }
+          }
+          streams.set(esPid, {
+            kind: known?.kind ?? 'other',
+            codec: known?.codec ?? `stream-type-${hex2(streamType)}`,
+            streamType,
+            pts: [],
+            lastRaw: null,
+            wrapOffset: 0,
+            firstPes: null,
+            track: {}
+          });
+          i += 5 + infoLength;
+        }
+        const pids = [...streams.keys()];
+        mainPid = pids.find(esPid => streams.get(esPid)?.kind === 'video')
+          ?? pids.find(esPid => streams.get(esPid)?.kind === 'audio')
+          ?? null;
+      } else {
+        const stream = streams.get(pid);
+        if (!stream) continue;
+        if (unitStart && payload[0] === 0 && payload[1] === 0 && payload[2] === 1) {
+          if (stream.firstPes && stream.firstPes.length > 0 && stream.pts.length === 1) describeFirstPes(stream);
+          const flags = ((payload[7] ?? 0) >> 6) & 0x03;
+          if (flags & 0x02) {
+            const raw = readPts(payload, 9);
+            if (stream.lastRaw !== null && raw < stream.lastRaw - PTS_WRAP / 2) stream.wrapOffset += PTS_WRAP;
+            stream.lastRaw = raw;
+            stream.pts.push(raw + stream.wrapOffset);
+            if (pid === mainPid) {
+              const keyframe = stream.kind === 'audio' || randomAccess
+                || startsKeyframe(stream.streamType, payload.subarray(9 + (payload[8] ?? 0)));
+              if (keyframe) {
+                // Cut before the PAT when the muxer repeated it for this keyframe, so the
+                // segment names its streams
+                cutPoints.push({ byteOffset: lastPat > lastMainPes ? lastPat : packetOffset, pts: raw + stream.wrapOffset });
+              }
+              lastMainPes = packetOffset;
+            }
+          }
+          if (stream.firstPes === null) stream.firstPes = Array.from(payload.subarray(9 + (payload[8] ?? 0)));
+        } else if (stream.firstPes && stream.pts.length <= 1 && stream.firstPes.length < FIRST_PES_BYTES) {
+          stream.firstPes.push(...payload);
+        }
+      }
+    }
+  }
+
+  const tracks: ProbedTrack[] = [];
+  let cuts: TsCuts | undefined;
+  for (const [pid, stream] of streams) {
+    if (stream.pts.length === 1) describeFirstPes(stream);
+    const sorted = [...stream.pts].sort((a, b) => a - b);
+    const deltas = new Map<number, number>();
+    for (let i = 1; i < sorted.length; i++) {
+      const delta = (sorted[i] ?? 0) - (sorted[i - 1] ?? 0);
+      if (delta > 0) addCount(deltas, delta);
+    }
+    const frameDuration = dominant(deltas) ?? 0;
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    if (pid === mainPid && first !== undefined && last !== undefined && last + frameDuration > first && cutPoints.length > 0) {
+      cuts = { startPts: first, endPts: last + frameDuration, points: cutPoints };
+    }
+    tracks.push({
+      kind: stream.kind,
+      codec: stream.codec,
+      durationSeconds: first !== undefined && last !== undefined ? (last - first + frameDuration) / PTS_CLOCK : null,
+      startSeconds: first !== undefined ? first / PTS_CLOCK : null,
+      // One PES per access unit is the norm for video; audio PES carry several frames
+      sampleCount: stream.kind === 'video' && sorted.length > 0 ? sorted.length : null,
+      ...(stream.kind === 'video' && frameDuration > 0 ? { frameRate: rational(PTS_CLOCK, frameDuration) } : {}),
+      ...stream.track
+    });
+  }
+
+  const main = tracks.find(track => track.kind === 'video') ?? tracks.find(track => track.kind === 'audio');
+  return {
+    container: 'mpegts',
+    mimeType: 'video/mp2t',
+    durationSeconds: main?.durationSeconds ?? null,
+    startSeconds: main?.startSeconds ?? null,
+    tracks,
+    ...(cuts ? { cuts } : {})
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const ISO_BMFF_FIRST_BOXES = new Set(['ftyp', 'styp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pdin']);
+
+/**
+ * Probe an MP4/ISO-BMFF or MPEG-TS file; null for other containers or unreadable files
+ */
+export async function probeMedia(file: Blob): Promise<MediaProbe | null> {
+  try {
+    const head = await readBytes(file, 0, 1024);
+    const transportStream = detectTransportStream(head);
+    if (transportStream) {
+      return await probeTransportStream(file, transportStream.offset, transportStream.packetSize);
+    }
+    if (ISO_BMFF_FIRST_BOXES.has(fourcc(head, 4))) {
+      return await probeIsoBmff(file);
+    }
+  } catch {
+    // Unreadable or malformed files are unprobed, like other containers
+  }
+  return null;
+}
+
+/**
+ * The video track, or the audio track of audio-only media
+ */
+export function primaryTrack(probe: MediaProbe): ProbedTrack | undefined {
+  return probe.tracks.find(track => track.kind === 'video') ?? probe.tracks.find(track => track.kind === 'audio');
+}
+
+const CODEC_MIME_TYPES: Array<[RegExp, string]> = [
+  [/^av[c1-4]/, 'video/h264'],
+  [/^(hvc1|hev1)/, 'video/h265'],
+  [/^mp2v/, 'video/mpeg2'],
+  [/^vp09/, 'video/vp9'],
+  [/^av01/, 'video/av1'],
+  [/^mp4a\.40/, 'audio/aac'],
+  [/^mp4a\.(6b|69)/, 'audio/mpeg'],
+  [/^ac-3/, 'audio/ac3'],
+  [/^ec-3/, 'audio/eac3'],
+  [/^opus/, 'audio/opus']
+];
+
+/**
+ * The MIME type TAMS flows use for a codec string, e.g. `video/h264` for `avc1.64001f`
+ */
+export function codecMimeType(codec: string): string | undefined {
+  return CODEC_MIME_TYPES.find(([pattern]) => pattern.test(codec))?.[1];
+}
+
+/**
+ * Flow fields describing the probed media: format, codec, container and essence parameters
+ */
+export function flowFieldsFromProbe(probe: MediaProbe): Record<string, unknown> {
+  const track = primaryTrack(probe);
+  if (!track) return { container: probe.mimeType };
+  const codec = codecMimeType(track.codec);
+  const essence: VideoEssenceParameters | AudioEssenceParameters = track.kind === 'video'
+    ? {
+        frame_width: track.width ?? 0,
+        frame_height: track.height ?? 0,
+        ...(track.frameRate ? { frame_rate: track.frameRate } : {})
+      }
+    : {
+        ...(track.sampleRate ? { sample_rate: track.sampleRate } : {}),
+        ...(track.channels ? { channels: track.channels } : {})
+      };
+  return {
+    format: track.kind === 'video' ? 'urn:x-nmos:format:video' : 'urn:x-nmos:format:audio',
+    ...(codec ? { codec } : {}),
+    container: probe.mimeType,
+    essence_parameters: essence,
+    codec_parameters: { codec_string: track.codec }
+  };
+}
+
+function rateValue(rate: TamsRational): number {
+  return rate.numerator / (rate.denominator ?? 1);
+}
+
+function formatRate(rate: TamsRational): string {
+  return rate.denominator && rate.denominator !== 1 ? `${rate.numerator}/${rate.denominator}` : `${rate.numerator}`;
+}
+
+/**
+ * Ways the probed media disagrees with the flow it is going into, for warnings
+ */
+export function probeConflicts(probe: MediaProbe, flow: ProbeTarget): string[] {
+  const conflicts: string[] = [];
+  const video = probe.tracks.find(track => track.kind === 'video');
+  const audio = probe.tracks.find(track => track.kind === 'audio');
+  const track = flow.format === 'urn:x-nmos:format:audio' ? audio : video;
+  const essence = flow.essence_parameters as ProbedEssence | undefined;
+
+  if (flow.format === 'urn:x-nmos:format:video' && !video) {
+    conflicts.push('The file has no video track, but the flow is a video flow.');
+  }
+  if (flow.format === 'urn:x-nmos:format:audio' && !audio) {
+    conflicts.push('The file has no audio track, but the flow is an audio flow.');
+  }
+  if (flow.container && flow.container !== probe.mimeType) {
+    conflicts.push(`The file is ${probe.mimeType}, but the flow's container is ${flow.container}.`);
+  }
+  const mimeType = track ? codecMimeType(track.codec) : undefined;
+  if (track && flow.codec && mimeType && flow.codec.toLowerCase() !== mimeType && flow.codec !== track.codec) {
+    conflicts.push(`The file's codec is ${track.codec} (${mimeType}), but the flow's codec is ${flow.codec}.`);
+  }
+
+  if (flow.format === 'urn:x-nmos:format:video' && video) {
+    if (video.width && video.height && essence?.frame_width && essence.frame_height
+      && (video.width !== essence.frame_width || video.height !== essence.frame_height)) {
+      conflicts.push(`The file is ${video.width}x${video.height}, but the flow is ${essence.frame_width}x${essence.frame_height}.`);
+    }
+    if (video.frameRate && essence?.frame_rate && Math.abs(rateValue(video.frameRate) - rateValue(essence.frame_rate)) > 0.01) {
+      conflicts.push(`The file runs at ${formatRate(video.frameRate)} fps, but the flow at ${formatRate(essence.frame_rate)} fps.`);
+    }
+  }
+  if (flow.format === 'urn:x-nmos:format:audio' && audio) {
+    if (audio.sampleRate && essence?.sample_rate && audio.sampleRate !== essence.sample_rate) {
+      conflicts.push(`The file is sampled at ${audio.sampleRate} Hz, but the flow at ${essence.sample_rate} Hz.`);
+    }
+    if (audio.channels && essence?.channels && audio.channels !== essence.channels) {
+      conflicts.push(`The file has ${audio.channels} channels, but the flow has ${essence.channels}.`);
+    }
+  }
+  return conflicts;
+}
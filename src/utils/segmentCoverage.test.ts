@@ -0,0 +1,156 @@
+/**
+ * Segment Coverage Analysis Tests
+ *
+ * Gaps, overlaps, shared objects, ts_offset discontinuities and sample counts found in a
+ * flow's segments, and the health checks and CSV built from the report.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { FlowSegment } from '../types/tams';
+import { analyseSegmentCoverage, coverageChecks, coverageHealth, coverageReportToCsv } from './segmentCoverage';
+
+let objects = 0;
+const segment = (timerange: string, fields: Partial<FlowSegment> = {}): FlowSegment => ({
+  object_id: `object-${++objects}`,
+  timerange,
+  ...fields
+});
+
+const VIDEO = { format: 'urn:x-nmos:format:video', essence_parameters: { frame_rate: { numerator: 25 } } };
+
+describe('coverage', () => {
+  it('reports contiguous segments in any order as fully covered', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[10:0_20:0)'), segment('[0:0_10:0)')]);
+    expect(report).toMatchObject({
+      segmentCount: 2,
+      skippedSegments: 0,
+      span: '[0:0_20:0)',
+      covered: ['[0:0_20:0)'],
+      gaps: [],
+      overlaps: [],
+      spanSeconds: 20,
+      coveredSeconds: 20,
+      issues: []
+    });
+    expect(coverageHealth(report)).toBe('healthy');
+  });
+
+  it('finds gaps between segments and at the ends of the flow timerange', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[2:0_4:0)'), segment('[5:0_8:0)')], { timerange: '[0:0_10:0)' });
+    expect(report.gaps).toEqual(['[0:0_2:0)', '[4:0_5:0)', '[8:0_10:0)']);
+    expect(report.issues.map(issue => issue.message)).toEqual([
+      "2 s of the flow's timerange without media before the first segment",
+      '1 s without media between segments 1 and 2',
+      "2 s of the flow's timerange without media after the last segment"
+    ]);
+    expect(report.issues[1]).toMatchObject({ kind: 'gap', severity: 'warning', segments: [0, 1] });
+    expect(report).toMatchObject({ flowTimerange: '[0:0_10:0)', spanSeconds: 10, coveredSeconds: 5 });
+    expect(coverageChecks(report).find(check => check.kind === 'gap')?.message).toBe('3 gaps, 5 s without media');
+  });
+
+  it('finds overlaps against the segment reaching furthest, not only the previous one', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[0:0_10:0)'), segment('[2:0_4:0)'), segment('[8:0_12:0)')]);
+    expect(report.issues.filter(issue => issue.kind === 'overlap')).toEqual([
+      expect.objectContaining({ severity: 'critical', timerange: '[2:0_4:0)', segments: [0, 1], message: 'Segments 1 and 2 overlap by 2 s' }),
+      expect.objectContaining({ timerange: '[8:0_10:0)', segments: [0, 2] })
+    ]);
+    expect(report.overlaps).toEqual(['[2:0_4:0)', '[8:0_10:0)']);
+    expect(report.gaps).toEqual([]);
+    expect(coverageHealth(report)).toBe('critical');
+  });
+
+  it('does not count segments that only touch as overlapping', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[0:0_1:0)'), segment('[1:0_2:0]')]);
+    expect(report.overlaps).toEqual([]);
+    expect(report.span).toBe('[0:0_2:0]');
+  });
+
+  it('skips segments with empty, unbounded or malformed timeranges', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[0:0_1:0)'), segment('()'), segment('[5:0_'), segment('nonsense')]);
+    expect(report).toMatchObject({ segmentCount: 1, skippedSegments: 3, issues: [] });
+  });
+
+  it('reports objects shared by several segments', () => {
+    const report = analyseSegmentCoverage('flow', [
+      segment('[0:0_1:0)', { object_id: 'shared' }),
+      segment('[1:0_2:0)', { object_id: 'shared' })
+    ]);
+    expect(report.issues).toEqual([expect.objectContaining({
+      kind: 'duplicate_object',
+      objectId: 'shared',
+      message: 'Object shared is referenced by 2 segments (1, 2)'
+    })]);
+  });
+});
+
+describe('ts_offset', () => {
+  it('accepts an offset change that keeps media time running on across a gap', () => {
+    // Media time of the second segment is 20 - 10 = 10 s, where the first ends
+    const report = analyseSegmentCoverage('flow', [segment('[0:0_10:0)'), segment('[20:0_30:0)', { ts_offset: '10:0' })]);
+    expect(report.issues.map(issue => issue.kind)).toEqual(['gap']);
+  });
+
+  it('reports media time going back as a warning and jumping on as info', () => {
+    const report = analyseSegmentCoverage('flow', [
+      segment('[0:0_10:0)'),
+      segment('[10:0_20:0)', { ts_offset: '4:0' }),
+      segment('[20:0_30:0)', { ts_offset: '-2:0' })
+    ]);
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        kind: 'ts_offset',
+        severity: 'warning',
+        segments: [0, 1],
+        message: 'Media timestamps go back 4 s from segment 1 to 2 (ts_offset 0:0 → 4:0)'
+      }),
+      expect.objectContaining({
+        kind: 'ts_offset',
+        severity: 'info',
+        segments: [1, 2],
+        message: 'Media timestamps jump 6 s from segment 2 to 3 (ts_offset 4:0 → -2:0)'
+      })
+    ]);
+    expect(coverageHealth(report)).toBe('warning');
+    expect(coverageChecks(report).find(check => check.kind === 'ts_offset')).toMatchObject({
+      status: 'warning',
+      message: 'Media timestamps go backwards 1 time',
+      issues: 2
+    });
+  });
+
+  it('counts a jump alone as healthy', () => {
+    const report = analyseSegmentCoverage('flow', [segment('[0:0_10:0)'), segment('[10:0_20:0)', { ts_offset: '-5:0' })]);
+    expect(coverageHealth(report)).toBe('healthy');
+    expect(coverageChecks(report).find(check => check.kind === 'ts_offset')?.message).toBe('1 timestamp discontinuity');
+  });
+});
+
+describe('sample counts', () => {
+  it('allows one edit unit of rounding at the flow frame rate', () => {
+    const report = analyseSegmentCoverage('flow', [
+      segment('[0:0_2:0)', { sample_count: 51 }),
+      segment('[2:0_4:0)', { sample_count: 48 }),
+      segment('[4:0_6:0)', { sample_count: 48 })
+    ], VIDEO);
+    expect(report.issues.map(issue => issue.segments)).toEqual([[1], [2]]);
+    expect(report.issues[0]?.message).toBe('Segment 2 has 48 samples, but 2 s at 25/1 is 50');
+  });
+
+  it('does not check sample counts without an edit rate', () => {
+    expect(analyseSegmentCoverage('flow', [segment('[0:0_2:0)', { sample_count: 1 })]).issues).toEqual([]);
+  });
+});
+
+describe('CSV export', () => {
+  it('writes one row per issue with 1-based segments and quoted messages', () => {
+    const report = analyseSegmentCoverage('flow-1', [
+      segment('[0:0_1:0)', { object_id: 'a' }),
+      segment('[1:0_2:0)', { object_id: 'a' })
+    ]);
+    expect(coverageReportToCsv(report)).toBe([
+      'flow_id,kind,severity,timerange,segments,object_id,message',
+      'flow-1,duplicate_object,warning,,1 2,a,"Object a is referenced by 2 segments (1, 2)"',
+      ''
+    ].join('\n'));
+  });
+});
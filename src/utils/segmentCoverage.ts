@@ -0,0 +1,288 @@
+/**
+ * Segment Coverage Analysis
+ *
+ * Checks how a flow's segments cover its timeline: the gaps between them (and at either end
+ * of the flow's timerange), overlapping segments, objects referenced by more than one
+ * segment, media timestamps (segment timestamp minus ts_offset) that run backwards or jump
+ * between segments, and sample counts that disagree with the segment's duration at the
+ * flow's frame or sample rate. Pure: the segments are fetched by the caller (see coverage).
+ */
+
+import type { CoverageIssue, CoverageIssueKind, CoverageSeverity, FlowCoverageReport } from '../types/backend';
+import type { FlowSegment, TamsRational } from '../types/tams';
+import {
+  compareStarts,
+  createTimerange,
+  formatTimerange,
+  intersectTimeranges,
+  isBoundedTimerange,
+  isEmptyTimerange,
+  mergeTimeranges,
+  parseTaiTimestamp,
+  subtractTimerange,
+  timerangeDuration,
+  timerangesOverlap,
+  timestampToCount,
+  tryParseTimerange,
+  NANOS_PER_SECOND,
+  type EditRate,
+  type Timerange
+} from './timerange';
+
+/**
+ * The flow fields the analysis uses; any flow shape has them
+ */
+export interface CoverageFlow {
+  // A TAMS timerange string; any other shape is ignored
+  timerange?: unknown;
+  format?: string;
+  essence_parameters?: object;
+}
+
+// Sample counts within this many edit units of the expected count are rounding, not errors
+const SAMPLE_COUNT_TOLERANCE = 1n;
+
+interface PlacedSegment {
+  position: number;
+  segment: FlowSegment;
+  range: Timerange & { start: bigint; end: bigint };
+  tsOffset: bigint;
+}
+
+function formatSeconds(nanos: bigint): string {
+  const seconds = Number(nanos) / Number(NANOS_PER_SECOND);
+  return `${Number(seconds.toFixed(3))} s`;
+}
+
+function seconds(nanos: bigint | null): number {
+  return nanos === null ? 0 : Number(nanos) / Number(NANOS_PER_SECOND);
+}
+
+function parseOffset(value: string | undefined): bigint {
+  if (!value) return 0n;
+  try {
+    return parseTaiTimestamp(value);
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * The flow's edit rate: frame rate for video, sample rate for audio
+ */
+function editRate(flow: CoverageFlow | undefined): EditRate | null {
+  const essence = flow?.essence_parameters as { frame_rate?: TamsRational; sample_rate?: number } | undefined;
+  if (flow?.format === 'urn:x-nmos:format:video' && essence?.frame_rate?.numerator) {
+    return essence.frame_rate;
+  }
+  if (flow?.format === 'urn:x-nmos:format:audio' && essence?.sample_rate) {
+    return { numerator: essence.sample_rate };
+  }
+  return null;
+}
+
+/**
+ * Analyse the coverage of a flow's timeline by `segments`, which may be in any order
+ */
+export function analyseSegmentCoverage(
+  flowId: string,
+  segments: FlowSegment[],
+  flow?: CoverageFlow
+): FlowCoverageReport {
+  const issues: CoverageIssue[] = [];
+  const placed = segments
+    .map(segment => ({ segment, range: tryParseTimerange(segment.timerange) }))
+    .filter((entry): entry is { segment: FlowSegment; range: Timerange & { start: bigint; end: bigint } } =>
+      entry.range !== null && isBoundedTimerange(entry.range) && !isEmptyTimerange(entry.range))
+    .sort((a, b) => compareStarts(a.range, b.range))
+    .map((entry, position): PlacedSegment => ({ ...entry, position, tsOffset: parseOffset(entry.segment.ts_offset) }));
+
+  // Overlaps: each segment against the one reaching furthest before it
+  const overlaps: Timerange[] = [];
+  let reach: PlacedSegment | undefined;
+  for (const current of placed) {
+    if (reach && timerangesOverlap(reach.range, current.range)) {
+      const overlap = intersectTimeranges(reach.range, current.range);
+      overlaps.push(overlap);
+      issues.push({
+        kind: 'overlap',
+        severity: 'critical',
+        message: `Segments ${reach.position + 1} and ${current.position + 1} overlap by ${formatSeconds(timerangeDuration(overlap) ?? 0n)}`,
+        timerange: formatTimerange(overlap),
+        segments: [reach.position, current.position]
+      });
+    }
+    if (!reach || (current.range.end > reach.range.end)) reach = current;
+  }
+
+  // Gaps: what the segments leave uncovered of the flow's timerange, or of their own span
+  const covered = mergeTimeranges(placed.map(entry => entry.range));
+  const first = covered[0];
+  const last = covered[covered.length - 1];
+  const span = first && last ? createTimerange(first.start, last.end, first.includesStart, last.includesEnd) : null;
+  const flowRange = typeof flow?.timerange === 'string' ? tryParseTimerange(flow.timerange) : null;
+  const reference = flowRange && isBoundedTimerange(flowRange) ? flowRange : span;
+  const gaps = reference
+    ? covered.reduce((remaining, range) => remaining.flatMap(piece => subtractTimerange(piece, range)), [reference])
+    : [];
+  for (const gap of gaps) {
+    const before = placed.filter(entry => gap.start !== null && entry.range.end <= gap.start).pop();
+    const after = placed.find(entry => gap.end !== null && entry.range.start >= gap.end);
+    issues.push({
+      kind: 'gap',
+      severity: 'warning',
+      message: before && after
+        ? `${formatSeconds(timerangeDuration(gap) ?? 0n)} without media between segments ${before.position + 1} and ${after.position + 1}`
+        : `${formatSeconds(timerangeDuration(gap) ?? 0n)} of the flow's timerange without media ${after ? 'before the first' : 'after the last'} segment`,
+      timerange: formatTimerange(gap),
+      segments: [before?.position, after?.position].filter((position): position is number => position !== undefined)
+    });
+  }
+
+  // Objects referenced by more than one segment
+  const byObject = new Map<string, PlacedSegment[]>();
+  for (const entry of placed) {
+    byObject.set(entry.segment.object_id, [...(byObject.get(entry.segment.object_id) ?? []), entry]);
+  }
+  byObject.forEach((entries, objectId) => {
+    if (entries.length < 2) return;
+    issues.push({
+      kind: 'duplicate_object',
+      severity: 'warning',
+      message: `Object ${objectId} is referenced by ${entries.length} segments (${entries.map(entry => entry.position + 1).join(', ')})`,
+      segments: entries.map(entry => entry.position),
+      objectId
+    });
+  });
+
+  // Media timestamps from one segment to the next: backwards is an error, a jump a discontinuity
+  placed.forEach((current, index) => {
+    const previous = placed[index - 1];
+    if (!previous || previous.tsOffset === current.tsOffset) return;
+    const previousMediaEnd = previous.range.end - previous.tsOffset;
+    const mediaStart = current.range.start - current.tsOffset;
+    // The new offset bridges a gap between segments; the media runs on
+    if (mediaStart === previousMediaEnd) return;
+    const backwards = mediaStart < previousMediaEnd;
+    issues.push({
+      kind: 'ts_offset',
+      severity: backwards ? 'warning' : 'info',
+      message: backwards
+        ? `Media timestamps go back ${formatSeconds(previousMediaEnd - mediaStart)} from segment ${previous.position + 1} to ${current.position + 1} (ts_offset ${previous.segment.ts_offset ?? '0:0'} → ${current.segment.ts_offset ?? '0:0'})`
+        : `Media timestamps jump ${formatSeconds(mediaStart - previousMediaEnd)} from segment ${previous.position + 1} to ${current.position + 1} (ts_offset ${previous.segment.ts_offset ?? '0:0'} → ${current.segment.ts_offset ?? '0:0'})`,
+      timerange: formatTimerange(current.range),
+      segments: [previous.position, current.position]
+    });
+  });
+
+  // Sample counts against the duration at the flow's edit rate
+  const rate = editRate(flow);
+  if (rate) {
+    for (const entry of placed) {
+      if (entry.segment.sample_count === undefined) continue;
+      const expected = timestampToCount(entry.range.end - entry.range.start, rate, 'round');
+      const actual = BigInt(entry.segment.sample_count);
+      const difference = actual > expected ? actual - expected : expected - actual;
+      if (difference <= SAMPLE_COUNT_TOLERANCE) continue;
+      issues.push({
+        kind: 'sample_count',
+        severity: 'warning',
+        message: `Segment ${entry.position + 1} has ${actual} samples, but ${formatSeconds(entry.range.end - entry.range.start)} at ${rate.numerator}/${rate.denominator ?? 1} is ${expected}`,
+        timerange: formatTimerange(entry.range),
+        segments: [entry.position],
+        objectId: entry.segment.object_id
+      });
+    }
+  }
+
+  return {
+    flowId,
+    analysedAt: new Date().toISOString(),
+    segmentCount: placed.length,
+    skippedSegments: segments.length - placed.length,
+    span: span ? formatTimerange(span) : null,
+    ...(flowRange ? { flowTimerange: formatTimerange(flowRange) } : {}),
+    covered: covered.map(formatTimerange),
+    gaps: gaps.map(formatTimerange),
+    overlaps: mergeTimeranges(overlaps).map(formatTimerange),
+    spanSeconds: seconds(reference ? timerangeDuration(reference) : null),
+    coveredSeconds: covered.reduce((total, range) => total + seconds(timerangeDuration(range)), 0),
+    issues
+  };
+}
+
+const SEVERITY_ORDER: CoverageSeverity[] = ['info', 'warning', 'critical'];
+
+/**
+ * Health of a flow from its coverage: the worst issue's severity, with info counting as healthy
+ */
+export function coverageHealth(report: FlowCoverageReport): 'healthy' | 'warning' | 'critical' {
+  const worst = report.issues.reduce(
+    (current, issue) => Math.max(current, SEVERITY_ORDER.indexOf(issue.severity)),
+    0
+  );
+  return worst === 2 ? 'critical' : worst === 1 ? 'warning' : 'healthy';
+}
+
+export interface CoverageCheck {
+  kind: CoverageIssueKind;
+  status: 'healthy' | 'warning' | 'critical';
+  message: string;
+  issues: number;
+}
+
+const HEALTHY_MESSAGES: Record<CoverageIssueKind, string> = {
+  gap: 'Segments cover the flow without gaps',
+  overlap: 'No segments overlap',
+  duplicate_object: 'Every segment has its own object',
+  ts_offset: 'Media timestamps run on from segment to segment',
+  sample_count: 'Sample counts match segment durations'
+};
+
+/**
+ * One health check per kind of issue, each as bad as its worst issue
+ */
+export function coverageChecks(report: FlowCoverageReport): CoverageCheck[] {
+  return (Object.keys(HEALTHY_MESSAGES) as CoverageIssueKind[]).map(kind => {
+    const found = report.issues.filter(issue => issue.kind === kind);
+    const worst = found.reduce((current, issue) => Math.max(current, SEVERITY_ORDER.indexOf(issue.severity)), 0);
+    const status = worst === 2 ? 'critical' : worst === 1 ? 'warning' : 'healthy';
+    let message = HEALTHY_MESSAGES[kind];
+    if (kind === 'gap' && found.length > 0) {
+      const missing = Math.max(0, report.spanSeconds - report.coveredSeconds);
+      message = `${found.length} gap${found.length === 1 ? '' : 's'}, ${Number(missing.toFixed(3))} s without media`;
+    } else if (kind === 'ts_offset' && found.length > 0) {
+      const backwards = found.filter(issue => issue.severity !== 'info').length;
+      message = backwards > 0
+        ? `Media timestamps go backwards ${backwards} time${backwards === 1 ? '' : 's'}`
+        : `${found.length} timestamp discontinuit${found.length === 1 ? 'y' : 'ies'}`;
+    } else if (found.length > 0) {
+      message = found.length === 1 ? found[0]?.message ?? '' : `${found.length} issues: ${found[0]?.message ?? ''}, ...`;
+    }
+    return { kind, status, message, issues: found.length };
+  });
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The report's issues as CSV, one row per issue; segment positions are 1-based
+ */
+export function coverageReportToCsv(report: FlowCoverageReport): string {
+  const rows = [
+    ['flow_id', 'kind', 'severity', 'timerange', 'segments', 'object_id', 'message'],
+    ...report.issues.map(issue => [
+      report.flowId,
+      issue.kind,
+      issue.severity,
+      issue.timerange,
+      issue.segments.map(position => position + 1).join(' '),
+      issue.objectId,
+      issue.message
+    ])
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
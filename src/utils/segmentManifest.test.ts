@@ -0,0 +1,211 @@
+/**
+ * HLS and DASH Manifest Parsing Tests
+ *
+ * Chunk lists from HLS media and master playlists, and from DASH segment timelines and
+ * fixed-duration templates, including periods whose length the MPD does not give.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  manifestKind,
+  parseDashManifest,
+  parseHlsPlaylist,
+  parseIsoDuration,
+  resolveManifestUri
+} from './segmentManifest';
+
+interface XmlElement {
+  localName: string;
+  attributes: Map<string, string>;
+  children: XmlElement[];
+  textContent: string;
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+}
+
+function xmlElement(localName: string, attributes: Map<string, string>): XmlElement {
+  return {
+    localName,
+    attributes,
+    children: [],
+    textContent: '',
+    getAttribute: name => attributes.get(name) ?? null,
+    hasAttribute: name => attributes.has(name)
+  };
+}
+
+/**
+ * The part of DOMParser the MPD parser reads, for the well-formed manifests below; node has
+ * no DOM of its own
+ */
+class MpdParser {
+  parseFromString(text: string) {
+    const root = xmlElement('#document', new Map());
+    const open = [root];
+    const body = text.replace(/<\?[^>]*\?>|<!--[\s\S]*?-->/g, '');
+    for (const [, closing, name = '', attributeList = '', selfClosing, content] of body.matchAll(/<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+      const parent = open[open.length - 1] ?? root;
+      if (content !== undefined) {
+        parent.textContent += content;
+      } else if (closing) {
+        open.pop();
+      } else {
+        const attributes = new Map([...attributeList.matchAll(/([\w:]+)="([^"]*)"/g)].map(([, key = '', value = '']) => [key, value]));
+        const element = xmlElement(name.replace(/^\w+:/, ''), attributes);
+        parent.children.push(element);
+        if (!selfClosing) open.push(element);
+      }
+    }
+    return { documentElement: root.children[0], getElementsByTagName: () => [] };
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('DOMParser', MpdParser);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+function mpd(attributes: string, periods: string): string {
+  return `<?xml version="1.0"?>\n<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static" ${attributes}>${periods}</MPD>`;
+}
+
+const VIDEO_SET = (template: string) => `
+  <AdaptationSet mimeType="video/mp4" codecs="avc1.64001f">
+    <Representation id="v1" bandwidth="2000000" width="1280" height="720">${template}</Representation>
+  </AdaptationSet>`;
+
+describe('HLS playlists', () => {
+  it('reads chunks with byte ranges, the init map and discontinuities', () => {
+    const [rendition, ...rest] = parseHlsPlaylist([
+      '#EXTM3U',
+      '#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"',
+      '#EXTINF:6.006,',
+      '#EXT-X-BYTERANGE:1000@720',
+      'media.mp4',
+      '#EXTINF:6.006,',
+      '#EXT-X-BYTERANGE:500',
+      'media.mp4',
+      '#EXT-X-DISCONTINUITY',
+      '#EXTINF:2.5,',
+      '../other/seg.mp4'
+    ].join('\n'), 'shows/ep1/index.m3u8');
+
+    expect(rest).toEqual([]);
+    expect(rendition).toMatchObject({ label: 'index.m3u8', initUri: 'shows/ep1/init.mp4', initByteRange: { offset: 0, length: 720 } });
+    expect(rendition?.chunks).toEqual([
+      { uri: 'shows/ep1/media.mp4', durationSeconds: 6.006, byteRange: { offset: 720, length: 1000 } },
+      // Without @offset a byte range continues from the end of the previous one
+      { uri: 'shows/ep1/media.mp4', durationSeconds: 6.006, byteRange: { offset: 1720, length: 500 } },
+      { uri: 'shows/other/seg.mp4', durationSeconds: 2.5, discontinuity: true }
+    ]);
+  });
+
+  it('lists the variants of a master playlist without reading them', () => {
+    const variants = parseHlsPlaylist([
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=1280000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2"',
+      '720p/index.m3u8'
+    ].join('\n'), 'https://example.com/live/master.m3u8');
+    expect(variants).toEqual([{
+      id: '1',
+      label: '1280x720, 1280 kb/s, avc1.4d401f,mp4a.40.2',
+      bandwidth: 1280000,
+      width: 1280,
+      height: 720,
+      codecs: 'avc1.4d401f,mp4a.40.2',
+      playlistUri: 'https://example.com/live/720p/index.m3u8',
+      chunks: []
+    }]);
+  });
+
+  it('rejects encrypted, empty and non-HLS playlists', () => {
+    expect(() => parseHlsPlaylist('#EXTM3U\n#EXT-X-KEY:METHOD=AES-128,URI="k"\n#EXTINF:6,\na.ts', 'a.m3u8')).toThrow('Encrypted');
+    expect(() => parseHlsPlaylist('#EXTM3U\n#EXT-X-ENDLIST', 'a.m3u8')).toThrow('no segments');
+    expect(() => parseHlsPlaylist('a.ts', 'a.m3u8')).toThrow('Not an HLS playlist');
+  });
+});
+
+describe('DASH manifests', () => {
+  it('expands a segment timeline with repeats and $Time$ from the first @t', () => {
+    const [rendition] = parseDashManifest(mpd('mediaPresentationDuration="PT12S"', `
+      <BaseURL>media/</BaseURL>
+      <Period>${VIDEO_SET(`
+        <SegmentTemplate timescale="90000" initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/$Time$.m4s">
+          <SegmentTimeline><S t="900000" d="360000" r="1"/><S d="180000"/></SegmentTimeline>
+        </SegmentTemplate>`)}
+      </Period>`), 'https://example.com/vod/stream.mpd');
+
+    expect(rendition).toMatchObject({ id: 'v1', label: 'v1, 1280x720, 2000 kb/s, avc1.64001f', initUri: 'https://example.com/vod/media/v1/init.mp4' });
+    expect(rendition?.chunks).toEqual([
+      { uri: 'https://example.com/vod/media/v1/900000.m4s', durationSeconds: 4, mediaStartSeconds: 10 },
+      { uri: 'https://example.com/vod/media/v1/1260000.m4s', durationSeconds: 4, mediaStartSeconds: 14 },
+      { uri: 'https://example.com/vod/media/v1/1620000.m4s', durationSeconds: 2, mediaStartSeconds: 18 }
+    ]);
+  });
+
+  it('takes the period length from the presentation when the period has no duration', () => {
+    const [rendition] = parseDashManifest(mpd('mediaPresentationDuration="PT9S"', `
+      <Period>${VIDEO_SET('<SegmentTemplate timescale="1000" duration="4000" startNumber="0" media="seg-$Number%03d$.m4s"/>')}</Period>`), 'dash/stream.mpd');
+
+    // The last segment is cut short at the end of the period
+    expect(rendition?.chunks).toEqual([
+      { uri: 'dash/seg-000.m4s', durationSeconds: 4, mediaStartSeconds: 0 },
+      { uri: 'dash/seg-001.m4s', durationSeconds: 4, mediaStartSeconds: 4 },
+      { uri: 'dash/seg-002.m4s', durationSeconds: 1, mediaStartSeconds: 8 }
+    ]);
+  });
+
+  it('repeats an open-ended timeline entry to the end of a timed period only', () => {
+    const timeline = '<SegmentTemplate timescale="1" media="$Number$.m4s"><SegmentTimeline><S d="2" r="-1"/></SegmentTimeline></SegmentTemplate>';
+    const [timed] = parseDashManifest(mpd('', `<Period duration="PT6S">${VIDEO_SET(timeline)}</Period>`), 'stream.mpd');
+    expect(timed?.chunks.map(chunk => chunk.uri)).toEqual(['1.m4s', '2.m4s', '3.m4s']);
+
+    // Without a period or presentation duration, r="-1" cannot say how many follow
+    const [untimed] = parseDashManifest(mpd('', `<Period>${VIDEO_SET(timeline)}</Period>`), 'stream.mpd');
+    expect(untimed?.chunks).toEqual([{ uri: '1.m4s', durationSeconds: 2, mediaStartSeconds: 0 }]);
+  });
+
+  it('rejects fixed-duration templates in an untimed period', () => {
+    const manifest = mpd('', `<Period>${VIDEO_SET('<SegmentTemplate duration="4" media="$Number$.m4s"/>')}</Period>`);
+    expect(() => parseDashManifest(manifest, 'stream.mpd')).toThrow('neither a segment timeline nor a fixed segment duration and period length');
+  });
+
+  it('imports only the first period and notes the rest', () => {
+    const period = `<Period duration="PT4S">${VIDEO_SET('<SegmentTemplate duration="4" media="$Number$.m4s"/>')}</Period>`;
+    const [rendition] = parseDashManifest(mpd('', period + period), 'stream.mpd');
+    expect(rendition?.chunks).toHaveLength(1);
+    expect(rendition?.note).toBe('Only the first of 2 periods is imported');
+  });
+
+  it('rejects live manifests and single-file representations', () => {
+    expect(() => parseDashManifest(mpd('', '').replace('static', 'dynamic'), 'live.mpd')).toThrow('Live (dynamic)');
+    expect(() => parseDashManifest(mpd('', `<Period>${VIDEO_SET('<BaseURL>video.mp4</BaseURL>')}</Period>`), 'vod.mpd'))
+      .toThrow('single-file representations cannot be imported');
+  });
+});
+
+describe('manifest helpers', () => {
+  it('tells HLS from DASH by name or content', () => {
+    expect(manifestKind('index.m3u8', '')).toBe('hls');
+    expect(manifestKind('playlist', '\n#EXTM3U\n')).toBe('hls');
+    expect(manifestKind('manifest', '<MPD type="static">')).toBe('dash');
+    expect(manifestKind('video.mp4', '')).toBeNull();
+  });
+
+  it('reads ISO 8601 durations', () => {
+    expect(parseIsoDuration('PT1H2M3.5S')).toBe(3723.5);
+    expect(parseIsoDuration('P1D')).toBe(86400);
+    expect(parseIsoDuration('PT')).toBe(0);
+    expect(parseIsoDuration(null)).toBeNull();
+    expect(parseIsoDuration('1:00')).toBeNull();
+  });
+
+  it('resolves against URLs and folder paths', () => {
+    expect(resolveManifestUri('seg.ts', 'https://example.com/a/b.m3u8')).toBe('https://example.com/a/seg.ts');
+    expect(resolveManifestUri('https://cdn.example.com/seg.ts', 'folder/b.m3u8')).toBe('https://cdn.example.com/seg.ts');
+    expect(resolveManifestUri('../c/./seg.ts', 'folder/a/b.m3u8')).toBe('folder/c/seg.ts');
+  });
+});
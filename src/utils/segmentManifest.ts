@@ -0,0 +1,365 @@
+/**
+ * HLS and DASH Manifest Parsing
+ *
+ * Turns an HLS playlist or a DASH MPD into the chunks a segment import registers: each chunk's
+ * URI, duration and, where the manifest says, the media time it starts at. HLS durations come
+ * from EXTINF (EXT-X-BYTERANGE and EXT-X-MAP are honoured); a master playlist lists its
+ * variants instead, whose media playlists are parsed in turn. DASH durations come from
+ * SegmentTimeline, a fixed SegmentTemplate duration or SegmentList, with $Number$, $Time$,
+ * $RepresentationID$ and $Bandwidth$ templates and BaseURL inheritance.
+ *
+ * URIs are resolved against the manifest's location: a URL for manifests fetched from a
+ * server, or a relative path for manifests in a dropped folder.
+ */
+
+export interface ManifestChunk {
+  uri: string;
+  durationSeconds: number;
+  // Media time of the chunk's first sample in seconds, when the manifest gives it (DASH)
+  mediaStartSeconds?: number;
+  byteRange?: { offset: number; length: number };
+  // Timestamps restart at this chunk (HLS EXT-X-DISCONTINUITY)
+  discontinuity?: boolean;
+}
+
+/**
+ * One rendition of the content: an HLS variant or a DASH representation
+ */
+export interface ManifestRendition {
+  id: string;
+  label: string;
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  // HLS variant whose media playlist has not been read yet
+  playlistUri?: string;
+  // Initialization segment to put in front of every chunk (fMP4)
+  initUri?: string;
+  initByteRange?: { offset: number; length: number };
+  chunks: ManifestChunk[];
+  // What of the manifest the chunks leave out, e.g. DASH periods after the first
+  note?: string;
+}
+
+export type ManifestKind = 'hls' | 'dash';
+
+export function manifestKind(name: string, text: string): ManifestKind | null {
+  if (/\.m3u8?$/i.test(name) || text.trimStart().startsWith('#EXTM3U')) return 'hls';
+  if (/\.mpd$/i.test(name) || /<MPD[\s>]/.test(text)) return 'dash';
+  return null;
+}
+
+/**
+ * Resolve `uri` against the manifest's location: a URL, or a path within a dropped folder
+ */
+export function resolveManifestUri(uri: string, base: string): string {
+  // An absolute URI ignores the base, which for a dropped folder is no URL at all
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) return new URL(uri).href;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(base)) return new URL(uri, base).href;
+  const parts = [...base.split('/').slice(0, -1), ...uri.split('/')];
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+// ---------------------------------------------------------------------------
+// HLS
+// ---------------------------------------------------------------------------
+
+/**
+ * Attributes of a tag, e.g. BANDWIDTH=1280000,CODECS="avc1.4d401f,mp4a.40.2"
+ */
+function hlsAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    const [, name = '', value = ''] = match;
+    attributes[name] = value.replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+function hlsByteRange(value: string, previousEnd: number): { offset: number; length: number } {
+  const [length = '0', offset] = value.split('@');
+  return { length: Number(length), offset: offset !== undefined ? Number(offset) : previousEnd };
+}
+
+/**
+ * Parse an HLS playlist at `base`: a media playlist gives one rendition with its chunks, a
+ * master playlist one rendition per variant with `playlistUri` set and no chunks
+ */
+export function parseHlsPlaylist(text: string, base: string): ManifestRendition[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('Not an HLS playlist: the first line must be #EXTM3U');
+  }
+
+  const variants: ManifestRendition[] = [];
+  const chunks: ManifestChunk[] = [];
+  let initUri: string | undefined;
+  let initByteRange: { offset: number; length: number } | undefined;
+  let duration: number | null = null;
+  let byteRange: { offset: number; length: number } | undefined;
+  let byteRangeEnd = 0;
+  let discontinuity = false;
+  let variant: Record<string, string> | null = null;
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      variant = hlsAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = Number.parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      byteRange = hlsByteRange(line.slice('#EXT-X-BYTERANGE:'.length), byteRangeEnd);
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const map = hlsAttributes(line.slice('#EXT-X-MAP:'.length));
+      if (map.URI) initUri = resolveManifestUri(map.URI, base);
+      if (map.BYTERANGE) initByteRange = hlsByteRange(map.BYTERANGE, 0);
+    } else if (line === '#EXT-X-DISCONTINUITY') {
+      discontinuity = true;
+    } else if (line.startsWith('#EXT-X-KEY:') && !/METHOD=NONE/.test(line)) {
+      throw new Error('Encrypted HLS playlists cannot be imported');
+    } else if (!line.startsWith('#')) {
+      if (variant) {
+        const [width, height] = (variant.RESOLUTION ?? '').split('x').map(Number);
+        const bandwidth = Number(variant.BANDWIDTH);
+        variants.push({
+          id: String(variants.length + 1),
+          label: [variant.RESOLUTION, bandwidth ? `${Math.round(bandwidth / 1000)} kb/s` : null, variant.CODECS]
+            .filter(Boolean).join(', ') || line,
+          ...(bandwidth ? { bandwidth } : {}),
+          ...(width && height ? { width, height } : {}),
+          ...(variant.CODECS ? { codecs: variant.CODECS } : {}),
+          playlistUri: resolveManifestUri(line, base),
+          chunks: []
+        });
+        variant = null;
+      } else if (duration !== null) {
+        chunks.push({
+          uri: resolveManifestUri(line, base),
+          durationSeconds: duration,
+          ...(byteRange ? { byteRange } : {}),
+          ...(discontinuity ? { discontinuity } : {})
+        });
+        if (byteRange) byteRangeEnd = byteRange.offset + byteRange.length;
+        duration = null;
+        byteRange = undefined;
+        discontinuity = false;
+      }
+    }
+  }
+
+  if (variants.length > 0) return variants;
+  if (chunks.length === 0) {
+    throw new Error('The playlist lists no segments');
+  }
+  return [{
+    id: '1',
+    label: base.split('/').pop() || 'Playlist',
+    ...(initUri ? { initUri } : {}),
+    ...(initByteRange ? { initByteRange } : {}),
+    chunks
+  }];
+}
+
+// ---------------------------------------------------------------------------
+// DASH
+// ---------------------------------------------------------------------------
+
+/**
+ * Seconds of an ISO 8601 duration such as PT1H2M3.5S
+ */
+export function parseIsoDuration(value: string | null): number | null {
+  const match = value ? /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value) : null;
+  if (!match) return null;
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function firstChild(parent: Element | null | undefined, name: string): Element | undefined {
+  return parent ? childElements(parent, name)[0] : undefined;
+}
+
+/**
+ * Apply the BaseURL of `element`, if any, to `base`
+ */
+function withBaseUrl(element: Element, base: string): string {
+  const baseUrl = firstChild(element, 'BaseURL')?.textContent?.trim();
+  return baseUrl ? resolveManifestUri(baseUrl, base) : base;
+}
+
+/**
+ * Expand a SegmentTemplate URL: $RepresentationID$, $Bandwidth$, $Number$ and $Time$, with
+ * optional printf widths such as $Number%05d$
+ */
+function expandTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (whole, name: string, width?: string) => {
+    if (name === '') return '$';
+    const value = values[name];
+    if (value === undefined) return whole;
+    return width ? String(value).padStart(Number(width), '0') : String(value);
+  });
+}
+
+function numberAttribute(elements: Array<Element | undefined>, name: string): number | undefined {
+  for (const element of elements) {
+    const value = element?.getAttribute(name);
+    if (value !== null && value !== undefined && value !== '') return Number(value);
+  }
+  return undefined;
+}
+
+function stringAttribute(elements: Array<Element | undefined>, name: string): string | undefined {
+  for (const element of elements) {
+    const value = element?.getAttribute(name);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function representationChunks(
+  representation: Element,
+  adaptationSet: Element,
+  period: Element,
+  base: string,
+  periodSeconds: number | null
+): Pick<ManifestRendition, 'chunks' | 'initUri'> {
+  const id = representation.getAttribute('id') ?? '';
+  const bandwidth = representation.getAttribute('bandwidth') ?? '';
+  // Templates and lists may sit on the representation, its adaptation set or the period
+  const templates = [representation, adaptationSet, period].map(element => firstChild(element, 'SegmentTemplate'));
+  const lists = [representation, adaptationSet, period].map(element => firstChild(element, 'SegmentList'));
+
+  if (templates.some(Boolean)) {
+    const timescale = numberAttribute(templates, 'timescale') ?? 1;
+    const startNumber = numberAttribute(templates, 'startNumber') ?? 1;
+    const presentationTimeOffset = numberAttribute(templates, 'presentationTimeOffset') ?? 0;
+    const media = stringAttribute(templates, 'media');
+    const initialization = stringAttribute(templates, 'initialization');
+    if (!media) throw new Error(`Representation ${id} has no media template`);
+    const initUri = initialization
+      ? resolveManifestUri(expandTemplate(initialization, { RepresentationID: id, Bandwidth: bandwidth }), base)
+      : undefined;
+
+    const chunks: ManifestChunk[] = [];
+    const timeline = templates.map(template => firstChild(template, 'SegmentTimeline')).find(Boolean);
+    if (timeline) {
+      // Media time, from 0 when the first S has no @t; presentationTimeOffset is the media
+      // time at which the period starts, used below to find the period's end
+      let time = 0;
+      let number = startNumber;
+      const entries = childElements(timeline, 'S');
+      entries.forEach((entry, index) => {
+        const duration = Number(entry.getAttribute('d'));
+        if (entry.hasAttribute('t')) time = Number(entry.getAttribute('t'));
+        let repeat = Number(entry.getAttribute('r') ?? 0);
+        if (repeat < 0) {
+          // Repeat until the next entry's start, or the end of the period
+          const next = entries[index + 1]?.getAttribute('t');
+          const end = next !== null && next !== undefined
+            ? Number(next)
+            : periodSeconds !== null ? presentationTimeOffset + periodSeconds * timescale : time + duration;
+          repeat = Math.max(0, Math.ceil((end - time) / duration) - 1);
+        }
+        for (let i = 0; i <= repeat; i++) {
+          chunks.push({
+            uri: resolveManifestUri(expandTemplate(media, { RepresentationID: id, Bandwidth: bandwidth, Number: number, Time: time }), base),
+            durationSeconds: duration / timescale,
+            mediaStartSeconds: time / timescale
+          });
+          time += duration;
+          number += 1;
+        }
+      });
+    } else {
+      const duration = numberAttribute(templates, 'duration');
+      if (!duration || periodSeconds === null) {
+        throw new Error(`Representation ${id} has neither a segment timeline nor a fixed segment duration and period length`);
+      }
+      const total = periodSeconds * timescale;
+      const count = Math.ceil(total / duration);
+      for (let index = 0; index < count; index++) {
+        const time = presentationTimeOffset + index * duration;
+        chunks.push({
+          uri: resolveManifestUri(expandTemplate(media, { RepresentationID: id, Bandwidth: bandwidth, Number: startNumber + index, Time: time }), base),
+          durationSeconds: Math.min(duration, total - index * duration) / timescale,
+          mediaStartSeconds: time / timescale
+        });
+      }
+    }
+    return { chunks, ...(initUri ? { initUri } : {}) };
+  }
+
+  const list = lists.find(Boolean);
+  if (list) {
+    const timescale = numberAttribute(lists, 'timescale') ?? 1;
+    const duration = numberAttribute(lists, 'duration');
+    if (!duration) throw new Error(`Representation ${id} has a segment list without a duration`);
+    const initialization = firstChild(list, 'Initialization')?.getAttribute('sourceURL');
+    const chunks = childElements(list, 'SegmentURL').map((segment, index) => ({
+      uri: resolveManifestUri(segment.getAttribute('media') ?? '', base),
+      durationSeconds: duration / timescale,
+      mediaStartSeconds: (index * duration) / timescale
+    }));
+    return { chunks, ...(initialization ? { initUri: resolveManifestUri(initialization, base) } : {}) };
+  }
+
+  throw new Error(`Representation ${id} has no SegmentTemplate or SegmentList; single-file representations cannot be imported as segments`);
+}
+
+/**
+ * Parse a static DASH MPD at `base` into one rendition per representation
+ */
+export function parseDashManifest(text: string, base: string): ManifestRendition[] {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const mpd = document.documentElement;
+  if (mpd.localName !== 'MPD' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a DASH manifest: the document is not an MPD');
+  }
+  if (mpd.getAttribute('type') === 'dynamic') {
+    throw new Error('Live (dynamic) DASH manifests cannot be imported');
+  }
+
+  const presentationSeconds = parseIsoDuration(mpd.getAttribute('mediaPresentationDuration'));
+  const renditions: ManifestRendition[] = [];
+  const mpdBase = withBaseUrl(mpd, base);
+  const periods = childElements(mpd, 'Period');
+  const note = periods.length > 1 ? `Only the first of ${periods.length} periods is imported` : undefined;
+  const period = periods[0];
+  if (!period) throw new Error('The MPD has no Period');
+  const periodBase = withBaseUrl(period, mpdBase);
+  const periodSeconds = parseIsoDuration(period.getAttribute('duration')) ?? presentationSeconds;
+
+  for (const adaptationSet of childElements(period, 'AdaptationSet')) {
+    const setBase = withBaseUrl(adaptationSet, periodBase);
+    for (const representation of childElements(adaptationSet, 'Representation')) {
+      const id = representation.getAttribute('id') ?? String(renditions.length + 1);
+      const width = Number(representation.getAttribute('width') ?? adaptationSet.getAttribute('width'));
+      const height = Number(representation.getAttribute('height') ?? adaptationSet.getAttribute('height'));
+      const bandwidth = Number(representation.getAttribute('bandwidth'));
+      const codecs = representation.getAttribute('codecs') ?? adaptationSet.getAttribute('codecs') ?? undefined;
+      const mimeType = representation.getAttribute('mimeType') ?? adaptationSet.getAttribute('mimeType');
+      renditions.push({
+        id,
+        label: [id, width && height ? `${width}x${height}` : mimeType, bandwidth ? `${Math.round(bandwidth / 1000)} kb/s` : null, codecs]
+          .filter(Boolean).join(', '),
+        ...(bandwidth ? { bandwidth } : {}),
+        ...(width && height ? { width, height } : {}),
+        ...(codecs ? { codecs } : {}),
+        ...representationChunks(representation, adaptationSet, period, withBaseUrl(representation, setBase), periodSeconds),
+        ...(note ? { note } : {})
+      });
+    }
+  }
+  if (renditions.length === 0) {
+    throw new Error('The MPD has no representations');
+  }
+  return renditions;
+}
@@ -0,0 +1,102 @@
+/**
+ * TAI / UTC Conversion Tests
+ *
+ * Conversions around the 2017-01-01 leap second, where TAI - UTC went from 36 to 37
+ * seconds, and replacing the leap second table from a leap-seconds.list file.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  EMBEDDED_LEAP_SECONDS_EXPIRES,
+  dateToTai,
+  getLeapSecondTable,
+  getTaiUtcOffset,
+  isLeapSecondTableExpired,
+  parseLeapSecondsList,
+  resetLeapSecondTable,
+  setLeapSecondTable,
+  taiToDate,
+  taiToUtc,
+  utcToTai
+} from './taiUtc';
+import { NANOS_PER_SECOND, taiTimestamp } from './timerange';
+
+// Unix time of 2017-01-01T00:00:00Z, the first second after the last leap second
+const LEAP = 1483228800;
+
+const seconds = (value: number) => BigInt(value) * NANOS_PER_SECOND;
+
+const LEAP_SECONDS_LIST = [
+  '#\tUpdated through IERS Bulletin C 69',
+  '#$\t 3945196800',
+  '#@\t 3960057600',
+  '2272060800\t10\t# 1 Jan 1972',
+  '3692217600\t37\t# 1 Jan 2017',
+  ''
+].join('\n');
+
+afterEach(() => {
+  resetLeapSecondTable();
+});
+
+describe('leap second boundary', () => {
+  it('applies the new offset from the first second after the leap second', () => {
+    expect(getTaiUtcOffset(LEAP - 1)).toBe(36);
+    expect(getTaiUtcOffset(LEAP)).toBe(37);
+    expect(utcToTai(seconds(LEAP - 1))).toBe(seconds(LEAP - 1 + 36));
+    expect(utcToTai(seconds(LEAP))).toBe(seconds(LEAP + 37));
+  });
+
+  it('maps the inserted second 23:59:60 onto the first second of the new day', () => {
+    // TAI seconds of 23:59:59, 23:59:60 and 00:00:00 UTC
+    expect(taiToUtc(seconds(LEAP - 1 + 36))).toBe(seconds(LEAP - 1));
+    expect(taiToUtc(seconds(LEAP + 36))).toBe(seconds(LEAP));
+    expect(taiToUtc(seconds(LEAP + 37))).toBe(seconds(LEAP));
+    expect(taiToUtc(taiTimestamp(LEAP + 36, 500_000_000))).toBe(taiTimestamp(LEAP, 500_000_000));
+  });
+
+  it('round-trips UTC dates either side of the leap second', () => {
+    for (const iso of ['2016-12-31T23:59:59.999Z', '2017-01-01T00:00:00.000Z', '2024-06-01T12:00:00.123Z']) {
+      expect(taiToDate(dateToTai(new Date(iso))).toISOString()).toBe(iso);
+    }
+  });
+
+  it('takes TAI - UTC as 0 before 1972', () => {
+    expect(getTaiUtcOffset(0)).toBe(0);
+    expect(taiToUtc(seconds(1000))).toBe(seconds(1000));
+  });
+});
+
+describe('leap second table', () => {
+  it('parses leap-seconds.list entries and expiry from NTP seconds', () => {
+    expect(parseLeapSecondsList(LEAP_SECONDS_LIST)).toEqual({
+      entries: [{ utcSeconds: 63072000, offset: 10 }, { utcSeconds: LEAP, offset: 37 }],
+      expires: '2025-06-28T00:00:00.000Z'
+    });
+    expect(() => parseLeapSecondsList('# comments only\n')).toThrow('No leap second entries');
+  });
+
+  it('reports expiry of the built-in table', () => {
+    expect(getLeapSecondTable()).toMatchObject({ source: 'embedded', expires: EMBEDDED_LEAP_SECONDS_EXPIRES });
+    expect(isLeapSecondTableExpired(new Date('2026-01-01T00:00:00Z'))).toBe(false);
+    expect(isLeapSecondTableExpired(new Date('2026-07-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('converts with a replaced table until it is reset', () => {
+    const { entries, expires } = parseLeapSecondsList(LEAP_SECONDS_LIST);
+    // Without localStorage the table applies to this session only
+    expect(setLeapSecondTable([{ utcSeconds: LEAP + 86400, offset: 38 }, ...entries], expires)).toBe(false);
+    expect(getLeapSecondTable()).toMatchObject({ source: 'custom', expires });
+    expect(getTaiUtcOffset(LEAP + 86400)).toBe(38);
+    // Entries are kept in time order whatever order they were given in
+    expect(getLeapSecondTable().entries.map(entry => entry.offset)).toEqual([10, 37, 38]);
+
+    resetLeapSecondTable();
+    expect(getTaiUtcOffset(LEAP + 86400)).toBe(37);
+  });
+
+  it('rejects tables that are empty or not integral', () => {
+    expect(() => setLeapSecondTable([])).toThrow('non-empty list');
+    expect(() => setLeapSecondTable([{ utcSeconds: 1.5, offset: 10 }])).toThrow();
+  });
+});
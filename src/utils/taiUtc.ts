@@ -0,0 +1,253 @@
+/**
+ * TAI / UTC Conversion Utilities
+ *
+ * TAMS timestamps are TAI (International Atomic Time) counted from the PTP epoch
+ * (1970-01-01T00:00:00 TAI). Wall-clock logs, JavaScript Dates and Unix time are UTC,
+ * which has drifted behind TAI by the accumulated leap seconds (37s since 2017).
+ *
+ * The leap second table is embedded but can be replaced at runtime from an IETF/NIST
+ * leap-seconds.list file (see LeapSecondTableStatus), and the replacement is persisted
+ * to localStorage so that operators can pick up a new leap second without a rebuild.
+ */
+
+import { NANOS_PER_SECOND, type TaiTimestamp } from './timerange';
+
+/**
+ * A leap second table entry: from `utcSeconds` (Unix time) onwards TAI - UTC = `offset` seconds
+ */
+export interface LeapSecondEntry {
+  utcSeconds: number;
+  offset: number;
+}
+
+export interface LeapSecondTable {
+  entries: LeapSecondEntry[];
+  expires?: string; // ISO date after which the table may be missing announced leap seconds
+  source: 'embedded' | 'custom';
+}
+
+const LEAP_SECONDS_STORAGE_KEY = 'tams_leap_second_table';
+
+// Seconds between the NTP epoch (1900-01-01) used by leap-seconds.list and the Unix epoch
+const NTP_UNIX_EPOCH_DELTA = 2208988800;
+
+/**
+ * Embedded leap second table (IERS Bulletin C). Before 1972 TAI - UTC is taken as 0,
+ * matching the convention used by the TAMS reference implementation.
+ */
+export const EMBEDDED_LEAP_SECONDS: LeapSecondEntry[] = [
+  { utcSeconds: 63072000, offset: 10 }, // 1972-01-01
+  { utcSeconds: 78796800, offset: 11 }, // 1972-07-01
+  { utcSeconds: 94694400, offset: 12 }, // 1973-01-01
+  { utcSeconds: 126230400, offset: 13 }, // 1974-01-01
+  { utcSeconds: 157766400, offset: 14 }, // 1975-01-01
+  { utcSeconds: 189302400, offset: 15 }, // 1976-01-01
+  { utcSeconds: 220924800, offset: 16 }, // 1977-01-01
+  { utcSeconds: 252460800, offset: 17 }, // 1978-01-01
+  { utcSeconds: 283996800, offset: 18 }, // 1979-01-01
+  { utcSeconds: 315532800, offset: 19 }, // 1980-01-01
+  { utcSeconds: 362793600, offset: 20 }, // 1981-07-01
+  { utcSeconds: 394329600, offset: 21 }, // 1982-07-01
+  { utcSeconds: 425865600, offset: 22 }, // 1983-07-01
+  { utcSeconds: 489024000, offset: 23 }, // 1985-07-01
+  { utcSeconds: 567993600, offset: 24 }, // 1988-01-01
+  { utcSeconds: 631152000, offset: 25 }, // 1990-01-01
+  { utcSeconds: 662688000, offset: 26 }, // 1991-01-01
+  { utcSeconds: 709948800, offset: 27 }, // 1992-07-01
+  { utcSeconds: 741484800, offset: 28 }, // 1993-07-01
+  { utcSeconds: 773020800, offset: 29 }, // 1994-07-01
+  { utcSeconds: 820454400, offset: 30 }, // 1996-01-01
+  { utcSeconds: 867715200, offset: 31 }, // 1997-07-01
+  { utcSeconds: 915148800, offset: 32 }, // 1999-01-01
+  { utcSeconds: 1136073600, offset: 33 }, // 2006-01-01
+  { utcSeconds: 1230768000, offset: 34 }, // 2009-01-01
+  { utcSeconds: 1341100800, offset: 35 }, // 2012-07-01
+  { utcSeconds: 1435708800, offset: 36 }, // 2015-07-01
+  { utcSeconds: 1483228800, offset: 37 }  // 2017-01-01
+];
+
+// Expiry of the leap-seconds.list the embedded table was last checked against
+export const EMBEDDED_LEAP_SECONDS_EXPIRES = '2026-06-28T00:00:00.000Z';
+
+const EMBEDDED_TABLE: LeapSecondTable = {
+  entries: EMBEDDED_LEAP_SECONDS,
+  expires: EMBEDDED_LEAP_SECONDS_EXPIRES,
+  source: 'embedded'
+};
+
+let activeTable: LeapSecondTable = loadStoredTable() ?? EMBEDDED_TABLE;
+
+function loadStoredTable(): LeapSecondTable | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LEAP_SECONDS_STORAGE_KEY) : null;
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as LeapSecondTable;
+    return validateEntries(parsed.entries) ? { ...parsed, source: 'custom' } : null;
+  } catch {
+    return null;
+  }
+}
+
+function validateEntries(entries: unknown): entries is LeapSecondEntry[] {
+  return Array.isArray(entries) &&
+    entries.length > 0 &&
+    entries.every(entry =>
+      typeof entry?.utcSeconds === 'number' &&
+      Number.isInteger(entry.utcSeconds) &&
+      typeof entry?.offset === 'number' &&
+      Number.isInteger(entry.offset)
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Table management
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the leap second table currently used for conversions
+ */
+export function getLeapSecondTable(): LeapSecondTable {
+  return activeTable;
+}
+
+/**
+ * Replace the leap second table and persist it for future sessions; false when it could
+ * only be applied to this session because storage is unavailable
+ */
+export function setLeapSecondTable(entries: LeapSecondEntry[], expires?: string): boolean {
+  if (!validateEntries(entries)) {
+    throw new Error('Leap second table must be a non-empty list of { utcSeconds, offset } integer entries');
+  }
+  const sorted = [...entries].sort((a, b) => a.utcSeconds - b.utcSeconds);
+  activeTable = { entries: sorted, ...(expires ? { expires } : {}), source: 'custom' };
+  try {
+    localStorage.setItem(LEAP_SECONDS_STORAGE_KEY, JSON.stringify(activeTable));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Revert to the embedded leap second table; false when the replaced table could not be
+ * removed from storage and returns in the next session
+ */
+export function resetLeapSecondTable(): boolean {
+  activeTable = EMBEDDED_TABLE;
+  try {
+    localStorage.removeItem(LEAP_SECONDS_STORAGE_KEY);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an IETF/NIST leap-seconds.list file.
+ * Data lines are "<NTP seconds> <TAI-UTC>" and the "#@" line carries the expiry (NTP seconds).
+ */
+export function parseLeapSecondsList(text: string): { entries: LeapSecondEntry[]; expires?: string } {
+  const entries: LeapSecondEntry[] = [];
+  let expires: string | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('#@')) {
+      const ntpSeconds = Number(line.slice(2).trim().split(/\s+/)[0]);
+      if (Number.isFinite(ntpSeconds)) {
+        expires = new Date((ntpSeconds - NTP_UNIX_EPOCH_DELTA) * 1000).toISOString();
+      }
+      continue;
+    }
+    if (!line || line.startsWith('#')) continue;
+
+    const [ntpText, offsetText] = line.split(/\s+/);
+    const ntpSeconds = Number(ntpText);
+    const offset = Number(offsetText);
+    if (Number.isInteger(ntpSeconds) && Number.isInteger(offset)) {
+      entries.push({ utcSeconds: ntpSeconds - NTP_UNIX_EPOCH_DELTA, offset });
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No leap second entries found in leap-seconds.list data');
+  }
+  return expires ? { entries, expires } : { entries };
+}
+
+/**
+ * Check whether the active table has passed its expiry date (unknown expiry is never expired)
+ */
+export function isLeapSecondTableExpired(now: Date = new Date()): boolean {
+  return !!activeTable.expires && new Date(activeTable.expires).getTime() < now.getTime();
+}
+
+// ---------------------------------------------------------------------------
+// Conversions
+// ---------------------------------------------------------------------------
+
+/**
+ * TAI - UTC in seconds at the given Unix (UTC) time
+ */
+export function getTaiUtcOffset(utcSeconds: number): number {
+  const { entries } = activeTable;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry && utcSeconds >= entry.utcSeconds) {
+      return entry.offset;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Convert Unix (UTC) nanoseconds to a TAI timestamp
+ */
+export function utcToTai(utcNanos: bigint): TaiTimestamp {
+  const utcSeconds = Number(utcNanos / NANOS_PER_SECOND);
+  return utcNanos + BigInt(getTaiUtcOffset(utcSeconds)) * NANOS_PER_SECOND;
+}
+
+/**
+ * Convert a TAI timestamp to Unix (UTC) nanoseconds.
+ * TAI instants inside an inserted leap second map onto the first second of the following
+ * UTC day, since Unix time cannot represent 23:59:60.
+ */
+export function taiToUtc(timestamp: TaiTimestamp): bigint {
+  const { entries } = activeTable;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (!entry) continue;
+    const offset = BigInt(entry.offset) * NANOS_PER_SECOND;
+    if (timestamp - offset >= BigInt(entry.utcSeconds) * NANOS_PER_SECOND) {
+      return timestamp - offset;
+    }
+    const previousOffset = BigInt(entries[i - 1]?.offset ?? 0) * NANOS_PER_SECOND;
+    if (timestamp - previousOffset >= BigInt(entry.utcSeconds) * NANOS_PER_SECOND) {
+      // Inside the leap second itself
+      return timestamp - previousOffset;
+    }
+  }
+  return timestamp;
+}
+
+/**
+ * Convert a TAI timestamp to a JavaScript Date (millisecond precision)
+ */
+export function taiToDate(timestamp: TaiTimestamp): Date {
+  return new Date(Number(taiToUtc(timestamp) / 1_000_000n));
+}
+
+/**
+ * Convert a JavaScript Date (UTC) to a TAI timestamp
+ */
+export function dateToTai(date: Date): TaiTimestamp {
+  return utcToTai(BigInt(date.getTime()) * 1_000_000n);
+}
+
+/**
+ * The current time as a TAI timestamp
+ */
+export function currentTaiTimestamp(): TaiTimestamp {
+  return dateToTai(new Date());
+}
@@ -0,0 +1,139 @@
+/**
+ * Time Display Utilities
+ *
+ * Formats TAI timestamps according to the user-selected display mode so that every
+ * timestamp in the UI is rendered consistently: raw TAI seconds:nanoseconds, UTC,
+ * the browser's local time zone, or SMPTE timecode at the flow's frame rate.
+ */
+
+import {
+  NANOS_PER_SECOND,
+  formatTaiTimestamp,
+  isEmptyTimerange,
+  timestampToCount,
+  type EditRate,
+  type TaiTimestamp,
+  type Timerange
+} from './timerange';
+import { taiToDate, taiToUtc } from './taiUtc';
+import { formatTimecode, framesToTimecode } from './timecode';
+
+export type TimeDisplayMode = 'tai' | 'utc' | 'local' | 'timecode';
+
+export const TIME_DISPLAY_MODES: Array<{ value: TimeDisplayMode; label: string }> = [
+  { value: 'tai', label: 'TAI' },
+  { value: 'utc', label: 'UTC' },
+  { value: 'local', label: 'Local' },
+  { value: 'timecode', label: 'Timecode' }
+];
+
+export const DEFAULT_TIME_DISPLAY_MODE: TimeDisplayMode = 'utc';
+
+const TIME_DISPLAY_STORAGE_KEY = 'tams_time_display_mode';
+
+export interface TimeDisplayOptions {
+  // Flow frame rate, as an essence_parameters rational or a "num/den" string
+  frameRate?: EditRate | string | null | undefined;
+}
+
+/**
+ * Read the persisted display mode (falls back to the default)
+ */
+export function getStoredTimeDisplayMode(): TimeDisplayMode {
+  try {
+    const stored = localStorage.getItem(TIME_DISPLAY_STORAGE_KEY);
+    if (stored && TIME_DISPLAY_MODES.some(mode => mode.value === stored)) {
+      return stored as TimeDisplayMode;
+    }
+  } catch {
+    // Storage unavailable - use the default
+  }
+  return DEFAULT_TIME_DISPLAY_MODE;
+}
+
+/**
+ * Persist the display mode for future sessions; false when storage is unavailable
+ */
+export function storeTimeDisplayMode(mode: TimeDisplayMode): boolean {
+  try {
+    localStorage.setItem(TIME_DISPLAY_STORAGE_KEY, mode);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalise a frame rate given as a rational object or a "num/den" / decimal string
+ */
+export function parseFrameRate(frameRate: TimeDisplayOptions['frameRate']): EditRate | null {
+  if (!frameRate) return null;
+  if (typeof frameRate !== 'string') {
+    return frameRate.numerator > 0 ? frameRate : null;
+  }
+  const [numeratorText, denominatorText] = frameRate.split('/');
+  const numerator = Number(numeratorText);
+  const denominator = denominatorText === undefined ? 1 : Number(denominatorText);
+  if (!Number.isInteger(numerator) || !Number.isInteger(denominator) || numerator <= 0 || denominator <= 0) {
+    return null;
+  }
+  return { numerator, denominator };
+}
+
+/**
+ * SMPTE timecode of the UTC time of day at the given frame rate (drop-frame at 29.97/59.94)
+ */
+export function formatTimecodeOfDay(timestamp: TaiTimestamp, rate: EditRate): string {
+  const dayNanos = 86400n * NANOS_PER_SECOND;
+  const utcNanos = taiToUtc(timestamp);
+  const nanosOfDay = ((utcNanos % dayNanos) + dayNanos) % dayNanos;
+  return formatTimecode(framesToTimecode(timestampToCount(nanosOfDay, rate, 'floor'), rate));
+}
+
+/**
+ * Format a TAI timestamp for display in the given mode
+ */
+export function formatTaiForDisplay(
+  timestamp: TaiTimestamp,
+  mode: TimeDisplayMode,
+  options: TimeDisplayOptions = {}
+): string {
+  switch (mode) {
+    case 'tai':
+      return formatTaiTimestamp(timestamp);
+    case 'local':
+      return taiToDate(timestamp).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+    case 'timecode': {
+      const rate = parseFrameRate(options.frameRate);
+      if (rate) {
+        return formatTimecodeOfDay(timestamp, rate);
+      }
+      // No frame rate for this flow - fall back to UTC
+      return taiToDate(timestamp).toISOString();
+    }
+    case 'utc':
+    default:
+      return taiToDate(timestamp).toISOString();
+  }
+}
+
+/**
+ * Format both bounds of a timerange for display ("start – end")
+ */
+export function formatTimerangeForDisplay(
+  range: Timerange,
+  mode: TimeDisplayMode,
+  options: TimeDisplayOptions = {}
+): string {
+  if (isEmptyTimerange(range)) return 'Empty';
+  const start = range.start === null ? '−∞' : formatTaiForDisplay(range.start, mode, options);
+  const end = range.end === null ? '+∞' : formatTaiForDisplay(range.end, mode, options);
+  return range.start !== null && range.start === range.end ? start : `${start} – ${end}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * SMPTE Timecode Tests
+ *
+ * Non-drop and drop-frame timecode, with the minute and ten-minute marks where
+ * drop-frame numbering skips or keeps frame numbers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimecode,
+  framesToTimecode,
+  isDropFrameRate,
+  mediaTimeToTimecode,
+  parseTimecode,
+  secondsToFrame,
+  snapToFrame,
+  timecodeToFrames,
+  timecodeToTimestamp,
+  timestampToTimecode,
+  tryParseTimecode
+} from './timecode';
+import { NANOS_PER_SECOND } from './timerange';
+
+const PAL = { numerator: 25, denominator: 1 };
+const NTSC = { numerator: 30000, denominator: 1001 };
+const NTSC_60 = { numerator: 60000, denominator: 1001 };
+
+const timecodeOf = (frames: number, rate = NTSC) => formatTimecode(framesToTimecode(frames, rate));
+const framesOf = (value: string, rate = NTSC) => Number(timecodeToFrames(parseTimecode(value, rate), rate));
+
+describe('non-drop-frame timecode', () => {
+  it('counts whole frames per second', () => {
+    expect(timecodeOf(0, PAL)).toBe('00:00:00:00');
+    expect(timecodeOf(24, PAL)).toBe('00:00:00:24');
+    expect(timecodeOf(25 * 3600 + 25 * 61 + 3, PAL)).toBe('01:01:01:03');
+    expect(framesOf('01:01:01:03', PAL)).toBe(25 * 3600 + 25 * 61 + 3);
+  });
+
+  it('does not wrap hours at 24 and keeps the sign', () => {
+    expect(timecodeOf(25 * 3600 * 25, PAL)).toBe('25:00:00:00');
+    expect(timecodeOf(-26, PAL)).toBe('-00:00:01:01');
+    expect(framesOf('-00:00:01:01', PAL)).toBe(-26);
+  });
+});
+
+describe('drop-frame timecode', () => {
+  it('applies to the NTSC family only', () => {
+    expect(isDropFrameRate(NTSC)).toBe(true);
+    expect(isDropFrameRate(NTSC_60)).toBe(true);
+    expect(isDropFrameRate({ numerator: 24000, denominator: 1001 })).toBe(false);
+    expect(isDropFrameRate(PAL)).toBe(false);
+  });
+
+  it('skips frames 0 and 1 at the start of each minute at 29.97', () => {
+    expect(timecodeOf(1799)).toBe('00:00:59;29');
+    expect(timecodeOf(1800)).toBe('00:01:00;02');
+    // The second minute holds 1798 frames
+    expect(timecodeOf(1800 + 1797)).toBe('00:01:59;29');
+    expect(timecodeOf(1800 + 1798)).toBe('00:02:00;02');
+  });
+
+  it('keeps frames 0 and 1 at every tenth minute', () => {
+    expect(timecodeOf(17981)).toBe('00:09:59;29');
+    expect(timecodeOf(17982)).toBe('00:10:00;00');
+    expect(timecodeOf(17983)).toBe('00:10:00;01');
+    expect(timecodeOf(107892)).toBe('01:00:00;00');
+  });
+
+  it('skips frames 0 to 3 at 59.94', () => {
+    expect(timecodeOf(3599, NTSC_60)).toBe('00:00:59;59');
+    expect(timecodeOf(3600, NTSC_60)).toBe('00:01:00;04');
+    expect(timecodeOf(35964, NTSC_60)).toBe('00:10:00;00');
+  });
+
+  it('round-trips every frame of the first twelve minutes', () => {
+    for (let frame = 0; frame < 12 * 1800; frame++) {
+      expect(framesOf(timecodeOf(frame))).toBe(frame);
+    }
+  });
+
+  it('rejects dropped frame numbers and drop-frame at other rates', () => {
+    expect(() => parseTimecode('00:01:00;00', NTSC)).toThrow('dropped at the start of this minute');
+    expect(() => parseTimecode('00:01:00;01', NTSC)).toThrow();
+    expect(parseTimecode('00:10:00;00', NTSC).frames).toBe(0);
+    expect(() => parseTimecode('00:00:01;00', PAL)).toThrow('only valid at 29.97 or 59.94');
+    expect(tryParseTimecode('00:00:00:25', PAL)).toBeNull();
+    expect(tryParseTimecode('00:60:00:00', PAL)).toBeNull();
+  });
+});
+
+describe('timestamps and media time', () => {
+  it('converts between TAI timestamps and timecode from an origin', () => {
+    const origin = 1_000n * NANOS_PER_SECOND;
+    expect(timestampToTimecode(origin + 10n * NANOS_PER_SECOND, PAL, origin)).toBe('00:00:10:00');
+    expect(timecodeToTimestamp('00:00:10:00', PAL, origin)).toBe(origin + 10n * NANOS_PER_SECOND);
+    // Frame 1800, the first of the second minute, starts 60.06 seconds in
+    expect(timecodeToTimestamp('00:01:00;02', NTSC)).toBe(60_060_000_000n);
+  });
+
+  it('snaps media times onto the frame they fall in', () => {
+    expect(secondsToFrame(1 / 25, PAL)).toBe(1);
+    expect(secondsToFrame(0.079, PAL)).toBe(1);
+    expect(snapToFrame(0.079, PAL)).toBeCloseTo(0.06);
+    expect(mediaTimeToTimecode(60.06, NTSC)).toBe('00:01:00;02');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * SMPTE Timecode Utilities
+ *
+ * Converts between frame counts, TAI timestamps and SMPTE timecode (HH:MM:SS:FF) for
+ * rational frame rates. NTSC-family rates (30000/1001, 60000/1001) use drop-frame
+ * timecode (HH:MM:SS;FF), which skips frame numbers 0 and 1 (0-3 at 59.94) at the start
+ * of every minute except every tenth minute so that timecode tracks wall-clock time.
+ */
+
+import {
+  countToTimestamp,
+  timestampToCount,
+  type EditRate,
+  type TaiTimestamp,
+  type TimestampRounding
+} from './timerange';
+
+export interface Timecode {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number;
+  dropFrame: boolean;
+  negative: boolean;
+}
+
+const TIMECODE_PATTERN = /^(-)?(\d{1,3})[:;.](\d{2})[:;.](\d{2})([:;.,])(\d{2,3})$/;
+
+/**
+ * Nominal (integer) frame rate used for timecode counting, e.g. 30 for 30000/1001
+ */
+export function nominalFrameRate(rate: EditRate): number {
+  return Math.round(rate.numerator / (rate.denominator ?? 1));
+}
+
+/**
+ * Drop-frame timecode applies to the NTSC family of rates (29.97, 59.94)
+ */
+export function isDropFrameRate(rate: EditRate): boolean {
+  return rate.denominator === 1001 && rate.numerator % 30000 === 0;
+}
+
+/**
+ * Number of frame numbers skipped at the start of each non-tenth minute (2 at 29.97, 4 at 59.94)
+ */
+function droppedFramesPerMinute(rate: EditRate): number {
+  return Math.round(nominalFrameRate(rate) / 15);
+}
+
+/**
+ * Convert a frame count to timecode. Hours are not wrapped at 24 so that elapsed
+ * durations can be represented.
+ */
+export function framesToTimecode(
+  frameCount: bigint | number,
+  rate: EditRate,
+  dropFrame: boolean = isDropFrameRate(rate)
+): Timecode {
+  const fps = BigInt(nominalFrameRate(rate));
+  const negative = BigInt(frameCount) < 0n;
+  let frames = negative ? -BigInt(frameCount) : BigInt(frameCount);
+
+  if (dropFrame) {
+    const drop = BigInt(droppedFramesPerMinute(rate));
+    const framesPerMinute = fps * 60n - drop;
+    const framesPerTenMinutes = fps * 600n - drop * 9n;
+    const tenMinuteBlocks = frames / framesPerTenMinutes;
+    const remainder = frames % framesPerTenMinutes;
+    frames += drop * 9n * tenMinuteBlocks;
+    if (remainder > drop) {
+      frames += drop * ((remainder - drop) / framesPerMinute);
+    }
+  }
+
+  return {
+    hours: Number(frames / (fps * 3600n)),
+    minutes: Number((frames / (fps * 60n)) % 60n),
+    seconds: Number((frames / fps) % 60n),
+    frames: Number(frames % fps),
+    dropFrame,
+    negative
+  };
+}
+
+/**
+ * Convert timecode to a frame count at the given rate
+ */
+export function timecodeToFrames(timecode: Timecode, rate: EditRate): bigint {
+  const fps = BigInt(nominalFrameRate(rate));
+  const totalMinutes = BigInt(timecode.hours * 60 + timecode.minutes);
+  let frames = (BigInt(timecode.hours * 3600 + timecode.minutes * 60 + timecode.seconds)) * fps +
+    BigInt(timecode.frames);
+
+  if (timecode.dropFrame) {
+    const drop = BigInt(droppedFramesPerMinute(rate));
+    frames -= drop * (totalMinutes - totalMinutes / 10n);
+  }
+  return timecode.negative ? -frames : frames;
+}
+
+/**
+ * Format timecode as HH:MM:SS:FF (HH:MM:SS;FF for drop-frame)
+ */
+export function formatTimecode(timecode: Timecode): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const separator = timecode.dropFrame ? ';' : ':';
+  return `${timecode.negative ? '-' : ''}${pad(timecode.hours)}:${pad(timecode.minutes)}:${pad(timecode.seconds)}${separator}${pad(timecode.frames)}`;
+}
+
+/**
+ * Parse a timecode string for the given rate. A ";" or "," before the frames field
+ * selects drop-frame, which is only valid for drop-frame rates.
+ */
+export function parseTimecode(value: string, rate: EditRate): Timecode {
+  const match = TIMECODE_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid timecode "${value}": expected HH:MM:SS:FF`);
+  }
+
+  const [, sign, hoursText, minutesText, secondsText, separator, framesText] = match;
+  const timecode: Timecode = {
+    hours: Number(hoursText),
+    minutes: Number(minutesText),
+    seconds: Number(secondsText),
+    frames: Number(framesText),
+    dropFrame: separator === ';' || separator === ',',
+    negative: sign === '-'
+  };
+
+  const fps = nominalFrameRate(rate);
+  if (timecode.minutes > 59 || timecode.seconds > 59) {
+    throw new Error(`Invalid timecode "${value}": minutes and seconds must be below 60`);
+  }
+  if (timecode.frames >= fps) {
+    throw new Error(`Invalid timecode "${value}": frames must be below ${fps} at ${formatEditRate(rate)}`);
+  }
+  if (timecode.dropFrame) {
+    if (!isDropFrameRate(rate)) {
+      throw new Error(`Invalid timecode "${value}": drop-frame is only valid at 29.97 or 59.94 fps`);
+    }
+    if (timecode.seconds === 0 && timecode.minutes % 10 !== 0 && timecode.frames < droppedFramesPerMinute(rate)) {
+      throw new Error(`Invalid timecode "${value}": frame ${framesText} is dropped at the start of this minute`);
+    }
+  }
+  return timecode;
+}
+
+/**
+ * Parse a timecode string, returning null instead of throwing
+ */
+export function tryParseTimecode(value: string, rate: EditRate): Timecode | null {
+  try {
+    return parseTimecode(value, rate);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format an edit rate for display, e.g. "25", "29.97"
+ */
+export function formatEditRate(rate: EditRate): string {
+  const fps = rate.numerator / (rate.denominator ?? 1);
+  return Number.isInteger(fps) ? fps.toString() : fps.toFixed(2);
+}
+
+// ---------------------------------------------------------------------------
+// Timestamp conversions
+// ---------------------------------------------------------------------------
+
+/**
+ * Timecode of a TAI timestamp, counted in frames from `origin` (defaults to the epoch)
+ */
+export function timestampToTimecode(
+  timestamp: TaiTimestamp,
+  rate: EditRate,
+  origin: TaiTimestamp = 0n,
+  rounding: TimestampRounding = 'floor'
+): string {
+  return formatTimecode(framesToTimecode(timestampToCount(timestamp - origin, rate, rounding), rate));
+}
+
+/**
+ * TAI timestamp of the first instant of the frame addressed by a timecode string
+ */
+export function timecodeToTimestamp(value: string, rate: EditRate, origin: TaiTimestamp = 0n): TaiTimestamp {
+  return origin + countToTimestamp(timecodeToFrames(parseTimecode(value, rate), rate), rate);
+}
+
+// ---------------------------------------------------------------------------
+// Media element seeking
+// ---------------------------------------------------------------------------
+
+/**
+ * Index of the frame shown at a media time (seconds)
+ */
+export function secondsToFrame(seconds: number, rate: EditRate): number {
+  // Small tolerance so that a time computed from a frame boundary maps back onto that frame
+  return Math.floor((seconds * rate.numerator) / (rate.denominator ?? 1) + 1e-6);
+}
+
+/**
+ * Media time (seconds) at which a frame starts
+ */
+export function frameToSeconds(frame: number, rate: EditRate): number {
+  return (frame * (rate.denominator ?? 1)) / rate.numerator;
+}
+
+/**
+ * Media time (seconds) to seek to for a frame. Targets the middle of the frame so that
+ * floating point rounding in the media element never lands on the previous frame.
+ */
+export function frameToSeekTime(frame: number, rate: EditRate): number {
+  return ((Math.max(0, frame) + 0.5) * (rate.denominator ?? 1)) / rate.numerator;
+}
+
+/**
+ * Snap a media time onto the frame it falls in, returning the seek time for that frame
+ */
+export function snapToFrame(seconds: number, rate: EditRate): number {
+  return frameToSeekTime(secondsToFrame(seconds, rate), rate);
+}
+
+/**
+ * Timecode of a media element time (elapsed from the start of the media)
+ */
+export function mediaTimeToTimecode(seconds: number, rate: EditRate): string {
+  return formatTimecode(framesToTimecode(secondsToFrame(seconds, rate), rate));
+}
@@ -0,0 +1,142 @@
+/**
+ * Timerange Tests
+ *
+ * Parsing, formatting and arithmetic of TAMS timeranges, including the empty and
+ * unbounded forms the specification allows.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_TIMERANGE,
+  ETERNITY,
+  countToTimestamp,
+  createTimerange,
+  formatTaiTimestamp,
+  formatTimerange,
+  intersectTimeranges,
+  isEmptyTimerange,
+  mergeTimeranges,
+  normaliseTimestamp,
+  parseTaiTimestamp,
+  parseTimerange,
+  subtractTimerange,
+  taiTimestamp,
+  timerangeContains,
+  timerangeDuration,
+  timerangesAreContiguous,
+  timerangesOverlap,
+  timestampToCount,
+  tryParseTimerange,
+  unionTimeranges
+} from './timerange';
+
+const range = (value: string) => parseTimerange(value);
+
+describe('timestamps', () => {
+  it('parses and formats seconds:nanoseconds, with the sign applying to the whole value', () => {
+    expect(parseTaiTimestamp('10:500000000')).toBe(10_500_000_000n);
+    expect(parseTaiTimestamp('-1:500000000')).toBe(-1_500_000_000n);
+    expect(formatTaiTimestamp(-1_500_000_000n)).toBe('-1:500000000');
+    expect(formatTaiTimestamp(taiTimestamp(1_700_000_000, 1))).toBe('1700000000:1');
+  });
+
+  it('rejects malformed timestamps', () => {
+    expect(() => parseTaiTimestamp('1.5')).toThrow('Invalid TAMS timestamp');
+    expect(() => parseTaiTimestamp('1:1000000000')).toThrow();
+    expect(() => parseTaiTimestamp('01:0')).toThrow();
+  });
+
+  it('converts between timestamps and edit units at rational rates', () => {
+    const ntsc = { numerator: 30000, denominator: 1001 };
+    expect(timestampToCount(taiTimestamp(1001), ntsc)).toBe(30000n);
+    expect(countToTimestamp(1, ntsc)).toBe(33_366_667n);
+    // Floor rounds towards negative infinity for timestamps before the epoch
+    expect(timestampToCount(-1n, { numerator: 25 })).toBe(-1n);
+    expect(normaliseTimestamp(taiTimestamp(0, 30_000_000), { numerator: 25 })).toBe(40_000_000n);
+  });
+});
+
+describe('parsing and formatting', () => {
+  it('round-trips canonical strings', () => {
+    for (const value of ['[0:0_10:0)', '(5:0_6:0]', '[5:0]', '[100:0_', '_200:0)', '_', '()']) {
+      expect(formatTimerange(range(value))).toBe(value);
+    }
+  });
+
+  it('reads every empty form as the empty range', () => {
+    for (const value of ['', '()', '[)', '(]', '[]']) {
+      expect(isEmptyTimerange(range(value))).toBe(true);
+    }
+    expect(isEmptyTimerange(range('[5:0_5:0)'))).toBe(true);
+    expect(isEmptyTimerange(range('[6:0_5:0)'))).toBe(true);
+    expect(formatTimerange(range('[5:0_5:0)'))).toBe('()');
+  });
+
+  it('treats open bounds as unbounded and inclusive', () => {
+    expect(range('_')).toEqual(ETERNITY);
+    expect(range('[100:0_')).toEqual({ start: 100_000_000_000n, end: null, includesStart: true, includesEnd: true });
+    expect(range('_200:0)')).toEqual({ start: null, end: 200_000_000_000n, includesStart: true, includesEnd: false });
+  });
+
+  it('reads a bare timestamp as an instant', () => {
+    expect(range('5:0')).toEqual(createTimerange(5_000_000_000n, 5_000_000_000n, true, true));
+  });
+
+  it('rejects malformed ranges with the input in the message', () => {
+    expect(() => range('[0:0_1:0_2:0)')).toThrow('Invalid TAMS timerange "[0:0_1:0_2:0)"');
+    expect(tryParseTimerange('nonsense')).toBeNull();
+    expect(tryParseTimerange(undefined)).toBeNull();
+  });
+});
+
+describe('queries', () => {
+  it('measures bounded, empty and unbounded ranges', () => {
+    expect(timerangeDuration(range('[0:0_10:0)'))).toBe(10_000_000_000n);
+    expect(timerangeDuration(EMPTY_TIMERANGE)).toBe(0n);
+    expect(timerangeDuration(range('[0:0_'))).toBeNull();
+    expect(timerangeDuration(ETERNITY)).toBeNull();
+  });
+
+  it('honours inclusive and exclusive bounds', () => {
+    const segment = range('[0:0_10:0)');
+    expect(timerangeContains(segment, 0n)).toBe(true);
+    expect(timerangeContains(segment, 10_000_000_000n)).toBe(false);
+    expect(timerangeContains(ETERNITY, -1n)).toBe(true);
+    expect(timerangeContains(EMPTY_TIMERANGE, 0n)).toBe(false);
+  });
+
+  it('does not count touching ranges as overlapping', () => {
+    expect(timerangesOverlap(range('[0:0_10:0)'), range('[10:0_20:0)'))).toBe(false);
+    expect(timerangesOverlap(range('[0:0_10:0]'), range('[10:0_20:0)'))).toBe(true);
+    expect(timerangesAreContiguous(range('[0:0_10:0)'), range('[10:0_20:0)'))).toBe(true);
+    expect(timerangesAreContiguous(range('[0:0_10:0)'), range('(10:0_20:0)'))).toBe(false);
+  });
+});
+
+describe('arithmetic', () => {
+  it('intersects with unbounded and empty ranges', () => {
+    expect(intersectTimeranges(range('[5:0_'), range('_10:0)'))).toEqual(range('[5:0_10:0)'));
+    expect(intersectTimeranges(ETERNITY, range('[1:0_2:0)'))).toEqual(range('[1:0_2:0)'));
+    expect(intersectTimeranges(range('[0:0_1:0)'), range('[2:0_3:0)'))).toBe(EMPTY_TIMERANGE);
+    expect(intersectTimeranges(EMPTY_TIMERANGE, ETERNITY)).toBe(EMPTY_TIMERANGE);
+  });
+
+  it('unions only ranges without a gap between them', () => {
+    expect(unionTimeranges(range('[0:0_10:0)'), range('[10:0_20:0)'))).toEqual(range('[0:0_20:0)'));
+    expect(unionTimeranges(range('[0:0_10:0)'), range('[11:0_20:0)'))).toBeNull();
+    expect(unionTimeranges(EMPTY_TIMERANGE, range('[1:0_2:0)'))).toEqual(range('[1:0_2:0)'));
+  });
+
+  it('subtracts into the pieces left on either side', () => {
+    expect(subtractTimerange(range('[0:0_30:0)'), range('[10:0_20:0)'))).toEqual([range('[0:0_10:0)'), range('[20:0_30:0)')]);
+    expect(subtractTimerange(ETERNITY, range('[10:0_'))).toEqual([range('_10:0)')]);
+    expect(subtractTimerange(range('[0:0_10:0)'), ETERNITY)).toEqual([]);
+    expect(subtractTimerange(EMPTY_TIMERANGE, range('[0:0_1:0)'))).toEqual([]);
+  });
+
+  it('merges into sorted disjoint ranges, dropping empty ones', () => {
+    const merged = mergeTimeranges([range('[20:0_30:0)'), EMPTY_TIMERANGE, range('[0:0_10:0)'), range('[5:0_12:0)')]);
+    expect(merged.map(formatTimerange)).toEqual(['[0:0_12:0)', '[20:0_30:0)']);
+    expect(mergeTimeranges([range('[0:0_'), range('[5:0_10:0)')]).map(formatTimerange)).toEqual(['[0:0_']);
+  });
+});
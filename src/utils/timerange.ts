@@ -0,0 +1,497 @@
+/**
+ * TAMS Timerange Utilities
+ *
+ * Shared representation of TAMS timestamps and timeranges. Timestamps are TAI
+ * seconds:nanoseconds held as BigInt nanoseconds so that arithmetic on large
+ * epoch values never loses precision. Timeranges follow the TAMS v6.0 string
+ * format, e.g. "[0:0_10:0)", "[5:0]", "_" (eternity) and "()" (empty).
+ *
+ * Canonical strings (as emitted by TAMS servers) round-trip byte-for-byte:
+ * formatTimerange(parseTimerange(s)) === s.
+ */
+
+/**
+ * A TAI timestamp expressed as nanoseconds since the TAI epoch
+ */
+export type TaiTimestamp = bigint;
+
+/**
+ * A TAMS timerange. A null bound means the range is unbounded on that side.
+ */
+export interface Timerange {
+  start: TaiTimestamp | null;
+  end: TaiTimestamp | null;
+  includesStart: boolean;
+  includesEnd: boolean;
+}
+
+/**
+ * Rational edit rate, e.g. { numerator: 30000, denominator: 1001 }
+ */
+export interface EditRate {
+  numerator: number;
+  denominator?: number;
+}
+
+export type TimestampRounding = 'floor' | 'ceil' | 'round';
+
+export const NANOS_PER_SECOND = 1_000_000_000n;
+
+export const ETERNITY: Timerange = Object.freeze({
+  start: null,
+  end: null,
+  includesStart: true,
+  includesEnd: true
+});
+
+export const EMPTY_TIMERANGE: Timerange = Object.freeze({
+  start: 0n,
+  end: 0n,
+  includesStart: false,
+  includesEnd: false
+});
+
+// Timestamp pattern from the TAMS specification: [-]seconds:nanoseconds
+const TIMESTAMP_PATTERN = /^(-)?(0|[1-9][0-9]*):(0|[1-9][0-9]{0,8})$/;
+
+const EMPTY_TIMERANGE_STRINGS = ['', '()', '[)', '(]', '[]'];
+
+// ---------------------------------------------------------------------------
+// Timestamps
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a TAMS timestamp ("seconds:nanoseconds") into TAI nanoseconds.
+ * The sign applies to the whole value, so "-1:500000000" is -1.5 seconds.
+ */
+export function parseTaiTimestamp(value: string): TaiTimestamp {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid TAMS timestamp: "${value}"`);
+  }
+  const [, sign, seconds, nanoseconds] = match;
+  const magnitude = BigInt(seconds || '0') * NANOS_PER_SECOND + BigInt(nanoseconds || '0');
+  return sign ? -magnitude : magnitude;
+}
+
+/**
+ * Format TAI nanoseconds as a TAMS timestamp ("seconds:nanoseconds")
+ */
+export function formatTaiTimestamp(timestamp: TaiTimestamp): string {
+  const negative = timestamp < 0n;
+  const magnitude = negative ? -timestamp : timestamp;
+  const seconds = magnitude / NANOS_PER_SECOND;
+  const nanoseconds = magnitude % NANOS_PER_SECOND;
+  return `${negative ? '-' : ''}${seconds}:${nanoseconds}`;
+}
+
+/**
+ * Build a timestamp from whole seconds and a nanosecond offset
+ */
+export function taiTimestamp(seconds: number | bigint, nanoseconds: number | bigint = 0): TaiTimestamp {
+  return BigInt(seconds) * NANOS_PER_SECOND + BigInt(nanoseconds);
+}
+
+/**
+ * Split a timestamp into its seconds and nanoseconds components
+ * (nanoseconds always carry the same sign as the timestamp)
+ */
+export function splitTaiTimestamp(timestamp: TaiTimestamp): { seconds: bigint; nanoseconds: bigint } {
+  return {
+    seconds: timestamp / NANOS_PER_SECOND,
+    nanoseconds: timestamp % NANOS_PER_SECOND
+  };
+}
+
+/**
+ * Convert a timestamp to floating point seconds (lossy - for display and charts only)
+ */
+export function timestampToSeconds(timestamp: TaiTimestamp): number {
+  const { seconds, nanoseconds } = splitTaiTimestamp(timestamp);
+  return Number(seconds) + Number(nanoseconds) / 1e9;
+}
+
+/**
+ * Convert floating point seconds to a timestamp, rounded to the nearest nanosecond
+ */
+export function secondsToTimestamp(seconds: number): TaiTimestamp {
+  const whole = Math.floor(seconds);
+  const nanoseconds = Math.round((seconds - whole) * 1e9);
+  return taiTimestamp(whole, nanoseconds);
+}
+
+/**
+ * Integer division with an explicit rounding mode (divisor must be positive)
+ */
+function divide(dividend: bigint, divisor: bigint, rounding: TimestampRounding): bigint {
+  const quotient = dividend / divisor;
+  const remainder = dividend % divisor;
+  if (remainder === 0n) return quotient;
+
+  // BigInt division truncates towards zero, so correct negative results to floor
+  const floor = remainder < 0n ? quotient - 1n : quotient;
+  switch (rounding) {
+    case 'floor':
+      return floor;
+    case 'ceil':
+      return floor + 1n;
+    case 'round':
+      return (dividend - floor * divisor) * 2n >= divisor ? floor + 1n : floor;
+  }
+}
+
+function rateParts(rate: EditRate): { numerator: bigint; denominator: bigint } {
+  const numerator = BigInt(rate.numerator);
+  const denominator = BigInt(rate.denominator ?? 1);
+  if (numerator <= 0n || denominator <= 0n) {
+    throw new Error(`Invalid edit rate: ${rate.numerator}/${rate.denominator ?? 1}`);
+  }
+  return { numerator, denominator };
+}
+
+/**
+ * Convert a timestamp to a count of edit units (frames or samples) at the given rate
+ */
+export function timestampToCount(
+  timestamp: TaiTimestamp,
+  rate: EditRate,
+  rounding: TimestampRounding = 'floor'
+): bigint {
+  const { numerator, denominator } = rateParts(rate);
+  return divide(timestamp * numerator, denominator * NANOS_PER_SECOND, rounding);
+}
+
+/**
+ * Convert a count of edit units at the given rate to a timestamp
+ */
+export function countToTimestamp(
+  count: bigint | number,
+  rate: EditRate,
+  rounding: TimestampRounding = 'round'
+): TaiTimestamp {
+  const { numerator, denominator } = rateParts(rate);
+  return divide(BigInt(count) * denominator * NANOS_PER_SECOND, numerator, rounding);
+}
+
+/**
+ * Snap a timestamp onto an edit unit boundary of the given rate
+ */
+export function normaliseTimestamp(
+  timestamp: TaiTimestamp,
+  rate: EditRate,
+  rounding: TimestampRounding = 'round'
+): TaiTimestamp {
+  return countToTimestamp(timestampToCount(timestamp, rate, rounding), rate);
+}
+
+// ---------------------------------------------------------------------------
+// Timerange construction and serialisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a timerange. Defaults to the TAMS convention of inclusive start and exclusive end.
+ */
+export function createTimerange(
+  start: TaiTimestamp | null,
+  end: TaiTimestamp | null,
+  includesStart: boolean = true,
+  includesEnd: boolean = false
+): Timerange {
+  return {
+    start,
+    end,
+    includesStart: start === null ? true : includesStart,
+    includesEnd: end === null ? true : includesEnd
+  };
+}
+
+/**
+ * Create a timerange covering a single instant
+ */
+export function instantTimerange(timestamp: TaiTimestamp): Timerange {
+  return createTimerange(timestamp, timestamp, true, true);
+}
+
+/**
+ * Parse a TAMS timerange string. Throws on malformed input.
+ */
+export function parseTimerange(value: string): Timerange {
+  let text = value.trim();
+  if (EMPTY_TIMERANGE_STRINGS.includes(text)) {
+    return EMPTY_TIMERANGE;
+  }
+  if (text === '_') {
+    return ETERNITY;
+  }
+
+  let includesStart = true;
+  let includesEnd: boolean | null = null;
+  if (text.startsWith('[') || text.startsWith('(')) {
+    includesStart = text.startsWith('[');
+    text = text.slice(1);
+  }
+  if (text.endsWith(']') || text.endsWith(')')) {
+    includesEnd = text.endsWith(']');
+    text = text.slice(0, -1);
+  }
+
+  try {
+    if (!text.includes('_')) {
+      // A single timestamp denotes an instant, inclusive at both ends unless brackets say otherwise
+      const instant = parseTaiTimestamp(text);
+      return createTimerange(instant, instant, includesStart, includesEnd ?? true);
+    }
+
+    const parts = text.split('_');
+    if (parts.length !== 2) {
+      throw new Error('too many "_" separators');
+    }
+    const [startText = '', endText = ''] = parts;
+    const start = startText === '' ? null : parseTaiTimestamp(startText);
+    const end = endText === '' ? null : parseTaiTimestamp(endText);
+    return createTimerange(start, end, includesStart, includesEnd ?? false);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid TAMS timerange "${value}": ${reason}`);
+  }
+}
+
+/**
+ * Parse a TAMS timerange string, returning null instead of throwing
+ */
+export function tryParseTimerange(value: string | null | undefined): Timerange | null {
+  if (typeof value !== 'string') return null;
+  try {
+    return parseTimerange(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a string is a valid TAMS timerange
+ */
+export function isValidTimerange(value: string): boolean {
+  return tryParseTimerange(value) !== null;
+}
+
+/**
+ * Serialise a timerange to its canonical TAMS string form
+ */
+export function formatTimerange(range: Timerange): string {
+  if (isEmptyTimerange(range)) {
+    return '()';
+  }
+  if (range.start !== null && range.start === range.end) {
+    return `[${formatTaiTimestamp(range.start)}]`;
+  }
+
+  const startPart = range.start === null
+    ? ''
+    : `${range.includesStart ? '[' : '('}${formatTaiTimestamp(range.start)}`;
+  const endPart = range.end === null
+    ? ''
+    : `${formatTaiTimestamp(range.end)}${range.includesEnd ? ']' : ')'}`;
+  return `${startPart}_${endPart}`;
+}
+
+// ---------------------------------------------------------------------------
+// Timerange queries
+// ---------------------------------------------------------------------------
+
+export function isEmptyTimerange(range: Timerange): boolean {
+  if (range.start === null || range.end === null) return false;
+  if (range.start > range.end) return true;
+  return range.start === range.end && !(range.includesStart && range.includesEnd);
+}
+
+export function isEternity(range: Timerange): boolean {
+  return range.start === null && range.end === null;
+}
+
+export function isBoundedTimerange(range: Timerange): boolean {
+  return range.start !== null && range.end !== null;
+}
+
+/**
+ * Duration of a bounded timerange in nanoseconds (null when unbounded)
+ */
+export function timerangeDuration(range: Timerange): bigint | null {
+  if (isEmptyTimerange(range)) return 0n;
+  if (range.start === null || range.end === null) return null;
+  return range.end - range.start;
+}
+
+/**
+ * Check whether a timestamp falls inside a timerange
+ */
+export function timerangeContains(range: Timerange, timestamp: TaiTimestamp): boolean {
+  if (isEmptyTimerange(range)) return false;
+  if (range.start !== null) {
+    if (timestamp < range.start) return false;
+    if (timestamp === range.start && !range.includesStart) return false;
+  }
+  if (range.end !== null) {
+    if (timestamp > range.end) return false;
+    if (timestamp === range.end && !range.includesEnd) return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether `inner` lies entirely within `outer`
+ */
+export function timerangeContainsRange(outer: Timerange, inner: Timerange): boolean {
+  if (isEmptyTimerange(inner)) return true;
+  if (isEmptyTimerange(outer)) return false;
+  return compareStarts(outer, inner) <= 0 && compareEnds(outer, inner) >= 0;
+}
+
+export function timerangesOverlap(a: Timerange, b: Timerange): boolean {
+  return !isEmptyTimerange(intersectTimeranges(a, b));
+}
+
+export function timerangesEqual(a: Timerange, b: Timerange): boolean {
+  if (isEmptyTimerange(a) || isEmptyTimerange(b)) {
+    return isEmptyTimerange(a) && isEmptyTimerange(b);
+  }
+  return compareStarts(a, b) === 0 && compareEnds(a, b) === 0;
+}
+
+/**
+ * Order two ranges by their start bound (an unbounded start sorts first).
+ * Returns a negative number when `a` starts before `b`.
+ */
+export function compareStarts(a: Timerange, b: Timerange): number {
+  if (a.start === null || b.start === null) {
+    return (a.start === null ? 0 : 1) - (b.start === null ? 0 : 1);
+  }
+  if (a.start !== b.start) return a.start < b.start ? -1 : 1;
+  if (a.includesStart === b.includesStart) return 0;
+  return a.includesStart ? -1 : 1;
+}
+
+/**
+ * Order two ranges by their end bound (an unbounded end sorts last).
+ * Returns a negative number when `a` ends before `b`.
+ */
+export function compareEnds(a: Timerange, b: Timerange): number {
+  if (a.end === null || b.end === null) {
+    return (a.end === null ? 1 : 0) - (b.end === null ? 1 : 0);
+  }
+  if (a.end !== b.end) return a.end < b.end ? -1 : 1;
+  if (a.includesEnd === b.includesEnd) return 0;
+  return a.includesEnd ? 1 : -1;
+}
+
+// ---------------------------------------------------------------------------
+// Timerange arithmetic
+// ---------------------------------------------------------------------------
+
+/**
+ * Intersection of two timeranges (may be empty)
+ */
+export function intersectTimeranges(a: Timerange, b: Timerange): Timerange {
+  if (isEmptyTimerange(a) || isEmptyTimerange(b)) return EMPTY_TIMERANGE;
+  const startFrom = compareStarts(a, b) >= 0 ? a : b;
+  const endFrom = compareEnds(a, b) <= 0 ? a : b;
+  const result = createTimerange(startFrom.start, endFrom.end, startFrom.includesStart, endFrom.includesEnd);
+  return isEmptyTimerange(result) ? EMPTY_TIMERANGE : result;
+}
+
+/**
+ * Smallest timerange covering both inputs, including any gap between them
+ */
+export function extendTimerange(a: Timerange, b: Timerange): Timerange {
+  if (isEmptyTimerange(a)) return b;
+  if (isEmptyTimerange(b)) return a;
+  const startFrom = compareStarts(a, b) <= 0 ? a : b;
+  const endFrom = compareEnds(a, b) >= 0 ? a : b;
+  return createTimerange(startFrom.start, endFrom.end, startFrom.includesStart, endFrom.includesEnd);
+}
+
+/**
+ * Check whether two ranges overlap or touch with no gap between them
+ */
+export function timerangesAreContiguous(a: Timerange, b: Timerange): boolean {
+  if (isEmptyTimerange(a) || isEmptyTimerange(b)) return true;
+  if (timerangesOverlap(a, b)) return true;
+  const [first, second] = compareStarts(a, b) <= 0 ? [a, b] : [b, a];
+  return first.end !== null &&
+    first.end === second.start &&
+    (first.includesEnd || second.includesStart);
+}
+
+/**
+ * Union of two timeranges, or null if they are disjoint (a union would leave a gap)
+ */
+export function unionTimeranges(a: Timerange, b: Timerange): Timerange | null {
+  return timerangesAreContiguous(a, b) ? extendTimerange(a, b) : null;
+}
+
+/**
+ * Remove `b` from `a`, returning the zero, one or two pieces of `a` that remain
+ */
+export function subtractTimerange(a: Timerange, b: Timerange): Timerange[] {
+  const overlap = intersectTimeranges(a, b);
+  if (isEmptyTimerange(overlap)) {
+    return isEmptyTimerange(a) ? [] : [a];
+  }
+
+  const pieces: Timerange[] = [];
+  if (overlap.start !== null) {
+    const before = createTimerange(a.start, overlap.start, a.includesStart, !overlap.includesStart);
+    if (!isEmptyTimerange(before)) pieces.push(before);
+  }
+  if (overlap.end !== null) {
+    const after = createTimerange(overlap.end, a.end, !overlap.includesEnd, a.includesEnd);
+    if (!isEmptyTimerange(after)) pieces.push(after);
+  }
+  return pieces;
+}
+
+/**
+ * Merge a list of ranges into the minimal sorted set of disjoint ranges
+ */
+export function mergeTimeranges(ranges: Timerange[]): Timerange[] {
+  const sorted = ranges.filter(range => !isEmptyTimerange(range)).sort(compareStarts);
+  const merged: Timerange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    const union = last ? unionTimeranges(last, range) : null;
+    if (last && union) {
+      merged[merged.length - 1] = union;
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Shift a timerange by a (possibly negative) offset in nanoseconds
+ */
+export function offsetTimerange(range: Timerange, offset: bigint): Timerange {
+  if (isEmptyTimerange(range)) return range;
+  return {
+    ...range,
+    start: range.start === null ? null : range.start + offset,
+    end: range.end === null ? null : range.end + offset
+  };
+}
+
+/**
+ * Snap both bounds of a timerange onto edit unit boundaries of the given rate
+ */
+export function normaliseTimerange(
+  range: Timerange,
+  rate: EditRate,
+  rounding: TimestampRounding = 'round'
+): Timerange {
+  if (isEmptyTimerange(range)) return range;
+  return {
+    ...range,
+    start: range.start === null ? null : normaliseTimestamp(range.start, rate, rounding),
+    end: range.end === null ? null : normaliseTimestamp(range.end, rate, rounding)
+  };
+}
@@ -6,6 +6,14 @@
  */
 
 import { VastTamsSegment } from '../services/vastTamsApi';
+import { timerangeDuration, timestampToSeconds, tryParseTimerange, type TaiTimestamp } from './timerange';
+import { dateToTai } from './taiUtc';
+import {
+  formatTaiForDisplay,
+  getStoredTimeDisplayMode,
+  type TimeDisplayMode,
+  type TimeDisplayOptions
+} from './timeDisplay';
 
 /**
  * Extract video playback URL from VAST TAMS segment
@@ -72,12 +80,18 @@ export function hasValidVideoUrls(segment: VastTamsSegment): boolean {
 }
 
 /**
- * Get segment metadata for display
+ * Get segment metadata for display.
+ * Start and end are rendered in the given time display mode (defaults to the persisted mode).
  */
-export function getSegmentDisplayInfo(segment: VastTamsSegment): {
+export function getSegmentDisplayInfo(
+  segment: VastTamsSegment,
+  display: { mode?: TimeDisplayMode } & TimeDisplayOptions = {}
+): {
   id: string;
   title: string;
   description: string;
+  start: string;
+  end: string;
   duration: string;
   format: string;
   codec: string;
@@ -87,18 +101,36 @@ export function getSegmentDisplayInfo(segment: VastTamsSegment): {
 } {
   const urls = getAllSegmentUrls(segment);
   
-  // Parse timerange to get duration
+  const mode = display.mode ?? getStoredTimeDisplayMode();
+  const formatBound = (timestamp: TaiTimestamp | null): string =>
+    timestamp === null ? 'Unbounded' : formatTaiForDisplay(timestamp, mode, display);
+
+  // Parse timerange to get start, end and duration
+  let start = 'Unknown';
+  let end = 'Unknown';
   let duration = 'Unknown';
   if (segment.timerange) {
     try {
-      // Handle ISO 8601 duration format or start/end format
-      if (segment.timerange.includes('/')) {
-        const [start, end] = segment.timerange.split('/');
-        if (start && end) {
-          const startTime = new Date(start);
-          const endTime = new Date(end);
+      // Handle TAMS timerange format, ISO 8601 duration format or start/end format
+      const parsed = tryParseTimerange(segment.timerange);
+      const parsedDuration = parsed ? timerangeDuration(parsed) : null;
+      if (parsed) {
+        start = formatBound(parsed.start);
+        end = formatBound(parsed.end);
+      }
+      if (parsedDuration !== null) {
+        duration = formatDuration(timestampToSeconds(parsedDuration) * 1000);
+      } else if (segment.timerange.includes('/')) {
+        const [startText, endText] = segment.timerange.split('/');
+        if (startText && endText) {
+          const startTime = new Date(startText);
+          const endTime = new Date(endText);
           const durationMs = endTime.getTime() - startTime.getTime();
           duration = formatDuration(durationMs);
+          if (!isNaN(durationMs)) {
+            start = formatBound(dateToTai(startTime));
+            end = formatBound(dateToTai(endTime));
+          }
         }
       } else {
         // Assume it's a duration string
@@ -116,6 +148,8 @@ export function getSegmentDisplayInfo(segment: VastTamsSegment): {
     id: segment.id,
     title: segment.id, // Use ID as title if no label
     description: `Segment ${segment.id}`,
+    start,
+    end,
     duration,
     format: segment.format || 'Unknown',
     codec: segment.codec || 'Unknown',